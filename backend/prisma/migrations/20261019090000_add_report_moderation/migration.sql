@@ -0,0 +1,34 @@
+-- AlterTable: suspension flag for moderated accounts
+ALTER TABLE `User` ADD COLUMN `suspendedAt` DATETIME(3) NULL;
+
+-- AlterTable: report review state
+ALTER TABLE `UserReport`
+  ADD COLUMN `status` ENUM('OPEN', 'ACTIONED', 'DISMISSED') NOT NULL DEFAULT 'OPEN',
+  ADD COLUMN `resolvedAt` DATETIME(3) NULL,
+  ADD COLUMN `moderationActionId` BIGINT NULL;
+
+-- CreateTable: ModerationAction (audit trail)
+CREATE TABLE `ModerationAction` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `targetId` BIGINT NOT NULL,
+    `actorId` BIGINT NOT NULL,
+    `action` ENUM('WARN', 'HIDE_PROFILE', 'SUSPEND', 'DELETE_ACCOUNT', 'DISMISS') NOT NULL,
+    `note` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ModerationAction_targetId_createdAt_idx`(`targetId`, `createdAt`),
+    INDEX `ModerationAction_actorId_createdAt_idx`(`actorId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `UserReport_status_targetId_idx` ON `UserReport`(`status`, `targetId`);
+CREATE INDEX `UserReport_moderationActionId_idx` ON `UserReport`(`moderationActionId`);
+
+-- AddForeignKey
+ALTER TABLE `ModerationAction` ADD CONSTRAINT `ModerationAction_targetId_fkey`
+    FOREIGN KEY (`targetId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE `ModerationAction` ADD CONSTRAINT `ModerationAction_actorId_fkey`
+    FOREIGN KEY (`actorId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE `UserReport` ADD CONSTRAINT `UserReport_moderationActionId_fkey`
+    FOREIGN KEY (`moderationActionId`) REFERENCES `ModerationAction`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `emailVerifiedAt` DATETIME(3) NULL;
+
+-- Existing accounts predate verification; treat them as verified so they keep messaging access
+UPDATE `User` SET `emailVerifiedAt` = `createdAt` WHERE `emailVerifiedAt` IS NULL;
+
+-- CreateTable
+CREATE TABLE `AuthToken` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `userId` BIGINT NOT NULL,
+    `purpose` ENUM('PASSWORD_RESET', 'EMAIL_VERIFY') NOT NULL,
+    `tokenHash` CHAR(64) NOT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `usedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `AuthToken_tokenHash_key`(`tokenHash`),
+    INDEX `AuthToken_userId_purpose_createdAt_idx`(`userId`, `purpose`, `createdAt`),
+    INDEX `AuthToken_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `AuthToken` ADD CONSTRAINT `AuthToken_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `AuthSession` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `userId` BIGINT NOT NULL,
+    `refreshTokenHash` CHAR(64) NOT NULL,
+    `previousTokenHash` CHAR(64) NULL,
+    `rotatedAt` DATETIME(3) NULL,
+    `rememberMe` BOOLEAN NOT NULL DEFAULT false,
+    `userAgent` VARCHAR(512) NULL,
+    `deviceLabel` VARCHAR(120) NULL,
+    `ipAddress` VARCHAR(64) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `lastUsedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `expiresAt` DATETIME(3) NOT NULL,
+    `revokedAt` DATETIME(3) NULL,
+    `revokedReason` VARCHAR(32) NULL,
+
+    UNIQUE INDEX `AuthSession_refreshTokenHash_key`(`refreshTokenHash`),
+    INDEX `AuthSession_userId_revokedAt_idx`(`userId`, `revokedAt`),
+    INDEX `AuthSession_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `AuthSession` ADD CONSTRAINT `AuthSession_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
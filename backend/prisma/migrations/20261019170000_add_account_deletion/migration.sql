@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `deletionRequestedAt` DATETIME(3) NULL,
+    ADD COLUMN `deletionScheduledFor` DATETIME(3) NULL,
+    ADD COLUMN `purgedAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `User_deletionScheduledFor_idx` ON `User`(`deletionScheduledFor`);
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE `Notification` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `userId` BIGINT NOT NULL,
+    `type` ENUM('MATCH_NEW', 'ACCESS_REQUEST', 'COMMENT_REPLY', 'COMMENT_MENTION', 'POST_LIKE', 'PROFILE_RATING') NOT NULL,
+    `actorId` BIGINT NULL,
+    `entityId` BIGINT NULL,
+    `data` JSON NULL,
+    `readAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `Notification_userId_id_idx`(`userId`, `id`),
+    INDEX `Notification_userId_readAt_idx`(`userId`, `readAt`),
+    INDEX `Notification_actorId_idx`(`actorId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `NotificationMute` (
+    `userId` BIGINT NOT NULL,
+    `type` ENUM('MATCH_NEW', 'ACCESS_REQUEST', 'COMMENT_REPLY', 'COMMENT_MENTION', 'POST_LIKE', 'PROFILE_RATING') NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`userId`, `type`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Notification` ADD CONSTRAINT `Notification_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Notification` ADD CONSTRAINT `Notification_actorId_fkey` FOREIGN KEY (`actorId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `NotificationMute` ADD CONSTRAINT `NotificationMute_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
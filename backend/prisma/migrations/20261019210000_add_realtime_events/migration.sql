@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `RealtimeEvent` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `channel` VARCHAR(32) NOT NULL,
+    `origin` VARCHAR(64) NOT NULL,
+    `payload` JSON NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `RealtimeEvent_createdAt_idx`(`createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE `Message` ADD COLUMN `editedAt` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `MessageEdit` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `messageId` BIGINT NOT NULL,
+    `body` TEXT NOT NULL,
+    `editedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `MessageEdit_messageId_id_idx`(`messageId`, `id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `MessageReaction` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `messageId` BIGINT NOT NULL,
+    `userId` BIGINT NOT NULL,
+    `emoji` VARCHAR(32) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `MessageReaction_messageId_userId_emoji_key`(`messageId`, `userId`, `emoji`),
+    INDEX `MessageReaction_userId_idx`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `MessageEdit` ADD CONSTRAINT `MessageEdit_messageId_fkey` FOREIGN KEY (`messageId`) REFERENCES `Message`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `MessageReaction` ADD CONSTRAINT `MessageReaction_messageId_fkey` FOREIGN KEY (`messageId`) REFERENCES `Message`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `MessageReaction` ADD CONSTRAINT `MessageReaction_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
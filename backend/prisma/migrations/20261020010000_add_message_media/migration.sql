@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `MessageMedia` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `messageId` BIGINT NOT NULL,
+    `mediaId` BIGINT NOT NULL,
+    `order` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `MessageMedia_messageId_order_idx`(`messageId`, `order`),
+    INDEX `MessageMedia_mediaId_idx`(`mediaId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `MessageMedia` ADD CONSTRAINT `MessageMedia_messageId_fkey` FOREIGN KEY (`messageId`) REFERENCES `Message`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `MessageMedia` ADD CONSTRAINT `MessageMedia_mediaId_fkey` FOREIGN KEY (`mediaId`) REFERENCES `Media`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE FULLTEXT INDEX `Message_body_idx` ON `Message`(`body`);
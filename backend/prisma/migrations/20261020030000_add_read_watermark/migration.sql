@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE `ConversationUserState` ADD COLUMN `lastReadMessageId` BIGINT NULL,
+    ADD COLUMN `lastReadAt` DATETIME(3) NULL;
+
+-- Backfill watermarks from per-message receipts: the newest message each user read from the other side
+INSERT INTO `ConversationUserState` (`conversationId`, `userId`, `lastReadMessageId`, `lastReadAt`, `createdAt`, `updatedAt`)
+SELECT m.`conversationId`, r.`userId`, MAX(r.`messageId`), MAX(r.`readAt`), CURRENT_TIMESTAMP(3), CURRENT_TIMESTAMP(3)
+FROM `MessageReceipt` r
+JOIN `Message` m ON m.`id` = r.`messageId`
+WHERE r.`readAt` IS NOT NULL AND m.`senderId` <> r.`userId`
+GROUP BY m.`conversationId`, r.`userId`
+ON DUPLICATE KEY UPDATE
+    `lastReadMessageId` = VALUES(`lastReadMessageId`),
+    `lastReadAt` = VALUES(`lastReadAt`);
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `PrivacySetting` (
+    `userId` BIGINT NOT NULL,
+    `hideOnlineStatus` BOOLEAN NOT NULL DEFAULT false,
+    `hideLastSeen` BOOLEAN NOT NULL DEFAULT false,
+    `disableTypingIndicators` BOOLEAN NOT NULL DEFAULT false,
+    `disableReadReceipts` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`userId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PrivacySetting` ADD CONSTRAINT `PrivacySetting_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Media` ADD COLUMN `rejectionReason` VARCHAR(255) NULL;
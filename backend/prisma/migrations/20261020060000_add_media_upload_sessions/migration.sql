@@ -0,0 +1,23 @@
+-- CreateIndex
+CREATE INDEX `Media_ownerUserId_contentHash_idx` ON `Media`(`ownerUserId`, `contentHash`);
+
+-- CreateTable
+CREATE TABLE `MediaUploadSession` (
+    `id` VARCHAR(36) NOT NULL,
+    `ownerUserId` BIGINT NOT NULL,
+    `fileName` VARCHAR(255) NOT NULL,
+    `mimeType` VARCHAR(100) NOT NULL,
+    `visibility` ENUM('PUBLIC', 'PRIVATE') NOT NULL DEFAULT 'PUBLIC',
+    `totalBytes` INTEGER NOT NULL,
+    `receivedBytes` INTEGER NOT NULL DEFAULT 0,
+    `sha256` CHAR(64) NOT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'OPEN',
+    `mediaId` BIGINT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `MediaUploadSession_ownerUserId_status_idx`(`ownerUserId`, `status`),
+    INDEX `MediaUploadSession_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
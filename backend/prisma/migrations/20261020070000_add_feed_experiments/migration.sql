@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE `FeedSeen` ADD COLUMN `feedVariant` VARCHAR(64) NULL;
+
+-- CreateTable
+CREATE TABLE `FeedExperiment` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(64) NOT NULL,
+    `description` VARCHAR(500) NULL,
+    `allocations` JSON NOT NULL,
+    `status` ENUM('DRAFT', 'ACTIVE', 'ENDED') NOT NULL DEFAULT 'DRAFT',
+    `startedAt` DATETIME(3) NULL,
+    `endedAt` DATETIME(3) NULL,
+    `createdById` BIGINT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `FeedExperiment_name_key`(`name`),
+    INDEX `FeedExperiment_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `FeedExperimentEvent` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `experimentId` BIGINT NOT NULL,
+    `variant` VARCHAR(64) NOT NULL,
+    `userId` BIGINT NOT NULL,
+    `type` ENUM('SESSION', 'LIKE', 'COMMENT', 'PROFILE_OPEN', 'MATCH') NOT NULL,
+    `itemId` BIGINT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `FeedExperimentEvent_experimentId_variant_type_idx`(`experimentId`, `variant`, `type`),
+    INDEX `FeedExperimentEvent_experimentId_userId_type_createdAt_idx`(`experimentId`, `userId`, `type`, `createdAt`),
+    INDEX `FeedExperimentEvent_userId_idx`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `FeedExperimentEvent` ADD CONSTRAINT `FeedExperimentEvent_experimentId_fkey` FOREIGN KEY (`experimentId`) REFERENCES `FeedExperiment`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
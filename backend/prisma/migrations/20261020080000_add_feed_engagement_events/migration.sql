@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE `FeedEngagementEvent` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `userId` BIGINT NOT NULL,
+    `type` ENUM('DWELL', 'WATCH', 'PROFILE_OPEN', 'COMMENT_OPEN', 'HIDE', 'NOT_INTERESTED') NOT NULL,
+    `itemType` ENUM('POST', 'SUGGESTION') NOT NULL,
+    `itemId` BIGINT NOT NULL,
+    `dwellMs` INTEGER NULL,
+    `watchPct` DOUBLE NULL,
+    `feedVariant` VARCHAR(64) NULL,
+    `occurredAt` DATETIME(3) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `FeedEngagementEvent_createdAt_idx`(`createdAt`),
+    INDEX `FeedEngagementEvent_userId_occurredAt_idx`(`userId`, `occurredAt`),
+    INDEX `FeedEngagementEvent_itemType_itemId_type_idx`(`itemType`, `itemId`, `type`),
+    INDEX `FeedEngagementEvent_itemType_occurredAt_idx`(`itemType`, `occurredAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `PostEngagement` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `postId` BIGINT NOT NULL,
+    `impressions` INTEGER NOT NULL DEFAULT 0,
+    `avgDwellMs` DOUBLE NOT NULL DEFAULT 0,
+    `avgWatchPct` DOUBLE NULL,
+    `profileOpenRate` DOUBLE NOT NULL DEFAULT 0,
+    `commentOpenRate` DOUBLE NOT NULL DEFAULT 0,
+    `hideRate` DOUBLE NOT NULL DEFAULT 0,
+    `notInterestedRate` DOUBLE NOT NULL DEFAULT 0,
+    `engagementScore` DOUBLE NOT NULL DEFAULT 0,
+    `computedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `PostEngagement_postId_key`(`postId`),
+    INDEX `PostEngagement_engagementScore_idx`(`engagementScore`),
+    INDEX `PostEngagement_computedAt_idx`(`computedAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PostEngagement` ADD CONSTRAINT `PostEngagement_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
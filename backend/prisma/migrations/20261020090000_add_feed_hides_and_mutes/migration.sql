@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE `FeedHiddenPost` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `userId` BIGINT NOT NULL,
+    `postId` BIGINT NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `FeedHiddenPost_postId_idx`(`postId`),
+    UNIQUE INDEX `FeedHiddenPost_userId_postId_key`(`userId`, `postId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `FeedMute` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `muterId` BIGINT NOT NULL,
+    `mutedId` BIGINT NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `FeedMute_mutedId_idx`(`mutedId`),
+    UNIQUE INDEX `FeedMute_muterId_mutedId_key`(`muterId`, `mutedId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `FeedHiddenPost` ADD CONSTRAINT `FeedHiddenPost_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `FeedHiddenPost` ADD CONSTRAINT `FeedHiddenPost_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `FeedMute` ADD CONSTRAINT `FeedMute_muterId_fkey` FOREIGN KEY (`muterId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `FeedMute` ADD CONSTRAINT `FeedMute_mutedId_fkey` FOREIGN KEY (`mutedId`) REFERENCES `User`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
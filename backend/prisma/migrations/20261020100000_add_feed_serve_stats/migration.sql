@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `FeedServeStat` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `bucketStart` DATETIME(3) NOT NULL,
+    `path` ENUM('PRESORTED', 'LIVE') NOT NULL,
+    `reason` VARCHAR(32) NOT NULL,
+    `requests` INTEGER NOT NULL DEFAULT 0,
+    `segmentAgeMsSum` BIGINT NOT NULL DEFAULT 0,
+    `staleServes` INTEGER NOT NULL DEFAULT 0,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `FeedServeStat_bucketStart_idx`(`bucketStart`),
+    UNIQUE INDEX `FeedServeStat_bucketStart_path_reason_key`(`bucketStart`, `path`, `reason`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,6 @@
+-- AlterTable: suspensions can be lifted
+ALTER TABLE `ModerationAction` MODIFY `action` ENUM('WARN', 'HIDE_PROFILE', 'SUSPEND', 'UNSUSPEND', 'DELETE_ACCOUNT', 'DISMISS') NOT NULL;
+
+-- AlterTable: warned users are notified
+ALTER TABLE `Notification` MODIFY `type` ENUM('MATCH_NEW', 'ACCESS_REQUEST', 'COMMENT_REPLY', 'COMMENT_MENTION', 'POST_LIKE', 'PROFILE_RATING', 'MODERATION_WARNING') NOT NULL;
+ALTER TABLE `NotificationMute` MODIFY `type` ENUM('MATCH_NEW', 'ACCESS_REQUEST', 'COMMENT_REPLY', 'COMMENT_MENTION', 'POST_LIKE', 'PROFILE_RATING', 'MODERATION_WARNING') NOT NULL;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE `MediaUploadSession` ADD COLUMN `lockedUntil` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `MediaUploadChunk` (
+    `uploadId` VARCHAR(36) NOT NULL,
+    `offset` INTEGER NOT NULL,
+    `sizeBytes` INTEGER NOT NULL,
+    `storageKey` VARCHAR(255) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`uploadId`, `offset`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `MediaUploadChunk` ADD CONSTRAINT `MediaUploadChunk_uploadId_fkey` FOREIGN KEY (`uploadId`) REFERENCES `MediaUploadSession`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
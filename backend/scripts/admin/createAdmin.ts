@@ -11,6 +11,7 @@ async function createAdmin(email: string, password: string, role: 'ADMIN' | 'SUP
       email,
       passwordHash,
       role,
+      emailVerifiedAt: new Date(),
       profile: {
         create: {
           displayName: role === 'SUPER_ADMIN' ? 'Super Admin' : 'Admin',
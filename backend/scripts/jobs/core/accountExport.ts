@@ -0,0 +1,29 @@
+import type { JobDefinition } from '../../../src/lib/jobs/shared/types.js';
+import { parseBigIntArg, parseFlag } from '../../../src/lib/jobs/shared/utils.js';
+import { processAccountExport, runAccountExportJob } from '../../../src/jobs/accountExportJob.js';
+
+export const accountExportJob: JobDefinition = {
+  name: 'account-export',
+  description: 'Build a downloadable archive of one user\'s data (queued by POST /account/export)',
+  group: 'maintenance',
+  dependencies: [],
+  onDemandOnly: true,
+  examples: [
+    'tsx scripts/jobs/runners/runJobs.ts account-export --userId=123',
+    'tsx scripts/jobs/runners/runJobs.ts account-export --userId=123 --json'
+  ],
+  defaultParams: {},
+  run: async (ctx) => {
+    // Queued runs carry their params in JobRun.metadata
+    if (ctx) {
+      await processAccountExport(ctx.jobRunId);
+      return;
+    }
+
+    const userId = parseBigIntArg('--userId');
+    if (!userId) {
+      throw new Error('--userId required (example: tsx scripts/jobs/runners/runJobs.ts account-export --userId=123)');
+    }
+    await runAccountExportJob({ userId, format: parseFlag('--json') ? 'json' : 'zip' });
+  }
+};
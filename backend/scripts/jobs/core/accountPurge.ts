@@ -0,0 +1,16 @@
+import type { JobDefinition } from '../../../src/lib/jobs/shared/types.js';
+import { runAccountPurgeJob } from '../../../src/jobs/accountPurgeJob.js';
+
+export const accountPurgeJob: JobDefinition = {
+  name: 'account-purge',
+  description: 'Purge accounts past their deletion grace period and remove expired data exports',
+  group: 'maintenance',
+  dependencies: [],
+  examples: [
+    'tsx scripts/jobs/runners/runJobs.ts account-purge'
+  ],
+  defaultParams: {},
+  run: async () => {
+    await runAccountPurgeJob();
+  }
+};
@@ -24,7 +24,7 @@ export const affinityJob: JobDefinition = {
     const topCreatorsCount = parseIntArg('--topCreatorsCount', 20);
     const topTopicsCount = parseIntArg('--topTopicsCount', 30);
     const pauseMs = parseIntArg('--pauseMs', 50);
-    const algorithmVersion = getEnvVar('AFFINITY_ALGO_VERSION', 'v1');
+    const algorithmVersion = getEnvVar('AFFINITY_ALGO_VERSION', 'v2');
 
     await runUserAffinityJob({
       userId,
@@ -0,0 +1,34 @@
+import type { JobDefinition } from '../../../src/lib/jobs/shared/types.js';
+import { parseIntArg, getEnvVar } from '../../../src/lib/jobs/shared/utils.js';
+import { runFeedEngagementJob } from '../../../src/jobs/feedEngagementJob.js';
+
+export const feedEngagementJob: JobDefinition = {
+  name: 'feed-engagement',
+  description: 'Roll feed engagement events up into per-post rates and prune expired events',
+  group: 'feed',
+  dependencies: [],
+  examples: [
+    'tsx scripts/jobs/runners/runJobs.ts feed-engagement --windowDays=30 --minImpressions=20 --retentionDays=90'
+  ],
+  defaultParams: {
+    windowDays: 30,
+    minImpressions: 20,
+    retentionDays: 90,
+    batchSize: 500
+  },
+  run: async () => {
+    const windowDays = parseIntArg('--windowDays', 30);
+    const minImpressions = parseIntArg('--minImpressions', 20);
+    const retentionDays = parseIntArg('--retentionDays', 90);
+    const batchSize = parseIntArg('--batchSize', 500);
+    const algorithmVersion = getEnvVar('FEED_ENGAGEMENT_ALGO_VERSION', 'v1');
+
+    await runFeedEngagementJob({
+      windowDays,
+      minImpressions,
+      retentionDays,
+      batchSize,
+      algorithmVersion
+    });
+  }
+};
@@ -6,7 +6,7 @@ export const feedPresortJob: JobDefinition = {
   name: 'feed-presort',
   description: 'Presort feed segments for users',
   group: 'feed',
-  dependencies: ['match-scores', 'affinity', 'content-features'],
+  dependencies: ['match-scores', 'affinity', 'content-features', 'feed-engagement'],
   examples: [
     'tsx scripts/jobs/runners/runJobs.ts feed-presort --userId=8 --batchSize=100 --segmentSize=20'
   ],
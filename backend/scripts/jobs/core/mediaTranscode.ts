@@ -0,0 +1,24 @@
+import type { JobDefinition } from '../../../src/lib/jobs/shared/types.js';
+import { parseBigIntArg } from '../../../src/lib/jobs/shared/utils.js';
+import { runMediaTranscodeJob } from '../../../src/jobs/mediaTranscodeJob.js';
+
+export const mediaTranscodeJob: JobDefinition = {
+  name: 'media-transcode',
+  description: 'Generate poster, preview loop and HLS renditions for a single video',
+  group: 'media',
+  dependencies: [],
+  examples: [
+    'tsx scripts/jobs/runners/runJobs.ts media-transcode --mediaId=123'
+  ],
+  defaultParams: {},
+  run: async () => {
+    const mediaId = parseBigIntArg('--mediaId');
+    if (!mediaId) {
+      throw new Error('--mediaId required (example: tsx scripts/jobs/runners/runJobs.ts media-transcode --mediaId=123)');
+    }
+
+    await runMediaTranscodeJob({
+      mediaId,
+    });
+  }
+};
@@ -0,0 +1,26 @@
+import type { JobDefinition } from '../../../src/lib/jobs/shared/types.js';
+import { parseIntArg } from '../../../src/lib/jobs/shared/utils.js';
+import { runMediaTranscodeBatchJob } from '../../../src/jobs/mediaTranscodeJob.js';
+
+export const mediaTranscodeBatchJob: JobDefinition = {
+  name: 'media-transcode-batch',
+  description: 'Transcode videos that do not have a poster and preview yet',
+  group: 'media',
+  dependencies: [],
+  examples: [
+    'tsx scripts/jobs/runners/runJobs.ts media-transcode-batch --batchSize=20 --pauseMs=100'
+  ],
+  defaultParams: {
+    batchSize: 20,
+    pauseMs: 100
+  },
+  run: async () => {
+    const batchSize = parseIntArg('--batchSize', 20);
+    const pauseMs = parseIntArg('--pauseMs', 100);
+
+    await runMediaTranscodeBatchJob({
+      batchSize,
+      pauseMs,
+    });
+  }
+};
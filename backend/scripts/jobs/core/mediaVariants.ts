@@ -0,0 +1,24 @@
+import type { JobDefinition } from '../../../src/lib/jobs/shared/types.js';
+import { parseBigIntArg } from '../../../src/lib/jobs/shared/utils.js';
+import { runMediaVariantsJob } from '../../../src/jobs/mediaVariantsJob.js';
+
+export const mediaVariantsJob: JobDefinition = {
+  name: 'media-variants',
+  description: 'Generate responsive image variants for a single image',
+  group: 'media',
+  dependencies: [],
+  examples: [
+    'tsx scripts/jobs/runners/runJobs.ts media-variants --mediaId=123'
+  ],
+  defaultParams: {},
+  run: async () => {
+    const mediaId = parseBigIntArg('--mediaId');
+    if (!mediaId) {
+      throw new Error('--mediaId required (example: tsx scripts/jobs/runners/runJobs.ts media-variants --mediaId=123)');
+    }
+
+    await runMediaVariantsJob({
+      mediaId,
+    });
+  }
+};
@@ -0,0 +1,26 @@
+import type { JobDefinition } from '../../../src/lib/jobs/shared/types.js';
+import { parseIntArg } from '../../../src/lib/jobs/shared/utils.js';
+import { runMediaVariantsBatchJob } from '../../../src/jobs/mediaVariantsJob.js';
+
+export const mediaVariantsBatchJob: JobDefinition = {
+  name: 'media-variants-batch',
+  description: 'Generate responsive variants for images that do not have them yet',
+  group: 'media',
+  dependencies: [],
+  examples: [
+    'tsx scripts/jobs/runners/runJobs.ts media-variants-batch --batchSize=50 --pauseMs=100'
+  ],
+  defaultParams: {
+    batchSize: 50,
+    pauseMs: 100
+  },
+  run: async () => {
+    const batchSize = parseIntArg('--batchSize', 50);
+    const pauseMs = parseIntArg('--pauseMs', 100);
+
+    await runMediaVariantsBatchJob({
+      batchSize,
+      pauseMs,
+    });
+  }
+};
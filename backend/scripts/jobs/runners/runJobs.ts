@@ -12,7 +12,7 @@ const PIPELINES: Record<string, string[]> = {
   search: ['profile-search-index', 'searchable-user', 'user-interest-sets', 'interest-relationships', 'quiz-answer-stats']
 };
 
-const MEDIA_JOBS = new Set(['media-metadata', 'media-metadata-batch', 'media-metadata-all']);
+const MEDIA_JOBS = new Set(['media-metadata', 'media-metadata-batch', 'media-metadata-all', 'media-variants', 'media-variants-batch', 'media-transcode', 'media-transcode-batch']);
 
 function isFullRun(args: string[]): boolean {
   return args.includes('--full') || args.includes('--force');
@@ -20,7 +20,7 @@ function isFullRun(args: string[]): boolean {
 
 function filterAllJobs(jobNames: string[], fullRun: boolean): string[] {
   if (fullRun) {
-    return jobNames.filter((name) => name !== 'media-metadata' && name !== 'media-metadata-batch');
+    return jobNames.filter((name) => name !== 'media-metadata' && name !== 'media-metadata-batch' && name !== 'media-variants' && name !== 'media-transcode');
   }
   return jobNames.filter((name) => !MEDIA_JOBS.has(name));
 }
@@ -100,7 +100,7 @@ async function main() {
 
   if (command === 'all' || PIPELINES[command]) {
     const jobs = await getAllJobs();
-    const jobNames = Object.keys(jobs).filter(name => name !== 'all');
+    const jobNames = Object.keys(jobs).filter(name => name !== 'all' && !jobs[name].onDemandOnly);
     const selectedJobs = command === 'all'
       ? filterAllJobs(jobNames, fullRun)
       : PIPELINES[command];
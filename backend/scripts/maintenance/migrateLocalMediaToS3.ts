@@ -0,0 +1,98 @@
+/**
+ * Copy every file under MEDIA_UPLOAD_ROOT into the S3 bucket configured by S3_* env vars,
+ * keeping storage keys unchanged so existing Media rows and URLs keep working.
+ *
+ * Usage: tsx scripts/maintenance/migrateLocalMediaToS3.ts [--dry-run] [--overwrite]
+ *
+ * Safe to re-run: objects that already exist are skipped unless --overwrite is given.
+ * Local files are left in place; switch MEDIA_STORAGE=s3 once the copy has finished.
+ */
+import { createReadStream } from 'fs';
+import { readdir } from 'fs/promises';
+import path from 'path';
+import { MEDIA_UPLOAD_ROOT, readS3Config } from '../../src/services/media/config.js';
+import { S3StorageProvider } from '../../src/services/media/s3StorageProvider.js';
+import { parseVariantKey, variantMimeType } from '../../src/services/media/imageVariants.js';
+import { parseRenditionKey } from '../../src/services/media/videoRenditions.js';
+
+// Upload temp files and the startup write probes are not media
+const SKIPPED_ENTRIES = new Set(['tmp', '.startup-test', '.test-write']);
+
+const EXTENSION_MIME: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.json': 'application/json',
+  '.zip': 'application/zip'
+};
+
+function contentTypeFor(key: string) {
+  const variant = parseVariantKey(key);
+  if (variant) return variantMimeType(variant.format);
+  const rendition = parseRenditionKey(key);
+  if (rendition) return rendition.mimeType;
+  return EXTENSION_MIME[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
+
+async function* walk(dir: string, prefix = ''): AsyncGenerator<string> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (!prefix && SKIPPED_ENTRIES.has(entry.name)) continue;
+    const key = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      yield* walk(path.join(dir, entry.name), key);
+    } else if (entry.isFile()) {
+      yield key;
+    }
+  }
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const overwrite = process.argv.includes('--overwrite');
+  const target = new S3StorageProvider(readS3Config());
+
+  console.log(`[migrate-media-s3] Copying ${MEDIA_UPLOAD_ROOT}${dryRun ? ' (dry run)' : ''}`);
+
+  let copied = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for await (const key of walk(MEDIA_UPLOAD_ROOT)) {
+    try {
+      if (!overwrite && (await target.exists(key))) {
+        skipped += 1;
+        continue;
+      }
+      if (!dryRun) {
+        await target.put(createReadStream(path.join(MEDIA_UPLOAD_ROOT, key)), key, {
+          contentType: contentTypeFor(key)
+        });
+      }
+      copied += 1;
+      if (copied % 100 === 0) {
+        console.log(`[migrate-media-s3] ${copied} copied, ${skipped} skipped, ${failed} failed`);
+      }
+    } catch (err) {
+      failed += 1;
+      console.error(`[migrate-media-s3] Failed to copy ${key}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  console.log(`[migrate-media-s3] Done: ${copied} ${dryRun ? 'to copy' : 'copied'}, ${skipped} already present, ${failed} failed`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error('[migrate-media-s3] Failed', err);
+  process.exit(1);
+});
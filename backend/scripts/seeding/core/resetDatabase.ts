@@ -60,6 +60,15 @@ async function resetDatabase(onlyTestData = false) {
   const whereUserClause = testUserIds ? { id: { in: testUserIds } } : {};
   
   // Activity data
+  await prisma.messageReaction.deleteMany({
+    where: { message: { senderId: { in: testUserIds || [] } } }
+  });
+  await prisma.messageEdit.deleteMany({
+    where: { message: { senderId: { in: testUserIds || [] } } }
+  });
+  await prisma.messageMedia.deleteMany({
+    where: { message: { senderId: { in: testUserIds || [] } } }
+  });
   await prisma.message.deleteMany({ where: { senderId: { in: testUserIds || [] } } });
   console.log('✓ Deleted messages');
   
@@ -226,9 +226,11 @@ export async function seedMassProfiles(options: SeedOptions) {
   // Step 3: Insert users
   console.log('\n[4/7] Inserting users...');
   const passwordHash = await bcrypt.hash('Password123!', 10);
+  const verifiedAt = new Date();
   const userRows = profiles.map(p => ({
     email: p.email,
-    passwordHash
+    passwordHash,
+    emailVerifiedAt: verifiedAt
   }));
   
   const tracker1 = createProgressTracker('Users', userRows.length);
@@ -931,6 +931,7 @@ async function seedPersona(seed: SeedPersona, ctx: SeedContext) {
     create: {
       email: seed.email,
       passwordHash,
+      emailVerifiedAt: new Date(),
       profile: {
         create: {
           displayName: seed.displayName,
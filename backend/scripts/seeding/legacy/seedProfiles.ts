@@ -174,6 +174,7 @@ async function seedProfile(seed: SeedProfile) {
     create: {
       email: seed.email,
       passwordHash,
+      emailVerifiedAt: new Date(),
       profile: {
         create: {
           displayName: seed.displayName,
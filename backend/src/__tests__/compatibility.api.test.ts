@@ -162,6 +162,11 @@ async function cleanupUsers(userIds: bigint[]) {
       where: { OR: [{ userId: { in: userIds } }, { candidateUserId: { in: userIds } }] }
     })
   );
+  await safeDelete(
+    prisma.notification.deleteMany({
+      where: { OR: [{ userId: { in: userIds } }, { actorId: { in: userIds } }] }
+    })
+  );
   await safeDelete(prisma.quizResult.deleteMany({ where: { userId: { in: userIds } } }));
   await safeDelete(prisma.userInterest.deleteMany({ where: { userId: { in: userIds } } }));
   await safeDelete(prisma.profile.deleteMany({ where: { userId: { in: userIds } } }));
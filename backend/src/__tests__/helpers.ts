@@ -0,0 +1,196 @@
+import assert from 'node:assert';
+import bcrypt from 'bcryptjs';
+import type { Request, Response } from 'express';
+import { prisma } from '../lib/prisma/client.js';
+import { matchesDomain } from '../registry/domains/matches/index.js';
+import { messagingDomain } from '../registry/domains/messaging/index.js';
+import type { DomainRegistry } from '../registry/types.js';
+
+type Cookies = Record<string, string>;
+
+export type MockResponse = Response & { getBody: () => string; getStatus: () => number; getCookies: () => Cookies };
+
+/**
+ * Captures what a route handler writes through `json()` and any cookies it sets.
+ */
+export function createMockResponse(): MockResponse {
+  let statusCode = 200;
+  let body = '';
+  const cookies: Cookies = {};
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return res;
+    },
+    type() {
+      return res;
+    },
+    send(payload: string) {
+      body = payload;
+      return res;
+    },
+    cookie(name: string, value: string) {
+      cookies[name] = value;
+      return res;
+    },
+    getBody() {
+      return body;
+    },
+    getStatus() {
+      return statusCode;
+    },
+    getCookies() {
+      return cookies;
+    }
+  };
+  return res as unknown as MockResponse;
+}
+
+export type RouteCallOptions = {
+  query?: Record<string, string>;
+  params?: Record<string, string>;
+  body?: unknown;
+  cookies?: Cookies;
+  userAgent?: string;
+};
+
+/**
+ * Run a registry route's handler directly, as `userId` (null for anonymous calls).
+ * Several domains can be passed when a test crosses them; the route id picks the handler.
+ */
+export async function callRoute(
+  domains: DomainRegistry | DomainRegistry[],
+  routeId: string,
+  userId: bigint | null,
+  options: RouteCallOptions = {}
+) {
+  const routes = (Array.isArray(domains) ? domains : [domains]).flatMap((d) => d.routes);
+  const route = routes.find((r) => r.id === routeId);
+  if (!route) throw new Error(`Route not found: ${routeId}`);
+  const req = {
+    ctx: { userId },
+    cookies: options.cookies ?? {},
+    query: options.query ?? {},
+    params: options.params ?? {},
+    body: options.body ?? {},
+    get: (name: string) => (name.toLowerCase() === 'user-agent' ? options.userAgent : undefined),
+    ip: '127.0.0.1'
+  } as unknown as Request;
+  const res = createMockResponse();
+  await route.handler(req, res, () => undefined);
+  return {
+    status: res.getStatus(),
+    body: res.getBody() ? JSON.parse(res.getBody()) : null,
+    cookies: res.getCookies()
+  };
+}
+
+export type TestUserOptions = {
+  // Part of the email and display name, so leftover rows point at their test
+  label: string;
+  // Hashed for real when a test signs in; otherwise a hash nothing matches
+  password?: string;
+  verified?: boolean;
+  role?: 'USER' | 'ADMIN';
+  // false for a user without a profile
+  profile?: false | { bio?: string };
+};
+
+export async function createUsers(count: number, options: TestUserOptions) {
+  const { label, password, verified = true, role, profile = {} } = options;
+  const stamp = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+  const passwordHash = password ? await bcrypt.hash(password, 10) : 'hash';
+  return Promise.all(
+    Array.from({ length: count }, (_, i) =>
+      prisma.user.create({
+        data: {
+          email: `test-${label}-${i}-${stamp}@example.com`,
+          passwordHash,
+          role,
+          emailVerifiedAt: verified ? new Date() : null,
+          profile: profile
+            ? { create: { displayName: `${label}${stamp}${i}`, isVisible: true, bio: profile.bio } }
+            : undefined
+        },
+        include: { profile: { select: { displayName: true } } }
+      })
+    )
+  );
+}
+
+export async function createUser(options: TestUserOptions) {
+  const [user] = await createUsers(1, options);
+  return user;
+}
+
+/**
+ * Remove test users and everything that references them, children first.
+ */
+export async function cleanupUsers(userIds: bigint[]) {
+  const ids = { in: userIds };
+  const conversations = await prisma.conversation.findMany({
+    where: { OR: [{ userAId: ids }, { userBId: ids }] },
+    select: { id: true }
+  });
+  const conversationIds = conversations.map((c) => c.id);
+  const inConversations = { message: { conversationId: { in: conversationIds } } };
+  const media = await prisma.media.findMany({ where: { ownerUserId: ids }, select: { id: true } });
+  const mediaIds = media.map((m) => m.id);
+
+  await prisma.messageReceipt.deleteMany({ where: inConversations });
+  await prisma.messageReaction.deleteMany({ where: inConversations });
+  await prisma.messageEdit.deleteMany({ where: inConversations });
+  await prisma.messageMedia.deleteMany({ where: { OR: [inConversations, { mediaId: { in: mediaIds } }] } });
+  await prisma.message.deleteMany({ where: { OR: [{ conversationId: { in: conversationIds } }, { senderId: ids }] } });
+  await prisma.conversationUserState.deleteMany({ where: { conversationId: { in: conversationIds } } });
+  await prisma.conversation.deleteMany({ where: { id: { in: conversationIds } } });
+
+  await prisma.notification.deleteMany({ where: { OR: [{ userId: ids }, { actorId: ids }] } });
+  await prisma.notificationMute.deleteMany({ where: { userId: ids } });
+  await prisma.comment.deleteMany({ where: { authorId: ids } });
+  await prisma.post.deleteMany({ where: { userId: ids } });
+  await prisma.like.deleteMany({ where: { OR: [{ fromUserId: ids }, { toUserId: ids }] } });
+  await prisma.matchScore.deleteMany({ where: { OR: [{ userId: ids }, { candidateUserId: ids }] } });
+  await prisma.match.deleteMany({ where: { OR: [{ userAId: ids }, { userBId: ids }] } });
+  await prisma.userBlock.deleteMany({ where: { OR: [{ blockerId: ids }, { blockedId: ids }] } });
+  await prisma.userReport.deleteMany({ where: { OR: [{ reporterId: ids }, { targetId: ids }] } });
+  await prisma.moderationAction.deleteMany({ where: { OR: [{ actorId: ids }, { targetId: ids }] } });
+
+  await prisma.mediaUploadSession.deleteMany({ where: { ownerUserId: ids } });
+  await prisma.media.deleteMany({ where: { id: { in: mediaIds } } });
+  await prisma.authToken.deleteMany({ where: { userId: ids } });
+  await prisma.authSession.deleteMany({ where: { userId: ids } });
+  await prisma.jobRun.deleteMany({ where: { scope: { in: userIds.map((id) => `user:${id}`) } } });
+  await prisma.privacySetting.deleteMany({ where: { userId: ids } });
+  await prisma.userPreference.deleteMany({ where: { userId: ids } });
+  await prisma.presortedFeedSegment.deleteMany({ where: { userId: ids } });
+  await prisma.profileStats.deleteMany({ where: { profile: { userId: ids } } });
+  await prisma.profile.deleteMany({ where: { userId: ids } });
+  await prisma.user.deleteMany({ where: { id: ids } });
+}
+
+/**
+ * Like each other through the API and return the resulting match and its conversation.
+ */
+export async function matchPair(aId: bigint, bId: bigint) {
+  await callRoute(matchesDomain, 'matches.POST./likes', aId, { body: { toUserId: String(bId), action: 'LIKE' } });
+  const res = await callRoute(matchesDomain, 'matches.POST./likes', bId, {
+    body: { toUserId: String(aId), action: 'LIKE' }
+  });
+  assert.strictEqual(res.body.matched, true);
+  const match = await prisma.match.findUniqueOrThrow({
+    where: { id: BigInt(res.body.matchId) },
+    include: { conversation: { select: { id: true } } }
+  });
+  assert.ok(match.conversation);
+  return { matchId: match.id, conversationId: match.conversation.id };
+}
+
+export async function sendMessage(conversationId: bigint, senderId: bigint, body: string) {
+  const res = await callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/messages', senderId, {
+    params: { conversationId: String(conversationId) },
+    body: { body }
+  });
+  assert.strictEqual(res.status, 201);
+  return String(res.body.id);
+}
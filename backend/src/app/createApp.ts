@@ -146,7 +146,15 @@ export function createApp() {
     
     process.stdout.write(`[media] GET /media/* request for key: ${key}\n`);
     try {
-      const result = await mediaService.getMediaStreamByKey(key, req.ctx.userId ?? null);
+      const result = await mediaService.getMediaStreamByKey(key, req.ctx.userId ?? null, {
+        expires: typeof req.query.expires === 'string' ? req.query.expires : undefined,
+        signature: typeof req.query.signature === 'string' ? req.query.signature : undefined
+      });
+      if ('redirectUrl' in result) {
+        // Presigned object-store URL; never cache the redirect longer than the URL lives
+        res.set('Cache-Control', result.cacheable ? 'private, max-age=60' : 'no-store');
+        return res.redirect(302, result.redirectUrl);
+      }
       process.stdout.write(`[media] GET /media/*: stream created, mimeType=${result.mimeType}\n`);
       res.status(200).type(result.mimeType);
       
@@ -6,6 +6,7 @@ import { createServer as createHttpsServer } from 'node:https';
 import { readFileSync } from 'node:fs';
 import { createApp } from './app/createApp.js';
 import { createWsServer } from './ws/index.js';
+import { flushFeedEngagementEvents } from './services/feed/feedEngagementService.js';
 
 function loadEnv() {
   if (process.env.DATABASE_URL) return;
@@ -160,6 +161,10 @@ async function testMediaVolume() {
     }
     process.stdout.write(`[server] PORT=${port} NODE_ENV=${process.env.NODE_ENV || 'development'}\n`);
 
+    // Signed media URLs must verify on every instance; refuse to start without the secret where it is required
+    const { getMediaUrlSigningSecret } = await import('./services/media/signedUrls.js');
+    getMediaUrlSigningSecret();
+
     // Test media volume before starting server
     await testMediaVolume();
 
@@ -230,14 +235,21 @@ async function testMediaVolume() {
         }
         connections.clear();
         
-        // Clear force shutdown timer since we're shutting down cleanly
-        if (forceShutdownTimer) {
-          clearTimeout(forceShutdownTimer);
-          forceShutdownTimer = null;
-        }
-        
-        process.stdout.write('[server] Shutdown complete\n');
-        process.exit(0);
+        // Write buffered feed engagement events before exiting
+        void flushFeedEngagementEvents()
+          .catch((flushErr) => {
+            process.stderr.write(`[server] Error flushing feed events: ${String(flushErr)}\n`);
+          })
+          .finally(() => {
+            // Clear force shutdown timer since we're shutting down cleanly
+            if (forceShutdownTimer) {
+              clearTimeout(forceShutdownTimer);
+              forceShutdownTimer = null;
+            }
+            
+            process.stdout.write('[server] Shutdown complete\n');
+            process.exit(0);
+          });
       });
     };
 
@@ -0,0 +1,97 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma/client.js';
+import { runJob } from '../lib/jobs/runJob.js';
+import {
+  deleteAccountExport,
+  isAccountExportKey,
+  writeAccountExport,
+  type AccountExportFormat
+} from '../services/account/accountExport.js';
+import { ACCOUNT_EXPORT_JOB, ACCOUNT_EXPORT_TTL_MS } from '../services/account/config.js';
+
+export type AccountExportParams = {
+  userId: string;
+  format: AccountExportFormat;
+};
+
+/**
+ * Build the export for a queued account-export run.
+ * Params come from JobRun.metadata.params; the result is written back into metadata
+ * so GET /account/export can report it.
+ */
+export async function processAccountExport(jobRunId: bigint) {
+  const run = await prisma.jobRun.findUnique({
+    where: { id: jobRunId },
+    select: { metadata: true }
+  });
+  const metadata = (run?.metadata ?? {}) as { params?: Partial<AccountExportParams> };
+  const params = metadata.params ?? {};
+  if (!params.userId || !/^\d+$/.test(params.userId)) {
+    throw new Error('account-export requires params.userId');
+  }
+  const format: AccountExportFormat = params.format === 'json' ? 'json' : 'zip';
+
+  const result = await writeAccountExport(BigInt(params.userId), format);
+  const expiresAt = new Date(Date.now() + ACCOUNT_EXPORT_TTL_MS);
+
+  await prisma.jobRun.update({
+    where: { id: jobRunId },
+    data: {
+      metadata: {
+        ...metadata,
+        result: { ...result, format, expiresAt: expiresAt.toISOString() }
+      } as Prisma.InputJsonValue
+    }
+  });
+  return result;
+}
+
+/**
+ * CLI entry point: export one user's data without going through the queue.
+ */
+export async function runAccountExportJob(options: { userId: bigint; format?: AccountExportFormat }) {
+  const params: AccountExportParams = { userId: options.userId.toString(), format: options.format ?? 'zip' };
+  return runJob(
+    {
+      jobName: ACCOUNT_EXPORT_JOB,
+      trigger: 'MANUAL',
+      scope: `user:${options.userId}`,
+      algorithmVersion: 'v1',
+      metadata: { params }
+    },
+    async (ctx) => processAccountExport(ctx.jobRunId)
+  );
+}
+
+/**
+ * Remove export files whose download window has passed.
+ */
+export async function cleanupExpiredExports(now = new Date()) {
+  const runs = await prisma.jobRun.findMany({
+    where: { jobName: ACCOUNT_EXPORT_JOB, status: 'SUCCESS' },
+    select: { id: true, metadata: true }
+  });
+
+  let removed = 0;
+  for (const run of runs) {
+    const result = (run.metadata as { result?: { storageKey?: string; expiresAt?: string; removedAt?: string } } | null)?.result;
+    if (!isAccountExportKey(result?.storageKey) || !result.expiresAt || result.removedAt) continue;
+    if (new Date(result.expiresAt) > now) continue;
+    try {
+      await deleteAccountExport(result.storageKey);
+      await prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          metadata: {
+            ...(run.metadata as Record<string, unknown>),
+            result: { ...result, removedAt: now.toISOString() }
+          } as Prisma.InputJsonValue
+        }
+      });
+      removed++;
+    } catch (err) {
+      console.error(`[account-purge] Failed to remove export for run ${run.id}:`, err);
+    }
+  }
+  return removed;
+}
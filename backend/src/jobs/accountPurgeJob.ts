@@ -0,0 +1,25 @@
+import { runJob } from '../lib/jobs/runJob.js';
+import { purgeDueAccounts } from '../services/account/accountDeletion.js';
+import { ACCOUNT_PURGE_JOB } from '../services/account/config.js';
+import { cleanupExpiredExports } from './accountExportJob.js';
+
+/**
+ * Purge accounts whose deletion grace period has ended and drop expired export files.
+ * Run periodically (e.g., daily).
+ */
+export async function runAccountPurgeJob() {
+  return runJob(
+    {
+      jobName: ACCOUNT_PURGE_JOB,
+      trigger: 'CRON',
+      scope: 'cleanup',
+      algorithmVersion: 'v1',
+      metadata: {}
+    },
+    async () => {
+      const { purged, failed } = await purgeDueAccounts();
+      const exportsRemoved = await cleanupExpiredExports();
+      return { purged, failed, exportsRemoved };
+    }
+  );
+}
@@ -474,7 +474,7 @@ export async function recomputeCompatibilityForUser(viewerId: bigint, overrides:
     }
 
     const candidateProfiles = await prisma.profile.findMany({
-      where: { userId: { in: batchIds }, deletedAt: null, user: { deletedAt: null } },
+      where: { userId: { in: batchIds }, deletedAt: null, user: { deletedAt: null, suspendedAt: null } },
       select: { id: true, userId: true }
     });
     const profileIdByUserId = new Map<bigint, bigint>();
@@ -0,0 +1,161 @@
+import type { FeedEngagementEventType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma/client.js';
+import { runJob } from '../lib/jobs/runJob.js';
+import { pruneFeedEngagementEvents } from '../services/feed/feedEngagementService.js';
+
+type FeedEngagementJobConfig = {
+  windowDays: number;
+  minImpressions: number;
+  retentionDays: number;
+  batchSize: number;
+  algorithmVersion: string;
+};
+
+type FeedEngagementJobOptions = Partial<FeedEngagementJobConfig>;
+
+const DEFAULT_CONFIG: FeedEngagementJobConfig = {
+  windowDays: 30,
+  minImpressions: 20,
+  // Also the affinity job's longest useful lookback
+  retentionDays: 90,
+  batchSize: 500,
+  algorithmVersion: 'v1'
+};
+
+export const FEED_ENGAGEMENT_DEFAULTS = { ...DEFAULT_CONFIG };
+
+// Average dwell at which the dwell part of the score reaches 0.5
+const DWELL_HALF_MS = 5000;
+// Open rate (profile + comments) that counts as fully engaging
+const OPEN_RATE_CEILING = 0.2;
+// Hide + not-interested rate at which the score drops to 0
+const NEGATIVE_RATE_CEILING = 0.05;
+
+export type PostEngagementRates = {
+  impressions: number;
+  avgDwellMs: number;
+  avgWatchPct: number | null;
+  profileOpenRate: number;
+  commentOpenRate: number;
+  hideRate: number;
+  notInterestedRate: number;
+};
+
+function clamp(value: number, min = 0, max = 1) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Single [0, 1] engagement score for ranking: dwell, watch-through and opens
+ * raise it, hides and "not interested" scale it down.
+ */
+export function postEngagementScore(rates: PostEngagementRates) {
+  const dwell = rates.avgDwellMs / (rates.avgDwellMs + DWELL_HALF_MS);
+  const opens = clamp((rates.profileOpenRate + rates.commentOpenRate) / OPEN_RATE_CEILING);
+  const positive =
+    rates.avgWatchPct === null
+      ? 0.6 * dwell + 0.4 * opens
+      : 0.4 * dwell + 0.3 * clamp(rates.avgWatchPct / 100) + 0.3 * opens;
+  const negative = clamp((rates.hideRate + rates.notInterestedRate) / NEGATIVE_RATE_CEILING);
+  return clamp(positive * (1 - negative));
+}
+
+export async function runFeedEngagementJob(options: FeedEngagementJobOptions = {}) {
+  const config: FeedEngagementJobConfig = { ...DEFAULT_CONFIG, ...options };
+
+  return runJob(
+    {
+      jobName: 'feed-engagement',
+      trigger: 'MANUAL',
+      scope: 'window',
+      algorithmVersion: config.algorithmVersion,
+      metadata: {
+        windowDays: config.windowDays,
+        minImpressions: config.minImpressions,
+        retentionDays: config.retentionDays
+      }
+    },
+    async () => {
+      const now = new Date();
+      const cutoff = new Date(now.getTime() - config.windowDays * 24 * 60 * 60 * 1000);
+
+      // Every count is of distinct users, and each user's dwell and watch weigh the same
+      // however many events they sent, so a single account cannot swing a post's score
+      const rows = await prisma.$queryRaw<
+        Array<{
+          itemId: bigint;
+          type: FeedEngagementEventType;
+          users: bigint;
+          avgDwellMs: Prisma.Decimal | number | null;
+          avgWatchPct: Prisma.Decimal | number | null;
+        }>
+      >`
+        SELECT itemId, type, COUNT(*) AS users, AVG(dwellMs) AS avgDwellMs, AVG(watchPct) AS avgWatchPct
+        FROM (
+          SELECT itemId, type, userId, AVG(dwellMs) AS dwellMs, MAX(watchPct) AS watchPct
+          FROM FeedEngagementEvent
+          WHERE itemType = 'POST' AND occurredAt >= ${cutoff}
+          GROUP BY itemId, type, userId
+        ) AS perUser
+        GROUP BY itemId, type
+      `;
+
+      type Totals = { counts: Partial<Record<string, number>>; avgDwellMs: number; avgWatchPct: number | null };
+      const totalsByPostId = new Map<bigint, Totals>();
+      for (const row of rows) {
+        const totals = totalsByPostId.get(row.itemId) ?? { counts: {}, avgDwellMs: 0, avgWatchPct: null };
+        totals.counts[row.type] = Number(row.users);
+        if (row.type === 'DWELL') totals.avgDwellMs = Number(row.avgDwellMs ?? 0);
+        if (row.type === 'WATCH') totals.avgWatchPct = row.avgWatchPct === null ? null : Number(row.avgWatchPct);
+        totalsByPostId.set(row.itemId, totals);
+      }
+
+      // Users who viewed the post (sent a DWELL) double as the impression count
+      const eligibleIds = Array.from(totalsByPostId.entries())
+        .filter(([, totals]) => (totals.counts.DWELL ?? 0) >= config.minImpressions)
+        .map(([postId]) => postId);
+
+      let updatedPosts = 0;
+      for (let offset = 0; offset < eligibleIds.length; offset += config.batchSize) {
+        const batch = eligibleIds.slice(offset, offset + config.batchSize);
+        const livePosts = await prisma.post.findMany({
+          where: { id: { in: batch }, deletedAt: null },
+          select: { id: true }
+        });
+
+        const upserts = livePosts.map(({ id: postId }) => {
+          const totals = totalsByPostId.get(postId)!;
+          const impressions = totals.counts.DWELL ?? 0;
+          const rates: PostEngagementRates = {
+            impressions,
+            avgDwellMs: totals.avgDwellMs,
+            avgWatchPct: totals.avgWatchPct,
+            profileOpenRate: (totals.counts.PROFILE_OPEN ?? 0) / impressions,
+            commentOpenRate: (totals.counts.COMMENT_OPEN ?? 0) / impressions,
+            hideRate: (totals.counts.HIDE ?? 0) / impressions,
+            notInterestedRate: (totals.counts.NOT_INTERESTED ?? 0) / impressions
+          };
+          const data = { ...rates, engagementScore: postEngagementScore(rates), computedAt: now };
+          return prisma.postEngagement.upsert({
+            where: { postId },
+            update: data,
+            create: { postId, ...data }
+          });
+        });
+
+        if (upserts.length) {
+          await prisma.$transaction(upserts);
+          updatedPosts += upserts.length;
+        }
+      }
+
+      // Posts that fell out of the window (or below the threshold) stop carrying an old score
+      const stale = await prisma.postEngagement.deleteMany({ where: { computedAt: { lt: now } } });
+
+      const retentionCutoff = new Date(now.getTime() - config.retentionDays * 24 * 60 * 60 * 1000);
+      const prunedEvents = await pruneFeedEngagementEvents(retentionCutoff);
+
+      return { updatedPosts, removedPosts: stale.count, prunedEvents };
+    }
+  );
+}
@@ -1,8 +1,12 @@
 import { cleanupExpiredSegments } from '../services/feed/presortedFeedService.js';
+import { pruneFeedServeStats } from '../services/feed/feedServeStats.js';
 import { runJob } from '../lib/jobs/runJob.js';
 
+// Hourly feed serve stats (presorted vs live) are kept this long
+const SERVE_STATS_RETENTION_DAYS = 30;
+
 /**
- * Cleanup expired presorted feed segments
+ * Cleanup expired presorted feed segments and old feed serve stats
  * Run periodically (e.g., every hour) to remove expired segments
  */
 export async function runFeedPresortCleanupJob() {
@@ -12,11 +16,14 @@ export async function runFeedPresortCleanupJob() {
       trigger: 'CRON',
       scope: 'cleanup',
       algorithmVersion: 'v1',
-      metadata: {},
+      metadata: { serveStatsRetentionDays: SERVE_STATS_RETENTION_DAYS },
     },
     async () => {
       const deletedCount = await cleanupExpiredSegments();
-      return { deletedSegments: deletedCount };
+      const deletedServeStats = await pruneFeedServeStats(
+        new Date(Date.now() - SERVE_STATS_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      );
+      return { deletedSegments: deletedCount, deletedServeStats };
     }
   );
 }
@@ -2,11 +2,14 @@ import { prisma } from '../lib/prisma/client.js'
 import { runJob } from '../lib/jobs/runJob.js'
 import { getCandidates } from '../registry/domains/feed/candidates/index.js'
 import { FEED_CONFIG_VERSION } from '../registry/domains/feed/config.js'
+import { feedAlgorithmVersion } from '../registry/domains/feed/variants.js'
 import { FEED_PRESORT_MIN_SEGMENT_ITEMS } from '../registry/domains/feed/constants.js'
 import { scoreCandidatesWithoutSeen } from './feedPresortScoring.js'
 import { mergeAndRank } from '../registry/domains/feed/ranking/index.js'
 import { generatePhase1JSON, convertToPresortedItem } from './feedPresortPhase1.js'
 import { getPresortedSegment, storePresortedSegment, type PresortedFeedItem, type PresortedFeedLeafItem } from '../services/feed/presortedFeedService.js'
+import { resolveFeedVariant } from '../services/feed/feedExperimentService.js'
+import { loadFeedExclusions, removeExcludedFeedItems } from '../services/feed/feedExclusions.js'
 import type { ViewerContext, FeedItem, FeedItemOrGrid } from '../registry/domains/feed/types.js'
 import { hashKeyValues, isJobFresh, upsertJobFreshness } from '../lib/jobs/shared/freshness.js'
 import { logger } from '../lib/logger/logger.js'
@@ -30,7 +33,8 @@ const DEFAULT_CONFIG = {
   maxSegments: 3,
   // Minimum candidate pool to prevent thin segments for new users
   minCandidateCount: 100,
-  // Algorithm version linked to config to auto-invalidate on changes
+  // Algorithm version linked to config to auto-invalidate on changes.
+  // Segments of users in a feed experiment are stamped with feedAlgorithmVersion instead.
   algorithmVersion: FEED_CONFIG_VERSION,
   // TTL should match or slightly exceed job run frequency to prevent gaps
   ttlMinutes: 30,
@@ -54,17 +58,19 @@ type FeedPresortMetrics = {
 /**
  * Build input hash for freshness checking
  * Hash includes all factors that would change the presorted output:
- * - Algorithm version
+ * - Algorithm version (including the user's feed variant)
  * - Configuration (segment size/count)
  * - Latest match score (affects ranking)
  * - Latest like (affects seen filtering in future runs)
+ * - Latest hidden post / mute (hard exclusions)
  */
 async function buildFeedPresortInputHash(
   userId: bigint,
+  algorithmVersion: string,
   options: FeedPresortJobOptions,
   relevantPostUpdatedAt: Date | null
 ): Promise<string> {
-  const [latestMatchScore, latestLike] = await Promise.all([
+  const [latestMatchScore, latestLike, latestHide, latestMute] = await Promise.all([
     prisma.matchScore.findFirst({
       where: { userId },
       orderBy: { scoredAt: 'desc' },
@@ -75,10 +81,20 @@ async function buildFeedPresortInputHash(
       orderBy: { createdAt: 'desc' },
       select: { createdAt: true },
     }),
+    prisma.feedHiddenPost.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    }),
+    prisma.feedMute.findFirst({
+      where: { muterId: userId },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    }),
   ])
 
   return hashKeyValues([
-    ['algorithmVersion', DEFAULT_CONFIG.algorithmVersion],
+    ['algorithmVersion', algorithmVersion],
     ['segmentSize', options.segmentSize ?? DEFAULT_CONFIG.segmentSize],
     ['maxSegments', options.maxSegments ?? DEFAULT_CONFIG.maxSegments],
     ['incremental', options.incremental ?? false],
@@ -86,6 +102,8 @@ async function buildFeedPresortInputHash(
     ['matchScoreAt', latestMatchScore?.scoredAt?.toISOString() ?? null],
     ['matchScoreVersion', latestMatchScore?.algorithmVersion ?? null],
     ['latestLikeAt', latestLike?.createdAt?.toISOString() ?? null],
+    ['latestHideAt', latestHide?.createdAt?.toISOString() ?? null],
+    ['latestMuteAt', latestMute?.createdAt?.toISOString() ?? null],
     ['relevantPostUpdatedAt', relevantPostUpdatedAt?.toISOString() ?? null],
   ])
 }
@@ -369,6 +387,7 @@ function validateSegment(
  */
 async function storeSegmentsBatch(
   userId: bigint,
+  algorithmVersion: string,
   segments: Array<{
     segmentIndex: number
     items: PresortedFeedItem[]
@@ -391,13 +410,13 @@ async function storeSegmentsBatch(
           segmentIndex: segment.segmentIndex,
           items: segment.items as unknown as object,
           phase1Json: segment.phase1Json,
-          algorithmVersion: DEFAULT_CONFIG.algorithmVersion,
+          algorithmVersion,
           expiresAt,
         },
         update: {
           items: segment.items as unknown as object,
           phase1Json: segment.phase1Json,
-          algorithmVersion: DEFAULT_CONFIG.algorithmVersion,
+          algorithmVersion,
           expiresAt,
           computedAt: new Date(),
         },
@@ -415,6 +434,8 @@ async function presortFeedForUser(
 ): Promise<FeedPresortMetrics> {
   const startTime = Date.now()
   const scope = `user:${userId}`
+  const variant = await resolveFeedVariant(userId)
+  const algorithmVersion = feedAlgorithmVersion(variant)
 
   // Check freshness - skip if inputs haven't changed
   const existingSegment = await getPresortedSegment(userId, 0)
@@ -445,6 +466,7 @@ async function presortFeedForUser(
 
   const inputHash = await buildFeedPresortInputHash(
     userId,
+    algorithmVersion,
     { ...options, incremental: effectiveIncremental },
     relevantPostUpdatedAt
   )
@@ -477,6 +499,7 @@ async function presortFeedForUser(
     debug: false,
     seed: null,
     markSeen: false,
+    variant,
   }
 
   // 1. Get candidates
@@ -505,7 +528,12 @@ async function presortFeedForUser(
   const actorMap = await fetchActorProfiles(actorIds)
 
   // 6. Convert to presorted format
-  const { items: presortedItems, skippedCount } = convertFeedItemsToPresorted(deduplicated, actorMap)
+  const { items: convertedItems, skippedCount } = convertFeedItemsToPresorted(deduplicated, actorMap)
+
+  // 6b. Re-check hides and mutes: candidates already exclude them, but one made
+  // while this rebuild was running would otherwise survive until the next one
+  const exclusions = await loadFeedExclusions(userId, convertedItems)
+  const { items: presortedItems, removedCount: excludedCount } = removeExcludedFeedItems(convertedItems, exclusions)
 
   // 7. Generate segments with validation
   const segments: Array<{
@@ -538,7 +566,7 @@ async function presortFeedForUser(
 
   // 8. Store all segments in single transaction (atomic operation)
   if (segments.length > 0) {
-    await storeSegmentsBatch(userId, segments)
+    await storeSegmentsBatch(userId, algorithmVersion, segments)
     await upsertJobFreshness('feed-presort', scope, inputHash, new Date())
   } else {
     logger.error('No valid segments generated for user', {
@@ -554,17 +582,18 @@ async function presortFeedForUser(
     candidatesFetched: ranked.length,
     itemsAfterDedup: deduplicated.length,
     segmentsGenerated: segments.length,
-    itemsSkipped: skippedCount + duplicateCount,
+    itemsSkipped: skippedCount + duplicateCount + excludedCount,
     durationMs: Date.now() - startTime,
   }
 
   // Log metrics for observability
-  if (skippedCount > 0 || duplicateCount > 0) {
+  if (skippedCount > 0 || duplicateCount > 0 || excludedCount > 0) {
     logger.info('Feed presort completed with warnings', {
       ...metrics,
       userId: metrics.userId.toString(),
       duplicateCount,
       skippedCount,
+      excludedCount,
     })
   }
 
@@ -1,20 +1,8 @@
-import { feedConfig } from '../registry/domains/feed/config.js'
 import { prisma } from '../lib/prisma/client.js'
 import type { FeedCandidateSet, ViewerContext } from '../registry/domains/feed/types.js'
-
-const SCORE_WEIGHTS = feedConfig.scoring.weights
-
-function clampScore(value: number) {
-  if (!Number.isFinite(value)) return 0
-  return Math.max(0, Math.min(1, value))
-}
-
-function recencyScore(createdAt: Date) {
-  const hours = Math.max(0, (Date.now() - createdAt.getTime()) / (1000 * 60 * 60))
-  // 1 / log(2 + hours) keeps score in (0,1] without infinity at t=0.
-  const score = 1 / Math.log(2 + hours)
-  return clampScore(score)
-}
+import { clampScore, scorePost, sumContributions } from '../registry/domains/feed/scoring/components.js'
+import { fetchPostScoringSignals } from '../registry/domains/feed/scoring/signals.js'
+import { feedConfigFor } from '../registry/domains/feed/variants.js'
 
 async function fetchPostMediaTypes(postIds: bigint[]) {
   if (!postIds.length) return new Map<bigint, 'text' | 'image' | 'video' | 'mixed'>()
@@ -92,19 +80,29 @@ export async function scoreCandidatesWithoutSeen(
   candidates: FeedCandidateSet
 ): Promise<FeedCandidateSet> {
   const deduped = dedupeCandidates(candidates)
-  const postMediaTypes = await fetchPostMediaTypes(deduped.posts.map((post) => post.id))
+  const postIds = deduped.posts.map((post) => post.id)
+  const [postMediaTypes, signals] = await Promise.all([
+    fetchPostMediaTypes(postIds),
+    fetchPostScoringSignals(ctx.userId, postIds),
+  ])
+  const now = Date.now()
+  // Variant weights when the user is enrolled in a feed experiment
+  const weights = feedConfigFor(ctx).scoring.weights
 
   // Score posts (without seen penalty)
   const scoredPosts = deduped.posts
     .map((post) => {
-      const recency = recencyScore(post.createdAt)
-      const affinity = 0
-      const quality = 0
+      const breakdown = scorePost(
+        { createdAt: post.createdAt, userId: post.user.id },
+        signals.posts.get(post.id),
+        signals.affinity,
+        now,
+        weights
+      )
       // NO seen penalty - will be applied at request time
       const mediaType = postMediaTypes.get(post.id) ?? 'text'
-      const score = recency * SCORE_WEIGHTS.recency + affinity * SCORE_WEIGHTS.affinity + quality * SCORE_WEIGHTS.quality
 
-      return { ...post, mediaType, score: clampScore(score) }
+      return { ...post, mediaType, score: clampScore(sumContributions(breakdown)) }
     })
     .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
 
@@ -115,7 +113,7 @@ export async function scoreCandidatesWithoutSeen(
       const affinity = suggestion.source === 'match' ? 1 : suggestion.matchScore ?? 0
       const quality = 0
       // NO seen penalty - will be applied at request time
-      const score = recency * SCORE_WEIGHTS.recency + affinity * SCORE_WEIGHTS.affinity + quality * SCORE_WEIGHTS.quality
+      const score = recency * weights.recency + affinity * weights.affinity + quality * weights.quality
 
       return { ...suggestion, score: clampScore(score) }
     })
@@ -1,5 +1,5 @@
 import { feedConfig } from '../registry/domains/feed/config.js'
-import type { FeedSlot } from '../registry/domains/feed/config.js'
+import type { FeedConfig, FeedSlot } from '../registry/domains/feed/config.js'
 import type { FeedItem } from '../registry/domains/feed/types.js'
 
 type SequenceSlot = Exclude<FeedSlot, { kind: 'grid' }>
@@ -22,9 +22,9 @@ function expandSequence(sequence: readonly FeedSlot[]) {
  * Apply feed sequence logic (pre-run config.ts sequence pattern)
  * This eliminates real-time pattern matching on every request
  */
-export function applyFeedSequence(rankedItems: FeedItem[]): FeedItem[] {
-  // Use feedConfig.sequence directly (not distribution.sequence)
-  const sequenceConfig = feedConfig.sequence
+export function applyFeedSequence(rankedItems: FeedItem[], config: FeedConfig = feedConfig): FeedItem[] {
+  // Use the config sequence directly (not distribution.sequence)
+  const sequenceConfig = config.sequence
   if (!sequenceConfig || sequenceConfig.length === 0) {
     // No sequence defined, return items as-is
     return rankedItems
@@ -74,7 +74,7 @@ export function applyFeedSequence(rankedItems: FeedItem[]): FeedItem[] {
       index += 1
       if (usedPostIds.has(item.post!.id)) continue
       const actorCount = actorCounts.get(item.actorId) ?? 0
-      if (actorCount >= feedConfig.caps.maxPerActor) continue
+      if (actorCount >= config.caps.maxPerActor) continue
       usedPostIds.add(item.post!.id)
       postIndices.set(key, index)
       return item
@@ -105,7 +105,7 @@ export function applyFeedSequence(rankedItems: FeedItem[]): FeedItem[] {
       index += 1
       if (usedSuggestionIds.has(item.actorId)) continue
       const actorCount = actorCounts.get(item.actorId) ?? 0
-      if (actorCount >= feedConfig.caps.maxPerActor) continue
+      if (actorCount >= config.caps.maxPerActor) continue
       usedSuggestionIds.add(item.actorId)
       suggestionIndices.set(key, index)
       return item
@@ -23,6 +23,7 @@ import {
 import { MinHeap } from './match-score/heap.js';
 import { scoreCandidate } from './match-score/engine.js';
 import { isFullRun } from '../lib/jobs/shared/freshness.js';
+import { enqueueFeedPresort } from '../services/feed/presortQueue.js';
 
 type CandidateProfile = {
   id: bigint;
@@ -507,8 +508,12 @@ export async function recomputeMatchScoresForUser(userId: bigint, overrides: Par
         userId: { not: userId },
         user: {
           deletedAt: null,
+          suspendedAt: null,
           blocksGot: { none: { blockerId: userId } },
-          blocksMade: { none: { blockedId: userId } }
+          blocksMade: { none: { blockedId: userId } },
+          // Unmatched pairs stay out of each other's suggestions
+          matchesA: { none: { userBId: userId, state: 'CLOSED' } },
+          matchesB: { none: { userAId: userId, state: 'CLOSED' } }
         }
       },
       select: {
@@ -796,6 +801,9 @@ export async function recomputeMatchScoresForUser(userId: bigint, overrides: Par
       });
       console.log(`[match-scores] User ${userId} deleted ${deleted.count} old scores (version: ${vPrev})`);
     }
+
+    // Suggestions in the user's presorted feed are ranked by these scores
+    enqueueFeedPresort([userId], 'match_scores');
   } else {
     // No scores written - don't delete old version (preserve existing data)
     console.log(`[match-scores] User ${userId} no scores written, preserving existing version ${vPrev ?? 'none'}`);
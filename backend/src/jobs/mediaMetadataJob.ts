@@ -4,14 +4,14 @@
  * Should be enqueued after video/audio upload completes
  */
 
+import type { WsMediaStatus, WsMessage } from '@app/shared'
 import { prisma } from '../lib/prisma/client.js'
 import { MediaError } from '../services/media/mediaService.js'
 import { runJob } from '../lib/jobs/runJob.js'
 import { createJobLogger } from '../lib/jobs/jobLogger.js'
-import { LocalStorageProvider } from '../services/media/localStorageProvider.js'
-import { MEDIA_UPLOAD_ROOT } from '../services/media/config.js'
-
-const storage = new LocalStorageProvider(MEDIA_UPLOAD_ROOT)
+import { withLocalFile } from '../services/media/storage.js'
+import { probeMedia, type MediaProbeResult } from '../services/media/probe.js'
+import { notify } from '../ws/notify.js'
 
 const MAX_DURATION_SEC = 180
 const MAX_WIDTH = 3840
@@ -22,41 +22,51 @@ export type MediaMetadataJobOptions = {
   mediaId: bigint
 }
 
-type FFProbeResult = {
-  format?: {
-    duration?: string
+/**
+ * Check probed metadata against the upload limits
+ * Returns one human-readable reason per violated limit
+ */
+export function findConstraintViolations(type: 'VIDEO' | 'AUDIO', metadata: MediaProbeResult) {
+  const errors: string[] = []
+
+  if (metadata.durationSec !== null && metadata.durationSec > MAX_DURATION_SEC) {
+    errors.push(`Duration ${Math.round(metadata.durationSec)}s exceeds maximum ${MAX_DURATION_SEC}s`)
+  }
+
+  if (type === 'VIDEO' && metadata.width !== null && metadata.height !== null) {
+    if (metadata.width > MAX_WIDTH || metadata.height > MAX_HEIGHT) {
+      errors.push(
+        `Resolution ${metadata.width}×${metadata.height} exceeds maximum ${MAX_WIDTH}×${MAX_HEIGHT}`
+      )
+    }
   }
-  streams?: Array<{
-    width?: number
-    height?: number
-    duration?: string
-    codec_type?: string
-  }>
+
+  return errors
 }
 
 /**
- * Extract metadata from video/audio file using ffprobe
- * Validates duration and resolution constraints
+ * Tell the uploader's sockets how processing ended so the composer can stop waiting
  */
-async function extractMetadataWithFFProbe(filePath: string): Promise<{
-  durationSec: number | null
-  width: number | null
-  height: number | null
-}> {
-  // TODO: Implement ffprobe integration
-  // For now, return null values (validation happens client-side)
-  // When ffprobe is available:
-  // 1. Run: ffprobe -v quiet -print_format json -show_format -show_streams <file>
-  // 2. Parse JSON result
-  // 3. Extract duration from format.duration or streams[0].duration
-  // 4. Extract width/height from video stream
-  // 5. Validate constraints
-  
-  return {
-    durationSec: null,
-    width: null,
-    height: null,
+function emitMediaStatus(
+  ownerUserId: bigint,
+  mediaId: bigint,
+  status: WsMediaStatus,
+  reason: string | null,
+  metadata: MediaProbeResult | null
+) {
+  const event: WsMessage<'server.media.status'> = {
+    type: 'server.media.status',
+    data: {
+      mediaId: String(mediaId),
+      status,
+      reason,
+      durationSec: metadata?.durationSec != null ? Math.round(metadata.durationSec) : null,
+      width: metadata?.width ?? null,
+      height: metadata?.height ?? null,
+    },
+    ts: Date.now(),
   }
+  notify({ event, targets: [{ kind: 'user', id: String(ownerUserId) }] })
 }
 
 function buildUncheckedMediaWhere(options?: {
@@ -92,6 +102,7 @@ export async function runMediaMetadataJob(options: MediaMetadataJobOptions) {
         where: { id: mediaId, deletedAt: null },
         select: {
           id: true,
+          ownerUserId: true,
           type: true,
           status: true,
           storageKey: true,
@@ -120,81 +131,69 @@ export async function runMediaMetadataJob(options: MediaMetadataJobOptions) {
         throw new MediaError('Media has no storage key', 400)
       }
 
+      let metadata: MediaProbeResult
       try {
-        // Get file path from storage
-        const filePath = `${MEDIA_UPLOAD_ROOT}/${media.storageKey}`
-
-        // Extract metadata using ffprobe
-        // TODO: Implement when ffprobe is available
-        const metadata = await extractMetadataWithFFProbe(filePath)
-
-        // Validate constraints
-        const errors: string[] = []
-
-        if (metadata.durationSec !== null) {
-          if (metadata.durationSec > MAX_DURATION_SEC) {
-            errors.push(`Duration ${metadata.durationSec}s exceeds maximum ${MAX_DURATION_SEC}s`)
-          }
-        }
+        metadata = await withLocalFile(media.storageKey, (filePath) => probeMedia(filePath))
+      } catch (err) {
+        // Mark as FAILED_PROCESSING
+        await prisma.media.update({
+          where: { id: mediaId },
+          data: { status: 'FAILED_PROCESSING' },
+        }).catch(() => null)
+        emitMediaStatus(media.ownerUserId, mediaId, 'FAILED', 'Could not read media file', null)
 
-        if (media.type === 'VIDEO' && metadata.width !== null && metadata.height !== null) {
-          if (metadata.width > MAX_WIDTH || metadata.height > MAX_HEIGHT) {
-            errors.push(
-              `Resolution ${metadata.width}×${metadata.height} exceeds maximum ${MAX_WIDTH}×${MAX_HEIGHT}`
-            )
-          }
-        }
+        throw err
+      }
 
-        if (errors.length > 0) {
-          // Mark as REJECTED and update with metadata for debugging
-          await prisma.media.update({
-            where: { id: mediaId },
-            data: {
-              status: 'REJECTED',
-              durationSec: metadata.durationSec ? Math.round(metadata.durationSec) : null,
-              width: metadata.width ?? null,
-              height: metadata.height ?? null,
-            },
-          })
-
-          return {
-            rejected: true,
-            errors,
-            metadata: {
-              durationSec: metadata.durationSec,
-              width: metadata.width,
-              height: metadata.height,
-            },
-          }
-        }
+      const durationSec = metadata.durationSec !== null ? Math.round(metadata.durationSec) : null
+      const errors = findConstraintViolations(media.type, metadata)
 
-        // Update media with metadata and mark as READY
+      if (errors.length > 0) {
+        // Mark as REJECTED and keep the metadata for debugging
+        const reason = errors.join('; ')
         await prisma.media.update({
           where: { id: mediaId },
           data: {
-            status: 'READY',
-            durationSec: metadata.durationSec ? Math.round(metadata.durationSec) : null,
-            width: metadata.width ?? null,
-            height: metadata.height ?? null,
+            status: 'REJECTED',
+            rejectionReason: reason,
+            durationSec,
+            width: metadata.width,
+            height: metadata.height,
           },
         })
+        emitMediaStatus(media.ownerUserId, mediaId, 'REJECTED', reason, metadata)
 
         return {
-          success: true,
-          metadata: {
-            durationSec: metadata.durationSec,
-            width: metadata.width,
-            height: metadata.height,
-          },
+          rejected: true,
+          errors,
+          metadata,
         }
-      } catch (err) {
-        // Mark as FAILED_PROCESSING
-        await prisma.media.update({
-          where: { id: mediaId },
-          data: { status: 'FAILED_PROCESSING' },
-        }).catch(() => null)
+      }
 
-        throw err
+      // Update media with metadata and mark as READY
+      await prisma.media.update({
+        where: { id: mediaId },
+        data: {
+          status: 'READY',
+          rejectionReason: null,
+          durationSec,
+          width: metadata.width,
+          height: metadata.height,
+        },
+      })
+      emitMediaStatus(media.ownerUserId, mediaId, 'READY', null, metadata)
+
+      // Poster, preview loop and HLS are produced in the background; until then the original is served
+      if (media.type === 'VIDEO') {
+        const { runMediaTranscodeJob } = await import('./mediaTranscodeJob.js')
+        runMediaTranscodeJob({ mediaId }).catch((err) => {
+          console.error(`Failed to transcode media ${mediaId}:`, err)
+        })
+      }
+
+      return {
+        success: true,
+        metadata,
       }
     }
   )
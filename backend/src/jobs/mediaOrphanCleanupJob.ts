@@ -1,9 +1,11 @@
 /**
- * Cleanup orphaned media (media uploaded but never attached to posts/avatars/hero)
+ * Cleanup orphaned media (media uploaded but never attached to posts/messages/avatars/hero)
+ * and expired resumable upload sessions
  * Run periodically (e.g., hourly) to prevent storage waste
  */
 
 import { cleanupOrphanedMedia } from '../services/media/orphanProtection.js'
+import { cleanupExpiredUploadSessions } from '../services/media/resumableUpload.js'
 import { runJob } from '../lib/jobs/runJob.js'
 
 export type MediaOrphanCleanupOptions = {
@@ -12,7 +14,8 @@ export type MediaOrphanCleanupOptions = {
 
 /**
  * Cleanup orphaned media job
- * Removes media that was uploaded but never attached to posts, avatars, or hero images
+ * Removes media that was uploaded but never attached to posts, messages, avatars, or hero images,
+ * and message attachments whose messages were all unsent
  */
 export async function runMediaOrphanCleanupJob(options: MediaOrphanCleanupOptions = {}) {
   const { maxAgeHours = 24 } = options
@@ -27,7 +30,8 @@ export async function runMediaOrphanCleanupJob(options: MediaOrphanCleanupOption
     },
     async () => {
       const deletedCount = await cleanupOrphanedMedia(maxAgeHours)
-      return { deletedMedia: deletedCount }
+      const expiredUploads = await cleanupExpiredUploadSessions()
+      return { deletedMedia: deletedCount, expiredUploads }
     }
   )
 }
@@ -0,0 +1,243 @@
+/**
+ * Video transcode job
+ * Extracts a poster frame, encodes a short muted preview loop for feed autoplay,
+ * and (with MEDIA_HLS_ENABLED=true) adaptive HLS renditions for full playback
+ * Enqueued once the metadata job marks a video READY; the batch job backfills older videos
+ */
+
+import { createReadStream } from 'node:fs'
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { prisma } from '../lib/prisma/client.js'
+import { MediaError } from '../services/media/mediaService.js'
+import { runJob } from '../lib/jobs/runJob.js'
+import { createJobLogger } from '../lib/jobs/jobLogger.js'
+import { getMediaStorage, withLocalFile } from '../services/media/storage.js'
+import { buildMediaUrls } from '../services/media/urlBuilder.js'
+import {
+  buildHlsKey,
+  buildHlsMasterPlaylist,
+  buildHlsRenditionArgs,
+  buildPosterArgs,
+  buildPosterKey,
+  buildPreviewArgs,
+  buildPreviewKey,
+  encodeVideoRendition,
+  isHlsEnabled,
+  parseRenditionKey,
+  selectHlsRenditions,
+} from '../services/media/videoRenditions.js'
+
+const storage = getMediaStorage()
+
+// Full-length renditions scale with the clip (up to the 180s limit)
+const HLS_TIMEOUT_MS = 10 * 60_000
+
+export type MediaTranscodeJobOptions = {
+  mediaId: bigint
+}
+
+/**
+ * Generate renditions for one video and switch it to READY_WITH_VARIANTS
+ * The video stays READY (and served from the original) until every file is stored
+ */
+export async function runMediaTranscodeJob(options: MediaTranscodeJobOptions) {
+  const { mediaId } = options
+
+  return runJob(
+    {
+      jobName: 'media-transcode',
+      trigger: 'EVENT',
+      scope: 'processing',
+      algorithmVersion: 'v1',
+      metadata: { mediaId: String(mediaId), hls: isHlsEnabled() },
+    },
+    async () => {
+      const media = await prisma.media.findFirst({
+        where: { id: mediaId, deletedAt: null },
+        select: { id: true, type: true, status: true, storageKey: true, durationSec: true, height: true },
+      })
+
+      if (!media) {
+        throw new MediaError('Media not found', 404)
+      }
+
+      if (media.type !== 'VIDEO') {
+        return { skipped: true, reason: 'Not a video' }
+      }
+
+      if (media.status !== 'READY') {
+        return { skipped: true, reason: `Status is ${media.status}, expected READY` }
+      }
+
+      if (!media.storageKey) {
+        throw new MediaError('Media has no storage key', 400)
+      }
+
+      const storageKey = media.storageKey
+      return withLocalFile(storageKey, async (sourcePath) => {
+        const workDir = await mkdtemp(join(tmpdir(), 'media-transcode-'))
+        const written: string[] = []
+
+        const store = async (localPath: string, key: string) => {
+          const contentType = parseRenditionKey(key)?.mimeType
+          await storage.put(createReadStream(localPath), key, { contentType })
+          written.push(key)
+        }
+
+        try {
+          const posterPath = join(workDir, 'poster.webp')
+          await encodeVideoRendition(buildPosterArgs(sourcePath, posterPath, media.durationSec))
+          const posterKey = buildPosterKey(storageKey)
+          await store(posterPath, posterKey)
+
+          const previewPath = join(workDir, 'preview.mp4')
+          await encodeVideoRendition(buildPreviewArgs(sourcePath, previewPath))
+          const previewKey = buildPreviewKey(storageKey)
+          await store(previewPath, previewKey)
+
+          const variants: {
+            original: { key: string }
+            poster: { key: string }
+            preview: { key: string }
+            hls?: { key: string; files: string[] }
+          } = {
+            original: { key: storageKey },
+            poster: { key: posterKey },
+            preview: { key: previewKey },
+          }
+
+          if (isHlsEnabled()) {
+            const hlsDir = join(workDir, 'hls')
+            const renditions = selectHlsRenditions(media.height)
+            const files: string[] = []
+
+            for (const rendition of renditions) {
+              const outputDir = join(hlsDir, rendition.name)
+              await mkdir(outputDir, { recursive: true })
+              await encodeVideoRendition(buildHlsRenditionArgs(sourcePath, outputDir, rendition), {
+                timeoutMs: HLS_TIMEOUT_MS,
+              })
+              for (const file of await readdir(outputDir)) {
+                const key = buildHlsKey(storageKey, `${rendition.name}/${file}`)
+                await store(join(outputDir, file), key)
+                files.push(key)
+              }
+            }
+
+            const masterPath = join(hlsDir, 'master.m3u8')
+            await writeFile(masterPath, buildHlsMasterPlaylist(renditions))
+            const masterKey = buildHlsKey(storageKey, 'master.m3u8')
+            await store(masterPath, masterKey)
+
+            variants.hls = { key: masterKey, files }
+          }
+
+          const urls = buildMediaUrls({ storageKey, variants })
+
+          // Conditional so a video deleted mid-run is not resurrected
+          const { count } = await prisma.media.updateMany({
+            where: { id: mediaId, status: 'READY', deletedAt: null },
+            data: {
+              status: 'READY_WITH_VARIANTS',
+              variants,
+              thumbUrl: urls.thumb,
+            },
+          })
+
+          if (count === 0) {
+            await deleteKeys(written)
+            return { skipped: true, reason: 'Media changed while processing' }
+          }
+
+          return { success: true, files: written.length }
+        } catch (err) {
+          await deleteKeys(written)
+          throw err
+        } finally {
+          await rm(workDir, { recursive: true, force: true }).catch(() => null)
+        }
+      })
+    }
+  )
+}
+
+async function deleteKeys(keys: string[]) {
+  for (const key of keys) {
+    await storage.delete(key).catch(() => null)
+  }
+}
+
+/**
+ * Backfill renditions for videos uploaded before the job existed (or whose run failed)
+ */
+export async function runMediaTranscodeBatchJob(options: {
+  batchSize?: number
+  pauseMs?: number
+} = {}) {
+  const { batchSize = 20, pauseMs = 100 } = options
+
+  return runJob(
+    {
+      jobName: 'media-transcode-batch',
+      trigger: 'CRON',
+      scope: 'processing',
+      algorithmVersion: 'v1',
+      metadata: { batchSize },
+    },
+    async (ctx) => {
+      const logger = createJobLogger(ctx.jobRunId, ctx.jobName)
+
+      await logger.setStage('Scanning for videos')
+      const videos = await prisma.media.findMany({
+        where: { deletedAt: null, type: 'VIDEO', status: 'READY', storageKey: { not: null } },
+        select: { id: true },
+        orderBy: { id: 'desc' },
+        take: batchSize,
+      })
+
+      await logger.setTotal(videos.length, 'videos')
+      if (videos.length === 0) {
+        await logger.info('No videos need transcoding')
+        await logger.logSummary()
+        return { total: 0, processed: 0, failed: 0 }
+      }
+
+      await logger.setStage('Transcoding videos')
+      let processed = 0
+      let failed = 0
+
+      for (let i = 0; i < videos.length; i++) {
+        const video = videos[i]
+        try {
+          const result = await runMediaTranscodeJob({ mediaId: video.id })
+          if ('success' in result) {
+            processed++
+            logger.addOutcome('updates', 1)
+          } else {
+            logger.addOutcome('skipped', 1)
+          }
+        } catch (err) {
+          failed++
+          logger.addOutcome('errors', 1)
+          await logger.error(`Failed to transcode media ${video.id}`, {
+            mediaId: video.id.toString(),
+            error: err instanceof Error ? err.message : String(err),
+          })
+        }
+
+        await logger.incrementProgress()
+
+        if (pauseMs > 0 && i < videos.length - 1) {
+          await new Promise((resolve) => setTimeout(resolve, pauseMs))
+        }
+      }
+
+      await logger.milestone('All videos processed', { total: videos.length, processed, failed })
+      await logger.logSummary()
+
+      return { total: videos.length, processed, failed }
+    }
+  )
+}
@@ -0,0 +1,207 @@
+/**
+ * Image variant job
+ * Encodes thumb/card/full sizes as AVIF and WebP with all metadata stripped
+ * Enqueued after an image upload completes; the batch job backfills older images
+ */
+
+import { createReadStream } from 'node:fs'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { imageSize } from 'image-size'
+import { prisma } from '../lib/prisma/client.js'
+import { MediaError } from '../services/media/mediaService.js'
+import { runJob } from '../lib/jobs/runJob.js'
+import { createJobLogger } from '../lib/jobs/jobLogger.js'
+import { getMediaStorage, withLocalFile } from '../services/media/storage.js'
+import { buildMediaUrls } from '../services/media/urlBuilder.js'
+import {
+  IMAGE_VARIANT_FORMATS,
+  buildVariantKey,
+  encodeImageVariant,
+  planImageVariants,
+  variantMimeType,
+  type ImageVariant,
+  type ImageVariantFormat,
+} from '../services/media/imageVariants.js'
+
+const storage = getMediaStorage()
+
+export type MediaVariantsJobOptions = {
+  mediaId: bigint
+}
+
+/**
+ * Generate variants for one image and switch it to READY_WITH_VARIANTS
+ * The image stays READY (and served from the original) until every variant is stored
+ */
+export async function runMediaVariantsJob(options: MediaVariantsJobOptions) {
+  const { mediaId } = options
+
+  return runJob(
+    {
+      jobName: 'media-variants',
+      trigger: 'EVENT',
+      scope: 'processing',
+      algorithmVersion: 'v1',
+      metadata: { mediaId: String(mediaId) },
+    },
+    async () => {
+      const media = await prisma.media.findFirst({
+        where: { id: mediaId, deletedAt: null },
+        select: { id: true, type: true, status: true, storageKey: true, width: true, height: true },
+      })
+
+      if (!media) {
+        throw new MediaError('Media not found', 404)
+      }
+
+      if (media.type !== 'IMAGE') {
+        return { skipped: true, reason: 'Not an image' }
+      }
+
+      if (media.status !== 'READY') {
+        return { skipped: true, reason: `Status is ${media.status}, expected READY` }
+      }
+
+      if (!media.storageKey) {
+        throw new MediaError('Media has no storage key', 400)
+      }
+
+      const storageKey = media.storageKey
+      return withLocalFile(storageKey, async (sourcePath) => {
+        const dims = imageSize(await readFile(sourcePath))
+        const width = dims.width ?? media.width
+        const height = dims.height ?? media.height
+        if (!width || !height) {
+          throw new MediaError('Image dimensions unknown', 400)
+        }
+
+        const workDir = await mkdtemp(join(tmpdir(), 'media-variants-'))
+        const written: string[] = []
+
+        try {
+          const generated: Record<string, ImageVariant> = {}
+
+          for (const size of planImageVariants(width, height, dims.orientation)) {
+            const formats = {} as Record<ImageVariantFormat, string>
+            for (const format of IMAGE_VARIANT_FORMATS) {
+              const key = buildVariantKey(storageKey, size.name, format)
+              const outputPath = join(workDir, `${size.name}.${format}`)
+              await encodeImageVariant(sourcePath, outputPath, size, format)
+              await storage.put(createReadStream(outputPath), key, { contentType: variantMimeType(format) })
+              written.push(key)
+              formats[format] = key
+            }
+            generated[size.name] = { key: formats.webp, width: size.width, height: size.height, formats }
+          }
+
+          const variants = { original: { key: storageKey, width, height }, ...generated }
+          const urls = buildMediaUrls({ storageKey: storageKey, variants })
+
+          // Conditional so an image deleted mid-run is not resurrected
+          const { count } = await prisma.media.updateMany({
+            where: { id: mediaId, status: 'READY', deletedAt: null },
+            data: {
+              status: 'READY_WITH_VARIANTS',
+              variants,
+              url: urls.original,
+              thumbUrl: urls.thumb,
+            },
+          })
+
+          if (count === 0) {
+            await deleteKeys(written)
+            return { skipped: true, reason: 'Media changed while processing' }
+          }
+
+          return { success: true, files: written.length }
+        } catch (err) {
+          await deleteKeys(written)
+          throw err
+        } finally {
+          await rm(workDir, { recursive: true, force: true }).catch(() => null)
+        }
+      })
+    }
+  )
+}
+
+async function deleteKeys(keys: string[]) {
+  for (const key of keys) {
+    await storage.delete(key).catch(() => null)
+  }
+}
+
+/**
+ * Backfill variants for images uploaded before the job existed (or whose run failed)
+ */
+export async function runMediaVariantsBatchJob(options: {
+  batchSize?: number
+  pauseMs?: number
+} = {}) {
+  const { batchSize = 50, pauseMs = 100 } = options
+
+  return runJob(
+    {
+      jobName: 'media-variants-batch',
+      trigger: 'CRON',
+      scope: 'processing',
+      algorithmVersion: 'v1',
+      metadata: { batchSize },
+    },
+    async (ctx) => {
+      const logger = createJobLogger(ctx.jobRunId, ctx.jobName)
+
+      await logger.setStage('Scanning for images')
+      const images = await prisma.media.findMany({
+        where: { deletedAt: null, type: 'IMAGE', status: 'READY', storageKey: { not: null } },
+        select: { id: true },
+        orderBy: { id: 'desc' },
+        take: batchSize,
+      })
+
+      await logger.setTotal(images.length, 'images')
+      if (images.length === 0) {
+        await logger.info('No images need variants')
+        await logger.logSummary()
+        return { total: 0, processed: 0, failed: 0 }
+      }
+
+      await logger.setStage('Generating variants')
+      let processed = 0
+      let failed = 0
+
+      for (let i = 0; i < images.length; i++) {
+        const image = images[i]
+        try {
+          const result = await runMediaVariantsJob({ mediaId: image.id })
+          if ('success' in result) {
+            processed++
+            logger.addOutcome('updates', 1)
+          } else {
+            logger.addOutcome('skipped', 1)
+          }
+        } catch (err) {
+          failed++
+          logger.addOutcome('errors', 1)
+          await logger.error(`Failed to generate variants for media ${image.id}`, {
+            mediaId: image.id.toString(),
+            error: err instanceof Error ? err.message : String(err),
+          })
+        }
+
+        await logger.incrementProgress()
+
+        if (pauseMs > 0 && i < images.length - 1) {
+          await new Promise((resolve) => setTimeout(resolve, pauseMs))
+        }
+      }
+
+      await logger.milestone('All images processed', { total: images.length, processed, failed })
+      await logger.logSummary()
+
+      return { total: images.length, processed, failed }
+    }
+  )
+}
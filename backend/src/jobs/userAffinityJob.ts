@@ -1,3 +1,4 @@
+import type { FeedEngagementEventType } from '@prisma/client';
 import { prisma } from '../lib/prisma/client.js';
 import { runJob } from '../lib/jobs/runJob.js';
 
@@ -20,11 +21,34 @@ const DEFAULT_CONFIG: UserAffinityJobConfig = {
   lookbackDays: 90,
   topCreatorsCount: 20,
   topTopicsCount: 30,
-  algorithmVersion: 'v1'
+  algorithmVersion: 'v2'
 };
 
 export const AFFINITY_DEFAULTS = { ...DEFAULT_CONFIG };
 
+// Feed engagement events relative to a like (1). Dwell and watch only count past
+// the thresholds below; hides and "not interested" subtract from the creator and
+// the post's topics, and anything that ends up at or below 0 is dropped.
+const EVENT_WEIGHTS: Record<FeedEngagementEventType, number> = {
+  DWELL: 0.2,
+  WATCH: 0.5,
+  PROFILE_OPEN: 0.5,
+  COMMENT_OPEN: 0.4,
+  HIDE: -1.5,
+  NOT_INTERESTED: -2
+};
+const MIN_DWELL_MS = 3000;
+const MIN_WATCH_PCT = 50;
+
+function eventWeight(event: { type: FeedEngagementEventType; dwellMs: number | null; watchPct: number | null }) {
+  if (event.type === 'DWELL') return (event.dwellMs ?? 0) >= MIN_DWELL_MS ? EVENT_WEIGHTS.DWELL : 0;
+  if (event.type === 'WATCH') {
+    const watchPct = event.watchPct ?? 0;
+    return watchPct >= MIN_WATCH_PCT ? EVENT_WEIGHTS.WATCH * (watchPct / 100) : 0;
+  }
+  return EVENT_WEIGHTS[event.type];
+}
+
 function clamp(value: number, min = 0, max = 1) {
   return Math.min(max, Math.max(min, value));
 }
@@ -34,9 +58,10 @@ function sleep(ms: number) {
 }
 
 function normalizeCounts<T>(entries: Array<[T, number]>, maxItems: number) {
-  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  const positive = entries.filter(([, count]) => count > 0);
+  const total = positive.reduce((sum, [, count]) => sum + count, 0);
   if (!total) return [];
-  return entries
+  return positive
     .sort((a, b) => b[1] - a[1])
     .slice(0, maxItems)
     .map(([key, count]) => ({ key, weight: count / total }));
@@ -63,12 +88,22 @@ export async function runUserAffinityJob(options: UserAffinityJobOptions = {}) {
 
       const userIds = runForUserId
         ? [runForUserId]
-        : (
-            await prisma.likedPost.groupBy({
-              by: ['userId'],
-              where: { createdAt: { gte: cutoff } }
-            })
-          ).map((row) => row.userId);
+        : Array.from(
+            new Set(
+              (
+                await Promise.all([
+                  prisma.likedPost.groupBy({
+                    by: ['userId'],
+                    where: { createdAt: { gte: cutoff } }
+                  }),
+                  prisma.feedEngagementEvent.groupBy({
+                    by: ['userId'],
+                    where: { occurredAt: { gte: cutoff } }
+                  })
+                ])
+              ).flatMap((rows) => rows.map((row) => row.userId))
+            )
+          );
 
       for (let offset = 0; offset < userIds.length; offset += config.userBatchSize) {
         const batch = userIds.slice(offset, offset + config.userBatchSize);
@@ -87,6 +122,11 @@ export async function runUserAffinityJob(options: UserAffinityJobOptions = {}) {
           }
         });
 
+        const events = await prisma.feedEngagementEvent.findMany({
+          where: { userId: { in: batch }, occurredAt: { gte: cutoff } },
+          select: { userId: true, type: true, itemType: true, itemId: true, dwellMs: true, watchPct: true }
+        });
+
         const likesByUser = new Map<bigint, typeof likes>();
         const postIds = new Set<bigint>();
         for (const like of likes) {
@@ -99,6 +139,31 @@ export async function runUserAffinityJob(options: UserAffinityJobOptions = {}) {
           }
         }
 
+        const eventsByUser = new Map<bigint, typeof events>();
+        const eventPostIds = new Set<bigint>();
+        for (const event of events) {
+          if (event.itemType === 'POST') eventPostIds.add(event.itemId);
+          const list = eventsByUser.get(event.userId);
+          if (list) {
+            list.push(event);
+          } else {
+            eventsByUser.set(event.userId, [event]);
+          }
+        }
+
+        // Creators of posts that only have events (likes already carry theirs)
+        const eventPostRows = eventPostIds.size
+          ? await prisma.post.findMany({
+              where: { id: { in: Array.from(eventPostIds) }, deletedAt: null, visibility: 'PUBLIC' },
+              select: { id: true, userId: true }
+            })
+          : [];
+        const creatorByPostId = new Map<bigint, bigint>();
+        for (const row of eventPostRows) {
+          creatorByPostId.set(row.id, row.userId);
+          postIds.add(row.id);
+        }
+
         const postIdList = Array.from(postIds);
         const featureRows = postIdList.length
           ? await prisma.postFeatures.findMany({
@@ -155,6 +220,20 @@ export async function runUserAffinityJob(options: UserAffinityJobOptions = {}) {
             }
           }
 
+          for (const event of eventsByUser.get(userId) ?? []) {
+            const weight = eventWeight(event);
+            if (!weight) continue;
+            // Suggestion events are about the profile itself; post events about its creator and topics
+            const creatorId = event.itemType === 'SUGGESTION' ? event.itemId : creatorByPostId.get(event.itemId);
+            if (!creatorId) continue;
+            creatorCounts.set(creatorId, (creatorCounts.get(creatorId) ?? 0) + weight);
+
+            if (event.itemType !== 'POST') continue;
+            for (const topic of topicsByPostId.get(event.itemId) ?? []) {
+              topicCounts.set(topic, (topicCounts.get(topic) ?? 0) + weight);
+            }
+          }
+
           const creatorEntries = normalizeCounts(Array.from(creatorCounts.entries()), config.topCreatorsCount).map(
             (entry) => ({ userId: String(entry.key), weight: entry.weight })
           );
@@ -178,8 +257,9 @@ export async function runUserAffinityJob(options: UserAffinityJobOptions = {}) {
               : { photos: 0, videos: 0, text: 0, polls: 0 };
 
           const engagementVelocity = totalLikes / Math.max(1, config.lookbackDays);
-          const explorationFactor = topicCounts.size
-            ? clamp(topicCounts.size / config.topTopicsCount)
+          const positiveTopics = Array.from(topicCounts.values()).filter((count) => count > 0).length;
+          const explorationFactor = positiveTopics
+            ? clamp(positiveTopics / config.topTopicsCount)
             : 0.5;
 
           return prisma.userAffinityProfile.upsert({
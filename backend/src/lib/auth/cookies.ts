@@ -0,0 +1,29 @@
+export const getCookieOpts = (rememberMe: boolean = false) => {
+  // Cookie settings for same-domain deployment (Railway serves frontend + backend on same domain):
+  // - Use 'lax' for both dev and prod since frontend/backend share the same domain
+  // - 'none' is only needed for cross-domain cookies, which we don't have
+  // - secure: true still required in production for HTTPS
+  const isProduction = process.env.NODE_ENV === 'production';
+  const devHttps = process.env.DEV_HTTPS === '1' || process.env.DEV_HTTPS === 'true';
+  const sameSiteEnv = (process.env.COOKIE_SAMESITE || '').toLowerCase();
+  const sameSite =
+    sameSiteEnv === 'none' || sameSiteEnv === 'lax' || sameSiteEnv === 'strict'
+      ? (sameSiteEnv as 'none' | 'lax' | 'strict')
+      : ('lax' as const);
+  const secure = isProduction || devHttps || sameSite === 'none';
+  const base = {
+    httpOnly: true,
+    sameSite,                  // Works for same-domain, more permissive than 'none'
+    secure,                    // Require HTTPS in production or when dev HTTPS is enabled
+    path: '/',
+  };
+  
+  if (rememberMe) {
+    return {
+      ...base,
+      maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
+    };
+  }
+  
+  return base;
+};
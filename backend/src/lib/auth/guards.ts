@@ -1,6 +1,10 @@
 import { prisma } from '../prisma/client.js';
 
-export async function assertConversationParticipant(conversationId: bigint, userId: bigint) {
+export async function assertConversationParticipant(
+  conversationId: bigint,
+  userId: bigint,
+  options: { allowReadOnly?: boolean } = {}
+) {
   const c = await prisma.conversation.findUnique({
     where: { id: conversationId },
     select: { id: true, userAId: true, userBId: true, matchId: true, match: { select: { state: true } } }
@@ -8,9 +12,39 @@ export async function assertConversationParticipant(conversationId: bigint, user
   if (!c) return { ok: false as const, status: 404 as const, error: 'Conversation not found' };
   const ok = c.userAId === userId || c.userBId === userId;
   if (!ok) return { ok: false as const, status: 403 as const, error: 'Forbidden' };
-  // If conversation has a match, check that it's active
-  if (c.matchId && c.match && c.match.state !== 'ACTIVE') {
-    return { ok: false as const, status: 403 as const, error: 'Conversation not active' };
+  // A conversation whose match was closed (unmatch) stays readable but accepts no new activity
+  const readOnly = c.match?.state === 'CLOSED';
+  if (c.matchId && c.match && c.match.state !== 'ACTIVE' && !(readOnly && options.allowReadOnly)) {
+    return {
+      ok: false as const,
+      status: 403 as const,
+      error: 'Conversation not active',
+      code: readOnly ? 'CONVERSATION_READ_ONLY' : undefined
+    };
   }
-  return { ok: true as const, conversation: c };
+  return { ok: true as const, conversation: c, readOnly };
+}
+
+export async function assertEmailVerified(userId: bigint) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { emailVerifiedAt: true }
+  });
+  if (!user) return { ok: false as const, status: 404 as const, error: 'User not found' };
+  if (!user.emailVerifiedAt) {
+    return { ok: false as const, status: 403 as const, error: 'Verify your email address to send messages', code: 'EMAIL_NOT_VERIFIED' };
+  }
+  return { ok: true as const };
+}
+
+export async function assertRecipientAvailable(userId: bigint) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { deletedAt: true, suspendedAt: true }
+  });
+  // Deleted and suspended accounts look the same to other members
+  if (!user || user.deletedAt || user.suspendedAt) {
+    return { ok: false as const, status: 403 as const, error: 'User is unavailable', code: 'RECIPIENT_UNAVAILABLE' };
+  }
+  return { ok: true as const };
 }
@@ -2,6 +2,8 @@ import jwt from 'jsonwebtoken';
 
 export type JwtPayload = {
   sub: string;
+  sid?: string; // AuthSession id
+  jti?: string; // refresh token id, rotated on every refresh
   iat?: number;
   exp?: number;
 };
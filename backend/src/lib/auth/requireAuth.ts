@@ -11,7 +11,7 @@ function getAccessToken(req: any): string | null {
   return bearer ?? cookieToken ?? null;
 }
 
-function tokenToUserId(token: string): bigint | null {
+function tokenToIdentity(token: string): { userId: bigint; sessionId?: bigint } | null {
   try {
     const payload = verifyAccessToken(token);
     if (!payload || !payload.sub) {
@@ -22,7 +22,8 @@ function tokenToUserId(token: string): bigint | null {
       // This error message will be logged but we return null to indicate auth failure
       return null;
     }
-    return parsed.value;
+    const sid = payload.sid ? parsePositiveBigInt(payload.sid, 'sid') : null;
+    return { userId: parsed.value, sessionId: sid?.ok ? sid.value : undefined };
   } catch (err) {
     // JWT verification errors are expected for invalid tokens - just return null
     // This indicates the token is invalid, not a server error
@@ -42,13 +43,14 @@ export function requireAuth(rule: AuthRule): Handler {
           process.stdout.write(`[auth] requireAuth: No token found for ${req.method} ${req.url}\n`);
           return res.status(401).json({ error: 'Authentication required' });
         }
-        const userId = tokenToUserId(token);
-        if (!userId) {
+        const identity = tokenToIdentity(token);
+        if (!identity) {
           process.stdout.write(`[auth] requireAuth: Invalid token for ${req.method} ${req.url}\n`);
           return res.status(401).json({ error: 'invalid token' });
         }
-        req.ctx.userId = userId;
-        req.userId = userId.toString();
+        req.ctx.userId = identity.userId;
+        req.ctx.sessionId = identity.sessionId;
+        req.userId = identity.userId.toString();
       }
 
       if (rule.kind === 'user') return next();
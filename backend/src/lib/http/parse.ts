@@ -18,6 +18,9 @@ function normalizeScalar(value: unknown): string | null {
   return null;
 }
 
+// Ids are signed BIGINT columns; anything larger fails in the database instead of here
+const MAX_BIGINT_ID = 2n ** 63n - 1n;
+
 export function parsePositiveBigInt(value: unknown, label: string): ParseResult<bigint> {
   const raw = normalizeScalar(value);
   if (!raw || !/^\d+$/.test(raw)) {
@@ -27,6 +30,9 @@ export function parsePositiveBigInt(value: unknown, label: string): ParseResult<
   if (parsed <= 0n) {
     return { ok: false, error: `${label} must be a positive integer` };
   }
+  if (parsed > MAX_BIGINT_ID) {
+    return { ok: false, error: `${label} is out of range` };
+  }
   return { ok: true, value: parsed };
 }
 
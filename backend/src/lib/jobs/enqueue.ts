@@ -27,6 +27,7 @@ export async function enqueueAllJobs(
   const resolvedJobs = resolveJobDependencies(jobsMap);
   
   for (const resolved of resolvedJobs) {
+    if (jobsMap.get(resolved.name)?.onDemandOnly) continue;
     const run = await prisma.jobRun.create({
       data: {
         jobName: resolved.name,
@@ -59,6 +60,7 @@ export async function enqueueJobsByGroup(
   const resolvedJobs = resolveJobsByGroup(jobsMap, group);
   
   for (const resolved of resolvedJobs) {
+    if (jobsMap.get(resolved.name)?.onDemandOnly) continue;
     const run = await prisma.jobRun.create({
       data: {
         jobName: resolved.name,
@@ -25,6 +25,7 @@ async function loadJobs(): Promise<JobRegistry> {
     { contentFeaturesJob },
     { trendingJob },
     { affinityJob },
+    { feedEngagementJob },
     { feedPresortJob },
     { feedPresortCleanupJob },
     { statsReconcileJob },
@@ -32,12 +33,18 @@ async function loadJobs(): Promise<JobRegistry> {
     { mediaMetadataJob },
     { mediaMetadataAllJob },
     { mediaMetadataBatchJob },
+    { mediaVariantsJob },
+    { mediaVariantsBatchJob },
+    { mediaTranscodeJob },
+    { mediaTranscodeBatchJob },
     { buildUserTraitsJob },
     { profileSearchIndexJob },
     { userInterestSetsJob },
     { searchableUserJob },
     { quizAnswerStatsJob },
     { interestRelationshipsJob },
+    { accountExportJob },
+    { accountPurgeJob },
     { scienceSamplePairsJob },
     { scienceDailyStatsJob },
     { scienceInterestCorrelationsJob },
@@ -47,6 +54,7 @@ async function loadJobs(): Promise<JobRegistry> {
     dynamicImportJob('../../../../scripts/jobs/core/contentFeatures.js'),
     dynamicImportJob('../../../../scripts/jobs/core/trending.js'),
     dynamicImportJob('../../../../scripts/jobs/core/affinity.js'),
+    dynamicImportJob('../../../../scripts/jobs/core/feedEngagement.js'),
     dynamicImportJob('../../../../scripts/jobs/core/feedPresort.js'),
     dynamicImportJob('../../../../scripts/jobs/core/feedPresortCleanup.js'),
     dynamicImportJob('../../../../scripts/jobs/core/statsReconcile.js'),
@@ -54,12 +62,18 @@ async function loadJobs(): Promise<JobRegistry> {
     dynamicImportJob('../../../../scripts/jobs/core/mediaMetadata.js'),
     dynamicImportJob('../../../../scripts/jobs/core/mediaMetadataAll.js'),
     dynamicImportJob('../../../../scripts/jobs/core/mediaMetadataBatch.js'),
+    dynamicImportJob('../../../../scripts/jobs/core/mediaVariants.js'),
+    dynamicImportJob('../../../../scripts/jobs/core/mediaVariantsBatch.js'),
+    dynamicImportJob('../../../../scripts/jobs/core/mediaTranscode.js'),
+    dynamicImportJob('../../../../scripts/jobs/core/mediaTranscodeBatch.js'),
     dynamicImportJob('../../../../scripts/jobs/core/buildUserTraits.js'),
     dynamicImportJob('../../../../scripts/jobs/core/profileSearchIndex.js'),
     dynamicImportJob('../../../../scripts/jobs/core/userInterestSets.js'),
     dynamicImportJob('../../../../scripts/jobs/core/searchableUser.js'),
     dynamicImportJob('../../../../scripts/jobs/core/quizAnswerStats.js'),
     dynamicImportJob('../../../../scripts/jobs/core/interestRelationships.js'),
+    dynamicImportJob('../../../../scripts/jobs/core/accountExport.js'),
+    dynamicImportJob('../../../../scripts/jobs/core/accountPurge.js'),
     dynamicImportJob('../../../../scripts/jobs/science/samplePairs.js'),
     dynamicImportJob('../../../../scripts/jobs/science/dailyStats.js'),
     dynamicImportJob('../../../../scripts/jobs/science/interestCorrelations.js'),
@@ -71,6 +85,7 @@ async function loadJobs(): Promise<JobRegistry> {
     'content-features': contentFeaturesJob,
     'trending': trendingJob,
     'affinity': affinityJob,
+    'feed-engagement': feedEngagementJob,
     'feed-presort': feedPresortJob,
     'feed-presort-cleanup': feedPresortCleanupJob,
     'stats-reconcile': statsReconcileJob,
@@ -78,12 +93,18 @@ async function loadJobs(): Promise<JobRegistry> {
     'media-metadata': mediaMetadataJob,
     'media-metadata-all': mediaMetadataAllJob,
     'media-metadata-batch': mediaMetadataBatchJob,
+    'media-variants': mediaVariantsJob,
+    'media-variants-batch': mediaVariantsBatchJob,
+    'media-transcode': mediaTranscodeJob,
+    'media-transcode-batch': mediaTranscodeBatchJob,
     'build-user-traits': buildUserTraitsJob,
     'profile-search-index': profileSearchIndexJob,
     'user-interest-sets': userInterestSetsJob,
     'searchable-user': searchableUserJob,
     'quiz-answer-stats': quizAnswerStatsJob,
     'interest-relationships': interestRelationshipsJob,
+    'account-export': accountExportJob,
+    'account-purge': accountPurgeJob,
     'science-sample-pairs': scienceSamplePairsJob,
     'science-daily-stats': scienceDailyStatsJob,
     'science-interest-correlations': scienceInterestCorrelationsJob,
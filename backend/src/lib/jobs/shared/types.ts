@@ -1,3 +1,5 @@
+import type { JobContext } from '../runJob.js';
+
 export type JobGroup = 'matching' | 'feed' | 'search' | 'maintenance' | 'media' | 'quiz';
 
 export interface JobDefinition {
@@ -7,7 +9,8 @@ export interface JobDefinition {
   defaultParams?: Record<string, unknown>;
   group?: JobGroup;
   dependencies?: string[]; // Job names that must complete before this job
-  run: () => Promise<void>;
+  onDemandOnly?: boolean; // Needs per-run params; skipped by "run all" and group runs
+  run: (ctx?: JobContext) => Promise<void>;
 }
 
 export interface JobRegistry {
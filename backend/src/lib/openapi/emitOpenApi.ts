@@ -29,6 +29,12 @@ const multipartRequestBody = (schema: any) => ({
     'multipart/form-data': { schema }
   }
 });
+const binaryRequestBody = () => ({
+  required: true,
+  content: {
+    'application/octet-stream': { schema: { type: 'string', format: 'binary' } }
+  }
+});
 
 const schemas = {
   Id: { type: 'string', pattern: '^\\d+$' },
@@ -85,20 +91,29 @@ const schemas = {
     type: 'object',
     properties: { 
       userId: ref('Id'),
-      role: { type: 'string', enum: ['USER', 'ADMIN', 'SUPER_ADMIN'] }
+      role: { type: 'string', enum: ['USER', 'ADMIN', 'SUPER_ADMIN'] },
+      emailVerified: { type: 'boolean' }
     },
-    required: ['userId', 'role']
+    required: ['userId', 'role', 'emailVerified']
   },
   Visibility: { type: 'string', enum: ['PUBLIC', 'PRIVATE'] },
   AccessStatus: { type: 'string', enum: ['NONE', 'PENDING', 'GRANTED', 'DENIED', 'REVOKED', 'CANCELED'] },
   MediaType: { type: 'string', enum: ['IMAGE', 'VIDEO', 'AUDIO', 'EMBED'] },
-  MediaStatus: { type: 'string', enum: ['PENDING', 'READY', 'FAILED'] },
+  MediaStatus: { type: 'string', enum: ['PENDING', 'READY', 'REJECTED', 'FAILED'] },
   Gender: { type: 'string', enum: ['UNSPECIFIED', 'MALE', 'FEMALE', 'NONBINARY', 'OTHER'] },
   DatingIntent: { type: 'string', enum: ['UNSPECIFIED', 'FRIENDS', 'CASUAL', 'LONG_TERM', 'MARRIAGE'] },
   MatchState: { type: 'string', enum: ['ACTIVE', 'BLOCKED', 'CLOSED'] },
   CompatibilityStatus: { type: 'string', enum: ['READY', 'INSUFFICIENT_DATA'] },
   SwipeAction: { type: 'string', enum: ['LIKE', 'DISLIKE', 'UNLIKE'] },
   ReportReason: { type: 'string', enum: ['SPAM', 'HARASSMENT', 'IMPERSONATION', 'NUDITY', 'HATE', 'OTHER'] },
+  MediaSource: {
+    type: 'object',
+    properties: {
+      type: { type: 'string' },
+      srcset: { type: 'string' }
+    },
+    required: ['type', 'srcset']
+  },
   Media: {
     type: 'object',
     properties: {
@@ -106,6 +121,9 @@ const schemas = {
       type: ref('MediaType'),
       url: { type: 'string' },
       thumbUrl: { type: ['string', 'null'] },
+      sources: { type: 'array', items: ref('MediaSource') },
+      previewUrl: { type: ['string', 'null'] },
+      hlsUrl: { type: ['string', 'null'] },
       width: { type: ['number', 'null'] },
       height: { type: ['number', 'null'] },
       durationSec: { type: ['number', 'null'] }
@@ -116,7 +134,10 @@ const schemas = {
     type: 'object',
     properties: {
       original: { type: 'string' },
-      thumb: { type: ['string', 'null'] }
+      thumb: { type: ['string', 'null'] },
+      sources: { type: 'array', items: ref('MediaSource') },
+      preview: { type: ['string', 'null'] },
+      hls: { type: ['string', 'null'] }
     },
     required: ['original']
   },
@@ -135,6 +156,7 @@ const schemas = {
     properties: {
       mediaId: ref('Id'),
       status: ref('MediaStatus'),
+      rejectionReason: { type: ['string', 'null'] },
       mimeType: { type: ['string', 'null'] },
       sizeBytes: { type: ['number', 'null'] },
       width: { type: ['number', 'null'] },
@@ -144,6 +166,42 @@ const schemas = {
     },
     required: ['mediaId', 'status', 'urls']
   },
+  SignedMediaResponse: {
+    type: 'object',
+    properties: {
+      mediaId: ref('Id'),
+      url: { type: 'string' },
+      thumbUrl: { type: ['string', 'null'] },
+      previewUrl: { type: ['string', 'null'] },
+      hlsUrl: { type: ['string', 'null'] },
+      expiresAt: { type: 'string', format: 'date-time' }
+    },
+    required: ['mediaId', 'url', 'expiresAt']
+  },
+  MediaUploadSessionBody: {
+    type: 'object',
+    properties: {
+      fileName: { type: 'string' },
+      mimeType: { type: 'string' },
+      totalBytes: { type: 'number' },
+      sha256: { type: 'string', pattern: '^[a-f0-9]{64}$' },
+      visibility: ref('Visibility')
+    },
+    required: ['fileName', 'mimeType', 'totalBytes', 'sha256']
+  },
+  MediaUploadSessionResponse: {
+    type: 'object',
+    properties: {
+      uploadId: { type: 'string' },
+      status: { type: 'string', enum: ['OPEN', 'COMPLETED', 'FAILED'] },
+      receivedBytes: { type: 'number' },
+      totalBytes: { type: 'number' },
+      chunkBytes: { type: 'number' },
+      expiresAt: { type: 'string', format: 'date-time' },
+      mediaId: { anyOf: [ref('Id'), { type: 'null' }] }
+    },
+    required: ['uploadId', 'status', 'receivedBytes', 'totalBytes', 'chunkBytes', 'expiresAt', 'mediaId']
+  },
   MediaUploadBody: {
     type: 'object',
     properties: {
@@ -313,6 +371,59 @@ const schemas = {
         },
         required: ['windowHours', 'demotedPosts', 'demotedSuggestions']
       },
+      scoring: {
+        type: ['object', 'null'],
+        properties: {
+          weights: { type: 'object', additionalProperties: { type: 'number' } },
+          explorationFactor: { type: ['number', 'null'] },
+          coverage: {
+            type: 'object',
+            properties: {
+              features: { type: 'number' },
+              trending: { type: 'number' },
+              engagement: { type: 'number' },
+              creatorAffinity: { type: 'number' },
+              topicAffinity: { type: 'number' }
+            },
+            required: ['features', 'trending', 'engagement', 'creatorAffinity', 'topicAffinity']
+          },
+          components: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                meanContribution: { type: 'number' },
+                share: { type: 'number' }
+              },
+              required: ['meanContribution', 'share']
+            }
+          },
+          posts: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                postId: ref('Id'),
+                score: { type: 'number' },
+                seenPenalty: { type: 'number' },
+                components: {
+                  type: 'object',
+                  additionalProperties: {
+                    type: 'object',
+                    properties: {
+                      value: { type: 'number' },
+                      contribution: { type: 'number' }
+                    },
+                    required: ['value', 'contribution']
+                  }
+                }
+              },
+              required: ['postId', 'score', 'seenPenalty', 'components']
+            }
+          }
+        },
+        required: ['weights', 'explorationFactor', 'coverage', 'components', 'posts']
+      },
       ranking: {
         type: ['object', 'null'],
         properties: {
@@ -333,6 +444,33 @@ const schemas = {
     },
     required: ['items', 'nextCursorId', 'hasMorePosts']
   },
+  FeedEngagementEvent: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['dwell', 'watch', 'profile_open', 'comment_open', 'hide', 'not_interested'] },
+      itemType: { type: 'string', enum: ['post', 'suggestion'] },
+      itemId: ref('Id'),
+      dwellMs: { type: 'number' },
+      watchPct: { type: 'number' },
+      occurredAt: { type: 'string', format: 'date-time' }
+    },
+    required: ['type', 'itemType', 'itemId']
+  },
+  FeedEventsBody: {
+    type: 'object',
+    properties: {
+      events: { type: 'array', items: ref('FeedEngagementEvent'), maxItems: 100 }
+    },
+    required: ['events']
+  },
+  FeedEventsResponse: {
+    type: 'object',
+    properties: {
+      accepted: { type: 'number' },
+      rejected: { type: 'number' }
+    },
+    required: ['accepted', 'rejected']
+  },
   PostCreateBody: {
     type: 'object',
     properties: {
@@ -593,6 +731,14 @@ const schemas = {
     },
     required: ['likes']
   },
+  ReceivedLikesResponse: {
+    type: 'object',
+    properties: {
+      likes: { type: 'array', items: ref('LikeItem') },
+      nextCursorId: { anyOf: [ref('Id'), { type: 'null' }] }
+    },
+    required: ['likes', 'nextCursorId']
+  },
   MatchUserProfile: {
     type: 'object',
     properties: {
@@ -663,7 +809,8 @@ const schemas = {
       createdAt: { type: 'string', format: 'date-time' },
       senderId: ref('Id'),
       isSystem: { type: 'boolean' },
-      followRequest: { anyOf: [ref('FollowRequestRef'), { type: 'null' }] }
+      followRequest: { anyOf: [ref('FollowRequestRef'), { type: 'null' }] },
+      attachmentCount: { type: 'number' }
     },
     required: ['id', 'body', 'createdAt', 'senderId', 'isSystem']
   },
@@ -674,9 +821,10 @@ const schemas = {
       updatedAt: { type: 'string', format: 'date-time' },
       otherUser: ref('InboxUser'),
       lastMessage: { anyOf: [ref('InboxMessage'), { type: 'null' }] },
-      unreadCount: { type: 'number' }
+      unreadCount: { type: 'number' },
+      readOnly: { type: 'boolean' }
     },
-    required: ['id', 'updatedAt', 'otherUser', 'lastMessage', 'unreadCount']
+    required: ['id', 'updatedAt', 'otherUser', 'lastMessage', 'unreadCount', 'readOnly']
   },
   InboxResponse: {
     type: 'object',
@@ -686,6 +834,27 @@ const schemas = {
     },
     required: ['conversations', 'nextCursorId']
   },
+  MessageReaction: {
+    type: 'object',
+    properties: {
+      emoji: { type: 'string' },
+      userIds: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['emoji', 'userIds']
+  },
+  MessageAttachment: {
+    type: 'object',
+    properties: {
+      id: ref('Id'),
+      type: ref('MediaType'),
+      mimeType: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      width: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+      height: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+      durationSec: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+      url: { type: 'string' }
+    },
+    required: ['id', 'type', 'mimeType', 'width', 'height', 'durationSec', 'url']
+  },
   MessageItem: {
     type: 'object',
     properties: {
@@ -693,8 +862,11 @@ const schemas = {
       body: { type: 'string' },
       senderId: ref('Id'),
       createdAt: { type: 'string', format: 'date-time' },
+      editedAt: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] },
       isSystem: { type: 'boolean' },
-      followRequest: { anyOf: [ref('FollowRequestRef'), { type: 'null' }] }
+      followRequest: { anyOf: [ref('FollowRequestRef'), { type: 'null' }] },
+      reactions: { type: 'array', items: ref('MessageReaction') },
+      attachments: { type: 'array', items: ref('MessageAttachment') }
     },
     required: ['id', 'body', 'senderId', 'createdAt', 'isSystem']
   },
@@ -703,22 +875,150 @@ const schemas = {
     properties: {
       conversationId: ref('Id'),
       messages: { type: 'array', items: ref('MessageItem') },
+      nextCursorId: { anyOf: [ref('Id'), { type: 'null' }] },
+      readOnly: { type: 'boolean' },
+      lastReadMessageId: { anyOf: [ref('Id'), { type: 'null' }] },
+      otherLastReadMessageId: { anyOf: [ref('Id'), { type: 'null' }] }
+    },
+    required: ['conversationId', 'messages', 'nextCursorId', 'lastReadMessageId', 'otherLastReadMessageId']
+  },
+  ReadUpToBody: {
+    type: 'object',
+    properties: {
+      messageId: ref('Id')
+    },
+    required: ['messageId']
+  },
+  ReadUpToResponse: {
+    type: 'object',
+    properties: {
+      conversationId: ref('Id'),
+      lastReadMessageId: { anyOf: [ref('Id'), { type: 'null' }] },
+      lastReadAt: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] },
+      unreadCount: { type: 'number' }
+    },
+    required: ['conversationId', 'lastReadMessageId', 'lastReadAt', 'unreadCount']
+  },
+  MessageSearchHit: {
+    type: 'object',
+    properties: {
+      messageId: ref('Id'),
+      conversationId: ref('Id'),
+      senderId: ref('Id'),
+      createdAt: { type: 'string', format: 'date-time' },
+      otherUser: {
+        anyOf: [
+          {
+            type: 'object',
+            properties: {
+              id: ref('Id'),
+              displayName: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+              avatarUrl: { anyOf: [{ type: 'string' }, { type: 'null' }] }
+            },
+            required: ['id', 'displayName', 'avatarUrl']
+          },
+          { type: 'null' }
+        ]
+      },
+      snippet: { type: 'string' },
+      highlights: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { start: { type: 'number' }, end: { type: 'number' } },
+          required: ['start', 'end']
+        }
+      }
+    },
+    required: ['messageId', 'conversationId', 'senderId', 'createdAt', 'otherUser', 'snippet', 'highlights']
+  },
+  MessageSearchResponse: {
+    type: 'object',
+    properties: {
+      q: { type: 'string' },
+      hits: { type: 'array', items: ref('MessageSearchHit') },
       nextCursorId: { anyOf: [ref('Id'), { type: 'null' }] }
     },
-    required: ['conversationId', 'messages', 'nextCursorId']
+    required: ['q', 'hits', 'nextCursorId']
+  },
+  UnmatchResponse: {
+    type: 'object',
+    properties: {
+      ok: { type: 'boolean' },
+      matchId: ref('Id'),
+      conversationId: { anyOf: [ref('Id'), { type: 'null' }] },
+      closedAt: { type: 'string', format: 'date-time' }
+    },
+    required: ['ok', 'matchId', 'conversationId', 'closedAt']
   },
   MessageSendBody: {
+    type: 'object',
+    properties: {
+      body: { type: 'string' },
+      mediaIds: { type: 'array', items: ref('Id') }
+    }
+  },
+  MessageSendResponse: {
+    type: 'object',
+    properties: {
+      id: ref('Id'),
+      createdAt: { type: 'string', format: 'date-time' },
+      attachments: { type: 'array', items: ref('MessageAttachment') }
+    },
+    required: ['id', 'createdAt', 'attachments']
+  },
+  MessageEditBody: {
     type: 'object',
     properties: { body: { type: 'string' } },
     required: ['body']
   },
-  MessageSendResponse: {
+  MessageEditResponse: {
     type: 'object',
     properties: {
       id: ref('Id'),
-      createdAt: { type: 'string', format: 'date-time' }
+      body: { type: 'string' },
+      editedAt: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] }
     },
-    required: ['id', 'createdAt']
+    required: ['id', 'body', 'editedAt']
+  },
+  MessageEditHistoryResponse: {
+    type: 'object',
+    properties: {
+      messageId: ref('Id'),
+      edits: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            body: { type: 'string' },
+            editedAt: { type: 'string', format: 'date-time' }
+          },
+          required: ['body', 'editedAt']
+        }
+      }
+    },
+    required: ['messageId', 'edits']
+  },
+  MessageUnsendResponse: {
+    type: 'object',
+    properties: {
+      ok: { type: 'boolean' },
+      deletedAt: { type: 'string', format: 'date-time' }
+    },
+    required: ['ok', 'deletedAt']
+  },
+  MessageReactionBody: {
+    type: 'object',
+    properties: { emoji: { type: 'string' } },
+    required: ['emoji']
+  },
+  MessageReactionsResponse: {
+    type: 'object',
+    properties: {
+      messageId: ref('Id'),
+      reactions: { type: 'array', items: ref('MessageReaction') }
+    },
+    required: ['messageId', 'reactions']
   },
   QuizOption: {
     type: 'object',
@@ -822,6 +1122,9 @@ const schemas = {
   }
 };
 
+// Upload sessions are keyed by UUID rather than a numeric Id
+const uploadIdParam = { name: 'uploadId', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } };
+
 const routeSchemas: Record<string, { requestBody?: any; responses?: any; parameters?: any[] }> = {
   'system.GET./meta': {
     responses: { '200': jsonResponse(ref('MetaResponse')) }
@@ -853,6 +1156,10 @@ const routeSchemas: Record<string, { requestBody?: any; responses?: any; paramet
     ],
     responses: { '200': jsonResponse(ref('FeedResponse')) }
   },
+  'feed.POST./feed/events': {
+    requestBody: jsonRequestBody(ref('FeedEventsBody')),
+    responses: { '202': jsonResponse(ref('FeedEventsResponse')) }
+  },
   'feed.POST./posts': {
     requestBody: jsonRequestBody(ref('PostCreateBody')),
     responses: { '201': jsonResponse(ref('PostCreateResponse')) }
@@ -864,6 +1171,9 @@ const routeSchemas: Record<string, { requestBody?: any; responses?: any; paramet
   'feed.POST./posts/:postId/save': {
     responses: { '200': jsonResponse(ref('OkResponse')) }
   },
+  'feed.POST./posts/:postId/hide': {
+    responses: { '200': jsonResponse(ref('OkResponse')) }
+  },
   'profiles.GET./profiles/:userId': {
     responses: { '200': jsonResponse(ref('ProfileResponse')) }
   },
@@ -904,9 +1214,19 @@ const routeSchemas: Record<string, { requestBody?: any; responses?: any; paramet
     requestBody: jsonRequestBody(ref('SwipeBody')),
     responses: { '200': jsonResponse(ref('SwipeResponse')) }
   },
+  'matches.POST./matches/:matchId/unmatch': {
+    responses: { '200': jsonResponse(ref('UnmatchResponse')) }
+  },
   'matches.GET./likes': {
     responses: { '200': jsonResponse(ref('LikesResponse')) }
   },
+  'matches.GET./likes/received': {
+    parameters: [
+      { name: 'cursorId', in: 'query', required: false, schema: ref('Id') },
+      { name: 'take', in: 'query', required: false, schema: { type: 'number' } }
+    ],
+    responses: { '200': jsonResponse(ref('ReceivedLikesResponse')) }
+  },
   'matches.GET./matches': {
     responses: { '200': jsonResponse(ref('MatchListResponse')) }
   },
@@ -951,16 +1271,46 @@ const routeSchemas: Record<string, { requestBody?: any; responses?: any; paramet
     ],
     responses: { '200': jsonResponse(ref('MessageListResponse')) }
   },
+  'messaging.GET./messages/search': {
+    parameters: [
+      { name: 'q', in: 'query', required: true, schema: { type: 'string' } },
+      { name: 'conversationId', in: 'query', required: false, schema: ref('Id') },
+      { name: 'cursorId', in: 'query', required: false, schema: ref('Id') },
+      { name: 'take', in: 'query', required: false, schema: { type: 'number' } }
+    ],
+    responses: { '200': jsonResponse(ref('MessageSearchResponse')) }
+  },
   'messaging.POST./conversations/:conversationId/messages': {
     requestBody: jsonRequestBody(ref('MessageSendBody')),
     responses: { '201': jsonResponse(ref('MessageSendResponse')) }
   },
+  'messaging.POST./conversations/:conversationId/read-up-to': {
+    requestBody: jsonRequestBody(ref('ReadUpToBody')),
+    responses: { '200': jsonResponse(ref('ReadUpToResponse')) }
+  },
   'messaging.POST./messages/:messageId/read': {
     responses: { '200': jsonResponse(ref('OkResponse')) }
   },
   'messaging.POST./conversations/:conversationId/delete': {
     responses: { '200': jsonResponse(ref('OkResponse')) }
   },
+  'messaging.PATCH./messages/:messageId': {
+    requestBody: jsonRequestBody(ref('MessageEditBody')),
+    responses: { '200': jsonResponse(ref('MessageEditResponse')) }
+  },
+  'messaging.GET./messages/:messageId/edits': {
+    responses: { '200': jsonResponse(ref('MessageEditHistoryResponse')) }
+  },
+  'messaging.DELETE./messages/:messageId': {
+    responses: { '200': jsonResponse(ref('MessageUnsendResponse')) }
+  },
+  'messaging.POST./messages/:messageId/reactions': {
+    requestBody: jsonRequestBody(ref('MessageReactionBody')),
+    responses: { '200': jsonResponse(ref('MessageReactionsResponse')) }
+  },
+  'messaging.DELETE./messages/:messageId/reactions/:emoji': {
+    responses: { '200': jsonResponse(ref('MessageReactionsResponse')) }
+  },
   'quizzes.GET./quizzes/active': {
     responses: { '200': jsonResponse(ref('QuizResponse')) }
   },
@@ -983,6 +1333,9 @@ const routeSchemas: Record<string, { requestBody?: any; responses?: any; paramet
   'safety.POST./users/:userId/block': {
     responses: { '200': jsonResponse(ref('OkResponse')) }
   },
+  'safety.POST./users/:userId/mute': {
+    responses: { '200': jsonResponse(ref('OkResponse')) }
+  },
   'safety.POST./users/:userId/report': {
     requestBody: jsonRequestBody(ref('ReportBody')),
     responses: { '200': jsonResponse(ref('OkResponse')) }
@@ -991,8 +1344,35 @@ const routeSchemas: Record<string, { requestBody?: any; responses?: any; paramet
     requestBody: multipartRequestBody(ref('MediaUploadBody')),
     responses: { '201': jsonResponse(ref('MediaUploadResponse')) }
   },
+  'media.POST./media/uploads': {
+    requestBody: jsonRequestBody(ref('MediaUploadSessionBody')),
+    responses: { '201': jsonResponse(ref('MediaUploadSessionResponse')) }
+  },
+  'media.GET./media/uploads/:uploadId': {
+    parameters: [uploadIdParam],
+    responses: { '200': jsonResponse(ref('MediaUploadSessionResponse')) }
+  },
+  'media.PUT./media/uploads/:uploadId': {
+    parameters: [
+      uploadIdParam,
+      { name: 'Upload-Offset', in: 'header', required: true, schema: { type: 'number' } }
+    ],
+    requestBody: binaryRequestBody(),
+    responses: { '200': jsonResponse(ref('MediaUploadSessionResponse')) }
+  },
+  'media.POST./media/uploads/:uploadId/complete': {
+    parameters: [uploadIdParam],
+    responses: { '201': jsonResponse(ref('MediaUploadResponse')) }
+  },
+  'media.DELETE./media/uploads/:uploadId': {
+    parameters: [uploadIdParam],
+    responses: { '200': jsonResponse(ref('OkResponse')) }
+  },
   'media.GET./media/:mediaId': {
     responses: { '200': jsonResponse(ref('MediaResponse')) }
+  },
+  'media.GET./media/:mediaId/signed-url': {
+    responses: { '200': jsonResponse(ref('SignedMediaResponse')) }
   }
 };
 
@@ -1019,13 +1399,16 @@ for (const d of registry) {
     };
 
     const schema = routeSchemas[r.id];
-    const params = pathParams(r.path).map((name) => ({
-      name,
-      in: 'path',
-      required: true,
-      schema: ref('Id')
-    }));
     const extraParams = schema?.parameters ?? [];
+    const declared = new Set(extraParams.filter((p) => p.in === 'path').map((p) => p.name));
+    const params = pathParams(r.path)
+      .filter((name) => !declared.has(name))
+      .map((name) => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: ref('Id')
+      }));
     if (params.length || extraParams.length) {
       op.parameters = [...params, ...extraParams];
     }
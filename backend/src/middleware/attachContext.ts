@@ -9,7 +9,7 @@ function getAccessToken(req: any): string | null {
   return bearer ?? cookieToken ?? null;
 }
 
-function tokenToUserId(token: string): bigint | null {
+function tokenToIdentity(token: string): { userId: bigint; sessionId?: bigint } | null {
   try {
     const payload = verifyAccessToken(token);
     if (!payload || !payload.sub) {
@@ -20,7 +20,8 @@ function tokenToUserId(token: string): bigint | null {
       // Invalid userId in token - return null to indicate auth failure
       return null;
     }
-    return parsed.value;
+    const sid = payload.sid ? parsePositiveBigInt(payload.sid, 'sid') : null;
+    return { userId: parsed.value, sessionId: sid?.ok ? sid.value : undefined };
   } catch (err) {
     // JWT verification errors are expected for invalid tokens - just return null
     // This indicates the token is invalid, not a server error
@@ -36,10 +37,11 @@ export const attachContext: Handler = (req, _res, next) => {
     // If token is invalid, just don't set userId - don't throw errors
     const token = getAccessToken(req);
     if (token) {
-      const tokenUserId = tokenToUserId(token);
-      if (tokenUserId) {
-        req.ctx.userId = tokenUserId;
-        req.userId = tokenUserId.toString();
+      const identity = tokenToIdentity(token);
+      if (identity) {
+        req.ctx.userId = identity.userId;
+        req.ctx.sessionId = identity.sessionId;
+        req.userId = identity.userId.toString();
       }
       // If token is invalid, tokenToUserId returns null - that's fine, just continue
     }
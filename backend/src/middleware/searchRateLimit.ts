@@ -48,8 +48,8 @@ function cleanupOldEntries() {
   }
 }
 
-// Cleanup old entries every 5 minutes
-setInterval(cleanupOldEntries, 5 * 60 * 1000);
+// Cleanup old entries every 5 minutes; the timer never keeps the process alive
+setInterval(cleanupOldEntries, 5 * 60 * 1000).unref();
 
 /**
  * Rate limiting middleware for search endpoint
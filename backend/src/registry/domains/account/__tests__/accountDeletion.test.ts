@@ -0,0 +1,191 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { purgeDueAccounts } from '../../../../services/account/accountDeletion.js';
+import { cleanupExpiredExports, processAccountExport } from '../../../../jobs/accountExportJob.js';
+import { getMediaStorage } from '../../../../services/media/storage.js';
+import { accountDomain } from '../index.js';
+import { authDomain } from '../../auth/index.js';
+import { callRoute, cleanupUsers, createUser } from '../../../../__tests__/helpers.js';
+
+async function readAll(stream: NodeJS.ReadableStream) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+function createAccountUser(label: string) {
+  return createUser({ label: `account-${label}`, password: 'password123', profile: { bio: 'Hello there' } });
+}
+
+test('Account - DELETE /account requires the password and blocks login until restored', async () => {
+  const user = await createAccountUser('delete');
+  try {
+    const wrong = await callRoute(accountDomain, 'account.DELETE./account', user.id, { body: { password: 'nope' } });
+    assert.strictEqual(wrong.status, 403);
+
+    const deleted = await callRoute(accountDomain, 'account.DELETE./account', user.id, {
+      body: { password: 'password123' }
+    });
+    assert.strictEqual(deleted.status, 200);
+    assert.ok(new Date(deleted.body.deletionScheduledFor) > new Date());
+
+    const profile = await prisma.profile.findUnique({ where: { userId: user.id } });
+    assert.ok(profile?.deletedAt);
+
+    const login = await callRoute(authDomain, 'auth.POST./auth/login', null, {
+      body: { email: user.email, password: 'password123' }
+    });
+    assert.strictEqual(login.status, 403);
+    assert.strictEqual(login.body.code, 'ACCOUNT_PENDING_DELETION');
+
+    const restored = await callRoute(accountDomain, 'account.POST./account/restore', null, {
+      body: { email: user.email, password: 'password123' }
+    });
+    assert.strictEqual(restored.status, 200);
+    assert.ok(restored.cookies.refresh_token);
+
+    const after = await prisma.user.findUnique({ where: { id: user.id } });
+    assert.strictEqual(after?.deletedAt, null);
+    assert.strictEqual(after?.deletionScheduledFor, null);
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
+
+test('Account - accounts removed by a moderator cannot schedule or restore a deletion', async () => {
+  const user = await createAccountUser('moderated');
+  try {
+    const removedAt = new Date();
+    await prisma.user.update({ where: { id: user.id }, data: { deletedAt: removedAt } });
+    await prisma.profile.update({ where: { userId: user.id }, data: { deletedAt: removedAt, isVisible: false } });
+
+    // An access token issued before the removal can still reach DELETE /account
+    const scheduled = await callRoute(accountDomain, 'account.DELETE./account', user.id, {
+      body: { password: 'password123' }
+    });
+    assert.strictEqual(scheduled.status, 403);
+
+    const restored = await callRoute(accountDomain, 'account.POST./account/restore', null, {
+      body: { email: user.email, password: 'password123' }
+    });
+    assert.strictEqual(restored.status, 401);
+
+    const after = await prisma.user.findUnique({ where: { id: user.id }, include: { profile: true } });
+    assert.deepStrictEqual(after?.deletedAt, removedAt);
+    assert.strictEqual(after?.deletionRequestedAt, null);
+    assert.strictEqual(after?.deletionScheduledFor, null);
+    assert.ok(after?.profile?.deletedAt);
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
+
+test('Account - restore only clears what the deletion request set', async () => {
+  const user = await createAccountUser('restore-scope');
+  try {
+    const profileRemovedAt = new Date(Date.now() - 60_000);
+    await prisma.profile.update({ where: { userId: user.id }, data: { deletedAt: profileRemovedAt } });
+
+    const deleted = await callRoute(accountDomain, 'account.DELETE./account', user.id, {
+      body: { password: 'password123' }
+    });
+    assert.strictEqual(deleted.status, 200);
+
+    const restored = await callRoute(accountDomain, 'account.POST./account/restore', null, {
+      body: { email: user.email, password: 'password123' }
+    });
+    assert.strictEqual(restored.status, 200);
+
+    const after = await prisma.user.findUnique({ where: { id: user.id }, include: { profile: true } });
+    assert.strictEqual(after?.deletedAt, null);
+    assert.strictEqual(after?.deletionRequestedAt, null);
+    assert.deepStrictEqual(after?.profile?.deletedAt, profileRemovedAt);
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
+
+test('Account - purge anonymizes messages and drops derived matching data after the grace period', async () => {
+  const user = await createAccountUser('purge');
+  const other = await createAccountUser('other');
+  try {
+    const [userAId, userBId] = user.id < other.id ? [user.id, other.id] : [other.id, user.id];
+    const conversation = await prisma.conversation.create({ data: { userAId, userBId } });
+    await prisma.message.create({ data: { conversationId: conversation.id, senderId: user.id, body: 'secret' } });
+    await prisma.message.create({ data: { conversationId: conversation.id, senderId: other.id, body: 'reply' } });
+    await prisma.matchScore.create({ data: { userId: other.id, candidateUserId: user.id, score: 0.8 } });
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { deletedAt: new Date(), deletionRequestedAt: new Date(), deletionScheduledFor: new Date(Date.now() - 1000) }
+    });
+
+    const result = await purgeDueAccounts();
+    assert.ok(result.purged >= 1);
+
+    const messages = await prisma.message.findMany({ where: { conversationId: conversation.id }, orderBy: { id: 'asc' } });
+    assert.strictEqual(messages[0].body, '');
+    assert.ok(messages[0].deletedAt);
+    assert.strictEqual(messages[1].body, 'reply');
+
+    assert.strictEqual(await prisma.matchScore.count({ where: { candidateUserId: user.id } }), 0);
+
+    const purged = await prisma.user.findUnique({ where: { id: user.id }, include: { profile: true } });
+    assert.ok(purged?.purgedAt);
+    assert.ok(purged?.email.endsWith('@deleted.invalid'));
+    assert.strictEqual(purged?.profile?.displayName, null);
+    assert.strictEqual(purged?.profile?.bio, null);
+  } finally {
+    await cleanupUsers([user.id, other.id]);
+  }
+});
+
+test('Account - export requests are queued once per user', async () => {
+  const user = await createAccountUser('export');
+  try {
+    const first = await callRoute(accountDomain, 'account.POST./account/export', user.id, { body: { format: 'json' } });
+    assert.strictEqual(first.status, 202);
+    assert.strictEqual(first.body.status, 'QUEUED');
+    assert.strictEqual(first.body.format, 'json');
+
+    const second = await callRoute(accountDomain, 'account.POST./account/export', user.id);
+    assert.strictEqual(second.status, 409);
+
+    const status = await callRoute(accountDomain, 'account.GET./account/export', user.id);
+    assert.strictEqual(status.body.export.jobRunId, first.body.jobRunId);
+    assert.strictEqual(status.body.export.downloadable, false);
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
+
+test('Account - finished exports are kept in the media store and removed once expired', async () => {
+  const user = await createAccountUser('export-store');
+  try {
+    const queued = await callRoute(accountDomain, 'account.POST./account/export', user.id, { body: { format: 'json' } });
+    assert.strictEqual(queued.status, 202);
+    const jobRunId = BigInt(queued.body.jobRunId);
+
+    const result = await processAccountExport(jobRunId);
+    assert.match(result.storageKey, /^account-exports\/[0-9a-f-]{36}\/account-export\.json$/);
+    const exported = JSON.parse((await readAll(await getMediaStorage().get(result.storageKey))).toString('utf8'));
+    assert.strictEqual(exported.account.email, user.email);
+
+    await prisma.jobRun.update({ where: { id: jobRunId }, data: { status: 'SUCCESS' } });
+    const status = await callRoute(accountDomain, 'account.GET./account/export', user.id);
+    assert.strictEqual(status.body.export.downloadable, true);
+    assert.strictEqual(status.body.export.sizeBytes, result.sizeBytes);
+
+    // Nothing is removed before the download window ends
+    const expiresAt = new Date(status.body.export.expiresAt);
+    await cleanupExpiredExports(new Date(expiresAt.getTime() - 1000));
+    assert.ok(await getMediaStorage().exists(result.storageKey));
+
+    await cleanupExpiredExports(new Date(expiresAt.getTime() + 1000));
+    assert.strictEqual(await getMediaStorage().exists(result.storageKey), false);
+    const after = await callRoute(accountDomain, 'account.GET./account/export', user.id);
+    assert.strictEqual(after.body.export.downloadable, false);
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
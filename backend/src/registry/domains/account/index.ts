@@ -0,0 +1,232 @@
+import type { Readable } from 'stream';
+import bcrypt from 'bcryptjs';
+import type { DomainRegistry } from '../../types.js';
+import { Auth } from '../../../lib/auth/rules.js';
+import { prisma } from '../../../lib/prisma/client.js';
+import { json } from '../../../lib/http/json.js';
+import { parsePositiveBigInt } from '../../../lib/http/parse.js';
+import { getCookieOpts } from '../../../lib/auth/cookies.js';
+import { createSession } from '../../../services/auth/sessionService.js';
+import {
+  isAccountExportKey,
+  openAccountExport,
+  signAccountExportUrl,
+  type AccountExportFormat
+} from '../../../services/account/accountExport.js';
+import { isPendingDeletion, isRemovedByModeration, restoreAccount, scheduleAccountDeletion } from '../../../services/account/accountDeletion.js';
+import { ACCOUNT_EXPORT_DOWNLOAD_URL_TTL_SEC, ACCOUNT_EXPORT_JOB } from '../../../services/account/config.js';
+
+type ExportRunMetadata = {
+  params?: { userId?: string; format?: AccountExportFormat };
+  result?: { storageKey?: string; sizeBytes?: number; format?: AccountExportFormat; expiresAt?: string; removedAt?: string };
+};
+
+const exportRunSelect = {
+  id: true,
+  status: true,
+  queuedAt: true,
+  finishedAt: true,
+  error: true,
+  metadata: true
+} as const;
+
+function toExportStatus(run: { id: bigint; status: string; queuedAt: Date; finishedAt: Date | null; metadata: unknown }) {
+  const metadata = (run.metadata ?? {}) as ExportRunMetadata;
+  const result = metadata.result;
+  const expired = !!result && (!!result.removedAt || (!!result.expiresAt && new Date(result.expiresAt) <= new Date()));
+  return {
+    jobRunId: run.id,
+    status: run.status,
+    format: result?.format ?? metadata.params?.format ?? 'zip',
+    requestedAt: run.queuedAt,
+    finishedAt: run.finishedAt,
+    sizeBytes: result?.sizeBytes ?? null,
+    expiresAt: result?.expiresAt ?? null,
+    downloadable: run.status === 'SUCCESS' && isAccountExportKey(result?.storageKey) && !expired
+  };
+}
+
+export const accountDomain: DomainRegistry = {
+  domain: 'account',
+  routes: [
+    {
+      id: 'account.POST./account/export',
+      method: 'POST',
+      path: '/account/export',
+      auth: Auth.user(),
+      summary: 'Queue an export of all data held about the current user',
+      tags: ['account'],
+      handler: async (req, res) => {
+        const userId = req.ctx.userId!;
+        const { format: rawFormat } = (req.body ?? {}) as { format?: unknown };
+        if (rawFormat !== undefined && rawFormat !== 'json' && rawFormat !== 'zip') {
+          return json(res, { error: 'format must be "json" or "zip"' }, 400);
+        }
+        const format: AccountExportFormat = rawFormat === 'json' ? 'json' : 'zip';
+        const scope = `user:${userId}`;
+
+        const pending = await prisma.jobRun.findFirst({
+          where: { jobName: ACCOUNT_EXPORT_JOB, scope, status: { in: ['QUEUED', 'RUNNING'] } },
+          select: { id: true }
+        });
+        if (pending) {
+          return json(res, { error: 'An export is already in progress', jobRunId: pending.id }, 409);
+        }
+
+        const run = await prisma.jobRun.create({
+          data: {
+            jobName: ACCOUNT_EXPORT_JOB,
+            status: 'QUEUED',
+            trigger: 'EVENT',
+            scope,
+            triggeredBy: userId,
+            metadata: { params: { userId: userId.toString(), format } },
+            queuedAt: new Date()
+          },
+          select: exportRunSelect
+        });
+
+        return json(res, toExportStatus(run), 202);
+      }
+    },
+
+    {
+      id: 'account.GET./account/export',
+      method: 'GET',
+      path: '/account/export',
+      auth: Auth.user(),
+      summary: 'Get the status of the most recent data export',
+      tags: ['account'],
+      handler: async (req, res) => {
+        const run = await prisma.jobRun.findFirst({
+          where: { jobName: ACCOUNT_EXPORT_JOB, scope: `user:${req.ctx.userId}` },
+          orderBy: { queuedAt: 'desc' },
+          select: exportRunSelect
+        });
+        return json(res, { export: run ? toExportStatus(run) : null });
+      }
+    },
+
+    {
+      id: 'account.GET./account/export/:jobRunId/download',
+      method: 'GET',
+      path: '/account/export/:jobRunId/download',
+      auth: Auth.user(),
+      summary: 'Download a finished data export',
+      tags: ['account'],
+      handler: async (req, res) => {
+        const parsed = parsePositiveBigInt(req.params.jobRunId, 'jobRunId');
+        if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+
+        const run = await prisma.jobRun.findFirst({
+          where: { id: parsed.value, jobName: ACCOUNT_EXPORT_JOB, scope: `user:${req.ctx.userId}` },
+          select: exportRunSelect
+        });
+        if (!run) return json(res, { error: 'Export not found' }, 404);
+
+        const status = toExportStatus(run);
+        const storageKey = ((run.metadata ?? {}) as ExportRunMetadata).result?.storageKey;
+        if (!status.downloadable || !isAccountExportKey(storageKey)) {
+          return json(res, { error: run.status === 'SUCCESS' ? 'Export has expired' : 'Export is not ready' }, 410);
+        }
+
+        res.setHeader('Cache-Control', 'no-store');
+        // Object stores hand the file out through a short-lived presigned URL; the local store streams it here
+        const signedUrl = signAccountExportUrl(storageKey, ACCOUNT_EXPORT_DOWNLOAD_URL_TTL_SEC);
+        if (signedUrl) return res.redirect(302, signedUrl);
+
+        let stream: Readable;
+        try {
+          stream = await openAccountExport(storageKey);
+        } catch {
+          return json(res, { error: 'Export has expired' }, 410);
+        }
+
+        res.status(200);
+        res.setHeader('Content-Type', status.format === 'json' ? 'application/json' : 'application/zip');
+        if (status.sizeBytes != null) res.setHeader('Content-Length', String(status.sizeBytes));
+        res.setHeader('Content-Disposition', `attachment; filename="account-export.${status.format}"`);
+        stream.on('error', (err) => {
+          console.error(`[account] Export stream error for run ${run.id}:`, err);
+          if (!res.headersSent) res.status(500);
+          res.end();
+        });
+        stream.pipe(res);
+      }
+    },
+
+    {
+      id: 'account.DELETE./account',
+      method: 'DELETE',
+      path: '/account',
+      auth: Auth.user(),
+      summary: 'Delete the current account after a grace period',
+      tags: ['account'],
+      handler: async (req, res) => {
+        const { password } = (req.body ?? {}) as { password?: string };
+        if (!password) return json(res, { error: 'password required' }, 400);
+
+        const user = await prisma.user.findUnique({
+          where: { id: req.ctx.userId! },
+          select: { id: true, passwordHash: true, deletedAt: true, deletionRequestedAt: true }
+        });
+        if (!user) return json(res, { error: 'User not found' }, 404);
+        const ok = await bcrypt.compare(password, user.passwordHash);
+        if (!ok) return json(res, { error: 'Incorrect password' }, 403);
+        // Scheduling would turn a moderator's removal into a restorable self-deletion
+        if (isRemovedByModeration(user)) return json(res, { error: 'Account removed by moderation' }, 403);
+
+        const { deletionScheduledFor } = await scheduleAccountDeletion(user.id);
+
+        const cookieOpts = getCookieOpts(false);
+        res.cookie('access_token', '', { ...cookieOpts, maxAge: 0 });
+        res.cookie('refresh_token', '', { ...cookieOpts, maxAge: 0 });
+        return json(res, { ok: true, deletionScheduledFor });
+      }
+    },
+
+    {
+      id: 'account.POST./account/restore',
+      method: 'POST',
+      path: '/account/restore',
+      auth: Auth.public(),
+      summary: 'Cancel a pending account deletion and sign back in',
+      tags: ['account'],
+      handler: async (req, res) => {
+        const { email, password } = (req.body ?? {}) as { email?: string; password?: string };
+        if (!email || !password) return json(res, { error: 'email and password required' }, 400);
+
+        const user = await prisma.user.findUnique({
+          where: { email },
+          select: {
+            id: true,
+            passwordHash: true,
+            suspendedAt: true,
+            deletedAt: true,
+            deletionRequestedAt: true,
+            deletionScheduledFor: true,
+            purgedAt: true
+          }
+        });
+        if (!user || !isPendingDeletion(user) || isRemovedByModeration(user)) {
+          return json(res, { error: 'Invalid credentials' }, 401);
+        }
+
+        const ok = await bcrypt.compare(password, user.passwordHash);
+        if (!ok) return json(res, { error: 'Invalid credentials' }, 401);
+        if (user.deletionScheduledFor! <= new Date()) {
+          return json(res, { error: 'The grace period has ended and the account can no longer be restored' }, 410);
+        }
+
+        if (!(await restoreAccount(user.id))) return json(res, { error: 'Invalid credentials' }, 401);
+        if (user.suspendedAt) return json(res, { error: 'Account suspended' }, 403);
+
+        const cookieOptions = getCookieOpts(false);
+        const session = await createSession(user.id, req, false);
+        res.cookie('access_token', session.accessToken, cookieOptions);
+        res.cookie('refresh_token', session.refreshToken, cookieOptions);
+        return json(res, { userId: user.id });
+      }
+    }
+  ]
+};
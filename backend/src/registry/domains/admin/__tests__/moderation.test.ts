@@ -0,0 +1,261 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import crypto from 'node:crypto';
+import type { ModerationActionType, ReportReason } from '@prisma/client';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { adminDomain } from '../index.js';
+import { messagingDomain } from '../../messaging/index.js';
+import { callRoute, cleanupUsers, createUser } from '../../../../__tests__/helpers.js';
+
+function takeAction(adminId: bigint, targetId: bigint, action: ModerationActionType, note?: string) {
+  return callRoute(adminDomain, 'admin.POST./admin/reports/:userId/actions', adminId, {
+    params: { userId: targetId.toString() },
+    body: { action, note }
+  });
+}
+
+async function createModerationUser(label: string, role: 'USER' | 'ADMIN' = 'USER') {
+  const user = await createUser({ label: `moderation-${label}`, role, verified: false });
+  return user.id;
+}
+
+async function createSession(userId: bigint) {
+  return prisma.authSession.create({
+    data: {
+      userId,
+      refreshTokenHash: crypto.randomBytes(32).toString('hex'),
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+    }
+  });
+}
+
+async function report(reporterId: bigint, targetId: bigint, reason: ReportReason) {
+  return prisma.userReport.create({ data: { reporterId, targetId, reason } });
+}
+
+async function setup() {
+  const adminId = await createModerationUser('admin', 'ADMIN');
+  const targetId = await createModerationUser('target');
+  const reporterA = await createModerationUser('reporter');
+  const reporterB = await createModerationUser('reporter');
+  return { adminId, targetId, reporters: [reporterA, reporterB] };
+}
+
+async function targetState(targetId: bigint) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: targetId },
+    select: { suspendedAt: true, deletedAt: true, profile: { select: { isVisible: true, deletedAt: true } } }
+  });
+  const sessions = await prisma.authSession.findMany({
+    where: { userId: targetId },
+    select: { revokedAt: true, revokedReason: true }
+  });
+  return { ...user, sessions };
+}
+
+const ACTION_EFFECTS: Array<{
+  action: ModerationActionType;
+  reportStatus: 'ACTIONED' | 'DISMISSED';
+  hidden: boolean;
+  suspended: boolean;
+  deleted: boolean;
+  revokesSessions: boolean;
+}> = [
+  { action: 'WARN', reportStatus: 'ACTIONED', hidden: false, suspended: false, deleted: false, revokesSessions: false },
+  { action: 'HIDE_PROFILE', reportStatus: 'ACTIONED', hidden: true, suspended: false, deleted: false, revokesSessions: false },
+  { action: 'SUSPEND', reportStatus: 'ACTIONED', hidden: false, suspended: true, deleted: false, revokesSessions: true },
+  { action: 'DELETE_ACCOUNT', reportStatus: 'ACTIONED', hidden: true, suspended: false, deleted: true, revokesSessions: true },
+  { action: 'DISMISS', reportStatus: 'DISMISSED', hidden: false, suspended: false, deleted: false, revokesSessions: false }
+];
+
+for (const expected of ACTION_EFFECTS) {
+  test(`Moderation - ${expected.action} resolves open reports, writes the audit row and applies its effect`, async () => {
+    const { adminId, targetId, reporters } = await setup();
+    try {
+      await createSession(targetId);
+      const open = [await report(reporters[0], targetId, 'SPAM'), await report(reporters[1], targetId, 'HARASSMENT')];
+      // Already-resolved reports stay untouched
+      const earlier = await prisma.userReport.create({
+        data: { reporterId: reporters[0], targetId, reason: 'OTHER', status: 'DISMISSED', resolvedAt: new Date() }
+      });
+      // Reports against other users are not resolved
+      const unrelated = await report(targetId, reporters[1], 'SPAM');
+
+      const res = await takeAction(adminId, targetId, expected.action, '  repeated spam  ');
+      assert.strictEqual(res.status, 201);
+      assert.strictEqual(res.body.action, expected.action);
+      assert.strictEqual(res.body.resolvedReports, 2);
+
+      const audit = await prisma.moderationAction.findUniqueOrThrow({ where: { id: BigInt(res.body.id) } });
+      assert.strictEqual(audit.targetId, targetId);
+      assert.strictEqual(audit.actorId, adminId);
+      assert.strictEqual(audit.action, expected.action);
+      assert.strictEqual(audit.note, 'repeated spam');
+
+      const resolved = await prisma.userReport.findMany({ where: { id: { in: open.map((r) => r.id) } } });
+      for (const row of resolved) {
+        assert.strictEqual(row.status, expected.reportStatus);
+        assert.strictEqual(row.moderationActionId, audit.id);
+        assert.ok(row.resolvedAt);
+      }
+      const earlierAfter = await prisma.userReport.findUniqueOrThrow({ where: { id: earlier.id } });
+      assert.strictEqual(earlierAfter.moderationActionId, null);
+      const unrelatedAfter = await prisma.userReport.findUniqueOrThrow({ where: { id: unrelated.id } });
+      assert.strictEqual(unrelatedAfter.status, 'OPEN');
+
+      const state = await targetState(targetId);
+      assert.strictEqual(state.profile?.isVisible, !expected.hidden);
+      assert.strictEqual(Boolean(state.suspendedAt), expected.suspended);
+      assert.strictEqual(Boolean(state.deletedAt), expected.deleted);
+      assert.strictEqual(Boolean(state.profile?.deletedAt), expected.deleted);
+      for (const session of state.sessions) {
+        assert.strictEqual(Boolean(session.revokedAt), expected.revokesSessions);
+        assert.strictEqual(session.revokedReason, expected.revokesSessions ? 'MODERATION' : null);
+      }
+    } finally {
+      await cleanupUsers([adminId, targetId, ...reporters]);
+    }
+  });
+}
+
+test('Moderation - rejects invalid actions, self-moderation and already deleted targets', async () => {
+  const { adminId, targetId, reporters } = await setup();
+  try {
+    const invalid = await takeAction(adminId, targetId, 'BAN' as ModerationActionType);
+    assert.strictEqual(invalid.status, 400);
+
+    const self = await takeAction(adminId, adminId, 'SUSPEND');
+    assert.strictEqual(self.status, 400);
+
+    const missing = await takeAction(adminId, 999999999999n, 'WARN');
+    assert.strictEqual(missing.status, 404);
+
+    await report(reporters[0], targetId, 'SPAM');
+    assert.strictEqual((await takeAction(adminId, targetId, 'DELETE_ACCOUNT')).status, 201);
+    assert.strictEqual((await takeAction(adminId, targetId, 'SUSPEND')).status, 409);
+
+    // Reports filed after the deletion can still be dismissed
+    await report(reporters[1], targetId, 'HATE');
+    const dismissed = await takeAction(adminId, targetId, 'DISMISS');
+    assert.strictEqual(dismissed.status, 201);
+    assert.strictEqual(dismissed.body.resolvedReports, 1);
+
+    // Rejected requests leave no audit rows behind
+    const actions = await prisma.moderationAction.findMany({ where: { actorId: adminId }, select: { action: true } });
+    assert.deepStrictEqual(actions.map((a) => a.action).sort(), ['DELETE_ACCOUNT', 'DISMISS']);
+  } finally {
+    await cleanupUsers([adminId, targetId, ...reporters]);
+  }
+});
+
+test('Moderation - report queue groups open reports by target with reason counts', async () => {
+  const { adminId, targetId, reporters } = await setup();
+  const otherTargetId = await createModerationUser('target');
+  try {
+    await report(reporters[0], targetId, 'SPAM');
+    await report(reporters[1], targetId, 'SPAM');
+    await report(reporters[1], targetId, 'NUDITY');
+    await report(reporters[0], otherTargetId, 'HATE');
+
+    const queue = await callRoute(adminDomain, 'admin.GET./admin/reports', adminId, { query: { limit: '200' } });
+    assert.strictEqual(queue.status, 200);
+    assert.strictEqual(queue.body.status, 'OPEN');
+    const items = queue.body.items as Array<{ target: { id: string }; reportCount: number; reasonCounts: Record<string, number> }>;
+    const targetIndex = items.findIndex((item) => item.target.id === targetId.toString());
+    const otherIndex = items.findIndex((item) => item.target.id === otherTargetId.toString());
+    assert.ok(targetIndex >= 0 && otherIndex >= 0);
+    // Most-reported first
+    assert.ok(targetIndex < otherIndex);
+    assert.strictEqual(items[targetIndex].reportCount, 3);
+    assert.strictEqual(items[targetIndex].reasonCounts.SPAM, 2);
+    assert.strictEqual(items[targetIndex].reasonCounts.NUDITY, 1);
+    assert.strictEqual(items[targetIndex].reasonCounts.HATE, 0);
+
+    // Actioned targets leave the open queue and show up under their new status
+    assert.strictEqual((await takeAction(adminId, targetId, 'WARN')).status, 201);
+    const openAfter = await callRoute(adminDomain, 'admin.GET./admin/reports', adminId, { query: { limit: '200' } });
+    const openIds = (openAfter.body.items as Array<{ target: { id: string } }>).map((item) => item.target.id);
+    assert.ok(!openIds.includes(targetId.toString()));
+    assert.ok(openIds.includes(otherTargetId.toString()));
+
+    const actioned = await callRoute(adminDomain, 'admin.GET./admin/reports', adminId, {
+      query: { status: 'actioned', limit: '200' }
+    });
+    assert.ok(
+      (actioned.body.items as Array<{ target: { id: string } }>).some((item) => item.target.id === targetId.toString())
+    );
+
+    const badStatus = await callRoute(adminDomain, 'admin.GET./admin/reports', adminId, { query: { status: 'closed' } });
+    assert.strictEqual(badStatus.status, 400);
+
+    const history = await callRoute(adminDomain, 'admin.GET./admin/reports/:userId', adminId, {
+      params: { userId: targetId.toString() }
+    });
+    assert.strictEqual(history.status, 200);
+    assert.strictEqual(history.body.reports.length, 3);
+    assert.strictEqual(history.body.actions.length, 1);
+    assert.strictEqual(history.body.actions[0].action, 'WARN');
+    assert.strictEqual(history.body.actions[0].reportCount, 3);
+  } finally {
+    await cleanupUsers([adminId, targetId, otherTargetId, ...reporters]);
+  }
+});
+
+test('Moderation - WARN notifies the warned user with the reported reasons', async () => {
+  const { adminId, targetId, reporters } = await setup();
+  try {
+    await report(reporters[0], targetId, 'SPAM');
+    await report(reporters[1], targetId, 'HARASSMENT');
+    await report(reporters[1], targetId, 'SPAM');
+
+    const res = await takeAction(adminId, targetId, 'WARN', 'internal note');
+    assert.strictEqual(res.status, 201);
+
+    const notifications = await prisma.notification.findMany({ where: { userId: targetId } });
+    assert.strictEqual(notifications.length, 1);
+    assert.strictEqual(notifications[0].type, 'MODERATION_WARNING');
+    assert.strictEqual(notifications[0].entityId, BigInt(res.body.id));
+    // The moderator stays anonymous and the note is kept out of what the user sees
+    assert.strictEqual(notifications[0].actorId, null);
+    assert.deepStrictEqual(notifications[0].data, { reasons: 'HARASSMENT,SPAM' });
+
+    // Other actions do not notify
+    await report(reporters[0], targetId, 'HATE');
+    assert.strictEqual((await takeAction(adminId, targetId, 'DISMISS')).status, 201);
+    assert.strictEqual(await prisma.notification.count({ where: { userId: targetId } }), 1);
+  } finally {
+    await cleanupUsers([adminId, targetId, ...reporters]);
+  }
+});
+
+test('Moderation - UNSUSPEND lifts a suspension and leaves open reports for review', async () => {
+  const { adminId, targetId, reporters } = await setup();
+  try {
+    const notSuspended = await takeAction(adminId, targetId, 'UNSUSPEND');
+    assert.strictEqual(notSuspended.status, 409);
+
+    await report(reporters[0], targetId, 'SPAM');
+    assert.strictEqual((await takeAction(adminId, targetId, 'SUSPEND')).status, 201);
+
+    // Nobody can start or continue a conversation with a suspended account
+    const blockedStart = await callRoute(messagingDomain, 'messaging.POST./conversations/with/:userId', reporters[1], {
+      params: { userId: targetId.toString() }
+    });
+    assert.strictEqual(blockedStart.status, 403);
+    assert.strictEqual(blockedStart.body.code, 'RECIPIENT_UNAVAILABLE');
+
+    const appeal = await report(reporters[1], targetId, 'OTHER');
+    const lifted = await takeAction(adminId, targetId, 'UNSUSPEND', 'appeal accepted');
+    assert.strictEqual(lifted.status, 201);
+    assert.strictEqual(lifted.body.resolvedReports, 0);
+    assert.strictEqual((await targetState(targetId)).suspendedAt, null);
+    assert.strictEqual((await prisma.userReport.findUniqueOrThrow({ where: { id: appeal.id } })).status, 'OPEN');
+
+    const started = await callRoute(messagingDomain, 'messaging.POST./conversations/with/:userId', reporters[1], {
+      params: { userId: targetId.toString() }
+    });
+    assert.strictEqual(started.status, 200);
+  } finally {
+    await cleanupUsers([adminId, targetId, ...reporters]);
+  }
+});
@@ -0,0 +1,228 @@
+import type { Request, Response } from 'express';
+import type { FeedExperimentStatus, Prisma } from '@prisma/client';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { json } from '../../../../lib/http/json.js';
+import { parsePositiveBigInt } from '../../../../lib/http/parse.js';
+import { feedVariants, parseFeedAllocations, type FeedAllocation } from '../../feed/variants.js';
+import {
+  buildFeedExperimentReport,
+  clearActiveFeedExperimentCache
+} from '../../../../services/feed/feedExperimentService.js';
+
+const EXPERIMENT_STATUSES: FeedExperimentStatus[] = ['DRAFT', 'ACTIVE', 'ENDED'];
+// Lowercase slug; it salts user bucketing so it cannot change after creation
+const EXPERIMENT_NAME = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+type ExperimentRow = {
+  id: bigint;
+  name: string;
+  description: string | null;
+  allocations: Prisma.JsonValue;
+  status: FeedExperimentStatus;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const experimentSelect = {
+  id: true,
+  name: true,
+  description: true,
+  allocations: true,
+  status: true,
+  startedAt: true,
+  endedAt: true,
+  createdAt: true,
+  updatedAt: true
+} as const;
+
+function readAllocations(value: Prisma.JsonValue): FeedAllocation[] {
+  const parsed = parseFeedAllocations(value);
+  return parsed.ok ? parsed.value : [];
+}
+
+function formatExperiment(experiment: ExperimentRow) {
+  return {
+    id: experiment.id.toString(),
+    name: experiment.name,
+    description: experiment.description,
+    allocations: readAllocations(experiment.allocations),
+    status: experiment.status,
+    startedAt: experiment.startedAt?.toISOString() ?? null,
+    endedAt: experiment.endedAt?.toISOString() ?? null,
+    createdAt: experiment.createdAt.toISOString(),
+    updatedAt: experiment.updatedAt.toISOString()
+  };
+}
+
+function parseDescription(value: unknown): { ok: true; value: string | null } | { ok: false; error: string } {
+  if (value === undefined || value === null) return { ok: true, value: null };
+  if (typeof value !== 'string' || value.length > 500) {
+    return { ok: false, error: 'description must be a string of at most 500 characters' };
+  }
+  return { ok: true, value: value.trim() || null };
+}
+
+/**
+ * Ends whichever experiment is active; only one runs at a time
+ */
+async function endActiveExperiments(tx: Prisma.TransactionClient, now: Date, exceptId?: bigint) {
+  await tx.feedExperiment.updateMany({
+    where: { status: 'ACTIVE', ...(exceptId ? { id: { not: exceptId } } : {}) },
+    data: { status: 'ENDED', endedAt: now }
+  });
+}
+
+/**
+ * GET /api/admin/feed/experiments
+ * Experiments (newest first) plus the variants defined in code that they can allocate
+ */
+export async function listFeedExperiments(req: Request, res: Response) {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const offset = parseInt(req.query.offset as string) || 0;
+
+  const [experiments, total] = await Promise.all([
+    prisma.feedExperiment.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+      select: experimentSelect
+    }),
+    prisma.feedExperiment.count()
+  ]);
+
+  return json(res, {
+    experiments: experiments.map(formatExperiment),
+    variants: Object.entries(feedVariants).map(([name, variant]) => ({ name, description: variant.description })),
+    total,
+    limit,
+    offset
+  });
+}
+
+/**
+ * POST /api/admin/feed/experiments
+ * Body: { name, description?, allocations: [{ variant, percent }], status?: DRAFT | ACTIVE }
+ * Creating it ACTIVE ends the experiment that was running.
+ */
+export async function createFeedExperiment(req: Request, res: Response) {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+
+  if (typeof body.name !== 'string' || !EXPERIMENT_NAME.test(body.name)) {
+    return json(res, { error: 'name must be 1-64 lowercase letters, digits or dashes' }, 400);
+  }
+  const name = body.name;
+  const description = parseDescription(body.description);
+  if (!description.ok) return json(res, { error: description.error }, 400);
+  const allocations = parseFeedAllocations(body.allocations);
+  if (!allocations.ok) return json(res, { error: allocations.error }, 400);
+  const status = body.status ?? 'DRAFT';
+  if (status !== 'DRAFT' && status !== 'ACTIVE') {
+    return json(res, { error: 'status must be DRAFT or ACTIVE' }, 400);
+  }
+
+  const existing = await prisma.feedExperiment.findUnique({ where: { name }, select: { id: true } });
+  if (existing) return json(res, { error: 'An experiment with this name already exists' }, 409);
+
+  const now = new Date();
+  const created = await prisma.$transaction(async tx => {
+    if (status === 'ACTIVE') await endActiveExperiments(tx, now);
+    return tx.feedExperiment.create({
+      data: {
+        name,
+        description: description.value,
+        allocations: allocations.value,
+        status,
+        startedAt: status === 'ACTIVE' ? now : null,
+        createdById: req.ctx.userId ?? null
+      },
+      select: experimentSelect
+    });
+  });
+  clearActiveFeedExperimentCache();
+
+  return json(res, formatExperiment(created), 201);
+}
+
+/**
+ * PUT /api/admin/feed/experiments/:experimentId
+ * Body: { description?, allocations?, status? }
+ * Allocations can change while active (e.g. to ramp up). Status moves
+ * DRAFT -> ACTIVE -> ENDED; ended experiments are read-only.
+ */
+export async function updateFeedExperiment(req: Request, res: Response) {
+  const parsed = parsePositiveBigInt(req.params.experimentId, 'experimentId');
+  if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+  const experimentId = parsed.value;
+  const body = (req.body ?? {}) as Record<string, unknown>;
+
+  const data: Prisma.FeedExperimentUpdateInput = {};
+  if (body.description !== undefined) {
+    const description = parseDescription(body.description);
+    if (!description.ok) return json(res, { error: description.error }, 400);
+    data.description = description.value;
+  }
+  if (body.allocations !== undefined) {
+    const allocations = parseFeedAllocations(body.allocations);
+    if (!allocations.ok) return json(res, { error: allocations.error }, 400);
+    data.allocations = allocations.value;
+  }
+  let nextStatus: FeedExperimentStatus | undefined;
+  if (body.status !== undefined) {
+    if (typeof body.status !== 'string' || !EXPERIMENT_STATUSES.includes(body.status as FeedExperimentStatus)) {
+      return json(res, { error: `status must be one of ${EXPERIMENT_STATUSES.join(', ')}` }, 400);
+    }
+    nextStatus = body.status as FeedExperimentStatus;
+  }
+  if (Object.keys(data).length === 0 && !nextStatus) {
+    return json(res, { error: 'No fields to update' }, 400);
+  }
+
+  const experiment = await prisma.feedExperiment.findUnique({
+    where: { id: experimentId },
+    select: { id: true, status: true }
+  });
+  if (!experiment) return json(res, { error: 'Experiment not found' }, 404);
+  if (experiment.status === 'ENDED') return json(res, { error: 'Experiment has ended' }, 409);
+  if (nextStatus === 'DRAFT' && experiment.status === 'ACTIVE') {
+    return json(res, { error: 'An active experiment can only be ended' }, 409);
+  }
+
+  const now = new Date();
+  const startsNow = nextStatus === 'ACTIVE' && experiment.status !== 'ACTIVE';
+  if (nextStatus) data.status = nextStatus;
+  if (startsNow) data.startedAt = now;
+  if (nextStatus === 'ENDED') data.endedAt = now;
+
+  const updated = await prisma.$transaction(async tx => {
+    if (startsNow) await endActiveExperiments(tx, now, experimentId);
+    return tx.feedExperiment.update({
+      where: { id: experimentId },
+      data,
+      select: experimentSelect
+    });
+  });
+  clearActiveFeedExperimentCache();
+
+  return json(res, formatExperiment(updated));
+}
+
+/**
+ * GET /api/admin/feed/experiments/:experimentId/report
+ * Per-variant engagement: sessions, likes, comments, profile opens and matches,
+ * as totals and per session
+ */
+export async function getFeedExperimentReport(req: Request, res: Response) {
+  const parsed = parsePositiveBigInt(req.params.experimentId, 'experimentId');
+  if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+
+  const experiment = await prisma.feedExperiment.findUnique({
+    where: { id: parsed.value },
+    select: experimentSelect
+  });
+  if (!experiment) return json(res, { error: 'Experiment not found' }, 404);
+
+  const variants = await buildFeedExperimentReport(experiment.id, readAllocations(experiment.allocations));
+  return json(res, { experiment: formatExperiment(experiment), variants });
+}
@@ -0,0 +1,31 @@
+import type { Request, Response } from 'express';
+import { json } from '../../../../lib/http/json.js';
+import { parseLimit } from '../../../../lib/http/parse.js';
+import { flushFeedServeStats, getFeedServeReport } from '../../../../services/feed/feedServeStats.js';
+import { getFeedPresortQueueStats } from '../../../../services/feed/presortQueue.js';
+import { getPresortSegmentStaleness } from '../../../../services/feed/presortedFeedService.js';
+
+// Serve stats are kept for 30 days by the feed-presort-cleanup job
+const MAX_WINDOW_HOURS = 30 * 24;
+
+/** GET /api/admin/feed/presort/metrics */
+export async function getFeedPresortMetrics(req: Request, res: Response) {
+  const hoursParsed = parseLimit(req.query.hours, 24, MAX_WINDOW_HOURS, 'hours');
+  if (!hoursParsed.ok) return json(res, { error: hoursParsed.error }, 400);
+
+  const now = new Date();
+  const since = new Date(now.getTime() - hoursParsed.value * 60 * 60 * 1000);
+
+  // Include this instance's not yet written counters
+  await flushFeedServeStats();
+  const [serving, segments] = await Promise.all([getFeedServeReport(since), getPresortSegmentStaleness(now)]);
+
+  return json(res, {
+    windowHours: hoursParsed.value,
+    since,
+    serving,
+    segments,
+    // Event-driven rebuilds are queued per API instance; these are this instance's since start
+    queue: getFeedPresortQueueStats()
+  });
+}
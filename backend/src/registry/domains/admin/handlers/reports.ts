@@ -0,0 +1,375 @@
+import type { Request, Response } from 'express';
+import type { ModerationActionType, ReportReason, ReportStatus } from '@prisma/client';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { json } from '../../../../lib/http/json.js';
+import { parsePositiveBigInt } from '../../../../lib/http/parse.js';
+import { revokeAllSessions } from '../../../../services/auth/sessionService.js';
+import { createNotification } from '../../../../services/notifications/notificationService.js';
+
+const REPORT_REASONS: ReportReason[] = ['SPAM', 'HARASSMENT', 'IMPERSONATION', 'NUDITY', 'HATE', 'OTHER'];
+const REPORT_STATUSES: ReportStatus[] = ['OPEN', 'ACTIONED', 'DISMISSED'];
+const MODERATION_ACTIONS: ModerationActionType[] = ['WARN', 'HIDE_PROFILE', 'SUSPEND', 'UNSUSPEND', 'DELETE_ACCOUNT', 'DISMISS'];
+
+const targetSelect = {
+  id: true,
+  email: true,
+  role: true,
+  createdAt: true,
+  deletedAt: true,
+  suspendedAt: true,
+  profile: {
+    select: {
+      displayName: true,
+      isVisible: true,
+      avatarMedia: { select: { url: true, thumbUrl: true } }
+    }
+  }
+} as const;
+
+type TargetRow = {
+  id: bigint;
+  email: string;
+  role: string;
+  createdAt: Date;
+  deletedAt: Date | null;
+  suspendedAt: Date | null;
+  profile: {
+    displayName: string | null;
+    isVisible: boolean;
+    avatarMedia: { url: string; thumbUrl: string | null } | null;
+  } | null;
+};
+
+function formatTarget(user: TargetRow) {
+  return {
+    id: user.id.toString(),
+    email: user.email,
+    role: user.role,
+    createdAt: user.createdAt.toISOString(),
+    deletedAt: user.deletedAt?.toISOString() ?? null,
+    suspendedAt: user.suspendedAt?.toISOString() ?? null,
+    displayName: user.profile?.displayName ?? null,
+    isVisible: user.profile?.isVisible ?? false,
+    avatarUrl: user.profile?.avatarMedia?.thumbUrl || user.profile?.avatarMedia?.url || null
+  };
+}
+
+function emptyReasonCounts(): Record<ReportReason, number> {
+  return Object.fromEntries(REPORT_REASONS.map(reason => [reason, 0])) as Record<ReportReason, number>;
+}
+
+/**
+ * GET /api/admin/reports
+ * Report queue grouped by reported user, most-reported first.
+ * Query: status (default OPEN), limit, offset
+ */
+export async function listReportQueue(req: Request, res: Response) {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const offset = parseInt(req.query.offset as string) || 0;
+  const statusParam = ((req.query.status as string | undefined) ?? 'OPEN').toUpperCase();
+  if (!REPORT_STATUSES.includes(statusParam as ReportStatus)) {
+    return json(res, { error: `status must be one of ${REPORT_STATUSES.join(', ')}` }, 400);
+  }
+  const status = statusParam as ReportStatus;
+
+  const [groups, totalGroups] = await Promise.all([
+    prisma.userReport.groupBy({
+      by: ['targetId'],
+      where: { status },
+      _count: { _all: true },
+      _max: { createdAt: true },
+      orderBy: [{ _count: { targetId: 'desc' } }, { _max: { createdAt: 'desc' } }],
+      take: limit,
+      skip: offset
+    }),
+    prisma.userReport.groupBy({
+      by: ['targetId'],
+      where: { status }
+    }).then(rows => rows.length)
+  ]);
+
+  const targetIds = groups.map(g => g.targetId);
+  if (targetIds.length === 0) {
+    return json(res, { items: [], total: totalGroups, limit, offset, status });
+  }
+
+  const [reasonRows, targets] = await Promise.all([
+    prisma.userReport.groupBy({
+      by: ['targetId', 'reason'],
+      where: { status, targetId: { in: targetIds } },
+      _count: { _all: true }
+    }),
+    prisma.user.findMany({
+      where: { id: { in: targetIds } },
+      select: targetSelect
+    })
+  ]);
+
+  const reasonCountsByTarget = new Map<bigint, Record<ReportReason, number>>();
+  for (const row of reasonRows) {
+    const counts = reasonCountsByTarget.get(row.targetId) ?? emptyReasonCounts();
+    counts[row.reason] = row._count._all;
+    reasonCountsByTarget.set(row.targetId, counts);
+  }
+  const targetById = new Map(targets.map(t => [t.id, t]));
+
+  const items = groups.flatMap(group => {
+    const target = targetById.get(group.targetId);
+    if (!target) return [];
+    return [{
+      target: formatTarget(target),
+      reportCount: group._count._all,
+      reasonCounts: reasonCountsByTarget.get(group.targetId) ?? emptyReasonCounts(),
+      latestReportAt: group._max.createdAt?.toISOString() ?? null
+    }];
+  });
+
+  return json(res, { items, total: totalGroups, limit, offset, status });
+}
+
+/**
+ * GET /api/admin/reports/:userId
+ * All reports against a user plus the moderation history for that user
+ */
+export async function getTargetReports(req: Request, res: Response) {
+  const parsed = parsePositiveBigInt(req.params.userId, 'userId');
+  if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+  const targetId = parsed.value;
+
+  const target = await prisma.user.findUnique({ where: { id: targetId }, select: targetSelect });
+  if (!target) return json(res, { error: 'User not found' }, 404);
+
+  const [reports, actions] = await Promise.all([
+    prisma.userReport.findMany({
+      where: { targetId },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+      select: {
+        id: true,
+        reason: true,
+        details: true,
+        status: true,
+        createdAt: true,
+        resolvedAt: true,
+        moderationActionId: true,
+        reporter: { select: { id: true, email: true, profile: { select: { displayName: true } } } }
+      }
+    }),
+    prisma.moderationAction.findMany({
+      where: { targetId },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      select: {
+        id: true,
+        action: true,
+        note: true,
+        createdAt: true,
+        actor: { select: { id: true, email: true } },
+        _count: { select: { reports: true } }
+      }
+    })
+  ]);
+
+  return json(res, {
+    target: formatTarget(target),
+    reports: reports.map(r => ({
+      id: r.id.toString(),
+      reason: r.reason,
+      details: r.details,
+      status: r.status,
+      createdAt: r.createdAt.toISOString(),
+      resolvedAt: r.resolvedAt?.toISOString() ?? null,
+      moderationActionId: r.moderationActionId?.toString() ?? null,
+      reporter: {
+        id: r.reporter.id.toString(),
+        email: r.reporter.email,
+        displayName: r.reporter.profile?.displayName ?? null
+      }
+    })),
+    actions: actions.map(formatAction)
+  });
+}
+
+function formatAction(a: {
+  id: bigint;
+  action: ModerationActionType;
+  note: string | null;
+  createdAt: Date;
+  actor: { id: bigint; email: string };
+  target?: { id: bigint; email: string };
+  _count: { reports: number };
+}) {
+  return {
+    id: a.id.toString(),
+    action: a.action,
+    note: a.note,
+    createdAt: a.createdAt.toISOString(),
+    actor: { id: a.actor.id.toString(), email: a.actor.email },
+    ...(a.target ? { target: { id: a.target.id.toString(), email: a.target.email } } : {}),
+    reportCount: a._count.reports
+  };
+}
+
+/**
+ * POST /api/admin/reports/:userId/actions
+ * Take a moderation action against a reported user.
+ * Body: { action: WARN | HIDE_PROFILE | SUSPEND | UNSUSPEND | DELETE_ACCOUNT | DISMISS, note?: string }
+ *
+ * Every open report against the user is resolved by the action (DISMISS marks them
+ * DISMISSED, everything else ACTIONED) and linked to the audit row. UNSUSPEND lifts an
+ * earlier suspension and leaves open reports for review. A warned user is notified with
+ * the reported reasons; the note stays in the audit log.
+ */
+export async function takeModerationAction(req: Request, res: Response) {
+  const parsed = parsePositiveBigInt(req.params.userId, 'userId');
+  if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+  const targetId = parsed.value;
+  const actorId = req.ctx.userId!;
+
+  const { action, note } = (req.body ?? {}) as { action?: unknown; note?: unknown };
+  if (typeof action !== 'string' || !MODERATION_ACTIONS.includes(action as ModerationActionType)) {
+    return json(res, { error: `action must be one of ${MODERATION_ACTIONS.join(', ')}` }, 400);
+  }
+  if (note !== undefined && note !== null && typeof note !== 'string') {
+    return json(res, { error: 'note must be a string' }, 400);
+  }
+  const actionType = action as ModerationActionType;
+  const trimmedNote = typeof note === 'string' && note.trim() ? note.trim() : null;
+
+  if (targetId === actorId && actionType !== 'DISMISS') {
+    return json(res, { error: 'Cannot moderate your own account' }, 400);
+  }
+
+  const target = await prisma.user.findUnique({
+    where: { id: targetId },
+    select: { id: true, role: true, deletedAt: true, suspendedAt: true, profile: { select: { id: true } } }
+  });
+  if (!target) return json(res, { error: 'User not found' }, 404);
+  if (target.role === 'SUPER_ADMIN' && actionType !== 'DISMISS') {
+    return json(res, { error: 'Super admins cannot be moderated' }, 403);
+  }
+  if (target.deletedAt && actionType !== 'DISMISS') {
+    return json(res, { error: 'Account already deleted' }, 409);
+  }
+  if (actionType === 'UNSUSPEND' && !target.suspendedAt) {
+    return json(res, { error: 'Account is not suspended' }, 409);
+  }
+
+  const now = new Date();
+  const result = await prisma.$transaction(async tx => {
+    const record = await tx.moderationAction.create({
+      data: { targetId, actorId, action: actionType, note: trimmedNote },
+      select: { id: true, createdAt: true }
+    });
+
+    const warnedFor =
+      actionType === 'WARN'
+        ? await tx.userReport.findMany({
+            where: { targetId, status: 'OPEN' },
+            distinct: ['reason'],
+            orderBy: { reason: 'asc' },
+            select: { reason: true }
+          })
+        : [];
+
+    const resolved =
+      actionType === 'UNSUSPEND'
+        ? { count: 0 }
+        : await tx.userReport.updateMany({
+            where: { targetId, status: 'OPEN' },
+            data: {
+              status: actionType === 'DISMISS' ? 'DISMISSED' : 'ACTIONED',
+              resolvedAt: now,
+              moderationActionId: record.id
+            }
+          });
+
+    switch (actionType) {
+      case 'HIDE_PROFILE':
+        if (target.profile) {
+          await tx.profile.update({ where: { userId: targetId }, data: { isVisible: false } });
+        }
+        break;
+      case 'SUSPEND':
+        await tx.user.update({ where: { id: targetId }, data: { suspendedAt: now } });
+        break;
+      case 'UNSUSPEND':
+        await tx.user.update({ where: { id: targetId }, data: { suspendedAt: null } });
+        break;
+      case 'DELETE_ACCOUNT':
+        await tx.user.update({ where: { id: targetId }, data: { deletedAt: now } });
+        if (target.profile) {
+          await tx.profile.update({ where: { userId: targetId }, data: { deletedAt: now, isVisible: false } });
+        }
+        break;
+      case 'WARN':
+      case 'DISMISS':
+        break;
+    }
+
+    return {
+      id: record.id,
+      createdAt: record.createdAt,
+      resolvedReports: resolved.count,
+      reasons: warnedFor.map(r => r.reason)
+    };
+  });
+
+  if (actionType === 'SUSPEND' || actionType === 'DELETE_ACCOUNT') {
+    await revokeAllSessions(targetId, 'MODERATION');
+  }
+  if (actionType === 'WARN') {
+    await createNotification({
+      userId: targetId,
+      type: 'MODERATION_WARNING',
+      entityId: result.id,
+      data: { reasons: result.reasons.join(',') || null }
+    });
+  }
+
+  return json(res, {
+    id: result.id.toString(),
+    action: actionType,
+    createdAt: result.createdAt.toISOString(),
+    resolvedReports: result.resolvedReports
+  }, 201);
+}
+
+/**
+ * GET /api/admin/moderation/actions
+ * Moderation audit trail (newest first). Query: targetId, actorId, limit, offset
+ */
+export async function listModerationActions(req: Request, res: Response) {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const offset = parseInt(req.query.offset as string) || 0;
+
+  const where: { targetId?: bigint; actorId?: bigint } = {};
+  for (const key of ['targetId', 'actorId'] as const) {
+    const raw = req.query[key];
+    if (raw === undefined) continue;
+    const parsed = parsePositiveBigInt(raw, key);
+    if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+    where[key] = parsed.value;
+  }
+
+  const [actions, total] = await Promise.all([
+    prisma.moderationAction.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+      select: {
+        id: true,
+        action: true,
+        note: true,
+        createdAt: true,
+        actor: { select: { id: true, email: true } },
+        target: { select: { id: true, email: true } },
+        _count: { select: { reports: true } }
+      }
+    }),
+    prisma.moderationAction.count({ where })
+  ]);
+
+  return json(res, { actions: actions.map(formatAction), total, limit, offset });
+}
@@ -877,6 +877,118 @@ export const adminDomain: DomainRegistry = {
       const { getScheduleHistory } = await import('./handlers/schedules.js');
       return getScheduleHistory(req, res);
     }
+  },
+
+  // Report Moderation
+  {
+    id: 'admin.GET./admin/reports',
+    method: 'GET',
+    path: '/admin/reports',
+    auth: Auth.admin(),
+    summary: 'Report queue grouped by reported user',
+    tags: ['admin', 'moderation'],
+    handler: async (req, res) => {
+      const { listReportQueue } = await import('./handlers/reports.js');
+      return listReportQueue(req, res);
+    }
+  },
+  {
+    id: 'admin.GET./admin/reports/:userId',
+    method: 'GET',
+    path: '/admin/reports/:userId',
+    auth: Auth.admin(),
+    summary: 'Get reports and moderation history for a user',
+    tags: ['admin', 'moderation'],
+    handler: async (req, res) => {
+      const { getTargetReports } = await import('./handlers/reports.js');
+      return getTargetReports(req, res);
+    }
+  },
+  {
+    id: 'admin.POST./admin/reports/:userId/actions',
+    method: 'POST',
+    path: '/admin/reports/:userId/actions',
+    auth: Auth.admin(),
+    summary: 'Warn, hide, suspend, delete or dismiss reports for a user',
+    tags: ['admin', 'moderation'],
+    handler: async (req, res) => {
+      const { takeModerationAction } = await import('./handlers/reports.js');
+      return takeModerationAction(req, res);
+    }
+  },
+  {
+    id: 'admin.GET./admin/moderation/actions',
+    method: 'GET',
+    path: '/admin/moderation/actions',
+    auth: Auth.admin(),
+    summary: 'Moderation audit trail',
+    tags: ['admin', 'moderation'],
+    handler: async (req, res) => {
+      const { listModerationActions } = await import('./handlers/reports.js');
+      return listModerationActions(req, res);
+    }
+  },
+
+  // Feed Experiments
+  {
+    id: 'admin.GET./admin/feed/experiments',
+    method: 'GET',
+    path: '/admin/feed/experiments',
+    auth: Auth.admin(),
+    summary: 'List feed experiments and available feed variants',
+    tags: ['admin', 'feed'],
+    handler: async (req, res) => {
+      const { listFeedExperiments } = await import('./handlers/feedExperiments.js');
+      return listFeedExperiments(req, res);
+    }
+  },
+  {
+    id: 'admin.POST./admin/feed/experiments',
+    method: 'POST',
+    path: '/admin/feed/experiments',
+    auth: Auth.admin(),
+    summary: 'Create a feed experiment with variant allocations',
+    tags: ['admin', 'feed'],
+    handler: async (req, res) => {
+      const { createFeedExperiment } = await import('./handlers/feedExperiments.js');
+      return createFeedExperiment(req, res);
+    }
+  },
+  {
+    id: 'admin.PUT./admin/feed/experiments/:experimentId',
+    method: 'PUT',
+    path: '/admin/feed/experiments/:experimentId',
+    auth: Auth.admin(),
+    summary: 'Update allocations or start/end a feed experiment',
+    tags: ['admin', 'feed'],
+    handler: async (req, res) => {
+      const { updateFeedExperiment } = await import('./handlers/feedExperiments.js');
+      return updateFeedExperiment(req, res);
+    }
+  },
+  {
+    id: 'admin.GET./admin/feed/experiments/:experimentId/report',
+    method: 'GET',
+    path: '/admin/feed/experiments/:experimentId/report',
+    auth: Auth.admin(),
+    summary: 'Per-variant engagement report for a feed experiment',
+    tags: ['admin', 'feed'],
+    handler: async (req, res) => {
+      const { getFeedExperimentReport } = await import('./handlers/feedExperiments.js');
+      return getFeedExperimentReport(req, res);
+    }
+  },
+  {
+    id: 'admin.GET./admin/feed/presort/metrics',
+    method: 'GET',
+    path: '/admin/feed/presort/metrics',
+    auth: Auth.admin(),
+    summary: 'Presorted segment staleness, presort hit rate versus the live path, and rebuild queue stats',
+    tags: ['admin', 'feed'],
+    handler: async (req, res) => {
+      const { getFeedPresortMetrics } = await import('./handlers/feedPresortMetrics.js');
+      return getFeedPresortMetrics(req, res);
+    }
   }
   ]
 };
@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { setMailTransport } from '../../../../services/mail/config.js';
+import type { MailMessage } from '../../../../services/mail/transport.js';
+import { sendEmailVerificationMail } from '../../../../services/auth/accountMail.js';
+import { authDomain } from '../index.js';
+import { messagingDomain } from '../../messaging/index.js';
+import { callRoute, cleanupUsers, createUser } from '../../../../__tests__/helpers.js';
+
+const outbox: MailMessage[] = [];
+setMailTransport({
+  send: async (message) => {
+    outbox.push(message);
+  }
+});
+
+function tokenFromMail(to: string): string {
+  const mail = [...outbox].reverse().find((m) => m.to === to);
+  assert.ok(mail, `expected a mail to ${to}`);
+  const match = mail.text.match(/token=([A-Za-z0-9_-]+)/);
+  assert.ok(match, 'mail should contain a token link');
+  return match[1];
+}
+
+function createRecoveryUser(verified: boolean) {
+  return createUser({ label: 'recovery', password: 'old-password', verified, profile: false });
+}
+
+async function waitForMail(to: string, timeoutMs = 2000) {
+  const start = Date.now();
+  while (!outbox.some((m) => m.to === to)) {
+    if (Date.now() - start > timeoutMs) throw new Error(`No mail sent to ${to}`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+test('Password reset - token resets the password once and cannot be reused', async () => {
+  const user = await createRecoveryUser(true);
+  try {
+    const forgot = await callRoute(authDomain, 'auth.POST./auth/password/forgot', null, { body: { email: user.email } });
+    assert.strictEqual(forgot.status, 200);
+    await waitForMail(user.email);
+    const token = tokenFromMail(user.email);
+
+    const stored = await prisma.authToken.findFirst({ where: { userId: user.id, purpose: 'PASSWORD_RESET' } });
+    assert.ok(stored);
+    assert.notStrictEqual(stored.tokenHash, token, 'only the hash is stored');
+
+    const reset = await callRoute(authDomain, 'auth.POST./auth/password/reset', null, {
+      body: { token, password: 'new-password' }
+    });
+    assert.strictEqual(reset.status, 200);
+
+    const login = await callRoute(authDomain, 'auth.POST./auth/login', null, {
+      body: { email: user.email, password: 'new-password' }
+    });
+    assert.strictEqual(login.status, 200);
+
+    const reused = await callRoute(authDomain, 'auth.POST./auth/password/reset', null, {
+      body: { token, password: 'another-password' }
+    });
+    assert.strictEqual(reused.status, 400);
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
+
+test('Password reset - unknown email gets the same response and no mail', async () => {
+  const email = `test-recovery-missing-${Date.now()}@example.com`;
+  const forgot = await callRoute(authDomain, 'auth.POST./auth/password/forgot', null, { body: { email } });
+  assert.strictEqual(forgot.status, 200);
+  assert.deepStrictEqual(forgot.body, { ok: true });
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  assert.ok(!outbox.some((m) => m.to === email));
+});
+
+test('Password reset - expired token is rejected', async () => {
+  const user = await createRecoveryUser(true);
+  try {
+    await callRoute(authDomain, 'auth.POST./auth/password/forgot', null, { body: { email: user.email } });
+    await waitForMail(user.email);
+    const token = tokenFromMail(user.email);
+    await prisma.authToken.updateMany({
+      where: { userId: user.id },
+      data: { expiresAt: new Date(Date.now() - 1000) }
+    });
+
+    const reset = await callRoute(authDomain, 'auth.POST./auth/password/reset', null, {
+      body: { token, password: 'new-password' }
+    });
+    assert.strictEqual(reset.status, 400);
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
+
+test('Email verification - unverified users cannot send messages until verified', async () => {
+  const [sender, recipient] = await Promise.all([createRecoveryUser(false), createRecoveryUser(true)]);
+  try {
+    const conversation = await prisma.conversation.create({
+      data: { userAId: sender.id, userBId: recipient.id }
+    });
+
+    const blocked = await callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/messages', sender.id, {
+      params: { conversationId: String(conversation.id) },
+      body: { body: 'hello' }
+    });
+    assert.strictEqual(blocked.status, 403);
+    assert.strictEqual(blocked.body.code, 'EMAIL_NOT_VERIFIED');
+
+    await sendEmailVerificationMail(sender);
+    const token = tokenFromMail(sender.email);
+
+    // Resending inside the cooldown is refused
+    const resend = await callRoute(authDomain, 'auth.POST./auth/email/resend', sender.id);
+    assert.strictEqual(resend.status, 429);
+
+    const verify = await callRoute(authDomain, 'auth.POST./auth/email/verify', null, { body: { token } });
+    assert.strictEqual(verify.status, 200);
+
+    const sent = await callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/messages', sender.id, {
+      params: { conversationId: String(conversation.id) },
+      body: { body: 'hello' }
+    });
+    assert.strictEqual(sent.status, 201);
+  } finally {
+    await cleanupUsers([sender.id, recipient.id]);
+  }
+});
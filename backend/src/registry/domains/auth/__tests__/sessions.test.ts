@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { onSessionsRevoked } from '../../../../services/auth/sessionService.js';
+import { authDomain } from '../index.js';
+import { callRoute, cleanupUsers, createUser, type RouteCallOptions } from '../../../../__tests__/helpers.js';
+
+const USER_AGENT = 'Mozilla/5.0 (Macintosh) Firefox/130.0';
+
+function callAuth(routeId: string, options: Omit<RouteCallOptions, 'userAgent'> & { userId?: bigint } = {}) {
+  const { userId = null, ...rest } = options;
+  return callRoute(authDomain, routeId, userId, { ...rest, userAgent: USER_AGENT });
+}
+
+function createSessionUser() {
+  return createUser({ label: 'sessions', password: 'password123', profile: false });
+}
+
+async function login(email: string) {
+  const result = await callAuth('auth.POST./auth/login', { body: { email, password: 'password123' } });
+  assert.strictEqual(result.status, 200);
+  assert.ok(result.cookies.refresh_token);
+  return result.cookies;
+}
+
+test('Sessions - refresh rotates the token and the new one keeps working', async () => {
+  const user = await createSessionUser();
+  try {
+    const cookies = await login(user.email);
+    const first = await callAuth('auth.POST./auth/refresh', { cookies });
+    assert.strictEqual(first.status, 200);
+    assert.ok(first.cookies.refresh_token);
+    assert.notStrictEqual(first.cookies.refresh_token, cookies.refresh_token);
+
+    const second = await callAuth('auth.POST./auth/refresh', { cookies: first.cookies });
+    assert.strictEqual(second.status, 200);
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
+
+test('Sessions - reusing a rotated refresh token revokes the whole family', async () => {
+  const user = await createSessionUser();
+  const revokedEvents: bigint[] = [];
+  const unsubscribe = onSessionsRevoked((ids) => revokedEvents.push(...ids));
+  try {
+    const stolen = await login(user.email);
+    const rotated = await callAuth('auth.POST./auth/refresh', { cookies: stolen });
+    assert.strictEqual(rotated.status, 200);
+
+    // Move the rotation outside the concurrent-refresh grace window
+    await prisma.authSession.updateMany({
+      where: { userId: user.id },
+      data: { rotatedAt: new Date(Date.now() - 60_000) }
+    });
+
+    const replay = await callAuth('auth.POST./auth/refresh', { cookies: stolen });
+    assert.strictEqual(replay.status, 401);
+
+    // The legitimate holder of the newest token is logged out too
+    const legit = await callAuth('auth.POST./auth/refresh', { cookies: rotated.cookies });
+    assert.strictEqual(legit.status, 401);
+
+    const session = await prisma.authSession.findFirst({ where: { userId: user.id } });
+    assert.strictEqual(session?.revokedReason, 'REUSE_DETECTED');
+    assert.ok(revokedEvents.includes(session!.id));
+  } finally {
+    unsubscribe();
+    await cleanupUsers([user.id]);
+  }
+});
+
+test('Sessions - list marks the current session and DELETE revokes another one', async () => {
+  const user = await createSessionUser();
+  try {
+    const laptop = await login(user.email);
+    const phone = await login(user.email);
+
+    const list = await callAuth('auth.GET./auth/sessions', { userId: user.id, cookies: laptop });
+    assert.strictEqual(list.status, 200);
+    assert.strictEqual(list.body.sessions.length, 2);
+    const current = list.body.sessions.filter((s: { current: boolean }) => s.current);
+    assert.strictEqual(current.length, 1);
+    assert.strictEqual(current[0].deviceLabel, 'Firefox on macOS');
+
+    const other = list.body.sessions.find((s: { current: boolean }) => !s.current);
+    const removed = await callAuth('auth.DELETE./auth/sessions/:id', {
+      userId: user.id,
+      cookies: laptop,
+      params: { id: other.id }
+    });
+    assert.strictEqual(removed.status, 200);
+    assert.strictEqual(removed.body.current, false);
+
+    const phoneRefresh = await callAuth('auth.POST./auth/refresh', { cookies: phone });
+    assert.strictEqual(phoneRefresh.status, 401);
+    const laptopRefresh = await callAuth('auth.POST./auth/refresh', { cookies: laptop });
+    assert.strictEqual(laptopRefresh.status, 200);
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
+
+test('Sessions - log out everywhere revokes every session', async () => {
+  const user = await createSessionUser();
+  try {
+    const a = await login(user.email);
+    const b = await login(user.email);
+
+    const result = await callAuth('auth.DELETE./auth/sessions', { userId: user.id, cookies: a });
+    assert.strictEqual(result.status, 200);
+    assert.strictEqual(result.body.revoked, 2);
+
+    for (const cookies of [a, b]) {
+      const refresh = await callAuth('auth.POST./auth/refresh', { cookies });
+      assert.strictEqual(refresh.status, 401);
+    }
+  } finally {
+    await cleanupUsers([user.id]);
+  }
+});
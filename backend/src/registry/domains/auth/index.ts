@@ -4,41 +4,21 @@ import { prisma } from '../../../lib/prisma/client.js';
 import { json } from '../../../lib/http/json.js';
 import bcrypt from 'bcryptjs';
 import { Prisma } from '@prisma/client';
+import { parsePositiveBigInt } from '../../../lib/http/parse.js';
+import { getCookieOpts } from '../../../lib/auth/cookies.js';
+import { consumeAuthToken, wasAuthTokenRecentlyIssued } from '../../../services/auth/authTokenService.js';
+import { sendEmailVerificationMail, sendPasswordResetMail } from '../../../services/auth/accountMail.js';
+import { isPendingDeletion } from '../../../services/account/accountDeletion.js';
 import {
-  signAccessToken,
-  signRefreshToken,
-  verifyRefreshToken
-} from '../../../lib/auth/jwt.js';
-
-const getCookieOpts = (rememberMe: boolean = false) => {
-  // Cookie settings for same-domain deployment (Railway serves frontend + backend on same domain):
-  // - Use 'lax' for both dev and prod since frontend/backend share the same domain
-  // - 'none' is only needed for cross-domain cookies, which we don't have
-  // - secure: true still required in production for HTTPS
-  const isProduction = process.env.NODE_ENV === 'production';
-  const devHttps = process.env.DEV_HTTPS === '1' || process.env.DEV_HTTPS === 'true';
-  const sameSiteEnv = (process.env.COOKIE_SAMESITE || '').toLowerCase();
-  const sameSite =
-    sameSiteEnv === 'none' || sameSiteEnv === 'lax' || sameSiteEnv === 'strict'
-      ? (sameSiteEnv as 'none' | 'lax' | 'strict')
-      : ('lax' as const);
-  const secure = isProduction || devHttps || sameSite === 'none';
-  const base = {
-    httpOnly: true,
-    sameSite,                  // Works for same-domain, more permissive than 'none'
-    secure,                    // Require HTTPS in production or when dev HTTPS is enabled
-    path: '/',
-  };
-  
-  if (rememberMe) {
-    return {
-      ...base,
-      maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
-    };
-  }
-  
-  return base;
-};
+  createSession,
+  listActiveSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+  sessionIdFromRefreshToken
+} from '../../../services/auth/sessionService.js';
+
+const PASSWORD_MIN_LENGTH = 8;
 
 export const authDomain: DomainRegistry = {
   domain: 'auth',
@@ -67,9 +47,14 @@ export const authDomain: DomainRegistry = {
             select: { id: true, email: true }
           });
 
-          const sub = String(user.id);
-          res.cookie('access_token', signAccessToken({ sub }), cookieOptions);
-          res.cookie('refresh_token', signRefreshToken({ sub }), cookieOptions);
+          const session = await createSession(user.id, req, rememberMe === true);
+          res.cookie('access_token', session.accessToken, cookieOptions);
+          res.cookie('refresh_token', session.refreshToken, cookieOptions);
+
+          // Send verification mail (non-blocking)
+          sendEmailVerificationMail(user).catch(err => {
+            console.error('[auth/signup] Failed to send verification email', { error: err });
+          });
 
           return json(res, { userId: user.id, email: user.email });
         } catch (error) {
@@ -109,17 +94,25 @@ export const authDomain: DomainRegistry = {
 
         const user = await prisma.user.findUnique({
           where: { email },
-          select: { id: true, passwordHash: true, deletedAt: true }
+          select: { id: true, passwordHash: true, deletedAt: true, suspendedAt: true, deletionScheduledFor: true, purgedAt: true }
         });
-        if (!user || user.deletedAt) return json(res, { error: 'Invalid credentials' }, 401);
+        if (!user || (user.deletedAt && !isPendingDeletion(user))) return json(res, { error: 'Invalid credentials' }, 401);
 
         const ok = await bcrypt.compare(password, user.passwordHash);
         if (!ok) return json(res, { error: 'Invalid credentials' }, 401);
+        if (isPendingDeletion(user)) {
+          return json(res, {
+            error: 'This account is scheduled for deletion',
+            code: 'ACCOUNT_PENDING_DELETION',
+            deletionScheduledFor: user.deletionScheduledFor
+          }, 403);
+        }
+        if (user.suspendedAt) return json(res, { error: 'Account suspended' }, 403);
 
-        const sub = String(user.id);
         const cookieOptions = getCookieOpts(rememberMe === true);
-        res.cookie('access_token', signAccessToken({ sub }), cookieOptions);
-        res.cookie('refresh_token', signRefreshToken({ sub }), cookieOptions);
+        const session = await createSession(user.id, req, rememberMe === true);
+        res.cookie('access_token', session.accessToken, cookieOptions);
+        res.cookie('refresh_token', session.refreshToken, cookieOptions);
 
         return json(res, { userId: user.id });
       }
@@ -130,25 +123,32 @@ export const authDomain: DomainRegistry = {
       method: 'POST',
       path: '/auth/refresh',
       auth: Auth.public(),
-      summary: 'Refresh access token',
+      summary: 'Rotate the refresh token and issue a new access token',
       tags: ['auth'],
       handler: async (req, res) => {
         const token = req.cookies?.refresh_token;
         if (!token) return json(res, { error: 'unauthenticated' }, 401);
 
         try {
-          const payload = verifyRefreshToken(token);
-          if (!payload || !payload.sub) {
-            console.error('[auth/refresh] Refresh token payload missing sub field', { payload });
+          const result = await rotateSession(token, req);
+          if (!result.ok) {
+            const cookieOpts = getCookieOpts(false);
+            res.cookie('access_token', '', { ...cookieOpts, maxAge: 0 });
+            res.cookie('refresh_token', '', { ...cookieOpts, maxAge: 0 });
             return json(res, { error: 'invalid refresh token' }, 401);
           }
-          // Validate that sub is a valid positive integer
-          const userIdTest = BigInt(payload.sub);
-          if (userIdTest <= 0n) {
-            console.error('[auth/refresh] Invalid userId in refresh token', { sub: payload.sub });
+          // Moderated accounts stop receiving new access tokens
+          const user = await prisma.user.findUnique({
+            where: { id: result.userId },
+            select: { deletedAt: true, suspendedAt: true }
+          });
+          if (!user || user.deletedAt || user.suspendedAt) {
+            await revokeSession(result.userId, result.sessionId, 'MODERATION');
             return json(res, { error: 'invalid refresh token' }, 401);
           }
-          res.cookie('access_token', signAccessToken({ sub: payload.sub }), getCookieOpts(false));
+          const cookieOptions = getCookieOpts(result.rememberMe);
+          res.cookie('access_token', result.accessToken, cookieOptions);
+          if (result.refreshToken) res.cookie('refresh_token', result.refreshToken, cookieOptions);
           return json(res, { ok: true });
         } catch (err) {
           console.error('[auth/refresh] Error refreshing token', { error: err });
@@ -162,9 +162,11 @@ export const authDomain: DomainRegistry = {
       method: 'POST',
       path: '/auth/logout',
       auth: Auth.user(),
-      summary: 'Clear auth cookies',
+      summary: 'Revoke the current session and clear auth cookies',
       tags: ['auth'],
-      handler: async (_req, res) => {
+      handler: async (req, res) => {
+        const sessionId = req.ctx.sessionId ?? sessionIdFromRefreshToken(req.cookies?.refresh_token);
+        if (sessionId) await revokeSession(req.ctx.userId!, sessionId, 'LOGOUT');
         const cookieOpts = getCookieOpts(false);
         res.cookie('access_token', '', { ...cookieOpts, maxAge: 0 });
         res.cookie('refresh_token', '', { ...cookieOpts, maxAge: 0 });
@@ -172,6 +174,187 @@ export const authDomain: DomainRegistry = {
       }
     },
 
+    {
+      id: 'auth.GET./auth/sessions',
+      method: 'GET',
+      path: '/auth/sessions',
+      auth: Auth.user(),
+      summary: 'List active sessions (devices) for the current user',
+      tags: ['auth'],
+      handler: async (req, res) => {
+        const currentId = req.ctx.sessionId ?? sessionIdFromRefreshToken(req.cookies?.refresh_token);
+        const sessions = await listActiveSessions(req.ctx.userId!);
+        return json(res, {
+          sessions: sessions.map(s => ({
+            id: s.id,
+            deviceLabel: s.deviceLabel,
+            userAgent: s.userAgent,
+            ipAddress: s.ipAddress,
+            createdAt: s.createdAt,
+            lastUsedAt: s.lastUsedAt,
+            current: currentId === s.id
+          }))
+        });
+      }
+    },
+
+    {
+      id: 'auth.DELETE./auth/sessions/:id',
+      method: 'DELETE',
+      path: '/auth/sessions/:id',
+      auth: Auth.user(),
+      summary: 'Revoke one of the current user\'s sessions',
+      tags: ['auth'],
+      handler: async (req, res) => {
+        const parsed = parsePositiveBigInt(req.params.id, 'id');
+        if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+
+        const revoked = await revokeSession(req.ctx.userId!, parsed.value, 'USER_REVOKED');
+        if (!revoked) return json(res, { error: 'Session not found' }, 404);
+
+        const currentId = req.ctx.sessionId ?? sessionIdFromRefreshToken(req.cookies?.refresh_token);
+        if (currentId === parsed.value) {
+          const cookieOpts = getCookieOpts(false);
+          res.cookie('access_token', '', { ...cookieOpts, maxAge: 0 });
+          res.cookie('refresh_token', '', { ...cookieOpts, maxAge: 0 });
+        }
+        return json(res, { ok: true, current: currentId === parsed.value });
+      }
+    },
+
+    {
+      id: 'auth.DELETE./auth/sessions',
+      method: 'DELETE',
+      path: '/auth/sessions',
+      auth: Auth.user(),
+      summary: 'Log out everywhere (revoke every session of the current user)',
+      tags: ['auth'],
+      handler: async (req, res) => {
+        const revoked = await revokeAllSessions(req.ctx.userId!, 'LOGOUT_ALL');
+        const cookieOpts = getCookieOpts(false);
+        res.cookie('access_token', '', { ...cookieOpts, maxAge: 0 });
+        res.cookie('refresh_token', '', { ...cookieOpts, maxAge: 0 });
+        return json(res, { ok: true, revoked });
+      }
+    },
+
+    {
+      id: 'auth.POST./auth/password/forgot',
+      method: 'POST',
+      path: '/auth/password/forgot',
+      auth: Auth.public(),
+      summary: 'Email a password reset link',
+      tags: ['auth'],
+      handler: async (req, res) => {
+        const { email } = (req.body ?? {}) as { email?: string };
+        if (!email || typeof email !== 'string') return json(res, { error: 'email required' }, 400);
+
+        // Same response whether or not the account exists, so this can't be used to probe emails
+        void (async () => {
+          try {
+            const user = await prisma.user.findUnique({
+              where: { email: email.trim() },
+              select: { id: true, email: true, deletedAt: true }
+            });
+            if (!user || user.deletedAt) return;
+            if (await wasAuthTokenRecentlyIssued(user.id, 'PASSWORD_RESET')) return;
+            await sendPasswordResetMail(user);
+          } catch (err) {
+            console.error('[auth/password/forgot] Failed to send reset email', { error: err });
+          }
+        })();
+
+        return json(res, { ok: true });
+      }
+    },
+
+    {
+      id: 'auth.POST./auth/password/reset',
+      method: 'POST',
+      path: '/auth/password/reset',
+      auth: Auth.public(),
+      summary: 'Set a new password using a reset token',
+      tags: ['auth'],
+      handler: async (req, res) => {
+        const { token, password } = (req.body ?? {}) as { token?: string; password?: string };
+        if (!token || typeof token !== 'string') return json(res, { error: 'token required' }, 400);
+        if (!password || typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+          return json(res, { error: `password must be at least ${PASSWORD_MIN_LENGTH} characters` }, 400);
+        }
+
+        const userId = await consumeAuthToken(token, 'PASSWORD_RESET');
+        if (!userId) return json(res, { error: 'Invalid or expired token' }, 400);
+
+        const passwordHash = await bcrypt.hash(password, 10);
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { deletedAt: true, emailVerifiedAt: true }
+        });
+        if (!user || user.deletedAt) return json(res, { error: 'Invalid or expired token' }, 400);
+
+        await prisma.user.update({
+          where: { id: userId },
+          data: {
+            passwordHash,
+            // The reset link was delivered to this address, which proves ownership
+            ...(user.emailVerifiedAt ? {} : { emailVerifiedAt: new Date() })
+          }
+        });
+        // Whoever held the old password may still be logged in somewhere
+        await revokeAllSessions(userId, 'PASSWORD_RESET');
+
+        return json(res, { ok: true });
+      }
+    },
+
+    {
+      id: 'auth.POST./auth/email/verify',
+      method: 'POST',
+      path: '/auth/email/verify',
+      auth: Auth.public(),
+      summary: 'Confirm email address using a verification token',
+      tags: ['auth'],
+      handler: async (req, res) => {
+        const { token } = (req.body ?? {}) as { token?: string };
+        if (!token || typeof token !== 'string') return json(res, { error: 'token required' }, 400);
+
+        const userId = await consumeAuthToken(token, 'EMAIL_VERIFY');
+        if (!userId) return json(res, { error: 'Invalid or expired token' }, 400);
+
+        await prisma.user.updateMany({
+          where: { id: userId, emailVerifiedAt: null },
+          data: { emailVerifiedAt: new Date() }
+        });
+
+        return json(res, { ok: true });
+      }
+    },
+
+    {
+      id: 'auth.POST./auth/email/resend',
+      method: 'POST',
+      path: '/auth/email/resend',
+      auth: Auth.user(),
+      summary: 'Resend the email verification link',
+      tags: ['auth'],
+      handler: async (req, res) => {
+        const userId = req.ctx.userId!;
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true, email: true, emailVerifiedAt: true }
+        });
+        if (!user) return json(res, { error: 'User not found' }, 404);
+        if (user.emailVerifiedAt) return json(res, { ok: true, alreadyVerified: true });
+
+        if (await wasAuthTokenRecentlyIssued(user.id, 'EMAIL_VERIFY')) {
+          return json(res, { error: 'Please wait a minute before requesting another email' }, 429);
+        }
+
+        await sendEmailVerificationMail(user);
+        return json(res, { ok: true });
+      }
+    },
+
     {
       id: 'auth.GET./auth/me',
       method: 'GET',
@@ -196,7 +379,7 @@ export const authDomain: DomainRegistry = {
           // Add timeout to database query (10 seconds)
           const queryPromise = prisma.user.findUnique({
             where: { id: userId },
-            select: { id: true, role: true }
+            select: { id: true, role: true, emailVerifiedAt: true }
           });
           
           const timeoutPromise = new Promise<null>((_, reject) => {
@@ -214,7 +397,7 @@ export const authDomain: DomainRegistry = {
           }
           
           process.stdout.write(`[auth/me] Success, returning user data, duration=${duration}ms\n`);
-          return json(res, { userId: user.id, role: user.role });
+          return json(res, { userId: user.id, role: user.role, emailVerified: user.emailVerifiedAt !== null });
         } catch (err) {
           const duration = Date.now() - startTime;
           process.stderr.write(`[auth/me] Error after ${duration}ms: ${String(err)}\n`);
@@ -4,7 +4,10 @@ import { prisma } from '../../../lib/prisma/client.js';
 import { json } from '../../../lib/http/json.js';
 import { parseLimit, parseOptionalPositiveBigInt, parsePositiveBigInt } from '../../../lib/http/parse.js';
 import { parseMentions } from '../../../services/comments/mentionParser.js';
+import { notBlockedWith } from '../../../services/safety/blockFilter.js';
 import { toAvatarUrl } from '../../../services/media/presenter.js';
+import { createNotification } from '../../../services/notifications/notificationService.js';
+import { trackFeedExperimentEvent } from '../../../services/feed/feedExperimentService.js';
 import type { MediaForAvatar } from '../profiles/types/models.js';
 
 type CommentCreateBody = {
@@ -88,6 +91,36 @@ async function formatComment(
   return result;
 }
 
+// Mentions win over the reply notification so a mentioned parent author gets one notification, not two
+async function notifyCommentActivity(options: {
+  authorId: bigint;
+  postId: bigint;
+  commentId: bigint;
+  mentionedUserIds: bigint[];
+  parentAuthorId?: bigint | null;
+}) {
+  const data = { postId: String(options.postId), commentId: String(options.commentId) };
+  for (const userId of options.mentionedUserIds) {
+    await createNotification({
+      userId,
+      type: 'COMMENT_MENTION',
+      actorId: options.authorId,
+      entityId: options.commentId,
+      data,
+    });
+  }
+  const parentAuthorId = options.parentAuthorId;
+  if (parentAuthorId && !options.mentionedUserIds.includes(parentAuthorId)) {
+    await createNotification({
+      userId: parentAuthorId,
+      type: 'COMMENT_REPLY',
+      actorId: options.authorId,
+      entityId: options.commentId,
+      data,
+    });
+  }
+}
+
 export const commentsDomain: DomainRegistry = {
   domain: 'comments',
   routes: [
@@ -142,6 +175,7 @@ export const commentsDomain: DomainRegistry = {
 
         let resolvedParentId: bigint | null = null;
         let resolvedRootId: bigint | null = null;
+        let parentAuthorId: bigint | null = null;
         if (parentCommentId) {
           const parent = await prisma.comment.findFirst({
             where: {
@@ -150,15 +184,16 @@ export const commentsDomain: DomainRegistry = {
               targetId: postId,
               status: 'ACTIVE',
             },
-            select: { id: true, rootId: true },
+            select: { id: true, rootId: true, authorId: true },
           });
           if (!parent) return json(res, { error: 'Parent comment not found' }, 404);
+          parentAuthorId = parent.authorId;
           resolvedParentId = parent.id;
           resolvedRootId = parent.rootId ?? parent.id;
         }
 
         // Parse mentions
-        const mentionedUserIds = await parseMentions(text.trim(), post.userId);
+        const mentionedUserIds = await parseMentions(text.trim(), authorId, post.userId);
 
         const now = new Date();
         const created = await prisma.$transaction(async (tx) => {
@@ -212,6 +247,16 @@ export const commentsDomain: DomainRegistry = {
           return comment;
         });
 
+        trackFeedExperimentEvent(authorId, 'COMMENT', postId);
+
+        await notifyCommentActivity({
+          authorId,
+          postId,
+          commentId: created.id,
+          mentionedUserIds,
+          parentAuthorId,
+        });
+
         return json(res, { ok: true, ...created }, 201);
       },
     },
@@ -250,6 +295,7 @@ export const commentsDomain: DomainRegistry = {
           targetId: postId,
           parentId: null, // Root comments only
           status: 'ACTIVE',
+          author: notBlockedWith(viewerId),
         };
 
         if (cursorCommentId) {
@@ -362,6 +408,7 @@ export const commentsDomain: DomainRegistry = {
         const where: any = {
           parentId: commentIdParsed.value,
           status: 'ACTIVE',
+          author: notBlockedWith(viewerId),
         };
 
         if (cursorReplyId) {
@@ -632,7 +679,13 @@ export const commentsDomain: DomainRegistry = {
         }
 
         // Parse mentions from new body
-        const mentionedUserIds = await parseMentions(trimmedBody, postAuthorId);
+        const mentionedUserIds = await parseMentions(trimmedBody, userId, postAuthorId);
+
+        const previousMentions = await prisma.commentMention.findMany({
+          where: { commentId: commentIdParsed.value },
+          select: { userId: true },
+        });
+        const previouslyMentioned = new Set(previousMentions.map(m => m.userId));
 
         const updated = await prisma.$transaction(async (tx) => {
           // Delete existing mentions
@@ -666,6 +719,16 @@ export const commentsDomain: DomainRegistry = {
           return updatedComment;
         });
 
+        // Only people newly mentioned by the edit are notified
+        if (comment.targetKind === 'POST') {
+          await notifyCommentActivity({
+            authorId: userId,
+            postId: comment.targetId,
+            commentId: updated.id,
+            mentionedUserIds: mentionedUserIds.filter(id => !previouslyMentioned.has(id)),
+          });
+        }
+
         return json(res, {
           ok: true,
           id: String(updated.id),
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import {
+  enqueueFeedEngagementEvents,
+  flushFeedEngagementEvents
+} from '../../../../services/feed/feedEngagementService.js';
+import type { FeedEngagementEventInput } from '../events.js';
+
+function hides(count: number, firstItemId: bigint): FeedEngagementEventInput[] {
+  return Array.from({ length: count }, (_, index) => ({
+    type: 'HIDE',
+    itemType: 'POST',
+    itemId: firstItemId + BigInt(index),
+    dwellMs: null,
+    watchPct: null,
+    occurredAt: new Date()
+  }));
+}
+
+test('Feed engagement - rows the database rejects are dropped without holding back the rest', async () => {
+  const base = BigInt(Date.now()) * 1000n;
+  const goodUserId = base + 1n;
+  const badUserId = base + 2n;
+  try {
+    enqueueFeedEngagementEvents(goodUserId, hides(30, 1n));
+    // feedVariant is VARCHAR(64): this row can never be stored
+    enqueueFeedEngagementEvents(badUserId, hides(1, 1n), 'x'.repeat(200));
+    enqueueFeedEngagementEvents(goodUserId, hides(20, 100n));
+
+    const written = await flushFeedEngagementEvents();
+    assert.strictEqual(written, 50);
+    assert.strictEqual(await prisma.feedEngagementEvent.count({ where: { userId: goodUserId } }), 50);
+    assert.strictEqual(await prisma.feedEngagementEvent.count({ where: { userId: badUserId } }), 0);
+
+    // Nothing is left to retry
+    assert.strictEqual(await flushFeedEngagementEvents(), 0);
+  } finally {
+    await prisma.feedEngagementEvent.deleteMany({ where: { userId: { in: [goodUserId, badUserId] } } });
+  }
+});
+
+test('Feed engagement - repeated events for the same item are dropped per user', async () => {
+  const userId = BigInt(Date.now()) * 1000n + 3n;
+  const otherUserId = userId + 1n;
+  const dwell = (itemId: bigint): FeedEngagementEventInput => ({
+    type: 'DWELL',
+    itemType: 'POST',
+    itemId,
+    dwellMs: 1500,
+    watchPct: null,
+    occurredAt: new Date()
+  });
+  const now = Date.now();
+  try {
+    assert.strictEqual(enqueueFeedEngagementEvents(userId, hides(3, 1n), null, now), 3);
+    assert.strictEqual(enqueueFeedEngagementEvents(userId, hides(3, 1n), null, now), 0);
+    // Other users and other items are unaffected
+    assert.strictEqual(enqueueFeedEngagementEvents(otherUserId, hides(1, 1n), null, now), 1);
+    assert.strictEqual(enqueueFeedEngagementEvents(userId, hides(1, 4n), null, now), 1);
+
+    // Dwell repeats a few times before it is capped
+    const dwells = Array.from({ length: 8 }, () => dwell(1n));
+    assert.strictEqual(enqueueFeedEngagementEvents(userId, dwells, null, now), 5);
+
+    // The window expires
+    assert.strictEqual(enqueueFeedEngagementEvents(userId, hides(1, 1n), null, now + 61 * 60 * 1000), 1);
+
+    assert.strictEqual(await flushFeedEngagementEvents(), 11);
+    assert.strictEqual(await prisma.feedEngagementEvent.count({ where: { userId } }), 10);
+  } finally {
+    await prisma.feedEngagementEvent.deleteMany({ where: { userId: { in: [userId, otherUserId] } } });
+  }
+});
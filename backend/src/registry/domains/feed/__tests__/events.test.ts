@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { MAX_DWELL_MS, MAX_EVENTS_PER_REQUEST, parseFeedEngagementBatch, parseFeedEngagementEvent } from '../events.js';
+
+const NOW = Date.UTC(2026, 0, 1, 12);
+
+test('events map to stored types with only their own metric', () => {
+  assert.deepStrictEqual(
+    parseFeedEngagementEvent({ type: 'dwell', itemType: 'post', itemId: '12', dwellMs: 4200.4, watchPct: 80 }, NOW),
+    { type: 'DWELL', itemType: 'POST', itemId: 12n, dwellMs: 4200, watchPct: null, occurredAt: new Date(NOW) }
+  );
+  const watch = parseFeedEngagementEvent({ type: 'watch', itemType: 'post', itemId: 12, watchPct: 66.66 }, NOW);
+  assert.strictEqual(watch?.watchPct, 66.7);
+  assert.strictEqual(watch?.dwellMs, null);
+  assert.strictEqual(
+    parseFeedEngagementEvent({ type: 'not_interested', itemType: 'suggestion', itemId: '9' }, NOW)?.type,
+    'NOT_INTERESTED'
+  );
+  assert.strictEqual(
+    parseFeedEngagementEvent({ type: 'dwell', itemType: 'post', itemId: '1', dwellMs: MAX_DWELL_MS * 3 }, NOW)?.dwellMs,
+    MAX_DWELL_MS
+  );
+});
+
+test('item ids up to the BIGINT maximum are accepted', () => {
+  const event = parseFeedEngagementEvent({ type: 'hide', itemType: 'post', itemId: '9223372036854775807' }, NOW);
+  assert.strictEqual(event?.itemId, 2n ** 63n - 1n);
+});
+
+test('malformed events are rejected', () => {
+  const invalid = [
+    null,
+    { type: 'like', itemType: 'post', itemId: '1' },
+    { type: 'hide', itemType: 'question', itemId: '1' },
+    { type: 'hide', itemType: 'post', itemId: 'post-1' },
+    // Past the signed BIGINT range of the column
+    { type: 'hide', itemType: 'post', itemId: '9223372036854775808' },
+    { type: 'dwell', itemType: 'post', itemId: '1' },
+    { type: 'watch', itemType: 'post', itemId: '1', watchPct: 140 },
+    // Profiles have no comments or videos
+    { type: 'comment_open', itemType: 'suggestion', itemId: '1' },
+    { type: 'watch', itemType: 'suggestion', itemId: '1', watchPct: 50 },
+    { type: 'hide', itemType: 'post', itemId: '1', occurredAt: new Date(NOW - 2 * 24 * 60 * 60 * 1000).toISOString() },
+    { type: 'hide', itemType: 'post', itemId: '1', occurredAt: new Date(NOW + 60 * 60 * 1000).toISOString() },
+    { type: 'hide', itemType: 'post', itemId: '1', occurredAt: 'yesterday' }
+  ];
+  for (const event of invalid) {
+    assert.strictEqual(parseFeedEngagementEvent(event, NOW), null, JSON.stringify(event));
+  }
+});
+
+test('a batch keeps its valid events and counts the rest', () => {
+  const parsed = parseFeedEngagementBatch(
+    {
+      events: [
+        { type: 'profile_open', itemType: 'post', itemId: '3' },
+        { type: 'comment_open', itemType: 'post', itemId: '3' },
+        { type: 'hide', itemType: 'post' }
+      ]
+    },
+    NOW
+  );
+  assert.ok(parsed.ok);
+  assert.strictEqual(parsed.value.events.length, 2);
+  assert.strictEqual(parsed.value.rejected, 1);
+
+  assert.strictEqual(parseFeedEngagementBatch({}, NOW).ok, false);
+  const tooMany = Array.from({ length: MAX_EVENTS_PER_REQUEST + 1 }, () => ({ type: 'hide', itemType: 'post', itemId: '1' }));
+  assert.strictEqual(parseFeedEngagementBatch({ events: tooMany }, NOW).ok, false);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { removeExcludedFeedItems } from '../../../../services/feed/feedExclusions.js';
+import type { PresortedFeedItem, PresortedFeedLeafItem } from '../../../../services/feed/presortedFeedService.js';
+
+function leaf(type: PresortedFeedLeafItem['type'], id: number, actorId: bigint): PresortedFeedLeafItem {
+  const source = type === 'suggestion' ? 'suggested' : type;
+  return { type, id: String(id), score: 1, actorId, source, createdAt: 0 };
+}
+
+test('presorted items drop hidden posts and everything from muted users', () => {
+  const items: PresortedFeedItem[] = [
+    leaf('post', 1, 10n),
+    leaf('post', 2, 20n),
+    leaf('suggestion', 20, 20n),
+    leaf('post', 3, 30n),
+    leaf('question', 4, 0n)
+  ];
+  const result = removeExcludedFeedItems(items, { hiddenPostIds: new Set([1n]), mutedUserIds: new Set([20n]) });
+  assert.deepStrictEqual(
+    result.items.map((item) => `${item.type}:${item.id}`),
+    ['post:3', 'question:4']
+  );
+  assert.strictEqual(result.removedCount, 3);
+});
+
+test('grids keep their remaining children and disappear once empty', () => {
+  const grid = (id: string, children: PresortedFeedLeafItem[]): PresortedFeedItem => ({
+    type: 'grid',
+    id,
+    score: 1,
+    actorId: children[0]!.actorId,
+    source: 'grid',
+    items: children
+  });
+  const items = [grid('a', [leaf('post', 1, 10n), leaf('post', 2, 11n)]), grid('b', [leaf('post', 3, 12n)])];
+
+  const result = removeExcludedFeedItems(items, { hiddenPostIds: new Set([1n, 3n]), mutedUserIds: new Set() });
+  assert.strictEqual(result.items.length, 1);
+  const [kept] = result.items;
+  assert.ok(kept?.type === 'grid');
+  assert.deepStrictEqual(kept.items.map((child) => child.id), ['2']);
+  assert.strictEqual(result.removedCount, 2);
+
+  const untouched = removeExcludedFeedItems(items, { hiddenPostIds: new Set(), mutedUserIds: new Set() });
+  assert.strictEqual(untouched.items, items);
+});
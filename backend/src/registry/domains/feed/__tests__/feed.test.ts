@@ -166,6 +166,14 @@ async function cleanupUsers(userIds: bigint[]) {
       OR: [{ reporterId: { in: userIds } }, { targetId: { in: userIds } }]
     }
   });
+  await prisma.feedHiddenPost.deleteMany({
+    where: { userId: { in: userIds } }
+  });
+  await prisma.feedMute.deleteMany({
+    where: {
+      OR: [{ muterId: { in: userIds } }, { mutedId: { in: userIds } }]
+    }
+  });
   await prisma.profileAccess.deleteMany({
     where: {
       OR: [{ ownerUserId: { in: userIds } }, { viewerUserId: { in: userIds } }]
@@ -296,6 +304,15 @@ async function callFeed(userId: bigint | null, query: Record<string, string>) {
   return { status: res.getStatus(), body: JSON.parse(res.getBody()) };
 }
 
+async function callFeedRoute(routeId: string, userId: bigint, params: Record<string, string>) {
+  const route = feedDomain.routes.find((r) => r.id === routeId);
+  if (!route) throw new Error(`Route not found: ${routeId}`);
+  const req = { ctx: { userId }, query: {}, params, body: {} } as unknown as Request;
+  const res = createMockResponse();
+  await route.handler(req, res, () => undefined);
+  return { status: res.getStatus(), body: JSON.parse(res.getBody()) };
+}
+
 test('Feed retrieval - basic functionality', async () => {
   // Create test users
   const user1 = await prisma.user.create({
@@ -569,6 +586,61 @@ test('Feed blocking - posts from blocked users are excluded', async () => {
   }
 });
 
+test('Feed exclusions - hidden posts and muted creators are excluded', async () => {
+  const stamp = Date.now();
+  const [viewer, muted, author] = await Promise.all([
+    prisma.user.create({
+      data: {
+        email: `test-exclusions-${stamp}-viewer@example.com`,
+        passwordHash: 'hash',
+        profile: { create: { displayName: 'Viewer', isVisible: true } }
+      }
+    }),
+    prisma.user.create({
+      data: {
+        email: `test-exclusions-${stamp}-muted@example.com`,
+        passwordHash: 'hash',
+        profile: { create: { displayName: 'Muted', isVisible: true } }
+      }
+    }),
+    prisma.user.create({
+      data: {
+        email: `test-exclusions-${stamp}-author@example.com`,
+        passwordHash: 'hash',
+        profile: { create: { displayName: 'Author', isVisible: true } }
+      }
+    })
+  ]);
+
+  try {
+    const mutedPost = await createVideoPost({ userId: muted.id, text: 'Muted post', visibility: 'PUBLIC' });
+    const hiddenPost = await createVideoPost({ userId: author.id, text: 'Hidden post', visibility: 'PUBLIC' });
+    const keptPost = await createVideoPost({ userId: author.id, text: 'Kept post', visibility: 'PUBLIC' });
+
+    const hideRes = await callFeedRoute('feed.POST./posts/:postId/hide', viewer.id, { postId: String(hiddenPost.id) });
+    assert.strictEqual(hideRes.status, 200);
+    await prisma.feedMute.create({ data: { muterId: viewer.id, mutedId: muted.id } });
+
+    const ctxResult = buildViewerContext(createMockRequest(viewer.id, 20));
+    assert.ok(ctxResult.ok);
+    const candidates = await getCandidates(ctxResult.value);
+    const postIds = candidates.posts.map((post) => String(post.id));
+
+    assert.ok(!postIds.includes(String(hiddenPost.id)), 'Should exclude hidden post');
+    assert.ok(!postIds.includes(String(mutedPost.id)), 'Should exclude post from muted user');
+    assert.ok(postIds.includes(String(keptPost.id)), 'Should keep other posts from the same author');
+    assert.ok(
+      !candidates.suggestions.some((suggestion) => suggestion.userId === muted.id),
+      'Should exclude muted user from suggestions'
+    );
+
+    const unhideRes = await callFeedRoute('feed.DELETE./posts/:postId/hide', viewer.id, { postId: String(hiddenPost.id) });
+    assert.deepStrictEqual(unhideRes.body, { ok: true, removed: true });
+  } finally {
+    await cleanupUsers([viewer.id, muted.id, author.id]);
+  }
+});
+
 test('Feed pagination - cursor uses last post in response order', async () => {
   const user = await prisma.user.create({
     data: {
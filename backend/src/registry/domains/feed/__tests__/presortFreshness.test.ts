@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { presortDueAt } from '../../../../services/feed/presortQueue.js';
+import { summarizeFeedServeStats, type FeedServeStatRow } from '../../../../services/feed/feedServeStats.js';
+
+test('presort rebuilds wait for a quiet period but not past the maximum delay', () => {
+  const first = 1_000_000;
+  assert.strictEqual(presortDueAt(first, first), first + 5_000);
+  assert.strictEqual(presortDueAt(first, first + 4_000), first + 9_000);
+  // A steady stream of events cannot postpone the rebuild indefinitely
+  assert.strictEqual(presortDueAt(first, first + 28_000), first + 30_000);
+  assert.strictEqual(presortDueAt(first, first + 60_000), first + 30_000);
+});
+
+test('serve stats summarize hit rate, live reasons and segment age', () => {
+  const bucketStart = new Date('2026-10-19T10:00:00Z');
+  const rows: FeedServeStatRow[] = [
+    { bucketStart, path: 'PRESORTED', reason: 'hit', requests: 6, segmentAgeMsSum: 60_000n, staleServes: 1 },
+    { bucketStart, path: 'LIVE', reason: 'not_found', requests: 3, segmentAgeMsSum: 0n, staleServes: 0 },
+    { bucketStart, path: 'LIVE', reason: 'expired', requests: 1, segmentAgeMsSum: 0n, staleServes: 0 },
+    { bucketStart: new Date('2026-10-19T11:00:00Z'), path: 'LIVE', reason: 'not_found', requests: 2, segmentAgeMsSum: 0n, staleServes: 0 }
+  ];
+
+  assert.deepStrictEqual(summarizeFeedServeStats(rows), {
+    requests: 12,
+    presorted: 6,
+    live: 6,
+    hitRate: 0.5,
+    liveByReason: { not_found: 5, expired: 1 },
+    avgSegmentAgeMs: 10_000,
+    staleServes: 1
+  });
+
+  const empty = summarizeFeedServeStats([]);
+  assert.strictEqual(empty.hitRate, null);
+  assert.strictEqual(empty.avgSegmentAgeMs, null);
+});
@@ -0,0 +1,170 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { createFeedPresortQueue, type FeedPresortQueueOptions } from '../../../../services/feed/presortQueue.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type Run = { userId: bigint; force: boolean };
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+function recordingQueue(options: Partial<FeedPresortQueueOptions> = {}) {
+  const runs: Run[] = [];
+  const queue = createFeedPresortQueue({
+    debounceMs: 30,
+    maxDelayMs: 200,
+    run: async (userId, force) => {
+      runs.push({ userId, force });
+    },
+    ...options
+  });
+  return { queue, runs };
+}
+
+test('presort queue coalesces repeated events for a user into one debounced rebuild', async () => {
+  const { queue, runs } = recordingQueue();
+
+  queue.enqueue([1n], 'like');
+  await sleep(15);
+  queue.enqueue([1n, 1n], 'post');
+  await sleep(20);
+  // The second event restarted the quiet period
+  assert.strictEqual(runs.length, 0);
+  assert.ok(queue.isPending(1n));
+
+  await sleep(80);
+  assert.deepStrictEqual(runs, [{ userId: 1n, force: true }]);
+  assert.strictEqual(queue.isPending(1n), false);
+
+  const stats = queue.stats();
+  assert.strictEqual(stats.enqueued, 2);
+  assert.strictEqual(stats.coalesced, 1);
+  assert.strictEqual(stats.completed, 1);
+  assert.deepStrictEqual(stats.enqueuedByReason, { like: 1, post: 1 });
+});
+
+test('presort queue keeps the freshness check for live-path fallbacks only', async () => {
+  const { queue, runs } = recordingQueue();
+
+  queue.enqueue([1n], 'fallback');
+  queue.enqueue([2n], 'fallback');
+  queue.enqueue([2n], 'hide');
+  await sleep(100);
+
+  assert.deepStrictEqual(
+    runs.sort((a, b) => Number(a.userId - b.userId)),
+    [
+      { userId: 1n, force: false },
+      { userId: 2n, force: true }
+    ]
+  );
+});
+
+test('presort queue runs one more rebuild for events that land during a running one', async () => {
+  const release = deferred();
+  const runs: bigint[] = [];
+  const queue = createFeedPresortQueue({
+    debounceMs: 20,
+    run: async (userId) => {
+      runs.push(userId);
+      if (runs.length === 1) await release.promise;
+    }
+  });
+
+  queue.enqueue([1n], 'post');
+  await sleep(60);
+  assert.deepStrictEqual(runs, [1n]);
+
+  queue.enqueue([1n], 'like');
+  queue.enqueue([1n], 'block');
+  await sleep(60);
+  // Still waiting for the running rebuild
+  assert.deepStrictEqual(runs, [1n]);
+
+  release.resolve();
+  await sleep(20);
+  assert.deepStrictEqual(runs, [1n, 1n]);
+  assert.strictEqual(queue.stats().completed, 2);
+});
+
+test('presort queue never runs more rebuilds at once than allowed', async () => {
+  let active = 0;
+  let maxActive = 0;
+  const done: bigint[] = [];
+  const queue = createFeedPresortQueue({
+    debounceMs: 10,
+    maxConcurrent: 2,
+    run: async (userId) => {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await sleep(30);
+      active -= 1;
+      done.push(userId);
+    }
+  });
+
+  queue.enqueue([1n, 2n, 3n, 4n, 5n], 'match_scores');
+  await sleep(20);
+  assert.strictEqual(queue.stats().running, 2);
+
+  await sleep(150);
+  assert.strictEqual(maxActive, 2);
+  assert.deepStrictEqual(done.sort(), [1n, 2n, 3n, 4n, 5n]);
+});
+
+test('presort queue hands users beyond its capacity to onDrop and still coalesces queued ones', async () => {
+  const dropped: bigint[][] = [];
+  const { queue, runs } = recordingQueue({
+    maxPendingUsers: 2,
+    onDrop: (userIds) => dropped.push(userIds)
+  });
+
+  queue.enqueue([1n, 2n, 3n, 4n], 'post');
+  queue.enqueue([2n], 'like');
+
+  assert.deepStrictEqual(dropped, [[3n, 4n]]);
+  assert.strictEqual(queue.isPending(3n), false);
+  const stats = queue.stats();
+  assert.strictEqual(stats.pending, 2);
+  assert.strictEqual(stats.dropped, 2);
+  assert.strictEqual(stats.coalesced, 1);
+
+  await sleep(100);
+  assert.deepStrictEqual(runs.map((run) => run.userId).sort(), [1n, 2n]);
+});
+
+test('presort queue counts failed rebuilds and keeps draining', async () => {
+  const runs: bigint[] = [];
+  const queue = createFeedPresortQueue({
+    debounceMs: 10,
+    maxConcurrent: 1,
+    run: async (userId) => {
+      runs.push(userId);
+      if (userId === 1n) throw new Error('boom');
+    }
+  });
+
+  queue.enqueue([1n, 2n], 'preferences');
+  await sleep(80);
+
+  assert.deepStrictEqual(runs, [1n, 2n]);
+  const stats = queue.stats();
+  assert.strictEqual(stats.failed, 1);
+  assert.strictEqual(stats.completed, 1);
+});
+
+test('cancelled presorts do not run', async () => {
+  const { queue, runs } = recordingQueue();
+
+  queue.enqueue([1n, 2n], 'post');
+  queue.cancel([1n]);
+  await sleep(80);
+
+  assert.deepStrictEqual(runs.map((run) => run.userId), [2n]);
+});
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  normalizeAffinityWeights,
+  scorePost,
+  sumContributions,
+  trendingScore,
+  type ViewerAffinity
+} from '../scoring/components.js';
+import { feedConfig } from '../config.js';
+
+const NOW = Date.UTC(2026, 0, 1, 12);
+const CREATOR = 7n;
+const POST = { createdAt: new Date(NOW - 2 * 60 * 60 * 1000), userId: CREATOR };
+
+function affinityWith(explorationFactor: number): ViewerAffinity {
+  return {
+    creators: normalizeAffinityWeights([
+      { key: CREATOR, weight: 0.4 },
+      { key: 8n, weight: 0.2 }
+    ]),
+    topics: normalizeAffinityWeights([
+      { key: 'hiking', weight: 0.5 },
+      { key: 'jazz', weight: 0.25 }
+    ]),
+    explorationFactor
+  };
+}
+
+test('affinity weights are rescaled so the favourite is 1', () => {
+  const creators = affinityWith(0.5).creators;
+  assert.strictEqual(creators.get(CREATOR), 1);
+  assert.strictEqual(creators.get(8n), 0.5);
+});
+
+test('trending velocity saturates at the configured half velocity', () => {
+  assert.strictEqual(trendingScore(null), 0);
+  assert.strictEqual(trendingScore(feedConfig.scoring.posts.trendingHalfVelocity), 0.5);
+  assert.ok(trendingScore(1000) < 1);
+});
+
+test('posts without signals score on recency alone', () => {
+  const breakdown = scorePost(POST, undefined, null, NOW);
+  assert.ok(breakdown.values.recency > 0);
+  assert.strictEqual(breakdown.contributions.creatorAffinity, 0);
+  assert.strictEqual(breakdown.contributions.exploration, 0);
+  assert.strictEqual(breakdown.contributions.engagement, 0);
+  assert.strictEqual(sumContributions(breakdown), breakdown.contributions.recency);
+});
+
+test('creator, topic, quality and trending signals each contribute', () => {
+  const signals = { quality: 0.8, topics: ['jazz', 'cooking'], trendingVelocity: 2, engagement: 0.4 };
+  const breakdown = scorePost(POST, signals, affinityWith(0), NOW);
+  const { weights, posts } = feedConfig.scoring;
+
+  assert.strictEqual(breakdown.contributions.creatorAffinity, weights.affinity * posts.creatorShare);
+  assert.strictEqual(breakdown.values.topicAffinity, 0.5);
+  assert.strictEqual(breakdown.contributions.quality, 0.8 * weights.quality);
+  assert.strictEqual(breakdown.contributions.trending, 0.5 * weights.trending);
+  assert.strictEqual(breakdown.contributions.engagement, 0.4 * weights.engagement);
+  assert.strictEqual(breakdown.values.exploration, 0);
+});
+
+test('explorationFactor trades affinity weight for unfamiliar posts', () => {
+  const familiarFocused = scorePost(POST, undefined, affinityWith(0), NOW);
+  const familiarExploring = scorePost(POST, undefined, affinityWith(1), NOW);
+  assert.ok(familiarExploring.contributions.creatorAffinity < familiarFocused.contributions.creatorAffinity);
+
+  const stranger = { ...POST, userId: 99n };
+  assert.strictEqual(scorePost(stranger, undefined, affinityWith(0), NOW).contributions.exploration, 0);
+  assert.strictEqual(
+    scorePost(stranger, undefined, affinityWith(1), NOW).contributions.exploration,
+    feedConfig.scoring.weights.exploration
+  );
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  assignFeedVariant,
+  feedAlgorithmVersion,
+  feedBucket,
+  getFeedVariantConfig,
+  parseFeedAllocations,
+  pickFeedVariant
+} from '../variants.js';
+import { FEED_CONFIG_VERSION, feedConfig } from '../config.js';
+
+const USERS = Array.from({ length: 2000 }, (_, i) => BigInt(i + 1));
+
+test('buckets are deterministic per experiment and roughly uniform', () => {
+  assert.strictEqual(feedBucket('seq-test', 42n), feedBucket('seq-test', 42n));
+
+  const experiment = { id: 1n, name: 'seq-test', allocations: [{ variant: 'control', percent: 50 }, { variant: 'posts-first', percent: 50 }] };
+  const postsFirst = USERS.filter((userId) => assignFeedVariant(experiment, userId)?.variant === 'posts-first').length;
+  assert.ok(postsFirst > 900 && postsFirst < 1100, `expected ~1000 users in posts-first, got ${postsFirst}`);
+
+  const reshuffled = USERS.filter((userId) => feedBucket('seq-test', userId) !== feedBucket('other-test', userId));
+  assert.ok(reshuffled.length > USERS.length * 0.9);
+});
+
+test('users past the allocated percent are not enrolled', () => {
+  const allocations = [{ variant: 'control', percent: 5 }, { variant: 'affinity-heavy', percent: 5 }];
+  assert.strictEqual(pickFeedVariant(allocations, 0), 'control');
+  assert.strictEqual(pickFeedVariant(allocations, 499), 'control');
+  assert.strictEqual(pickFeedVariant(allocations, 500), 'affinity-heavy');
+  assert.strictEqual(pickFeedVariant(allocations, 1000), null);
+});
+
+test('ramping up the last allocation keeps existing assignments', () => {
+  const before = [{ variant: 'control', percent: 10 }, { variant: 'posts-first', percent: 10 }];
+  const after = [{ variant: 'control', percent: 10 }, { variant: 'posts-first', percent: 40 }];
+  for (const userId of USERS) {
+    const bucket = feedBucket('ramp', userId);
+    const previous = pickFeedVariant(before, bucket);
+    if (previous) assert.strictEqual(pickFeedVariant(after, bucket), previous);
+  }
+});
+
+test('variant configs override only what they define', () => {
+  const config = getFeedVariantConfig('affinity-heavy');
+  assert.strictEqual(config.scoring.weights.affinity, 0.35);
+  assert.strictEqual(config.scoring.weights.quality, feedConfig.scoring.weights.quality);
+  assert.strictEqual(config.sequence, feedConfig.sequence);
+  assert.strictEqual(getFeedVariantConfig('posts-first').caps.maxPerActor, feedConfig.caps.maxPerActor);
+
+  const assignment = assignFeedVariant({ id: 3n, name: 'seq-test', allocations: [{ variant: 'control', percent: 100 }] }, 7n);
+  assert.strictEqual(feedAlgorithmVersion(assignment), `${FEED_CONFIG_VERSION}:seq-test:control`);
+  assert.strictEqual(feedAlgorithmVersion(null), FEED_CONFIG_VERSION);
+});
+
+test('allocations must name known variants and fit in 100 percent', () => {
+  assert.deepStrictEqual(parseFeedAllocations([{ variant: 'control', percent: 33.333 }]), {
+    ok: true,
+    value: [{ variant: 'control', percent: 33.33 }]
+  });
+  assert.strictEqual(parseFeedAllocations([]).ok, false);
+  assert.strictEqual(parseFeedAllocations([{ variant: 'nope', percent: 10 }]).ok, false);
+  assert.strictEqual(parseFeedAllocations([{ variant: 'control', percent: 0 }]).ok, false);
+  assert.strictEqual(
+    parseFeedAllocations([{ variant: 'control', percent: 10 }, { variant: 'control', percent: 10 }]).ok,
+    false
+  );
+  assert.strictEqual(
+    parseFeedAllocations([{ variant: 'control', percent: 60 }, { variant: 'posts-first', percent: 40.01 }]).ok,
+    false
+  );
+});
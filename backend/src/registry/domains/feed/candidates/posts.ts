@@ -1,6 +1,8 @@
 import { prisma } from '../../../../lib/prisma/client.js';
 import type { FeedPostCandidate, FeedPostResult, ViewerContext } from '../types.js';
 import { feedCandidateCaps } from './caps.js';
+import { notBlockedWith } from '../../../../services/safety/blockFilter.js';
+import { notHiddenBy, notMutedBy } from '../../../../services/feed/feedExclusions.js';
 
 type CursorCutoff = {
   id: bigint;
@@ -84,10 +86,8 @@ export async function getRelationshipPostCandidates(
     return { self: [], following: [], followers: [] };
   }
 
-  const blockFilter = {
-    blocksGot: { none: { blockerId: ctx.userId } },
-    blocksMade: { none: { blockedId: ctx.userId } }
-  };
+  const blockFilter = notBlockedWith(ctx.userId);
+  const muteFilter = notMutedBy(ctx.userId);
 
   const lookbackDays = feedCandidateCaps.posts.maxLookbackDays;
   const createdAtCutoff =
@@ -96,6 +96,7 @@ export async function getRelationshipPostCandidates(
 
   const baseWhere = {
     deletedAt: null,
+    ...notHiddenBy(ctx.userId),
     ...(createdAtCutoff ? { createdAt: { gte: createdAtCutoff } } : {}),
     ...cursorFilter
   };
@@ -119,7 +120,7 @@ export async function getRelationshipPostCandidates(
             ...baseWhere,
             userId: { in: followingIds },
             visibility: { in: ['PUBLIC', 'PRIVATE'] },
-            user: { deletedAt: null, ...blockFilter }
+            user: { deletedAt: null, suspendedAt: null, ...blockFilter, ...muteFilter }
           },
           orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
           take: feedCandidateCaps.posts.followingMaxItems,
@@ -132,7 +133,7 @@ export async function getRelationshipPostCandidates(
             ...baseWhere,
             userId: { in: followerIds },
             visibility: 'PUBLIC',
-            user: { deletedAt: null, ...blockFilter }
+            user: { deletedAt: null, suspendedAt: null, ...blockFilter, ...muteFilter }
           },
           orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
           take: feedCandidateCaps.posts.followersMaxItems,
@@ -149,13 +150,9 @@ export async function getRelationshipPostCandidates(
 }
 
 export async function getPostCandidates(ctx: ViewerContext): Promise<FeedPostResult> {
-  // Build block filter if user is authenticated
-  const blockFilter = ctx.userId
-    ? {
-        blocksGot: { none: { blockerId: ctx.userId } },
-        blocksMade: { none: { blockedId: ctx.userId } }
-      }
-    : {};
+  // Block, mute and hidden-post filters are empty for anonymous viewers
+  const blockFilter = notBlockedWith(ctx.userId);
+  const muteFilter = notMutedBy(ctx.userId);
 
   const candidateLimit = Math.max(ctx.take, feedCandidateCaps.posts.maxItems);
   const lookbackDays = feedCandidateCaps.posts.maxLookbackDays;
@@ -166,7 +163,8 @@ export async function getPostCandidates(ctx: ViewerContext): Promise<FeedPostRes
     where: {
       deletedAt: null,
       visibility: 'PUBLIC',
-      user: { deletedAt: null, ...blockFilter },
+      ...notHiddenBy(ctx.userId),
+      user: { deletedAt: null, suspendedAt: null, ...blockFilter, ...muteFilter },
       ...(createdAtCutoff ? { createdAt: { gte: createdAtCutoff } } : {})
     },
     orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
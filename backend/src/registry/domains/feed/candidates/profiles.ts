@@ -1,6 +1,8 @@
 import { prisma } from '../../../../lib/prisma/client.js';
 import type { FeedSuggestionCandidate, ViewerContext } from '../types.js';
 import { feedCandidateCaps } from './caps.js';
+import { notBlockedWith } from '../../../../services/safety/blockFilter.js';
+import { notMutedBy } from '../../../../services/feed/feedExclusions.js';
 
 function mulberry32(seed: number) {
   return function () {
@@ -53,8 +55,9 @@ export async function getProfileSuggestions(ctx: ViewerContext): Promise<FeedSug
           userId: { in: matchUserIds },
           user: {
             deletedAt: null,
-            blocksGot: { none: { blockerId: me } },
-            blocksMade: { none: { blockedId: me } }
+            suspendedAt: null,
+            ...notBlockedWith(me),
+            ...notMutedBy(me)
           }
         },
         select: {
@@ -110,8 +113,9 @@ export async function getProfileSuggestions(ctx: ViewerContext): Promise<FeedSug
         userId: { in: candidateIds, not: me },
         user: {
           deletedAt: null,
-          blocksGot: { none: { blockerId: me } },
-          blocksMade: { none: { blockedId: me } }
+          suspendedAt: null,
+          ...notBlockedWith(me),
+          ...notMutedBy(me)
         }
       },
       select: {
@@ -151,8 +155,9 @@ export async function getProfileSuggestions(ctx: ViewerContext): Promise<FeedSug
       },
       user: {
         deletedAt: null,
-        blocksGot: { none: { blockerId: me } },
-        blocksMade: { none: { blockedId: me } }
+        suspendedAt: null,
+        ...notBlockedWith(me),
+        ...notMutedBy(me)
       }
     },
     take: remainingLimit,
@@ -69,13 +69,26 @@ export type FeedConfig = {
   seenWindowHours: number;
   scoring: {
     weights: {
-      // Recency is the main post signal until jobs are live.
       recency: number;
+      // Posts: creator + topic affinity (UserAffinityProfile). Suggestions: match score.
       affinity: number;
+      // PostFeatures.quality.
       quality: number;
+      // TrendingScore.velocity.
+      trending: number;
+      // PostEngagement.engagementScore (dwell, watch-through, opens, hides).
+      engagement: number;
+      // Bonus for posts outside the viewer's known creators/topics, scaled by explorationFactor.
+      exploration: number;
       // Seen penalty is a soft demotion, not exclusion.
       seenPenalty: number;
     };
+    posts: {
+      // Share of the affinity weight given to creator (vs topic) affinity.
+      creatorShare: number;
+      // Likes per hour at which the trending component reaches 0.5.
+      trendingHalfVelocity: number;
+    };
   };
 };
 
@@ -101,14 +114,21 @@ export const feedConfig = {
   seenWindowHours: 24,
   scoring: {
     weights: {
-      recency: 0.6,
-      affinity: 0.3,
+      recency: 0.4,
+      affinity: 0.25,
       quality: 0.1,
+      trending: 0.1,
+      engagement: 0.1,
+      exploration: 0.05,
       seenPenalty: 0.2
+    },
+    posts: {
+      creatorShare: 0.6,
+      trendingHalfVelocity: 2
     }
   }
 } as const satisfies FeedConfig;
 
 // Bump this version whenever you modify the sequence or weights
 // to ensure the presort job invalidates its cache.
-export const FEED_CONFIG_VERSION = 'v9';
+export const FEED_CONFIG_VERSION = 'v11';
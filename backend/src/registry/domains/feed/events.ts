@@ -0,0 +1,103 @@
+import type { FeedEngagementEventType, FeedItemType } from '@prisma/client';
+import { parsePositiveBigInt, type ParseResult } from '../../../lib/http/parse.js';
+
+// Typed client feedback accepted by POST /api/feed/events.
+// Parsing is per event: one malformed event is counted as rejected and the rest
+// of the batch is still stored.
+
+export const MAX_EVENTS_PER_REQUEST = 100;
+// A dwell longer than this is a tab left open, not attention
+export const MAX_DWELL_MS = 10 * 60 * 1000;
+// Clients batch and retry, but anything older than this is dropped
+const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const EVENT_TYPES: Record<string, FeedEngagementEventType> = {
+  dwell: 'DWELL',
+  watch: 'WATCH',
+  profile_open: 'PROFILE_OPEN',
+  comment_open: 'COMMENT_OPEN',
+  hide: 'HIDE',
+  not_interested: 'NOT_INTERESTED'
+};
+
+const ITEM_TYPES: Record<string, FeedItemType> = {
+  post: 'POST',
+  suggestion: 'SUGGESTION'
+};
+
+// Only posts have comments and videos
+const POST_ONLY_TYPES = new Set<FeedEngagementEventType>(['WATCH', 'COMMENT_OPEN']);
+
+export type FeedEngagementEventInput = {
+  type: FeedEngagementEventType;
+  itemType: FeedItemType;
+  itemId: bigint;
+  dwellMs: number | null;
+  watchPct: number | null;
+  occurredAt: Date;
+};
+
+export type ParsedFeedEngagementBatch = {
+  events: FeedEngagementEventInput[];
+  rejected: number;
+};
+
+function parseOccurredAt(value: unknown, now: number): Date | null {
+  if (value === undefined || value === null) return new Date(now);
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  const time = date.getTime();
+  if (Number.isNaN(time) || time > now + MAX_CLOCK_SKEW_MS || time < now - MAX_EVENT_AGE_MS) return null;
+  return date;
+}
+
+export function parseFeedEngagementEvent(value: unknown, now = Date.now()): FeedEngagementEventInput | null {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+
+  const type = typeof record.type === 'string' ? EVENT_TYPES[record.type] : undefined;
+  const itemType = typeof record.itemType === 'string' ? ITEM_TYPES[record.itemType] : undefined;
+  if (!type || !itemType) return null;
+  if (itemType !== 'POST' && POST_ONLY_TYPES.has(type)) return null;
+
+  const itemId = parsePositiveBigInt(record.itemId, 'itemId');
+  if (!itemId.ok) return null;
+  const occurredAt = parseOccurredAt(record.occurredAt, now);
+  if (!occurredAt) return null;
+
+  let dwellMs: number | null = null;
+  let watchPct: number | null = null;
+  if (type === 'DWELL') {
+    if (typeof record.dwellMs !== 'number' || !Number.isFinite(record.dwellMs) || record.dwellMs < 0) return null;
+    dwellMs = Math.min(MAX_DWELL_MS, Math.round(record.dwellMs));
+  }
+  if (type === 'WATCH') {
+    if (typeof record.watchPct !== 'number' || !Number.isFinite(record.watchPct)) return null;
+    if (record.watchPct < 0 || record.watchPct > 100) return null;
+    watchPct = Math.round(record.watchPct * 10) / 10;
+  }
+
+  return { type, itemType, itemId: itemId.value, dwellMs, watchPct, occurredAt };
+}
+
+/**
+ * Body: { events: [{ type, itemType, itemId, dwellMs?, watchPct?, occurredAt? }] }
+ * Fails only when the envelope is wrong; invalid events are counted in `rejected`.
+ */
+export function parseFeedEngagementBatch(body: unknown, now = Date.now()): ParseResult<ParsedFeedEngagementBatch> {
+  const events = body && typeof body === 'object' ? (body as Record<string, unknown>).events : undefined;
+  if (!Array.isArray(events)) {
+    return { ok: false, error: 'events must be an array' };
+  }
+  if (events.length > MAX_EVENTS_PER_REQUEST) {
+    return { ok: false, error: `At most ${MAX_EVENTS_PER_REQUEST} events per request` };
+  }
+
+  const parsed: FeedEngagementEventInput[] = [];
+  for (const event of events) {
+    const result = parseFeedEngagementEvent(event, now);
+    if (result) parsed.push(result);
+  }
+  return { ok: true, value: { events: parsed, rejected: events.length - parsed.length } };
+}
@@ -1,6 +1,7 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../../../../lib/prisma/client.js';
 import { toPublicMedia } from '../../../../services/media/presenter.js';
+import { READY_MEDIA_STATUSES } from '../../../../services/media/status.js';
 import type { FeedPostCandidate, FeedSuggestionCandidate } from '../types.js';
 
 const SUGGESTION_MEDIA_LIMIT = 6;
@@ -15,7 +16,7 @@ export async function buildPostMedia(posts: FeedPostCandidate[]) {
     where: {
       postId: { in: postIds },
       post: { deletedAt: null, visibility: 'PUBLIC' },
-      media: { deletedAt: null, visibility: 'PUBLIC', status: 'READY' }
+      media: { deletedAt: null, visibility: 'PUBLIC', status: { in: READY_MEDIA_STATUSES } }
     },
     select: {
       postId: true,
@@ -77,7 +78,7 @@ export async function buildSuggestionMedia(suggestions: FeedSuggestionCandidate[
       WHERE \`ownerUserId\` IN (${Prisma.join(userIds)})
         AND \`deletedAt\` IS NULL
         AND \`visibility\` = 'PUBLIC'
-        AND \`status\` = 'READY'
+        AND \`status\` IN ('READY', 'READY_WITH_VARIANTS')
     ) ranked
     WHERE \`rn\` <= ${SUGGESTION_MEDIA_LIMIT}
     ORDER BY \`ownerUserId\` ASC, \`rn\` ASC
@@ -62,7 +62,8 @@ async function convertPresortedToFeedItems(
   const [posts, suggestions, questions] = await Promise.all([
     postIds.length > 0
       ? prisma.post.findMany({
-          where: { id: { in: postIds } },
+          // Segments are built ahead of time; authors removed or suspended since then drop out here
+          where: { id: { in: postIds }, user: { deletedAt: null, suspendedAt: null } },
           select: {
             id: true,
             text: true,
@@ -82,7 +83,7 @@ async function convertPresortedToFeedItems(
       : Promise.resolve([]),
     suggestionIds.length > 0
       ? prisma.profile.findMany({
-          where: { userId: { in: suggestionIds } },
+          where: { userId: { in: suggestionIds }, user: { deletedAt: null, suspendedAt: null } },
           select: {
             userId: true,
             displayName: true,
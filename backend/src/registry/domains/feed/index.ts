@@ -9,8 +9,14 @@ import { buildViewerContext } from './context.js';
 import { getFeed } from './services/feedService.js';
 import { buildFullResponse, buildLiteResponse, buildCachedLiteResponse } from './services/responseBuilder.js';
 import { validatePresortedSegment } from './validation.js';
-import { getPresortedSegment } from '../../../services/feed/presortedFeedService.js';
-import { invalidateUserAndFollowerFeeds } from '../../../services/feed/relationshipService.js';
+import { feedAlgorithmVersion } from './variants.js';
+import { parseFeedEngagementBatch } from './events.js';
+import { getPresortedSegment, invalidateAllSegmentsForUser } from '../../../services/feed/presortedFeedService.js';
+import { refreshAudienceFeeds } from '../../../services/feed/relationshipService.js';
+import { resolveFeedVariant, trackFeedExperimentEvent } from '../../../services/feed/feedExperimentService.js';
+import { enqueueFeedEngagementEvents } from '../../../services/feed/feedEngagementService.js';
+import { enqueueFeedPresort } from '../../../services/feed/presortQueue.js';
+import { createNotification } from '../../../services/notifications/notificationService.js';
 
 export const feedDomain: DomainRegistry = {
   domain: 'feed',
@@ -26,7 +32,10 @@ export const feedDomain: DomainRegistry = {
         const contextParsed = buildViewerContext(req);
         if (!contextParsed.ok) return json(res, { error: contextParsed.error }, 400);
 
-        const ctx = contextParsed.value;
+        const ctx = {
+          ...contextParsed.value,
+          variant: await resolveFeedVariant(contextParsed.value.userId)
+        };
         const isLite = req.query.lite === '1';
         const limit = isLite ? 2 : ctx.take;
 
@@ -43,6 +52,11 @@ export const feedDomain: DomainRegistry = {
           return json(res, { error: 'Invalid cursor' }, 400);
         }
 
+        // A first-page load opens a session for the experiment report
+        if (ctx.userId && !ctx.cursorId) {
+          trackFeedExperimentEvent(ctx.userId, 'SESSION');
+        }
+
         // Special case: Cached lite mode for presorted feeds with no relationship items
         const canUseCachedLite = Boolean(
           isLite &&
@@ -52,7 +66,7 @@ export const feedDomain: DomainRegistry = {
 
         if (canUseCachedLite && ctx.userId) {
           const segment = await getPresortedSegment(ctx.userId, 0);
-          const validation = validatePresortedSegment(segment);
+          const validation = validatePresortedSegment(segment, feedAlgorithmVersion(ctx.variant));
 
           // Critical fix: Check version BEFORE trying to use segment
           if (!validation.valid && validation.reason === 'version_mismatch' && segment) {
@@ -80,6 +94,30 @@ export const feedDomain: DomainRegistry = {
         return json(res, response);
       }
     },
+    {
+      id: 'feed.POST./feed/events',
+      method: 'POST',
+      path: '/feed/events',
+      auth: Auth.user(),
+      summary: 'Record feed engagement events (dwell, watch, opens, hide, not interested)',
+      tags: ['feed'],
+      handler: async (req, res) => {
+        const userId = req.ctx.userId!;
+        const parsed = parseFeedEngagementBatch(req.body);
+        if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+
+        const { events, rejected } = parsed.value;
+        let accepted = 0;
+        if (events.length) {
+          const variant = await resolveFeedVariant(userId);
+          accepted = enqueueFeedEngagementEvents(userId, events, variant?.variant ?? null);
+        }
+
+        // Accepted events are buffered and written in batches, not before this responds;
+        // repeats of an event already recorded for the same item are counted as duplicates
+        return json(res, { accepted, rejected, duplicates: events.length - accepted }, 202);
+      }
+    },
     {
       id: 'feed.POST./posts',
       method: 'POST',
@@ -208,12 +246,12 @@ export const feedDomain: DomainRegistry = {
           return created;
         });
 
-        // Invalidate feed cache for user and all followers (batched to prevent N+1)
+        // Refresh presorted feeds of the author, followers and matches (non-blocking)
         void (async () => {
           try {
-            await invalidateUserAndFollowerFeeds(userId);
+            await refreshAudienceFeeds(userId);
           } catch (err) {
-            console.error('Failed to invalidate presorted feed segments:', err);
+            console.error('Failed to refresh presorted feeds after post:', err);
           }
         })();
 
@@ -370,6 +408,62 @@ export const feedDomain: DomainRegistry = {
         return json(res, { ok: true });
       }
     },
+    {
+      id: 'feed.POST./posts/:postId/hide',
+      method: 'POST',
+      path: '/posts/:postId/hide',
+      auth: Auth.user(),
+      summary: 'Hide post from own feed',
+      tags: ['feed'],
+      handler: async (req, res) => {
+        const userId = req.ctx.userId!;
+        const postParsed = parsePositiveBigInt(req.params.postId, 'postId');
+        if (!postParsed.ok) return json(res, { error: postParsed.error }, 400);
+        const postId = postParsed.value;
+
+        const post = await prisma.post.findFirst({
+          where: { id: postId, deletedAt: null },
+          select: { id: true }
+        });
+        if (!post) return json(res, { error: 'Post not found' }, 404);
+
+        await prisma.feedHiddenPost.upsert({
+          where: { userId_postId: { userId, postId } },
+          update: {},
+          create: { userId, postId }
+        });
+
+        // Presorted segments may still hold the post; drop them now and rebuild shortly
+        await invalidateAllSegmentsForUser(userId);
+        enqueueFeedPresort([userId], 'hide');
+
+        return json(res, { ok: true });
+      }
+    },
+    {
+      id: 'feed.DELETE./posts/:postId/hide',
+      method: 'DELETE',
+      path: '/posts/:postId/hide',
+      auth: Auth.user(),
+      summary: 'Unhide post',
+      tags: ['feed'],
+      handler: async (req, res) => {
+        const userId = req.ctx.userId!;
+        const postParsed = parsePositiveBigInt(req.params.postId, 'postId');
+        if (!postParsed.ok) return json(res, { error: postParsed.error }, 400);
+        const postId = postParsed.value;
+
+        const { count } = await prisma.feedHiddenPost.deleteMany({
+          where: { userId, postId }
+        });
+        if (count > 0) {
+          await invalidateAllSegmentsForUser(userId);
+          enqueueFeedPresort([userId], 'hide');
+        }
+
+        return json(res, { ok: true, removed: count > 0 });
+      }
+    },
     {
       id: 'feed.POST./posts/:postId/save',
       method: 'POST',
@@ -384,15 +478,16 @@ export const feedDomain: DomainRegistry = {
         const postId = postParsed.value;
 
         const now = new Date();
-        await prisma.$transaction(async (tx) => {
+        const created = await prisma.$transaction(async (tx) => {
           const existing = await tx.likedPost.findUnique({
             where: { userId_postId: { userId, postId } },
             select: { id: true }
           });
 
           if (!existing) {
-            await tx.likedPost.create({
-              data: { userId, postId }
+            const like = await tx.likedPost.create({
+              data: { userId, postId },
+              select: { id: true, post: { select: { userId: true } } }
             });
 
             await tx.postStats.upsert({
@@ -407,9 +502,23 @@ export const feedDomain: DomainRegistry = {
                 lastLikeAt: now
               }
             });
+            return like;
           }
+          return null;
         });
 
+        if (created) {
+          trackFeedExperimentEvent(userId, 'LIKE', postId);
+          enqueueFeedPresort([userId], 'like');
+          await createNotification({
+            userId: created.post.userId,
+            type: 'POST_LIKE',
+            actorId: userId,
+            entityId: postId,
+            data: { postId: String(postId) }
+          });
+        }
+
         return json(res, { ok: true });
       }
     }
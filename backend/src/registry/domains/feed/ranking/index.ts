@@ -1,4 +1,5 @@
-import { feedConfig, type FeedSlot } from '../config.js';
+import type { FeedSlot } from '../config.js';
+import { feedConfigFor } from '../variants.js';
 import type { FeedCandidateSet, FeedGridChildItem, FeedItem, FeedItemOrGrid, ViewerContext } from '../types.js';
 
 type PostMediaType = Extract<FeedSlot, { kind: 'post' }>['mediaType'];
@@ -44,7 +45,8 @@ function expandSequence(sequence: readonly FeedSlot[]) {
 export function mergeAndRank(_ctx: ViewerContext, candidates: FeedCandidateSet): FeedItemOrGrid[] {
   const items: FeedItemOrGrid[] = [];
   const seed = Number.isFinite(_ctx.seed ?? NaN) ? Math.floor(_ctx.seed ?? 0) : null;
-  const maxItems = Math.min(_ctx.take, feedConfig.caps.maxItemsPerResponse);
+  const config = feedConfigFor(_ctx);
+  const maxItems = Math.min(_ctx.take, config.caps.maxItemsPerResponse);
   
   // Convert candidates to unified FeedItem format
   const postItems: FeedItem[] = candidates.posts.map((post) => ({
@@ -129,7 +131,7 @@ export function mergeAndRank(_ctx: ViewerContext, candidates: FeedCandidateSet):
       index += 1;
       if (usedPostIds.has(item.post!.id)) continue;
       const actorCount = actorCounts.get(item.actorId) ?? 0;
-      if (actorCount >= feedConfig.caps.maxPerActor) continue;
+      if (actorCount >= config.caps.maxPerActor) continue;
       usedPostIds.add(item.post!.id);
       postIndices.set(key, index);
       return item;
@@ -160,7 +162,7 @@ export function mergeAndRank(_ctx: ViewerContext, candidates: FeedCandidateSet):
       index += 1;
       if (usedSuggestionIds.has(item.actorId)) continue;
       const actorCount = actorCounts.get(item.actorId) ?? 0;
-      if (actorCount >= feedConfig.caps.maxPerActor) continue;
+      if (actorCount >= config.caps.maxPerActor) continue;
       usedSuggestionIds.add(item.actorId);
       suggestionIndices.set(key, index);
       return item;
@@ -183,9 +185,9 @@ export function mergeAndRank(_ctx: ViewerContext, candidates: FeedCandidateSet):
     return null;
   };
 
-  const sequence = expandSequence(feedConfig.sequence);
+  const sequence = expandSequence(config.sequence);
 
-  const mosaicSlots = feedConfig.sequence.filter((slot) => isPostSlot(slot) && slot.presentation === 'mosaic');
+  const mosaicSlots = config.sequence.filter((slot) => isPostSlot(slot) && slot.presentation === 'mosaic');
   if (mosaicSlots.length > 0) {
     const missingMosaicSlots: Array<{
       kind: FeedSlot['kind'];
@@ -295,7 +297,7 @@ export function mergeAndRank(_ctx: ViewerContext, candidates: FeedCandidateSet):
         index += 1;
         if (usedPostIds.has(item.post!.id) || localSelectedPostIds.has(item.post!.id)) continue;
         const actorCount = localActorCounts.get(item.actorId) ?? 0;
-        if (actorCount >= feedConfig.caps.maxPerActor) continue;
+        if (actorCount >= config.caps.maxPerActor) continue;
         localPostIndices.set(key, index);
         return item;
       }
@@ -325,7 +327,7 @@ export function mergeAndRank(_ctx: ViewerContext, candidates: FeedCandidateSet):
         index += 1;
         if (usedSuggestionIds.has(item.actorId) || localSelectedSuggestionIds.has(item.actorId)) continue;
         const actorCount = localActorCounts.get(item.actorId) ?? 0;
-        if (actorCount >= feedConfig.caps.maxPerActor) continue;
+        if (actorCount >= config.caps.maxPerActor) continue;
         localSuggestionIndices.set(key, index);
         return item;
       }
@@ -502,7 +504,7 @@ export function mergeAndRank(_ctx: ViewerContext, candidates: FeedCandidateSet):
       if (postIndex < filteredPostItems.length) {
         const postItem = filteredPostItems[postIndex];
         const actorCount = actorCounts.get(postItem.actorId) ?? 0;
-        if (actorCount < feedConfig.caps.maxPerActor) {
+        if (actorCount < config.caps.maxPerActor) {
           chosen = postItem;
         }
       }
@@ -510,7 +512,7 @@ export function mergeAndRank(_ctx: ViewerContext, candidates: FeedCandidateSet):
       if (!chosen && suggestionIndex < suggestionItems.length) {
         const suggestionItem = suggestionItems[suggestionIndex];
         const actorCount = actorCounts.get(suggestionItem.actorId) ?? 0;
-        if (actorCount < feedConfig.caps.maxPerActor) {
+        if (actorCount < config.caps.maxPerActor) {
           chosen = suggestionItem;
         }
       }
@@ -0,0 +1,145 @@
+import { feedConfig, type FeedConfig } from '../config.js';
+
+// Pure post-scoring math shared by request-time scoring and the presort job.
+// Signals are loaded in batch by signals.ts; everything here is synchronous.
+
+export type PostScoreComponent =
+  | 'recency'
+  | 'creatorAffinity'
+  | 'topicAffinity'
+  | 'quality'
+  | 'trending'
+  | 'engagement'
+  | 'exploration';
+
+export const POST_SCORE_COMPONENTS: PostScoreComponent[] = [
+  'recency',
+  'creatorAffinity',
+  'topicAffinity',
+  'quality',
+  'trending',
+  'engagement',
+  'exploration'
+];
+
+export type ViewerAffinity = {
+  // Creator/topic weights rescaled so the viewer's favourite is 1
+  creators: Map<bigint, number>;
+  topics: Map<string, number>;
+  explorationFactor: number;
+};
+
+export type PostSignals = {
+  quality: number | null;
+  topics: string[];
+  trendingVelocity: number | null;
+  // PostEngagement.engagementScore, already in [0, 1]
+  engagement: number | null;
+};
+
+export type PostScoreBreakdown = {
+  // Raw component values in [0, 1]
+  values: Record<PostScoreComponent, number>;
+  // value × effective weight; their sum (minus any seen penalty) is the score
+  contributions: Record<PostScoreComponent, number>;
+};
+
+export type ScoreWeights = FeedConfig['scoring']['weights'];
+
+const WEIGHTS: ScoreWeights = feedConfig.scoring.weights;
+const { creatorShare, trendingHalfVelocity } = feedConfig.scoring.posts;
+
+export function clampScore(value: number) {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+export function recencyScore(createdAt: Date, now = Date.now()) {
+  const hours = Math.max(0, (now - createdAt.getTime()) / (1000 * 60 * 60));
+  // 1 / log(2 + hours) keeps score in (0,1] without infinity at t=0.
+  const score = 1 / Math.log(2 + hours);
+  return clampScore(score);
+}
+
+/**
+ * Likes per hour mapped onto [0, 1); `trendingHalfVelocity` likes/hour scores 0.5
+ */
+export function trendingScore(velocity: number | null) {
+  if (!velocity || velocity <= 0) return 0;
+  return clampScore(velocity / (velocity + trendingHalfVelocity));
+}
+
+/**
+ * Rescale `[{ key, weight }]` entries from the affinity job so the top entry is 1
+ */
+export function normalizeAffinityWeights<K>(entries: Array<{ key: K; weight: number }>) {
+  const max = entries.reduce((best, entry) => Math.max(best, entry.weight), 0);
+  const normalized = new Map<K, number>();
+  if (max <= 0) return normalized;
+  for (const entry of entries) {
+    if (entry.weight > 0) normalized.set(entry.key, clampScore(entry.weight / max));
+  }
+  return normalized;
+}
+
+/**
+ * Best match between the post's topics and the viewer's top topics
+ */
+function topicAffinityScore(topics: string[], affinity: ViewerAffinity) {
+  let best = 0;
+  for (const topic of topics) {
+    best = Math.max(best, affinity.topics.get(topic) ?? 0);
+  }
+  return best;
+}
+
+/**
+ * Score components for one post.
+ * Affinity is split between creator and topic by `creatorShare`. `explorationFactor`
+ * comes from the viewer's affinity profile: exploring viewers get less of the
+ * affinity weight and a bonus for posts outside their known creators and topics.
+ * `weights` defaults to the shipped config; pass the viewer's variant weights in experiments.
+ */
+export function scorePost(
+  post: { createdAt: Date; userId: bigint },
+  signals: PostSignals | undefined,
+  affinity: ViewerAffinity | null,
+  now = Date.now(),
+  weights: ScoreWeights = WEIGHTS
+): PostScoreBreakdown {
+  const creatorAffinity = affinity?.creators.get(post.userId) ?? 0;
+  const topicAffinity = affinity ? topicAffinityScore(signals?.topics ?? [], affinity) : 0;
+  const familiar = creatorAffinity > 0 || topicAffinity > 0;
+
+  const values: Record<PostScoreComponent, number> = {
+    recency: recencyScore(post.createdAt, now),
+    creatorAffinity,
+    topicAffinity,
+    quality: clampScore(signals?.quality ?? 0),
+    trending: trendingScore(signals?.trendingVelocity ?? null),
+    engagement: clampScore(signals?.engagement ?? 0),
+    exploration: affinity && !familiar ? 1 : 0
+  };
+
+  const explorationFactor = affinity ? clampScore(affinity.explorationFactor) : 0;
+  const affinityWeight = weights.affinity * (1 - explorationFactor / 2);
+  const effectiveWeights: Record<PostScoreComponent, number> = {
+    recency: weights.recency,
+    creatorAffinity: affinityWeight * creatorShare,
+    topicAffinity: affinityWeight * (1 - creatorShare),
+    quality: weights.quality,
+    trending: weights.trending,
+    engagement: weights.engagement,
+    exploration: weights.exploration * explorationFactor
+  };
+
+  const contributions = {} as Record<PostScoreComponent, number>;
+  for (const component of POST_SCORE_COMPONENTS) {
+    contributions[component] = values[component] * effectiveWeights[component];
+  }
+  return { values, contributions };
+}
+
+export function sumContributions(breakdown: PostScoreBreakdown) {
+  return POST_SCORE_COMPONENTS.reduce((sum, component) => sum + breakdown.contributions[component], 0);
+}
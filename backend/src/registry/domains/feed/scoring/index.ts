@@ -1,21 +1,17 @@
 import { feedConfig } from '../config.js';
 import { prisma } from '../../../../lib/prisma/client.js';
 import { fetchFeedSeen } from '../../../../services/feed/feedSeenService.js';
-import type { FeedCandidateSet, FeedDebugSummary, ViewerContext } from '../types.js';
-
-const SCORE_WEIGHTS = feedConfig.scoring.weights;
-
-function clampScore(value: number) {
-  if (!Number.isFinite(value)) return 0;
-  return Math.max(0, Math.min(1, value));
-}
-
-function recencyScore(createdAt: Date) {
-  const hours = Math.max(0, (Date.now() - createdAt.getTime()) / (1000 * 60 * 60));
-  // 1 / log(2 + hours) keeps score in (0,1] without infinity at t=0.
-  const score = 1 / Math.log(2 + hours);
-  return clampScore(score);
-}
+import type { FeedCandidateSet, FeedDebugSummary, FeedScoringDebug, ViewerContext } from '../types.js';
+import {
+  clampScore,
+  POST_SCORE_COMPONENTS,
+  scorePost,
+  sumContributions,
+  type PostScoreBreakdown,
+  type ScoreWeights
+} from './components.js';
+import { fetchPostScoringSignals, type PostScoringSignals } from './signals.js';
+import { feedConfigFor } from '../variants.js';
 
 async function fetchPostMediaTypes(postIds: bigint[]) {
   if (!postIds.length) return new Map<bigint, 'text' | 'image' | 'video' | 'mixed'>();
@@ -137,6 +133,62 @@ function dedupeCandidates(candidates: FeedCandidateSet, debug: FeedDebugSummary
   return { posts: dedupedPosts, suggestions: dedupedSuggestions, questions: dedupedQuestions };
 }
 
+function buildScoringDebug(
+  weights: ScoreWeights,
+  signals: PostScoringSignals,
+  scored: Array<{ postId: bigint; score: number; seenPenalty: number; breakdown: PostScoreBreakdown }>
+): FeedScoringDebug {
+  const coverage = { features: 0, trending: 0, engagement: 0, creatorAffinity: 0, topicAffinity: 0 };
+  const totals = Object.fromEntries(POST_SCORE_COMPONENTS.map((component) => [component, 0])) as Record<
+    string,
+    number
+  >;
+
+  for (const { postId, breakdown } of scored) {
+    const postSignals = signals.posts.get(postId);
+    if (postSignals?.quality != null || postSignals?.topics.length) coverage.features += 1;
+    if (postSignals?.trendingVelocity != null) coverage.trending += 1;
+    if (postSignals?.engagement != null) coverage.engagement += 1;
+    if (breakdown.values.creatorAffinity > 0) coverage.creatorAffinity += 1;
+    if (breakdown.values.topicAffinity > 0) coverage.topicAffinity += 1;
+    for (const component of POST_SCORE_COMPONENTS) {
+      totals[component] += breakdown.contributions[component];
+    }
+  }
+
+  const grandTotal = Object.values(totals).reduce((sum, value) => sum + value, 0);
+  const count = Math.max(1, scored.length);
+  const components = Object.fromEntries(
+    POST_SCORE_COMPONENTS.map((component) => [
+      component,
+      {
+        meanContribution: totals[component] / count,
+        share: grandTotal > 0 ? totals[component] / grandTotal : 0
+      }
+    ])
+  );
+
+  return {
+    weights: { ...weights, ...feedConfig.scoring.posts },
+    explorationFactor: signals.affinity?.explorationFactor ?? null,
+    coverage,
+    components,
+    posts: [...scored]
+      .sort((a, b) => b.score - a.score)
+      .map(({ postId, score, seenPenalty, breakdown }) => ({
+        postId: String(postId),
+        score,
+        seenPenalty,
+        components: Object.fromEntries(
+          POST_SCORE_COMPONENTS.map((component) => [
+            component,
+            { value: breakdown.values[component], contribution: breakdown.contributions[component] }
+          ])
+        )
+      }))
+  };
+}
+
 async function fetchSeenMaps(ctx: ViewerContext, candidates: FeedCandidateSet) {
   if (!ctx.userId) {
     return {
@@ -163,26 +215,36 @@ export async function scoreCandidates(ctx: ViewerContext, candidates: FeedCandid
 
   const deduped = dedupeCandidates(candidates, debug);
   const { postSeenMap, suggestionSeenMap } = await fetchSeenMaps(ctx, deduped);
-  const postMediaTypes = await fetchPostMediaTypes(deduped.posts.map((post) => post.id));
-  const cutoff = Date.now() - feedConfig.seenWindowHours * 60 * 60 * 1000;
+  const postIds = deduped.posts.map((post) => post.id);
+  const [postMediaTypes, signals] = await Promise.all([
+    fetchPostMediaTypes(postIds),
+    fetchPostScoringSignals(ctx.userId, postIds)
+  ]);
+  const now = Date.now();
+  const cutoff = now - feedConfig.seenWindowHours * 60 * 60 * 1000;
+  const weights = feedConfigFor(ctx).scoring.weights;
+  const scoringDebug: Parameters<typeof buildScoringDebug>[2] = [];
 
   const scoredPosts = deduped.posts
     .map((post) => {
-      const recency = recencyScore(post.createdAt);
-      const affinity = 0;
-      const quality = 0;
+      const breakdown = scorePost(
+        { createdAt: post.createdAt, userId: post.user.id },
+        signals.posts.get(post.id),
+        signals.affinity,
+        now,
+        weights
+      );
       const seenAt = postSeenMap.get(post.id);
       const isSeen = Boolean(seenAt && seenAt.getTime() >= cutoff);
       const seenPenalty = isSeen ? 1 : 0;
       if (debug && isSeen) debug.seen.demotedPosts += 1;
       const mediaType = postMediaTypes.get(post.id) ?? 'text';
-      const score =
-        recency * SCORE_WEIGHTS.recency +
-        affinity * SCORE_WEIGHTS.affinity +
-        quality * SCORE_WEIGHTS.quality -
-        seenPenalty * SCORE_WEIGHTS.seenPenalty;
+      const score = clampScore(sumContributions(breakdown) - seenPenalty * weights.seenPenalty);
+      if (debug) {
+        scoringDebug.push({ postId: post.id, score, seenPenalty: seenPenalty * weights.seenPenalty, breakdown });
+      }
 
-      return { ...post, mediaType, score: clampScore(score) };
+      return { ...post, mediaType, score };
     })
     .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
 
@@ -196,16 +258,17 @@ export async function scoreCandidates(ctx: ViewerContext, candidates: FeedCandid
       const seenPenalty = isSeen ? 1 : 0;
       if (debug && isSeen) debug.seen.demotedSuggestions += 1;
       const score =
-        recency * SCORE_WEIGHTS.recency +
-        affinity * SCORE_WEIGHTS.affinity +
-        quality * SCORE_WEIGHTS.quality -
-        seenPenalty * SCORE_WEIGHTS.seenPenalty;
+        recency * weights.recency +
+        affinity * weights.affinity +
+        quality * weights.quality -
+        seenPenalty * weights.seenPenalty;
 
       return { ...suggestion, score: clampScore(score) };
     })
     .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
 
   if (ctx.debug && debug) {
+    debug.scoring = buildScoringDebug(weights, signals, scoringDebug);
     return { posts: scoredPosts, suggestions: scoredSuggestions, questions: deduped.questions, debug };
   }
 
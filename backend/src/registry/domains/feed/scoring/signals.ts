@@ -0,0 +1,103 @@
+import { prisma } from '../../../../lib/prisma/client.js';
+import { normalizeAffinityWeights, type PostSignals, type ViewerAffinity } from './components.js';
+
+// Batch loaders for the job-computed scoring tables:
+// TrendingScore (trending job), PostFeatures (content-features job),
+// PostEngagement (feed-engagement job) and UserAffinityProfile (affinity job).
+// Missing rows simply score 0.
+
+export type PostScoringSignals = {
+  posts: Map<bigint, PostSignals>;
+  affinity: ViewerAffinity | null;
+};
+
+function readWeightedEntries<K>(value: unknown, keyField: string, parseKey: (raw: unknown) => K | null) {
+  if (!Array.isArray(value)) return [];
+  const entries: Array<{ key: K; weight: number }> = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const record = item as Record<string, unknown>;
+    const key = parseKey(record[keyField]);
+    const weight = Number(record.weight);
+    if (key === null || !Number.isFinite(weight)) continue;
+    entries.push({ key, weight });
+  }
+  return entries;
+}
+
+function parseUserId(raw: unknown) {
+  if (typeof raw !== 'string' || !/^\d+$/.test(raw)) return null;
+  return BigInt(raw);
+}
+
+function parseTopic(raw: unknown) {
+  return typeof raw === 'string' && raw.length > 0 ? raw : null;
+}
+
+function readTopics(value: unknown) {
+  if (!Array.isArray(value)) return [];
+  return value.filter((topic): topic is string => typeof topic === 'string');
+}
+
+export async function fetchViewerAffinity(viewerId: bigint | null): Promise<ViewerAffinity | null> {
+  if (!viewerId) return null;
+  const profile = await prisma.userAffinityProfile.findUnique({
+    where: { userId: viewerId },
+    select: { topCreators: true, topTopics: true, explorationFactor: true }
+  });
+  if (!profile) return null;
+  return {
+    creators: normalizeAffinityWeights(readWeightedEntries(profile.topCreators, 'userId', parseUserId)),
+    topics: normalizeAffinityWeights(readWeightedEntries(profile.topTopics, 'tag', parseTopic)),
+    explorationFactor: profile.explorationFactor
+  };
+}
+
+export async function fetchPostScoringSignals(
+  viewerId: bigint | null,
+  postIds: bigint[],
+  now = new Date()
+): Promise<PostScoringSignals> {
+  const posts = new Map<bigint, PostSignals>();
+  if (!postIds.length) {
+    return { posts, affinity: await fetchViewerAffinity(viewerId) };
+  }
+
+  const [features, trending, engagement, affinity] = await Promise.all([
+    prisma.postFeatures.findMany({
+      where: { postId: { in: postIds } },
+      select: { postId: true, quality: true, topics: true }
+    }),
+    prisma.trendingScore.findMany({
+      where: { postId: { in: postIds }, expiresAt: { gt: now } },
+      select: { postId: true, velocity: true }
+    }),
+    prisma.postEngagement.findMany({
+      where: { postId: { in: postIds } },
+      select: { postId: true, engagementScore: true }
+    }),
+    fetchViewerAffinity(viewerId)
+  ]);
+
+  const signalsFor = (postId: bigint) => {
+    let entry = posts.get(postId);
+    if (!entry) {
+      entry = { quality: null, topics: [], trendingVelocity: null, engagement: null };
+      posts.set(postId, entry);
+    }
+    return entry;
+  };
+  for (const row of features) {
+    const entry = signalsFor(row.postId);
+    entry.quality = row.quality;
+    entry.topics = readTopics(row.topics);
+  }
+  for (const row of trending) {
+    signalsFor(row.postId).trendingVelocity = row.velocity;
+  }
+  for (const row of engagement) {
+    signalsFor(row.postId).engagement = row.engagementScore;
+  }
+
+  return { posts, affinity };
+}
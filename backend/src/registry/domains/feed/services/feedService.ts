@@ -3,13 +3,15 @@ import { getPresortedSegment, invalidateAllSegmentsForUser } from '../../../../s
 import { getRelationshipIds } from '../../../../services/feed/relationshipService.js';
 import { applySeenPenalty, checkAllUnseen } from '../../../../services/feed/presortedFeedHelpers.js';
 import { getRelationshipPostCandidates } from '../candidates/posts.js';
-import { runFeedPresortJob } from '../../../../jobs/feedPresortJob.js';
+import { enqueueFeedPresort, isFeedPresortPending } from '../../../../services/feed/presortQueue.js';
+import { recordFeedServe } from '../../../../services/feed/feedServeStats.js';
 import { getCandidates } from '../candidates/index.js';
 import { scoreCandidates } from '../scoring/index.js';
 import { mergeAndRank } from '../ranking/index.js';
 import { hydrateFeedItems } from '../hydration/index.js';
 import { hydrateFeedItemsFromPresorted } from '../hydration/presorted.js';
 import { validatePresortedSegment } from '../validation.js';
+import { feedAlgorithmVersion, feedConfigFor } from '../variants.js';
 import { buildRelationshipFilters } from './seenService.js';
 import type { ViewerContext, FeedItem, FeedItemOrGrid, FeedDebugSummary } from '../types.js';
 import type { HydratedFeedItem } from '../hydration/index.js';
@@ -149,7 +151,8 @@ function filterFeedItems(
 async function applySeenPenaltyOptimized(
   userId: bigint,
   items: PresortedFeedItem[],
-  remaining: number
+  remaining: number,
+  seenPenaltyWeight: number
 ): Promise<PresortedFeedItem[]> {
   // Check top items only to avoid scanning entire list
   const topItems = items.slice(0, Math.max(remaining, 3));
@@ -159,7 +162,7 @@ async function applySeenPenaltyOptimized(
   if (allUnseen) return items;
 
   // Apply penalty only if some items are seen
-  return await applySeenPenalty(userId, items);
+  return await applySeenPenalty(userId, items, seenPenaltyWeight);
 }
 
 /**
@@ -175,21 +178,26 @@ async function fetchPresortedFeed(
   if (!ctx.userId) return null;
 
   const segment = await getPresortedSegment(ctx.userId, 0);
-  const validation = validatePresortedSegment(segment);
+  const validation = validatePresortedSegment(segment, feedAlgorithmVersion(ctx.variant));
 
   // Handle invalid segment
   if (!validation.valid) {
+    recordFeedServe({ path: 'LIVE', reason: validation.reason });
     if (validation.reason === 'version_mismatch' && segment) {
       // Delete stale segments and fallback
       await invalidateAllSegmentsForUser(ctx.userId);
-    } else if (validation.reason === 'expired' && segment) {
-      // Trigger background refresh for next time
-      void runFeedPresortJob({ userId: ctx.userId });
     }
+    // Queue a rebuild so the next request can be served presorted
+    enqueueFeedPresort([ctx.userId], 'fallback');
     return null;
   }
 
   const { segment: validSegment } = validation;
+  recordFeedServe({
+    path: 'PRESORTED',
+    segmentAgeMs: Date.now() - validSegment.computedAt.getTime(),
+    stale: isFeedPresortPending(ctx.userId)
+  });
   const remaining = Math.max(limit - relationshipItems.length, 0);
   const presortedPresentationByPostId = new Map<bigint, PresortedFeedItem['presentation']>();
   for (const item of validSegment.items) {
@@ -216,7 +224,12 @@ async function fetchPresortedFeed(
   );
 
   // Apply seen penalty with early cutoff optimization
-  const penalized = await applySeenPenaltyOptimized(ctx.userId, filtered, remaining);
+  const penalized = await applySeenPenaltyOptimized(
+    ctx.userId,
+    filtered,
+    remaining,
+    feedConfigFor(ctx).scoring.weights.seenPenalty
+  );
 
   // Hydrate items
   const itemsToHydrate = remaining > 0 ? penalized.slice(0, remaining) : [];
@@ -279,11 +292,6 @@ async function fetchFallbackFeed(
   const itemsToHydrate = combined.slice(0, limit);
   const hydrated = await hydrateFeedItems(ctx, itemsToHydrate);
 
-  // Trigger background job to precompute for next time
-  if (ctx.userId) {
-    void runFeedPresortJob({ userId: ctx.userId });
-  }
-
   const debug =
     ctx.debug && scored.debug
       ? {
@@ -67,7 +67,7 @@ export async function buildFullResponse(
   items: HydratedFeedItem[],
   debug?: unknown
 ): Promise<FeedResponse> {
-  await recordSeenItems(ctx.userId, ctx.markSeen ?? false, items);
+  await recordSeenItems(ctx.userId, ctx.markSeen ?? false, items, ctx.variant?.variant ?? null);
   
   const nextCursorId = getNextPostCursorId(items);
   const hasMorePosts = nextCursorId !== null;
@@ -92,7 +92,7 @@ export async function buildLiteResponse(
   items: HydratedFeedItem[],
   limit: number
 ): Promise<{ items: Phase1Card[]; nextCursorId: string | null }> {
-  await recordSeenItems(ctx.userId, ctx.markSeen ?? false, items);
+  await recordSeenItems(ctx.userId, ctx.markSeen ?? false, items, ctx.variant?.variant ?? null);
 
   const nextCursorId = getNextPostCursorId(items);
   const phase1Items = items.slice(0, limit).map(toPhase1Card);
@@ -124,7 +124,7 @@ export async function buildCachedLiteResponse(
   if (ctx.markSeen && ctx.userId && parsed.items?.length) {
     const seenItems = extractSeenItemsFromPhase1(segment.phase1Json);
     if (seenItems.length > 0) {
-      await recordFeedSeen(ctx.userId, seenItems);
+      await recordFeedSeen(ctx.userId, seenItems, ctx.variant?.variant ?? null);
     }
   }
 
@@ -11,12 +11,13 @@ export type SeenRecordItem = {
 
 /**
  * Record items as seen if markSeen is enabled
- * Only records items that were actually returned to the user
+ * Only records items that were actually returned to the user, stamped with the feed variant
  */
 export async function recordSeenItems(
   userId: bigint | null,
   markSeen: boolean,
-  items: Array<SeenRecordItem | { type: 'grid'; grid?: { items: SeenRecordItem[] } }>
+  items: Array<SeenRecordItem | { type: 'grid'; grid?: { items: SeenRecordItem[] } }>,
+  feedVariant: string | null = null
 ): Promise<void> {
   if (!markSeen || !userId || items.length === 0) return;
 
@@ -41,7 +42,7 @@ export async function recordSeenItems(
   }
 
   if (seenItems.length > 0) {
-    await recordFeedSeen(userId, seenItems);
+    await recordFeedSeen(userId, seenItems, feedVariant);
   }
 }
 
@@ -1,5 +1,14 @@
 // Internal pipeline types (not API contracts).
 import type { CompatibilitySummary } from '../../../services/compatibility/compatibilityService.js'
+import type { FeedConfig } from './config.js'
+
+// Viewer's bucket in the active feed experiment (see variants.ts)
+export type FeedVariantAssignment = {
+  experimentId: bigint
+  experiment: string
+  variant: string
+  config: FeedConfig
+}
 
 export type ViewerContext = {
   userId: bigint | null
@@ -8,6 +17,8 @@ export type ViewerContext = {
   debug?: boolean
   seed?: number | null
   markSeen?: boolean
+  // Unset or null: not enrolled, the shipped feedConfig applies
+  variant?: FeedVariantAssignment | null
 }
 
 export type FeedMediaRecord = {
@@ -142,6 +153,7 @@ export type FeedDebugSummary = {
     demotedPosts: number
     demotedSuggestions: number
   }
+  scoring?: FeedScoringDebug
   ranking?: {
     sourceSequence: Array<'post' | 'match' | 'suggested' | 'question' | 'grid'>
     actorCounts: Record<string, number>
@@ -149,3 +161,24 @@ export type FeedDebugSummary = {
     tierCounts?: Record<'self' | 'following' | 'followers' | 'everyone', number>
   }
 }
+
+export type FeedScoreComponentDebug = {
+  value: number
+  contribution: number
+}
+
+export type FeedScoringDebug = {
+  weights: Record<string, number>
+  // null when the viewer has no affinity profile yet (or is anonymous)
+  explorationFactor: number | null
+  // Posts that had a row in each job table
+  coverage: { features: number; trending: number; engagement: number; creatorAffinity: number; topicAffinity: number }
+  // Per component across scored posts: mean contribution and its share of the summed positive score
+  components: Record<string, { meanContribution: number; share: number }>
+  posts: Array<{
+    postId: string
+    score: number
+    seenPenalty: number
+    components: Record<string, FeedScoreComponentDebug>
+  }>
+}
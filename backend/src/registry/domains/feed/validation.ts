@@ -10,15 +10,17 @@ export type SegmentValidationResult =
 /**
  * Validate presorted segment for use
  * Checks existence, expiration, and algorithm version
+ * (the viewer's feedAlgorithmVersion, which includes their experiment variant)
  */
 export function validatePresortedSegment(
-  segment: PresortedFeedSegment | null
+  segment: PresortedFeedSegment | null,
+  algorithmVersion: string = FEED_CONFIG_VERSION
 ): SegmentValidationResult {
   if (!segment) {
     return { valid: false, reason: 'not_found' };
   }
 
-  if (segment.algorithmVersion !== FEED_CONFIG_VERSION) {
+  if (segment.algorithmVersion !== algorithmVersion) {
     return { valid: false, reason: 'version_mismatch' };
   }
 
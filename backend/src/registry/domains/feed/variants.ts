@@ -0,0 +1,149 @@
+import { createHash } from 'node:crypto';
+import type { ParseResult } from '../../../lib/http/parse.js';
+import { FEED_CONFIG_VERSION, feedConfig, type FeedCaps, type FeedConfig, type FeedSlot } from './config.js';
+import type { FeedVariantAssignment, ViewerContext } from './types.js';
+
+// Named feed variants for experiments.
+// A variant overrides parts of feedConfig; anything it leaves out falls back to the
+// shipped config. Which users see which variant is decided by the active
+// FeedExperiment's allocations (admin API), not here.
+
+export type FeedVariantDefinition = {
+  description: string;
+  sequence?: FeedSlot[];
+  caps?: Partial<FeedCaps>;
+  weights?: Partial<FeedConfig['scoring']['weights']>;
+};
+
+export type FeedAllocation = {
+  variant: string;
+  // Share of all users, 0-100 with 0.01 precision
+  percent: number;
+};
+
+export const CONTROL_FEED_VARIANT = 'control';
+
+export const feedVariants: Record<string, FeedVariantDefinition> = {
+  [CONTROL_FEED_VARIANT]: {
+    description: 'Shipped feedConfig, unchanged'
+  },
+  'posts-first': {
+    description: 'Two posts before the first suggestions; suggestion run shortened to 2',
+    sequence: [
+      { kind: 'post', mediaType: 'any', count: 1, presentation: 'highlight' },
+      { kind: 'post', mediaType: 'any', count: 1, presentation: 'single' },
+      { kind: 'suggestion', count: 2, presentation: 'single' },
+      { kind: 'post', mediaType: 'any', count: 1, presentation: 'mosaic' },
+      { kind: 'grid', size: 3, minSize: 3, strict: false, of: 'suggestion', distinctActors: true, presentation: 'grid' },
+      { kind: 'question', count: 1 },
+      { kind: 'post', mediaType: 'any', count: 1, presentation: 'grid' }
+    ]
+  },
+  'affinity-heavy': {
+    description: 'Shifts 0.1 of the scoring weight from recency to creator/topic affinity',
+    weights: { recency: 0.3, affinity: 0.35 }
+  }
+};
+
+// Users are hashed into this many buckets, so allocations resolve to 0.01%
+export const FEED_BUCKETS = 10_000;
+
+export function isFeedVariant(name: string) {
+  return Object.prototype.hasOwnProperty.call(feedVariants, name);
+}
+
+export function getFeedVariantConfig(name: string): FeedConfig {
+  const variant = isFeedVariant(name) ? feedVariants[name] : undefined;
+  if (!variant) return feedConfig;
+  return {
+    ...feedConfig,
+    sequence: variant.sequence ?? feedConfig.sequence,
+    caps: { ...feedConfig.caps, ...variant.caps },
+    scoring: {
+      ...feedConfig.scoring,
+      weights: { ...feedConfig.scoring.weights, ...variant.weights }
+    }
+  };
+}
+
+/**
+ * Config for the request or presort run: the viewer's variant, else the shipped config
+ */
+export function feedConfigFor(ctx: Pick<ViewerContext, 'variant'>): FeedConfig {
+  return ctx.variant?.config ?? feedConfig;
+}
+
+/**
+ * Stamp for PresortedFeedSegment.algorithmVersion. Includes the experiment and
+ * variant so a segment computed for another bucket fails validation.
+ */
+export function feedAlgorithmVersion(assignment: FeedVariantAssignment | null | undefined) {
+  if (!assignment) return FEED_CONFIG_VERSION;
+  return `${FEED_CONFIG_VERSION}:${assignment.experiment}:${assignment.variant}`;
+}
+
+/**
+ * Deterministic bucket in [0, FEED_BUCKETS). The experiment name is the salt, so
+ * each experiment splits users independently of earlier ones.
+ */
+export function feedBucket(experimentName: string, userId: bigint) {
+  const digest = createHash('sha256').update(`${experimentName}:${userId}`).digest();
+  return digest.readUInt32BE(0) % FEED_BUCKETS;
+}
+
+/**
+ * Allocations fill the bucket range in order; buckets past their sum are not enrolled.
+ * Raising only the last allocation's percent keeps everyone's existing assignment.
+ */
+export function pickFeedVariant(allocations: FeedAllocation[], bucket: number): string | null {
+  let upper = 0;
+  for (const allocation of allocations) {
+    upper += Math.round(allocation.percent * (FEED_BUCKETS / 100));
+    if (bucket < upper) return allocation.variant;
+  }
+  return null;
+}
+
+export function assignFeedVariant(
+  experiment: { id: bigint; name: string; allocations: FeedAllocation[] },
+  userId: bigint
+): FeedVariantAssignment | null {
+  const variant = pickFeedVariant(experiment.allocations, feedBucket(experiment.name, userId));
+  if (!variant) return null;
+  return {
+    experimentId: experiment.id,
+    experiment: experiment.name,
+    variant,
+    config: getFeedVariantConfig(variant)
+  };
+}
+
+export function parseFeedAllocations(value: unknown): ParseResult<FeedAllocation[]> {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { ok: false, error: 'allocations must be a non-empty array of { variant, percent }' };
+  }
+
+  const allocations: FeedAllocation[] = [];
+  let totalBuckets = 0;
+  for (const entry of value) {
+    const record = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const { variant, percent } = record;
+    if (typeof variant !== 'string' || !isFeedVariant(variant)) {
+      return { ok: false, error: `Unknown feed variant; expected one of ${Object.keys(feedVariants).join(', ')}` };
+    }
+    if (allocations.some((allocation) => allocation.variant === variant)) {
+      return { ok: false, error: `Variant ${variant} is allocated twice` };
+    }
+    if (typeof percent !== 'number' || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      return { ok: false, error: 'percent must be a number above 0 and at most 100' };
+    }
+    const rounded = Math.round(percent * 100) / 100;
+    totalBuckets += Math.round(rounded * (FEED_BUCKETS / 100));
+    allocations.push({ variant, percent: rounded });
+  }
+
+  if (totalBuckets > FEED_BUCKETS) {
+    return { ok: false, error: 'allocation percents add up to more than 100' };
+  }
+  return { ok: true, value: allocations };
+}
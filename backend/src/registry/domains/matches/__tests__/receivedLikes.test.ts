@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { matchesDomain } from '../index.js';
+import { safetyDomain } from '../../safety/index.js';
+import { callRoute, cleanupUsers, createUsers } from '../../../../__tests__/helpers.js';
+
+async function like(fromUserId: bigint, toUserId: bigint, action: 'LIKE' | 'DISLIKE' = 'LIKE') {
+  return callRoute(matchesDomain, 'matches.POST./likes', fromUserId, {
+    body: { toUserId: String(toUserId), action }
+  });
+}
+
+async function receivedIds(userId: bigint, query: Record<string, string> = {}) {
+  const res = await callRoute(matchesDomain, 'matches.GET./likes/received', userId, { query });
+  assert.strictEqual(res.status, 200);
+  return {
+    ids: (res.body.likes as Array<{ userId: string }>).map((l) => String(l.userId)),
+    nextCursorId: res.body.nextCursorId as string | null,
+    likes: res.body.likes as Array<{ userId: string; compatibility: unknown }>
+  };
+}
+
+test('Matches - GET /likes/received lists unanswered likes and drops them once answered', async () => {
+  const [viewer, fan, passed, blocked, matched] = await createUsers(5, { label: 'received' });
+  try {
+    await like(fan.id, viewer.id);
+    await like(passed.id, viewer.id);
+    await like(blocked.id, viewer.id);
+    await like(matched.id, viewer.id);
+    await like(viewer.id, matched.id);
+
+    await like(viewer.id, passed.id, 'DISLIKE');
+    await callRoute(safetyDomain, 'safety.POST./users/:userId/block', viewer.id, {
+      params: { userId: String(blocked.id) }
+    });
+
+    const first = await receivedIds(viewer.id);
+    assert.deepStrictEqual(first.ids, [String(fan.id)]);
+    assert.ok('compatibility' in first.likes[0]!);
+
+    // Liking back goes through the reciprocal-like path and creates the match
+    const back = await like(viewer.id, fan.id);
+    assert.strictEqual(back.body.matched, true);
+    assert.deepStrictEqual((await receivedIds(viewer.id)).ids, []);
+  } finally {
+    await cleanupUsers([viewer.id, fan.id, passed.id, blocked.id, matched.id]);
+  }
+});
+
+test('Matches - GET /likes/received paginates newest first', async () => {
+  const [viewer, ...fans] = await createUsers(4, { label: 'received' });
+  try {
+    for (const fan of fans) await like(fan.id, viewer.id);
+
+    const page1 = await receivedIds(viewer.id, { take: '2' });
+    assert.strictEqual(page1.ids.length, 2);
+    assert.ok(page1.nextCursorId);
+
+    const page2 = await receivedIds(viewer.id, { take: '2', cursorId: String(page1.nextCursorId) });
+    const all = [...page1.ids, ...page2.ids];
+    assert.strictEqual(new Set(all).size, 3);
+    assert.deepStrictEqual(new Set(all), new Set(fans.map((f) => String(f.id))));
+  } finally {
+    await cleanupUsers([viewer.id, ...fans.map((f) => f.id)]);
+  }
+});
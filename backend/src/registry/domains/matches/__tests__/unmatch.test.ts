@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { callRoute, cleanupUsers, createUsers, matchPair } from '../../../../__tests__/helpers.js';
+import { matchesDomain } from '../index.js';
+import { messagingDomain } from '../../messaging/index.js';
+
+test('Matches - unmatch closes the match and leaves a read-only conversation', async () => {
+  const [a, b, outsider] = await createUsers(3, { label: 'unmatch' });
+  try {
+    const { matchId, conversationId } = await matchPair(a.id, b.id);
+    await prisma.matchScore.createMany({
+      data: [
+        { userId: a.id, candidateUserId: b.id, score: 0.9, algorithmVersion: 'v1' },
+        { userId: b.id, candidateUserId: a.id, score: 0.9, algorithmVersion: 'v1' }
+      ]
+    });
+
+    const forbidden = await callRoute(matchesDomain, 'matches.POST./matches/:matchId/unmatch', outsider.id, {
+      params: { matchId: String(matchId) }
+    });
+    assert.strictEqual(forbidden.status, 404);
+
+    const closed = await callRoute(matchesDomain, 'matches.POST./matches/:matchId/unmatch', a.id, {
+      params: { matchId: String(matchId) }
+    });
+    assert.strictEqual(closed.status, 200);
+    assert.strictEqual(String(closed.body.conversationId), String(conversationId));
+
+    const match = await prisma.match.findUniqueOrThrow({ where: { id: matchId } });
+    assert.strictEqual(match.state, 'CLOSED');
+    assert.ok(match.closedAt);
+
+    // Suggestions and likes are cleared in both directions
+    assert.strictEqual(
+      await prisma.matchScore.count({
+        where: { OR: [{ userId: a.id, candidateUserId: b.id }, { userId: b.id, candidateUserId: a.id }] }
+      }),
+      0
+    );
+    assert.strictEqual(
+      await prisma.like.count({
+        where: { OR: [{ fromUserId: a.id, toUserId: b.id }, { fromUserId: b.id, toUserId: a.id }] }
+      }),
+      0
+    );
+
+    const read = await callRoute(messagingDomain, 'messaging.GET./conversations/:conversationId', b.id, {
+      params: { conversationId: String(conversationId) }
+    });
+    assert.strictEqual(read.status, 200);
+    assert.strictEqual(read.body.readOnly, true);
+
+    const send = await callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/messages', b.id, {
+      params: { conversationId: String(conversationId) },
+      body: { body: 'Still there?' }
+    });
+    assert.strictEqual(send.status, 403);
+    assert.strictEqual(send.body.code, 'CONVERSATION_READ_ONLY');
+
+    const again = await callRoute(matchesDomain, 'matches.POST./matches/:matchId/unmatch', b.id, {
+      params: { matchId: String(matchId) }
+    });
+    assert.strictEqual(again.status, 409);
+
+    const matches = await callRoute(matchesDomain, 'matches.GET./matches', b.id);
+    assert.ok(!matches.body.matches.some((m: { id: string }) => String(m.id) === String(matchId)));
+  } finally {
+    await cleanupUsers([a.id, b.id, outsider.id]);
+  }
+});
+
+test('Matches - the inbox keeps unmatched conversations read-only and drops blocked ones', async () => {
+  const [a, b, c] = await createUsers(3, { label: 'unmatch' });
+  try {
+    const unmatched = await matchPair(a.id, b.id);
+    const blocked = await matchPair(a.id, c.id);
+    await callRoute(matchesDomain, 'matches.POST./matches/:matchId/unmatch', b.id, {
+      params: { matchId: String(unmatched.matchId) }
+    });
+    await prisma.match.update({ where: { id: blocked.matchId }, data: { state: 'BLOCKED', closedAt: new Date() } });
+
+    for (const userId of [a.id, b.id]) {
+      const inbox = await callRoute(messagingDomain, 'messaging.GET./inbox', userId, { query: { take: '50' } });
+      assert.strictEqual(inbox.status, 200);
+      const conversations = inbox.body.conversations as Array<{ id: string; readOnly: boolean }>;
+      const row = conversations.find((conv) => String(conv.id) === String(unmatched.conversationId));
+      assert.ok(row, 'unmatched conversation is listed');
+      assert.strictEqual(row.readOnly, true);
+      assert.ok(!conversations.some((conv) => String(conv.id) === String(blocked.conversationId)));
+    }
+  } finally {
+    await cleanupUsers([a.id, b.id, c.id]);
+  }
+});
+
+test('Matches - a single like after an unmatch does not re-match the pair', async () => {
+  const [a, b] = await createUsers(2, { label: 'unmatch' });
+  try {
+    const { matchId } = await matchPair(a.id, b.id);
+    await callRoute(matchesDomain, 'matches.POST./matches/:matchId/unmatch', a.id, {
+      params: { matchId: String(matchId) }
+    });
+
+    const like = await callRoute(matchesDomain, 'matches.POST./likes', b.id, {
+      body: { toUserId: String(a.id), action: 'LIKE' }
+    });
+    assert.strictEqual(like.status, 200);
+    assert.strictEqual(like.body.matched, false);
+
+    const match = await prisma.match.findUniqueOrThrow({ where: { id: matchId } });
+    assert.strictEqual(match.state, 'CLOSED');
+  } finally {
+    await cleanupUsers([a.id, b.id]);
+  }
+});
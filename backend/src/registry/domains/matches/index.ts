@@ -5,6 +5,11 @@ import { json } from '../../../lib/http/json.js';
 import { getCompatibilityMap, resolveCompatibility } from '../../../services/compatibility/compatibilityService.js';
 import { parseLimit, parseOptionalPositiveBigInt, parsePositiveBigInt } from '../../../lib/http/parse.js';
 import { toAvatarUrl } from '../../../services/media/presenter.js';
+import { notBlockedWith } from '../../../services/safety/blockFilter.js';
+import { closeMatch, emitMatchCreated } from '../../../services/matches/matchLifecycle.js';
+import { createNotification } from '../../../services/notifications/notificationService.js';
+import { trackFeedExperimentEvent } from '../../../services/feed/feedExperimentService.js';
+import { enqueueFeedPresort } from '../../../services/feed/presortQueue.js';
 
 function orderedPair(a: bigint, b: bigint) {
   return a < b ? { userAId: a, userBId: b } : { userAId: b, userBId: a };
@@ -176,38 +181,98 @@ export const matchesDomain: DomainRegistry = {
           }
         });
 
+        // The liked profile's place in the liker's suggestions changes
+        enqueueFeedPresort([fromUserId], 'like');
+
         let matched = false;
         let matchId: bigint | null = null;
 
+        // Taking back a like ends the match it created
+        if (normalizedAction === 'UNLIKE') {
+          const pair = orderedPair(fromUserId, toId);
+          const active = await prisma.match.findFirst({
+            where: { userAId: pair.userAId, userBId: pair.userBId, state: 'ACTIVE' },
+            select: { id: true }
+          });
+          if (active) await closeMatch(active.id, fromUserId);
+        }
+
         if (normalizedAction === 'LIKE') {
           const reciprocal = await prisma.like.findUnique({
             where: { fromUserId_toUserId: { fromUserId: toId, toUserId: fromUserId } },
             select: { action: true }
           });
 
-          if (reciprocal?.action === 'LIKE') {
-            const pair = orderedPair(fromUserId, toId);
+          const pair = orderedPair(fromUserId, toId);
+          const existingMatch = reciprocal?.action === 'LIKE'
+            ? await prisma.match.findUnique({
+                where: { userAId_userBId: { userAId: pair.userAId, userBId: pair.userBId } },
+                select: { id: true, state: true }
+              })
+            : null;
+
+          // A block-closed match is never reopened by likes
+          if (reciprocal?.action === 'LIKE' && existingMatch?.state !== 'BLOCKED') {
             const match = await prisma.match.upsert({
               where: { userAId_userBId: { userAId: pair.userAId, userBId: pair.userBId } },
-              update: { state: 'ACTIVE' },
+              update: { state: 'ACTIVE', closedAt: null },
               create: { ...pair, state: 'ACTIVE' },
-              select: { id: true }
+              select: { id: true, updatedAt: true }
             });
             matchId = match.id;
             matched = true;
 
-            // ensure conversation exists
-            await prisma.conversation.upsert({
-              where: { matchId },
-              update: {},
-              create: { matchId, userAId: pair.userAId, userBId: pair.userBId }
+            // ensure conversation exists; an existing pair conversation (e.g. from before the match) is adopted
+            const conversation = await prisma.conversation.upsert({
+              where: { userAId_userBId: { userAId: pair.userAId, userBId: pair.userBId } },
+              update: { matchId },
+              create: { matchId, userAId: pair.userAId, userBId: pair.userBId },
+              select: { id: true }
             });
+
+            if (existingMatch?.state !== 'ACTIVE') {
+              emitMatchCreated({ id: match.id, ...pair, conversationId: conversation.id }, match.updatedAt);
+              enqueueFeedPresort([fromUserId, toId], 'match');
+              for (const [userId, actorId] of [[fromUserId, toId], [toId, fromUserId]] as const) {
+                trackFeedExperimentEvent(userId, 'MATCH', match.id);
+                await createNotification({
+                  userId,
+                  type: 'MATCH_NEW',
+                  actorId,
+                  entityId: match.id,
+                  data: { conversationId: String(conversation.id) }
+                });
+              }
+            }
           }
         }
 
         return json(res, { ok: true, matched, matchId });
       }
     },
+    {
+      id: 'matches.POST./matches/:matchId/unmatch',
+      method: 'POST',
+      path: '/matches/:matchId/unmatch',
+      auth: Auth.user(),
+      summary: 'Close a match; the conversation becomes read-only',
+      tags: ['matches'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const matchParsed = parsePositiveBigInt(req.params.matchId, 'matchId');
+        if (!matchParsed.ok) return json(res, { error: matchParsed.error }, 400);
+
+        const result = await closeMatch(matchParsed.value, me);
+        if (!result.ok) return json(res, { error: result.error }, result.status);
+
+        return json(res, {
+          ok: true,
+          matchId: result.match.id,
+          conversationId: result.match.conversationId,
+          closedAt: result.closedAt
+        });
+      }
+    },
     {
       id: 'matches.GET./likes',
       method: 'GET',
@@ -292,6 +357,96 @@ export const matchesDomain: DomainRegistry = {
         });
       }
     },
+    {
+      id: 'matches.GET./likes/received',
+      method: 'GET',
+      path: '/likes/received',
+      auth: Auth.user(),
+      summary: 'List profiles that liked you (not yet matched or answered)',
+      tags: ['matches'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const takeParsed = parseLimit(req.query.take, 20, 50);
+        if (!takeParsed.ok) return json(res, { error: takeParsed.error }, 400);
+        const cursorParsed = parseOptionalPositiveBigInt(req.query.cursorId, 'cursorId');
+        if (!cursorParsed.ok) return json(res, { error: cursorParsed.error }, 400);
+
+        const take = takeParsed.value;
+        const cursorId = cursorParsed.value;
+        const mediaSelect = {
+          id: true,
+          type: true,
+          url: true,
+          thumbUrl: true,
+          width: true,
+          height: true,
+          durationSec: true,
+          storageKey: true,
+          variants: true
+        };
+
+        // Served by the [toUserId, action, createdAt] index. Likes the viewer already answered
+        // (liked back or passed) and pairs with an active or blocked match are left out.
+        const likes = await prisma.like.findMany({
+          where: {
+            toUserId: me,
+            action: 'LIKE',
+            fromUser: {
+              deletedAt: null,
+              suspendedAt: null,
+              ...notBlockedWith(me),
+              matchesA: { none: { userBId: me, state: { in: ['ACTIVE', 'BLOCKED'] } } },
+              matchesB: { none: { userAId: me, state: { in: ['ACTIVE', 'BLOCKED'] } } },
+              LikesGot: { none: { fromUserId: me } }
+            }
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take,
+          ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+          select: {
+            id: true,
+            fromUserId: true,
+            createdAt: true,
+            fromUser: {
+              select: {
+                id: true,
+                profile: {
+                  select: {
+                    displayName: true,
+                    locationText: true,
+                    intent: true,
+                    avatarMedia: { select: mediaSelect }
+                  }
+                }
+              }
+            }
+          }
+        });
+
+        const nextCursorId = likes.length === take ? likes[likes.length - 1]!.id : null;
+        const compatibilityMap = await getCompatibilityMap(me, likes.map((like) => like.fromUserId));
+
+        return json(res, {
+          likes: likes.map((like) => {
+            const profile = like.fromUser.profile
+              ? (() => {
+                  const { avatarMedia, ...profileData } = like.fromUser.profile!;
+                  return { ...profileData, avatarUrl: toAvatarUrl(avatarMedia) };
+                })()
+              : null;
+
+            return {
+              id: like.id,
+              userId: like.fromUserId,
+              likedAt: like.createdAt.toISOString(),
+              profile,
+              compatibility: resolveCompatibility(me, compatibilityMap, like.fromUserId)
+            };
+          }),
+          nextCursorId
+        });
+      }
+    },
     {
       id: 'matches.GET./matches',
       method: 'GET',
@@ -394,6 +549,7 @@ export const matchesDomain: DomainRegistry = {
         const suggestions = await prisma.matchScore.findMany({
           where: {
             userId: me,
+            candidate: { deletedAt: null, suspendedAt: null, ...notBlockedWith(me) },
             ...(sort === 'nearby' ? { distanceKm: { not: null } } : {})
           },
           orderBy,
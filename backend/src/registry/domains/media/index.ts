@@ -1,3 +1,4 @@
+import type { Response } from 'express';
 import type { DomainRegistry } from '../../types.js';
 import { Auth } from '../../../lib/auth/rules.js';
 import { json } from '../../../lib/http/json.js';
@@ -5,6 +6,31 @@ import { parsePositiveBigInt } from '../../../lib/http/parse.js';
 import { mediaService, MediaError } from '../../../services/media/mediaService.js';
 import { uploadMedia } from '../../../services/media/uploadHandler.js';
 import { streamUploadToDisk } from '../../../services/media/streamingUpload.js';
+import {
+  appendUploadChunk,
+  cancelUploadSession,
+  completeUploadSession,
+  createUploadSession,
+  getUploadSession,
+  UploadOffsetError
+} from '../../../services/media/resumableUpload.js';
+
+function sendUploadError(res: Response, e: unknown, fallback: string) {
+  if (e instanceof UploadOffsetError) {
+    return json(res, { error: e.message, receivedBytes: e.receivedBytes }, e.status);
+  }
+  if (e instanceof MediaError) {
+    return json(res, { error: e.message }, e.status);
+  }
+  if (e instanceof Error && (e.message.includes('timeout') || e.message.includes('exceed'))) {
+    return json(res, { error: e.message }, 413);
+  }
+  if (e instanceof Error && e.message.includes('aborted')) {
+    return json(res, { error: e.message }, 400);
+  }
+  process.stderr.write(`[media] ${fallback}: ${String(e)}\n`);
+  return json(res, { error: fallback }, 500);
+}
 
 export const mediaDomain: DomainRegistry = {
   domain: 'media',
@@ -58,6 +84,102 @@ export const mediaDomain: DomainRegistry = {
         }
       }
     },
+    {
+      id: 'media.POST./media/uploads',
+      method: 'POST',
+      path: '/media/uploads',
+      auth: Auth.user(),
+      summary: 'Start a resumable upload',
+      tags: ['media'],
+      handler: async (req, res) => {
+        const body = (req.body ?? {}) as Record<string, unknown>;
+        if (typeof body.fileName !== 'string' || typeof body.mimeType !== 'string' || typeof body.sha256 !== 'string') {
+          return json(res, { error: 'fileName, mimeType and sha256 are required' }, 400);
+        }
+        try {
+          const session = await createUploadSession({
+            ownerUserId: req.ctx.userId!,
+            fileName: body.fileName,
+            mimeType: body.mimeType,
+            totalBytes: Number(body.totalBytes),
+            sha256: body.sha256,
+            visibility: body.visibility === 'PRIVATE' ? 'PRIVATE' : 'PUBLIC'
+          });
+          return json(res, session, 201);
+        } catch (e) {
+          return sendUploadError(res, e, 'Failed to start upload');
+        }
+      }
+    },
+    {
+      id: 'media.GET./media/uploads/:uploadId',
+      method: 'GET',
+      path: '/media/uploads/:uploadId',
+      auth: Auth.user(),
+      summary: 'Get resumable upload offset',
+      tags: ['media'],
+      handler: async (req, res) => {
+        try {
+          const session = await getUploadSession(String(req.params.uploadId), req.ctx.userId!);
+          res.set('Cache-Control', 'no-store');
+          return json(res, session);
+        } catch (e) {
+          return sendUploadError(res, e, 'Failed to fetch upload');
+        }
+      }
+    },
+    {
+      id: 'media.PUT./media/uploads/:uploadId',
+      method: 'PUT',
+      path: '/media/uploads/:uploadId',
+      auth: Auth.user(),
+      summary: 'Upload a chunk (raw body at Upload-Offset)',
+      tags: ['media'],
+      handler: async (req, res) => {
+        const offset = Number(req.header('Upload-Offset'));
+        if (!Number.isSafeInteger(offset) || offset < 0) {
+          return json(res, { error: 'Upload-Offset header must be a non-negative integer' }, 400);
+        }
+        try {
+          const session = await appendUploadChunk(req, String(req.params.uploadId), req.ctx.userId!, offset);
+          return json(res, session);
+        } catch (e) {
+          return sendUploadError(res, e, 'Failed to store chunk');
+        }
+      }
+    },
+    {
+      id: 'media.POST./media/uploads/:uploadId/complete',
+      method: 'POST',
+      path: '/media/uploads/:uploadId/complete',
+      auth: Auth.user(),
+      summary: 'Verify and finalize a resumable upload',
+      tags: ['media'],
+      handler: async (req, res) => {
+        try {
+          const result = await completeUploadSession(String(req.params.uploadId), req.ctx.userId!);
+          return json(res, result, 201);
+        } catch (e) {
+          return sendUploadError(res, e, 'Failed to complete upload');
+        }
+      }
+    },
+    {
+      id: 'media.DELETE./media/uploads/:uploadId',
+      method: 'DELETE',
+      path: '/media/uploads/:uploadId',
+      auth: Auth.user(),
+      summary: 'Cancel a resumable upload',
+      tags: ['media'],
+      handler: async (req, res) => {
+        try {
+          await cancelUploadSession(String(req.params.uploadId), req.ctx.userId!);
+          return json(res, { ok: true });
+        } catch (e) {
+          return sendUploadError(res, e, 'Failed to cancel upload');
+        }
+      }
+    },
     {
       id: 'media.GET./media/:mediaId',
       method: 'GET',
@@ -79,6 +201,28 @@ export const mediaDomain: DomainRegistry = {
         }
       }
     },
+    {
+      id: 'media.GET./media/:mediaId/signed-url',
+      method: 'GET',
+      path: '/media/:mediaId/signed-url',
+      auth: Auth.public(),
+      summary: 'Get time-limited media URLs',
+      tags: ['media'],
+      handler: async (req, res) => {
+        const parsed = parsePositiveBigInt(req.params.mediaId, 'mediaId');
+        if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+        try {
+          const signed = await mediaService.getSignedMediaUrls(parsed.value, req.ctx.userId ?? null);
+          res.set('Cache-Control', 'no-store');
+          return json(res, signed);
+        } catch (e) {
+          if (e instanceof MediaError) {
+            return json(res, { error: e.message }, e.status);
+          }
+          return json(res, { error: 'Failed to sign media URL' }, 500);
+        }
+      }
+    },
     {
       id: 'media.DELETE./media/:mediaId',
       method: 'DELETE',
@@ -0,0 +1,154 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { callRoute, cleanupUsers, createUsers, matchPair, sendMessage } from '../../../../__tests__/helpers.js';
+import { messagingDomain } from '../index.js';
+
+test('Messaging - sender edits a message and the previous body is kept in history', async () => {
+  const [a, b] = await createUsers(2, { label: 'msgactions' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const messageId = await sendMessage(conversationId, a.id, 'helo');
+
+    const notSender = await callRoute(messagingDomain, 'messaging.PATCH./messages/:messageId', b.id, {
+      params: { messageId },
+      body: { body: 'hijacked' }
+    });
+    assert.strictEqual(notSender.status, 403);
+
+    const edited = await callRoute(messagingDomain, 'messaging.PATCH./messages/:messageId', a.id, {
+      params: { messageId },
+      body: { body: 'hello' }
+    });
+    assert.strictEqual(edited.status, 200);
+    assert.strictEqual(edited.body.body, 'hello');
+    assert.ok(edited.body.editedAt);
+
+    const history = await callRoute(messagingDomain, 'messaging.GET./messages/:messageId/edits', b.id, {
+      params: { messageId }
+    });
+    assert.strictEqual(history.status, 200);
+    assert.deepStrictEqual(
+      history.body.edits.map((e: { body: string }) => e.body),
+      ['helo']
+    );
+
+    const convo = await callRoute(messagingDomain, 'messaging.GET./conversations/:conversationId', b.id, {
+      params: { conversationId: String(conversationId) }
+    });
+    const item = convo.body.messages.find((m: { id: string }) => String(m.id) === messageId);
+    assert.strictEqual(item.body, 'hello');
+    assert.ok(item.editedAt);
+  } finally {
+    await cleanupUsers([a.id, b.id]);
+  }
+});
+
+test('Messaging - edits without a text body are rejected', async () => {
+  const [a, b] = await createUsers(2, { label: 'msgactions' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const messageId = await sendMessage(conversationId, a.id, 'original');
+
+    for (const body of [5, '   ', null, ['text']]) {
+      const res = await callRoute(messagingDomain, 'messaging.PATCH./messages/:messageId', a.id, {
+        params: { messageId },
+        body: { body }
+      });
+      assert.strictEqual(res.status, 400);
+    }
+
+    const message = await prisma.message.findUniqueOrThrow({ where: { id: BigInt(messageId) } });
+    assert.strictEqual(message.body, 'original');
+    assert.strictEqual(message.editedAt, null);
+  } finally {
+    await cleanupUsers([a.id, b.id]);
+  }
+});
+
+test('Messaging - edits are rejected once the edit window has passed', async () => {
+  const [a, b] = await createUsers(2, { label: 'msgactions' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const messageId = await sendMessage(conversationId, a.id, 'old news');
+    await prisma.message.update({
+      where: { id: BigInt(messageId) },
+      data: { createdAt: new Date(Date.now() - 60 * 60 * 1000) }
+    });
+
+    const res = await callRoute(messagingDomain, 'messaging.PATCH./messages/:messageId', a.id, {
+      params: { messageId },
+      body: { body: 'fresh news' }
+    });
+    assert.strictEqual(res.status, 403);
+    assert.strictEqual(res.body.code, 'EDIT_WINDOW_CLOSED');
+  } finally {
+    await cleanupUsers([a.id, b.id]);
+  }
+});
+
+test('Messaging - unsend hides the message from both participants', async () => {
+  const [a, b] = await createUsers(2, { label: 'msgactions' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const messageId = await sendMessage(conversationId, a.id, 'oops');
+
+    const denied = await callRoute(messagingDomain, 'messaging.DELETE./messages/:messageId', b.id, {
+      params: { messageId }
+    });
+    assert.strictEqual(denied.status, 403);
+
+    const res = await callRoute(messagingDomain, 'messaging.DELETE./messages/:messageId', a.id, {
+      params: { messageId }
+    });
+    assert.strictEqual(res.status, 200);
+    assert.ok(res.body.deletedAt);
+
+    for (const viewer of [a.id, b.id]) {
+      const convo = await callRoute(messagingDomain, 'messaging.GET./conversations/:conversationId', viewer, {
+        params: { conversationId: String(conversationId) }
+      });
+      assert.ok(!convo.body.messages.some((m: { id: string }) => String(m.id) === messageId));
+    }
+  } finally {
+    await cleanupUsers([a.id, b.id]);
+  }
+});
+
+test('Messaging - reactions are grouped by emoji and can be removed', async () => {
+  const [a, b, outsider] = await createUsers(3, { label: 'msgactions' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const messageId = await sendMessage(conversationId, a.id, 'guess what');
+    const react = (userId: bigint, emoji: string) =>
+      callRoute(messagingDomain, 'messaging.POST./messages/:messageId/reactions', userId, {
+        params: { messageId },
+        body: { emoji }
+      });
+
+    const invalid = await react(b.id, 'not an emoji');
+    assert.strictEqual(invalid.status, 400);
+
+    const forbidden = await react(outsider.id, '👍');
+    assert.strictEqual(forbidden.status, 403);
+
+    await react(b.id, '❤️');
+    await react(a.id, '❤️');
+    const duplicate = await react(b.id, '❤️');
+    assert.strictEqual(duplicate.status, 200);
+    assert.deepStrictEqual(duplicate.body.reactions, [
+      { emoji: '❤️', userIds: [String(b.id), String(a.id)] }
+    ]);
+
+    const removed = await callRoute(
+      messagingDomain,
+      'messaging.DELETE./messages/:messageId/reactions/:emoji',
+      b.id,
+      { params: { messageId, emoji: '❤️' } }
+    );
+    assert.strictEqual(removed.status, 200);
+    assert.deepStrictEqual(removed.body.reactions, [{ emoji: '❤️', userIds: [String(a.id)] }]);
+  } finally {
+    await cleanupUsers([a.id, b.id, outsider.id]);
+  }
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { callRoute, cleanupUsers, createUsers, matchPair } from '../../../../__tests__/helpers.js';
+import { messagingDomain } from '../index.js';
+import { mediaService } from '../../../../services/media/mediaService.js';
+
+async function createReadyImage(ownerUserId: bigint) {
+  const storageKey = `test/${Date.now()}-${Math.floor(Math.random() * 1e6)}.jpg`;
+  return prisma.media.create({
+    data: {
+      userId: ownerUserId,
+      ownerUserId,
+      type: 'IMAGE',
+      status: 'READY',
+      storageKey,
+      mimeType: 'image/jpeg',
+      width: 640,
+      height: 480,
+      url: `/media/${storageKey}`
+    }
+  });
+}
+
+test('Messaging - attachments are listed for participants and served only through the message route', async () => {
+  const [a, b, outsider] = await createUsers(3, { label: 'msgmedia' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const media = await createReadyImage(a.id);
+
+    const sent = await callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/messages', a.id, {
+      params: { conversationId: String(conversationId) },
+      body: { mediaIds: [String(media.id)] }
+    });
+    assert.strictEqual(sent.status, 201);
+    assert.strictEqual(sent.body.attachments.length, 1);
+
+    const stored = await prisma.media.findUniqueOrThrow({ where: { id: media.id }, select: { visibility: true } });
+    assert.strictEqual(stored.visibility, 'PRIVATE');
+
+    const convo = await callRoute(messagingDomain, 'messaging.GET./conversations/:conversationId', b.id, {
+      params: { conversationId: String(conversationId) }
+    });
+    const item = convo.body.messages.find((m: { id: string }) => String(m.id) === String(sent.body.id));
+    assert.strictEqual(item.body, '');
+    assert.strictEqual(item.attachments[0].type, 'IMAGE');
+    assert.strictEqual(item.attachments[0].url, `/api/messages/${sent.body.id}/media/${media.id}`);
+
+    const params = { messageId: String(sent.body.id), mediaId: String(media.id) };
+    const forbidden = await callRoute(messagingDomain, 'messaging.GET./messages/:messageId/media/:mediaId', outsider.id, {
+      params
+    });
+    assert.strictEqual(forbidden.status, 403);
+    // The participant passes the access check; the fixture has no file on disk
+    const missingFile = await callRoute(messagingDomain, 'messaging.GET./messages/:messageId/media/:mediaId', b.id, {
+      params
+    });
+    assert.strictEqual(missingFile.status, 404);
+
+    await assert.rejects(mediaService.getMedia(media.id, b.id), { status: 403 });
+    await assert.rejects(mediaService.getMediaStreamByKey(media.storageKey!, outsider.id), { status: 403 });
+  } finally {
+    await cleanupUsers([a.id, b.id, outsider.id]);
+  }
+});
+
+test('Messaging - attachments must be owned by the sender and unused', async () => {
+  const [a, b] = await createUsers(2, { label: 'msgmedia' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const mine = await createReadyImage(a.id);
+    const theirs = await createReadyImage(b.id);
+    const send = (mediaIds: string[]) =>
+      callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/messages', a.id, {
+        params: { conversationId: String(conversationId) },
+        body: { body: 'look', mediaIds }
+      });
+
+    const notOwned = await send([String(theirs.id)]);
+    assert.strictEqual(notOwned.status, 403);
+
+    const first = await send([String(mine.id)]);
+    assert.strictEqual(first.status, 201);
+    const reused = await send([String(mine.id)]);
+    assert.strictEqual(reused.status, 409);
+
+    const empty = await callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/messages', a.id, {
+      params: { conversationId: String(conversationId) },
+      body: { body: '  ', mediaIds: [] }
+    });
+    assert.strictEqual(empty.status, 400);
+  } finally {
+    await cleanupUsers([a.id, b.id]);
+  }
+});
@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { messagingDomain } from '../index.js';
+import { matchesDomain } from '../../matches/index.js';
+import { safetyDomain } from '../../safety/index.js';
+import { buildSnippet, parseSearchTerms } from '../../../../services/messaging/messageSearch.js';
+import { callRoute, cleanupUsers, createUsers, matchPair, sendMessage } from '../../../../__tests__/helpers.js';
+
+async function search(userId: bigint, query: Record<string, string>) {
+  const res = await callRoute(messagingDomain, 'messaging.GET./messages/search', userId, { query });
+  assert.strictEqual(res.status, 200);
+  return res.body as {
+    hits: Array<{ messageId: string; conversationId: string; snippet: string; highlights: { start: number; end: number }[] }>;
+    nextCursorId: string | null;
+  };
+}
+
+test('Messaging search - terms ignore boolean operators and snippets mark word-start matches', () => {
+  assert.deepStrictEqual(parseSearchTerms('+Pizza -night* "pizza"'), ['pizza', 'night']);
+  assert.deepStrictEqual(parseSearchTerms('*** ()'), []);
+
+  const { snippet, highlights } = buildSnippet('Spinach pizza tonight? Pizzeria at nine', ['pizz', 'nine']);
+  assert.strictEqual(snippet, 'Spinach pizza tonight? Pizzeria at nine');
+  assert.deepStrictEqual(
+    highlights.map((h) => snippet.slice(h.start, h.end)),
+    ['pizz', 'Pizz', 'nine']
+  );
+
+  const long = `${'filler '.repeat(30)}the keyword sits here ${'tail '.repeat(40)}`;
+  const trimmed = buildSnippet(long, ['keyword']);
+  assert.ok(trimmed.snippet.startsWith('…') && trimmed.snippet.endsWith('…'));
+  assert.strictEqual(trimmed.snippet.slice(trimmed.highlights[0]!.start, trimmed.highlights[0]!.end), 'keyword');
+});
+
+test('Messaging search - finds own conversations only and skips unsent or hidden messages', async () => {
+  const [a, b, outsider] = await createUsers(3, { label: 'msgsearch' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const stamp = `zq${Date.now().toString(36)}`;
+    const send = async (body: string) => {
+      const res = await callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/messages', a.id, {
+        params: { conversationId: String(conversationId) },
+        body: { body }
+      });
+      return String(res.body.id);
+    };
+
+    const hidden = await send(`${stamp} before hiding`);
+    await callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/delete', b.id, {
+      params: { conversationId: String(conversationId) }
+    });
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    const first = await send(`lunch at the ${stamp} place?`);
+    const second = await send(`${stamp} again tomorrow`);
+    const unsent = await send(`${stamp} oops`);
+    await callRoute(messagingDomain, 'messaging.DELETE./messages/:messageId', a.id, { params: { messageId: unsent } });
+
+    const forSender = await search(a.id, { q: stamp });
+    assert.deepStrictEqual(
+      forSender.hits.map((h) => String(h.messageId)),
+      [second, first, hidden]
+    );
+
+    const forRecipient = await search(b.id, { q: stamp, take: '1' });
+    assert.deepStrictEqual(forRecipient.hits.map((h) => String(h.messageId)), [second]);
+    assert.ok(forRecipient.nextCursorId);
+    const nextPage = await search(b.id, { q: stamp, take: '1', cursorId: String(forRecipient.nextCursorId) });
+    assert.deepStrictEqual(nextPage.hits.map((h) => String(h.messageId)), [first]);
+    assert.strictEqual(nextPage.nextCursorId, null);
+    const hit = nextPage.hits[0]!;
+    assert.strictEqual(hit.snippet.slice(hit.highlights[0]!.start, hit.highlights[0]!.end), stamp);
+
+    const forOutsider = await search(outsider.id, { q: stamp });
+    assert.strictEqual(forOutsider.hits.length, 0);
+
+    const empty = await callRoute(messagingDomain, 'messaging.GET./messages/search', a.id, { query: { q: '+-*' } });
+    assert.strictEqual(empty.status, 400);
+  } finally {
+    await cleanupUsers([a.id, b.id, outsider.id]);
+  }
+});
+
+test('Messaging search - follows the inbox: unmatched conversations stay searchable, blocked ones do not', async () => {
+  const [a, b, c] = await createUsers(3, { label: 'msgsearch' });
+  try {
+    const unmatched = await matchPair(a.id, b.id);
+    const blocked = await matchPair(a.id, c.id);
+    const stamp = `zq${Date.now().toString(36)}`;
+    const fromB = await sendMessage(unmatched.conversationId, b.id, `${stamp} from b`);
+    await sendMessage(blocked.conversationId, c.id, `${stamp} from c`);
+
+    await callRoute(matchesDomain, 'matches.POST./matches/:matchId/unmatch', b.id, {
+      params: { matchId: String(unmatched.matchId) }
+    });
+    const block = await callRoute(safetyDomain, 'safety.POST./users/:userId/block', a.id, {
+      params: { userId: String(c.id) }
+    });
+    assert.strictEqual(block.status, 200);
+
+    const forA = await search(a.id, { q: stamp });
+    assert.deepStrictEqual(forA.hits.map((h) => String(h.messageId)), [fromB]);
+
+    // Nor does the blocked user find the conversation
+    const forC = await search(c.id, { q: stamp });
+    assert.strictEqual(forC.hits.length, 0);
+  } finally {
+    await cleanupUsers([a.id, b.id, c.id]);
+  }
+});
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { callRoute, cleanupUsers, createUsers, matchPair, sendMessage } from '../../../../__tests__/helpers.js';
+import { messagingDomain } from '../index.js';
+import { preferencesDomain } from '../../preferences/index.js';
+
+async function inboxUnread(userId: bigint, conversationId: bigint) {
+  const res = await callRoute(messagingDomain, 'messaging.GET./inbox', userId);
+  assert.strictEqual(res.status, 200);
+  const convo = res.body.conversations.find((c: { id: string }) => String(c.id) === String(conversationId));
+  assert.ok(convo);
+  return convo.unreadCount as number;
+}
+
+function readUpTo(conversationId: bigint, userId: bigint, messageId: string) {
+  return callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/read-up-to', userId, {
+    params: { conversationId: String(conversationId) },
+    body: { messageId }
+  });
+}
+
+test('Messaging - read-up-to moves a watermark that drives inbox unread counts', async () => {
+  const [a, b] = await createUsers(2, { label: 'msgread' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const first = await sendMessage(conversationId, a.id, 'one');
+    const second = await sendMessage(conversationId, a.id, 'two');
+    const third = await sendMessage(conversationId, a.id, 'three');
+    await sendMessage(conversationId, b.id, 'reply');
+
+    // Sending no longer writes per-message receipts
+    const receipts = await prisma.messageReceipt.count({ where: { message: { conversationId } } });
+    assert.strictEqual(receipts, 0);
+
+    assert.strictEqual(await inboxUnread(b.id, conversationId), 3);
+    assert.strictEqual(await inboxUnread(a.id, conversationId), 1);
+
+    const read = await readUpTo(conversationId, b.id, second);
+    assert.strictEqual(read.status, 200);
+    assert.strictEqual(String(read.body.lastReadMessageId), second);
+    assert.strictEqual(read.body.unreadCount, 1);
+    assert.strictEqual(await inboxUnread(b.id, conversationId), 1);
+
+    // Watermarks never move backwards
+    const stale = await readUpTo(conversationId, b.id, first);
+    assert.strictEqual(String(stale.body.lastReadMessageId), second);
+
+    const convo = await callRoute(messagingDomain, 'messaging.GET./conversations/:conversationId', a.id, {
+      params: { conversationId: String(conversationId) }
+    });
+    assert.strictEqual(String(convo.body.otherLastReadMessageId), second);
+
+    // The per-message route still works for older clients
+    const legacy = await callRoute(messagingDomain, 'messaging.POST./messages/:messageId/read', b.id, {
+      params: { messageId: third }
+    });
+    assert.strictEqual(legacy.status, 200);
+    assert.strictEqual(await inboxUnread(b.id, conversationId), 0);
+  } finally {
+    await cleanupUsers([a.id, b.id]);
+  }
+});
+
+test('Messaging - read-up-to rejects messages from other conversations and outsiders', async () => {
+  const [a, b, c] = await createUsers(3, { label: 'msgread' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const { conversationId: otherConversationId } = await matchPair(a.id, c.id);
+    const foreign = await sendMessage(otherConversationId, c.id, 'elsewhere');
+
+    const wrongConversation = await readUpTo(conversationId, b.id, foreign);
+    assert.strictEqual(wrongConversation.status, 404);
+
+    const outsider = await readUpTo(otherConversationId, b.id, foreign);
+    assert.strictEqual(outsider.status, 403);
+
+    const missing = await callRoute(messagingDomain, 'messaging.POST./conversations/:conversationId/read-up-to', b.id, {
+      params: { conversationId: String(conversationId) }
+    });
+    assert.strictEqual(missing.status, 400);
+  } finally {
+    await cleanupUsers([a.id, b.id, c.id]);
+  }
+});
+
+test('Messaging - disabled read receipts keep the watermark from the other participant', async () => {
+  const [a, b] = await createUsers(2, { label: 'msgread' });
+  try {
+    const { conversationId } = await matchPair(a.id, b.id);
+    const sent = await sendMessage(conversationId, a.id, 'did you see this?');
+
+    const invalid = await callRoute(preferencesDomain, 'preferences.PATCH./preferences/privacy', b.id, {
+      body: { disableReadReceipts: 'yes' }
+    });
+    assert.strictEqual(invalid.status, 400);
+    const saved = await callRoute(preferencesDomain, 'preferences.PATCH./preferences/privacy', b.id, {
+      body: { disableReadReceipts: true }
+    });
+    assert.strictEqual(saved.status, 200);
+    assert.strictEqual(saved.body.disableReadReceipts, true);
+    assert.strictEqual(saved.body.hideOnlineStatus, false);
+
+    const read = await readUpTo(conversationId, b.id, sent);
+    assert.strictEqual(read.status, 200);
+    assert.strictEqual(read.body.unreadCount, 0);
+
+    const forSender = await callRoute(messagingDomain, 'messaging.GET./conversations/:conversationId', a.id, {
+      params: { conversationId: String(conversationId) }
+    });
+    assert.strictEqual(forSender.body.otherLastReadMessageId, null);
+    const forReader = await callRoute(messagingDomain, 'messaging.GET./conversations/:conversationId', b.id, {
+      params: { conversationId: String(conversationId) }
+    });
+    assert.strictEqual(String(forReader.body.lastReadMessageId), sent);
+  } finally {
+    await cleanupUsers([a.id, b.id]);
+  }
+});
@@ -2,11 +2,43 @@ import type { DomainRegistry } from '../../types.js';
 import { Auth } from '../../../lib/auth/rules.js';
 import { prisma } from '../../../lib/prisma/client.js';
 import { json } from '../../../lib/http/json.js';
-import { assertConversationParticipant } from '../../../lib/auth/guards.js';
-import { parseLimit, parseOptionalPositiveBigInt, parsePositiveBigInt } from '../../../lib/http/parse.js';
+import { assertConversationParticipant, assertEmailVerified, assertRecipientAvailable } from '../../../lib/auth/guards.js';
+import {
+  parseLimit,
+  parseOptionalPositiveBigInt,
+  parseOptionalPositiveBigIntList,
+  parsePositiveBigInt
+} from '../../../lib/http/parse.js';
 import { toAvatarUrl } from '../../../services/media/presenter.js';
+import { MediaError } from '../../../services/media/mediaService.js';
 import { getCompatibilityMap, resolveCompatibility } from '../../../services/compatibility/compatibilityService.js';
 import { notify } from '../../../ws/notify.js';
+import { isBlockedBetween } from '../../../services/safety/blockFilter.js';
+import {
+  MESSAGE_EDIT_WINDOW_MS,
+  emitMessageDeleted,
+  emitMessageEdited,
+  emitReactionsUpdated,
+  loadReactionSummaries,
+  parseReactionEmoji
+} from '../../../services/messaging/messageEvents.js';
+import {
+  assertAttachableMedia,
+  getMessageAttachmentStream,
+  loadMessageAttachments
+} from '../../../services/messaging/messageAttachments.js';
+import {
+  SEARCH_QUERY_MAX_LENGTH,
+  parseSearchTerms,
+  searchMessages
+} from '../../../services/messaging/messageSearch.js';
+import {
+  advanceReadWatermark,
+  countUnreadMessages,
+  emitReadWatermark,
+  getReadWatermark
+} from '../../../services/messaging/readWatermark.js';
+import { getPrivacySettings } from '../../../services/privacy/privacySettings.js';
 import type { WsMessage, WsSubscribeTopic } from '@app/shared';
 import type { ServerEventType, WsEvents } from '@app/shared';
 
@@ -32,16 +64,10 @@ export const messagingDomain: DomainRegistry = {
 
         if (targetId === me) return json(res, { error: 'Cannot message yourself' }, 400);
 
-        const blocked = await prisma.userBlock.findFirst({
-          where: {
-            OR: [
-              { blockerId: me, blockedId: targetId },
-              { blockerId: targetId, blockedId: me }
-            ]
-          },
-          select: { id: true }
-        });
-        if (blocked) return json(res, { error: 'User is blocked' }, 403);
+        if (await isBlockedBetween(me, targetId)) return json(res, { error: 'User is blocked' }, 403);
+
+        const recipient = await assertRecipientAvailable(targetId);
+        if (!recipient.ok) return json(res, { error: recipient.error, code: recipient.code }, recipient.status);
 
         const pair = orderedPair(me, targetId);
         const conversation = await prisma.conversation.upsert({
@@ -108,7 +134,8 @@ export const messagingDomain: DomainRegistry = {
           where: {
             AND: [
               { OR: [{ userAId: me }, { userBId: me }] },
-              { OR: [{ match: { state: 'ACTIVE' } }, { matchId: null }] },
+              // Unmatched (CLOSED) conversations stay listed read-only; blocked ones are gone
+              { OR: [{ match: { state: { in: ['ACTIVE', 'CLOSED'] } } }, { matchId: null }] },
               ...(cursorFilter ? [cursorFilter] : [])
             ]
           },
@@ -119,13 +146,15 @@ export const messagingDomain: DomainRegistry = {
             updatedAt: true,
             userAId: true,
             userBId: true,
+            match: { select: { state: true } },
             userA: { select: { id: true, profile: { select: { displayName: true, avatarMedia: { select: mediaSelect } } } } },
             userB: { select: { id: true, profile: { select: { displayName: true, avatarMedia: { select: mediaSelect } } } } },
             userStates: {
               where: { userId: me },
-              select: { deletedAt: true }
+              select: { deletedAt: true, lastReadMessageId: true }
             },
             messages: {
+              where: { deletedAt: null },
               orderBy: { createdAt: 'desc' },
               take: 1,
               select: {
@@ -134,7 +163,8 @@ export const messagingDomain: DomainRegistry = {
                 createdAt: true,
                 senderId: true,
                 isSystem: true,
-                followRequest: { select: { id: true, status: true } }
+                followRequest: { select: { id: true, status: true } },
+                _count: { select: { media: true } }
               }
             }
           }
@@ -148,23 +178,14 @@ export const messagingDomain: DomainRegistry = {
         const limited = visible.slice(0, take);
         const nextCursorId = convos.length === fetchTake ? convos[convos.length - 1]!.id : null;
 
-        const convoIds = limited.map(c => c.id);
-        const deletedAtMap = new Map<string, Date | null>();
-        for (const convo of limited) {
-          deletedAtMap.set(convo.id.toString(), convo.userStates[0]?.deletedAt ?? null);
-        }
-
-        const unreadCounts = await prisma.messageReceipt.findMany({
-          where: { userId: me, readAt: null, message: { conversationId: { in: convoIds } } },
-          select: { message: { select: { conversationId: true, createdAt: true } } }
-        });
-        const unreadMap: Record<string, number> = {};
-        for (const r of unreadCounts) {
-          const k = r.message.conversationId.toString();
-          const deletedAt = deletedAtMap.get(k);
-          if (deletedAt && r.message.createdAt <= deletedAt) continue;
-          unreadMap[k] = (unreadMap[k] ?? 0) + 1;
-        }
+        const unreadMap = await countUnreadMessages(
+          me,
+          limited.map((c) => ({
+            conversationId: c.id,
+            lastReadMessageId: c.userStates[0]?.lastReadMessageId ?? null,
+            deletedAt: c.userStates[0]?.deletedAt ?? null
+          }))
+        );
 
         const otherUserIds = limited.map((c) => (c.userAId === me ? c.userBId : c.userAId));
         const compatibilityMap = await getCompatibilityMap(me, otherUserIds);
@@ -183,13 +204,19 @@ export const messagingDomain: DomainRegistry = {
               profile: otherProfile,
               compatibility: resolveCompatibility(me, compatibilityMap, rawOther.id)
             };
-            const lastMessage = c.messages[0] ?? null;
+            const lastMessage = c.messages[0]
+              ? (() => {
+                  const { _count, ...message } = c.messages[0];
+                  return { ...message, attachmentCount: _count.media };
+                })()
+              : null;
             return {
               id: c.id,
               updatedAt: c.updatedAt,
               otherUser,
               lastMessage,
-              unreadCount: unreadMap[c.id.toString()] ?? 0
+              unreadCount: unreadMap.get(c.id.toString()) ?? 0,
+              readOnly: c.match?.state === 'CLOSED'
             };
           }),
           nextCursorId
@@ -209,7 +236,7 @@ export const messagingDomain: DomainRegistry = {
         if (!convoParsed.ok) return json(res, { error: convoParsed.error }, 400);
         const conversationId = convoParsed.value;
 
-        const guard = await assertConversationParticipant(conversationId, me);
+        const guard = await assertConversationParticipant(conversationId, me, { allowReadOnly: true });
         if (!guard.ok) return json(res, { error: guard.error }, guard.status);
 
         const takeParsed = parseLimit(req.query.take, 50, 200);
@@ -220,10 +247,15 @@ export const messagingDomain: DomainRegistry = {
         const take = takeParsed.value;
         const cursorId = cursorParsed.value;
 
-        const state = await prisma.conversationUserState.findUnique({
-          where: { conversationId_userId: { conversationId, userId: me } },
-          select: { deletedAt: true }
-        });
+        const otherUserId = guard.conversation.userAId === me ? guard.conversation.userBId : guard.conversation.userAId;
+        const [state, otherWatermark, otherPrivacy] = await Promise.all([
+          prisma.conversationUserState.findUnique({
+            where: { conversationId_userId: { conversationId, userId: me } },
+            select: { deletedAt: true, lastReadMessageId: true }
+          }),
+          getReadWatermark(conversationId, otherUserId),
+          getPrivacySettings(otherUserId)
+        ]);
         const deletedAt = state?.deletedAt ?? null;
 
         const messages = await prisma.message.findMany({
@@ -240,14 +272,66 @@ export const messagingDomain: DomainRegistry = {
             body: true,
             senderId: true,
             createdAt: true,
+            editedAt: true,
             isSystem: true,
             followRequest: { select: { id: true, status: true } }
           }
         });
 
         const nextCursorId = messages.length === take ? messages[messages.length - 1]!.id : null;
+        const messageIds = messages.map((m) => m.id);
+        const [reactions, attachments] = await Promise.all([
+          loadReactionSummaries(messageIds),
+          loadMessageAttachments(messageIds)
+        ]);
+
+        return json(res, {
+          conversationId,
+          messages: messages.map((m) => ({
+            ...m,
+            reactions: reactions.get(String(m.id)) ?? [],
+            attachments: attachments.get(String(m.id)) ?? []
+          })),
+          nextCursorId,
+          readOnly: guard.readOnly,
+          lastReadMessageId: state?.lastReadMessageId ?? null,
+          // Read receipts are the other participant's to share
+          otherLastReadMessageId: otherPrivacy.disableReadReceipts ? null : otherWatermark.lastReadMessageId
+        });
+      }
+    },
+    {
+      id: 'messaging.GET./messages/search',
+      method: 'GET',
+      path: '/messages/search',
+      auth: Auth.user(),
+      summary: 'Search messages across conversations',
+      tags: ['messaging'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+        if (!q) return json(res, { error: 'q required' }, 400);
+        if (q.length > SEARCH_QUERY_MAX_LENGTH) {
+          return json(res, { error: `q must be at most ${SEARCH_QUERY_MAX_LENGTH} characters` }, 400);
+        }
+        const terms = parseSearchTerms(q);
+        if (!terms.length) return json(res, { error: 'q must contain a word' }, 400);
+
+        const takeParsed = parseLimit(req.query.take, 20, 50);
+        if (!takeParsed.ok) return json(res, { error: takeParsed.error }, 400);
+        const cursorParsed = parseOptionalPositiveBigInt(req.query.cursorId, 'cursorId');
+        if (!cursorParsed.ok) return json(res, { error: cursorParsed.error }, 400);
+        const convoParsed = parseOptionalPositiveBigInt(req.query.conversationId, 'conversationId');
+        if (!convoParsed.ok) return json(res, { error: convoParsed.error }, 400);
 
-        return json(res, { conversationId, messages, nextCursorId });
+        const result = await searchMessages({
+          userId: me,
+          terms,
+          take: takeParsed.value,
+          cursorId: cursorParsed.value,
+          conversationId: convoParsed.value
+        });
+        return json(res, { q, ...result });
       }
     },
     {
@@ -263,7 +347,7 @@ export const messagingDomain: DomainRegistry = {
         if (!convoParsed.ok) return json(res, { error: convoParsed.error }, 400);
         const conversationId = convoParsed.value;
 
-        const guard = await assertConversationParticipant(conversationId, me);
+        const guard = await assertConversationParticipant(conversationId, me, { allowReadOnly: true });
         if (!guard.ok) return json(res, { error: guard.error }, guard.status);
 
         await prisma.conversationUserState.upsert({
@@ -287,27 +371,45 @@ export const messagingDomain: DomainRegistry = {
         const convoParsed = parsePositiveBigInt(req.params.conversationId, 'conversationId');
         if (!convoParsed.ok) return json(res, { error: convoParsed.error }, 400);
         const conversationId = convoParsed.value;
-        const { body } = (req.body ?? {}) as { body?: string };
-        if (!body || !body.trim()) return json(res, { error: 'body required' }, 400);
+        const { body, mediaIds } = (req.body ?? {}) as { body?: string; mediaIds?: unknown };
+        const mediaParsed = parseOptionalPositiveBigIntList(mediaIds, 'mediaIds');
+        if (!mediaParsed.ok) return json(res, { error: mediaParsed.error }, 400);
+        const attachmentIds = mediaParsed.value ?? [];
+        const text = typeof body === 'string' ? body.trim() : '';
+        if (!text && !attachmentIds.length) return json(res, { error: 'body or mediaIds required' }, 400);
+
+        const verified = await assertEmailVerified(me);
+        if (!verified.ok) return json(res, { error: verified.error, code: verified.code }, verified.status);
 
         const guard = await assertConversationParticipant(conversationId, me);
-        if (!guard.ok) return json(res, { error: guard.error }, guard.status);
+        if (!guard.ok) return json(res, { error: guard.error, code: guard.code }, guard.status);
 
-        const otherUserId = guard.conversation.userAId === me ? guard.conversation.userBId : guard.conversation.userAId;
+        try {
+          await assertAttachableMedia(attachmentIds, me);
+        } catch (err) {
+          if (err instanceof MediaError) return json(res, { error: err.message }, err.status);
+          throw err;
+        }
 
-        const msg = await prisma.message.create({
-          data: {
-            conversationId,
-            senderId: me,
-            body: body.trim(),
-            receipts: {
-              create: [
-                { userId: otherUserId, readAt: null },
-                { userId: me, readAt: new Date() }
-              ]
-            }
-          },
-          select: { id: true, body: true, senderId: true, createdAt: true, isSystem: true }
+        const otherUserId = guard.conversation.userAId === me ? guard.conversation.userBId : guard.conversation.userAId;
+        const recipient = await assertRecipientAvailable(otherUserId);
+        if (!recipient.ok) return json(res, { error: recipient.error, code: recipient.code }, recipient.status);
+
+        const msg = await prisma.$transaction(async (tx) => {
+          const created = await tx.message.create({
+            data: {
+              conversationId,
+              senderId: me,
+              body: text,
+              media: { create: attachmentIds.map((mediaId, order) => ({ mediaId, order })) }
+            },
+            select: { id: true, body: true, senderId: true, createdAt: true, isSystem: true }
+          });
+          // Attachments are conversation-private from here on
+          if (attachmentIds.length) {
+            await tx.media.updateMany({ where: { id: { in: attachmentIds } }, data: { visibility: 'PRIVATE' } });
+          }
+          return created;
         });
 
         // bump conversation updatedAt
@@ -323,6 +425,7 @@ export const messagingDomain: DomainRegistry = {
             body: msg.body,
             createdAt: msg.createdAt.toISOString(),
             isSystem: msg.isSystem,
+            mediaIds: attachmentIds.map(String),
           },
           ts: Date.now(),
         };
@@ -332,7 +435,98 @@ export const messagingDomain: DomainRegistry = {
         ];
         notify({ event, targets });
 
-        return json(res, { id: msg.id, createdAt: msg.createdAt }, 201);
+        const attachments = await loadMessageAttachments([msg.id]);
+        return json(
+          res,
+          { id: msg.id, createdAt: msg.createdAt, attachments: attachments.get(String(msg.id)) ?? [] },
+          201
+        );
+      }
+    },
+    {
+      id: 'messaging.GET./messages/:messageId/media/:mediaId',
+      method: 'GET',
+      path: '/messages/:messageId/media/:mediaId',
+      auth: Auth.user(),
+      summary: 'Stream a message attachment',
+      tags: ['messaging'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const msgParsed = parsePositiveBigInt(req.params.messageId, 'messageId');
+        if (!msgParsed.ok) return json(res, { error: msgParsed.error }, 400);
+        const mediaParsed = parsePositiveBigInt(req.params.mediaId, 'mediaId');
+        if (!mediaParsed.ok) return json(res, { error: mediaParsed.error }, 400);
+
+        let attachment: Awaited<ReturnType<typeof getMessageAttachmentStream>>;
+        try {
+          attachment = await getMessageAttachmentStream(msgParsed.value, mediaParsed.value, me);
+        } catch (err) {
+          if (err instanceof MediaError) return json(res, { error: err.message }, err.status);
+          throw err;
+        }
+
+        res.status(200);
+        res.setHeader('Content-Type', attachment.mimeType);
+        if (attachment.sizeBytes != null) res.setHeader('Content-Length', String(attachment.sizeBytes));
+        res.setHeader('Cache-Control', 'private, max-age=3600');
+        attachment.stream.on('error', (err) => {
+          console.error(`[messaging] Attachment stream error for media ${mediaParsed.value}:`, err);
+          if (!res.headersSent) res.status(500);
+          res.end();
+        });
+        attachment.stream.pipe(res);
+      }
+    },
+    {
+      id: 'messaging.POST./conversations/:conversationId/read-up-to',
+      method: 'POST',
+      path: '/conversations/:conversationId/read-up-to',
+      auth: Auth.user(),
+      summary: 'Mark conversation read up to a message',
+      tags: ['messaging'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const convoParsed = parsePositiveBigInt(req.params.conversationId, 'conversationId');
+        if (!convoParsed.ok) return json(res, { error: convoParsed.error }, 400);
+        const conversationId = convoParsed.value;
+        const { messageId: rawMessageId } = (req.body ?? {}) as { messageId?: unknown };
+        const msgParsed = parsePositiveBigInt(rawMessageId, 'messageId');
+        if (!msgParsed.ok) return json(res, { error: msgParsed.error }, 400);
+        const messageId = msgParsed.value;
+
+        const guard = await assertConversationParticipant(conversationId, me, { allowReadOnly: true });
+        if (!guard.ok) return json(res, { error: guard.error }, guard.status);
+
+        const message = await prisma.message.findUnique({
+          where: { id: messageId },
+          select: { conversationId: true }
+        });
+        if (!message || message.conversationId !== conversationId) {
+          return json(res, { error: 'Message not found' }, 404);
+        }
+
+        const watermark = await advanceReadWatermark(conversationId, me, messageId);
+        if (watermark.advanced) {
+          const { disableReadReceipts } = await getPrivacySettings(me);
+          emitReadWatermark(guard.conversation, me, messageId, watermark.lastReadAt!, {
+            shareWithOther: !disableReadReceipts
+          });
+        }
+
+        const state = await prisma.conversationUserState.findUnique({
+          where: { conversationId_userId: { conversationId, userId: me } },
+          select: { deletedAt: true }
+        });
+        const unread = await countUnreadMessages(me, [
+          { conversationId, lastReadMessageId: watermark.lastReadMessageId, deletedAt: state?.deletedAt ?? null }
+        ]);
+
+        return json(res, {
+          conversationId,
+          lastReadMessageId: watermark.lastReadMessageId,
+          lastReadAt: watermark.lastReadAt,
+          unreadCount: unread.get(String(conversationId)) ?? 0
+        });
       }
     },
     {
@@ -350,36 +544,211 @@ export const messagingDomain: DomainRegistry = {
 
         const message = await prisma.message.findUnique({
           where: { id: messageId },
-          select: { id: true, conversationId: true, senderId: true }
+          select: { id: true, conversationId: true }
         });
         if (!message) return json(res, { error: 'Message not found' }, 404);
 
+        const guard = await assertConversationParticipant(message.conversationId, me, { allowReadOnly: true });
+        if (!guard.ok) return json(res, { error: guard.error }, guard.status);
+
+        // Kept for older clients; reading one message reads everything before it
+        const watermark = await advanceReadWatermark(message.conversationId, me, messageId);
+        if (watermark.advanced) {
+          const { disableReadReceipts } = await getPrivacySettings(me);
+          emitReadWatermark(guard.conversation, me, messageId, watermark.lastReadAt!, {
+            shareWithOther: !disableReadReceipts
+          });
+        }
+
+        return json(res, { ok: true });
+      }
+    },
+    {
+      id: 'messaging.PATCH./messages/:messageId',
+      method: 'PATCH',
+      path: '/messages/:messageId',
+      auth: Auth.user(),
+      summary: 'Edit own message',
+      tags: ['messaging'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const msgParsed = parsePositiveBigInt(req.params.messageId, 'messageId');
+        if (!msgParsed.ok) return json(res, { error: msgParsed.error }, 400);
+        const messageId = msgParsed.value;
+        const { body } = (req.body ?? {}) as { body?: unknown };
+        const nextBody = typeof body === 'string' ? body.trim() : '';
+        if (!nextBody) return json(res, { error: 'body required' }, 400);
+
+        const message = await prisma.message.findUnique({
+          where: { id: messageId },
+          select: {
+            id: true,
+            conversationId: true,
+            senderId: true,
+            body: true,
+            isSystem: true,
+            createdAt: true,
+            editedAt: true,
+            deletedAt: true
+          }
+        });
+        if (!message || message.deletedAt) return json(res, { error: 'Message not found' }, 404);
+
         const guard = await assertConversationParticipant(message.conversationId, me);
+        if (!guard.ok) return json(res, { error: guard.error, code: guard.code }, guard.status);
+        if (message.senderId !== me || message.isSystem) {
+          return json(res, { error: 'Only the sender can edit a message' }, 403);
+        }
+        if (Date.now() - message.createdAt.getTime() > MESSAGE_EDIT_WINDOW_MS) {
+          return json(res, { error: 'This message can no longer be edited', code: 'EDIT_WINDOW_CLOSED' }, 403);
+        }
+
+        if (nextBody === message.body) {
+          return json(res, { id: message.id, body: message.body, editedAt: message.editedAt });
+        }
+
+        // The edit row keeps the body being replaced, so history reads oldest first
+        const editedAt = new Date();
+        await prisma.$transaction([
+          prisma.messageEdit.create({ data: { messageId, body: message.body, editedAt } }),
+          prisma.message.update({ where: { id: messageId }, data: { body: nextBody, editedAt } })
+        ]);
+
+        emitMessageEdited(guard.conversation, messageId, nextBody, editedAt);
+
+        return json(res, { id: messageId, body: nextBody, editedAt });
+      }
+    },
+    {
+      id: 'messaging.GET./messages/:messageId/edits',
+      method: 'GET',
+      path: '/messages/:messageId/edits',
+      auth: Auth.user(),
+      summary: 'Edit history of a message',
+      tags: ['messaging'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const msgParsed = parsePositiveBigInt(req.params.messageId, 'messageId');
+        if (!msgParsed.ok) return json(res, { error: msgParsed.error }, 400);
+        const messageId = msgParsed.value;
+
+        const message = await prisma.message.findUnique({
+          where: { id: messageId },
+          select: { id: true, conversationId: true, deletedAt: true }
+        });
+        if (!message || message.deletedAt) return json(res, { error: 'Message not found' }, 404);
+
+        const guard = await assertConversationParticipant(message.conversationId, me, { allowReadOnly: true });
         if (!guard.ok) return json(res, { error: guard.error }, guard.status);
 
-        const readAt = new Date();
-        await prisma.messageReceipt.update({
-          where: { messageId_userId: { messageId, userId: me } },
-          data: { readAt }
-        }).catch(() => null);
+        const edits = await prisma.messageEdit.findMany({
+          where: { messageId },
+          orderBy: { id: 'asc' },
+          select: { body: true, editedAt: true }
+        });
 
-        // Emit WebSocket event for real-time read receipt
-        const event: WsMessage<'server.messenger.message_read'> = {
-          type: 'server.messenger.message_read',
-          data: {
-            conversationId: String(message.conversationId),
-            messageId: String(messageId),
-            readerId: String(me),
-            readAt: readAt.toISOString(),
-          },
-          ts: Date.now(),
-        };
-        const targets: WsSubscribeTopic[] = [
-          { kind: 'user', id: String(message.senderId) },
-        ];
-        notify({ event, targets });
+        return json(res, { messageId, edits });
+      }
+    },
+    {
+      id: 'messaging.DELETE./messages/:messageId',
+      method: 'DELETE',
+      path: '/messages/:messageId',
+      auth: Auth.user(),
+      summary: 'Unsend own message for both participants',
+      tags: ['messaging'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const msgParsed = parsePositiveBigInt(req.params.messageId, 'messageId');
+        if (!msgParsed.ok) return json(res, { error: msgParsed.error }, 400);
+        const messageId = msgParsed.value;
 
-        return json(res, { ok: true });
+        const message = await prisma.message.findUnique({
+          where: { id: messageId },
+          select: { id: true, conversationId: true, senderId: true, isSystem: true, deletedAt: true }
+        });
+        if (!message || message.deletedAt) return json(res, { error: 'Message not found' }, 404);
+
+        // Unsending stays possible after an unmatch
+        const guard = await assertConversationParticipant(message.conversationId, me, { allowReadOnly: true });
+        if (!guard.ok) return json(res, { error: guard.error }, guard.status);
+        if (message.senderId !== me || message.isSystem) {
+          return json(res, { error: 'Only the sender can unsend a message' }, 403);
+        }
+
+        const deletedAt = new Date();
+        await prisma.message.update({ where: { id: messageId }, data: { deletedAt } });
+
+        emitMessageDeleted(guard.conversation, messageId, deletedAt);
+
+        return json(res, { ok: true, deletedAt });
+      }
+    },
+    {
+      id: 'messaging.POST./messages/:messageId/reactions',
+      method: 'POST',
+      path: '/messages/:messageId/reactions',
+      auth: Auth.user(),
+      summary: 'React to a message with an emoji',
+      tags: ['messaging'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const msgParsed = parsePositiveBigInt(req.params.messageId, 'messageId');
+        if (!msgParsed.ok) return json(res, { error: msgParsed.error }, 400);
+        const messageId = msgParsed.value;
+        const emoji = parseReactionEmoji((req.body as { emoji?: unknown } | undefined)?.emoji);
+        if (!emoji) return json(res, { error: 'emoji must be a single emoji' }, 400);
+
+        const message = await prisma.message.findUnique({
+          where: { id: messageId },
+          select: { id: true, conversationId: true, isSystem: true, deletedAt: true }
+        });
+        if (!message || message.deletedAt || message.isSystem) return json(res, { error: 'Message not found' }, 404);
+
+        const guard = await assertConversationParticipant(message.conversationId, me);
+        if (!guard.ok) return json(res, { error: guard.error, code: guard.code }, guard.status);
+
+        await prisma.messageReaction.createMany({
+          data: [{ messageId, userId: me, emoji }],
+          skipDuplicates: true
+        });
+
+        const reactions = (await loadReactionSummaries([messageId])).get(String(messageId)) ?? [];
+        emitReactionsUpdated(guard.conversation, messageId, reactions);
+
+        return json(res, { messageId, reactions });
+      }
+    },
+    {
+      id: 'messaging.DELETE./messages/:messageId/reactions/:emoji',
+      method: 'DELETE',
+      path: '/messages/:messageId/reactions/:emoji',
+      auth: Auth.user(),
+      summary: 'Remove own emoji reaction',
+      tags: ['messaging'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const msgParsed = parsePositiveBigInt(req.params.messageId, 'messageId');
+        if (!msgParsed.ok) return json(res, { error: msgParsed.error }, 400);
+        const messageId = msgParsed.value;
+        const emoji = parseReactionEmoji(req.params.emoji);
+        if (!emoji) return json(res, { error: 'emoji must be a single emoji' }, 400);
+
+        const message = await prisma.message.findUnique({
+          where: { id: messageId },
+          select: { id: true, conversationId: true, deletedAt: true }
+        });
+        if (!message || message.deletedAt) return json(res, { error: 'Message not found' }, 404);
+
+        const guard = await assertConversationParticipant(message.conversationId, me);
+        if (!guard.ok) return json(res, { error: guard.error, code: guard.code }, guard.status);
+
+        const { count } = await prisma.messageReaction.deleteMany({ where: { messageId, userId: me, emoji } });
+
+        const reactions = (await loadReactionSummaries([messageId])).get(String(messageId)) ?? [];
+        if (count) emitReactionsUpdated(guard.conversation, messageId, reactions);
+
+        return json(res, { messageId, reactions });
       }
     }
   ]
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { callRoute, cleanupUsers, createUsers } from '../../../../__tests__/helpers.js';
+import { notificationsDomain } from '../index.js';
+import { matchesDomain } from '../../matches/index.js';
+import { createNotification } from '../../../../services/notifications/notificationService.js';
+
+test('Notifications - a new match notifies both users and can be marked read', async () => {
+  const [a, b, outsider] = await createUsers(3, { label: 'notif' });
+  try {
+    await callRoute(matchesDomain, 'matches.POST./likes', a.id, { body: { toUserId: String(b.id), action: 'LIKE' } });
+    const like = await callRoute(matchesDomain, 'matches.POST./likes', b.id, {
+      body: { toUserId: String(a.id), action: 'LIKE' }
+    });
+    assert.strictEqual(like.body.matched, true);
+
+    const list = await callRoute(notificationsDomain, 'notifications.GET./notifications', a.id);
+    assert.strictEqual(list.status, 200);
+    assert.strictEqual(list.body.unreadCount, 1);
+    const [notification] = list.body.notifications;
+    assert.strictEqual(notification.type, 'MATCH_NEW');
+    assert.strictEqual(String(notification.actor.id), String(b.id));
+    assert.ok(notification.data.conversationId);
+    assert.strictEqual(notification.readAt, null);
+
+    const foreign = await callRoute(notificationsDomain, 'notifications.POST./notifications/:notificationId/read', outsider.id, {
+      params: { notificationId: String(notification.id) }
+    });
+    assert.strictEqual(foreign.status, 404);
+
+    const read = await callRoute(notificationsDomain, 'notifications.POST./notifications/:notificationId/read', a.id, {
+      params: { notificationId: String(notification.id) }
+    });
+    assert.strictEqual(read.status, 200);
+    assert.strictEqual(read.body.unreadCount, 0);
+
+    const unread = await callRoute(notificationsDomain, 'notifications.GET./notifications', a.id, {
+      query: { unreadOnly: 'true' }
+    });
+    assert.strictEqual(unread.body.notifications.length, 0);
+
+    const readAll = await callRoute(notificationsDomain, 'notifications.POST./notifications/read-all', b.id);
+    assert.strictEqual(readAll.body.updated, 1);
+    const afterAll = await callRoute(notificationsDomain, 'notifications.GET./notifications', b.id);
+    assert.strictEqual(afterAll.body.unreadCount, 0);
+  } finally {
+    await cleanupUsers([a.id, b.id, outsider.id]);
+  }
+});
+
+test('Notifications - muted types and blocked actors are not stored', async () => {
+  const [owner, actor, blocked] = await createUsers(3, { label: 'notif' });
+  try {
+    const invalid = await callRoute(notificationsDomain, 'notifications.PUT./notifications/settings', owner.id, {
+      body: { mutedTypes: ['NOT_A_TYPE'] }
+    });
+    assert.strictEqual(invalid.status, 400);
+
+    const saved = await callRoute(notificationsDomain, 'notifications.PUT./notifications/settings', owner.id, {
+      body: { mutedTypes: ['POST_LIKE', 'POST_LIKE'] }
+    });
+    assert.strictEqual(saved.status, 200);
+    assert.deepStrictEqual(saved.body.mutedTypes, ['POST_LIKE']);
+
+    const settings = await callRoute(notificationsDomain, 'notifications.GET./notifications/settings', owner.id);
+    assert.deepStrictEqual(settings.body.mutedTypes, ['POST_LIKE']);
+    assert.ok(settings.body.types.includes('COMMENT_REPLY'));
+
+    await prisma.userBlock.create({ data: { blockerId: owner.id, blockedId: blocked.id } });
+
+    await createNotification({ userId: owner.id, type: 'POST_LIKE', actorId: actor.id, entityId: 1n });
+    await createNotification({ userId: owner.id, type: 'PROFILE_RATING', actorId: blocked.id });
+    await createNotification({ userId: owner.id, type: 'PROFILE_RATING', actorId: owner.id });
+    await createNotification({ userId: owner.id, type: 'PROFILE_RATING', actorId: actor.id });
+
+    const list = await callRoute(notificationsDomain, 'notifications.GET./notifications', owner.id);
+    assert.strictEqual(list.body.notifications.length, 1);
+    assert.strictEqual(list.body.notifications[0].type, 'PROFILE_RATING');
+    assert.strictEqual(String(list.body.notifications[0].actor.id), String(actor.id));
+  } finally {
+    await cleanupUsers([owner.id, actor.id, blocked.id]);
+  }
+});
@@ -0,0 +1,108 @@
+import type { NotificationType } from '@prisma/client';
+import type { DomainRegistry } from '../../types.js';
+import { Auth } from '../../../lib/auth/rules.js';
+import { json } from '../../../lib/http/json.js';
+import {
+  parseLimit,
+  parseOptionalBoolean,
+  parseOptionalPositiveBigInt,
+  parsePositiveBigInt
+} from '../../../lib/http/parse.js';
+import {
+  NOTIFICATION_TYPES,
+  countUnread,
+  getMutedTypes,
+  isNotificationType,
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  setMutedTypes
+} from '../../../services/notifications/notificationService.js';
+
+export const notificationsDomain: DomainRegistry = {
+  domain: 'notifications',
+  routes: [
+    {
+      id: 'notifications.GET./notifications',
+      method: 'GET',
+      path: '/notifications',
+      auth: Auth.user(),
+      summary: 'List notifications (newest first) with the unread count',
+      tags: ['notifications'],
+      handler: async (req, res) => {
+        const userId = req.ctx.userId!;
+        const takeParsed = parseLimit(req.query.take, 20, 50);
+        if (!takeParsed.ok) return json(res, { error: takeParsed.error }, 400);
+        const cursorParsed = parseOptionalPositiveBigInt(req.query.cursorId, 'cursorId');
+        if (!cursorParsed.ok) return json(res, { error: cursorParsed.error }, 400);
+        const unreadParsed = parseOptionalBoolean(req.query.unreadOnly, 'unreadOnly');
+        if (!unreadParsed.ok) return json(res, { error: unreadParsed.error }, 400);
+
+        const result = await listNotifications(userId, {
+          cursorId: cursorParsed.value,
+          take: takeParsed.value,
+          unreadOnly: unreadParsed.value ?? false
+        });
+        return json(res, result);
+      }
+    },
+    {
+      id: 'notifications.POST./notifications/:notificationId/read',
+      method: 'POST',
+      path: '/notifications/:notificationId/read',
+      auth: Auth.user(),
+      summary: 'Mark a notification as read',
+      tags: ['notifications'],
+      handler: async (req, res) => {
+        const userId = req.ctx.userId!;
+        const parsed = parsePositiveBigInt(req.params.notificationId, 'notificationId');
+        if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+
+        const found = await markNotificationRead(userId, parsed.value);
+        if (!found) return json(res, { error: 'Notification not found' }, 404);
+        return json(res, { ok: true, unreadCount: await countUnread(userId) });
+      }
+    },
+    {
+      id: 'notifications.POST./notifications/read-all',
+      method: 'POST',
+      path: '/notifications/read-all',
+      auth: Auth.user(),
+      summary: 'Mark every notification as read',
+      tags: ['notifications'],
+      handler: async (req, res) => {
+        const updated = await markAllNotificationsRead(req.ctx.userId!);
+        return json(res, { ok: true, updated, unreadCount: 0 });
+      }
+    },
+    {
+      id: 'notifications.GET./notifications/settings',
+      method: 'GET',
+      path: '/notifications/settings',
+      auth: Auth.user(),
+      summary: 'Get muted notification types',
+      tags: ['notifications'],
+      handler: async (req, res) => {
+        const mutedTypes = await getMutedTypes(req.ctx.userId!);
+        return json(res, { types: NOTIFICATION_TYPES, mutedTypes });
+      }
+    },
+    {
+      id: 'notifications.PUT./notifications/settings',
+      method: 'PUT',
+      path: '/notifications/settings',
+      auth: Auth.user(),
+      summary: 'Replace the set of muted notification types',
+      tags: ['notifications'],
+      handler: async (req, res) => {
+        const { mutedTypes } = (req.body ?? {}) as { mutedTypes?: unknown };
+        if (!Array.isArray(mutedTypes) || !mutedTypes.every(isNotificationType)) {
+          return json(res, { error: `mutedTypes must be an array of ${NOTIFICATION_TYPES.join(', ')}` }, 400);
+        }
+
+        const saved = await setMutedTypes(req.ctx.userId!, mutedTypes as NotificationType[]);
+        return json(res, { types: NOTIFICATION_TYPES, mutedTypes: saved });
+      }
+    }
+  ]
+};
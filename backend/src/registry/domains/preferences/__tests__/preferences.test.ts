@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { preferencesDomain } from '../index.js';
+import { cancelFeedPresort, isFeedPresortPending } from '../../../../services/feed/presortQueue.js';
+import { callRoute, cleanupUsers, createUser } from '../../../../__tests__/helpers.js';
+
+const getPreferences = (userId: bigint) => callRoute(preferencesDomain, 'preferences.GET./preferences', userId);
+const putPreferences = (userId: bigint, body: unknown) =>
+  callRoute(preferencesDomain, 'preferences.PUT./preferences', userId, { body });
+
+async function waitFor<T>(read: () => Promise<T>, done: (value: T) => boolean, timeoutMs = 10_000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await read();
+    if (done(value) || Date.now() > deadline) return value;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+async function cleanupUser(userId: bigint) {
+  cancelFeedPresort([userId]);
+  // Let the background rescore started by PUT finish before removing the user
+  await waitFor(
+    () => prisma.jobRun.count({ where: { jobName: 'match-score', scope: `user:${userId}`, status: 'RUNNING' } }),
+    (running) => running === 0
+  );
+  await cleanupUsers([userId]);
+}
+
+test('Preferences - GET returns empty defaults before anything is saved', async () => {
+  const { id: userId } = await createUser({ label: 'preferences' });
+  try {
+    const res = await getPreferences(userId);
+    assert.strictEqual(res.status, 200);
+    assert.deepStrictEqual(res.body, {
+      preferredAgeMin: null,
+      preferredAgeMax: null,
+      preferredDistanceKm: null,
+      preferredGenders: [],
+      updatedAt: null
+    });
+  } finally {
+    await cleanupUser(userId);
+  }
+});
+
+test('Preferences - PUT rejects out-of-range and malformed values', async () => {
+  const { id: userId } = await createUser({ label: 'preferences' });
+  try {
+    const invalid: Array<[Record<string, unknown>, RegExp]> = [
+      [{ preferredAgeMin: 17 }, /preferredAgeMin must be between 18 and 99/],
+      [{ preferredAgeMax: 100 }, /preferredAgeMax must be between 18 and 99/],
+      [{ preferredAgeMin: 30, preferredAgeMax: 25 }, /less than or equal to preferredAgeMax/],
+      [{ preferredAgeMin: 20.5 }, /preferredAgeMin must be an integer/],
+      [{ preferredDistanceKm: 0 }, /preferredDistanceKm must be between 1 and 20000/],
+      [{ preferredDistanceKm: 20001 }, /preferredDistanceKm must be between 1 and 20000/],
+      [{ preferredGenders: 'FEMALE' }, /preferredGenders must be an array/],
+      [{ preferredGenders: ['FEMALE', 'robot'] }, /preferredGenders must contain only/]
+    ];
+    for (const [body, message] of invalid) {
+      const res = await putPreferences(userId, body);
+      assert.strictEqual(res.status, 400, JSON.stringify(body));
+      assert.match(res.body.error, message);
+    }
+
+    // Nothing was stored
+    assert.strictEqual(await prisma.userPreference.count({ where: { userId } }), 0);
+  } finally {
+    await cleanupUser(userId);
+  }
+});
+
+test('Preferences - PUT replaces all fields and normalises gender preferences', async () => {
+  const { id: userId } = await createUser({ label: 'preferences' });
+  try {
+    const saved = await putPreferences(userId, {
+      preferredAgeMin: '25',
+      preferredAgeMax: 35,
+      preferredDistanceKm: 50,
+      preferredGenders: ['FEMALE', 'NONBINARY', 'FEMALE']
+    });
+    assert.strictEqual(saved.status, 200);
+    assert.strictEqual(saved.body.preferredAgeMin, 25);
+    assert.strictEqual(saved.body.preferredAgeMax, 35);
+    assert.strictEqual(saved.body.preferredDistanceKm, 50);
+    assert.deepStrictEqual(saved.body.preferredGenders, ['FEMALE', 'NONBINARY']);
+
+    // Omitted fields are cleared; an empty gender list means "no preference"
+    const replaced = await putPreferences(userId, { preferredAgeMin: 40, preferredGenders: [] });
+    assert.strictEqual(replaced.status, 200);
+    const row = await prisma.userPreference.findUnique({ where: { userId } });
+    assert.strictEqual(row?.preferredAgeMin, 40);
+    assert.strictEqual(row?.preferredAgeMax, null);
+    assert.strictEqual(row?.preferredDistanceKm, null);
+    assert.strictEqual(row?.preferredGenders, null);
+
+    const read = await getPreferences(userId);
+    assert.deepStrictEqual(read.body.preferredGenders, []);
+    assert.strictEqual(read.body.preferredAgeMin, 40);
+  } finally {
+    await cleanupUser(userId);
+  }
+});
+
+test('Preferences - PUT drops presorted segments, queues a rebuild and rescores the user', async () => {
+  const { id: userId } = await createUser({ label: 'preferences' });
+  try {
+    await prisma.presortedFeedSegment.create({
+      data: {
+        userId,
+        segmentIndex: 0,
+        items: [],
+        algorithmVersion: 'v1',
+        expiresAt: new Date(Date.now() + 30 * 60 * 1000)
+      }
+    });
+
+    const res = await putPreferences(userId, { preferredAgeMin: 21, preferredAgeMax: 30 });
+    assert.strictEqual(res.status, 200);
+
+    const segments = await waitFor(
+      () => prisma.presortedFeedSegment.count({ where: { userId } }),
+      (count) => count === 0
+    );
+    assert.strictEqual(segments, 0);
+    assert.ok(isFeedPresortPending(userId));
+
+    const rescore = await waitFor(
+      () =>
+        prisma.jobRun.findFirst({
+          where: { jobName: 'match-score', scope: `user:${userId}` },
+          select: { status: true }
+        }),
+      (run) => run?.status === 'SUCCESS' || run?.status === 'FAILED'
+    );
+    assert.strictEqual(rescore?.status, 'SUCCESS');
+  } finally {
+    await cleanupUser(userId);
+  }
+});
@@ -0,0 +1,202 @@
+import type { DomainRegistry } from '../../types.js';
+import { Auth } from '../../../lib/auth/rules.js';
+import { prisma } from '../../../lib/prisma/client.js';
+import { json } from '../../../lib/http/json.js';
+import { Prisma } from '@prisma/client';
+import type { Gender } from '@prisma/client';
+import { normalizeGenderPrefs } from '../../../jobs/match-score/utils.js';
+import { runMatchScoreJob } from '../../../jobs/matchScoreJob.js';
+import { enqueueFeedPresort } from '../../../services/feed/presortQueue.js';
+import { invalidateAllSegmentsForUser } from '../../../services/feed/presortedFeedService.js';
+import {
+  PRIVACY_SETTING_KEYS,
+  getPrivacySettings,
+  updatePrivacySettings,
+  type PrivacySettings
+} from '../../../services/privacy/privacySettings.js';
+
+const AGE_MIN = 18;
+const AGE_MAX = 99;
+const DISTANCE_MAX_KM = 20000;
+const PREFERRED_GENDERS: Gender[] = ['MALE', 'FEMALE', 'NONBINARY', 'OTHER'];
+
+type PreferencesInput = {
+  preferredAgeMin: number | null;
+  preferredAgeMax: number | null;
+  preferredDistanceKm: number | null;
+  preferredGenders: Gender[] | null;
+};
+
+type ValidationResult = { ok: true; value: PreferencesInput } | { ok: false; error: string };
+
+function parseOptionalInt(value: unknown, label: string, min: number, max: number): { ok: true; value: number | null } | { ok: false; error: string } {
+  if (value === undefined || value === null || value === '') return { ok: true, value: null };
+  const num = typeof value === 'string' ? Number(value.trim()) : value;
+  if (typeof num !== 'number' || !Number.isInteger(num)) {
+    return { ok: false, error: `${label} must be an integer` };
+  }
+  if (num < min || num > max) {
+    return { ok: false, error: `${label} must be between ${min} and ${max}` };
+  }
+  return { ok: true, value: num };
+}
+
+function validatePreferences(body: Record<string, unknown>): ValidationResult {
+  const ageMin = parseOptionalInt(body.preferredAgeMin, 'preferredAgeMin', AGE_MIN, AGE_MAX);
+  if (!ageMin.ok) return ageMin;
+  const ageMax = parseOptionalInt(body.preferredAgeMax, 'preferredAgeMax', AGE_MIN, AGE_MAX);
+  if (!ageMax.ok) return ageMax;
+  if (ageMin.value !== null && ageMax.value !== null && ageMin.value > ageMax.value) {
+    return { ok: false, error: 'preferredAgeMin must be less than or equal to preferredAgeMax' };
+  }
+  const distance = parseOptionalInt(body.preferredDistanceKm, 'preferredDistanceKm', 1, DISTANCE_MAX_KM);
+  if (!distance.ok) return distance;
+
+  let genders: Gender[] | null = null;
+  if (body.preferredGenders !== undefined && body.preferredGenders !== null) {
+    if (!Array.isArray(body.preferredGenders)) {
+      return { ok: false, error: 'preferredGenders must be an array' };
+    }
+    const unique = new Set<Gender>();
+    for (const entry of body.preferredGenders) {
+      if (typeof entry !== 'string' || !PREFERRED_GENDERS.includes(entry as Gender)) {
+        return { ok: false, error: `preferredGenders must contain only ${PREFERRED_GENDERS.join(', ')}` };
+      }
+      unique.add(entry as Gender);
+    }
+    genders = unique.size ? Array.from(unique) : null;
+  }
+
+  return {
+    ok: true,
+    value: {
+      preferredAgeMin: ageMin.value,
+      preferredAgeMax: ageMax.value,
+      preferredDistanceKm: distance.value,
+      preferredGenders: genders
+    }
+  };
+}
+
+function toPreferencesResponse(row: {
+  preferredAgeMin: number | null;
+  preferredAgeMax: number | null;
+  preferredDistanceKm: number | null;
+  preferredGenders: Prisma.JsonValue | null;
+  updatedAt: Date;
+} | null) {
+  return {
+    preferredAgeMin: row?.preferredAgeMin ?? null,
+    preferredAgeMax: row?.preferredAgeMax ?? null,
+    preferredDistanceKm: row?.preferredDistanceKm ?? null,
+    preferredGenders: normalizeGenderPrefs(row?.preferredGenders ?? null) ?? [],
+    updatedAt: row?.updatedAt.toISOString() ?? null
+  };
+}
+
+const preferenceSelect = {
+  preferredAgeMin: true,
+  preferredAgeMax: true,
+  preferredDistanceKm: true,
+  preferredGenders: true,
+  updatedAt: true
+} as const;
+
+export const preferencesDomain: DomainRegistry = {
+  domain: 'preferences',
+  routes: [
+    {
+      id: 'preferences.GET./preferences',
+      method: 'GET',
+      path: '/preferences',
+      auth: Auth.user(),
+      summary: 'Get dating preferences',
+      tags: ['preferences'],
+      handler: async (req, res) => {
+        const userId = req.ctx.userId!;
+        const row = await prisma.userPreference.findUnique({
+          where: { userId },
+          select: preferenceSelect
+        });
+        return json(res, toPreferencesResponse(row));
+      }
+    },
+    {
+      id: 'preferences.PUT./preferences',
+      method: 'PUT',
+      path: '/preferences',
+      auth: Auth.user(),
+      summary: 'Replace dating preferences',
+      tags: ['preferences'],
+      handler: async (req, res) => {
+        const userId = req.ctx.userId!;
+        const body = (req.body ?? {}) as Record<string, unknown>;
+        const parsed = validatePreferences(body);
+        if (!parsed.ok) return json(res, { error: parsed.error }, 400);
+
+        const data = {
+          preferredAgeMin: parsed.value.preferredAgeMin,
+          preferredAgeMax: parsed.value.preferredAgeMax,
+          preferredDistanceKm: parsed.value.preferredDistanceKm,
+          preferredGenders: parsed.value.preferredGenders ?? Prisma.JsonNull
+        };
+
+        const row = await prisma.userPreference.upsert({
+          where: { userId },
+          update: data,
+          create: { userId, ...data },
+          select: preferenceSelect
+        });
+
+        // Preferences drive tier A/B classification in match scores, which in turn
+        // feed the presorted segments. Drop the segments now so the next feed request
+        // takes the live path, then rescore in the background; the rescore queues
+        // another rebuild once the new scores are in (non-blocking).
+        void (async () => {
+          try {
+            await invalidateAllSegmentsForUser(userId);
+            enqueueFeedPresort([userId], 'preferences');
+            await runMatchScoreJob({ userId });
+          } catch (err) {
+            console.error('Failed to refresh match scores after preference change:', err);
+          }
+        })();
+
+        return json(res, toPreferencesResponse(row));
+      }
+    },
+    {
+      id: 'preferences.GET./preferences/privacy',
+      method: 'GET',
+      path: '/preferences/privacy',
+      auth: Auth.user(),
+      summary: 'Get privacy settings',
+      tags: ['preferences'],
+      handler: async (req, res) => {
+        return json(res, await getPrivacySettings(req.ctx.userId!));
+      }
+    },
+    {
+      id: 'preferences.PATCH./preferences/privacy',
+      method: 'PATCH',
+      path: '/preferences/privacy',
+      auth: Auth.user(),
+      summary: 'Update privacy settings',
+      tags: ['preferences'],
+      handler: async (req, res) => {
+        const body = (req.body ?? {}) as Record<string, unknown>;
+        const patch: Partial<PrivacySettings> = {};
+        for (const key of PRIVACY_SETTING_KEYS) {
+          if (body[key] === undefined) continue;
+          if (typeof body[key] !== 'boolean') return json(res, { error: `${key} must be a boolean` }, 400);
+          patch[key] = body[key];
+        }
+        if (!Object.keys(patch).length) {
+          return json(res, { error: `Provide at least one of ${PRIVACY_SETTING_KEYS.join(', ')}` }, 400);
+        }
+
+        return json(res, await updatePrivacySettings(req.ctx.userId!, patch));
+      }
+    }
+  ]
+};
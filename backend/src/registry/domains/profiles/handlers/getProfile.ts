@@ -3,6 +3,7 @@ import { json } from '../../../../lib/http/json.js';
 import { parsePositiveBigInt } from '../../../../lib/http/parse.js';
 import type { RouteDef } from '../../../../registry/types.js';
 import { getProfileView } from '../services/profileService.js';
+import { trackFeedExperimentEvent } from '../../../../services/feed/feedExperimentService.js';
 import { serializeProfile, serializePost } from '../presenters/index.js';
 import type { ProfileResponse } from '../types/dto.js';
 
@@ -58,6 +59,10 @@ export const getProfileRoute: RouteDef = {
         compatibility: result.compatibility
       };
 
+      if (viewerId && viewerId !== userIdParsed.value) {
+        trackFeedExperimentEvent(viewerId, 'PROFILE_OPEN', userIdParsed.value);
+      }
+
       // 4. Return HTTP response
       return json(res, response);
     } catch (err) {
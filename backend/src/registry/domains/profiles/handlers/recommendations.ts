@@ -3,7 +3,7 @@ import { json } from '../../../../lib/http/json.js';
 import { parseLimit, parseOptionalNumber } from '../../../../lib/http/parse.js';
 import { prisma } from '../../../../lib/prisma/client.js';
 import { toAvatarUrl } from '../presenters/mediaPresenter.js';
-import { loadBlockedUserIds } from '../loaders/searchLoader.js';
+import { loadBlockedUserIds } from '../../../../services/safety/blockFilter.js';
 import { 
   loadMatchScoreCursor, 
   loadRecentMatchScores, 
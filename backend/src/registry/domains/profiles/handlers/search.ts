@@ -5,7 +5,8 @@ import { searchRateLimit } from '../../../../middleware/searchRateLimit.js';
 import { ProfileSearchQueryBuilder, type SearchParams } from '../../../../services/search/profileSearchQueryBuilder.js';
 import { prisma } from '../../../../lib/prisma/client.js';
 import { toAvatarUrl } from '../presenters/mediaPresenter.js';
-import { loadBlockedUserIds, loadSearchProfiles } from '../loaders/searchLoader.js';
+import { loadSearchProfiles } from '../loaders/searchLoader.js';
+import { loadBlockedUserIds } from '../../../../services/safety/blockFilter.js';
 import type { RouteDef } from '../../../../registry/types.js';
 import { Prisma } from '@prisma/client';
 
@@ -245,7 +246,7 @@ export const advancedSearchRoute: RouteDef = {
       where: {
         userId: { in: userIds },
         deletedAt: null,
-        user: { deletedAt: null }
+        user: { deletedAt: null, suspendedAt: null }
       },
       select: {
         userId: true,
@@ -14,7 +14,7 @@ export async function loadProfile(
     where: {
       userId,
       deletedAt: null,
-      user: { deletedAt: null },
+      user: { deletedAt: null, suspendedAt: null },
       ...(options.isOwner ? {} : { isVisible: true })
     },
     select: profileSelectWithMedia
@@ -103,7 +103,7 @@ export async function loadRecommendationProfiles(
       },
       deletedAt: null,
       isVisible: true,
-      user: { deletedAt: null }
+      user: { deletedAt: null, suspendedAt: null }
     },
     select: {
       userId: true,
@@ -8,22 +8,6 @@ export type SearchProfile = {
   avatarMedia: MediaRecord | null;
 };
 
-export async function loadBlockedUserIds(viewerId: bigint | null | undefined): Promise<bigint[]> {
-  if (!viewerId) return [];
-  
-  const blocks = await prisma.userBlock.findMany({
-    where: {
-      OR: [{ blockerId: viewerId }, { blockedId: viewerId }],
-    },
-    select: {
-      blockerId: true,
-      blockedId: true,
-    },
-  });
-  
-  return blocks.map(b => (b.blockerId === viewerId ? b.blockedId : b.blockerId));
-}
-
 export async function loadSearchProfiles(
   searchQuery: string,
   viewerId: bigint | null | undefined,
@@ -39,6 +23,7 @@ export async function loadSearchProfiles(
       deletedAt: null,
       user: {
         deletedAt: null,
+        suspendedAt: null,
         ...(viewerId ? { id: { not: viewerId } } : {}),
       },
       ...(blockedUserIds.length > 0 ? { userId: { notIn: blockedUserIds } } : {}),
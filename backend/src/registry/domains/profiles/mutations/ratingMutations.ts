@@ -11,7 +11,7 @@ export async function upsertRating(
   raterProfileId: bigint,
   targetProfileId: bigint,
   ratings: RatingValues
-): Promise<void> {
+): Promise<{ created: boolean }> {
   const defaultSums = {
     attractive: 0,
     smart: 0,
@@ -30,7 +30,7 @@ export async function upsertRating(
     };
   };
 
-  await prisma.$transaction(async (tx) => {
+  return await prisma.$transaction(async (tx) => {
     const existing = await tx.profileRating.findUnique({
       where: { raterProfileId_targetProfileId: { raterProfileId, targetProfileId } },
       select: { attractive: true, smart: true, funny: true, interesting: true }
@@ -86,5 +86,7 @@ export async function upsertRating(
         }
       });
     }
+
+    return { created: !existing };
   });
 }
@@ -8,6 +8,9 @@ export function toPublicMedia(media: MediaRecord) {
     type: media.type,
     url: urls.original,
     thumbUrl: urls.thumb,
+    sources: urls.sources,
+    previewUrl: urls.preview,
+    hlsUrl: urls.hls,
     width: media.width ?? null,
     height: media.height ?? null,
     durationSec: media.durationSec ?? null
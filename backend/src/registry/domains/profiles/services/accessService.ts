@@ -4,6 +4,7 @@ import { upsertAccessRequest, updateAccessRequestStatus } from '../mutations/acc
 import { getCompatibilityMap, resolveCompatibility } from '../../../../services/compatibility/compatibilityService.js';
 import { getOrCreateFollowConversation, createFollowRequestMessage, createFollowResponseMessage } from '../../../../services/access/followConversationService.js';
 import { invalidateAllSegmentsForUser } from '../../../../services/feed/presortedFeedService.js';
+import { createNotification } from '../../../../services/notifications/notificationService.js';
 import type { AccessRequestInput, AccessRequestResult, AccessGrantInput, AccessGrantResult, AccessActionInput, AccessActionResult } from '../types/contracts.js';
 import type { FollowerData } from '../loaders/accessLoader.js';
 import type { CompatibilitySummary } from '../../../../services/compatibility/compatibilityService.js';
@@ -69,6 +70,13 @@ export async function requestAccess(
     console.error('Failed to create follow request conversation:', err);
   }
 
+  await createNotification({
+    userId: input.ownerUserId,
+    type: 'ACCESS_REQUEST',
+    actorId: input.viewerUserId,
+    entityId: request.id
+  });
+
   return { status: 'PENDING', requestId: request.id };
 }
 
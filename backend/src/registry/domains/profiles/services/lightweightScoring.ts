@@ -43,7 +43,7 @@ export async function computeLightweightScores(
       userId: { not: userId },
       deletedAt: null,
       isVisible: true,
-      user: { deletedAt: null }
+      user: { deletedAt: null, suspendedAt: null }
     },
     select: {
       userId: true,
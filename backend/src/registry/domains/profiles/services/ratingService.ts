@@ -1,6 +1,7 @@
 // NO Prisma imports allowed - services depend ONLY on loaders and mutations
 import { getProfileIdByUserId } from '../loaders/profileLoader.js';
 import { upsertRating } from '../mutations/ratingMutations.js';
+import { createNotification } from '../../../../services/notifications/notificationService.js';
 import type { RatingValues as MutationRatingValues } from '../mutations/ratingMutations.js';
 
 export class ValidationError extends Error {
@@ -36,5 +37,10 @@ export async function submitRating(
     throw new NotFoundError('Profile not found');
   }
 
-  await upsertRating(raterProfileId, targetProfileId, ratings);
+  const { created } = await upsertRating(raterProfileId, targetProfileId, ratings);
+
+  // Only the first rating is announced; later adjustments stay quiet
+  if (created) {
+    await createNotification({ userId: targetUserId, type: 'PROFILE_RATING', actorId: raterUserId });
+  }
 }
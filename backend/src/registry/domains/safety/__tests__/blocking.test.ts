@@ -0,0 +1,185 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { prisma } from '../../../../lib/prisma/client.js';
+import { buildViewerContext } from '../../feed/context.js';
+import { getCandidates } from '../../feed/candidates/index.js';
+import { profilesDomain } from '../../profiles/index.js';
+import { matchesDomain } from '../../matches/index.js';
+import { commentsDomain } from '../../comments/index.js';
+import { messagingDomain } from '../../messaging/index.js';
+import { safetyDomain } from '../index.js';
+import { callRoute, cleanupUsers, createUsers } from '../../../../__tests__/helpers.js';
+import type { Request } from 'express';
+
+type Surface =
+  | 'feed posts'
+  | 'feed suggestions'
+  | '/profiles/search'
+  | '/profiles/recommendations'
+  | '/suggestions'
+  | 'comments listing'
+  | 'comment mentions'
+  | '/conversations/with/:userId';
+
+type Fixture = {
+  viewerId: bigint;
+  otherId: bigint;
+  thirdId: bigint;
+  otherName: string;
+  thirdPostId: bigint;
+};
+
+async function createFixture(): Promise<Fixture> {
+  const [viewer, other, third] = await createUsers(3, { label: 'block' });
+  const otherName = other.profile!.displayName!;
+
+  // Post by the other user (feed), plus a comment by them on a neutral post (comments listing)
+  await prisma.post.create({
+    data: { userId: other.id, text: 'Post from the other user', visibility: 'PUBLIC' }
+  });
+  const thirdPost = await prisma.post.create({
+    data: { userId: third.id, text: 'Neutral post', visibility: 'PUBLIC' }
+  });
+  await prisma.comment.create({
+    data: { targetKind: 'POST', targetId: thirdPost.id, authorId: other.id, body: 'Comment from the other user' }
+  });
+
+  // Fresh match scores in both directions (recommendations, suggestions, feed suggestions)
+  await prisma.matchScore.createMany({
+    data: [
+      { userId: viewer.id, candidateUserId: other.id, score: 0.9, algorithmVersion: 'v1' },
+      { userId: other.id, candidateUserId: viewer.id, score: 0.9, algorithmVersion: 'v1' }
+    ]
+  });
+
+  return { viewerId: viewer.id, otherId: other.id, thirdId: third.id, otherName, thirdPostId: thirdPost.id };
+}
+
+async function cleanupFixture(fixture: Fixture) {
+  await cleanupUsers([fixture.viewerId, fixture.otherId, fixture.thirdId]);
+}
+
+/**
+ * Returns, per surface, whether the viewer can see (or reach) the other user.
+ */
+async function visibleSurfaces(fixture: Fixture): Promise<Record<Surface, boolean>> {
+  const { viewerId, otherId, otherName, thirdPostId } = fixture;
+  const other = String(otherId);
+
+  const ctxResult = buildViewerContext({ ctx: { userId: viewerId }, query: { take: '50' } } as unknown as Request);
+  assert.ok(ctxResult.ok);
+  const candidates = await getCandidates(ctxResult.value);
+
+  const search = await callRoute(profilesDomain, 'profiles.GET./profiles/search', viewerId, {
+    query: { q: otherName }
+  });
+  const recommendations = await callRoute(profilesDomain, 'profiles.GET./profiles/recommendations', viewerId, {
+    query: { limit: '50' }
+  });
+  const suggestions = await callRoute(matchesDomain, 'matches.GET./suggestions', viewerId, {
+    query: { take: '50' }
+  });
+  const comments = await callRoute(commentsDomain, 'comments.GET./comments', viewerId, {
+    query: { cardId: String(thirdPostId), cardKind: 'post', take: '50' }
+  });
+  // The viewer mentions the other user on a neutral post: the block that matters is between commenter and mentioned user
+  const mention = await callRoute(commentsDomain, 'comments.POST./comments', viewerId, {
+    body: {
+      cardId: String(thirdPostId),
+      cardKind: 'post',
+      text: `hey @${otherName}`,
+      clientRequestId: `mention-${Date.now()}-${Math.random()}`
+    }
+  });
+  assert.strictEqual(mention.status, 201);
+  const mentioned = await prisma.commentMention.findMany({
+    where: { commentId: BigInt(mention.body.id) },
+    select: { userId: true }
+  });
+  const conversation = await callRoute(messagingDomain, 'messaging.POST./conversations/with/:userId', viewerId, {
+    params: { userId: other }
+  });
+
+  return {
+    'feed posts': candidates.posts.some((p) => p.user.id === otherId),
+    'feed suggestions': candidates.suggestions.some((s) => s.userId === otherId),
+    '/profiles/search': search.body.users.some((u: { id: string }) => u.id === other),
+    '/profiles/recommendations': recommendations.body.profiles.some((p: { userId: string }) => p.userId === other),
+    '/suggestions': suggestions.body.suggestions.some((s: { userId: string }) => s.userId === other),
+    'comments listing': comments.body.comments.some((c: { author: { id: string } }) => c.author.id === other),
+    'comment mentions': mentioned.some((m) => m.userId === otherId),
+    '/conversations/with/:userId': conversation.status === 200
+  };
+}
+
+function assertAll(surfaces: Record<Surface, boolean>, expected: boolean, label: string) {
+  for (const [surface, visible] of Object.entries(surfaces)) {
+    assert.strictEqual(visible, expected, `${label}: ${surface} should ${expected ? 'show' : 'hide'} the other user`);
+  }
+}
+
+test('Block filter - every surface shows the other user when there is no block', async () => {
+  const fixture = await createFixture();
+  try {
+    assertAll(await visibleSurfaces(fixture), true, 'no block');
+  } finally {
+    await cleanupFixture(fixture);
+  }
+});
+
+test('Block filter - every surface hides a user the viewer blocked', async () => {
+  const fixture = await createFixture();
+  try {
+    const blocked = await callRoute(safetyDomain, 'safety.POST./users/:userId/block', fixture.viewerId, {
+      params: { userId: String(fixture.otherId) }
+    });
+    assert.strictEqual(blocked.status, 200);
+    assertAll(await visibleSurfaces(fixture), false, 'viewer blocked other');
+  } finally {
+    await cleanupFixture(fixture);
+  }
+});
+
+test('Block filter - every surface hides a user who blocked the viewer', async () => {
+  const fixture = await createFixture();
+  try {
+    const blocked = await callRoute(safetyDomain, 'safety.POST./users/:userId/block', fixture.otherId, {
+      params: { userId: String(fixture.viewerId) }
+    });
+    assert.strictEqual(blocked.status, 200);
+    assertAll(await visibleSurfaces(fixture), false, 'other blocked viewer');
+  } finally {
+    await cleanupFixture(fixture);
+  }
+});
+
+test('Block list - GET /blocks lists own blocks and DELETE unblocks', async () => {
+  const fixture = await createFixture();
+  try {
+    await callRoute(safetyDomain, 'safety.POST./users/:userId/block', fixture.viewerId, {
+      params: { userId: String(fixture.otherId) }
+    });
+
+    const list = await callRoute(safetyDomain, 'safety.GET./blocks', fixture.viewerId);
+    assert.strictEqual(list.status, 200);
+    assert.deepStrictEqual(
+      list.body.blocks.map((b: { userId: string }) => b.userId),
+      [String(fixture.otherId)]
+    );
+
+    // The blocked user does not see who blocked them
+    const otherList = await callRoute(safetyDomain, 'safety.GET./blocks', fixture.otherId);
+    assert.strictEqual(otherList.body.blocks.length, 0);
+
+    const removed = await callRoute(safetyDomain, 'safety.DELETE./users/:userId/block', fixture.viewerId, {
+      params: { userId: String(fixture.otherId) }
+    });
+    assert.strictEqual(removed.status, 200);
+    assert.strictEqual(removed.body.removed, true);
+
+    const after = await callRoute(safetyDomain, 'safety.GET./blocks', fixture.viewerId);
+    assert.strictEqual(after.body.blocks.length, 0);
+  } finally {
+    await cleanupFixture(fixture);
+  }
+});
@@ -2,12 +2,35 @@ import type { DomainRegistry } from '../../types.js';
 import { Auth } from '../../../lib/auth/rules.js';
 import { prisma } from '../../../lib/prisma/client.js';
 import { json } from '../../../lib/http/json.js';
-import { parsePositiveBigInt } from '../../../lib/http/parse.js';
+import { parseLimit, parseOptionalPositiveBigInt, parsePositiveBigInt } from '../../../lib/http/parse.js';
+import { toAvatarUrl } from '../../../services/media/presenter.js';
+import { invalidateAllSegmentsForUser } from '../../../services/feed/presortedFeedService.js';
+import { enqueueFeedPresort } from '../../../services/feed/presortQueue.js';
+import { emitMatchClosed } from '../../../services/matches/matchLifecycle.js';
 
 function orderedPair(a: bigint, b: bigint) {
   return a < b ? { userAId: a, userBId: b } : { userAId: b, userBId: a };
 }
 
+// Presorted segments were built with the old block state; drop both users' segments
+// and queue rebuilds (non-blocking)
+function invalidateBlockPair(a: bigint, b: bigint) {
+  void Promise.all([invalidateAllSegmentsForUser(a), invalidateAllSegmentsForUser(b)])
+    .then(() => enqueueFeedPresort([a, b], 'block'))
+    .catch(err => {
+      console.error('Failed to invalidate presorted feed segments after block change:', err);
+    });
+}
+
+// Only the muter's feed changes; drop their segments and queue a rebuild (non-blocking)
+function invalidateMuterSegments(muterId: bigint) {
+  void invalidateAllSegmentsForUser(muterId)
+    .then(() => enqueueFeedPresort([muterId], 'mute'))
+    .catch(err => {
+      console.error('Failed to invalidate presorted feed segments after mute change:', err);
+    });
+}
+
 export const safetyDomain: DomainRegistry = {
   domain: 'safety',
   routes: [
@@ -33,14 +56,220 @@ export const safetyDomain: DomainRegistry = {
 
         // if a match exists between them, mark blocked
         const pair = orderedPair(blockerId, blockedId);
+        const closedAt = new Date();
+        const activeMatch = await prisma.match.findFirst({
+          where: { userAId: pair.userAId, userBId: pair.userBId, state: 'ACTIVE' },
+          select: { id: true, userAId: true, userBId: true, conversation: { select: { id: true } } }
+        });
         await prisma.match.updateMany({
           where: { userAId: pair.userAId, userBId: pair.userBId },
-          data: { state: 'BLOCKED', closedAt: new Date() }
+          data: { state: 'BLOCKED', closedAt }
         });
+        if (activeMatch) {
+          emitMatchClosed(
+            { ...activeMatch, conversationId: activeMatch.conversation?.id ?? null },
+            'BLOCKED',
+            blockerId,
+            closedAt
+          );
+        }
+
+        invalidateBlockPair(blockerId, blockedId);
 
         return json(res, { ok: true });
       }
     },
+    {
+      id: 'safety.DELETE./users/:userId/block',
+      method: 'DELETE',
+      path: '/users/:userId/block',
+      auth: Auth.user(),
+      summary: 'Unblock user',
+      tags: ['safety'],
+      handler: async (req, res) => {
+        const blockerId = req.ctx.userId!;
+        const blockedParsed = parsePositiveBigInt(req.params.userId, 'userId');
+        if (!blockedParsed.ok) return json(res, { error: blockedParsed.error }, 400);
+        const blockedId = blockedParsed.value;
+
+        // Only removes the caller's own block; a block in the other direction stays in place.
+        // A match closed by the block is not reopened.
+        const { count } = await prisma.userBlock.deleteMany({
+          where: { blockerId, blockedId }
+        });
+        if (count > 0) invalidateBlockPair(blockerId, blockedId);
+
+        return json(res, { ok: true, removed: count > 0 });
+      }
+    },
+    {
+      id: 'safety.GET./blocks',
+      method: 'GET',
+      path: '/blocks',
+      auth: Auth.user(),
+      summary: 'List users blocked by the current user',
+      tags: ['safety'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const takeParsed = parseLimit(req.query.take, 50, 100);
+        if (!takeParsed.ok) return json(res, { error: takeParsed.error }, 400);
+        const cursorParsed = parseOptionalPositiveBigInt(req.query.cursorId, 'cursorId');
+        if (!cursorParsed.ok) return json(res, { error: cursorParsed.error }, 400);
+        const take = takeParsed.value;
+        const cursorId = cursorParsed.value;
+
+        const blocks = await prisma.userBlock.findMany({
+          where: { blockerId: me },
+          orderBy: { id: 'desc' },
+          take,
+          ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+          select: {
+            id: true,
+            blockedId: true,
+            createdAt: true,
+            blocked: {
+              select: {
+                profile: {
+                  select: {
+                    displayName: true,
+                    avatarMedia: {
+                      select: { id: true, type: true, storageKey: true, variants: true, url: true, thumbUrl: true }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        });
+
+        const nextCursorId = blocks.length === take ? blocks[blocks.length - 1]!.id : null;
+
+        return json(res, {
+          blocks: blocks.map(b => ({
+            id: b.id,
+            userId: b.blockedId,
+            blockedAt: b.createdAt,
+            profile: b.blocked.profile
+              ? {
+                  displayName: b.blocked.profile.displayName,
+                  avatarUrl: toAvatarUrl(b.blocked.profile.avatarMedia)
+                }
+              : null
+          })),
+          nextCursorId
+        });
+      }
+    },
+    {
+      id: 'safety.POST./users/:userId/mute',
+      method: 'POST',
+      path: '/users/:userId/mute',
+      auth: Auth.user(),
+      summary: 'Mute user in the feed',
+      tags: ['safety'],
+      handler: async (req, res) => {
+        const muterId = req.ctx.userId!;
+        const mutedParsed = parsePositiveBigInt(req.params.userId, 'userId');
+        if (!mutedParsed.ok) return json(res, { error: mutedParsed.error }, 400);
+        const mutedId = mutedParsed.value;
+        if (muterId === mutedId) return json(res, { error: 'Cannot mute yourself' }, 400);
+
+        const muted = await prisma.user.findFirst({
+          where: { id: mutedId, deletedAt: null },
+          select: { id: true }
+        });
+        if (!muted) return json(res, { error: 'User not found' }, 404);
+
+        // Unlike a block, a mute is one-directional and leaves matches and messaging alone
+        await prisma.feedMute.upsert({
+          where: { muterId_mutedId: { muterId, mutedId } },
+          update: {},
+          create: { muterId, mutedId }
+        });
+        invalidateMuterSegments(muterId);
+
+        return json(res, { ok: true });
+      }
+    },
+    {
+      id: 'safety.DELETE./users/:userId/mute',
+      method: 'DELETE',
+      path: '/users/:userId/mute',
+      auth: Auth.user(),
+      summary: 'Unmute user',
+      tags: ['safety'],
+      handler: async (req, res) => {
+        const muterId = req.ctx.userId!;
+        const mutedParsed = parsePositiveBigInt(req.params.userId, 'userId');
+        if (!mutedParsed.ok) return json(res, { error: mutedParsed.error }, 400);
+        const mutedId = mutedParsed.value;
+
+        const { count } = await prisma.feedMute.deleteMany({
+          where: { muterId, mutedId }
+        });
+        if (count > 0) invalidateMuterSegments(muterId);
+
+        return json(res, { ok: true, removed: count > 0 });
+      }
+    },
+    {
+      id: 'safety.GET./mutes',
+      method: 'GET',
+      path: '/mutes',
+      auth: Auth.user(),
+      summary: 'List users muted by the current user',
+      tags: ['safety'],
+      handler: async (req, res) => {
+        const me = req.ctx.userId!;
+        const takeParsed = parseLimit(req.query.take, 50, 100);
+        if (!takeParsed.ok) return json(res, { error: takeParsed.error }, 400);
+        const cursorParsed = parseOptionalPositiveBigInt(req.query.cursorId, 'cursorId');
+        if (!cursorParsed.ok) return json(res, { error: cursorParsed.error }, 400);
+        const take = takeParsed.value;
+        const cursorId = cursorParsed.value;
+
+        const mutes = await prisma.feedMute.findMany({
+          where: { muterId: me },
+          orderBy: { id: 'desc' },
+          take,
+          ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+          select: {
+            id: true,
+            mutedId: true,
+            createdAt: true,
+            muted: {
+              select: {
+                profile: {
+                  select: {
+                    displayName: true,
+                    avatarMedia: {
+                      select: { id: true, type: true, storageKey: true, variants: true, url: true, thumbUrl: true }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        });
+
+        const nextCursorId = mutes.length === take ? mutes[mutes.length - 1]!.id : null;
+
+        return json(res, {
+          mutes: mutes.map(m => ({
+            id: m.id,
+            userId: m.mutedId,
+            mutedAt: m.createdAt,
+            profile: m.muted.profile
+              ? {
+                  displayName: m.muted.profile.displayName,
+                  avatarUrl: toAvatarUrl(m.muted.profile.avatarMedia)
+                }
+              : null
+          })),
+          nextCursorId
+        });
+      }
+    },
     {
       id: 'safety.POST./users/:userId/report',
       method: 'POST',
@@ -13,6 +13,9 @@ import { safetyDomain } from './domains/safety/index.js';
 import { mediaDomain } from './domains/media/index.js';
 import { interestsDomain } from './domains/interests/index.js';
 import { scienceDomain } from './domains/science/index.js';
+import { preferencesDomain } from './domains/preferences/index.js';
+import { accountDomain } from './domains/account/index.js';
+import { notificationsDomain } from './domains/notifications/index.js';
 
 export const registry: DomainRegistry[] = [
   systemDomain,
@@ -28,4 +31,7 @@ export const registry: DomainRegistry[] = [
   mediaDomain,
   interestsDomain,
   scienceDomain,
+  preferencesDomain,
+  accountDomain,
+  notificationsDomain,
 ];
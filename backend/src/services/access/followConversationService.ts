@@ -46,13 +46,7 @@ export async function createFollowRequestMessage(
       senderId: requesterUserId,
       body,
       isSystem: true,
-      followRequestId: requestId,
-      receipts: {
-        create: [
-          { userId: ownerUserId, readAt: null },
-          { userId: requesterUserId, readAt: new Date() }
-        ]
-      }
+      followRequestId: requestId
     }
   })
 
@@ -85,13 +79,7 @@ export async function createFollowResponseMessage(
       senderId: ownerUserId,
       body,
       isSystem: true,
-      followRequestId: requestId,
-      receipts: {
-        create: [
-          { userId: requesterUserId, readAt: null },
-          { userId: ownerUserId, readAt: new Date() }
-        ]
-      }
+      followRequestId: requestId
     }
   })
 
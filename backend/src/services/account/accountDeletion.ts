@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma/client.js';
+import { getMediaStorage, type StorageProvider } from '../media/storage.js';
+import { listVariantStorageKeys } from '../media/imageVariants.js';
+import { invalidateAllSegmentsForUser } from '../feed/presortedFeedService.js';
+import { cancelFeedPresort } from '../feed/presortQueue.js';
+import { revokeAllSessions } from '../auth/sessionService.js';
+import { ACCOUNT_DELETION_GRACE_DAYS } from './config.js';
+
+const storage: StorageProvider = getMediaStorage();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hide the account now and schedule the purge for after the grace period.
+ * The user is signed out everywhere; logging back in is refused until they restore.
+ */
+export async function scheduleAccountDeletion(userId: bigint, now = new Date()) {
+  const deletionScheduledFor = new Date(now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { deletedAt: now, deletionRequestedAt: now, deletionScheduledFor }
+    }),
+    prisma.profile.updateMany({
+      where: { userId, deletedAt: null },
+      data: { deletedAt: now }
+    })
+  ]);
+
+  await revokeAllSessions(userId, 'ACCOUNT_DELETED');
+  await invalidateAllSegmentsForUser(userId);
+  cancelFeedPresort([userId]);
+
+  return { deletionScheduledFor };
+}
+
+/**
+ * Undo a pending deletion. Only possible before the purge has run.
+ * Clears only what scheduleAccountDeletion set, so a profile removed before the
+ * request stays removed. Returns false when there is no self-requested deletion.
+ */
+export async function restoreAccount(userId: bigint) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { deletionRequestedAt: true } });
+  if (!user?.deletionRequestedAt) return false;
+
+  const [restored] = await prisma.$transaction([
+    prisma.user.updateMany({
+      where: { id: userId, deletionRequestedAt: user.deletionRequestedAt },
+      data: { deletedAt: null, deletionRequestedAt: null, deletionScheduledFor: null }
+    }),
+    prisma.profile.updateMany({
+      where: { userId, deletedAt: user.deletionRequestedAt },
+      data: { deletedAt: null }
+    })
+  ]);
+  return restored.count > 0;
+}
+
+/**
+ * Deleted by a moderator rather than by the user; such accounts can neither
+ * schedule their own deletion nor restore themselves.
+ */
+export function isRemovedByModeration(user: { deletedAt: Date | null; deletionRequestedAt: Date | null }) {
+  return user.deletedAt !== null && user.deletionRequestedAt === null;
+}
+
+export function isPendingDeletion(user: { deletionScheduledFor: Date | null; purgedAt: Date | null }) {
+  return user.deletionScheduledFor !== null && user.purgedAt === null;
+}
+
+function mediaStorageKeys(media: { storageKey: string | null; variants: unknown }) {
+  const keys = new Set<string>(listVariantStorageKeys(media.variants));
+  if (media.storageKey) keys.add(media.storageKey);
+  return [...keys];
+}
+
+/**
+ * Irreversibly remove a user's personal data.
+ * The User row stays (other users' conversations and likes reference it) but is anonymized.
+ */
+export async function purgeAccount(userId: bigint) {
+  const now = new Date();
+
+  const media = await prisma.media.findMany({
+    where: { OR: [{ ownerUserId: userId }, { userId }] },
+    select: { id: true, storageKey: true, variants: true }
+  });
+  let filesDeleted = 0;
+  for (const item of media) {
+    for (const key of mediaStorageKeys(item)) {
+      try {
+        await storage.delete(key);
+        filesDeleted++;
+      } catch (err) {
+        // Keep going; the file may already be gone
+        console.error(`[account-purge] Failed to delete file for media ${item.id}:`, err);
+      }
+    }
+  }
+
+  const placeholderHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+
+  const [messages] = await prisma.$transaction([
+    prisma.message.updateMany({
+      where: { senderId: userId },
+      data: { body: '', deletedAt: now }
+    }),
+    prisma.messageEdit.deleteMany({ where: { message: { senderId: userId } } }),
+    prisma.messageReaction.deleteMany({ where: { userId } }),
+    prisma.media.updateMany({
+      where: { OR: [{ ownerUserId: userId }, { userId }] },
+      data: { deletedAt: now, storageKey: null, variants: Prisma.DbNull, url: '', thumbUrl: null }
+    }),
+    prisma.post.updateMany({
+      where: { userId, deletedAt: null },
+      data: { deletedAt: now }
+    }),
+    prisma.post.updateMany({
+      where: { userId },
+      data: { text: null }
+    }),
+    prisma.comment.updateMany({
+      where: { authorId: userId },
+      data: { body: '', deletedAt: now }
+    }),
+    prisma.profile.updateMany({
+      where: { userId },
+      data: {
+        displayName: null,
+        bio: null,
+        birthdate: null,
+        locationText: null,
+        lat: null,
+        lng: null,
+        avatarUrl: null,
+        avatarMediaId: null,
+        heroMediaId: null,
+        isVisible: false,
+        deletedAt: now
+      }
+    }),
+    prisma.matchScore.deleteMany({
+      where: { OR: [{ userId }, { candidateUserId: userId }] }
+    }),
+    prisma.profileSearchIndex.deleteMany({ where: { userId } }),
+    prisma.userTrait.deleteMany({ where: { userId } }),
+    prisma.presortedFeedSegment.deleteMany({ where: { userId } }),
+    prisma.feedExperimentEvent.deleteMany({ where: { userId } }),
+    prisma.feedEngagementEvent.deleteMany({ where: { userId } }),
+    prisma.feedHiddenPost.deleteMany({ where: { userId } }),
+    prisma.feedMute.deleteMany({ where: { OR: [{ muterId: userId }, { mutedId: userId }] } }),
+    prisma.notification.deleteMany({ where: { userId } }),
+    prisma.notification.updateMany({ where: { actorId: userId }, data: { actorId: null } }),
+    prisma.notificationMute.deleteMany({ where: { userId } }),
+    prisma.privacySetting.deleteMany({ where: { userId } }),
+    prisma.mediaUploadSession.deleteMany({ where: { ownerUserId: userId } }),
+    prisma.authSession.deleteMany({ where: { userId } }),
+    prisma.authToken.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-${userId}@deleted.invalid`,
+        passwordHash: placeholderHash,
+        emailVerifiedAt: null,
+        deletedAt: now,
+        purgedAt: now
+      }
+    })
+  ]);
+
+  return { messagesAnonymized: messages.count, mediaDeleted: media.length, filesDeleted };
+}
+
+/**
+ * Purge every account whose grace period has ended.
+ */
+export async function purgeDueAccounts(now = new Date()) {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: now }, purgedAt: null },
+    select: { id: true },
+    orderBy: { deletionScheduledFor: 'asc' }
+  });
+
+  let purged = 0;
+  let failed = 0;
+  for (const user of due) {
+    try {
+      await purgeAccount(user.id);
+      purged++;
+    } catch (err) {
+      console.error(`[account-purge] Failed to purge user ${user.id}:`, err);
+      failed++;
+    }
+  }
+  return { purged, failed };
+}
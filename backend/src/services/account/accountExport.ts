@@ -0,0 +1,281 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { prisma } from '../../lib/prisma/client.js';
+import { getMediaStorage, type StorageProvider } from '../media/storage.js';
+import { getPrivacySettings } from '../privacy/privacySettings.js';
+import { ZipWriter } from './zipWriter.js';
+import { ACCOUNT_EXPORT_KEY_PREFIX, ACCOUNT_EXPORT_MAX_MEDIA_BYTES } from './config.js';
+
+export type AccountExportFormat = 'json' | 'zip';
+
+export type AccountExportResult = {
+  storageKey: string;
+  sizeBytes: number;
+  mediaIncluded: number;
+  mediaSkipped: number;
+};
+
+const storage: StorageProvider = getMediaStorage();
+
+function toJson(data: unknown) {
+  return JSON.stringify(data, (_k, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+/**
+ * Everything we hold about a user, grouped by area.
+ * Other users appear only by id (and display name where the UI shows it).
+ */
+export async function collectAccountData(userId: bigint) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      createdAt: true,
+      emailVerifiedAt: true,
+      deletionScheduledFor: true,
+      profile: {
+        select: {
+          id: true,
+          displayName: true,
+          bio: true,
+          birthdate: true,
+          locationText: true,
+          lat: true,
+          lng: true,
+          gender: true,
+          intent: true,
+          isVisible: true,
+          avatarMediaId: true,
+          heroMediaId: true,
+          createdAt: true,
+          updatedAt: true
+        }
+      }
+    }
+  });
+  if (!user) throw new Error(`User ${userId} not found`);
+
+  const conversations = await prisma.conversation.findMany({
+    where: { OR: [{ userAId: userId }, { userBId: userId }] },
+    select: { id: true, userAId: true, userBId: true, createdAt: true }
+  });
+  const conversationIds = conversations.map(c => c.id);
+  const profileId = user.profile?.id ?? null;
+
+  const [
+    posts,
+    media,
+    comments,
+    messages,
+    likes,
+    likedPosts,
+    quizResults,
+    interests,
+    ratingsGiven,
+    ratingsReceived,
+    preferences,
+    privacy
+  ] = await Promise.all([
+    prisma.post.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        text: true,
+        visibility: true,
+        targetProfileUserId: true,
+        createdAt: true,
+        updatedAt: true,
+        deletedAt: true,
+        media: { select: { mediaId: true, order: true } }
+      }
+    }),
+    prisma.media.findMany({
+      where: { ownerUserId: userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        visibility: true,
+        storageKey: true,
+        mimeType: true,
+        sizeBytes: true,
+        width: true,
+        height: true,
+        durationSec: true,
+        url: true,
+        createdAt: true,
+        deletedAt: true
+      }
+    }),
+    prisma.comment.findMany({
+      where: { authorId: userId },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, targetKind: true, targetId: true, parentId: true, body: true, createdAt: true, deletedAt: true }
+    }),
+    conversationIds.length
+      ? prisma.message.findMany({
+          where: { conversationId: { in: conversationIds } },
+          orderBy: [{ conversationId: 'asc' }, { createdAt: 'asc' }],
+          select: { id: true, conversationId: true, senderId: true, body: true, isSystem: true, createdAt: true, deletedAt: true }
+        })
+      : Promise.resolve([]),
+    prisma.like.findMany({
+      where: { fromUserId: userId },
+      orderBy: { createdAt: 'asc' },
+      select: { toUserId: true, action: true, createdAt: true }
+    }),
+    prisma.likedPost.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: { postId: true, createdAt: true }
+    }),
+    prisma.quizResult.findMany({
+      where: { userId },
+      select: { quizId: true, answers: true, scoreVec: true, createdAt: true, updatedAt: true, quiz: { select: { slug: true, title: true } } }
+    }),
+    prisma.userInterest.findMany({
+      where: { userId },
+      select: {
+        createdAt: true,
+        subject: { select: { key: true, label: true } },
+        interest: { select: { key: true, label: true } }
+      }
+    }),
+    profileId
+      ? prisma.profileRating.findMany({
+          where: { raterProfileId: profileId },
+          select: { targetProfileId: true, attractive: true, smart: true, funny: true, interesting: true, createdAt: true }
+        })
+      : Promise.resolve([]),
+    // Ratings received are shared without the rater, matching what the profile UI exposes
+    profileId
+      ? prisma.profileRating.findMany({
+          where: { targetProfileId: profileId },
+          select: { attractive: true, smart: true, funny: true, interesting: true, createdAt: true }
+        })
+      : Promise.resolve([]),
+    prisma.userPreference.findUnique({ where: { userId } }),
+    getPrivacySettings(userId)
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    account: user,
+    preferences,
+    privacy,
+    posts,
+    media: media.map(({ storageKey, ...rest }) => ({ ...rest, archivePath: storageKey ? mediaArchivePath(rest.id, storageKey) : null })),
+    comments,
+    conversations: conversations.map(c => ({
+      id: c.id,
+      withUserId: c.userAId === userId ? c.userBId : c.userAId,
+      createdAt: c.createdAt
+    })),
+    messages: messages.map(m => ({ ...m, fromMe: m.senderId === userId })),
+    likes,
+    likedPosts,
+    quizResults,
+    interests: interests.map(i => ({
+      subject: i.subject.label,
+      subjectKey: i.subject.key,
+      interest: i.interest.label,
+      interestKey: i.interest.key,
+      createdAt: i.createdAt
+    })),
+    ratingsGiven,
+    ratingsReceived
+  };
+}
+
+function mediaArchivePath(mediaId: bigint, storageKey: string) {
+  const ext = path.extname(storageKey) || '';
+  return `media/${mediaId}${ext}`;
+}
+
+/**
+ * Build the export file for a user and store it under an unguessable key in the media store.
+ * `json` is a single data file; `zip` also bundles the user's media files.
+ */
+export async function writeAccountExport(userId: bigint, format: AccountExportFormat): Promise<AccountExportResult> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'account-export-'));
+  try {
+    const filePath = path.join(workDir, `account-export.${format}`);
+    const counts = await buildExportFile(userId, format, filePath);
+
+    // The object's name is what the browser saves a presigned download as
+    const storageKey = `${ACCOUNT_EXPORT_KEY_PREFIX}/${randomUUID()}/account-export.${format}`;
+    await storage.put(fs.createReadStream(filePath), storageKey, {
+      contentType: format === 'json' ? 'application/json' : 'application/zip'
+    });
+    const { size } = await fs.promises.stat(filePath);
+    return { storageKey, sizeBytes: size, ...counts };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => null);
+  }
+}
+
+async function buildExportFile(userId: bigint, format: AccountExportFormat, filePath: string) {
+  const data = await collectAccountData(userId);
+
+  if (format === 'json') {
+    await fs.promises.writeFile(filePath, toJson(data), 'utf8');
+    return { mediaIncluded: 0, mediaSkipped: 0 };
+  }
+
+  const zip = new ZipWriter(fs.createWriteStream(filePath));
+  await zip.addBuffer('data.json', Buffer.from(toJson(data), 'utf8'));
+
+  const mediaRows = await prisma.media.findMany({
+    where: { ownerUserId: userId, deletedAt: null, storageKey: { not: null } },
+    select: { id: true, storageKey: true, sizeBytes: true, createdAt: true }
+  });
+
+  let mediaBytes = 0;
+  let mediaIncluded = 0;
+  let mediaSkipped = 0;
+  for (const media of mediaRows) {
+    const storageKey = media.storageKey!;
+    if (mediaBytes + (media.sizeBytes ?? 0) > ACCOUNT_EXPORT_MAX_MEDIA_BYTES) {
+      mediaSkipped++;
+      continue;
+    }
+    try {
+      const stream = await storage.get(storageKey);
+      await zip.addStream(mediaArchivePath(media.id, storageKey), stream, media.createdAt);
+      mediaBytes += media.sizeBytes ?? 0;
+      mediaIncluded++;
+    } catch (err) {
+      // A missing file shouldn't sink the whole export; data.json still lists the media row
+      console.error(`[account-export] Skipping media ${media.id}:`, err);
+      mediaSkipped++;
+    }
+  }
+
+  await zip.finish();
+  return { mediaIncluded, mediaSkipped };
+}
+
+/**
+ * Only keys this module wrote are treated as exports; metadata is ours, but guard anyway.
+ */
+export function isAccountExportKey(storageKey: unknown): storageKey is string {
+  return typeof storageKey === 'string' && storageKey.startsWith(`${ACCOUNT_EXPORT_KEY_PREFIX}/`) && !storageKey.includes('..');
+}
+
+export async function openAccountExport(storageKey: string) {
+  return storage.get(storageKey);
+}
+
+export function signAccountExportUrl(storageKey: string, expiresInSec: number) {
+  return storage.getSignedUrl ? storage.getSignedUrl(storageKey, expiresInSec) : null;
+}
+
+export async function deleteAccountExport(storageKey: string) {
+  await storage.delete(storageKey);
+}
@@ -0,0 +1,18 @@
+// Exports live in the media store under this prefix; with no Media row behind them, /media/* never serves them
+export const ACCOUNT_EXPORT_KEY_PREFIX = 'account-exports';
+
+// Lifetime of the presigned URL a download redirects to
+export const ACCOUNT_EXPORT_DOWNLOAD_URL_TTL_SEC = 5 * 60;
+
+// How long a finished export can be downloaded before the purge job removes it
+export const ACCOUNT_EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Media larger than this total is listed in the archive but not copied into it
+export const ACCOUNT_EXPORT_MAX_MEDIA_BYTES = 2 * 1024 * 1024 * 1024;
+
+// Days between DELETE /account and the purge; the user can restore the account until then
+const graceDays = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS ?? '', 10);
+export const ACCOUNT_DELETION_GRACE_DAYS = Number.isFinite(graceDays) && graceDays >= 0 ? graceDays : 14;
+
+export const ACCOUNT_EXPORT_JOB = 'account-export';
+export const ACCOUNT_PURGE_JOB = 'account-purge';
@@ -0,0 +1,161 @@
+import { crc32, createDeflateRaw, deflateRawSync } from 'zlib';
+import type { Readable, Writable } from 'stream';
+
+/**
+ * Minimal streaming ZIP writer (deflate only, no ZIP64).
+ * Archives must stay under 4 GB; callers cap what they add.
+ */
+
+type CentralEntry = {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  flags: number;
+  time: number;
+  date: number;
+};
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const METHOD_DEFLATE = 8;
+const VERSION = 20;
+
+function dosDateTime(d: Date) {
+  const year = Math.max(d.getFullYear(), 1980);
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+}
+
+export class ZipWriter {
+  private out: Writable;
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+
+  constructor(out: Writable) {
+    this.out = out;
+  }
+
+  get bytesWritten() {
+    return this.offset;
+  }
+
+  async addBuffer(name: string, data: Buffer, modifiedAt = new Date()) {
+    const compressed = deflateRawSync(data);
+    const entry = this.startEntry(name, 0, modifiedAt);
+    entry.crc = crc32(data);
+    entry.size = data.length;
+    entry.compressedSize = compressed.length;
+    await this.write(this.localHeader(entry));
+    await this.write(compressed);
+    this.entries.push(entry);
+  }
+
+  /**
+   * Add an entry from a stream. Sizes and CRC are only known at the end, so they go
+   * into a data descriptor after the data.
+   */
+  async addStream(name: string, source: Readable, modifiedAt = new Date()) {
+    const entry = this.startEntry(name, FLAG_DATA_DESCRIPTOR, modifiedAt);
+    await this.write(this.localHeader(entry));
+
+    const deflate = createDeflateRaw();
+    source.on('data', (chunk: Buffer) => {
+      entry.crc = crc32(chunk, entry.crc);
+      entry.size += chunk.length;
+    });
+    source.on('error', err => deflate.destroy(err));
+    source.pipe(deflate);
+
+    for await (const chunk of deflate) {
+      entry.compressedSize += (chunk as Buffer).length;
+      await this.write(chunk as Buffer);
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory and end the output stream.
+   */
+  async finish() {
+    const centralStart = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(VERSION, 6);
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(METHOD_DEFLATE, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc >>> 0, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(header);
+      await this.write(entry.name);
+    }
+    const centralSize = this.offset - centralStart;
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(centralStart, 16);
+    await this.write(end);
+
+    await new Promise<void>((resolve, reject) => {
+      this.out.once('error', reject);
+      this.out.end(() => resolve());
+    });
+  }
+
+  private startEntry(name: string, extraFlags: number, modifiedAt: Date): CentralEntry {
+    const { time, date } = dosDateTime(modifiedAt);
+    return {
+      name: Buffer.from(name, 'utf8'),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+      flags: FLAG_UTF8 | extraFlags,
+      time,
+      date
+    };
+  }
+
+  private localHeader(entry: CentralEntry) {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(METHOD_DEFLATE, 8);
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    // With a data descriptor these stay zero and the real values follow the data
+    header.writeUInt32LE(entry.crc >>> 0, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    return Buffer.concat([header, entry.name]);
+  }
+
+  private async write(chunk: Buffer) {
+    this.offset += chunk.length;
+    if (!this.out.write(chunk)) {
+      await new Promise<void>(resolve => this.out.once('drain', () => resolve()));
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { getMailTransport } from '../mail/config.js';
+import { emailVerificationMail, passwordResetMail } from '../mail/templates.js';
+import { EMAIL_VERIFY_TTL_MS, PASSWORD_RESET_TTL_MS, issueAuthToken } from './authTokenService.js';
+
+export async function sendPasswordResetMail(user: { id: bigint; email: string }) {
+  const token = await issueAuthToken(user.id, 'PASSWORD_RESET', PASSWORD_RESET_TTL_MS);
+  await getMailTransport().send(passwordResetMail(user.email, token, PASSWORD_RESET_TTL_MS / 60_000));
+}
+
+export async function sendEmailVerificationMail(user: { id: bigint; email: string }) {
+  const token = await issueAuthToken(user.id, 'EMAIL_VERIFY', EMAIL_VERIFY_TTL_MS);
+  await getMailTransport().send(emailVerificationMail(user.email, token, EMAIL_VERIFY_TTL_MS / 3_600_000));
+}
@@ -0,0 +1,76 @@
+import { createHash, randomBytes } from 'crypto';
+import type { AuthTokenPurpose } from '@prisma/client';
+import { prisma } from '../../lib/prisma/client.js';
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+export const EMAIL_VERIFY_TTL_MS = 48 * 60 * 60 * 1000; // 48 hours
+
+// Minimum gap between two mails of the same purpose to the same user
+export const AUTH_TOKEN_RESEND_COOLDOWN_MS = 60 * 1000;
+
+export function hashAuthToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a new token and return the raw value (only the hash is stored).
+ * Any earlier unused token for the same purpose is retired, so only the latest link works.
+ */
+export async function issueAuthToken(userId: bigint, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.authToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: now }
+    }),
+    prisma.authToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashAuthToken(token),
+        expiresAt: new Date(now.getTime() + ttlMs)
+      }
+    })
+  ]);
+
+  return token;
+}
+
+/**
+ * True if a token for this purpose was issued within the resend cooldown.
+ */
+export async function wasAuthTokenRecentlyIssued(userId: bigint, purpose: AuthTokenPurpose): Promise<boolean> {
+  const recent = await prisma.authToken.findFirst({
+    where: {
+      userId,
+      purpose,
+      createdAt: { gt: new Date(Date.now() - AUTH_TOKEN_RESEND_COOLDOWN_MS) }
+    },
+    select: { id: true }
+  });
+  return recent !== null;
+}
+
+/**
+ * Consume a token. Returns the owning userId, or null when the token is unknown,
+ * for another purpose, expired, or already used. The used-at update is conditional,
+ * so two concurrent requests cannot both consume the same token.
+ */
+export async function consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<bigint | null> {
+  if (!token) return null;
+  const row = await prisma.authToken.findUnique({
+    where: { tokenHash: hashAuthToken(token) },
+    select: { id: true, userId: true, purpose: true, expiresAt: true, usedAt: true }
+  });
+  if (!row || row.purpose !== purpose || row.usedAt || row.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  const { count } = await prisma.authToken.updateMany({
+    where: { id: row.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+  return count === 1 ? row.userId : null;
+}
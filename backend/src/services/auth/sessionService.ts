@@ -0,0 +1,245 @@
+import { createHash, randomBytes } from 'crypto';
+import type { Request } from 'express';
+import { prisma } from '../../lib/prisma/client.js';
+import { signAccessToken, signRefreshToken, verifyRefreshToken } from '../../lib/auth/jwt.js';
+import { describeUserAgent } from './userAgent.js';
+
+// A second refresh with the just-rotated token inside this window is treated as a
+// concurrent refresh (two tabs racing), not as reuse.
+export const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+export type SessionRevokeReason = 'LOGOUT' | 'USER_REVOKED' | 'LOGOUT_ALL' | 'REUSE_DETECTED' | 'PASSWORD_RESET' | 'MODERATION' | 'ACCOUNT_DELETED';
+
+export type SessionTokens = {
+  sessionId: bigint;
+  accessToken: string;
+  refreshToken: string;
+};
+
+export type RotateResult =
+  | { ok: true; userId: bigint; sessionId: bigint; rememberMe: boolean; accessToken: string; refreshToken: string | null }
+  | { ok: false; reason: 'invalid' | 'revoked' | 'reused' };
+
+type RevokeListener = (sessionIds: bigint[]) => void;
+const revokeListeners = new Set<RevokeListener>();
+
+/**
+ * Subscribe to session revocations (the WebSocket server uses this to drop sockets).
+ */
+export function onSessionsRevoked(listener: RevokeListener): () => void {
+  revokeListeners.add(listener);
+  return () => revokeListeners.delete(listener);
+}
+
+function emitRevoked(sessionIds: bigint[]) {
+  if (!sessionIds.length) return;
+  for (const listener of revokeListeners) {
+    try {
+      listener(sessionIds);
+    } catch (err) {
+      console.error('[auth/sessions] Revoke listener failed', { error: err });
+    }
+  }
+}
+
+function hashTokenId(jti: string): string {
+  return createHash('sha256').update(jti).digest('hex');
+}
+
+function newTokenId(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+function signPair(userId: bigint, sessionId: bigint, jti: string) {
+  const sub = String(userId);
+  const sid = String(sessionId);
+  return {
+    accessToken: signAccessToken({ sub, sid }),
+    refreshToken: signRefreshToken({ sub, sid, jti })
+  };
+}
+
+function refreshExpiry(refreshToken: string): Date {
+  const { exp } = verifyRefreshToken(refreshToken);
+  return new Date((exp ?? 0) * 1000);
+}
+
+function requestMeta(req: Request) {
+  const userAgent = req.get?.('user-agent')?.slice(0, 512) ?? null;
+  return {
+    userAgent,
+    deviceLabel: describeUserAgent(userAgent),
+    ipAddress: (req.ip ?? req.socket?.remoteAddress ?? null)?.slice(0, 64) ?? null
+  };
+}
+
+/**
+ * Start a new session (login/signup) and return its first token pair.
+ */
+export async function createSession(userId: bigint, req: Request, rememberMe: boolean): Promise<SessionTokens> {
+  const jti = newTokenId();
+  const session = await prisma.authSession.create({
+    data: {
+      userId,
+      refreshTokenHash: hashTokenId(jti),
+      rememberMe,
+      // Placeholder until the token is signed and its exp is known
+      expiresAt: new Date(),
+      ...requestMeta(req)
+    },
+    select: { id: true }
+  });
+
+  const tokens = signPair(userId, session.id, jti);
+  await prisma.authSession.update({
+    where: { id: session.id },
+    data: { expiresAt: refreshExpiry(tokens.refreshToken) }
+  });
+
+  return { sessionId: session.id, ...tokens };
+}
+
+/**
+ * Exchange a refresh token for a new pair. The presented token is retired; presenting
+ * it again later means it was copied, so the whole session (token family) is revoked.
+ */
+export async function rotateSession(refreshToken: string, req: Request): Promise<RotateResult> {
+  let payload;
+  try {
+    payload = verifyRefreshToken(refreshToken);
+  } catch {
+    return { ok: false, reason: 'invalid' };
+  }
+  if (!payload?.sub || !payload.sid || !payload.jti) return { ok: false, reason: 'invalid' };
+
+  let sessionId: bigint;
+  let userId: bigint;
+  try {
+    sessionId = BigInt(payload.sid);
+    userId = BigInt(payload.sub);
+  } catch {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const session = await prisma.authSession.findUnique({
+    where: { id: sessionId },
+    select: {
+      id: true,
+      userId: true,
+      refreshTokenHash: true,
+      previousTokenHash: true,
+      rotatedAt: true,
+      rememberMe: true,
+      expiresAt: true,
+      revokedAt: true
+    }
+  });
+  if (!session || session.userId !== userId) return { ok: false, reason: 'invalid' };
+  if (session.revokedAt || session.expiresAt.getTime() <= Date.now()) return { ok: false, reason: 'revoked' };
+
+  const presentedHash = hashTokenId(payload.jti);
+  if (presentedHash !== session.refreshTokenHash) {
+    const withinGrace =
+      presentedHash === session.previousTokenHash &&
+      session.rotatedAt !== null &&
+      Date.now() - session.rotatedAt.getTime() < REFRESH_REUSE_GRACE_MS;
+    if (withinGrace) {
+      // The racing request already set the new refresh cookie; only hand out an access token
+      return {
+        ok: true,
+        userId,
+        sessionId,
+        rememberMe: session.rememberMe,
+        accessToken: signAccessToken({ sub: String(userId), sid: String(sessionId) }),
+        refreshToken: null
+      };
+    }
+    await revokeSessionIds([sessionId], 'REUSE_DETECTED');
+    console.warn('[auth/sessions] Refresh token reuse detected, session revoked', {
+      userId: String(userId),
+      sessionId: String(sessionId)
+    });
+    return { ok: false, reason: 'reused' };
+  }
+
+  const jti = newTokenId();
+  const tokens = signPair(userId, sessionId, jti);
+  const now = new Date();
+  // Conditional on the current hash so two rotations of the same token can't both win
+  const { count } = await prisma.authSession.updateMany({
+    where: { id: sessionId, refreshTokenHash: presentedHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashTokenId(jti),
+      previousTokenHash: presentedHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(tokens.refreshToken),
+      ...requestMeta(req)
+    }
+  });
+  if (count !== 1) return rotateSession(refreshToken, req);
+
+  return { ok: true, userId, sessionId, rememberMe: session.rememberMe, ...tokens };
+}
+
+/**
+ * Session id encoded in a refresh token, without checking whether it is still active.
+ */
+export function sessionIdFromRefreshToken(refreshToken: string | undefined): bigint | null {
+  if (!refreshToken) return null;
+  try {
+    const { sid } = verifyRefreshToken(refreshToken);
+    return sid ? BigInt(sid) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function listActiveSessions(userId: bigint) {
+  return prisma.authSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: 'desc' },
+    select: {
+      id: true,
+      deviceLabel: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true
+    }
+  });
+}
+
+async function revokeSessionIds(sessionIds: bigint[], reason: SessionRevokeReason) {
+  if (!sessionIds.length) return;
+  await prisma.authSession.updateMany({
+    where: { id: { in: sessionIds }, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+  emitRevoked(sessionIds);
+}
+
+/**
+ * Revoke one of the user's sessions. Returns false if it doesn't belong to them or is already revoked.
+ */
+export async function revokeSession(userId: bigint, sessionId: bigint, reason: SessionRevokeReason): Promise<boolean> {
+  const session = await prisma.authSession.findFirst({
+    where: { id: sessionId, userId, revokedAt: null },
+    select: { id: true }
+  });
+  if (!session) return false;
+  await revokeSessionIds([session.id], reason);
+  return true;
+}
+
+/**
+ * Revoke every active session of a user ("log out everywhere").
+ */
+export async function revokeAllSessions(userId: bigint, reason: SessionRevokeReason): Promise<number> {
+  const sessions = await prisma.authSession.findMany({
+    where: { userId, revokedAt: null },
+    select: { id: true }
+  });
+  await revokeSessionIds(sessions.map(s => s.id), reason);
+  return sessions.length;
+}
@@ -0,0 +1,27 @@
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Short human label for a session list ("Firefox on macOS"). Not meant to be exact.
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string | null {
+  if (!userAgent) return null;
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1] ?? null;
+  const platform = PLATFORMS.find(([re]) => re.test(userAgent))?.[1] ?? null;
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? userAgent.slice(0, 120);
+}
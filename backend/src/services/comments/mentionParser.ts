@@ -1,4 +1,5 @@
 import { prisma } from '../../lib/prisma/client.js';
+import { loadBlockedAmong } from '../safety/blockFilter.js';
 
 /**
  * Parse @mentions from comment body text and return array of mentioned userIds
@@ -9,10 +10,11 @@ import { prisma } from '../../lib/prisma/client.js';
  * - No position/length storage needed
  * 
  * @param body - Comment body text
+ * @param commenterId - Comment author ID (to check for blocks)
  * @param postAuthorId - Post author ID (to check for blocks)
  * @returns Array of unique userIds mentioned in the comment
  */
-export async function parseMentions(body: string, postAuthorId: bigint): Promise<bigint[]> {
+export async function parseMentions(body: string, commenterId: bigint, postAuthorId: bigint): Promise<bigint[]> {
   if (!body || typeof body !== 'string') {
     return [];
   }
@@ -49,6 +51,7 @@ export async function parseMentions(body: string, postAuthorId: bigint): Promise
       deletedAt: null,
       user: {
         deletedAt: null,
+        suspendedAt: null,
       },
     },
     select: {
@@ -81,30 +84,13 @@ export async function parseMentions(body: string, postAuthorId: bigint): Promise
     return [];
   }
 
-  // Batch check for blocks
-  const blockedUserIds = new Set<bigint>();
-  if (candidateUserIds.size > 0) {
-    const blocks = await prisma.userBlock.findMany({
-      where: {
-        OR: [
-          { blockerId: postAuthorId, blockedId: { in: Array.from(candidateUserIds) } },
-          { blockerId: { in: Array.from(candidateUserIds) }, blockedId: postAuthorId },
-        ],
-      },
-      select: {
-        blockerId: true,
-        blockedId: true,
-      },
-    });
-
-    for (const block of blocks) {
-      if (block.blockerId === postAuthorId) {
-        blockedUserIds.add(block.blockedId);
-      } else {
-        blockedUserIds.add(block.blockerId);
-      }
-    }
-  }
+  // Batch check for blocks with the commenter and with the post author
+  const candidates = Array.from(candidateUserIds);
+  const [blockedWithCommenter, blockedWithPostAuthor] = await Promise.all([
+    loadBlockedAmong(commenterId, candidates),
+    postAuthorId === commenterId ? Promise.resolve(new Set<bigint>()) : loadBlockedAmong(postAuthorId, candidates)
+  ]);
+  const blockedUserIds = new Set([...blockedWithCommenter, ...blockedWithPostAuthor]);
 
   // Filter out blocked users
   const userIds = Array.from(candidateUserIds).filter(userId => !blockedUserIds.has(userId));
@@ -0,0 +1,186 @@
+import { Prisma, type FeedEngagementEventType } from '@prisma/client'
+import { prisma } from '../../lib/prisma/client.js'
+import { logger } from '../../lib/logger/logger.js'
+import type { FeedEngagementEventInput } from '../../registry/domains/feed/events.js'
+
+// Requests only append to an in-process buffer; rows reach FeedEngagementEvent
+// in multi-row inserts once the buffer fills or the timer fires.
+const FLUSH_BATCH_SIZE = 200
+const FLUSH_INTERVAL_MS = 2000
+// While the database is unreachable the buffer keeps at most this many rows,
+// dropping the oldest, so a long outage cannot exhaust memory
+const MAX_BUFFERED_EVENTS = 10_000
+
+// A user's events for one item count once per type within DEDUP_WINDOW_MS (a few
+// times for dwell and watch, which repeat naturally when a card is seen again). The
+// rollup counts distinct users anyway; this keeps one account from filling the table.
+const DEDUP_WINDOW_MS = 60 * 60 * 1000
+const MAX_REPEATS: Partial<Record<FeedEngagementEventType, number>> = { DWELL: 5, WATCH: 5 }
+const MAX_DEDUP_KEYS = 200_000
+
+type RecentEvent = { count: number; expiresAt: number }
+
+let buffer: Prisma.FeedEngagementEventCreateManyInput[] = []
+const recentEvents = new Map<string, RecentEvent>()
+let flushTimer: NodeJS.Timeout | null = null
+let flushing: Promise<number> | null = null
+
+function scheduleFlush() {
+  if (flushTimer) return
+  flushTimer = setTimeout(() => {
+    flushTimer = null
+    void flushFeedEngagementEvents()
+  }, FLUSH_INTERVAL_MS)
+  // Pending events never keep the process (or a job runner) alive
+  flushTimer.unref()
+}
+
+// Errors that say nothing about the rows: connection problems, pool timeouts and conflicts
+const TRANSIENT_ERROR_CODES = new Set(['P2024', 'P2034'])
+
+/**
+ * The database refused the rows themselves (values out of range, too long, ...), so
+ * retrying the same batch can never succeed
+ */
+function isRejectedRowsError(err: unknown) {
+  if (err instanceof Prisma.PrismaClientValidationError) return true
+  return (
+    err instanceof Prisma.PrismaClientKnownRequestError &&
+    !err.code.startsWith('P1') &&
+    !TRANSIENT_ERROR_CODES.has(err.code)
+  )
+}
+
+async function writeBuffer() {
+  let written = 0
+  let batchSize = FLUSH_BATCH_SIZE
+  while (buffer.length) {
+    const batch = buffer.slice(0, batchSize)
+    try {
+      await prisma.feedEngagementEvent.createMany({ data: batch })
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err)
+      if (!isRejectedRowsError(err)) {
+        logger.warn('Failed to write feed engagement events', { pending: buffer.length, error })
+        scheduleFlush()
+        break
+      }
+      if (batch.length > 1) {
+        // Retry in halves until the rejected rows are isolated
+        batchSize = Math.ceil(batch.length / 2)
+        continue
+      }
+      logger.warn('Dropped a feed engagement event the database rejected', { error })
+      buffer = buffer.slice(1)
+      batchSize = FLUSH_BATCH_SIZE
+      continue
+    }
+    buffer = buffer.slice(batch.length)
+    written += batch.length
+  }
+  return written
+}
+
+/**
+ * Write everything buffered so far. Safe to call concurrently; callers share
+ * the in-flight write. Returns the number of rows written.
+ */
+export async function flushFeedEngagementEvents(): Promise<number> {
+  if (flushTimer) {
+    clearTimeout(flushTimer)
+    flushTimer = null
+  }
+  if (flushing) return flushing
+  if (!buffer.length) return 0
+
+  flushing = writeBuffer().finally(() => {
+    flushing = null
+  })
+  return flushing
+}
+
+function pruneRecentEvents(now: number) {
+  for (const [key, entry] of recentEvents) {
+    if (entry.expiresAt <= now) recentEvents.delete(key)
+  }
+  // Still too many live keys: forget the oldest (Map keeps insertion order)
+  for (const key of recentEvents.keys()) {
+    if (recentEvents.size <= MAX_DEDUP_KEYS) break
+    recentEvents.delete(key)
+  }
+}
+
+// Expired keys never keep the process alive
+setInterval(() => pruneRecentEvents(Date.now()), 5 * 60 * 1000).unref()
+
+/**
+ * The events not yet seen too often from this user for their item and type
+ */
+function dropRepeatedEvents(userId: bigint, events: FeedEngagementEventInput[], now: number) {
+  const fresh: FeedEngagementEventInput[] = []
+  for (const event of events) {
+    const key = `${userId}:${event.type}:${event.itemType}:${event.itemId}`
+    let entry = recentEvents.get(key)
+    if (!entry || entry.expiresAt <= now) {
+      entry = { count: 0, expiresAt: now + DEDUP_WINDOW_MS }
+      recentEvents.set(key, entry)
+    }
+    if (entry.count >= (MAX_REPEATS[event.type] ?? 1)) continue
+    entry.count += 1
+    fresh.push(event)
+  }
+  if (recentEvents.size > MAX_DEDUP_KEYS) pruneRecentEvents(now)
+  return fresh
+}
+
+/**
+ * Queue a user's events for the next batched insert, leaving out repeats.
+ * Returns the number of events queued.
+ */
+export function enqueueFeedEngagementEvents(
+  userId: bigint,
+  events: FeedEngagementEventInput[],
+  feedVariant: string | null = null,
+  now = Date.now()
+): number {
+  const fresh = dropRepeatedEvents(userId, events, now)
+  if (!fresh.length) return 0
+
+  for (const event of fresh) {
+    buffer.push({ userId, feedVariant, ...event })
+  }
+  if (buffer.length > MAX_BUFFERED_EVENTS) {
+    const dropped = buffer.length - MAX_BUFFERED_EVENTS
+    buffer = buffer.slice(dropped)
+    logger.warn('Feed engagement buffer full; dropped oldest events', { dropped })
+  }
+
+  if (buffer.length >= FLUSH_BATCH_SIZE) {
+    void flushFeedEngagementEvents()
+  } else {
+    scheduleFlush()
+  }
+  return fresh.length
+}
+
+/**
+ * Delete events stored before `cutoff`, in chunks so the table is never locked for long.
+ * Returns the number of rows deleted.
+ */
+export async function pruneFeedEngagementEvents(cutoff: Date, chunkSize = 5000) {
+  let deleted = 0
+  for (;;) {
+    const rows = await prisma.feedEngagementEvent.findMany({
+      where: { createdAt: { lt: cutoff } },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: chunkSize,
+    })
+    if (!rows.length) return deleted
+    const result = await prisma.feedEngagementEvent.deleteMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+    })
+    deleted += result.count
+    if (rows.length < chunkSize) return deleted
+  }
+}
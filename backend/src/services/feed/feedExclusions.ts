@@ -0,0 +1,102 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '../../lib/prisma/client.js'
+import type { PresortedFeedItem, PresortedFeedLeafItem } from './presortedFeedService.js'
+
+/**
+ * Feed exclusions: posts the viewer hid and creators the viewer muted.
+ *
+ * Both are hard exclusions from the viewer's own feed (the seen penalty only
+ * demotes). Candidate queries apply the where-clause helpers; the presort job
+ * re-checks its ranked items right before storing segments, so a hide or mute
+ * that lands while a rebuild is running does not end up in the new segments.
+ */
+
+export type FeedExclusions = {
+  hiddenPostIds: Set<bigint>
+  mutedUserIds: Set<bigint>
+}
+
+/**
+ * Relation filter for `User` where-clauses (e.g. `user: { deletedAt: null, ...notMutedBy(me) }`).
+ * Returns an empty filter for anonymous viewers.
+ */
+export function notMutedBy(viewerId: bigint | null | undefined): Prisma.UserWhereInput {
+  if (!viewerId) return {}
+  return { feedMutesGot: { none: { muterId: viewerId } } }
+}
+
+/**
+ * Filter for `Post` where-clauses. Returns an empty filter for anonymous viewers.
+ */
+export function notHiddenBy(viewerId: bigint | null | undefined): Prisma.PostWhereInput {
+  if (!viewerId) return {}
+  return { hiddenBy: { none: { userId: viewerId } } }
+}
+
+/**
+ * Hidden posts and muted users among the given presorted items
+ */
+export async function loadFeedExclusions(userId: bigint, items: PresortedFeedItem[]): Promise<FeedExclusions> {
+  const leaves = items.flatMap((item) => (item.type === 'grid' ? item.items : [item]))
+  const postIds = Array.from(new Set(leaves.filter((leaf) => leaf.type === 'post').map((leaf) => BigInt(leaf.id))))
+  const actorIds = Array.from(new Set(leaves.map((leaf) => leaf.actorId)))
+
+  const [hidden, mutes] = await Promise.all([
+    postIds.length
+      ? prisma.feedHiddenPost.findMany({
+          where: { userId, postId: { in: postIds } },
+          select: { postId: true },
+        })
+      : Promise.resolve([]),
+    actorIds.length
+      ? prisma.feedMute.findMany({
+          where: { muterId: userId, mutedId: { in: actorIds } },
+          select: { mutedId: true },
+        })
+      : Promise.resolve([]),
+  ])
+
+  return {
+    hiddenPostIds: new Set(hidden.map((row) => row.postId)),
+    mutedUserIds: new Set(mutes.map((row) => row.mutedId)),
+  }
+}
+
+function isExcluded(item: PresortedFeedLeafItem, exclusions: FeedExclusions) {
+  if (exclusions.mutedUserIds.has(item.actorId)) return true
+  return item.type === 'post' && exclusions.hiddenPostIds.has(BigInt(item.id))
+}
+
+/**
+ * Drop excluded items; grids keep their remaining children and are dropped once empty.
+ * Returns the kept items in order and the number of leaf items removed.
+ */
+export function removeExcludedFeedItems(
+  items: PresortedFeedItem[],
+  exclusions: FeedExclusions
+): { items: PresortedFeedItem[]; removedCount: number } {
+  if (!exclusions.hiddenPostIds.size && !exclusions.mutedUserIds.size) {
+    return { items, removedCount: 0 }
+  }
+
+  const kept: PresortedFeedItem[] = []
+  let removedCount = 0
+  for (const item of items) {
+    if (item.type === 'grid') {
+      const children = item.items.filter((child) => !isExcluded(child, exclusions))
+      removedCount += item.items.length - children.length
+      if (children.length === item.items.length) {
+        kept.push(item)
+      } else if (children.length > 0) {
+        kept.push({ ...item, items: children })
+      }
+      continue
+    }
+    if (isExcluded(item, exclusions)) {
+      removedCount += 1
+      continue
+    }
+    kept.push(item)
+  }
+  return { items: kept, removedCount }
+}
@@ -0,0 +1,196 @@
+import type { FeedExperimentEventType } from '@prisma/client'
+import { prisma } from '../../lib/prisma/client.js'
+import { logger } from '../../lib/logger/logger.js'
+import {
+  assignFeedVariant,
+  parseFeedAllocations,
+  type FeedAllocation,
+} from '../../registry/domains/feed/variants.js'
+import type { FeedVariantAssignment } from '../../registry/domains/feed/types.js'
+
+type ActiveFeedExperiment = {
+  id: bigint
+  name: string
+  allocations: FeedAllocation[]
+}
+
+// Every feed request and tracked event needs the active experiment; admin writes
+// clear this process's copy, other processes pick changes up within the TTL.
+const ACTIVE_EXPERIMENT_TTL_MS = 30 * 1000
+// A first-page feed load counts as a new session after this much quiet time
+const SESSION_GAP_MS = 30 * 60 * 1000
+
+let activeExperimentCache: { value: ActiveFeedExperiment | null; expiresAt: number } | null = null
+
+export function clearActiveFeedExperimentCache() {
+  activeExperimentCache = null
+}
+
+export async function getActiveFeedExperiment(): Promise<ActiveFeedExperiment | null> {
+  if (activeExperimentCache && activeExperimentCache.expiresAt > Date.now()) {
+    return activeExperimentCache.value
+  }
+
+  const row = await prisma.feedExperiment.findFirst({
+    where: { status: 'ACTIVE' },
+    orderBy: { startedAt: 'desc' },
+    select: { id: true, name: true, allocations: true },
+  })
+
+  let value: ActiveFeedExperiment | null = null
+  if (row) {
+    // A variant removed from code invalidates the allocation; everyone falls back to the shipped config
+    const parsed = parseFeedAllocations(row.allocations)
+    if (parsed.ok) {
+      value = { id: row.id, name: row.name, allocations: parsed.value }
+    } else {
+      logger.warn('Active feed experiment has invalid allocations', { experiment: row.name, error: parsed.error })
+    }
+  }
+
+  activeExperimentCache = { value, expiresAt: Date.now() + ACTIVE_EXPERIMENT_TTL_MS }
+  return value
+}
+
+/**
+ * The viewer's variant in the active experiment, or null when not enrolled
+ */
+export async function resolveFeedVariant(userId: bigint | null): Promise<FeedVariantAssignment | null> {
+  if (!userId) return null
+  const experiment = await getActiveFeedExperiment()
+  return experiment ? assignFeedVariant(experiment, userId) : null
+}
+
+async function recordFeedExperimentEvent(
+  userId: bigint,
+  type: FeedExperimentEventType,
+  itemId: bigint | null
+) {
+  const assignment = await resolveFeedVariant(userId)
+  if (!assignment) return
+
+  if (type === 'SESSION') {
+    const recent = await prisma.feedExperimentEvent.findFirst({
+      where: {
+        experimentId: assignment.experimentId,
+        userId,
+        type: 'SESSION',
+        createdAt: { gte: new Date(Date.now() - SESSION_GAP_MS) },
+      },
+      select: { id: true },
+    })
+    if (recent) return
+  }
+
+  await prisma.feedExperimentEvent.create({
+    data: {
+      experimentId: assignment.experimentId,
+      variant: assignment.variant,
+      userId,
+      type,
+      itemId,
+    },
+  })
+}
+
+/**
+ * Record an engagement event against the user's current variant.
+ * Fire-and-forget: tracking never fails or delays the request it is called from.
+ */
+export function trackFeedExperimentEvent(
+  userId: bigint,
+  type: FeedExperimentEventType,
+  itemId: bigint | null = null
+) {
+  void recordFeedExperimentEvent(userId, type, itemId).catch((err) => {
+    logger.warn('Failed to record feed experiment event', {
+      userId: userId.toString(),
+      type,
+      error: err instanceof Error ? err.message : String(err),
+    })
+  })
+}
+
+export type FeedVariantReport = {
+  variant: string
+  // Current allocation; null once the variant is no longer allocated
+  percent: number | null
+  users: number
+  sessions: number
+  likes: number
+  comments: number
+  profileOpens: number
+  matches: number
+  // Per session; null until the variant has sessions
+  perSession: {
+    likes: number | null
+    comments: number | null
+    profileOpens: number | null
+    matches: number | null
+  }
+}
+
+/**
+ * Engagement totals and per-session rates for each variant of an experiment
+ */
+export async function buildFeedExperimentReport(experimentId: bigint, allocations: FeedAllocation[]) {
+  const [counts, users] = await Promise.all([
+    prisma.feedExperimentEvent.groupBy({
+      by: ['variant', 'type'],
+      where: { experimentId },
+      _count: { _all: true },
+    }),
+    prisma.$queryRaw<Array<{ variant: string; users: bigint }>>`
+      SELECT variant, COUNT(DISTINCT userId) AS users
+      FROM FeedExperimentEvent
+      WHERE experimentId = ${experimentId}
+      GROUP BY variant
+    `,
+  ])
+
+  const variants = new Map<string, FeedVariantReport>()
+  const reportFor = (variant: string) => {
+    let report = variants.get(variant)
+    if (!report) {
+      report = {
+        variant,
+        percent: allocations.find((allocation) => allocation.variant === variant)?.percent ?? null,
+        users: 0,
+        sessions: 0,
+        likes: 0,
+        comments: 0,
+        profileOpens: 0,
+        matches: 0,
+        perSession: { likes: null, comments: null, profileOpens: null, matches: null },
+      }
+      variants.set(variant, report)
+    }
+    return report
+  }
+
+  // Allocated variants first (in allocation order), even before they have events
+  for (const allocation of allocations) reportFor(allocation.variant)
+  for (const row of users) reportFor(row.variant).users = Number(row.users)
+
+  const countKeys: Record<FeedExperimentEventType, 'sessions' | 'likes' | 'comments' | 'profileOpens' | 'matches'> = {
+    SESSION: 'sessions',
+    LIKE: 'likes',
+    COMMENT: 'comments',
+    PROFILE_OPEN: 'profileOpens',
+    MATCH: 'matches',
+  }
+  for (const row of counts) {
+    reportFor(row.variant)[countKeys[row.type]] = row._count._all
+  }
+
+  const rate = (count: number, sessions: number) => (sessions > 0 ? count / sessions : null)
+  return Array.from(variants.values()).map((report) => ({
+    ...report,
+    perSession: {
+      likes: rate(report.likes, report.sessions),
+      comments: rate(report.comments, report.sessions),
+      profileOpens: rate(report.profileOpens, report.sessions),
+      matches: rate(report.matches, report.sessions),
+    },
+  }))
+}
@@ -22,7 +22,12 @@ export async function fetchFeedSeen(
   return map;
 }
 
-export async function recordFeedSeen(viewerUserId: bigint, items: FeedSeenItem[]) {
+// feedVariant: the viewer's experiment variant, stamped on each row it (re)marks
+export async function recordFeedSeen(
+  viewerUserId: bigint,
+  items: FeedSeenItem[],
+  feedVariant: string | null = null
+) {
   if (!items.length) return;
   const seenAt = new Date();
   const idsByType = new Map<FeedSeenItem['itemType'], Set<bigint>>();
@@ -41,13 +46,13 @@ export async function recordFeedSeen(viewerUserId: bigint, items: FeedSeenItem[]
       if (!itemIds.length) continue;
 
       await tx.feedSeen.createMany({
-        data: itemIds.map((itemId) => ({ viewerUserId, itemType, itemId, seenAt })),
+        data: itemIds.map((itemId) => ({ viewerUserId, itemType, itemId, seenAt, feedVariant })),
         skipDuplicates: true
       });
 
       await tx.feedSeen.updateMany({
         where: { viewerUserId, itemType, itemId: { in: itemIds } },
-        data: { seenAt }
+        data: { seenAt, feedVariant }
       });
     }
   });
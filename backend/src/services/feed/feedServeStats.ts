@@ -0,0 +1,201 @@
+import type { FeedServePath } from '@prisma/client'
+import { prisma } from '../../lib/prisma/client.js'
+import { logger } from '../../lib/logger/logger.js'
+
+// Feed requests only bump in-process counters; they reach FeedServeStat as one
+// upsert per (hour, path, reason) when the timer fires
+const FLUSH_INTERVAL_MS = 60_000
+const HOUR_MS = 60 * 60 * 1000
+
+type ServeCounter = {
+  bucketStart: Date
+  path: FeedServePath
+  reason: string
+  requests: number
+  segmentAgeMsSum: number
+  staleServes: number
+}
+
+let counters = new Map<string, ServeCounter>()
+let flushTimer: NodeJS.Timeout | null = null
+let flushing: Promise<number> | null = null
+
+function scheduleFlush() {
+  if (flushTimer) return
+  flushTimer = setTimeout(() => {
+    flushTimer = null
+    void flushFeedServeStats()
+  }, FLUSH_INTERVAL_MS)
+  flushTimer.unref()
+}
+
+function addCounter(target: Map<string, ServeCounter>, counter: ServeCounter) {
+  const key = `${counter.bucketStart.getTime()}:${counter.path}:${counter.reason}`
+  const existing = target.get(key)
+  if (!existing) {
+    target.set(key, { ...counter })
+    return
+  }
+  existing.requests += counter.requests
+  existing.segmentAgeMsSum += counter.segmentAgeMsSum
+  existing.staleServes += counter.staleServes
+}
+
+/**
+ * Count a first-page feed request. PRESORTED serves pass the age of the segment
+ * and whether a rebuild for the user was pending; LIVE serves pass why the
+ * segment could not be used.
+ */
+export function recordFeedServe(
+  serve: { path: 'PRESORTED'; segmentAgeMs: number; stale: boolean } | { path: 'LIVE'; reason: string }
+) {
+  const now = Date.now()
+  addCounter(counters, {
+    bucketStart: new Date(now - (now % HOUR_MS)),
+    path: serve.path,
+    reason: serve.path === 'PRESORTED' ? 'hit' : serve.reason,
+    requests: 1,
+    segmentAgeMsSum: serve.path === 'PRESORTED' ? Math.max(Math.round(serve.segmentAgeMs), 0) : 0,
+    staleServes: serve.path === 'PRESORTED' && serve.stale ? 1 : 0,
+  })
+  scheduleFlush()
+}
+
+async function writeCounters() {
+  const batch = counters
+  counters = new Map()
+  let written = 0
+  for (const [key, counter] of batch) {
+    try {
+      await prisma.feedServeStat.upsert({
+        where: {
+          bucketStart_path_reason: { bucketStart: counter.bucketStart, path: counter.path, reason: counter.reason },
+        },
+        create: { ...counter, segmentAgeMsSum: BigInt(counter.segmentAgeMsSum) },
+        update: {
+          requests: { increment: counter.requests },
+          segmentAgeMsSum: { increment: BigInt(counter.segmentAgeMsSum) },
+          staleServes: { increment: counter.staleServes },
+        },
+      })
+      batch.delete(key)
+      written += 1
+    } catch (err) {
+      logger.warn('Failed to write feed serve stats', {
+        pending: batch.size,
+        error: err instanceof Error ? err.message : String(err),
+      })
+      break
+    }
+  }
+  // Keep whatever was not written for the next flush
+  if (batch.size) {
+    for (const counter of batch.values()) addCounter(counters, counter)
+    scheduleFlush()
+  }
+  return written
+}
+
+/**
+ * Write the counters collected so far. Callers share an in-flight write.
+ * Returns the number of rows upserted.
+ */
+export async function flushFeedServeStats(): Promise<number> {
+  if (flushTimer) {
+    clearTimeout(flushTimer)
+    flushTimer = null
+  }
+  if (flushing) return flushing
+  if (!counters.size) return 0
+
+  flushing = writeCounters().finally(() => {
+    flushing = null
+  })
+  return flushing
+}
+
+export type FeedServeStatRow = {
+  bucketStart: Date
+  path: FeedServePath
+  reason: string
+  requests: number
+  segmentAgeMsSum: bigint
+  staleServes: number
+}
+
+export type FeedServeSummary = {
+  requests: number
+  presorted: number
+  live: number
+  // Share of requests served from a presorted segment; null without requests
+  hitRate: number | null
+  liveByReason: Record<string, number>
+  avgSegmentAgeMs: number | null
+  staleServes: number
+}
+
+/**
+ * Totals over stat rows (any mix of hours)
+ */
+export function summarizeFeedServeStats(rows: FeedServeStatRow[]): FeedServeSummary {
+  let presorted = 0
+  let live = 0
+  let segmentAgeMsSum = 0n
+  let staleServes = 0
+  const liveByReason: Record<string, number> = {}
+
+  for (const row of rows) {
+    if (row.path === 'PRESORTED') {
+      presorted += row.requests
+      segmentAgeMsSum += row.segmentAgeMsSum
+      staleServes += row.staleServes
+    } else {
+      live += row.requests
+      liveByReason[row.reason] = (liveByReason[row.reason] ?? 0) + row.requests
+    }
+  }
+
+  const requests = presorted + live
+  return {
+    requests,
+    presorted,
+    live,
+    hitRate: requests ? presorted / requests : null,
+    liveByReason,
+    avgSegmentAgeMs: presorted ? Number(segmentAgeMsSum / BigInt(presorted)) : null,
+    staleServes,
+  }
+}
+
+/**
+ * Serve stats since `since`: window totals plus one summary per hour, oldest first
+ */
+export async function getFeedServeReport(since: Date) {
+  const rows = await prisma.feedServeStat.findMany({
+    where: { bucketStart: { gte: new Date(since.getTime() - (since.getTime() % HOUR_MS)) } },
+    orderBy: { bucketStart: 'asc' },
+    select: { bucketStart: true, path: true, reason: true, requests: true, segmentAgeMsSum: true, staleServes: true },
+  })
+
+  const byHour = new Map<number, FeedServeStatRow[]>()
+  for (const row of rows) {
+    const key = row.bucketStart.getTime()
+    byHour.set(key, [...(byHour.get(key) ?? []), row])
+  }
+
+  return {
+    totals: summarizeFeedServeStats(rows),
+    hourly: Array.from(byHour, ([bucketStart, hourRows]) => ({
+      bucketStart: new Date(bucketStart),
+      ...summarizeFeedServeStats(hourRows),
+    })),
+  }
+}
+
+/**
+ * Delete stat rows for hours before `cutoff`. Returns the number of rows deleted.
+ */
+export async function pruneFeedServeStats(cutoff: Date): Promise<number> {
+  const result = await prisma.feedServeStat.deleteMany({ where: { bucketStart: { lt: cutoff } } })
+  return result.count
+}
@@ -0,0 +1,244 @@
+import { logger } from '../../lib/logger/logger.js'
+import { runFeedPresortJob } from '../../jobs/feedPresortJob.js'
+import { invalidateAllSegmentsForUser } from './presortedFeedService.js'
+
+// Events that change what a user's presorted feed should contain
+export type FeedPresortReason =
+  | 'post'
+  | 'like'
+  | 'match'
+  | 'block'
+  | 'mute'
+  | 'hide'
+  | 'preferences'
+  | 'match_scores'
+  | 'fallback'
+
+// Events are collected per user in-process; a user's rebuild starts once no new
+// event arrived for DEBOUNCE_MS, but a steady stream of events cannot push it
+// further out than MAX_DELAY_MS after the first one
+const DEBOUNCE_MS = 5_000
+const MAX_DELAY_MS = 30_000
+// Rebuilds running at once on this instance (each one runs the full candidate pipeline)
+const MAX_CONCURRENT = 2
+// Beyond this, new users are not queued; their segments are dropped instead so
+// the next feed request takes the live path rather than a stale segment
+const MAX_PENDING_USERS = 10_000
+
+type PendingPresort = {
+  firstQueuedAt: number
+  dueAt: number
+  reasons: Set<FeedPresortReason>
+}
+
+export type FeedPresortQueueStats = {
+  pending: number
+  running: number
+  enqueued: number
+  coalesced: number
+  dropped: number
+  completed: number
+  failed: number
+  // Mean time from a user's first queued event to the start of their rebuild
+  avgWaitMs: number | null
+  enqueuedByReason: Partial<Record<FeedPresortReason, number>>
+}
+
+export type FeedPresortQueueOptions = {
+  // Rebuilds one user; `force` skips the presort freshness check
+  run: (userId: bigint, force: boolean) => Promise<unknown>
+  // Users that did not fit in the queue
+  onDrop?: (userIds: bigint[]) => void
+  debounceMs?: number
+  maxDelayMs?: number
+  maxConcurrent?: number
+  maxPendingUsers?: number
+}
+
+export type FeedPresortQueue = ReturnType<typeof createFeedPresortQueue>
+
+/**
+ * When a pending rebuild becomes due, given its first and latest event times
+ */
+export function presortDueAt(
+  firstQueuedAt: number,
+  lastQueuedAt: number,
+  debounceMs = DEBOUNCE_MS,
+  maxDelayMs = MAX_DELAY_MS
+): number {
+  return Math.min(lastQueuedAt + debounceMs, firstQueuedAt + maxDelayMs)
+}
+
+/**
+ * Debounced, per-user coalescing rebuild queue. Repeated events for the same
+ * user are coalesced into one rebuild; an event that lands while the user's
+ * rebuild is running schedules exactly one more.
+ */
+export function createFeedPresortQueue(options: FeedPresortQueueOptions) {
+  const debounceMs = options.debounceMs ?? DEBOUNCE_MS
+  const maxDelayMs = options.maxDelayMs ?? MAX_DELAY_MS
+  const maxConcurrent = options.maxConcurrent ?? MAX_CONCURRENT
+  const maxPendingUsers = options.maxPendingUsers ?? MAX_PENDING_USERS
+
+  const pending = new Map<bigint, PendingPresort>()
+  const running = new Set<bigint>()
+  let drainTimer: NodeJS.Timeout | null = null
+  let drainAt = Infinity
+
+  const counters = {
+    enqueued: 0,
+    coalesced: 0,
+    dropped: 0,
+    started: 0,
+    completed: 0,
+    failed: 0,
+    waitMsTotal: 0,
+  }
+  const enqueuedByReason: Partial<Record<FeedPresortReason, number>> = {}
+
+  function scheduleDrain(at: number) {
+    if (drainTimer && at >= drainAt) return
+    if (drainTimer) clearTimeout(drainTimer)
+    drainAt = at
+    drainTimer = setTimeout(() => {
+      drainTimer = null
+      drainAt = Infinity
+      drain()
+    }, Math.max(at - Date.now(), 0))
+    // Pending rebuilds never keep the process (or a job runner) alive
+    drainTimer.unref()
+  }
+
+  function drain() {
+    const now = Date.now()
+    let nextDueAt = Infinity
+    for (const [userId, entry] of pending) {
+      // Events that arrived during a running rebuild wait for it to finish
+      if (running.has(userId)) continue
+      if (entry.dueAt > now) {
+        nextDueAt = Math.min(nextDueAt, entry.dueAt)
+        continue
+      }
+      // Every finished rebuild drains again
+      if (running.size >= maxConcurrent) return
+      pending.delete(userId)
+      void runPresort(userId, entry)
+    }
+    if (nextDueAt < Infinity) scheduleDrain(nextDueAt)
+  }
+
+  async function runPresort(userId: bigint, entry: PendingPresort) {
+    running.add(userId)
+    counters.started += 1
+    counters.waitMsTotal += Date.now() - entry.firstQueuedAt
+    try {
+      // Events already say the inputs changed, so they skip the freshness check;
+      // a live-path fallback alone keeps it (a thin pool stays thin until inputs change)
+      const force = Array.from(entry.reasons).some((reason) => reason !== 'fallback')
+      await options.run(userId, force)
+      counters.completed += 1
+    } catch (err) {
+      counters.failed += 1
+      logger.warn('Event-driven feed presort failed', {
+        userId: userId.toString(),
+        reasons: Array.from(entry.reasons),
+        error: err instanceof Error ? err.message : String(err),
+      })
+    } finally {
+      running.delete(userId)
+      drain()
+    }
+  }
+
+  function enqueue(userIds: Iterable<bigint>, reason: FeedPresortReason) {
+    const now = Date.now()
+    const dropped: bigint[] = []
+    for (const userId of new Set(userIds)) {
+      counters.enqueued += 1
+      enqueuedByReason[reason] = (enqueuedByReason[reason] ?? 0) + 1
+
+      const entry = pending.get(userId)
+      if (entry) {
+        counters.coalesced += 1
+        entry.dueAt = presortDueAt(entry.firstQueuedAt, now, debounceMs, maxDelayMs)
+        entry.reasons.add(reason)
+        continue
+      }
+      if (pending.size >= maxPendingUsers) {
+        counters.dropped += 1
+        dropped.push(userId)
+        continue
+      }
+      pending.set(userId, {
+        firstQueuedAt: now,
+        dueAt: presortDueAt(now, now, debounceMs, maxDelayMs),
+        reasons: new Set([reason]),
+      })
+    }
+    if (dropped.length) {
+      logger.warn('Feed presort queue full; dropped rebuilds', { reason, dropped: dropped.length, pending: pending.size })
+      options.onDrop?.(dropped)
+    }
+    scheduleDrain(now + debounceMs)
+  }
+
+  /**
+   * Forget queued (not yet running) rebuilds, e.g. for deleted accounts
+   */
+  function cancel(userIds: Iterable<bigint>) {
+    for (const userId of userIds) pending.delete(userId)
+  }
+
+  function isPending(userId: bigint): boolean {
+    return pending.has(userId) || running.has(userId)
+  }
+
+  function stats(): FeedPresortQueueStats {
+    return {
+      pending: pending.size,
+      running: running.size,
+      enqueued: counters.enqueued,
+      coalesced: counters.coalesced,
+      dropped: counters.dropped,
+      completed: counters.completed,
+      failed: counters.failed,
+      avgWaitMs: counters.started ? Math.round(counters.waitMsTotal / counters.started) : null,
+      enqueuedByReason: { ...enqueuedByReason },
+    }
+  }
+
+  return { enqueue, cancel, isPending, stats }
+}
+
+const defaultQueue = createFeedPresortQueue({
+  run: (userId, force) => runFeedPresortJob(force ? { userId, incremental: false } : { userId }),
+  onDrop: (userIds) => {
+    void Promise.all(userIds.map((userId) => invalidateAllSegmentsForUser(userId))).catch((err) => {
+      logger.warn('Failed to invalidate segments of dropped feed presorts', {
+        error: err instanceof Error ? err.message : String(err),
+      })
+    })
+  },
+})
+
+/**
+ * Queue a presort rebuild for each user on this instance's queue
+ */
+export function enqueueFeedPresort(userIds: Iterable<bigint>, reason: FeedPresortReason) {
+  defaultQueue.enqueue(userIds, reason)
+}
+
+export function cancelFeedPresort(userIds: Iterable<bigint>) {
+  defaultQueue.cancel(userIds)
+}
+
+/**
+ * Whether an event for the user is waiting for (or in) a rebuild on this instance
+ */
+export function isFeedPresortPending(userId: bigint): boolean {
+  return defaultQueue.isPending(userId)
+}
+
+export function getFeedPresortQueueStats(): FeedPresortQueueStats {
+  return defaultQueue.stats()
+}
@@ -4,10 +4,12 @@ import type { PresortedFeedItem } from './presortedFeedService.js'
 
 /**
  * Apply seen penalty to presorted feed items
+ * seenPenaltyWeight comes from the viewer's feed variant when enrolled in an experiment
  */
 export async function applySeenPenalty(
   userId: bigint,
-  items: PresortedFeedItem[]
+  items: PresortedFeedItem[],
+  seenPenaltyWeight: number = feedConfig.scoring.weights.seenPenalty
 ): Promise<PresortedFeedItem[]> {
   const cutoff = Date.now() - feedConfig.seenWindowHours * 60 * 60 * 1000
 
@@ -47,7 +49,7 @@ export async function applySeenPenalty(
           seenAt = suggestionSeenMap.get(BigInt(child.id))
         }
         const isSeen = Boolean(seenAt && seenAt.getTime() >= cutoff)
-        const seenPenalty = isSeen ? feedConfig.scoring.weights.seenPenalty : 0
+        const seenPenalty = isSeen ? seenPenaltyWeight : 0
         const adjustedScore = Math.max(0, child.score - seenPenalty)
         return { ...child, score: adjustedScore }
       })
@@ -64,7 +66,7 @@ export async function applySeenPenalty(
     }
 
     const isSeen = Boolean(seenAt && seenAt.getTime() >= cutoff)
-    const seenPenalty = isSeen ? feedConfig.scoring.weights.seenPenalty : 0
+    const seenPenalty = isSeen ? seenPenaltyWeight : 0
     const adjustedScore = Math.max(0, item.score - seenPenalty)
 
     return { ...item, score: adjustedScore }
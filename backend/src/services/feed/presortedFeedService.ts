@@ -154,3 +154,38 @@ export async function cleanupExpiredSegments(): Promise<number> {
   })
   return result.count
 }
+
+/**
+ * How old users' first segments are (segment 0 decides whether a feed request
+ * is served presorted). Bucket counts are by time since computedAt.
+ */
+export async function getPresortSegmentStaleness(now: Date = new Date()) {
+  const computedSince = (minutes: number) => ({
+    segmentIndex: 0,
+    computedAt: { gte: new Date(now.getTime() - minutes * 60 * 1000) },
+  })
+  const [users, expired, within5, within15, within30, oldest] = await Promise.all([
+    prisma.presortedFeedSegment.count({ where: { segmentIndex: 0 } }),
+    prisma.presortedFeedSegment.count({ where: { segmentIndex: 0, expiresAt: { lt: now } } }),
+    prisma.presortedFeedSegment.count({ where: computedSince(5) }),
+    prisma.presortedFeedSegment.count({ where: computedSince(15) }),
+    prisma.presortedFeedSegment.count({ where: computedSince(30) }),
+    prisma.presortedFeedSegment.findFirst({
+      where: { segmentIndex: 0 },
+      orderBy: { computedAt: 'asc' },
+      select: { computedAt: true },
+    }),
+  ])
+
+  return {
+    users,
+    expired,
+    ageBuckets: {
+      under5m: within5,
+      from5to15m: within15 - within5,
+      from15to30m: within30 - within15,
+      over30m: users - within30,
+    },
+    oldestComputedAt: oldest?.computedAt ?? null,
+  }
+}
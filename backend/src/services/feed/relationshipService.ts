@@ -1,5 +1,5 @@
 import { prisma } from '../../lib/prisma/client.js';
-import { invalidateAllSegmentsForUser } from './presortedFeedService.js';
+import { enqueueFeedPresort } from './presortQueue.js';
 
 type RelationshipIds = {
   followingIds: bigint[];
@@ -51,11 +51,52 @@ export async function batchInvalidateSegments(userIds: bigint[]): Promise<void>
   });
 }
 
+export async function getActiveMatchIds(userId: bigint): Promise<bigint[]> {
+  const rows = await prisma.match.findMany({
+    where: { state: 'ACTIVE', OR: [{ userAId: userId }, { userBId: userId }] },
+    select: { userAId: true, userBId: true }
+  });
+  return rows.map((row) => (row.userAId === userId ? row.userBId : row.userAId));
+}
+
+// Only audience members whose session was refreshed this recently get a rebuild;
+// access tokens last 15 minutes, so an open client refreshes well within this
+const ACTIVE_AUDIENCE_WINDOW_MS = 30 * 60 * 1000;
+// Upper bound on rebuilds one post queues; the rest of the audience is invalidated
+const MAX_AUDIENCE_REBUILDS = 200;
+
 /**
- * Invalidate feed segments for user and all their followers
+ * Audience members with a live session used within the active window,
+ * most recently active first, at most `limit`.
  */
-export async function invalidateUserAndFollowerFeeds(userId: bigint): Promise<void> {
-  const followerIds = await getFollowerIds(userId);
-  const allUserIds = [userId, ...followerIds];
-  await batchInvalidateSegments(allUserIds);
+export async function getRecentlyActiveUserIds(userIds: bigint[], limit: number, now = new Date()): Promise<bigint[]> {
+  if (!userIds.length) return [];
+  const rows = await prisma.authSession.groupBy({
+    by: ['userId'],
+    where: {
+      userId: { in: userIds },
+      revokedAt: null,
+      expiresAt: { gt: now },
+      lastUsedAt: { gte: new Date(now.getTime() - ACTIVE_AUDIENCE_WINDOW_MS) }
+    },
+    _max: { lastUsedAt: true },
+    orderBy: { _max: { lastUsedAt: 'desc' } },
+    take: limit
+  });
+  return rows.map((row) => row.userId);
+}
+
+/**
+ * Refresh feeds after a user posts: the author and recently active followers and
+ * matches get a presort rebuild; everyone else in the audience only has their
+ * segments dropped, so their next feed request takes the live path.
+ * Relationship posts are fetched live, so followers see the post either way.
+ */
+export async function refreshAudienceFeeds(userId: bigint): Promise<void> {
+  const [followerIds, matchIds] = await Promise.all([getFollowerIds(userId), getActiveMatchIds(userId)]);
+  const audience = Array.from(new Set([...followerIds, ...matchIds])).filter((id) => id !== userId);
+
+  const active = new Set(await getRecentlyActiveUserIds(audience, MAX_AUDIENCE_REBUILDS));
+  await batchInvalidateSegments(audience.filter((id) => !active.has(id)));
+  enqueueFeedPresort([userId, ...active], 'post');
 }
@@ -0,0 +1,38 @@
+import path from 'path';
+import { ConsoleMailTransport } from './consoleTransport.js';
+import { FileMailTransport } from './fileTransport.js';
+import type { MailTransport } from './transport.js';
+
+// MAIL_TRANSPORT: 'console' (default) or 'file' (writes to MAIL_FILE_DIR)
+const transportName = (process.env.MAIL_TRANSPORT ?? 'console').toLowerCase();
+export const MAIL_FILE_DIR = path.resolve(process.env.MAIL_FILE_DIR ?? path.join(process.cwd(), 'tmp', 'mail'));
+
+// Base URL of the frontend, used to build links in outgoing mail
+export const APP_BASE_URL = (
+  process.env.APP_BASE_URL ||
+  process.env.CORS_ORIGIN?.split(',')[0]?.trim() ||
+  'http://localhost:5173'
+).replace(/\/+$/, '');
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    if (transportName === 'file') {
+      transport = new FileMailTransport(MAIL_FILE_DIR);
+    } else {
+      if (transportName !== 'console') {
+        process.stderr.write(`[mail] Unknown MAIL_TRANSPORT "${transportName}", falling back to console\n`);
+      }
+      transport = new ConsoleMailTransport();
+    }
+  }
+  return transport;
+}
+
+/**
+ * Override the transport (tests, or a real provider wired in at startup).
+ */
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
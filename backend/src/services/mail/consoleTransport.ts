@@ -0,0 +1,12 @@
+import type { MailMessage, MailTransport } from './transport.js';
+
+/**
+ * Development transport: prints outgoing mail to stdout instead of delivering it.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage) {
+    process.stdout.write(
+      `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}\n[mail] ---\n`
+    );
+  }
+}
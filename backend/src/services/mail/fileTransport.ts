@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { MailMessage, MailTransport } from './transport.js';
+
+/**
+ * Development/test transport: writes each message as a JSON file in `dir`.
+ * Tests read the newest file to pick up tokens from outgoing mail.
+ */
+export class FileMailTransport implements MailTransport {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async send(message: MailMessage) {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    const payload = { ...message, sentAt: new Date().toISOString() };
+    await fs.promises.writeFile(path.join(this.dir, fileName), JSON.stringify(payload, null, 2));
+  }
+}
@@ -0,0 +1,32 @@
+import { APP_BASE_URL } from './config.js';
+import type { MailMessage } from './transport.js';
+
+export function passwordResetMail(to: string, token: string, ttlMinutes: number): MailMessage {
+  const link = `${APP_BASE_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  return {
+    to,
+    subject: 'Reset your password',
+    text: [
+      'Someone asked to reset the password for your account.',
+      '',
+      `Open this link to choose a new password (valid for ${ttlMinutes} minutes):`,
+      link,
+      '',
+      'If you did not ask for this, you can ignore this email. Your password will not change.'
+    ].join('\n')
+  };
+}
+
+export function emailVerificationMail(to: string, token: string, ttlHours: number): MailMessage {
+  const link = `${APP_BASE_URL}/verify-email?token=${encodeURIComponent(token)}`;
+  return {
+    to,
+    subject: 'Confirm your email address',
+    text: [
+      'Welcome! Please confirm your email address.',
+      '',
+      `Open this link to confirm (valid for ${ttlHours} hours):`,
+      link
+    ].join('\n')
+  };
+}
@@ -0,0 +1,142 @@
+import type { Prisma } from '@prisma/client';
+import type { WsMessage, WsSubscribeTopic } from '@app/shared';
+import { prisma } from '../../lib/prisma/client.js';
+import { notify } from '../../ws/notify.js';
+import { invalidateAllSegmentsForUser } from '../feed/presortedFeedService.js';
+import { enqueueFeedPresort } from '../feed/presortQueue.js';
+
+type MatchRef = {
+  id: bigint;
+  userAId: bigint;
+  userBId: bigint;
+  conversationId: bigint | null;
+};
+
+function matchTargets(match: MatchRef): WsSubscribeTopic[] {
+  const targets: WsSubscribeTopic[] = [
+    { kind: 'user', id: String(match.userAId) },
+    { kind: 'user', id: String(match.userBId) }
+  ];
+  if (match.conversationId) targets.push({ kind: 'conversation', id: String(match.conversationId) });
+  return targets;
+}
+
+export function emitMatchCreated(match: MatchRef, createdAt: Date) {
+  const event: WsMessage<'server.match.created'> = {
+    type: 'server.match.created',
+    data: {
+      matchId: String(match.id),
+      conversationId: match.conversationId ? String(match.conversationId) : null,
+      userAId: String(match.userAId),
+      userBId: String(match.userBId),
+      createdAt: createdAt.toISOString()
+    },
+    ts: Date.now()
+  };
+  notify({ event, targets: matchTargets(match) });
+}
+
+/**
+ * Blocks are only announced to the blocker so the blocked user can't tell a block from an unmatch
+ * by watching the socket.
+ */
+export function emitMatchClosed(match: MatchRef, state: 'CLOSED' | 'BLOCKED', closedBy: bigint, closedAt: Date) {
+  const event: WsMessage<'server.match.closed'> = {
+    type: 'server.match.closed',
+    data: {
+      matchId: String(match.id),
+      conversationId: match.conversationId ? String(match.conversationId) : null,
+      state,
+      closedBy: String(closedBy),
+      closedAt: closedAt.toISOString()
+    },
+    ts: Date.now()
+  };
+  const targets: WsSubscribeTopic[] =
+    state === 'BLOCKED' ? [{ kind: 'user', id: String(closedBy) }] : matchTargets(match);
+  notify({ event, targets });
+}
+
+// Drop a LIKE in one direction and keep the target's cached like count in step
+async function removeLike(tx: Prisma.TransactionClient, fromUserId: bigint, toUserId: bigint) {
+  const existing = await tx.like.findUnique({
+    where: { fromUserId_toUserId: { fromUserId, toUserId } },
+    select: { action: true }
+  });
+  if (!existing || existing.action !== 'LIKE') return;
+
+  await tx.like.delete({ where: { fromUserId_toUserId: { fromUserId, toUserId } } });
+  const targetProfile = await tx.profile.findFirst({
+    where: { userId: toUserId, deletedAt: null },
+    select: { id: true, stats: { select: { profileId: true } } }
+  });
+  if (targetProfile?.stats) {
+    await tx.profileStats.update({
+      where: { profileId: targetProfile.id },
+      data: { likeCount: { increment: -1 } }
+    });
+  }
+}
+
+/**
+ * Close an active match on behalf of one participant.
+ *
+ * The conversation stays readable but no longer accepts messages (see
+ * assertConversationParticipant). Both likes are removed so a single new LIKE
+ * can't silently re-match the pair, and their match scores are dropped; the
+ * match-score job skips pairs with a closed match.
+ */
+export async function closeMatch(matchId: bigint, closedBy: bigint) {
+  const closedAt = new Date();
+  const match = await prisma.$transaction(async (tx) => {
+    const existing = await tx.match.findUnique({
+      where: { id: matchId },
+      select: { id: true, userAId: true, userBId: true, state: true, conversation: { select: { id: true } } }
+    });
+    if (!existing) return { ok: false as const, status: 404 as const, error: 'Match not found' };
+    if (existing.userAId !== closedBy && existing.userBId !== closedBy) {
+      return { ok: false as const, status: 404 as const, error: 'Match not found' };
+    }
+    if (existing.state !== 'ACTIVE') {
+      return { ok: false as const, status: 409 as const, error: 'Match is not active' };
+    }
+
+    await tx.match.update({
+      where: { id: matchId },
+      data: { state: 'CLOSED', closedAt }
+    });
+    await removeLike(tx, existing.userAId, existing.userBId);
+    await removeLike(tx, existing.userBId, existing.userAId);
+    await tx.matchScore.deleteMany({
+      where: {
+        OR: [
+          { userId: existing.userAId, candidateUserId: existing.userBId },
+          { userId: existing.userBId, candidateUserId: existing.userAId }
+        ]
+      }
+    });
+
+    return {
+      ok: true as const,
+      match: {
+        id: existing.id,
+        userAId: existing.userAId,
+        userBId: existing.userBId,
+        conversationId: existing.conversation?.id ?? null
+      }
+    };
+  });
+  if (!match.ok) return match;
+
+  emitMatchClosed(match.match, 'CLOSED', closedBy, closedAt);
+  void Promise.all([
+    invalidateAllSegmentsForUser(match.match.userAId),
+    invalidateAllSegmentsForUser(match.match.userBId)
+  ])
+    .then(() => enqueueFeedPresort([match.match.userAId, match.match.userBId], 'match'))
+    .catch(err => {
+      console.error('Failed to invalidate presorted feed segments after unmatch:', err);
+    });
+
+  return { ok: true as const, match: match.match, closedAt };
+}
@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+// Stand-in for ffprobe in CI: point FFPROBE_PATH here and describe the file through env vars.
+//   FAKE_FFPROBE_DURATION / FAKE_FFPROBE_WIDTH / FAKE_FFPROBE_HEIGHT - reported metadata
+//   FAKE_FFPROBE_FAIL=1 - exit 1 with an error on stderr, like an unreadable file
+//   FAKE_FFPROBE_HANG=1 - never answer, for timeout handling
+const env = process.env
+const file = process.argv[process.argv.length - 1]
+
+if (env.FAKE_FFPROBE_HANG === '1') {
+  setInterval(() => {}, 1000)
+} else if (env.FAKE_FFPROBE_FAIL === '1') {
+  process.stderr.write(`${file}: Invalid data found when processing input\n`)
+  process.exit(1)
+} else {
+  const streams = []
+  if (env.FAKE_FFPROBE_WIDTH && env.FAKE_FFPROBE_HEIGHT) {
+    streams.push({
+      codec_type: 'video',
+      width: Number(env.FAKE_FFPROBE_WIDTH),
+      height: Number(env.FAKE_FFPROBE_HEIGHT),
+    })
+  }
+  streams.push({ codec_type: 'audio' })
+  const format = env.FAKE_FFPROBE_DURATION ? { filename: file, duration: env.FAKE_FFPROBE_DURATION } : { filename: file }
+  process.stdout.write(JSON.stringify({ streams, format }))
+}
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildImageEncodeArgs,
+  buildVariantKey,
+  listVariantStorageKeys,
+  parseVariantKey,
+  planImageVariants
+} from '../imageVariants.js';
+import { buildMediaUrls } from '../urlBuilder.js';
+
+const STORAGE_KEY = 'ab/cd/0b9f3c1e-5a2d-4c1b-9f7e-2d3c4b5a6f70.jpg';
+
+function variantsFor(storageKey: string) {
+  const entry = (name: 'thumb' | 'card' | 'full', width: number, height: number) => ({
+    key: buildVariantKey(storageKey, name, 'webp'),
+    width,
+    height,
+    formats: { avif: buildVariantKey(storageKey, name, 'avif'), webp: buildVariantKey(storageKey, name, 'webp') }
+  });
+  return {
+    original: { key: storageKey, width: 4000, height: 3000 },
+    thumb: entry('thumb', 320, 240),
+    card: entry('card', 720, 540),
+    full: entry('full', 2048, 1536)
+  };
+}
+
+test('variant keys round-trip to the storage key they were built from', () => {
+  const key = buildVariantKey(STORAGE_KEY, 'card', 'avif');
+  assert.strictEqual(key, 'ab/cd/0b9f3c1e-5a2d-4c1b-9f7e-2d3c4b5a6f70-card.avif');
+  assert.deepStrictEqual(parseVariantKey(key), {
+    baseKey: 'ab/cd/0b9f3c1e-5a2d-4c1b-9f7e-2d3c4b5a6f70',
+    name: 'card',
+    format: 'avif'
+  });
+  assert.strictEqual(parseVariantKey(STORAGE_KEY), null);
+  assert.strictEqual(parseVariantKey('ab/cd/file-card.png'), null);
+});
+
+test('planImageVariants scales down to even sizes and never upscales', () => {
+  assert.deepStrictEqual(planImageVariants(4000, 3000), [
+    { name: 'thumb', width: 320, height: 240 },
+    { name: 'card', width: 720, height: 540 },
+    { name: 'full', width: 2048, height: 1536 }
+  ]);
+  assert.deepStrictEqual(planImageVariants(501, 333).map((v) => [v.width, v.height]), [
+    [320, 212],
+    [500, 332],
+    [500, 332]
+  ]);
+});
+
+test('planImageVariants uses display dimensions for rotated camera images', () => {
+  const [thumb] = planImageVariants(4000, 3000, 6);
+  assert.deepStrictEqual(thumb, { name: 'thumb', width: 320, height: 426 });
+});
+
+test('encoder arguments strip all metadata', () => {
+  const args = buildImageEncodeArgs('/in.jpg', '/out.webp', { width: 720, height: 540 }, 'webp');
+  const metadataFlag = args.indexOf('-map_metadata');
+  assert.ok(metadataFlag > args.indexOf('/in.jpg'));
+  assert.strictEqual(args[metadataFlag + 1], '-1');
+  assert.ok(args.includes('scale=720:540:flags=lanczos'));
+  assert.strictEqual(args[args.length - 1], '/out.webp');
+});
+
+test('buildMediaUrls links variants instead of the upload and exposes srcsets', () => {
+  const urls = buildMediaUrls({ storageKey: STORAGE_KEY, variants: variantsFor(STORAGE_KEY) });
+  assert.match(urls.original, /-full\.webp$/);
+  assert.match(urls.thumb ?? '', /-thumb\.webp$/);
+  assert.deepStrictEqual(urls.sources.map((source) => source.type), ['image/avif', 'image/webp']);
+  assert.match(urls.sources[0].srcset, /-thumb\.avif 320w, .+-card\.avif 720w, .+-full\.avif 2048w$/);
+
+  const plain = buildMediaUrls({ storageKey: STORAGE_KEY, variants: { original: { key: STORAGE_KEY } } });
+  assert.match(plain.original, /\.jpg$/);
+  assert.deepStrictEqual(plain.sources, []);
+});
+
+test('listVariantStorageKeys includes every generated format', () => {
+  const keys = listVariantStorageKeys(variantsFor(STORAGE_KEY));
+  assert.strictEqual(keys.length, 7);
+  assert.ok(keys.includes(STORAGE_KEY));
+  assert.ok(keys.includes(buildVariantKey(STORAGE_KEY, 'full', 'avif')));
+});
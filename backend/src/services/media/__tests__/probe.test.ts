@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseProbeOutput, probeMedia } from '../probe.js';
+import { MediaToolError } from '../mediaTool.js';
+import { findConstraintViolations } from '../../../jobs/mediaMetadataJob.js';
+
+const FAKE_FFPROBE = join(dirname(fileURLToPath(import.meta.url)), 'fakeFfprobe.mjs');
+
+async function withFakeEnv<T>(env: Record<string, string>, run: () => Promise<T>) {
+  const previous = Object.fromEntries(Object.keys(env).map((key) => [key, process.env[key]]));
+  Object.assign(process.env, env);
+  try {
+    return await run();
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+}
+
+test('parseProbeOutput reads container duration and video dimensions', () => {
+  const result = parseProbeOutput(JSON.stringify({
+    format: { duration: '12.480000' },
+    streams: [
+      { codec_type: 'audio', duration: '12.4' },
+      { codec_type: 'video', width: 1920, height: 1080 }
+    ]
+  }));
+  assert.deepStrictEqual(result, { durationSec: 12.48, width: 1920, height: 1080 });
+});
+
+test('parseProbeOutput falls back to stream duration and ignores junk', () => {
+  const result = parseProbeOutput(JSON.stringify({
+    format: { duration: 'N/A' },
+    streams: [{ codec_type: 'audio', duration: '95.2' }]
+  }));
+  assert.deepStrictEqual(result, { durationSec: 95.2, width: null, height: null });
+  assert.throws(() => parseProbeOutput('not json'), MediaToolError);
+});
+
+test('probeMedia spawns the configured binary and parses its output', async () => {
+  const result = await withFakeEnv(
+    { FAKE_FFPROBE_DURATION: '200.5', FAKE_FFPROBE_WIDTH: '1280', FAKE_FFPROBE_HEIGHT: '720' },
+    () => probeMedia('/tmp/clip.mp4', { binary: FAKE_FFPROBE })
+  );
+  assert.deepStrictEqual(result, { durationSec: 200.5, width: 1280, height: 720 });
+});
+
+test('probeMedia rejects on a failing, missing or hanging binary', async () => {
+  await withFakeEnv({ FAKE_FFPROBE_FAIL: '1' }, () =>
+    assert.rejects(probeMedia('/tmp/broken.mp4', { binary: FAKE_FFPROBE }), /exited with code 1/)
+  );
+  await assert.rejects(probeMedia('/tmp/clip.mp4', { binary: '/nonexistent/ffprobe' }), /Failed to start ffprobe/);
+  await withFakeEnv({ FAKE_FFPROBE_HANG: '1' }, () =>
+    assert.rejects(probeMedia('/tmp/clip.mp4', { binary: FAKE_FFPROBE, timeoutMs: 300 }), /timed out/)
+  );
+});
+
+test('findConstraintViolations enforces duration for all media and resolution for video only', () => {
+  assert.deepStrictEqual(findConstraintViolations('VIDEO', { durationSec: 60, width: 1920, height: 1080 }), []);
+
+  const tooLong = findConstraintViolations('AUDIO', { durationSec: 181.4, width: null, height: null });
+  assert.deepStrictEqual(tooLong, ['Duration 181s exceeds maximum 180s']);
+
+  const tooBig = findConstraintViolations('VIDEO', { durationSec: null, width: 7680, height: 4320 });
+  assert.strictEqual(tooBig.length, 1);
+  assert.match(tooBig[0], /Resolution 7680×4320 exceeds maximum 3840×2160/);
+
+  assert.deepStrictEqual(findConstraintViolations('AUDIO', { durationSec: 10, width: 7680, height: 4320 }), []);
+});
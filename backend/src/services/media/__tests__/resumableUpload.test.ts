@@ -0,0 +1,282 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { createHash } from 'node:crypto';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import type { Request } from 'express';
+import { prisma } from '../../../lib/prisma/client.js';
+
+const tempDir = await mkdtemp(join(tmpdir(), 'resumable-upload-'));
+process.env.UPLOAD_TEMP_DIR = join(tempDir, 'tmp');
+process.env.MEDIA_UPLOAD_DIR = join(tempDir, 'media');
+const { appendUploadChunk, completeUploadSession, createUploadSession, getUploadSession, UploadOffsetError } =
+  await import('../resumableUpload.js');
+const { getResumableTempPath, getReceivedBytes } = await import('../streamingUpload.js');
+const { mediaService, MediaError } = await import('../mediaService.js');
+const { getMediaStorage } = await import('../storage.js');
+const { createUser: createTestUser, cleanupUsers: cleanupTestUsers } = await import('../../../__tests__/helpers.js');
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+function requestOf(...chunks: Buffer[]) {
+  return Readable.from(chunks) as unknown as Request;
+}
+
+function sha256(bytes: Buffer) {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+async function createUser(label: string) {
+  const user = await createTestUser({ label: `upload-${label}`, profile: false });
+  return user.id;
+}
+
+function openSession(ownerUserId: bigint, bytes: Buffer, visibility: 'PUBLIC' | 'PRIVATE' = 'PUBLIC') {
+  return createUploadSession({
+    ownerUserId,
+    fileName: 'photo.png',
+    mimeType: 'image/png',
+    totalBytes: bytes.length,
+    sha256: sha256(bytes),
+    visibility
+  });
+}
+
+async function upload(ownerUserId: bigint, bytes: Buffer, visibility: 'PUBLIC' | 'PRIVATE' = 'PUBLIC') {
+  const session = await openSession(ownerUserId, bytes, visibility);
+  await appendUploadChunk(requestOf(bytes), session.uploadId, ownerUserId, 0);
+  const completed = await completeUploadSession(session.uploadId, ownerUserId);
+  return prisma.media.findUniqueOrThrow({ where: { id: completed.mediaId } });
+}
+
+async function attachToMessage(senderId: bigint, recipientId: bigint, mediaId: bigint) {
+  const [userAId, userBId] = senderId < recipientId ? [senderId, recipientId] : [recipientId, senderId];
+  const conversation = await prisma.conversation.create({ data: { userAId, userBId } });
+  await prisma.message.create({
+    data: { conversationId: conversation.id, senderId, body: '', media: { create: [{ mediaId, order: 0 }] } }
+  });
+  await prisma.media.update({ where: { id: mediaId }, data: { visibility: 'PRIVATE' } });
+}
+
+async function readKey(storageKey: string, viewerId: bigint | null) {
+  const result = await mediaService.getMediaStreamByKey(storageKey, viewerId);
+  if ('stream' in result) result.stream.destroy();
+  return result;
+}
+
+async function cleanupUsers(userIds: bigint[]) {
+  const media = await prisma.media.findMany({ where: { ownerUserId: { in: userIds } }, select: { id: true } });
+  // Variant generation runs in the background after each image upload
+  for (const { id } of media) {
+    const deadline = Date.now() + 10_000;
+    const scope = { jobName: 'media-variants', metadata: { path: '$.mediaId', equals: String(id) } };
+    while (Date.now() < deadline && (await prisma.jobRun.count({ where: { ...scope, status: 'RUNNING' } })) > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    await prisma.jobRun.deleteMany({ where: scope });
+  }
+  await cleanupTestUsers(userIds);
+}
+
+test.after(() => rm(tempDir, { recursive: true, force: true }));
+
+test('Upload sessions - declarations are checked before any bytes are accepted', async () => {
+  const ownerUserId = await createUser('declare');
+  try {
+    const declared = {
+      ownerUserId,
+      fileName: 'photo.png',
+      mimeType: 'image/png',
+      totalBytes: PNG.length,
+      sha256: sha256(PNG)
+    };
+    await assert.rejects(createUploadSession({ ...declared, sha256: 'abc' }), /sha256 must be a hex SHA-256 digest/);
+    await assert.rejects(createUploadSession({ ...declared, totalBytes: 0 }), /totalBytes must be a positive integer/);
+    await assert.rejects(createUploadSession({ ...declared, mimeType: 'image/svg+xml' }), /SVG not allowed/);
+    await assert.rejects(
+      createUploadSession({ ...declared, visibility: 'FRIENDS' as 'PUBLIC' }),
+      /Invalid visibility/
+    );
+    assert.strictEqual(await prisma.mediaUploadSession.count({ where: { ownerUserId } }), 0);
+  } finally {
+    await cleanupUsers([ownerUserId]);
+  }
+});
+
+test('Upload sessions - chunks resume at the received offset and completion is idempotent', async () => {
+  const ownerUserId = await createUser('resume');
+  try {
+    const session = await openSession(ownerUserId, PNG);
+    assert.strictEqual(session.receivedBytes, 0);
+
+    const head = PNG.subarray(0, 20);
+    const tail = PNG.subarray(20);
+    await appendUploadChunk(requestOf(head), session.uploadId, ownerUserId, 0);
+
+    // A client that lost track of the offset is told where to continue
+    await assert.rejects(appendUploadChunk(requestOf(tail), session.uploadId, ownerUserId, 0), (err: unknown) => {
+      assert.ok(err instanceof UploadOffsetError);
+      assert.strictEqual(err.receivedBytes, head.length);
+      return true;
+    });
+    await assert.rejects(completeUploadSession(session.uploadId, ownerUserId), UploadOffsetError);
+    assert.strictEqual((await getUploadSession(session.uploadId, ownerUserId)).receivedBytes, head.length);
+
+    // Sessions belong to their owner
+    const strangerId = await createUser('stranger');
+    try {
+      await assert.rejects(getUploadSession(session.uploadId, strangerId), /Upload not found/);
+    } finally {
+      await cleanupUsers([strangerId]);
+    }
+
+    await appendUploadChunk(requestOf(tail), session.uploadId, ownerUserId, head.length);
+    const completed = await completeUploadSession(session.uploadId, ownerUserId);
+    assert.strictEqual(completed.status, 'READY');
+
+    const again = await completeUploadSession(session.uploadId, ownerUserId);
+    assert.strictEqual(again.mediaId, completed.mediaId);
+    const view = await getUploadSession(session.uploadId, ownerUserId);
+    assert.strictEqual(view.status, 'COMPLETED');
+    assert.strictEqual(view.mediaId, completed.mediaId);
+  } finally {
+    await cleanupUsers([ownerUserId]);
+  }
+});
+
+test('Upload sessions - a checksum mismatch fails the session and drops its bytes', async () => {
+  const ownerUserId = await createUser('checksum');
+  try {
+    const corrupted = Buffer.from(PNG);
+    corrupted[corrupted.length - 1] ^= 0xff;
+    const session = await openSession(ownerUserId, PNG);
+    await appendUploadChunk(requestOf(corrupted), session.uploadId, ownerUserId, 0);
+
+    await assert.rejects(completeUploadSession(session.uploadId, ownerUserId), (err: unknown) => {
+      assert.ok(err instanceof MediaError);
+      assert.strictEqual(err.status, 422);
+      return true;
+    });
+    assert.strictEqual((await getUploadSession(session.uploadId, ownerUserId)).status, 'FAILED');
+    assert.strictEqual(await getReceivedBytes(getResumableTempPath(session.uploadId, 'photo.png')), 0);
+    assert.strictEqual(await prisma.mediaUploadChunk.count({ where: { uploadId: session.uploadId } }), 0);
+    assert.strictEqual(await prisma.media.count({ where: { ownerUserId } }), 0);
+  } finally {
+    await cleanupUsers([ownerUserId]);
+  }
+});
+
+test('Upload sessions - chunks are kept in media storage, so any instance can continue the upload', async () => {
+  const ownerUserId = await createUser('instances');
+  try {
+    const session = await openSession(ownerUserId, PNG);
+    await appendUploadChunk(requestOf(PNG.subarray(0, 30)), session.uploadId, ownerUserId, 0);
+
+    const chunks = await prisma.mediaUploadChunk.findMany({ where: { uploadId: session.uploadId } });
+    assert.deepStrictEqual(
+      chunks.map((c) => [c.offset, c.sizeBytes]),
+      [[0, 30]]
+    );
+    assert.ok(await getMediaStorage().exists(chunks[0].storageKey));
+
+    // Another instance has none of this one's temp files
+    await rm(process.env.UPLOAD_TEMP_DIR!, { recursive: true, force: true });
+    assert.strictEqual((await getUploadSession(session.uploadId, ownerUserId)).receivedBytes, 30);
+    await appendUploadChunk(requestOf(PNG.subarray(30)), session.uploadId, ownerUserId, 30);
+    const completed = await completeUploadSession(session.uploadId, ownerUserId);
+    assert.strictEqual(completed.status, 'READY');
+
+    // The chunks are dropped once the media exists
+    assert.strictEqual(await prisma.mediaUploadChunk.count({ where: { uploadId: session.uploadId } }), 0);
+    assert.strictEqual(await getMediaStorage().exists(chunks[0].storageKey), false);
+  } finally {
+    await cleanupUsers([ownerUserId]);
+  }
+});
+
+test('Upload sessions - a session held by another request is busy until its lease runs out', async () => {
+  const ownerUserId = await createUser('lease');
+  try {
+    const session = await openSession(ownerUserId, PNG);
+    await prisma.mediaUploadSession.update({
+      where: { id: session.uploadId },
+      data: { lockedUntil: new Date(Date.now() + 60_000) }
+    });
+    await assert.rejects(appendUploadChunk(requestOf(PNG), session.uploadId, ownerUserId, 0), (err: unknown) => {
+      assert.ok(err instanceof MediaError);
+      assert.strictEqual(err.status, 409);
+      return true;
+    });
+    assert.strictEqual((await getUploadSession(session.uploadId, ownerUserId)).receivedBytes, 0);
+
+    // A lease left behind by a crashed instance lapses
+    await prisma.mediaUploadSession.update({
+      where: { id: session.uploadId },
+      data: { lockedUntil: new Date(Date.now() - 1000) }
+    });
+    const view = await appendUploadChunk(requestOf(PNG), session.uploadId, ownerUserId, 0);
+    assert.strictEqual(view.receivedBytes, PNG.length);
+    const row = await prisma.mediaUploadSession.findUniqueOrThrow({ where: { id: session.uploadId } });
+    assert.strictEqual(row.lockedUntil, null);
+  } finally {
+    await cleanupUsers([ownerUserId]);
+  }
+});
+
+test('Upload dedup - identical bytes reuse the stored object only under the same access rules', async () => {
+  const ownerUserId = await createUser('dedup');
+  const friendId = await createUser('friend');
+  try {
+    const first = await upload(ownerUserId, PNG);
+    const second = await upload(ownerUserId, PNG);
+    assert.notStrictEqual(second.id, first.id);
+    assert.strictEqual(second.storageKey, first.storageKey);
+    assert.strictEqual(second.visibility, 'PUBLIC');
+
+    // A different visibility never shares an object
+    const hidden = await upload(ownerUserId, PNG, 'PRIVATE');
+    assert.notStrictEqual(hidden.storageKey, first.storageKey);
+
+    // Nor does media that was sent as a message attachment
+    await attachToMessage(ownerUserId, friendId, hidden.id);
+    const privateAgain = await upload(ownerUserId, PNG, 'PRIVATE');
+    assert.notStrictEqual(privateAgain.storageKey, hidden.storageKey);
+  } finally {
+    await cleanupUsers([ownerUserId, friendId]);
+  }
+});
+
+test('Upload dedup - a shared key is served by whichever live row grants the viewer access', async () => {
+  const ownerUserId = await createUser('shared');
+  const friendId = await createUser('friend');
+  const strangerId = await createUser('stranger');
+  try {
+    const published = await upload(ownerUserId, PNG);
+    const sent = await upload(ownerUserId, PNG);
+    assert.strictEqual(sent.storageKey, published.storageKey);
+    const storageKey = published.storageKey!;
+
+    // One copy became an attachment; the other still publishes the same bytes
+    await attachToMessage(ownerUserId, friendId, sent.id);
+    const served = await readKey(storageKey, strangerId);
+    assert.ok('stream' in served);
+
+    // Once the public copy is gone only the attachment's rules remain
+    await prisma.media.update({ where: { id: published.id }, data: { deletedAt: new Date() } });
+    await assert.rejects(readKey(storageKey, strangerId), (err: unknown) => {
+      assert.ok(err instanceof MediaError);
+      assert.strictEqual(err.status, 403);
+      return true;
+    });
+    await assert.rejects(readKey(storageKey, null), /Forbidden/);
+    assert.ok('stream' in (await readKey(storageKey, ownerUserId)));
+  } finally {
+    await cleanupUsers([ownerUserId, friendId, strangerId]);
+  }
+});
@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { createServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+import { text } from 'node:stream/consumers';
+import { S3StorageProvider } from '../s3StorageProvider.js';
+
+type FakeS3 = {
+  endpoint: string;
+  objects: Map<string, { body: Buffer; contentType: string | undefined }>;
+  requests: string[];
+  close: () => Promise<void>;
+};
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Just enough of the S3 REST API (path-style, like MinIO) to exercise the provider
+ */
+async function startFakeS3(): Promise<FakeS3> {
+  const objects = new Map<string, { body: Buffer; contentType: string | undefined }>();
+  const uploads = new Map<string, Buffer[]>();
+  const requests: string[] = [];
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://fake');
+    const key = decodeURIComponent(url.pathname.replace(/^\/media-bucket\//, ''));
+    requests.push(`${req.method} ${url.pathname}${url.search}`);
+    if (!String(req.headers.authorization).startsWith('AWS4-HMAC-SHA256 Credential=test-key/')) {
+      res.writeHead(403).end('<Error><Code>AccessDenied</Code></Error>');
+      return;
+    }
+    const body = await readBody(req);
+    const uploadId = url.searchParams.get('uploadId');
+
+    if (req.method === 'POST' && url.searchParams.has('uploads')) {
+      uploads.set('upload-1', []);
+      res.end('<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>');
+    } else if (req.method === 'PUT' && uploadId) {
+      uploads.get(uploadId)![Number(url.searchParams.get('partNumber')) - 1] = body;
+      res.writeHead(200, { etag: `"part-${url.searchParams.get('partNumber')}"` }).end();
+    } else if (req.method === 'POST' && uploadId) {
+      objects.set(key, { body: Buffer.concat(uploads.get(uploadId)!), contentType: undefined });
+      res.end('<CompleteMultipartUploadResult/>');
+    } else if (req.method === 'PUT') {
+      objects.set(key, { body, contentType: req.headers['content-type'] });
+      res.end();
+    } else if (req.method === 'GET' || req.method === 'HEAD') {
+      const object = objects.get(key);
+      if (!object) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200).end(req.method === 'GET' ? object.body : undefined);
+    } else if (req.method === 'DELETE') {
+      objects.delete(key);
+      res.writeHead(204).end();
+    } else {
+      res.writeHead(400).end();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    objects,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve()))
+  };
+}
+
+function providerFor(endpoint: string) {
+  return new S3StorageProvider({
+    endpoint,
+    publicEndpoint: 'https://media.example.com',
+    region: 'us-east-1',
+    bucket: 'media-bucket',
+    accessKeyId: 'test-key',
+    secretAccessKey: 'test-secret',
+    forcePathStyle: true
+  });
+}
+
+test('S3StorageProvider stores, reads and deletes objects', async () => {
+  const s3 = await startFakeS3();
+  try {
+    const storage = providerFor(s3.endpoint);
+    await storage.put(Readable.from([Buffer.from('hello '), Buffer.from('world')]), 'ab/cd/file.jpg', {
+      contentType: 'image/jpeg'
+    });
+    assert.strictEqual(s3.objects.get('ab/cd/file.jpg')?.contentType, 'image/jpeg');
+    assert.strictEqual(await text(await storage.get('ab/cd/file.jpg')), 'hello world');
+    assert.strictEqual(await storage.exists('ab/cd/file.jpg'), true);
+
+    await storage.delete('ab/cd/file.jpg');
+    assert.strictEqual(await storage.exists('ab/cd/file.jpg'), false);
+    await assert.rejects(storage.get('ab/cd/file.jpg'), /not found/);
+  } finally {
+    await s3.close();
+  }
+});
+
+test('S3StorageProvider sends large files as a multipart upload', async () => {
+  const s3 = await startFakeS3();
+  try {
+    const storage = providerFor(s3.endpoint);
+    const chunk = Buffer.alloc(1024 * 1024, 7);
+    const chunks = Array.from({ length: 9 }, () => chunk);
+    await storage.put(Readable.from(chunks), 'ab/cd/video.mp4', { contentType: 'video/mp4' });
+
+    assert.strictEqual(s3.objects.get('ab/cd/video.mp4')?.body.length, 9 * 1024 * 1024);
+    assert.deepStrictEqual(
+      s3.requests.map((request) => request.split('?')[1] ?? ''),
+      ['uploads=', 'partNumber=1&uploadId=upload-1', 'partNumber=2&uploadId=upload-1', 'uploadId=upload-1']
+    );
+  } finally {
+    await s3.close();
+  }
+});
+
+test('S3StorageProvider presigns against the public endpoint', () => {
+  const url = new URL(providerFor('http://minio:9000').getSignedUrl('ab/cd/file.jpg', 300));
+  assert.strictEqual(url.origin, 'https://media.example.com');
+  assert.strictEqual(url.pathname, '/media-bucket/ab/cd/file.jpg');
+  assert.strictEqual(url.searchParams.get('X-Amz-Expires'), '300');
+  assert.ok(url.searchParams.get('X-Amz-Signature'));
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { readMediaUrlSigningSecret } from '../config.js';
+import { createSignedMediaUrl, signPlaylistEntries, verifyMediaUrlSignature } from '../signedUrls.js';
+
+const KEY = 'ab/cd/0b9f3c1e-5a2d-4c1b-9f7e-2d3c4b5a6f70-card.webp';
+
+function paramsOf(url: string) {
+  const params = new URL(url, 'http://localhost').searchParams;
+  return { expires: params.get('expires') ?? undefined, signature: params.get('signature') ?? undefined };
+}
+
+test('local signed URLs point at /media and verify until they expire', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const signed = createSignedMediaUrl(KEY, 300, now);
+  assert.match(signed.url, /\/media\/ab\/cd\/.+-card\.webp\?expires=\d+&signature=/);
+  assert.strictEqual(signed.expiresAt.getTime(), now + 300_000);
+
+  const { expires, signature } = paramsOf(signed.url);
+  assert.strictEqual(verifyMediaUrlSignature(KEY, expires, signature, now + 299_000), true);
+  assert.strictEqual(verifyMediaUrlSignature(KEY, expires, signature, now + 301_000), false);
+});
+
+test('signatures are bound to the key and the expiry', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const { expires, signature } = paramsOf(createSignedMediaUrl(KEY, 300, now).url);
+  assert.strictEqual(verifyMediaUrlSignature(KEY.replace('-card', '-full'), expires, signature, now), false);
+  assert.strictEqual(verifyMediaUrlSignature(KEY, String(Number(expires) + 3600), signature, now), false);
+  assert.strictEqual(verifyMediaUrlSignature(KEY, expires, undefined, now), false);
+  assert.strictEqual(verifyMediaUrlSignature(KEY, 'soon', signature, now), false);
+});
+
+test('signed playlists sign the variant playlists and segments they list', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const expires = Math.floor(now / 1000) + 300;
+  const master = ['#EXTM3U', '#EXT-X-STREAM-INF:BANDWIDTH=900000', '360p/index.m3u8', ''].join('\n');
+  const signed = signPlaylistEntries('ab/cd/video-hls/master.m3u8', master, expires, now).split('\n');
+
+  assert.strictEqual(signed[0], '#EXTM3U');
+  assert.strictEqual(signed[1], '#EXT-X-STREAM-INF:BANDWIDTH=900000');
+  assert.match(signed[2], /\/media\/ab\/cd\/video-hls\/360p\/index\.m3u8\?expires=/);
+  const child = paramsOf(signed[2]);
+  assert.strictEqual(child.expires, String(expires));
+  assert.strictEqual(verifyMediaUrlSignature('ab/cd/video-hls/360p/index.m3u8', child.expires, child.signature, now), true);
+
+  const variant = signPlaylistEntries('ab/cd/video-hls/360p/index.m3u8', '#EXTINF:4.0,\nseg_000.ts\n', expires, now);
+  const segment = paramsOf(variant.split('\n')[1]);
+  assert.strictEqual(verifyMediaUrlSignature('ab/cd/video-hls/360p/seg_000.ts', segment.expires, segment.signature, now), true);
+
+  // Entries outside the playlist's directory are never signed
+  const escaping = '../../other/secret.ts\nhttps://cdn.example.com/seg.ts';
+  assert.strictEqual(signPlaylistEntries('ab/cd/video-hls/master.m3u8', escaping, expires, now), escaping);
+});
+
+test('a signing secret is required in production', () => {
+  const { NODE_ENV, MEDIA_URL_SIGNING_SECRET } = process.env;
+  try {
+    delete process.env.MEDIA_URL_SIGNING_SECRET;
+    process.env.NODE_ENV = 'production';
+    assert.throws(() => readMediaUrlSigningSecret(), /MEDIA_URL_SIGNING_SECRET is required/);
+
+    process.env.MEDIA_URL_SIGNING_SECRET = 'configured';
+    assert.strictEqual(readMediaUrlSigningSecret(), 'configured');
+  } finally {
+    if (NODE_ENV === undefined) delete process.env.NODE_ENV;
+    else process.env.NODE_ENV = NODE_ENV;
+    if (MEDIA_URL_SIGNING_SECRET === undefined) delete process.env.MEDIA_URL_SIGNING_SECRET;
+    else process.env.MEDIA_URL_SIGNING_SECRET = MEDIA_URL_SIGNING_SECRET;
+  }
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { createHash } from 'node:crypto';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import type { Request } from 'express';
+
+const tempDir = await mkdtemp(join(tmpdir(), 'resumable-'));
+process.env.UPLOAD_TEMP_DIR = tempDir;
+const { getResumableTempPath, getReceivedBytes, hashFile, streamChunkToDisk } = await import('../streamingUpload.js');
+
+function requestOf(...chunks: Buffer[]) {
+  return Readable.from(chunks) as unknown as Request;
+}
+
+test.after(() => rm(tempDir, { recursive: true, force: true }));
+
+test('chunks are appended so an upload resumes at the received offset', async () => {
+  const filePath = getResumableTempPath('session-1', 'clip.mp4');
+  assert.strictEqual(filePath, join(tempDir, 'session-1.part.mp4'));
+  assert.strictEqual(await getReceivedBytes(filePath), 0);
+
+  assert.strictEqual(await streamChunkToDisk(requestOf(Buffer.from('hello ')), filePath, { maxBytes: 16 }), 6);
+  assert.strictEqual(await getReceivedBytes(filePath), 6);
+  await streamChunkToDisk(requestOf(Buffer.from('wor'), Buffer.from('ld')), filePath, { maxBytes: 16 });
+
+  assert.strictEqual(await readFile(filePath, 'utf8'), 'hello world');
+  assert.strictEqual(await hashFile(filePath), createHash('sha256').update('hello world').digest('hex'));
+});
+
+test('an oversized chunk is rejected and dropped from the temp file', async () => {
+  const filePath = getResumableTempPath('session-2', 'clip.mp4');
+  await streamChunkToDisk(requestOf(Buffer.from('abcd')), filePath, { maxBytes: 4 });
+
+  await assert.rejects(
+    streamChunkToDisk(requestOf(Buffer.from('efgh'), Buffer.from('ijkl')), filePath, { maxBytes: 6 }),
+    /exceeds 6 bytes/
+  );
+  assert.strictEqual(await readFile(filePath, 'utf8'), 'abcd');
+});
+
+test('temp paths ignore unsafe file extensions', () => {
+  assert.strictEqual(getResumableTempPath('session-3', 'a.b/../../etc'), join(tempDir, 'session-3.part'));
+  assert.strictEqual(getResumableTempPath('session-4', 'noextension'), join(tempDir, 'session-4.part'));
+});
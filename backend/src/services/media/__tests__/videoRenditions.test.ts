@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildHlsKey,
+  buildHlsMasterPlaylist,
+  buildPosterKey,
+  buildPreviewArgs,
+  buildPreviewKey,
+  parseRenditionKey,
+  selectHlsRenditions
+} from '../videoRenditions.js';
+import { listVariantStorageKeys, parseVariantKey } from '../imageVariants.js';
+import { buildMediaUrls } from '../urlBuilder.js';
+
+const STORAGE_KEY = 'ab/cd/0b9f3c1e-5a2d-4c1b-9f7e-2d3c4b5a6f70.mp4';
+const BASE_KEY = 'ab/cd/0b9f3c1e-5a2d-4c1b-9f7e-2d3c4b5a6f70';
+
+test('rendition keys resolve to the video they were built from', () => {
+  assert.deepStrictEqual(parseRenditionKey(buildPosterKey(STORAGE_KEY)), { baseKey: BASE_KEY, mimeType: 'image/webp' });
+  assert.deepStrictEqual(parseRenditionKey(buildPreviewKey(STORAGE_KEY)), { baseKey: BASE_KEY, mimeType: 'video/mp4' });
+  assert.deepStrictEqual(parseRenditionKey(buildHlsKey(STORAGE_KEY, 'master.m3u8')), {
+    baseKey: BASE_KEY,
+    mimeType: 'application/vnd.apple.mpegurl'
+  });
+  assert.deepStrictEqual(parseRenditionKey(buildHlsKey(STORAGE_KEY, '360p/seg_004.ts')), {
+    baseKey: BASE_KEY,
+    mimeType: 'video/mp2t'
+  });
+  assert.strictEqual(parseRenditionKey(STORAGE_KEY), null);
+  assert.strictEqual(parseRenditionKey(buildHlsKey(STORAGE_KEY, '../secret.m3u8')), null);
+  // Posters are not mistaken for image variants
+  assert.strictEqual(parseVariantKey(buildPosterKey(STORAGE_KEY)), null);
+});
+
+test('selectHlsRenditions skips upscaled renditions but always keeps the lowest', () => {
+  assert.deepStrictEqual(selectHlsRenditions(1080).map((r) => r.name), ['360p', '720p']);
+  assert.deepStrictEqual(selectHlsRenditions(480).map((r) => r.name), ['360p']);
+  assert.deepStrictEqual(selectHlsRenditions(240).map((r) => r.name), ['360p']);
+  assert.deepStrictEqual(selectHlsRenditions(null).map((r) => r.name), ['360p']);
+});
+
+test('master playlist lists each rendition relative to itself', () => {
+  const playlist = buildHlsMasterPlaylist(selectHlsRenditions(720));
+  assert.strictEqual(
+    playlist,
+    '#EXTM3U\n#EXT-X-VERSION:3\n#EXT-X-STREAM-INF:BANDWIDTH=900000\n360p/index.m3u8\n' +
+      '#EXT-X-STREAM-INF:BANDWIDTH=2800000\n720p/index.m3u8\n'
+  );
+});
+
+test('preview is short, silent and stripped of metadata', () => {
+  const args = buildPreviewArgs('/in.mp4', '/out.mp4');
+  assert.ok(args.includes('-an'));
+  assert.strictEqual(args[args.indexOf('-t') + 1], '6');
+  assert.strictEqual(args[args.indexOf('-map_metadata') + 1], '-1');
+  assert.strictEqual(args[args.length - 1], '/out.mp4');
+});
+
+test('buildMediaUrls uses the poster as thumb and exposes preview and HLS', () => {
+  const variants = {
+    original: { key: STORAGE_KEY },
+    poster: { key: buildPosterKey(STORAGE_KEY) },
+    preview: { key: buildPreviewKey(STORAGE_KEY) },
+    hls: { key: buildHlsKey(STORAGE_KEY, 'master.m3u8'), files: [buildHlsKey(STORAGE_KEY, '360p/index.m3u8')] }
+  };
+  const urls = buildMediaUrls({ storageKey: STORAGE_KEY, variants });
+  assert.match(urls.original, /\.mp4$/);
+  assert.match(urls.thumb ?? '', /-poster\.webp$/);
+  assert.match(urls.preview ?? '', /-preview\.mp4$/);
+  assert.match(urls.hls ?? '', /-hls\/master\.m3u8$/);
+  assert.strictEqual(listVariantStorageKeys(variants).length, 5);
+
+  const plain = buildMediaUrls({ storageKey: STORAGE_KEY, variants: { original: { key: STORAGE_KEY } } });
+  assert.strictEqual(plain.preview, null);
+  assert.strictEqual(plain.hls, null);
+});
@@ -1,6 +1,7 @@
 import path from 'path';
 import { fileURLToPath } from 'node:url';
 import { existsSync } from 'node:fs';
+import { randomBytes } from 'node:crypto';
 
 const envDir = process.env.MEDIA_UPLOAD_DIR;
 export const MEDIA_UPLOAD_ROOT = envDir
@@ -56,3 +57,54 @@ const rawMediaBase = process.env.MEDIA_BASE_URL;
 export const MEDIA_BASE_URL = !rawMediaBase || rawMediaBase === '/media' 
   ? '' 
   : rawMediaBase.replace(/\/$/, '');
+
+// MEDIA_STORAGE selects where media files live: 'local' (MEDIA_UPLOAD_ROOT, default) or 's3'
+export const MEDIA_STORAGE_DRIVER: 'local' | 's3' = process.env.MEDIA_STORAGE === 's3' ? 's3' : 'local';
+
+export type S3StorageConfig = {
+  endpoint: string;
+  // Host browsers use for presigned URLs when it differs from the one the backend reaches (e.g. MinIO in Docker)
+  publicEndpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // MinIO and most S3 stand-ins only support path-style addressing (`endpoint/bucket/key`)
+  forcePathStyle: boolean;
+};
+
+export function readS3Config(): S3StorageConfig {
+  const endpoint = process.env.S3_ENDPOINT;
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('MEDIA_STORAGE=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+  return {
+    endpoint: endpoint.replace(/\/$/, ''),
+    publicEndpoint: (process.env.S3_PUBLIC_ENDPOINT ?? endpoint).replace(/\/$/, ''),
+    region: process.env.S3_REGION ?? 'us-east-1',
+    bucket,
+    accessKeyId,
+    secretAccessKey,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false'
+  };
+}
+
+/**
+ * Secret for `/media/*` URL signatures. Signed URLs must verify on every instance
+ * and across restarts, so production and S3 storage require MEDIA_URL_SIGNING_SECRET;
+ * local development falls back to a per-process secret.
+ */
+export function readMediaUrlSigningSecret(): string {
+  const secret = process.env.MEDIA_URL_SIGNING_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production' || MEDIA_STORAGE_DRIVER === 's3') {
+    throw new Error('MEDIA_URL_SIGNING_SECRET is required in production and with MEDIA_STORAGE=s3');
+  }
+  return randomBytes(32).toString('hex');
+}
+
+// Lifetime of signed media URLs; short because they bypass the viewer check
+export const MEDIA_SIGNED_URL_TTL_SEC = Math.max(30, Number(process.env.MEDIA_SIGNED_URL_TTL_SEC) || 300);
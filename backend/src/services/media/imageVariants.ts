@@ -0,0 +1,138 @@
+/**
+ * Responsive image variants
+ * Every image is re-encoded by ffmpeg into three widths, each as AVIF and WebP.
+ * Re-encoding drops all metadata (EXIF, GPS, camera info), so only variants are linked
+ * once they exist; the untouched upload is kept for reprocessing.
+ */
+
+import { ffmpegPath, runMediaTool, type MediaToolOptions } from './mediaTool.js'
+
+export const IMAGE_VARIANT_SPECS = [
+  { name: 'thumb', maxWidth: 320 },
+  { name: 'card', maxWidth: 720 },
+  { name: 'full', maxWidth: 2048 },
+] as const
+
+export const IMAGE_VARIANT_FORMATS = ['avif', 'webp'] as const
+
+export type ImageVariantName = (typeof IMAGE_VARIANT_SPECS)[number]['name']
+export type ImageVariantFormat = (typeof IMAGE_VARIANT_FORMATS)[number]
+
+export type ImageVariant = {
+  key: string
+  width: number
+  height: number
+  formats: Record<ImageVariantFormat, string>
+}
+
+const FORMAT_MIME: Record<ImageVariantFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+}
+
+const ENCODER_ARGS: Record<ImageVariantFormat, string[]> = {
+  avif: ['-c:v', 'libaom-av1', '-still-picture', '1', '-crf', '32', '-cpu-used', '6', '-pix_fmt', 'yuv420p'],
+  webp: ['-c:v', 'libwebp', '-quality', '80'],
+}
+
+const VARIANT_KEY_PATTERN = /^(.+)-(thumb|card|full)\.(avif|webp)$/
+
+export function variantMimeType(format: ImageVariantFormat) {
+  return FORMAT_MIME[format]
+}
+
+/**
+ * `ab/cd/<uuid>.jpg` -> `ab/cd/<uuid>-card.webp`
+ */
+export function buildVariantKey(storageKey: string, name: ImageVariantName, format: ImageVariantFormat) {
+  const base = storageKey.replace(/\.[^./]+$/, '')
+  return `${base}-${name}.${format}`
+}
+
+/**
+ * Inverse of buildVariantKey; `baseKey` is the storage key without its extension
+ */
+export function parseVariantKey(key: string) {
+  const match = VARIANT_KEY_PATTERN.exec(key)
+  if (!match) return null
+  return {
+    baseKey: match[1],
+    name: match[2] as ImageVariantName,
+    format: match[3] as ImageVariantFormat,
+  }
+}
+
+/**
+ * Output size for each variant: scaled to the spec width, never upscaled,
+ * even dimensions (AV1 4:2:0 needs them). Orientation 5-8 means the camera stored
+ * the image rotated by 90°, and ffmpeg applies the rotation before scaling.
+ */
+export function planImageVariants(width: number, height: number, orientation?: number) {
+  const rotated = orientation !== undefined && orientation >= 5 && orientation <= 8
+  const displayWidth = rotated ? height : width
+  const displayHeight = rotated ? width : height
+
+  return IMAGE_VARIANT_SPECS.map((spec) => {
+    const targetWidth = Math.min(spec.maxWidth, displayWidth)
+    const targetHeight = Math.round((displayHeight * targetWidth) / displayWidth)
+    return {
+      name: spec.name,
+      width: Math.max(2, targetWidth - (targetWidth % 2)),
+      height: Math.max(2, targetHeight - (targetHeight % 2)),
+    }
+  })
+}
+
+export function buildImageEncodeArgs(
+  inputPath: string,
+  outputPath: string,
+  size: { width: number; height: number },
+  format: ImageVariantFormat
+) {
+  return [
+    '-v', 'error',
+    '-y',
+    '-i', inputPath,
+    '-map_metadata', '-1',
+    '-vf', `scale=${size.width}:${size.height}:flags=lanczos`,
+    '-frames:v', '1',
+    ...ENCODER_ARGS[format],
+    outputPath,
+  ]
+}
+
+export async function encodeImageVariant(
+  inputPath: string,
+  outputPath: string,
+  size: { width: number; height: number },
+  format: ImageVariantFormat,
+  options: MediaToolOptions & { binary?: string } = {}
+) {
+  const args = buildImageEncodeArgs(inputPath, outputPath, size, format)
+  await runMediaTool('ffmpeg', options.binary ?? ffmpegPath(), args, { timeoutMs: options.timeoutMs ?? 60_000 })
+}
+
+/**
+ * Every storage key referenced by a `Media.variants` value, for cleanup
+ */
+export function listVariantStorageKeys(variants: unknown) {
+  const keys = new Set<string>()
+  if (!variants || typeof variants !== 'object') return []
+  for (const variant of Object.values(variants as Record<string, unknown>)) {
+    if (!variant || typeof variant !== 'object') continue
+    const { key, formats, files } = variant as { key?: unknown; formats?: unknown; files?: unknown }
+    if (typeof key === 'string' && key) keys.add(key)
+    if (formats && typeof formats === 'object') {
+      for (const formatKey of Object.values(formats as Record<string, unknown>)) {
+        if (typeof formatKey === 'string' && formatKey) keys.add(formatKey)
+      }
+    }
+    // Multi-file variants (HLS playlists and segments)
+    if (Array.isArray(files)) {
+      for (const fileKey of files) {
+        if (typeof fileKey === 'string' && fileKey) keys.add(fileKey)
+      }
+    }
+  }
+  return [...keys]
+}
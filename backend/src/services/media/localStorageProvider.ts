@@ -49,6 +49,17 @@ export class LocalStorageProvider implements StorageProvider {
     await fs.promises.unlink(filePath).catch(() => null);
   }
 
+  async exists(key: string) {
+    return fs.promises.access(this.resolvePath(key), fs.constants.F_OK).then(
+      () => true,
+      () => false
+    );
+  }
+
+  localPath(key: string) {
+    return this.resolvePath(key);
+  }
+
   private resolvePath(key: string) {
     const safeKey = key.replace(/\\/g, '/').replace(/^\/+/, '');
     const filePath = path.resolve(this.root, safeKey);
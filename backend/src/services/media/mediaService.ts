@@ -4,41 +4,62 @@ import { imageSize } from 'image-size';
 import type { Express } from 'express';
 import { prisma } from '../../lib/prisma/client.js';
 import { hasProfileAccess } from '../access/profileAccessService.js';
-import { LocalStorageProvider } from './localStorageProvider.js';
-import { MEDIA_UPLOAD_ROOT } from './config.js';
-import { buildMediaUrls } from './urlBuilder.js';
+import { getMediaStorage } from './storage.js';
+import { buildMediaUrls, resolveMediaKeys, type MediaUrls } from './urlBuilder.js';
+import { isMediaReady } from './status.js';
+import { listVariantStorageKeys, parseVariantKey, variantMimeType } from './imageVariants.js';
+import { parseRenditionKey } from './videoRenditions.js';
+import { toPublicMediaStatus, type PublicMediaStatus } from './presenter.js';
+import { MEDIA_SIGNED_URL_TTL_SEC } from './config.js';
+import { createSignedMediaUrl, isPlaylistKey, signPlaylistEntries, verifyMediaUrlSignature } from './signedUrls.js';
 
 type UploadResult = {
   mediaId: bigint;
   status: 'READY' | 'FAILED' | 'PENDING';
   mimeType: string;
-  urls: { original: string; thumb: string | null };
+  urls: MediaUrls;
 };
 
 type MediaResponse = {
   mediaId: bigint;
-  status: 'READY' | 'FAILED' | 'PENDING';
+  status: PublicMediaStatus;
+  rejectionReason: string | null;
   mimeType: string | null;
   sizeBytes: number | null;
   width: number | null;
   height: number | null;
   durationSec: number | null;
-  urls: { original: string; thumb: string | null };
+  urls: MediaUrls;
+};
+
+type SignedMediaResponse = {
+  mediaId: bigint;
+  url: string;
+  thumbUrl: string | null;
+  previewUrl: string | null;
+  hlsUrl: string | null;
+  expiresAt: Date;
 };
 
+type MediaStream =
+  | { stream: Readable; mimeType: string }
+  | { redirectUrl: string; cacheable: boolean };
+
 type UploadInput = {
   ownerUserId: bigint;
   visibility?: 'PUBLIC' | 'PRIVATE';
   file: Express.Multer.File;
 };
 
-const storage = new LocalStorageProvider(MEDIA_UPLOAD_ROOT);
+const storage = getMediaStorage();
 
 const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
 const MAX_DIMENSION = 20000;
 const ALLOWED_IMAGE_MIME = new Set(['image/jpeg', 'image/png', 'image/webp']);
 const RATE_LIMIT_WINDOW_MS = 60_000;
 const RATE_LIMIT_MAX = 20;
+// Rows checked for one `/media/<key>` request; deduplicated uploads of one owner share a key
+const MAX_ROWS_PER_STORAGE_KEY = 20;
 
 const rateMap = new Map<string, { count: number; resetAt: number }>();
 
@@ -121,15 +142,19 @@ export const mediaService = {
         width: true,
         height: true,
         durationSec: true,
+        rejectionReason: true,
         visibility: true,
         ownerUserId: true,
         storageKey: true,
         variants: true,
         url: true,
-        thumbUrl: true
+        thumbUrl: true,
+        messageLinks: { select: { id: true }, take: 1 }
       }
     });
     if (!media) throw new MediaError('Media not found', 404);
+    // Message attachments are only served through the participant-checked messaging route
+    if (media.messageLinks.length && media.ownerUserId !== viewerId) throw new MediaError('Forbidden', 403);
     if (media.visibility === 'PRIVATE' && media.ownerUserId !== viewerId) {
       const allowed = await hasProfileAccess(media.ownerUserId, viewerId ?? null);
       if (!allowed) throw new MediaError('Forbidden', 403);
@@ -138,7 +163,8 @@ export const mediaService = {
     const urls = buildMediaUrls(media);
     return {
       mediaId: media.id,
-      status: media.status as UploadResult['status'],
+      status: toPublicMediaStatus(media.status),
+      rejectionReason: media.rejectionReason ?? null,
       mimeType: media.mimeType ?? null,
       sizeBytes: media.sizeBytes ?? null,
       width: media.width ?? null,
@@ -148,34 +174,110 @@ export const mediaService = {
     };
   },
 
-  async getMediaStreamByKey(storageKey: string, viewerId?: bigint | null) {
-    process.stdout.write(`[media] getMediaStreamByKey: looking up storageKey=${storageKey}\n`);
+  /**
+   * Time-limited URLs for a viewer who passes the same checks as getMedia
+   * (PRIVATE media needs a GRANTED ProfileAccess). They work without a session, so
+   * they suit players and cross-origin media hosts that cannot send cookies.
+   */
+  async getSignedMediaUrls(mediaId: bigint, viewerId?: bigint | null): Promise<SignedMediaResponse> {
     const media = await prisma.media.findFirst({
-      where: { storageKey, deletedAt: null },
+      where: { id: mediaId, deletedAt: null },
       select: {
+        id: true,
+        status: true,
+        visibility: true,
+        ownerUserId: true,
         storageKey: true,
+        variants: true,
+        messageLinks: { select: { id: true }, take: 1 }
+      }
+    });
+    if (!media) throw new MediaError('Media not found', 404);
+    if (media.messageLinks.length && media.ownerUserId !== viewerId) throw new MediaError('Forbidden', 403);
+    if (media.visibility === 'PRIVATE' && media.ownerUserId !== viewerId) {
+      const allowed = await hasProfileAccess(media.ownerUserId, viewerId ?? null);
+      if (!allowed) throw new MediaError('Forbidden', 403);
+    }
+    if (!isMediaReady(media.status)) throw new MediaError('Media not ready', 409);
+
+    const keys = resolveMediaKeys(media);
+    if (!keys.original) throw new MediaError('Media has no stored file', 400);
+
+    const now = Date.now();
+    const signKey = (key: string | null) => (key ? createSignedMediaUrl(key, MEDIA_SIGNED_URL_TTL_SEC, now).url : null);
+    return {
+      mediaId: media.id,
+      url: createSignedMediaUrl(keys.original, MEDIA_SIGNED_URL_TTL_SEC, now).url,
+      thumbUrl: signKey(keys.thumb),
+      previewUrl: signKey(keys.preview),
+      hlsUrl: signKey(keys.hls),
+      expiresAt: new Date(Math.floor(now / 1000) * 1000 + MEDIA_SIGNED_URL_TTL_SEC * 1000)
+    };
+  },
+
+  /**
+   * Resolve a `/media/<key>` request. A valid `signature` stands in for the viewer
+   * checks; object stores that can presign get a redirect instead of a proxied stream.
+   */
+  async getMediaStreamByKey(
+    storageKey: string,
+    viewerId?: bigint | null,
+    signature?: { expires?: string; signature?: string }
+  ): Promise<MediaStream> {
+    process.stdout.write(`[media] getMediaStreamByKey: looking up storageKey=${storageKey}\n`);
+    // Variant keys resolve to the media they were generated from and share its access rules
+    const variant = parseDerivedKey(storageKey);
+    // Deduplicated uploads share one stored object between rows of the same owner; a row
+    // may later diverge (e.g. become a message attachment), so every live row is checked
+    // and access is granted when any of them grants it, as that row serves the same bytes
+    const rows = await prisma.media.findMany({
+      where: variant
+        ? { storageKey: { startsWith: `${variant.baseKey}.` }, type: variant.type, deletedAt: null }
+        : { storageKey, deletedAt: null },
+      orderBy: { id: 'asc' },
+      take: MAX_ROWS_PER_STORAGE_KEY,
+      select: {
+        storageKey: true,
+        variants: true,
         visibility: true,
         ownerUserId: true,
         status: true,
-        mimeType: true
+        mimeType: true,
+        messageLinks: { select: { id: true }, take: 1 }
       }
     });
-    if (!media || !media.storageKey) {
+    if (!rows.length || !rows[0].storageKey) {
       process.stderr.write(`[media] getMediaStreamByKey: media not found in database for key=${storageKey}\n`);
       throw new MediaError('Media not found', 404);
     }
+    const signed = verifyMediaUrlSignature(storageKey, signature?.expires, signature?.signature);
+    const media = signed ? rows[0] : await findViewableRow(rows, viewerId ?? null);
+    if (!media || !media.storageKey) throw new MediaError('Forbidden', 403);
     process.stdout.write(`[media] getMediaStreamByKey: found media status=${media.status}, storageKey=${media.storageKey}\n`);
-    if (media.visibility === 'PRIVATE' && media.ownerUserId !== viewerId) {
-      const allowed = await hasProfileAccess(media.ownerUserId, viewerId ?? null);
-      if (!allowed) throw new MediaError('Forbidden', 403);
-    }
     // Allow serving if status is READY or READY_WITH_VARIANTS
     const servableStatuses = ['READY', 'READY_WITH_VARIANTS', 'PENDING', 'UPLOADED'];
     if (!servableStatuses.includes(media.status || '')) {
       process.stderr.write(`[media] getMediaStreamByKey: media not ready, status=${media.status}\n`);
       throw new MediaError('Media not ready', 409);
     }
+    if (variant && !listVariantStorageKeys(media.variants).includes(storageKey)) {
+      throw new MediaError('Media not found', 404);
+    }
+    if (storage.getSignedUrl && !isPlaylistKey(storageKey)) {
+      // Only public, non-attachment files may be cached by the browser past the check
+      const cacheable = rows.every((row) => row.visibility === 'PUBLIC' && !row.messageLinks.length);
+      return { redirectUrl: createSignedMediaUrl(storageKey).url, cacheable };
+    }
     try {
+      if (variant && signed && isPlaylistKey(storageKey)) {
+        // Signed viewers have no session for the files the playlist lists
+        const playlist = await readText(await storage.get(storageKey));
+        const body = signPlaylistEntries(storageKey, playlist, Number(signature?.expires));
+        return { stream: Readable.from([body]), mimeType: variant.mimeType };
+      }
+      if (variant) {
+        return { stream: await storage.get(storageKey), mimeType: variant.mimeType };
+      }
       const stream = await storage.get(media.storageKey);
       return { stream, mimeType: media.mimeType ?? 'application/octet-stream' };
     } catch (err) {
@@ -195,7 +297,7 @@ export const mediaService = {
     if (!media || media.ownerUserId !== ownerUserId) {
       throw new MediaError('Invalid media owner', 403);
     }
-    if (media.status !== 'READY') {
+    if (!isMediaReady(media.status)) {
       throw new MediaError('Media not ready', 400);
     }/*
     if (media.type !== 'IMAGE') {
@@ -265,7 +367,7 @@ export const mediaService = {
       if (entry.ownerUserId !== ownerUserId) {
         throw new MediaError('Invalid media owner', 403);
       }
-      if (options.requireReady && entry.status !== 'READY') {
+      if (options.requireReady && !isMediaReady(entry.status)) {
         throw new MediaError('Media not ready', 400);
       }
       if (options.requirePublic && entry.visibility !== 'PUBLIC') {
@@ -278,6 +380,44 @@ export const mediaService = {
   }
 };
 
+/**
+ * Image variant or video rendition key -> the media type and storage key prefix it belongs to
+ */
+function parseDerivedKey(key: string) {
+  const image = parseVariantKey(key);
+  if (image) return { baseKey: image.baseKey, type: 'IMAGE' as const, mimeType: variantMimeType(image.format) };
+  const video = parseRenditionKey(key);
+  if (video) return { ...video, type: 'VIDEO' as const };
+  return null;
+}
+
+type KeyedMediaRow = {
+  visibility: 'PUBLIC' | 'PRIVATE';
+  ownerUserId: bigint;
+  messageLinks: { id: bigint }[];
+};
+
+/**
+ * First row sharing a storage key that the viewer may see under its own rules
+ */
+async function findViewableRow<T extends KeyedMediaRow>(rows: T[], viewerId: bigint | null): Promise<T | null> {
+  const owned = rows.find((row) => row.ownerUserId === viewerId);
+  if (owned) return owned;
+  const candidates = rows.filter((row) => !row.messageLinks.length);
+  const publicRow = candidates.find((row) => row.visibility === 'PUBLIC');
+  if (publicRow) return publicRow;
+  for (const row of candidates) {
+    if (await hasProfileAccess(row.ownerUserId, viewerId)) return row;
+  }
+  return null;
+}
+
+async function readText(stream: Readable) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+}
+
 function safeImageSize(buffer: Buffer) {
   try {
     return imageSize(buffer);
@@ -0,0 +1,86 @@
+/**
+ * Runs the external media binaries (ffprobe, ffmpeg) with a hard timeout
+ * Paths come from FFPROBE_PATH / FFMPEG_PATH and default to the binaries on the PATH
+ */
+
+import { spawn } from 'node:child_process'
+
+const DEFAULT_TIMEOUT_MS = 30_000
+const MAX_OUTPUT_BYTES = 1024 * 1024
+
+export type MediaToolOptions = {
+  timeoutMs?: number
+}
+
+export class MediaToolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MediaToolError'
+  }
+}
+
+export function ffprobePath() {
+  return process.env.FFPROBE_PATH || 'ffprobe'
+}
+
+export function ffmpegPath() {
+  return process.env.FFMPEG_PATH || 'ffmpeg'
+}
+
+/**
+ * Resolve with stdout once the process exits cleanly
+ * Non-zero exits, spawn failures and timeouts reject with the tool's stderr
+ */
+export function runMediaTool(
+  label: string,
+  binary: string,
+  args: string[],
+  options: MediaToolOptions = {}
+): Promise<string> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['ignore', 'pipe', 'pipe'] })
+    const stdout: Buffer[] = []
+    let stdoutBytes = 0
+    let stderr = ''
+    let settled = false
+
+    const finish = (err: MediaToolError | null, output?: string) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      if (err) reject(err)
+      else resolve(output ?? '')
+    }
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL')
+      finish(new MediaToolError(`${label} timed out after ${timeoutMs}ms`))
+    }, timeoutMs)
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdoutBytes += chunk.length
+      if (stdoutBytes > MAX_OUTPUT_BYTES) {
+        child.kill('SIGKILL')
+        finish(new MediaToolError(`${label} output too large`))
+        return
+      }
+      stdout.push(chunk)
+    })
+    child.stderr.on('data', (chunk: Buffer) => {
+      if (stderr.length < 2000) stderr += chunk.toString('utf8')
+    })
+
+    child.on('error', (err) => {
+      finish(new MediaToolError(`Failed to start ${label} (${binary}): ${err.message}`))
+    })
+    child.on('close', (code) => {
+      if (code !== 0) {
+        finish(new MediaToolError(`${label} exited with code ${code}: ${stderr.trim() || 'no output'}`))
+        return
+      }
+      finish(null, Buffer.concat(stdout).toString('utf8'))
+    })
+  })
+}
@@ -4,6 +4,8 @@
  */
 
 import { prisma } from '../../lib/prisma/client.js'
+import { isMediaReady } from './status.js'
+import { listVariantStorageKeys } from './imageVariants.js'
 
 export type MediaRefState = 'UNATTACHED' | 'ATTACHING' | 'ATTACHED'
 
@@ -44,18 +46,20 @@ export async function cleanupOrphanedMedia(maxAgeHours: number = 24): Promise<nu
   
   // Find media that:
   // 1. Has no PostMedia links (not attached to any post)
-  // 2. Not used as avatar/hero
-  // 3. Created before cutoff time
-  // 4. Not already deleted
+  // 2. Not attached to a message that is still visible (unsent messages release their media)
+  // 3. Not used as avatar/hero
+  // 4. Created before cutoff time
+  // 5. Not already deleted
   const orphaned = await prisma.media.findMany({
     where: {
       deletedAt: null,
       createdAt: { lt: cutoffTime },
       postLinks: { none: {} },
+      messageLinks: { none: { message: { deletedAt: null } } },
       avatarProfiles: { none: {} },
       heroProfiles: { none: {} },
     },
-    select: { id: true, storageKey: true },
+    select: { id: true, storageKey: true, variants: true },
   })
 
   let deletedCount = 0
@@ -68,13 +72,19 @@ export async function cleanupOrphanedMedia(maxAgeHours: number = 24): Promise<nu
       })
       deletedCount++
       
-      // Physical file deletion (if storage key exists)
-      if (media.storageKey) {
+      // Physical file deletion (if storage key exists), including generated variants
+      // De-duplicated uploads share a storage object; keep it while another row still uses it
+      const shared = media.storageKey
+        ? await prisma.media.count({ where: { storageKey: media.storageKey, deletedAt: null } })
+        : 0
+      if (media.storageKey && shared === 0) {
         try {
-          const { LocalStorageProvider } = await import('./localStorageProvider.js')
-          const { MEDIA_UPLOAD_ROOT } = await import('./config.js')
-          const storage = new LocalStorageProvider(MEDIA_UPLOAD_ROOT)
+          const { getMediaStorage } = await import('./storage.js')
+          const storage = getMediaStorage()
           await storage.delete(media.storageKey)
+          for (const key of listVariantStorageKeys(media.variants)) {
+            if (key !== media.storageKey) await storage.delete(key)
+          }
         } catch (err) {
           // Log but don't fail - file may already be deleted
           console.error(`Failed to delete physical file for media ${media.id}:`, err)
@@ -117,7 +127,7 @@ export async function validateMediaForAttachment(
     if (m.ownerUserId !== ownerUserId) {
       throw new Error(`Media ${m.id} not owned by user`)
     }
-    if (m.status !== 'READY') {
+    if (!isMediaReady(m.status)) {
       throw new Error(`Media ${m.id} not ready (status: ${m.status})`)
     }
   }
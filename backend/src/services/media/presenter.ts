@@ -1,4 +1,5 @@
 import { buildMediaUrls } from './urlBuilder.js';
+import { isMediaReady } from './status.js';
 
 type MediaRecord = {
   id: bigint;
@@ -12,6 +13,18 @@ type MediaRecord = {
   durationSec?: number | null;
 };
 
+export type PublicMediaStatus = 'PENDING' | 'READY' | 'REJECTED' | 'FAILED';
+
+/**
+ * Collapse the internal processing states into what clients act on.
+ */
+export function toPublicMediaStatus(status: string): PublicMediaStatus {
+  if (isMediaReady(status)) return 'READY';
+  if (status === 'REJECTED') return 'REJECTED';
+  if (status === 'FAILED_UPLOAD' || status === 'FAILED_PROCESSING') return 'FAILED';
+  return 'PENDING';
+}
+
 export function toPublicMedia(media: MediaRecord) {
   const urls = buildMediaUrls(media);
   return {
@@ -19,6 +32,9 @@ export function toPublicMedia(media: MediaRecord) {
     type: media.type,
     url: urls.original,
     thumbUrl: urls.thumb,
+    sources: urls.sources,
+    previewUrl: urls.preview,
+    hlsUrl: urls.hls,
     width: media.width ?? null,
     height: media.height ?? null,
     durationSec: media.durationSec ?? null
@@ -0,0 +1,75 @@
+/**
+ * ffprobe wrapper for video/audio metadata
+ * The binary is spawned per file; FFPROBE_PATH points it at a different build
+ * (or at the test double in __tests__/fakeFfprobe.mjs)
+ */
+
+import { ffprobePath, MediaToolError, runMediaTool, type MediaToolOptions } from './mediaTool.js'
+
+export type MediaProbeResult = {
+  durationSec: number | null
+  width: number | null
+  height: number | null
+}
+
+export type ProbeOptions = MediaToolOptions & {
+  binary?: string
+}
+
+type FFProbeOutput = {
+  format?: {
+    duration?: string
+  }
+  streams?: Array<{
+    width?: number
+    height?: number
+    duration?: string
+    codec_type?: string
+  }>
+}
+
+function parseDuration(value: string | undefined) {
+  if (value == null) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+function parseDimension(value: number | undefined) {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null
+}
+
+/**
+ * Reduce `ffprobe -print_format json -show_format -show_streams` output to the fields we store
+ * Duration prefers the container, falling back to the first stream that reports one
+ */
+export function parseProbeOutput(raw: string): MediaProbeResult {
+  let parsed: FFProbeOutput
+  try {
+    parsed = JSON.parse(raw) as FFProbeOutput
+  } catch {
+    throw new MediaToolError('ffprobe returned invalid JSON')
+  }
+
+  const streams = Array.isArray(parsed.streams) ? parsed.streams : []
+  const video = streams.find((stream) => stream.codec_type === 'video')
+
+  let durationSec = parseDuration(parsed.format?.duration)
+  if (durationSec === null) {
+    for (const stream of streams) {
+      durationSec = parseDuration(stream.duration)
+      if (durationSec !== null) break
+    }
+  }
+
+  return {
+    durationSec,
+    width: parseDimension(video?.width),
+    height: parseDimension(video?.height),
+  }
+}
+
+export async function probeMedia(filePath: string, options: ProbeOptions = {}): Promise<MediaProbeResult> {
+  const args = ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath]
+  const output = await runMediaTool('ffprobe', options.binary ?? ffprobePath(), args, options)
+  return parseProbeOutput(output)
+}
@@ -0,0 +1,390 @@
+/**
+ * Resumable (chunked) uploads
+ * Create a session, PUT chunks at the current offset, then complete. A dropped
+ * connection only loses the chunk in flight: the client asks for the offset and
+ * continues from there. Completion verifies the client-declared SHA-256 and hands
+ * the assembled temp file to uploadMedia.
+ *
+ * Nothing is kept on the instance between requests: each chunk goes to media storage,
+ * the offset and a short lease live on the session row, so consecutive requests can
+ * land on different instances.
+ */
+
+import { createReadStream, createWriteStream } from 'fs'
+import { mkdir } from 'fs/promises'
+import { dirname } from 'path'
+import { randomUUID } from 'crypto'
+import { pipeline } from 'stream/promises'
+import type { Request } from 'express'
+import { prisma } from '../../lib/prisma/client.js'
+import { MediaError } from './mediaService.js'
+import { getMediaStorage } from './storage.js'
+import { uploadMedia, validateUploadDeclaration } from './uploadHandler.js'
+import {
+  cleanupTempFile,
+  getReceivedBytes,
+  getResumableTempPath,
+  hashFile,
+  streamChunkToDisk,
+} from './streamingUpload.js'
+import { buildMediaUrls, type MediaUrls } from './urlBuilder.js'
+import { isMediaReady } from './status.js'
+
+// Suggested chunk size; small enough to retry cheaply on a flaky mobile connection
+export const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024 // 4MB
+const MAX_CHUNK_BYTES = 16 * 1024 * 1024 // 16MB
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours
+const MAX_OPEN_SESSIONS_PER_USER = 10
+const SHA256_PATTERN = /^[a-f0-9]{64}$/
+// Longest a chunk write or completion may hold a session; a crashed instance's lease runs out after this
+const SESSION_LEASE_MS = 10 * 60 * 1000 // 10 minutes
+const CHUNK_KEY_PREFIX = 'upload-sessions'
+
+type SessionStatus = 'OPEN' | 'COMPLETED' | 'FAILED'
+
+export type CreateUploadSessionInput = {
+  ownerUserId: bigint
+  fileName: string
+  mimeType: string
+  totalBytes: number
+  sha256: string
+  visibility?: 'PUBLIC' | 'PRIVATE'
+}
+
+export type UploadSessionView = {
+  uploadId: string
+  status: SessionStatus
+  receivedBytes: number
+  totalBytes: number
+  chunkBytes: number
+  expiresAt: Date
+  mediaId: bigint | null
+}
+
+export type CompletedUpload = {
+  mediaId: bigint
+  status: string
+  mimeType: string
+  urls: MediaUrls
+}
+
+/**
+ * The chunk did not start where the server's copy ends; the client should resume from receivedBytes
+ */
+export class UploadOffsetError extends MediaError {
+  receivedBytes: number
+  constructor(message: string, receivedBytes: number) {
+    super(message, 409)
+    this.receivedBytes = receivedBytes
+  }
+}
+
+type SessionRow = NonNullable<Awaited<ReturnType<typeof prisma.mediaUploadSession.findUnique>>>
+
+async function loadSession(uploadId: string, ownerUserId: bigint): Promise<SessionRow> {
+  const session = await prisma.mediaUploadSession.findUnique({ where: { id: uploadId } })
+  if (!session || session.ownerUserId !== ownerUserId) {
+    throw new MediaError('Upload not found', 404)
+  }
+  return session
+}
+
+function assertOpen(session: SessionRow, now = new Date()): void {
+  if (session.status !== 'OPEN') {
+    throw new MediaError(`Upload is ${session.status.toLowerCase()}`, 409)
+  }
+  if (session.expiresAt <= now) {
+    throw new MediaError('Upload expired', 410)
+  }
+}
+
+function toView(session: SessionRow, receivedBytes: number): UploadSessionView {
+  return {
+    uploadId: session.id,
+    status: session.status as SessionStatus,
+    receivedBytes,
+    totalBytes: session.totalBytes,
+    chunkBytes: UPLOAD_CHUNK_BYTES,
+    expiresAt: session.expiresAt,
+    mediaId: session.mediaId,
+  }
+}
+
+/**
+ * Run `fn` holding the lease on the session row, so one request at a time (on any
+ * instance) writes to or completes a session; `fn` gets the row as of taking the lease
+ */
+async function withSessionLock<T>(uploadId: string, fn: (session: SessionRow) => Promise<T>): Promise<T> {
+  const now = new Date()
+  const lockedUntil = new Date(now.getTime() + SESSION_LEASE_MS)
+  const claimed = await prisma.mediaUploadSession.updateMany({
+    where: { id: uploadId, OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] },
+    data: { lockedUntil },
+  })
+  if (claimed.count === 0) {
+    throw new MediaError('Upload is busy, retry shortly', 409)
+  }
+  try {
+    return await fn(await prisma.mediaUploadSession.findUniqueOrThrow({ where: { id: uploadId } }))
+  } finally {
+    await prisma.mediaUploadSession
+      .updateMany({ where: { id: uploadId, lockedUntil }, data: { lockedUntil: null } })
+      .catch(() => null)
+  }
+}
+
+/**
+ * Copy a chunk from its temp file into media storage and advance the session's offset
+ * Returns the bytes stored (0 if nothing arrived). The offset only moves if it is still
+ * where the chunk started, so a request that outlived its lease cannot double-append.
+ */
+async function storeChunk(uploadId: string, offset: number, chunkPath: string): Promise<number> {
+  try {
+    const sizeBytes = await getReceivedBytes(chunkPath)
+    if (sizeBytes === 0) return 0
+
+    const storage = getMediaStorage()
+    const storageKey = `${CHUNK_KEY_PREFIX}/${uploadId}/${offset}-${randomUUID()}`
+    await storage.put(createReadStream(chunkPath), storageKey)
+    try {
+      await prisma.$transaction(async (tx) => {
+        const advanced = await tx.mediaUploadSession.updateMany({
+          where: { id: uploadId, status: 'OPEN', receivedBytes: offset },
+          data: { receivedBytes: offset + sizeBytes },
+        })
+        if (advanced.count === 0) {
+          throw new MediaError('Upload changed while the chunk was stored, check the offset and retry', 409)
+        }
+        await tx.mediaUploadChunk.create({ data: { uploadId, offset, sizeBytes, storageKey } })
+      })
+    } catch (err) {
+      await storage.delete(storageKey).catch(() => null)
+      throw err
+    }
+    return sizeBytes
+  } finally {
+    await cleanupTempFile(chunkPath)
+  }
+}
+
+/**
+ * Concatenate the stored chunks, in offset order, into a local temp file
+ */
+async function assembleChunks(uploadId: string, filePath: string): Promise<void> {
+  const chunks = await prisma.mediaUploadChunk.findMany({
+    where: { uploadId },
+    orderBy: { offset: 'asc' },
+    select: { storageKey: true },
+  })
+  const storage = getMediaStorage()
+  await mkdir(dirname(filePath), { recursive: true })
+  await cleanupTempFile(filePath)
+  for (const chunk of chunks) {
+    await pipeline(await storage.get(chunk.storageKey), createWriteStream(filePath, { flags: 'a' }))
+  }
+}
+
+async function dropChunks(uploadId: string): Promise<void> {
+  const chunks = await prisma.mediaUploadChunk.findMany({ where: { uploadId }, select: { storageKey: true } })
+  const storage = getMediaStorage()
+  for (const chunk of chunks) {
+    await storage.delete(chunk.storageKey).catch(() => null)
+  }
+  await prisma.mediaUploadChunk.deleteMany({ where: { uploadId } })
+}
+
+/**
+ * Open a session after checking the declared type/size, so nothing is accepted that uploadMedia would reject
+ */
+export async function createUploadSession(input: CreateUploadSessionInput): Promise<UploadSessionView> {
+  const { ownerUserId, mimeType, totalBytes, visibility = 'PUBLIC' } = input
+  const fileName = input.fileName.trim().slice(0, 255) || 'upload'
+  const sha256 = input.sha256.toLowerCase()
+
+  if (visibility !== 'PUBLIC' && visibility !== 'PRIVATE') {
+    throw new MediaError('Invalid visibility', 400)
+  }
+  if (!Number.isSafeInteger(totalBytes) || totalBytes <= 0) {
+    throw new MediaError('totalBytes must be a positive integer', 400)
+  }
+  if (!SHA256_PATTERN.test(sha256)) {
+    throw new MediaError('sha256 must be a hex SHA-256 digest', 400)
+  }
+  validateUploadDeclaration(mimeType, totalBytes)
+
+  const openSessions = await prisma.mediaUploadSession.count({
+    where: { ownerUserId, status: 'OPEN', expiresAt: { gt: new Date() } },
+  })
+  if (openSessions >= MAX_OPEN_SESSIONS_PER_USER) {
+    throw new MediaError('Too many uploads in progress', 429)
+  }
+
+  const session = await prisma.mediaUploadSession.create({
+    data: {
+      ownerUserId,
+      fileName,
+      mimeType,
+      visibility,
+      totalBytes,
+      sha256,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    },
+  })
+  return toView(session, 0)
+}
+
+/**
+ * Current state; receivedBytes counts the stored chunks, which is what a resume must continue from
+ */
+export async function getUploadSession(uploadId: string, ownerUserId: bigint): Promise<UploadSessionView> {
+  const session = await loadSession(uploadId, ownerUserId)
+  return toView(session, session.receivedBytes)
+}
+
+/**
+ * Append the request body at `offset`, which must equal the bytes already received
+ */
+export async function appendUploadChunk(
+  req: Request,
+  uploadId: string,
+  ownerUserId: bigint,
+  offset: number
+): Promise<UploadSessionView> {
+  const session = await loadSession(uploadId, ownerUserId)
+  assertOpen(session)
+
+  return withSessionLock(uploadId, async (current) => {
+    // Completed or cancelled by another request while this one was on its way
+    assertOpen(current)
+    const { receivedBytes } = current
+    if (offset !== receivedBytes) {
+      throw new UploadOffsetError(`Expected offset ${receivedBytes}`, receivedBytes)
+    }
+    if (receivedBytes >= current.totalBytes) {
+      throw new UploadOffsetError('Upload already has all bytes', receivedBytes)
+    }
+
+    const chunkPath = getResumableTempPath(`${current.id}-${offset}`, current.fileName)
+    let storedBytes = 0
+    try {
+      await streamChunkToDisk(req, chunkPath, {
+        maxBytes: Math.min(MAX_CHUNK_BYTES, current.totalBytes - receivedBytes),
+      })
+    } finally {
+      // Keep whatever made it to disk, including a partial chunk from a dropped connection
+      storedBytes = await storeChunk(current.id, offset, chunkPath)
+    }
+
+    return toView(current, receivedBytes + storedBytes)
+  })
+}
+
+/**
+ * Verify the assembled file against the declared hash and create the media
+ * Idempotent: completing an already completed session returns the same media,
+ * so a client that lost the response can simply retry
+ */
+export async function completeUploadSession(uploadId: string, ownerUserId: bigint): Promise<CompletedUpload> {
+  const session = await loadSession(uploadId, ownerUserId)
+  if (session.status === 'COMPLETED' && session.mediaId) {
+    return presentCompleted(session.mediaId)
+  }
+  assertOpen(session)
+
+  return withSessionLock(uploadId, async (current) => {
+    // A retry that reached another instance may have completed it meanwhile
+    if (current.status === 'COMPLETED' && current.mediaId) {
+      return presentCompleted(current.mediaId)
+    }
+    assertOpen(current)
+    const { receivedBytes } = current
+    if (receivedBytes !== current.totalBytes) {
+      throw new UploadOffsetError(`Upload incomplete: ${receivedBytes} of ${current.totalBytes} bytes`, receivedBytes)
+    }
+
+    const filePath = getResumableTempPath(session.id, session.fileName)
+    await assembleChunks(session.id, filePath)
+
+    const contentHash = await hashFile(filePath)
+    if (contentHash !== session.sha256) {
+      await failSession(session.id, filePath)
+      throw new MediaError('Checksum mismatch: uploaded bytes do not match sha256', 422)
+    }
+
+    let result: CompletedUpload
+    try {
+      result = await uploadMedia({
+        ownerUserId,
+        visibility: session.visibility,
+        fileInfo: {
+          filePath,
+          fileName: session.fileName,
+          mimeType: session.mimeType,
+          sizeBytes: receivedBytes,
+          uploadId: session.id,
+          contentHash,
+        },
+      })
+    } catch (err) {
+      await failSession(session.id, filePath)
+      throw err
+    }
+
+    await prisma.mediaUploadSession.update({
+      where: { id: session.id },
+      data: { status: 'COMPLETED', mediaId: result.mediaId },
+    })
+    await dropChunks(session.id)
+    await cleanupTempFile(filePath)
+    return result
+  })
+}
+
+/**
+ * Abandon a session and drop its stored chunks
+ */
+export async function cancelUploadSession(uploadId: string, ownerUserId: bigint): Promise<void> {
+  const session = await loadSession(uploadId, ownerUserId)
+  if (session.status !== 'OPEN') return
+  await failSession(session.id, getResumableTempPath(session.id, session.fileName))
+}
+
+async function failSession(uploadId: string, filePath: string): Promise<void> {
+  await cleanupTempFile(filePath)
+  await dropChunks(uploadId)
+  await prisma.mediaUploadSession
+    .update({ where: { id: uploadId }, data: { status: 'FAILED' } })
+    .catch(() => null)
+}
+
+async function presentCompleted(mediaId: bigint): Promise<CompletedUpload> {
+  const media = await prisma.media.findFirst({
+    where: { id: mediaId, deletedAt: null },
+    select: { id: true, status: true, mimeType: true, storageKey: true, variants: true, url: true, thumbUrl: true },
+  })
+  if (!media) throw new MediaError('Media not found', 404)
+  return {
+    mediaId: media.id,
+    status: isMediaReady(media.status) ? 'READY' : 'PENDING',
+    mimeType: media.mimeType ?? '',
+    urls: buildMediaUrls(media),
+  }
+}
+
+/**
+ * Remove expired sessions with their stored chunks and any assembled temp file
+ */
+export async function cleanupExpiredUploadSessions(now = new Date()): Promise<number> {
+  const expired = await prisma.mediaUploadSession.findMany({
+    where: { expiresAt: { lt: now } },
+    select: { id: true, fileName: true },
+  })
+  for (const session of expired) {
+    await dropChunks(session.id)
+    await cleanupTempFile(getResumableTempPath(session.id, session.fileName))
+  }
+  if (expired.length > 0) {
+    await prisma.mediaUploadSession.deleteMany({ where: { id: { in: expired.map((s) => s.id) } } })
+  }
+  return expired.length
+}
@@ -0,0 +1,145 @@
+import { createHash, createHmac } from 'crypto';
+
+/**
+ * AWS Signature Version 4 for S3-compatible stores (AWS, MinIO, R2).
+ * Only what the storage provider needs: header-signed requests and presigned GET URLs.
+ */
+
+export type S3Credentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+};
+
+export type S3SignInput = {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  payloadHash?: string;
+  now?: Date;
+};
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+export const EMPTY_PAYLOAD_HASH = sha256Hex('');
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const SERVICE = 's3';
+
+export function sha256Hex(data: string | Buffer) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * RFC 3986 encoding as S3 expects it (encodeURIComponent leaves !'()* alone)
+ */
+export function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export function encodeKeyPath(key: string) {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function amzDate(now: Date) {
+  return now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function signingKey(secret: string, date: string, region: string) {
+  const dateKey = hmac(`AWS4${secret}`, date);
+  const regionKey = hmac(dateKey, region);
+  const serviceKey = hmac(regionKey, SERVICE);
+  return hmac(serviceKey, 'aws4_request');
+}
+
+function canonicalQuery(params: URLSearchParams) {
+  return [...params.entries()]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)] as const)
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+}
+
+function buildSignature(
+  credentials: S3Credentials,
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  timestamp: string
+) {
+  const date = timestamp.slice(0, 8);
+  const scope = `${date}/${credentials.region}/${SERVICE}/aws4_request`;
+  const names = Object.keys(headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowered = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  const canonicalHeaders = names.map((name) => `${name}:${lowered[name].trim().replace(/\s+/g, ' ')}\n`).join('');
+  const signedHeaders = names.join(';');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery(url.searchParams),
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+  const stringToSign = [ALGORITHM, timestamp, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signature = createHmac('sha256', signingKey(credentials.secretAccessKey, date, credentials.region))
+    .update(stringToSign)
+    .digest('hex');
+
+  return { scope, signedHeaders, signature };
+}
+
+/**
+ * Headers to send with the request, including `authorization`.
+ * `url.pathname` must already be encoded with encodeKeyPath.
+ */
+export function signS3Request(credentials: S3Credentials, input: S3SignInput): Record<string, string> {
+  const timestamp = amzDate(input.now ?? new Date());
+  const payloadHash = input.payloadHash ?? UNSIGNED_PAYLOAD;
+  const headers: Record<string, string> = {
+    ...input.headers,
+    host: input.url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': timestamp
+  };
+  const { scope, signedHeaders, signature } = buildSignature(
+    credentials,
+    input.method,
+    input.url,
+    headers,
+    payloadHash,
+    timestamp
+  );
+  const { host: _host, ...sendHeaders } = headers;
+  return {
+    ...sendHeaders,
+    authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
+
+/**
+ * Query-string signed GET URL, valid for `expiresInSec` (max 7 days).
+ */
+export function presignS3Url(credentials: S3Credentials, url: URL, expiresInSec: number, now = new Date()) {
+  const timestamp = amzDate(now);
+  const signed = new URL(url.toString());
+  signed.searchParams.set('X-Amz-Algorithm', ALGORITHM);
+  signed.searchParams.set(
+    'X-Amz-Credential',
+    `${credentials.accessKeyId}/${timestamp.slice(0, 8)}/${credentials.region}/${SERVICE}/aws4_request`
+  );
+  signed.searchParams.set('X-Amz-Date', timestamp);
+  signed.searchParams.set('X-Amz-Expires', String(Math.min(Math.max(1, Math.floor(expiresInSec)), 604_800)));
+  signed.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+  const { signature } = buildSignature(credentials, 'GET', signed, { host: signed.host }, UNSIGNED_PAYLOAD, timestamp);
+  const query = `${canonicalQuery(signed.searchParams)}&X-Amz-Signature=${signature}`;
+  return `${signed.origin}${signed.pathname}?${query}`;
+}
@@ -0,0 +1,158 @@
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { S3StorageConfig } from './config.js';
+import type { StorageMeta, StorageProvider } from './storage.js';
+import { encodeKeyPath, presignS3Url, sha256Hex, signS3Request, type S3Credentials } from './s3Signer.js';
+
+// Objects larger than one part are sent as a multipart upload so a 200MB video
+// never has to sit in memory; 8MB is above S3's 5MB minimum part size
+const PART_SIZE = 8 * 1024 * 1024;
+
+export class S3Error extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * StorageProvider for S3-compatible object stores (AWS S3, MinIO, R2).
+ * Speaks the REST API directly with SigV4 signing; no SDK dependency.
+ */
+export class S3StorageProvider implements StorageProvider {
+  private config: S3StorageConfig;
+  private credentials: S3Credentials;
+
+  constructor(config: S3StorageConfig) {
+    this.config = config;
+    this.credentials = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      region: config.region
+    };
+  }
+
+  async put(stream: Readable, key: string, meta?: StorageMeta) {
+    const contentType = meta?.contentType ?? 'application/octet-stream';
+    let buffered: Buffer[] = [];
+    let bufferedBytes = 0;
+    let uploadId: string | null = null;
+    const parts: string[] = [];
+
+    try {
+      for await (const chunk of stream) {
+        const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        buffered.push(data);
+        bufferedBytes += data.length;
+        if (bufferedBytes >= PART_SIZE) {
+          uploadId ??= await this.createMultipartUpload(key, contentType);
+          parts.push(await this.uploadPart(key, uploadId, parts.length + 1, Buffer.concat(buffered)));
+          buffered = [];
+          bufferedBytes = 0;
+        }
+      }
+
+      if (!uploadId) {
+        const body = Buffer.concat(buffered);
+        await this.send('PUT', this.objectUrl(key), {
+          body,
+          payloadHash: sha256Hex(body),
+          headers: { 'content-type': contentType }
+        });
+        return;
+      }
+
+      if (bufferedBytes > 0) {
+        parts.push(await this.uploadPart(key, uploadId, parts.length + 1, Buffer.concat(buffered)));
+      }
+      const body = Buffer.from(
+        `<CompleteMultipartUpload>${parts
+          .map((etag, index) => `<Part><PartNumber>${index + 1}</PartNumber><ETag>${etag}</ETag></Part>`)
+          .join('')}</CompleteMultipartUpload>`
+      );
+      await this.send('POST', this.objectUrl(key, { uploadId }), { body, payloadHash: sha256Hex(body) });
+    } catch (err) {
+      if (uploadId) {
+        await this.send('DELETE', this.objectUrl(key, { uploadId })).catch(() => null);
+      }
+      throw err;
+    }
+  }
+
+  async get(key: string) {
+    const res = await this.send('GET', this.objectUrl(key), { allowNotFound: true });
+    if (res.status === 404 || !res.body) {
+      throw new Error(`File not found: ${key}`);
+    }
+    return Readable.fromWeb(res.body as WebReadableStream<Uint8Array>);
+  }
+
+  async delete(key: string) {
+    await this.send('DELETE', this.objectUrl(key), { allowNotFound: true });
+  }
+
+  async exists(key: string) {
+    const res = await this.send('HEAD', this.objectUrl(key), { allowNotFound: true });
+    return res.status !== 404;
+  }
+
+  getSignedUrl(key: string, expiresInSec: number) {
+    return presignS3Url(this.credentials, this.objectUrl(key, {}, this.config.publicEndpoint), expiresInSec);
+  }
+
+  private async createMultipartUpload(key: string, contentType: string) {
+    const res = await this.send('POST', this.objectUrl(key, { uploads: '' }), {
+      headers: { 'content-type': contentType }
+    });
+    const uploadId = /<UploadId>([^<]+)<\/UploadId>/.exec(await res.text())?.[1];
+    if (!uploadId) throw new S3Error('S3 did not return an UploadId', 502);
+    return uploadId;
+  }
+
+  private async uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer) {
+    const res = await this.send('PUT', this.objectUrl(key, { partNumber: String(partNumber), uploadId }), {
+      body,
+      payloadHash: sha256Hex(body)
+    });
+    const etag = res.headers.get('etag');
+    if (!etag) throw new S3Error(`S3 did not return an ETag for part ${partNumber}`, 502);
+    return etag;
+  }
+
+  private objectUrl(key: string, query: Record<string, string> = {}, endpoint = this.config.endpoint) {
+    const base = new URL(endpoint);
+    const path = encodeKeyPath(key.replace(/^\/+/, ''));
+    if (this.config.forcePathStyle) {
+      base.pathname = `${base.pathname.replace(/\/$/, '')}/${this.config.bucket}/${path}`;
+    } else {
+      base.host = `${this.config.bucket}.${base.host}`;
+      base.pathname = `/${path}`;
+    }
+    for (const [name, value] of Object.entries(query)) {
+      base.searchParams.set(name, value);
+    }
+    return base;
+  }
+
+  private async send(
+    method: string,
+    url: URL,
+    options: { body?: Buffer; payloadHash?: string; headers?: Record<string, string>; allowNotFound?: boolean } = {}
+  ) {
+    const headers = signS3Request(this.credentials, {
+      method,
+      url,
+      headers: options.headers,
+      payloadHash: options.payloadHash
+    });
+    const body = options.body ? new Uint8Array(options.body) : undefined;
+    const res = await fetch(url, { method, headers, body });
+    if (res.ok || (options.allowNotFound && res.status === 404)) return res;
+
+    const text = await res.text().catch(() => '');
+    const code = /<Code>([^<]+)<\/Code>/.exec(text)?.[1] ?? res.statusText;
+    throw new S3Error(`S3 ${method} ${url.pathname} failed: ${res.status} ${code}`, res.status);
+  }
+}
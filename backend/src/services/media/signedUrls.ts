@@ -0,0 +1,86 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { MEDIA_SIGNED_URL_TTL_SEC, readMediaUrlSigningSecret } from './config.js';
+import { getMediaStorage } from './storage.js';
+import { buildUrl } from './urlBuilder.js';
+
+// Read on first use rather than at import, after the environment has been loaded
+let signingSecret: string | null = null;
+
+export type SignedMediaUrl = {
+  url: string;
+  expiresAt: Date;
+};
+
+/**
+ * The secret signatures are made with. Throws when MEDIA_URL_SIGNING_SECRET is
+ * required but missing; startup calls this so such an instance never serves.
+ */
+export function getMediaUrlSigningSecret() {
+  signingSecret ??= readMediaUrlSigningSecret();
+  return signingSecret;
+}
+
+function sign(key: string, expires: number) {
+  return createHmac('sha256', getMediaUrlSigningSecret()).update(`${key}\n${expires}`).digest('base64url');
+}
+
+/**
+ * HLS playlists reference their segments by relative path, which a presigned
+ * object URL cannot carry, so they always go through `/media/*`.
+ */
+export function isPlaylistKey(key: string) {
+  return key.endsWith('.m3u8');
+}
+
+/**
+ * Time-limited URL for one stored file. Callers must have checked the viewer's access first:
+ * the URL works for anyone holding it until it expires.
+ */
+export function createSignedMediaUrl(key: string, ttlSec = MEDIA_SIGNED_URL_TTL_SEC, now = Date.now()): SignedMediaUrl {
+  const expires = Math.floor(now / 1000) + ttlSec;
+  const storage = getMediaStorage();
+  if (storage.getSignedUrl && !isPlaylistKey(key)) {
+    return { url: storage.getSignedUrl(key, ttlSec), expiresAt: new Date(expires * 1000) };
+  }
+  const query = new URLSearchParams({ expires: String(expires), signature: sign(key, expires) });
+  return { url: `${buildUrl(key)}?${query}`, expiresAt: new Date(expires * 1000) };
+}
+
+/**
+ * Sign every file a playlist lists, valid until the playlist's own `expires`.
+ * Players resolve entries relative to the playlist URL without its query string,
+ * so a signed playlist has to hand out signed URLs for its variant playlists and
+ * segments itself.
+ */
+export function signPlaylistEntries(playlistKey: string, playlist: string, expires: number, now = Date.now()) {
+  const dir = playlistKey.slice(0, playlistKey.lastIndexOf('/') + 1);
+  const ttlSec = expires - Math.floor(now / 1000);
+  return playlist
+    .split('\n')
+    .map((line) => {
+      const entry = line.trim();
+      // Tags, absolute URLs and anything leaving the playlist's directory stay as they are
+      if (!entry || entry.startsWith('#') || /^([a-z][a-z0-9+.-]*:|\/)/i.test(entry) || entry.split('/').includes('..')) {
+        return line;
+      }
+      return createSignedMediaUrl(`${dir}${entry}`, ttlSec, now).url;
+    })
+    .join('\n');
+}
+
+/**
+ * Checks the `expires`/`signature` query parameters of a `/media/*` request.
+ */
+export function verifyMediaUrlSignature(
+  key: string,
+  expires: string | undefined,
+  signature: string | undefined,
+  now = Date.now()
+) {
+  if (!expires || !signature || !/^\d+$/.test(expires)) return false;
+  const expiresAt = Number(expires);
+  if (expiresAt * 1000 < now) return false;
+  const expected = Buffer.from(sign(key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
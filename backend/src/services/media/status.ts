@@ -0,0 +1,11 @@
+import type { MediaStatus } from '@prisma/client';
+
+/**
+ * Statuses of media that can be attached and shown. Images move from READY to
+ * READY_WITH_VARIANTS once the variants job has run and stay usable throughout.
+ */
+export const READY_MEDIA_STATUSES: MediaStatus[] = ['READY', 'READY_WITH_VARIANTS'];
+
+export function isMediaReady(status: string | null | undefined) {
+  return status === 'READY' || status === 'READY_WITH_VARIANTS';
+}
@@ -1,4 +1,12 @@
+import { createWriteStream } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pipeline } from 'stream/promises';
 import type { Readable } from 'stream';
+import { MEDIA_STORAGE_DRIVER, MEDIA_UPLOAD_ROOT, readS3Config } from './config.js';
+import { LocalStorageProvider } from './localStorageProvider.js';
+import { S3StorageProvider } from './s3StorageProvider.js';
 
 export type StorageMeta = {
   contentType?: string;
@@ -8,4 +16,44 @@ export type StorageProvider = {
   put: (stream: Readable, key: string, meta?: StorageMeta) => Promise<void>;
   get: (key: string) => Promise<Readable>;
   delete: (key: string) => Promise<void>;
+  exists: (key: string) => Promise<boolean>;
+  // Path on disk, for providers that keep files locally (lets ffmpeg read them in place)
+  localPath?: (key: string) => string;
+  // Time-limited direct download URL, for providers whose store can sign one
+  getSignedUrl?: (key: string, expiresInSec: number) => string;
 };
+
+let mediaStorage: StorageProvider | null = null;
+
+/**
+ * The provider configured by MEDIA_STORAGE; every media read/write goes through it.
+ */
+export function getMediaStorage(): StorageProvider {
+  if (!mediaStorage) {
+    mediaStorage =
+      MEDIA_STORAGE_DRIVER === 's3'
+        ? new S3StorageProvider(readS3Config())
+        : new LocalStorageProvider(MEDIA_UPLOAD_ROOT);
+  }
+  return mediaStorage;
+}
+
+/**
+ * Run `fn` with a filesystem path to the stored file; remote objects are
+ * downloaded to a temp file that is removed afterwards.
+ */
+export async function withLocalFile<T>(key: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+  const storage = getMediaStorage();
+  if (storage.localPath) {
+    return fn(storage.localPath(key));
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), 'media-source-'));
+  try {
+    const filePath = join(workDir, key.split('/').pop() || 'source');
+    await pipeline(await storage.get(key), createWriteStream(filePath));
+    return await fn(filePath);
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => null);
+  }
+}
@@ -3,9 +3,9 @@
  * Replaces Multer memory storage with disk streaming for backpressure safety
  */
 
-import { createWriteStream, promises as fs, type WriteStream } from 'fs'
+import { createReadStream, createWriteStream, promises as fs, type WriteStream } from 'fs'
 import { join } from 'path'
-import { randomUUID } from 'crypto'
+import { createHash, randomUUID } from 'crypto'
 import busboy from 'busboy'
 import type { Request, Response } from 'express'
 
@@ -44,6 +44,11 @@ export type UploadOptions = {
   onProgress?: (progress: UploadProgress) => void
 }
 
+export type ChunkOptions = {
+  maxBytes: number
+  idleTimeoutMs?: number
+}
+
 export type UploadResult = {
   filePath: string
   fileName: string
@@ -285,6 +290,113 @@ export async function streamUploadToDisk(
   })
 }
 
+/**
+ * Temp file for a resumable upload: one chunk while it streams in, or the assembled file on completion
+ */
+export function getResumableTempPath(uploadId: string, fileName: string): string {
+  const ext = fileName.includes('.') ? fileName.split('.').pop() || '' : ''
+  const safeExt = /^[a-z0-9]{1,8}$/i.test(ext) ? `.${ext}` : ''
+  return join(UPLOAD_TEMP_DIR, `${uploadId}.part${safeExt}`)
+}
+
+/**
+ * Bytes already in a resumable upload temp file (0 if nothing arrived yet)
+ */
+export async function getReceivedBytes(filePath: string): Promise<number> {
+  try {
+    return (await fs.stat(filePath)).size
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Append one raw (non-multipart) chunk from the request body to a temp file
+ * Bytes written before a dropped connection stay on disk, so they can be kept and
+ * the client resumes after them rather than from the start of the chunk
+ */
+export async function streamChunkToDisk(
+  req: Request,
+  filePath: string,
+  options: ChunkOptions
+): Promise<number> {
+  const { maxBytes, idleTimeoutMs = IDLE_TIMEOUT_MS } = options
+
+  await fs.mkdir(UPLOAD_TEMP_DIR, { recursive: true })
+  const startBytes = await getReceivedBytes(filePath)
+
+  return new Promise((resolve, reject) => {
+    const writeStream = createWriteStream(filePath, { flags: 'a' })
+    let bytesWritten = 0
+    let settled = false
+    let idleTimer: NodeJS.Timeout | null = null
+
+    const fail = (error: Error, discardChunk = false) => {
+      if (settled) return
+      settled = true
+      if (idleTimer) clearTimeout(idleTimer)
+      req.unpipe(writeStream)
+      writeStream.end(() => {
+        // An oversized chunk is dropped entirely so the file never grows past the declared size
+        const done = discardChunk ? fs.truncate(filePath, startBytes).catch(() => null) : Promise.resolve()
+        done.then(() => reject(error))
+      })
+    }
+
+    const resetIdleTimer = () => {
+      if (idleTimer) clearTimeout(idleTimer)
+      idleTimer = setTimeout(() => {
+        fail(new Error('Upload idle timeout: no data received'))
+      }, idleTimeoutMs)
+    }
+
+    req.on('data', (chunk: Buffer) => {
+      bytesWritten += chunk.length
+      resetIdleTimer()
+      if (bytesWritten > maxBytes) {
+        fail(new Error(`Chunk exceeds ${maxBytes} bytes`), true)
+      }
+    })
+
+    req.on('aborted', () => {
+      fail(new Error('Upload aborted by client'))
+    })
+
+    req.on('error', (err) => {
+      fail(new Error(`Request error: ${err.message}`))
+    })
+
+    writeStream.on('error', (err: Error) => {
+      if (settled) return
+      settled = true
+      if (idleTimer) clearTimeout(idleTimer)
+      req.unpipe(writeStream)
+      reject(new Error(`Write error: ${err.message}`))
+    })
+
+    writeStream.on('finish', () => {
+      if (idleTimer) clearTimeout(idleTimer)
+      if (settled) return
+      settled = true
+      resolve(bytesWritten)
+    })
+
+    resetIdleTimer()
+    req.pipe(writeStream)
+  })
+}
+
+/**
+ * SHA-256 of a file, streamed so large videos are never read into memory
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256')
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer)
+  }
+  return hash.digest('hex')
+}
+
 /**
  * Move temp file to final storage location atomically
  */
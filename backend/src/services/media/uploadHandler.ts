@@ -3,8 +3,10 @@
  * Uses streaming uploads with state machine
  */
 
+import { createReadStream } from 'fs'
 import { readFile } from 'fs/promises'
 import { prisma } from '../../lib/prisma/client.js'
+import { READY_MEDIA_STATUSES } from './status.js'
 import { MediaError } from './mediaService.js'
 import { randomUUID } from 'crypto'
 
@@ -44,11 +46,10 @@ function mimeToExt(mimeType: string): string {
       return ''
   }
 }
-import { buildMediaUrls } from './urlBuilder.js'
-import { MEDIA_UPLOAD_ROOT } from './config.js'
-import { finalizeUpload, cleanupTempFile } from './streamingUpload.js'
+import { buildMediaUrls, type MediaUrls } from './urlBuilder.js'
+import { getMediaStorage } from './storage.js'
+import { finalizeUpload, cleanupTempFile, hashFile } from './streamingUpload.js'
 import { imageSize } from 'image-size'
-import { createHash } from 'crypto'
 import { assertRateLimit } from './mediaService.js'
 
 // Conservative size limits for Railway free tier
@@ -63,6 +64,8 @@ type UploadFileInfo = {
   mimeType: string
   sizeBytes: number
   uploadId: string
+  // Already computed (and verified) by the resumable upload flow
+  contentHash?: string
 }
 
 type UploadInput = {
@@ -75,7 +78,7 @@ type UploadResult = {
   mediaId: bigint
   status: string
   mimeType: string
-  urls: { original: string; thumb: string | null }
+  urls: MediaUrls
 }
 
 /**
@@ -89,9 +92,9 @@ function getMediaType(mimeType: string): 'IMAGE' | 'VIDEO' | 'AUDIO' {
 }
 
 /**
- * Validate image file
+ * Validate image size/MIME (dimensions need the file, see validateImage)
  */
-async function validateImage(filePath: string, mimeType: string, sizeBytes: number): Promise<{ width: number; height: number }> {
+function validateImageType(mimeType: string, sizeBytes: number): void {
   if (sizeBytes > MAX_IMAGE_BYTES) {
     throw new MediaError(`Image too large. Maximum size is ${Math.round(MAX_IMAGE_BYTES / (1024 * 1024))}MB`, 400)
   }
@@ -104,6 +107,13 @@ async function validateImage(filePath: string, mimeType: string, sizeBytes: numb
   if (!allowedMime.includes(mimeType)) {
     throw new MediaError('Unsupported image type', 400)
   }
+}
+
+/**
+ * Validate image file
+ */
+async function validateImage(filePath: string, mimeType: string, sizeBytes: number): Promise<{ width: number; height: number }> {
+  validateImageType(mimeType, sizeBytes)
 
   const buffer = await readFile(filePath)
   const meta = imageSize(buffer)
@@ -121,8 +131,8 @@ async function validateImage(filePath: string, mimeType: string, sizeBytes: numb
 
 /**
  * Validate video file
- * Note: Duration and resolution validation requires ffprobe (job-based)
- * Client-side validation should catch these, but server validates size/MIME
+ * Note: Duration and resolution are enforced by the media-metadata job (ffprobe)
+ * This only checks size/MIME before the file is stored
  */
 function validateVideo(mimeType: string, sizeBytes: number): void {
   if (sizeBytes > MAX_VIDEO_BYTES) {
@@ -155,11 +165,75 @@ function validateAudio(mimeType: string, sizeBytes: number): void {
 }
 
 /**
- * Calculate content hash
+ * Check the declared MIME type and size before any bytes are accepted
+ * Used when a resumable upload session is created
  */
-async function calculateHash(filePath: string): Promise<string> {
-  const buffer = await readFile(filePath)
-  return createHash('sha256').update(buffer).digest('hex')
+export function validateUploadDeclaration(mimeType: string, sizeBytes: number): void {
+  const mediaType = getMediaType(mimeType)
+  if (mediaType === 'IMAGE') validateImageType(mimeType, sizeBytes)
+  else if (mediaType === 'VIDEO') validateVideo(mimeType, sizeBytes)
+  else validateAudio(mimeType, sizeBytes)
+}
+
+/**
+ * Ready media of the same owner with identical bytes, whose stored object can be reused
+ * Only media with the same visibility that was never attached to a message qualifies,
+ * so rows sharing an object start out with the same access rules
+ */
+async function findReusableMedia(ownerUserId: bigint, contentHash: string, visibility: 'PUBLIC' | 'PRIVATE') {
+  return prisma.media.findFirst({
+    where: {
+      ownerUserId,
+      contentHash,
+      visibility,
+      messageLinks: { none: {} },
+      deletedAt: null,
+      storageKey: { not: null },
+      status: { in: READY_MEDIA_STATUSES },
+    },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+/**
+ * Create a new Media row pointing at an existing storage object instead of storing the bytes again
+ * The row is independent (own visibility, own deletion); cleanup only removes files no live row references
+ */
+async function reuseStoredMedia(
+  existing: NonNullable<Awaited<ReturnType<typeof findReusableMedia>>>,
+  ownerUserId: bigint,
+  visibility: 'PUBLIC' | 'PRIVATE',
+  filePath: string
+): Promise<UploadResult> {
+  const created = await prisma.media.create({
+    data: {
+      userId: ownerUserId,
+      ownerUserId,
+      type: existing.type,
+      status: existing.status,
+      visibility,
+      storageKey: existing.storageKey,
+      variants: existing.variants ?? undefined,
+      contentHash: existing.contentHash,
+      mimeType: existing.mimeType,
+      sizeBytes: existing.sizeBytes,
+      width: existing.width,
+      height: existing.height,
+      durationSec: existing.durationSec,
+      url: existing.url,
+      thumbUrl: existing.thumbUrl,
+    },
+    select: { id: true },
+  })
+  await cleanupTempFile(filePath)
+  process.stdout.write(`[media] Reused storage object of media ${existing.id} for media ${created.id}\n`);
+
+  return {
+    mediaId: created.id,
+    status: 'READY',
+    mimeType: existing.mimeType ?? '',
+    urls: buildMediaUrls(existing),
+  }
 }
 
 /**
@@ -195,9 +269,15 @@ export async function uploadMedia(input: UploadInput): Promise<UploadResult> {
     validateAudio(mimeType, sizeBytes)
   }
 
-  // Generate storage key and hash
+  // Identical bytes already stored for this user: reuse the object
+  const contentHash = fileInfo.contentHash ?? (await hashFile(filePath))
+  const reusable = await findReusableMedia(ownerUserId, contentHash, visibility)
+  if (reusable) {
+    return reuseStoredMedia(reusable, ownerUserId, visibility, filePath)
+  }
+
+  // Generate storage key
   const storageKey = buildStorageKey(mimeType)
-  const contentHash = await calculateHash(filePath)
 
   // Build variants (for images, original is the variant)
   const variants = mediaType === 'IMAGE' && width && height
@@ -228,11 +308,19 @@ export async function uploadMedia(input: UploadInput): Promise<UploadResult> {
   })
 
   try {
-    // Move temp file to final storage location
-    const finalPath = `${MEDIA_UPLOAD_ROOT}/${storageKey}`
-    process.stdout.write(`[media] Moving temp file to final location: ${finalPath}\n`);
-    await finalizeUpload(filePath, finalPath)
-    process.stdout.write(`[media] File moved successfully\n`);
+    const storage = getMediaStorage()
+    if (storage.localPath) {
+      // Move temp file to final storage location
+      const finalPath = storage.localPath(storageKey)
+      process.stdout.write(`[media] Moving temp file to final location: ${finalPath}\n`);
+      await finalizeUpload(filePath, finalPath)
+      process.stdout.write(`[media] File moved successfully\n`);
+    } else {
+      // Remote storage: stream the temp file up, then drop it
+      await storage.put(createReadStream(filePath), storageKey, { contentType: mimeType })
+      await cleanupTempFile(filePath)
+      process.stdout.write(`[media] File stored as ${storageKey}\n`);
+    }
 
     // Update status to UPLOADED
     await prisma.media.update({
@@ -252,6 +340,12 @@ export async function uploadMedia(input: UploadInput): Promise<UploadResult> {
         data: { status: 'READY' },
       })
       responseStatus = 'READY'
+
+      // Sized variants are generated in the background; until then the original is served
+      const { runMediaVariantsJob } = await import('../../jobs/mediaVariantsJob.js')
+      runMediaVariantsJob({ mediaId: created.id }).catch((err) => {
+        console.error(`Failed to generate variants for media ${created.id}:`, err)
+      })
     } else {
       // Video/audio: status is UPLOADED while metadata job runs
       // Enqueue metadata extraction job (non-blocking)
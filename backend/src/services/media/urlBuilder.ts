@@ -1,13 +1,23 @@
 import { MEDIA_BASE_URL } from './config.js';
+import { IMAGE_VARIANT_FORMATS, IMAGE_VARIANT_SPECS, variantMimeType } from './imageVariants.js';
 
-type Variant = { key: string; width?: number | null; height?: number | null };
+type Variant = {
+  key: string;
+  width?: number | null;
+  height?: number | null;
+  formats?: Partial<Record<string, string>>;
+};
 type Variants = {
   original?: Variant;
   thumb?: Variant;
+  card?: Variant;
+  full?: Variant;
   small?: Variant;
   medium?: Variant;
   large?: Variant;
   poster?: Variant;
+  preview?: Variant;
+  hls?: Variant;
 };
 
 export type MediaUrlInput = {
@@ -17,24 +27,79 @@ export type MediaUrlInput = {
   thumbUrl?: string | null;
 };
 
+export type MediaSource = {
+  type: string;
+  srcset: string;
+};
+
 export type MediaUrls = {
   original: string;
   thumb: string | null;
+  sources: MediaSource[];
+  preview: string | null;
+  hls: string | null;
 };
 
 const MEDIA_PATH_PREFIX = '/media';
 
-export function buildMediaUrls(media: MediaUrlInput): MediaUrls {
+export type MediaKeys = {
+  original: string | null;
+  thumb: string | null;
+  preview: string | null;
+  hls: string | null;
+};
+
+/**
+ * Storage keys behind each URL in MediaUrls; used where URLs are signed per request.
+ */
+export function resolveMediaKeys(media: MediaUrlInput): MediaKeys {
   const variants = normalizeVariants(media.variants);
-  const originalKey = variants?.original?.key ?? media.storageKey ?? null;
-  const original = originalKey ? buildUrl(originalKey) : (media.url ?? '');
-  const thumbKey = variants?.thumb?.key ?? null;
-  const thumb = thumbKey
-    ? buildUrl(thumbKey)
-    : originalKey
-      ? buildUrl(originalKey)
-      : (media.thumbUrl ?? original);
-  return { original, thumb: thumb ?? null };
+  const original = variants?.full?.key ?? variants?.original?.key ?? media.storageKey ?? null;
+  return {
+    original,
+    thumb: variants?.thumb?.key ?? variants?.poster?.key ?? original,
+    preview: variants?.preview?.key ?? null,
+    hls: variants?.hls?.key ?? null
+  };
+}
+
+/**
+ * Once image variants exist `original` points at the largest re-encoded one, so the
+ * upload with its EXIF/GPS data is never linked. Videos use their poster frame as thumb.
+ */
+export function buildMediaUrls(media: MediaUrlInput): MediaUrls {
+  const keys = resolveMediaKeys(media);
+  const original = keys.original ? buildUrl(keys.original) : (media.url ?? '');
+  const thumb = keys.thumb ? buildUrl(keys.thumb) : (media.thumbUrl ?? original);
+  return {
+    original,
+    thumb: thumb ?? null,
+    sources: buildSources(normalizeVariants(media.variants)),
+    preview: keys.preview ? buildUrl(keys.preview) : null,
+    hls: keys.hls ? buildUrl(keys.hls) : null
+  };
+}
+
+/**
+ * One `srcset` per modern format, best-compressed first, for `<picture>` sources
+ */
+function buildSources(variants: Variants | null): MediaSource[] {
+  if (!variants) return [];
+  const sources: MediaSource[] = [];
+  for (const format of IMAGE_VARIANT_FORMATS) {
+    const candidates = new Map<number, string>();
+    for (const spec of IMAGE_VARIANT_SPECS) {
+      const variant = variants[spec.name];
+      const key = variant?.formats?.[format];
+      if (key && variant?.width && !candidates.has(variant.width)) {
+        candidates.set(variant.width, `${buildUrl(key)} ${variant.width}w`);
+      }
+    }
+    if (candidates.size) {
+      sources.push({ type: variantMimeType(format), srcset: [...candidates.values()].join(', ') });
+    }
+  }
+  return sources;
 }
 
 export function buildMediaUrl(media: MediaUrlInput, variant: keyof Variants) {
@@ -44,7 +109,7 @@ export function buildMediaUrl(media: MediaUrlInput, variant: keyof Variants) {
   return media.url ?? '';
 }
 
-function buildUrl(key: string) {
+export function buildUrl(key: string) {
   const base = MEDIA_BASE_URL;
   const encoded = key.split('/').map(encodeURIComponent).join('/');
   return `${base}${MEDIA_PATH_PREFIX}/${encoded}`;
@@ -0,0 +1,140 @@
+/**
+ * Derived files for uploaded videos
+ * - poster: a WebP frame shown before playback and as the thumbnail
+ * - preview: a short muted, low-bitrate MP4 used for feed autoplay
+ * - hls: optional adaptive renditions (MEDIA_HLS_ENABLED=true) for full playback
+ */
+
+import { ffmpegPath, runMediaTool, type MediaToolOptions } from './mediaTool.js'
+
+export const POSTER_MAX_WIDTH = 720
+export const PREVIEW_MAX_WIDTH = 480
+export const PREVIEW_SECONDS = 6
+const HLS_SEGMENT_SECONDS = 4
+
+export const HLS_RENDITIONS = [
+  { name: '360p', height: 360, bandwidth: 900_000 },
+  { name: '720p', height: 720, bandwidth: 2_800_000 },
+] as const
+
+export type HlsRendition = (typeof HLS_RENDITIONS)[number]
+
+const RENDITION_KEY_PATTERN = /^(.+)-(poster\.webp|preview\.mp4|hls\/(?:\d+p\/)?[a-z0-9_]+\.(?:m3u8|ts))$/
+
+const EXTENSION_MIME: Record<string, string> = {
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  m3u8: 'application/vnd.apple.mpegurl',
+  ts: 'video/mp2t',
+}
+
+export function isHlsEnabled() {
+  return process.env.MEDIA_HLS_ENABLED === 'true'
+}
+
+function baseKey(storageKey: string) {
+  return storageKey.replace(/\.[^./]+$/, '')
+}
+
+export function buildPosterKey(storageKey: string) {
+  return `${baseKey(storageKey)}-poster.webp`
+}
+
+export function buildPreviewKey(storageKey: string) {
+  return `${baseKey(storageKey)}-preview.mp4`
+}
+
+/**
+ * `relativePath` is the file's path inside the HLS output directory (e.g. `360p/seg_000.ts`)
+ */
+export function buildHlsKey(storageKey: string, relativePath: string) {
+  return `${baseKey(storageKey)}-hls/${relativePath}`
+}
+
+export function parseRenditionKey(key: string) {
+  const match = RENDITION_KEY_PATTERN.exec(key)
+  if (!match) return null
+  const extension = match[2].split('.').pop() ?? ''
+  return { baseKey: match[1], mimeType: EXTENSION_MIME[extension] ?? 'application/octet-stream' }
+}
+
+/**
+ * Renditions worth producing for a source of `sourceHeight` (the lowest one always is)
+ */
+export function selectHlsRenditions(sourceHeight: number | null) {
+  const limit = Math.max(sourceHeight ?? 0, HLS_RENDITIONS[0].height)
+  return HLS_RENDITIONS.filter((rendition) => rendition.height <= limit)
+}
+
+export function buildHlsMasterPlaylist(renditions: readonly HlsRendition[]) {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3']
+  for (const rendition of renditions) {
+    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth}`)
+    lines.push(`${rendition.name}/index.m3u8`)
+  }
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * A frame from early in the clip, skipping black lead-in frames where possible
+ */
+export function buildPosterArgs(inputPath: string, outputPath: string, durationSec: number | null) {
+  const seekSec = durationSec ? Math.min(1, durationSec / 2) : 0
+  return [
+    '-v', 'error',
+    '-y',
+    '-ss', seekSec.toFixed(2),
+    '-i', inputPath,
+    '-map_metadata', '-1',
+    '-frames:v', '1',
+    '-vf', `scale='min(${POSTER_MAX_WIDTH},iw)':-2`,
+    '-c:v', 'libwebp',
+    '-quality', '80',
+    outputPath,
+  ]
+}
+
+export function buildPreviewArgs(inputPath: string, outputPath: string) {
+  return [
+    '-v', 'error',
+    '-y',
+    '-i', inputPath,
+    '-t', String(PREVIEW_SECONDS),
+    '-an',
+    '-map_metadata', '-1',
+    '-vf', `scale='min(${PREVIEW_MAX_WIDTH},iw)':-2`,
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '30',
+    '-pix_fmt', 'yuv420p',
+    '-movflags', '+faststart',
+    outputPath,
+  ]
+}
+
+export function buildHlsRenditionArgs(inputPath: string, outputDir: string, rendition: HlsRendition) {
+  return [
+    '-v', 'error',
+    '-y',
+    '-i', inputPath,
+    '-map_metadata', '-1',
+    '-vf', `scale=-2:'min(${rendition.height},ih)'`,
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '23',
+    '-maxrate', String(rendition.bandwidth),
+    '-bufsize', String(rendition.bandwidth * 2),
+    '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac',
+    '-b:a', '96k',
+    '-f', 'hls',
+    '-hls_time', String(HLS_SEGMENT_SECONDS),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', `${outputDir}/seg_%03d.ts`,
+    `${outputDir}/index.m3u8`,
+  ]
+}
+
+export async function encodeVideoRendition(args: string[], options: MediaToolOptions & { binary?: string } = {}) {
+  await runMediaTool('ffmpeg', options.binary ?? ffmpegPath(), args, { timeoutMs: options.timeoutMs ?? 120_000 })
+}
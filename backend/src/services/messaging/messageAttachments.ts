@@ -0,0 +1,120 @@
+import { prisma } from '../../lib/prisma/client.js';
+import { assertConversationParticipant } from '../../lib/auth/guards.js';
+import { getMediaStorage } from '../media/storage.js';
+import { MEDIA_BASE_URL } from '../media/config.js';
+import { MediaError, mediaService } from '../media/mediaService.js';
+
+export const MAX_MESSAGE_ATTACHMENTS = 4;
+
+const storage = getMediaStorage();
+
+export type MessageAttachment = {
+  id: bigint;
+  type: string;
+  mimeType: string | null;
+  width: number | null;
+  height: number | null;
+  durationSec: number | null;
+  url: string;
+};
+
+/**
+ * Attachments are never exposed through `/media/<key>`; this route checks that the
+ * viewer is a participant of the message's conversation before streaming.
+ */
+export function buildMessageAttachmentUrl(messageId: bigint, mediaId: bigint) {
+  return `${MEDIA_BASE_URL}/api/messages/${messageId}/media/${mediaId}`;
+}
+
+/**
+ * Validates media the sender wants to attach: owned, ready, and not already used by a
+ * post, profile or another message (attaching makes the media conversation-private).
+ */
+export async function assertAttachableMedia(mediaIds: bigint[], senderId: bigint) {
+  if (!mediaIds.length) return;
+  if (mediaIds.length > MAX_MESSAGE_ATTACHMENTS) {
+    throw new MediaError(`At most ${MAX_MESSAGE_ATTACHMENTS} attachments per message`, 400);
+  }
+  if (new Set(mediaIds.map(String)).size !== mediaIds.length) {
+    throw new MediaError('Duplicate mediaIds', 400);
+  }
+  await mediaService.assertOwnedMediaIds(mediaIds, senderId, { requireReady: true });
+
+  const inUse = await prisma.media.count({
+    where: {
+      id: { in: mediaIds },
+      OR: [
+        { postLinks: { some: {} } },
+        { messageLinks: { some: {} } },
+        { avatarProfiles: { some: {} } },
+        { heroProfiles: { some: {} } }
+      ]
+    }
+  });
+  if (inUse > 0) throw new MediaError('Media is already in use', 409);
+}
+
+/**
+ * Attachments in send order, keyed by message id.
+ */
+export async function loadMessageAttachments(messageIds: bigint[]) {
+  const attachments = new Map<string, MessageAttachment[]>();
+  if (!messageIds.length) return attachments;
+
+  const links = await prisma.messageMedia.findMany({
+    where: { messageId: { in: messageIds }, media: { deletedAt: null } },
+    orderBy: [{ messageId: 'asc' }, { order: 'asc' }],
+    select: {
+      messageId: true,
+      media: {
+        select: { id: true, type: true, mimeType: true, width: true, height: true, durationSec: true }
+      }
+    }
+  });
+  for (const link of links) {
+    const key = String(link.messageId);
+    const list = attachments.get(key) ?? [];
+    list.push({
+      id: link.media.id,
+      type: link.media.type,
+      mimeType: link.media.mimeType ?? null,
+      width: link.media.width ?? null,
+      height: link.media.height ?? null,
+      durationSec: link.media.durationSec ?? null,
+      url: buildMessageAttachmentUrl(link.messageId, link.media.id)
+    });
+    attachments.set(key, list);
+  }
+  return attachments;
+}
+
+/**
+ * Opens an attachment for a conversation participant. Read-only conversations stay
+ * viewable; unsent messages and deleted media are gone for both sides.
+ */
+export async function getMessageAttachmentStream(messageId: bigint, mediaId: bigint, viewerId: bigint) {
+  const link = await prisma.messageMedia.findFirst({
+    where: { messageId, mediaId },
+    select: {
+      message: { select: { conversationId: true, deletedAt: true } },
+      media: { select: { storageKey: true, mimeType: true, sizeBytes: true, deletedAt: true } }
+    }
+  });
+  if (!link || link.message.deletedAt || link.media.deletedAt || !link.media.storageKey) {
+    throw new MediaError('Attachment not found', 404);
+  }
+
+  const guard = await assertConversationParticipant(link.message.conversationId, viewerId, { allowReadOnly: true });
+  if (!guard.ok) throw new MediaError(guard.error, guard.status);
+
+  try {
+    const stream = await storage.get(link.media.storageKey);
+    return {
+      stream,
+      mimeType: link.media.mimeType ?? 'application/octet-stream',
+      sizeBytes: link.media.sizeBytes ?? null
+    };
+  } catch {
+    throw new MediaError('Attachment file not found', 404);
+  }
+}
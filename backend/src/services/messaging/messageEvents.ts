@@ -0,0 +1,100 @@
+import type { WsMessage, WsMessageReaction, WsSubscribeTopic } from '@app/shared';
+import { prisma } from '../../lib/prisma/client.js';
+import { notify } from '../../ws/notify.js';
+
+// Edits are allowed for this long after sending
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+const EMOJI_MAX_LENGTH = 32;
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u200d|\ufe0f)+$/u;
+
+type ConversationRef = {
+  id: bigint;
+  userAId: bigint;
+  userBId: bigint;
+};
+
+function conversationTargets(conversation: ConversationRef): WsSubscribeTopic[] {
+  return [
+    { kind: 'conversation', id: String(conversation.id) },
+    { kind: 'user', id: String(conversation.userAId) },
+    { kind: 'user', id: String(conversation.userBId) }
+  ];
+}
+
+/**
+ * Accepts a single emoji (including ZWJ sequences and skin tones); returns null for anything else.
+ */
+export function parseReactionEmoji(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const emoji = value.trim();
+  if (!emoji || emoji.length > EMOJI_MAX_LENGTH || /\s/.test(emoji)) return null;
+  return EMOJI_PATTERN.test(emoji) ? emoji : null;
+}
+
+/**
+ * Reactions grouped by emoji in first-reacted order, keyed by message id.
+ */
+export async function loadReactionSummaries(messageIds: bigint[]) {
+  const summaries = new Map<string, WsMessageReaction[]>();
+  if (!messageIds.length) return summaries;
+
+  const rows = await prisma.messageReaction.findMany({
+    where: { messageId: { in: messageIds } },
+    orderBy: { id: 'asc' },
+    select: { messageId: true, userId: true, emoji: true }
+  });
+  for (const row of rows) {
+    const key = String(row.messageId);
+    const list = summaries.get(key) ?? [];
+    const group = list.find((r) => r.emoji === row.emoji);
+    if (group) group.userIds.push(String(row.userId));
+    else list.push({ emoji: row.emoji, userIds: [String(row.userId)] });
+    summaries.set(key, list);
+  }
+  return summaries;
+}
+
+export function emitMessageEdited(conversation: ConversationRef, messageId: bigint, body: string, editedAt: Date) {
+  const event: WsMessage<'server.messenger.message_edited'> = {
+    type: 'server.messenger.message_edited',
+    data: {
+      conversationId: String(conversation.id),
+      messageId: String(messageId),
+      body,
+      editedAt: editedAt.toISOString()
+    },
+    ts: Date.now()
+  };
+  notify({ event, targets: conversationTargets(conversation) });
+}
+
+export function emitMessageDeleted(conversation: ConversationRef, messageId: bigint, deletedAt: Date) {
+  const event: WsMessage<'server.messenger.message_deleted'> = {
+    type: 'server.messenger.message_deleted',
+    data: {
+      conversationId: String(conversation.id),
+      messageId: String(messageId),
+      deletedAt: deletedAt.toISOString()
+    },
+    ts: Date.now()
+  };
+  notify({ event, targets: conversationTargets(conversation) });
+}
+
+export function emitReactionsUpdated(
+  conversation: ConversationRef,
+  messageId: bigint,
+  reactions: WsMessageReaction[]
+) {
+  const event: WsMessage<'server.messenger.reactions_updated'> = {
+    type: 'server.messenger.reactions_updated',
+    data: {
+      conversationId: String(conversation.id),
+      messageId: String(messageId),
+      reactions
+    },
+    ts: Date.now()
+  };
+  notify({ event, targets: conversationTargets(conversation) });
+}
@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma/client.js';
+import { toAvatarUrl } from '../media/presenter.js';
+
+export const SEARCH_QUERY_MAX_LENGTH = 100;
+
+const MAX_TERMS = 8;
+const SNIPPET_RADIUS = 60;
+
+type SearchHitRow = {
+  id: bigint;
+  conversationId: bigint;
+  senderId: bigint;
+  body: string;
+  createdAt: Date;
+};
+
+export type SnippetHighlight = { start: number; end: number };
+
+/**
+ * Splits a free-text query into lowercase word terms. Punctuation (including the
+ * boolean-mode operators) is dropped so user input can never change the query shape.
+ */
+export function parseSearchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return Array.from(new Set(words)).slice(0, MAX_TERMS);
+}
+
+// Every term must match; a trailing wildcard lets "din" find "dinner"
+function toBooleanQuery(terms: string[]) {
+  return terms.map((term) => `+${term}*`).join(' ');
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+// Index of the next occurrence of `term` at the start of a word, or -1
+function findTerm(lowerText: string, term: string, from: number) {
+  let index = lowerText.indexOf(term, from);
+  while (index > 0 && WORD_CHAR.test(lowerText[index - 1]!)) {
+    index = lowerText.indexOf(term, index + 1);
+  }
+  return index;
+}
+
+/**
+ * A window of the body around the first matched term, with the offsets of every term
+ * occurrence inside it. Offsets are UTF-16 indexes into `snippet`.
+ */
+export function buildSnippet(body: string, terms: string[]): { snippet: string; highlights: SnippetHighlight[] } {
+  const lower = body.toLowerCase();
+  const hits = terms.map((term) => findTerm(lower, term, 0)).filter((index) => index !== -1);
+  const first = hits.length ? Math.min(...hits) : 0;
+
+  let start = Math.max(0, first - SNIPPET_RADIUS);
+  let end = Math.min(body.length, first + SNIPPET_RADIUS * 2);
+  // Don't cut words in half at the edges
+  if (start > 0) {
+    const space = body.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  if (end < body.length) {
+    const space = body.lastIndexOf(' ', end);
+    if (space > first) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${body.slice(start, end)}${end < body.length ? '…' : ''}`;
+  const window = snippet.toLowerCase();
+
+  const ranges: SnippetHighlight[] = [];
+  for (const term of terms) {
+    for (let index = findTerm(window, term, 0); index !== -1; index = findTerm(window, term, index + term.length)) {
+      ranges.push({ start: index, end: index + term.length });
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start);
+  const highlights: SnippetHighlight[] = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else highlights.push({ ...range });
+  }
+  return { snippet, highlights };
+}
+
+/**
+ * Messages visible to `userId` that contain every term, newest first. Like the inbox, only
+ * conversations without a match or with an active or unmatched (read-only) one are searched,
+ * so blocked pairs never show up; unsent messages and anything before the user hid a
+ * conversation are excluded too.
+ */
+export async function searchMessages(options: {
+  userId: bigint;
+  terms: string[];
+  take: number;
+  cursorId: bigint | null;
+  conversationId: bigint | null;
+}) {
+  const { userId, terms, take, cursorId, conversationId } = options;
+
+  const rows = await prisma.$queryRaw<SearchHitRow[]>(Prisma.sql`
+    SELECT m.\`id\`, m.\`conversationId\`, m.\`senderId\`, m.\`body\`, m.\`createdAt\`
+    FROM \`Message\` m
+    JOIN \`Conversation\` c ON c.\`id\` = m.\`conversationId\`
+    LEFT JOIN \`Match\` mt ON mt.\`id\` = c.\`matchId\`
+    LEFT JOIN \`ConversationUserState\` s ON s.\`conversationId\` = c.\`id\` AND s.\`userId\` = ${userId}
+    WHERE (c.\`userAId\` = ${userId} OR c.\`userBId\` = ${userId})
+      AND (c.\`matchId\` IS NULL OR mt.\`state\` IN ('ACTIVE', 'CLOSED'))
+      AND m.\`deletedAt\` IS NULL
+      AND m.\`isSystem\` = false
+      AND (s.\`deletedAt\` IS NULL OR m.\`createdAt\` > s.\`deletedAt\`)
+      AND MATCH(m.\`body\`) AGAINST (${toBooleanQuery(terms)} IN BOOLEAN MODE)
+      ${conversationId ? Prisma.sql`AND m.\`conversationId\` = ${conversationId}` : Prisma.empty}
+      ${cursorId ? Prisma.sql`AND m.\`id\` < ${cursorId}` : Prisma.empty}
+    ORDER BY m.\`id\` DESC
+    LIMIT ${take + 1}
+  `);
+
+  const page = rows.slice(0, take);
+  const nextCursorId = rows.length > take ? page[page.length - 1]!.id : null;
+
+  const conversations = await prisma.conversation.findMany({
+    where: { id: { in: Array.from(new Set(page.map((row) => row.conversationId))) } },
+    select: {
+      id: true,
+      userAId: true,
+      userA: { select: { id: true, profile: { select: { displayName: true, avatarMedia: true } } } },
+      userB: { select: { id: true, profile: { select: { displayName: true, avatarMedia: true } } } }
+    }
+  });
+  const otherUsers = new Map(
+    conversations.map((c) => {
+      const other = c.userAId === userId ? c.userB : c.userA;
+      return [
+        String(c.id),
+        {
+          id: other.id,
+          displayName: other.profile?.displayName ?? null,
+          avatarUrl: toAvatarUrl(other.profile?.avatarMedia)
+        }
+      ];
+    })
+  );
+
+  return {
+    hits: page.map((row) => ({
+      messageId: row.id,
+      conversationId: row.conversationId,
+      senderId: row.senderId,
+      createdAt: row.createdAt,
+      otherUser: otherUsers.get(String(row.conversationId)) ?? null,
+      ...buildSnippet(row.body, terms)
+    })),
+    nextCursorId
+  };
+}
@@ -0,0 +1,117 @@
+import type { WsMessage, WsSubscribeTopic } from '@app/shared';
+import { prisma } from '../../lib/prisma/client.js';
+import { notify } from '../../ws/notify.js';
+
+type ConversationRef = {
+  id: bigint;
+  userAId: bigint;
+  userBId: bigint;
+};
+
+export type ReadWatermark = {
+  lastReadMessageId: bigint | null;
+  lastReadAt: Date | null;
+};
+
+export type UnreadScope = {
+  conversationId: bigint;
+  lastReadMessageId: bigint | null;
+  deletedAt: Date | null;
+};
+
+/**
+ * Moves the user's read watermark forward to `messageId`. Watermarks never move
+ * backwards, so a late request for an older message is a no-op (`advanced: false`).
+ */
+export async function advanceReadWatermark(conversationId: bigint, userId: bigint, messageId: bigint) {
+  const key = { conversationId_userId: { conversationId, userId } };
+  const select = { lastReadMessageId: true, lastReadAt: true };
+
+  const existing = await prisma.conversationUserState.findUnique({ where: key, select });
+  if (existing?.lastReadMessageId != null && existing.lastReadMessageId >= messageId) {
+    return { advanced: false, ...existing };
+  }
+  if (!existing) {
+    await prisma.conversationUserState.upsert({ where: key, create: { conversationId, userId }, update: {} });
+  }
+
+  // Conditional so a concurrent read of a newer message is never overwritten
+  const readAt = new Date();
+  const { count } = await prisma.conversationUserState.updateMany({
+    where: {
+      conversationId,
+      userId,
+      OR: [{ lastReadMessageId: null }, { lastReadMessageId: { lt: messageId } }]
+    },
+    data: { lastReadMessageId: messageId, lastReadAt: readAt }
+  });
+  if (count === 0) {
+    const current = await prisma.conversationUserState.findUnique({ where: key, select });
+    return { advanced: false, lastReadMessageId: current?.lastReadMessageId ?? null, lastReadAt: current?.lastReadAt ?? null };
+  }
+  return { advanced: true, lastReadMessageId: messageId, lastReadAt: readAt };
+}
+
+export async function getReadWatermark(conversationId: bigint, userId: bigint): Promise<ReadWatermark> {
+  const state = await prisma.conversationUserState.findUnique({
+    where: { conversationId_userId: { conversationId, userId } },
+    select: { lastReadMessageId: true, lastReadAt: true }
+  });
+  return { lastReadMessageId: state?.lastReadMessageId ?? null, lastReadAt: state?.lastReadAt ?? null };
+}
+
+/**
+ * Messages from the other participant above the watermark, keyed by conversation id.
+ * Messages from before the user hid a conversation never count.
+ */
+export async function countUnreadMessages(userId: bigint, scopes: UnreadScope[]) {
+  const counts = new Map<string, number>();
+  if (!scopes.length) return counts;
+
+  const rows = await prisma.message.groupBy({
+    by: ['conversationId'],
+    where: {
+      senderId: { not: userId },
+      deletedAt: null,
+      OR: scopes.map((scope) => ({
+        conversationId: scope.conversationId,
+        ...(scope.lastReadMessageId ? { id: { gt: scope.lastReadMessageId } } : {}),
+        ...(scope.deletedAt ? { createdAt: { gt: scope.deletedAt } } : {})
+      }))
+    },
+    _count: { _all: true }
+  });
+  for (const row of rows) counts.set(String(row.conversationId), row._count._all);
+  return counts;
+}
+
+/**
+ * One event per watermark move. The reader's own sockets get it too so other devices
+ * can clear their unread badge; with read receipts disabled only they do.
+ */
+export function emitReadWatermark(
+  conversation: ConversationRef,
+  readerId: bigint,
+  lastReadMessageId: bigint,
+  readAt: Date,
+  options: { shareWithOther: boolean }
+) {
+  const event: WsMessage<'server.messenger.read_watermark'> = {
+    type: 'server.messenger.read_watermark',
+    data: {
+      conversationId: String(conversation.id),
+      readerId: String(readerId),
+      lastReadMessageId: String(lastReadMessageId),
+      readAt: readAt.toISOString()
+    },
+    ts: Date.now()
+  };
+  const targets: WsSubscribeTopic[] = options.shareWithOther
+    ? [
+        { kind: 'conversation', id: String(conversation.id) },
+        { kind: 'user', id: String(conversation.userAId) },
+        { kind: 'user', id: String(conversation.userBId) }
+      ]
+    : [{ kind: 'user', id: String(readerId) }];
+  notify({ event, targets });
+}
@@ -0,0 +1,196 @@
+import type { NotificationType, Prisma } from '@prisma/client';
+import type { WsMessage } from '@app/shared';
+import { prisma } from '../../lib/prisma/client.js';
+import { notify } from '../../ws/notify.js';
+import { toAvatarUrl } from '../media/presenter.js';
+import { loadBlockedAmong } from '../safety/blockFilter.js';
+
+// Types a user can mute; moderation warnings are left out so they are always delivered
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'MATCH_NEW',
+  'ACCESS_REQUEST',
+  'COMMENT_REPLY',
+  'COMMENT_MENTION',
+  'POST_LIKE',
+  'PROFILE_RATING'
+];
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return typeof value === 'string' && (NOTIFICATION_TYPES as string[]).includes(value);
+}
+
+export type NotificationInput = {
+  userId: bigint;
+  type: NotificationType;
+  actorId?: bigint | null;
+  entityId?: bigint | null;
+  data?: Record<string, string | number | boolean | null>;
+};
+
+const notificationSelect = {
+  id: true,
+  type: true,
+  entityId: true,
+  data: true,
+  readAt: true,
+  createdAt: true,
+  actor: {
+    select: {
+      id: true,
+      profile: {
+        select: {
+          displayName: true,
+          avatarMedia: {
+            select: {
+              id: true,
+              type: true,
+              url: true,
+              thumbUrl: true,
+              width: true,
+              height: true,
+              durationSec: true,
+              storageKey: true,
+              variants: true
+            }
+          }
+        }
+      }
+    }
+  }
+} satisfies Prisma.NotificationSelect;
+
+type NotificationRow = Prisma.NotificationGetPayload<{ select: typeof notificationSelect }>;
+
+function toNotificationDto(row: NotificationRow) {
+  return {
+    id: String(row.id),
+    type: row.type,
+    actor: row.actor
+      ? {
+          id: String(row.actor.id),
+          displayName: row.actor.profile?.displayName ?? null,
+          avatarUrl: row.actor.profile ? toAvatarUrl(row.actor.profile.avatarMedia) : null
+        }
+      : null,
+    entityId: row.entityId != null ? String(row.entityId) : null,
+    data: (row.data ?? null) as Record<string, string | number | boolean | null> | null,
+    readAt: row.readAt ? row.readAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+export type NotificationDto = ReturnType<typeof toNotificationDto>;
+
+export async function countUnread(userId: bigint) {
+  return prisma.notification.count({ where: { userId, readAt: null } });
+}
+
+/**
+ * Store a notification and push it to the recipient's sockets.
+ * Self-actions, muted types and blocked pairs are dropped. Never throws: a failed
+ * notification must not fail the action that caused it.
+ */
+export async function createNotification(input: NotificationInput): Promise<void> {
+  const actorId = input.actorId ?? null;
+  if (actorId !== null && actorId === input.userId) return;
+
+  try {
+    const muted = await prisma.notificationMute.findUnique({
+      where: { userId_type: { userId: input.userId, type: input.type } },
+      select: { userId: true }
+    });
+    if (muted) return;
+
+    if (actorId !== null) {
+      const blocked = await loadBlockedAmong(input.userId, [actorId]);
+      if (blocked.size) return;
+    }
+
+    const row = await prisma.notification.create({
+      data: {
+        userId: input.userId,
+        type: input.type,
+        actorId,
+        entityId: input.entityId ?? null,
+        data: input.data ?? undefined
+      },
+      select: notificationSelect
+    });
+
+    emitNotification(input.userId, toNotificationDto(row), await countUnread(input.userId));
+  } catch (err) {
+    console.error(`[notifications] Failed to create ${input.type} notification for user ${input.userId}:`, err);
+  }
+}
+
+/**
+ * Push a stored notification to the recipient's own sockets; it names who acted, so it
+ * never goes to anyone watching the recipient.
+ */
+export function emitNotification(userId: bigint, notification: NotificationDto, unreadCount: number) {
+  const event: WsMessage<'server.notification.new'> = {
+    type: 'server.notification.new',
+    data: { notification, unreadCount },
+    ts: Date.now()
+  };
+  notify({ event, targets: [{ kind: 'user', id: String(userId) }] });
+}
+
+export async function listNotifications(
+  userId: bigint,
+  options: { cursorId?: bigint | null; take: number; unreadOnly?: boolean }
+) {
+  const rows = await prisma.notification.findMany({
+    where: { userId, ...(options.unreadOnly ? { readAt: null } : {}) },
+    orderBy: { id: 'desc' },
+    take: options.take,
+    ...(options.cursorId ? { cursor: { id: options.cursorId }, skip: 1 } : {}),
+    select: notificationSelect
+  });
+
+  return {
+    notifications: rows.map(toNotificationDto),
+    nextCursorId: rows.length === options.take ? String(rows[rows.length - 1]!.id) : null,
+    unreadCount: await countUnread(userId)
+  };
+}
+
+/**
+ * Returns false when the notification doesn't exist or belongs to someone else.
+ */
+export async function markNotificationRead(userId: bigint, notificationId: bigint) {
+  const existing = await prisma.notification.findFirst({
+    where: { id: notificationId, userId },
+    select: { id: true, readAt: true }
+  });
+  if (!existing) return false;
+  if (!existing.readAt) {
+    await prisma.notification.update({ where: { id: existing.id }, data: { readAt: new Date() } });
+  }
+  return true;
+}
+
+export async function markAllNotificationsRead(userId: bigint) {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, readAt: null },
+    data: { readAt: new Date() }
+  });
+  return count;
+}
+
+export async function getMutedTypes(userId: bigint): Promise<NotificationType[]> {
+  const rows = await prisma.notificationMute.findMany({ where: { userId }, select: { type: true } });
+  return rows.map((r) => r.type);
+}
+
+export async function setMutedTypes(userId: bigint, types: NotificationType[]) {
+  const unique = [...new Set(types)];
+  await prisma.$transaction([
+    prisma.notificationMute.deleteMany({ where: { userId, type: { notIn: unique } } }),
+    prisma.notificationMute.createMany({
+      data: unique.map((type) => ({ userId, type })),
+      skipDuplicates: true
+    })
+  ]);
+  return unique;
+}
@@ -0,0 +1,65 @@
+import { prisma } from '../../lib/prisma/client.js';
+
+export type PrivacySettings = {
+  hideOnlineStatus: boolean;
+  hideLastSeen: boolean;
+  disableTypingIndicators: boolean;
+  disableReadReceipts: boolean;
+};
+
+export const PRIVACY_SETTING_KEYS: (keyof PrivacySettings)[] = [
+  'hideOnlineStatus',
+  'hideLastSeen',
+  'disableTypingIndicators',
+  'disableReadReceipts'
+];
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  hideOnlineStatus: false,
+  hideLastSeen: false,
+  disableTypingIndicators: false,
+  disableReadReceipts: false
+};
+
+const privacySelect = {
+  hideOnlineStatus: true,
+  hideLastSeen: true,
+  disableTypingIndicators: true,
+  disableReadReceipts: true
+} as const;
+
+type ChangeListener = (userId: bigint) => void;
+const changeListeners = new Set<ChangeListener>();
+
+/**
+ * Subscribe to privacy changes (the WebSocket server uses this to re-announce presence).
+ */
+export function onPrivacyChanged(listener: ChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+export async function getPrivacySettings(userId: bigint): Promise<PrivacySettings> {
+  const row = await prisma.privacySetting.findUnique({ where: { userId }, select: privacySelect });
+  return row ?? { ...DEFAULT_PRIVACY_SETTINGS };
+}
+
+/**
+ * Applies a partial update; keys that are not provided keep their current value.
+ */
+export async function updatePrivacySettings(userId: bigint, patch: Partial<PrivacySettings>) {
+  const saved = await prisma.privacySetting.upsert({
+    where: { userId },
+    update: patch,
+    create: { userId, ...patch },
+    select: privacySelect
+  });
+  for (const listener of changeListeners) {
+    try {
+      listener(userId);
+    } catch (err) {
+      console.error('[privacy] Change listener failed', { error: err });
+    }
+  }
+  return saved;
+}
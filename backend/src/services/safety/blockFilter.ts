@@ -0,0 +1,81 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma/client.js';
+
+/**
+ * Shared block filter.
+ *
+ * A block is symmetric for visibility: once either user blocks the other, neither
+ * should see the other on any surface that lists users or their content. Every
+ * surface goes through one of the helpers below so the rule lives in one place.
+ */
+
+/**
+ * Relation filter for `User` where-clauses (e.g. `user: { deletedAt: null, ...notBlockedWith(me) }`).
+ * Returns an empty filter for anonymous viewers.
+ */
+export function notBlockedWith(viewerId: bigint | null | undefined): Prisma.UserWhereInput {
+  if (!viewerId) return {};
+  return {
+    blocksGot: { none: { blockerId: viewerId } },
+    blocksMade: { none: { blockedId: viewerId } }
+  };
+}
+
+/**
+ * Ids of every user the viewer blocked or was blocked by.
+ * Blocks are sparse, so loading them up front stays cheap.
+ */
+export async function loadBlockedUserIds(viewerId: bigint | null | undefined): Promise<bigint[]> {
+  if (!viewerId) return [];
+
+  const blocks = await prisma.userBlock.findMany({
+    where: {
+      OR: [{ blockerId: viewerId }, { blockedId: viewerId }]
+    },
+    select: {
+      blockerId: true,
+      blockedId: true
+    }
+  });
+
+  return blocks.map(b => (b.blockerId === viewerId ? b.blockedId : b.blockerId));
+}
+
+export async function loadBlockedUserIdSet(viewerId: bigint | null | undefined): Promise<Set<bigint>> {
+  return new Set(await loadBlockedUserIds(viewerId));
+}
+
+/**
+ * Subset of `candidateIds` that have a block with `userId` in either direction.
+ */
+export async function loadBlockedAmong(userId: bigint, candidateIds: bigint[]): Promise<Set<bigint>> {
+  if (!candidateIds.length) return new Set();
+
+  const blocks = await prisma.userBlock.findMany({
+    where: {
+      OR: [
+        { blockerId: userId, blockedId: { in: candidateIds } },
+        { blockerId: { in: candidateIds }, blockedId: userId }
+      ]
+    },
+    select: {
+      blockerId: true,
+      blockedId: true
+    }
+  });
+
+  return new Set(blocks.map(b => (b.blockerId === userId ? b.blockedId : b.blockerId)));
+}
+
+export async function isBlockedBetween(a: bigint, b: bigint): Promise<boolean> {
+  const block = await prisma.userBlock.findFirst({
+    where: {
+      OR: [
+        { blockerId: a, blockedId: b },
+        { blockerId: b, blockedId: a }
+      ]
+    },
+    select: { id: true }
+  });
+  return block !== null;
+}
@@ -1,5 +1,6 @@
 import { prisma } from '../../lib/prisma/client.js';
 import { Prisma } from '@prisma/client';
+import { loadBlockedUserIdSet } from '../safety/blockFilter.js';
 
 /**
  * ARCHITECTURAL RULE: Search reads from exactly one authoritative surface.
@@ -89,7 +90,9 @@ export class ProfileSearchQueryBuilder {
     const baseSearchable = await prisma.searchableUser.findMany({
       where: {
         isVisible: true,
-        isDeleted: false
+        isDeleted: false,
+        // Checked live so a suspension takes effect before the next index run
+        user: { suspendedAt: null }
       },
       select: { userId: true }
     });
@@ -97,18 +100,7 @@ export class ProfileSearchQueryBuilder {
     
     // Step 2: Apply block filtering at query time (viewer-specific, sparse)
     if (this.viewerId) {
-      const blocks = await prisma.userBlock.findMany({
-        where: {
-          OR: [{ blockerId: this.viewerId }, { blockedId: this.viewerId }]
-        },
-        select: {
-          blockerId: true,
-          blockedId: true
-        }
-      });
-      const blockedUserIds = new Set(
-        blocks.map(b => b.blockerId === this.viewerId! ? b.blockedId : b.blockerId)
-      );
+      const blockedUserIds = await loadBlockedUserIdSet(this.viewerId);
       // Exclude blocked users (blocks are sparse, this stays cheap)
       this.baseUserIds = this.baseUserIds.filter(id => !blockedUserIds.has(id));
     }
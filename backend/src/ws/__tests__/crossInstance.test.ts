@@ -0,0 +1,183 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+import type { WebSocketServer } from 'ws';
+import type { ServerEventType, WsMessage } from '@app/shared';
+import { signAccessToken } from '../../lib/auth/jwt.js';
+import { createWsServer } from '../index.js';
+import { notify } from '../notify.js';
+import { createMemoryBus, createMemoryHub, type RealtimeBus } from '../bus/index.js';
+import { createPrivacyCache } from '../privacy.js';
+import { DEFAULT_PRIVACY_SETTINGS } from '../../services/privacy/privacySettings.js';
+
+process.env.JWT_ACCESS_SECRET ??= 'test-access-secret';
+
+type Instance = { server: Server; wss: WebSocketServer; bus: RealtimeBus; port: number };
+
+async function startInstance(hub: ReturnType<typeof createMemoryHub>): Promise<Instance> {
+  const server = createServer();
+  const bus = createMemoryBus(hub);
+  const privacy = createPrivacyCache(async () => ({ ...DEFAULT_PRIVACY_SETTINGS }));
+  const wss = createWsServer(server, { bus, privacy });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, wss, bus, port: (server.address() as AddressInfo).port };
+}
+
+async function stopInstance(instance: Instance) {
+  for (const client of instance.wss.clients) client.terminate();
+  await new Promise<void>((resolve) => instance.wss.close(() => resolve()));
+  await new Promise<void>((resolve) => instance.server.close(() => resolve()));
+  await instance.bus.close();
+}
+
+type Client = {
+  socket: WebSocket;
+  waitFor<T extends ServerEventType>(
+    type: T,
+    match?: (msg: WsMessage<T>) => boolean,
+    timeoutMs?: number
+  ): Promise<WsMessage<T>>;
+  received<T extends ServerEventType>(type: T): WsMessage<T>[];
+  close(): Promise<void>;
+};
+
+// Resolves once the server has registered the socket (it announces the user's own presence)
+async function connect(port: number, userId: string): Promise<Client> {
+  const token = signAccessToken({ sub: userId });
+  const socket = new WebSocket(`ws://127.0.0.1:${port}/ws`, { headers: { authorization: `Bearer ${token}` } });
+  const messages: WsMessage<ServerEventType>[] = [];
+  const waiters = new Set<() => void>();
+  socket.on('message', (data) => {
+    messages.push(JSON.parse(data.toString()));
+    for (const wake of waiters) wake();
+  });
+
+  const client: Client = {
+    socket,
+    waitFor(type, match = () => true, timeoutMs = 2000) {
+      return new Promise((resolve, reject) => {
+        let seen = 0;
+        const check = () => {
+          for (; seen < messages.length; seen++) {
+            const msg = messages[seen] as WsMessage<typeof type>;
+            if (msg.type === type && match(msg)) {
+              cleanup();
+              resolve(msg);
+              return;
+            }
+          }
+        };
+        const timer = setTimeout(() => {
+          cleanup();
+          reject(new Error(`Timed out waiting for ${type}`));
+        }, timeoutMs);
+        const cleanup = () => {
+          clearTimeout(timer);
+          waiters.delete(check);
+        };
+        waiters.add(check);
+        check();
+      });
+    },
+    received(type) {
+      return messages.filter((m) => m.type === type) as WsMessage<typeof type>[];
+    },
+    close() {
+      return new Promise((resolve) => {
+        if (socket.readyState === WebSocket.CLOSED) return resolve();
+        socket.once('close', () => resolve());
+        socket.close();
+      });
+    }
+  };
+
+  await client.waitFor('server.presence.update', (msg) => msg.data.userId === userId);
+  return client;
+}
+
+function matchClosed(matchId: string): WsMessage<'server.match.closed'> {
+  return {
+    type: 'server.match.closed',
+    data: { matchId, conversationId: null, state: 'CLOSED', closedBy: '1', closedAt: new Date().toISOString() },
+    ts: Date.now()
+  };
+}
+
+function presenceOf(userId: string) {
+  return (msg: WsMessage<'server.presence.update'>) => msg.data.userId === userId;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('WS bus - events published on one instance reach sockets on another', async () => {
+  const hub = createMemoryHub();
+  const first = await startInstance(hub);
+  const second = await startInstance(hub);
+  const clients: Client[] = [];
+  try {
+    const recipient = await connect(second.port, '910000001');
+    clients.push(recipient);
+
+    first.bus.publish('notify', {
+      event: matchClosed('1'),
+      targets: [{ kind: 'user', id: '910000001' }]
+    });
+    const closed = await recipient.waitFor('server.match.closed');
+    assert.strictEqual(closed.data.matchId, '1');
+
+    notify({
+      event: matchClosed('3'),
+      targets: [{ kind: 'user', id: '910000001' }]
+    });
+    await recipient.waitFor('server.match.closed', (msg) => msg.data.matchId === '3');
+    // Delivered once even though both instances saw the event
+    await sleep(50);
+    assert.strictEqual(recipient.received('server.match.closed').length, 2);
+  } finally {
+    await Promise.all(clients.map((c) => c.close()));
+    await stopInstance(first);
+    await stopInstance(second);
+  }
+});
+
+test('WS bus - presence is aggregated across instances', async () => {
+  const hub = createMemoryHub();
+  const first = await startInstance(hub);
+  const second = await startInstance(hub);
+  const clients: Client[] = [];
+  const userId = '910000002';
+  try {
+    const watcher = await connect(first.port, '910000003');
+    clients.push(watcher);
+    watcher.socket.send(
+      JSON.stringify({ type: 'client.system.subscribe', data: { topics: [{ kind: 'presence', id: userId }] }, ts: Date.now() })
+    );
+    await sleep(50);
+
+    const onSecond = await connect(second.port, userId);
+    clients.push(onSecond);
+    const online = await watcher.waitFor('server.presence.update', presenceOf(userId));
+    assert.strictEqual(online.data.status, 'online');
+
+    const onFirst = await connect(first.port, userId);
+    clients.push(onFirst);
+
+    // Still connected on the first instance, so leaving the second one is not an offline
+    await onSecond.close();
+    await sleep(100);
+    assert.strictEqual(watcher.received('server.presence.update').filter(presenceOf(userId)).length, 1);
+
+    await onFirst.close();
+    const offline = await watcher.waitFor(
+      'server.presence.update',
+      (msg) => presenceOf(userId)(msg) && msg.data.status === 'offline'
+    );
+    assert.ok(Date.parse(offline.data.lastSeenAt ?? '') > 0);
+  } finally {
+    await Promise.all(clients.map((c) => c.close()));
+    await stopInstance(first);
+    await stopInstance(second);
+  }
+});
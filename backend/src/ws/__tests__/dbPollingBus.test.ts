@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { randomUUID } from 'node:crypto';
+import { prisma } from '../../lib/prisma/client.js';
+import { createDbPollingBus } from '../bus/dbPollingBus.js';
+import type { RealtimeBus } from '../bus/index.js';
+
+const POLL_MS = 20;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type Received = { userId: string; origin: string };
+
+function listen(bus: RealtimeBus) {
+  const received: Received[] = [];
+  bus.subscribe('privacy', (message, origin) => received.push({ userId: message.userId, origin }));
+  return received;
+}
+
+async function waitForCount(received: Received[], count: number, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (received.length < count && Date.now() < deadline) await sleep(POLL_MS);
+}
+
+// Rows written the way another instance would write them
+function insertFromOtherInstance(origin: string, userId: string, createdAt?: Date) {
+  return prisma.realtimeEvent.create({
+    data: { channel: 'privacy', origin, payload: { userId }, ...(createdAt ? { createdAt } : {}) }
+  });
+}
+
+async function cleanup(buses: RealtimeBus[], origins: string[]) {
+  await Promise.all(buses.map((bus) => bus.close()));
+  await prisma.realtimeEvent.deleteMany({
+    where: { origin: { in: [...origins, ...buses.map((bus) => bus.instanceId)] } }
+  });
+}
+
+test('DB bus - starts at the tail and delivers later rows once, in id order', async () => {
+  const otherOrigin = `test-${randomUUID()}`;
+  await insertFromOtherInstance(otherOrigin, 'before-start');
+  const bus = createDbPollingBus({ pollIntervalMs: POLL_MS });
+  const received = listen(bus);
+  try {
+    // Let the first poll place the cursor
+    await sleep(POLL_MS * 5);
+    assert.deepStrictEqual(received, []);
+
+    for (const userId of ['1', '2', '3']) await insertFromOtherInstance(otherOrigin, userId);
+    await waitForCount(received, 3);
+    // Later polls continue from the cursor instead of re-reading rows
+    await sleep(POLL_MS * 5);
+
+    assert.deepStrictEqual(received, [
+      { userId: '1', origin: otherOrigin },
+      { userId: '2', origin: otherOrigin },
+      { userId: '3', origin: otherOrigin }
+    ]);
+  } finally {
+    await cleanup([bus], [otherOrigin]);
+  }
+});
+
+test('DB bus - an instance skips its own rows but other instances receive them', async () => {
+  const first = createDbPollingBus({ pollIntervalMs: POLL_MS });
+  const second = createDbPollingBus({ pollIntervalMs: POLL_MS });
+  const onFirst = listen(first);
+  const onSecond = listen(second);
+  try {
+    await sleep(POLL_MS * 5);
+
+    first.publish('privacy', { userId: '42' });
+    // Local subscribers are called synchronously
+    assert.deepStrictEqual(onFirst, [{ userId: '42', origin: first.instanceId }]);
+
+    await waitForCount(onSecond, 1);
+    await sleep(POLL_MS * 5);
+
+    assert.deepStrictEqual(onSecond, [{ userId: '42', origin: first.instanceId }]);
+    // Reading its own row back does not deliver it a second time
+    assert.strictEqual(onFirst.length, 1);
+    assert.strictEqual(await prisma.realtimeEvent.count({ where: { origin: first.instanceId } }), 1);
+  } finally {
+    await cleanup([first, second], []);
+  }
+});
+
+test('DB bus - prunes rows past the retention window', async () => {
+  const otherOrigin = `test-${randomUUID()}`;
+  const old = await insertFromOtherInstance(otherOrigin, 'old', new Date(Date.now() - 5 * 60 * 1000));
+  const recent = await insertFromOtherInstance(otherOrigin, 'recent');
+  const bus = createDbPollingBus({ pollIntervalMs: POLL_MS });
+  try {
+    const deadline = Date.now() + 2000;
+    while (Date.now() < deadline && (await prisma.realtimeEvent.count({ where: { id: old.id } })) > 0) {
+      await sleep(POLL_MS);
+    }
+
+    assert.strictEqual(await prisma.realtimeEvent.count({ where: { id: old.id } }), 0);
+    assert.strictEqual(await prisma.realtimeEvent.count({ where: { id: recent.id } }), 1);
+  } finally {
+    await cleanup([bus], [otherOrigin]);
+  }
+});
+
+test('DB bus - close stops polling and drops subscribers', async () => {
+  const otherOrigin = `test-${randomUUID()}`;
+  const bus = createDbPollingBus({ pollIntervalMs: POLL_MS });
+  const received = listen(bus);
+  try {
+    await sleep(POLL_MS * 5);
+    await bus.close();
+
+    await insertFromOtherInstance(otherOrigin, 'after-close');
+    await sleep(POLL_MS * 5);
+    assert.deepStrictEqual(received, []);
+  } finally {
+    await cleanup([bus], [otherOrigin]);
+  }
+});
@@ -0,0 +1,282 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+import type { WebSocketServer } from 'ws';
+import type { ServerEventType, WsMessage } from '@app/shared';
+import { signAccessToken } from '../../lib/auth/jwt.js';
+import { createWsServer } from '../index.js';
+import { createMemoryBus, createMemoryHub, type RealtimeBus } from '../bus/index.js';
+import { createPrivacyCache } from '../privacy.js';
+import { DEFAULT_PRIVACY_SETTINGS, type PrivacySettings } from '../../services/privacy/privacySettings.js';
+import { emitReadWatermark } from '../../services/messaging/readWatermark.js';
+import { emitNotification } from '../../services/notifications/notificationService.js';
+import { notify } from '../notify.js';
+
+process.env.JWT_ACCESS_SECRET ??= 'test-access-secret';
+
+type Instance = { server: Server; wss: WebSocketServer; bus: RealtimeBus; port: number };
+
+// Stands in for the PrivacySetting table
+const settings = new Map<string, Partial<PrivacySettings>>();
+
+async function startInstance(hub: ReturnType<typeof createMemoryHub>): Promise<Instance> {
+  const server = createServer();
+  const bus = createMemoryBus(hub);
+  const privacy = createPrivacyCache(async (userId) => ({ ...DEFAULT_PRIVACY_SETTINGS, ...settings.get(String(userId)) }));
+  const wss = createWsServer(server, { bus, privacy });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, wss, bus, port: (server.address() as AddressInfo).port };
+}
+
+async function stopInstance(instance: Instance) {
+  for (const client of instance.wss.clients) client.terminate();
+  await new Promise<void>((resolve) => instance.wss.close(() => resolve()));
+  await new Promise<void>((resolve) => instance.server.close(() => resolve()));
+  await instance.bus.close();
+}
+
+type Client = {
+  socket: WebSocket;
+  waitFor<T extends ServerEventType>(
+    type: T,
+    match?: (msg: WsMessage<T>) => boolean,
+    timeoutMs?: number
+  ): Promise<WsMessage<T>>;
+  received<T extends ServerEventType>(type: T): WsMessage<T>[];
+  close(): Promise<void>;
+};
+
+// Resolves once the server has registered the socket (it announces the user's own presence)
+async function connect(port: number, userId: string): Promise<Client> {
+  const token = signAccessToken({ sub: userId });
+  const socket = new WebSocket(`ws://127.0.0.1:${port}/ws`, { headers: { authorization: `Bearer ${token}` } });
+  const messages: WsMessage<ServerEventType>[] = [];
+  const waiters = new Set<() => void>();
+  socket.on('message', (data) => {
+    messages.push(JSON.parse(data.toString()));
+    for (const wake of waiters) wake();
+  });
+
+  const client: Client = {
+    socket,
+    waitFor(type, match = () => true, timeoutMs = 2000) {
+      return new Promise((resolve, reject) => {
+        let seen = 0;
+        const check = () => {
+          for (; seen < messages.length; seen++) {
+            const msg = messages[seen] as WsMessage<typeof type>;
+            if (msg.type === type && match(msg)) {
+              cleanup();
+              resolve(msg);
+              return;
+            }
+          }
+        };
+        const timer = setTimeout(() => {
+          cleanup();
+          reject(new Error(`Timed out waiting for ${type}`));
+        }, timeoutMs);
+        const cleanup = () => {
+          clearTimeout(timer);
+          waiters.delete(check);
+        };
+        waiters.add(check);
+        check();
+      });
+    },
+    received(type) {
+      return messages.filter((m) => m.type === type) as WsMessage<typeof type>[];
+    },
+    close() {
+      return new Promise((resolve) => {
+        if (socket.readyState === WebSocket.CLOSED) return resolve();
+        socket.once('close', () => resolve());
+        socket.close();
+      });
+    }
+  };
+
+  await client.waitFor('server.presence.update', (msg) => msg.data.userId === userId);
+  return client;
+}
+
+function presenceOf(userId: string) {
+  return (msg: WsMessage<'server.presence.update'>) => msg.data.userId === userId;
+}
+
+async function watch(port: number, watcherId: string, userId: string, kinds: Array<'presence' | 'user'> = ['presence']) {
+  const watcher = await connect(port, watcherId);
+  const topics = kinds.map((kind) => ({ kind, id: userId }));
+  watcher.socket.send(JSON.stringify({ type: 'client.system.subscribe', data: { topics }, ts: Date.now() }));
+  await sleep(50);
+  return watcher;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('WS privacy - hidden online status is never sent to watchers', async () => {
+  const instance = await startInstance(createMemoryHub());
+  const clients: Client[] = [];
+  const userId = '920000001';
+  settings.set(userId, { hideOnlineStatus: true });
+  try {
+    const watcher = await watch(instance.port, '920000002', userId);
+    clients.push(watcher);
+
+    // The user still sees their own status
+    const self = await connect(instance.port, userId);
+    clients.push(self);
+    await sleep(100);
+    assert.strictEqual(watcher.received('server.presence.update').filter(presenceOf(userId)).length, 0);
+
+    // Going offline is the last-seen time, which stays visible
+    await self.close();
+    const offline = await watcher.waitFor('server.presence.update', presenceOf(userId));
+    assert.strictEqual(offline.data.status, 'offline');
+    assert.ok(offline.data.lastSeenAt);
+  } finally {
+    settings.delete(userId);
+    await Promise.all(clients.map((c) => c.close()));
+    await stopInstance(instance);
+  }
+});
+
+test('WS privacy - hidden last seen strips the timestamp', async () => {
+  const instance = await startInstance(createMemoryHub());
+  const clients: Client[] = [];
+  const userId = '920000003';
+  settings.set(userId, { hideLastSeen: true });
+  try {
+    const watcher = await watch(instance.port, '920000004', userId);
+    clients.push(watcher);
+
+    const self = await connect(instance.port, userId);
+    clients.push(self);
+    const online = await watcher.waitFor('server.presence.update', presenceOf(userId));
+    assert.strictEqual(online.data.status, 'online');
+    assert.strictEqual(online.data.lastSeenAt, undefined);
+
+    await self.close();
+    const offline = await watcher.waitFor(
+      'server.presence.update',
+      (msg) => presenceOf(userId)(msg) && msg.data.status === 'offline'
+    );
+    assert.strictEqual(offline.data.lastSeenAt, undefined);
+  } finally {
+    settings.delete(userId);
+    await Promise.all(clients.map((c) => c.close()));
+    await stopInstance(instance);
+  }
+});
+
+test('WS privacy - hiding online status while connected makes the user appear offline', async () => {
+  const instance = await startInstance(createMemoryHub());
+  const clients: Client[] = [];
+  const userId = '920000005';
+  try {
+    const watcher = await watch(instance.port, '920000006', userId);
+    clients.push(watcher);
+    clients.push(await connect(instance.port, userId));
+    await watcher.waitFor('server.presence.update', presenceOf(userId));
+
+    settings.set(userId, { hideOnlineStatus: true });
+    instance.bus.publish('privacy', { userId });
+    const hidden = await watcher.waitFor(
+      'server.presence.update',
+      (msg) => presenceOf(userId)(msg) && msg.data.status === 'offline'
+    );
+    assert.strictEqual(hidden.data.lastSeenAt, undefined);
+  } finally {
+    settings.delete(userId);
+    await Promise.all(clients.map((c) => c.close()));
+    await stopInstance(instance);
+  }
+});
+
+test('WS privacy - a hidden read watermark reaches only the reader, not users watching them', async () => {
+  const instance = await startInstance(createMemoryHub());
+  const clients: Client[] = [];
+  const readerId = '920000007';
+  const partnerId = '920000008';
+  try {
+    // The partner has the reader's profile open and also asks for their user topic
+    const partner = await watch(instance.port, partnerId, readerId, ['presence', 'user']);
+    clients.push(partner);
+    const reader = await connect(instance.port, readerId);
+    clients.push(reader);
+
+    const conversation = { id: 1n, userAId: BigInt(readerId), userBId: BigInt(partnerId) };
+    emitReadWatermark(conversation, BigInt(readerId), 10n, new Date(), { shareWithOther: false });
+    await reader.waitFor('server.messenger.read_watermark');
+    await sleep(50);
+    assert.strictEqual(partner.received('server.messenger.read_watermark').length, 0);
+
+    // Presence still reaches watchers
+    assert.ok(partner.received('server.presence.update').some(presenceOf(readerId)));
+  } finally {
+    await Promise.all(clients.map((c) => c.close()));
+    await stopInstance(instance);
+  }
+});
+
+test('WS privacy - typing sent to a user is not seen by others watching that user', async () => {
+  const instance = await startInstance(createMemoryHub());
+  const clients: Client[] = [];
+  const recipientId = '920000009';
+  try {
+    const watcher = await watch(instance.port, '920000010', recipientId, ['presence', 'user']);
+    clients.push(watcher);
+    const recipient = await connect(instance.port, recipientId);
+    clients.push(recipient);
+
+    notify({
+      event: {
+        type: 'server.messenger.typing',
+        data: { conversationId: '1', userId: '920000011', isTyping: true },
+        ts: Date.now()
+      },
+      targets: [{ kind: 'user', id: recipientId }]
+    });
+    await recipient.waitFor('server.messenger.typing');
+    await sleep(50);
+    assert.strictEqual(watcher.received('server.messenger.typing').length, 0);
+  } finally {
+    await Promise.all(clients.map((c) => c.close()));
+    await stopInstance(instance);
+  }
+});
+
+test('WS privacy - notifications reach only their recipient, not users watching them', async () => {
+  const instance = await startInstance(createMemoryHub());
+  const clients: Client[] = [];
+  const recipientId = '920000012';
+  try {
+    const watcher = await watch(instance.port, '920000013', recipientId, ['presence', 'user']);
+    clients.push(watcher);
+    const recipient = await connect(instance.port, recipientId);
+    clients.push(recipient);
+
+    emitNotification(
+      BigInt(recipientId),
+      {
+        id: '1',
+        type: 'POST_LIKE',
+        actor: { id: '920000014', displayName: 'Liker', avatarUrl: null },
+        entityId: '5',
+        data: null,
+        readAt: null,
+        createdAt: new Date().toISOString()
+      },
+      1
+    );
+    const received = await recipient.waitFor('server.notification.new');
+    assert.strictEqual(received.data.notification.actor?.id, '920000014');
+    await sleep(50);
+    assert.strictEqual(watcher.received('server.notification.new').length, 0);
+  } finally {
+    await Promise.all(clients.map((c) => c.close()));
+    await stopInstance(instance);
+  }
+});
@@ -0,0 +1,89 @@
+import { randomUUID } from 'node:crypto'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '../../lib/prisma/client.js'
+import { createHandlerSet } from './handlers.js'
+import type { BusChannel, RealtimeBus } from './types.js'
+
+const DEFAULT_POLL_INTERVAL_MS = 250
+const RETENTION_MS = 60 * 1000
+const PRUNE_EVERY_MS = 30 * 1000
+const BATCH_SIZE = 500
+
+export type DbPollingBusOptions = {
+  pollIntervalMs?: number
+}
+
+/**
+ * Cross-instance bus backed by the RealtimeEvent table. Each instance appends what it
+ * publishes and tails rows written by the others. Delivery is best-effort: a row that
+ * commits after a later id has already been read is skipped, which is acceptable for
+ * live updates that clients resync on reconnect anyway.
+ */
+export function createDbPollingBus(options: DbPollingBusOptions = {}): RealtimeBus {
+  const instanceId = randomUUID()
+  const handlers = createHandlerSet()
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+
+  let cursor: bigint | null = null
+  let lastPrunedAt = 0
+  let closed = false
+  let polling: Promise<void> | null = null
+
+  async function poll() {
+    // Start from the tail: events published before this instance started are not replayed
+    if (cursor === null) {
+      const latest = await prisma.realtimeEvent.findFirst({ orderBy: { id: 'desc' }, select: { id: true } })
+      cursor = latest?.id ?? 0n
+    }
+
+    for (;;) {
+      const after: bigint = cursor
+      const rows = await prisma.realtimeEvent.findMany({
+        where: { id: { gt: after } },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        select: { id: true, channel: true, origin: true, payload: true }
+      })
+      for (const row of rows) {
+        cursor = row.id
+        if (row.origin === instanceId) continue
+        handlers.dispatch(row.channel as BusChannel, row.payload as never, row.origin)
+      }
+      if (rows.length < BATCH_SIZE || closed) break
+    }
+
+    const now = Date.now()
+    if (now - lastPrunedAt >= PRUNE_EVERY_MS) {
+      lastPrunedAt = now
+      await prisma.realtimeEvent.deleteMany({ where: { createdAt: { lt: new Date(now - RETENTION_MS) } } })
+    }
+  }
+
+  const timer = setInterval(() => {
+    if (polling || closed) return
+    polling = poll()
+      .catch((err) => console.error('[ws/bus] Poll failed', err))
+      .finally(() => {
+        polling = null
+      })
+  }, pollIntervalMs)
+
+  return {
+    instanceId,
+    publish(channel, message) {
+      handlers.dispatch(channel, message, instanceId)
+      prisma.realtimeEvent
+        .create({
+          data: { channel, origin: instanceId, payload: message as unknown as Prisma.InputJsonValue }
+        })
+        .catch((err) => console.error(`[ws/bus] Failed to publish ${channel}`, err))
+    },
+    subscribe: (channel, handler) => handlers.add(channel, handler),
+    async close() {
+      closed = true
+      clearInterval(timer)
+      await polling
+      handlers.clear()
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import type { BusChannel, BusHandler, BusMessages } from './types.js'
+
+export function createHandlerSet() {
+  const handlers = new Map<BusChannel, Set<BusHandler<BusChannel>>>()
+
+  return {
+    add<C extends BusChannel>(channel: C, handler: BusHandler<C>) {
+      const set = handlers.get(channel) ?? new Set()
+      set.add(handler as BusHandler<BusChannel>)
+      handlers.set(channel, set)
+      return () => {
+        set.delete(handler as BusHandler<BusChannel>)
+      }
+    },
+    dispatch<C extends BusChannel>(channel: C, message: BusMessages[C], origin: string) {
+      for (const handler of handlers.get(channel) ?? []) {
+        try {
+          handler(message, origin)
+        } catch (err) {
+          console.error(`[ws/bus] ${channel} handler failed`, err)
+        }
+      }
+    },
+    clear() {
+      handlers.clear()
+    }
+  }
+}
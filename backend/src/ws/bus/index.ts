@@ -0,0 +1,23 @@
+import { createDbPollingBus } from './dbPollingBus.js'
+import { createMemoryBus } from './memoryBus.js'
+import type { RealtimeBus } from './types.js'
+
+export type { BusChannel, BusMessages, PresenceSnapshot, RealtimeBus } from './types.js'
+export { createMemoryBus, createMemoryHub } from './memoryBus.js'
+export { createDbPollingBus } from './dbPollingBus.js'
+
+/**
+ * REALTIME_BUS=memory (default) keeps fan-out inside this process; REALTIME_BUS=db
+ * shares it with every instance pointed at the same database.
+ */
+export function createRealtimeBus(): RealtimeBus {
+  const kind = process.env.REALTIME_BUS ?? 'memory'
+  if (kind === 'db') {
+    const pollIntervalMs = Number(process.env.REALTIME_BUS_POLL_MS)
+    return createDbPollingBus({ pollIntervalMs: pollIntervalMs > 0 ? pollIntervalMs : undefined })
+  }
+  if (kind !== 'memory') {
+    console.warn(`[ws/bus] Unknown REALTIME_BUS "${kind}", falling back to memory`)
+  }
+  return createMemoryBus()
+}
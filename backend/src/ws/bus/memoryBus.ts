@@ -0,0 +1,47 @@
+import { randomUUID } from 'node:crypto'
+import { createHandlerSet } from './handlers.js'
+import type { BusChannel, BusMessages, RealtimeBus } from './types.js'
+
+type MemoryPeer = {
+  instanceId: string
+  receive<C extends BusChannel>(channel: C, message: BusMessages[C], origin: string): void
+}
+
+/**
+ * A set of in-process buses that see each other's messages. Each bus gets its own
+ * hub by default (a single instance); tests share one hub between several servers
+ * to stand in for Redis or the database.
+ */
+export type MemoryHub = Set<MemoryPeer>
+
+export function createMemoryHub(): MemoryHub {
+  return new Set()
+}
+
+export function createMemoryBus(hub: MemoryHub = createMemoryHub()): RealtimeBus {
+  const instanceId = randomUUID()
+  const handlers = createHandlerSet()
+  const peer: MemoryPeer = {
+    instanceId,
+    receive: (channel, message, origin) => handlers.dispatch(channel, message, origin)
+  }
+  hub.add(peer)
+
+  return {
+    instanceId,
+    publish(channel, message) {
+      handlers.dispatch(channel, message, instanceId)
+      // Round-trip through JSON so remote delivery sees what a real transport would
+      const copy = JSON.stringify(message)
+      for (const other of hub) {
+        if (other === peer) continue
+        setImmediate(() => other.receive(channel, JSON.parse(copy), instanceId))
+      }
+    },
+    subscribe: (channel, handler) => handlers.add(channel, handler),
+    async close() {
+      hub.delete(peer)
+      handlers.clear()
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import type { WsPresenceStatus } from '@app/shared'
+import type { WsNotifyPayload } from '../notify.js'
+
+export type PresenceSnapshot = {
+  userId: string
+  sockets: number
+  status: WsPresenceStatus
+  lastSeenAt: number
+}
+
+export type BusMessages = {
+  // Events for sockets, fanned out to every instance
+  notify: WsNotifyPayload
+  // Per-instance presence; `full` replaces everything previously heard from that instance
+  presence: { full: boolean; users: PresenceSnapshot[] }
+  // Revoked auth sessions whose sockets must be closed wherever they are connected
+  sessions: { sessionIds: string[] }
+  // A user changed their privacy settings; cached copies must be dropped
+  privacy: { userId: string }
+}
+
+export type BusChannel = keyof BusMessages
+
+export type BusHandler<C extends BusChannel> = (message: BusMessages[C], origin: string) => void
+
+/**
+ * Pub/sub between backend instances. `publish` delivers to this instance's own
+ * subscribers synchronously and to every other instance asynchronously.
+ */
+export type RealtimeBus = {
+  instanceId: string
+  publish<C extends BusChannel>(channel: C, message: BusMessages[C]): void
+  subscribe<C extends BusChannel>(channel: C, handler: BusHandler<C>): () => void
+  close(): Promise<void>
+}
@@ -1,8 +1,35 @@
+import type { WsMessage } from '@app/shared'
+import { prisma } from '../../lib/prisma/client.js'
+import { notify } from '../notify.js'
 import type { WsRouter } from '../router.js'
-import { recordActivity } from './presence.js'
+import type { PrivacyCache } from '../privacy.js'
+import type { PresenceTracker } from './presence.js'
 
-export function registerHandlers(router: WsRouter) {
-  router.on('client.messenger.typing', (ctx) => {
-    recordActivity(ctx.userId)
+export function registerHandlers(router: WsRouter, presence: PresenceTracker, privacy: PrivacyCache) {
+  router.on('client.messenger.typing', async (ctx, msg) => {
+    presence.recordActivity(ctx.userId)
+
+    const conversationId = msg.data?.conversationId
+    if (typeof conversationId !== 'string' || !/^\d+$/.test(conversationId)) return
+
+    // Users who turned typing indicators off never have them relayed
+    const settings = await privacy.get(ctx.userId).catch(() => null)
+    if (!settings || settings.disableTypingIndicators) return
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: BigInt(conversationId) },
+      select: { userAId: true, userBId: true, match: { select: { state: true } } }
+    })
+    const me = BigInt(ctx.userId)
+    if (!conversation || (conversation.userAId !== me && conversation.userBId !== me)) return
+    if (conversation.match && conversation.match.state !== 'ACTIVE') return
+    const otherUserId = conversation.userAId === me ? conversation.userBId : conversation.userAId
+
+    const event: WsMessage<'server.messenger.typing'> = {
+      type: 'server.messenger.typing',
+      data: { conversationId, userId: ctx.userId, isTyping: msg.data.isTyping === true },
+      ts: Date.now()
+    }
+    notify({ event, targets: [{ kind: 'user', id: String(otherUserId) }] })
   })
 }
@@ -1,8 +1,15 @@
 import type WebSocket from 'ws'
-import type { WsPresenceStatus } from '@app/shared'
+import type { WsEvents, WsPresenceStatus } from '@app/shared'
+import type { PrivacySettings } from '../../services/privacy/privacySettings.js'
 import type { WsRouter } from '../router.js'
+import type { BusMessages, PresenceSnapshot } from '../bus/index.js'
 
 const AWAY_AFTER_MS = 5 * 60 * 1000
+// Instances republish a full snapshot every heartbeat; one that stays silent for
+// three of them is assumed gone and its users stop counting as connected
+export const REMOTE_PRESENCE_TTL_MS = 3 * 25000
+
+const STATUS_RANK: Record<WsPresenceStatus, number> = { offline: 0, away: 1, online: 2 }
 
 type PresenceEntry = {
   sockets: Set<WebSocket>
@@ -10,71 +17,154 @@ type PresenceEntry = {
   lastSeenAt: number
 }
 
-const presence = new Map<string, PresenceEntry>()
+type RemoteInstance = {
+  users: Map<string, PresenceSnapshot>
+  receivedAt: number
+}
+
+export type PresenceTracker = ReturnType<typeof createPresenceTracker>
+
+type PresenceUpdate = WsEvents['server.presence.update']
+
+/**
+ * What other users may see of a presence change, or null when they should hear nothing.
+ * With online status hidden only going offline is shared (that is the last-seen time);
+ * with last seen hidden the timestamp is dropped.
+ */
+export function toPublicPresence(
+  update: PresenceUpdate,
+  privacy: Pick<PrivacySettings, 'hideOnlineStatus' | 'hideLastSeen'>
+): PresenceUpdate | null {
+  if (privacy.hideOnlineStatus && update.status !== 'offline') return null
+  if (privacy.hideLastSeen) return { userId: update.userId, status: update.status }
+  return update
+}
 
 export function registerHandlers(_router: WsRouter) {
   return
 }
 
-export function onConnect(userId: string, socket: WebSocket) {
-  const now = Date.now()
-  const entry = presence.get(userId) ?? {
-    sockets: new Set<WebSocket>(),
-    status: 'online' as WsPresenceStatus,
-    lastSeenAt: now
+/**
+ * Presence for one server instance. Local sockets are tracked here; other instances'
+ * users arrive through `applyRemote`, and `aggregate` combines both. `onLocalChange`
+ * fires whenever a local status changes so the caller can publish it.
+ */
+export function createPresenceTracker(onLocalChange: (userIds: string[]) => void) {
+  const presence = new Map<string, PresenceEntry>()
+  const remote = new Map<string, RemoteInstance>()
+  // Kept after a remote user disconnects so offline updates still carry a last-seen time
+  const remoteLastSeen = new Map<string, number>()
+
+  function setStatus(userId: string, entry: PresenceEntry, status: WsPresenceStatus) {
+    if (entry.status === status) return
+    entry.status = status
+    onLocalChange([userId])
   }
 
-  entry.sockets.add(socket)
-  entry.status = 'online'
-  entry.lastSeenAt = now
-  presence.set(userId, entry)
-  return entry
-}
+  return {
+    onConnect(userId: string, socket: WebSocket) {
+      const now = Date.now()
+      const entry = presence.get(userId) ?? {
+        sockets: new Set<WebSocket>(),
+        status: 'offline' as WsPresenceStatus,
+        lastSeenAt: now
+      }
 
-export function onDisconnect(userId: string, socket: WebSocket) {
-  const entry = presence.get(userId)
-  if (!entry) return null
-  entry.sockets.delete(socket)
-  entry.lastSeenAt = Date.now()
-  if (entry.sockets.size === 0) {
-    entry.status = 'offline'
-  }
-  return entry
-}
+      entry.sockets.add(socket)
+      entry.lastSeenAt = now
+      presence.set(userId, entry)
+      setStatus(userId, entry, 'online')
+      return entry
+    },
 
-export function recordActivity(userId: string) {
-  const entry = presence.get(userId)
-  if (!entry) return null
-  entry.lastSeenAt = Date.now()
-  if (entry.sockets.size > 0 && entry.status === 'away') {
-    entry.status = 'online'
-  }
-  return entry
-}
+    onDisconnect(userId: string, socket: WebSocket) {
+      const entry = presence.get(userId)
+      if (!entry) return null
+      entry.sockets.delete(socket)
+      entry.lastSeenAt = Date.now()
+      if (entry.sockets.size === 0) {
+        setStatus(userId, entry, 'offline')
+      }
+      return entry
+    },
+
+    recordActivity(userId: string) {
+      const entry = presence.get(userId)
+      if (!entry) return null
+      entry.lastSeenAt = Date.now()
+      if (entry.sockets.size > 0 && entry.status === 'away') {
+        setStatus(userId, entry, 'online')
+      }
+      return entry
+    },
+
+    tick(now = Date.now()) {
+      for (const [userId, entry] of presence.entries()) {
+        if (entry.sockets.size === 0 && entry.status !== 'offline') {
+          setStatus(userId, entry, 'offline')
+          continue
+        }
+        if (entry.sockets.size > 0 && entry.status === 'online' && now - entry.lastSeenAt > AWAY_AFTER_MS) {
+          setStatus(userId, entry, 'away')
+        }
+      }
+    },
 
-export function tick(now = Date.now()) {
-  const updates: { userId: string; status: WsPresenceStatus; lastSeenAt: string }[] = []
-  for (const [userId, entry] of presence.entries()) {
-    if (entry.sockets.size === 0 && entry.status !== 'offline') {
-      entry.status = 'offline'
-      updates.push({
-        userId,
-        status: entry.status,
-        lastSeenAt: new Date(entry.lastSeenAt).toISOString()
+    /**
+     * Local users with open sockets, or the given users regardless of state.
+     */
+    snapshot(userIds?: string[]): PresenceSnapshot[] {
+      const ids = userIds ?? [...presence.entries()].filter(([, e]) => e.sockets.size > 0).map(([id]) => id)
+      return ids.flatMap((userId) => {
+        const entry = presence.get(userId)
+        if (!entry) return []
+        return [{ userId, sockets: entry.sockets.size, status: entry.status, lastSeenAt: entry.lastSeenAt }]
       })
-      continue
-    }
+    },
+
+    /**
+     * Record another instance's presence. Returns the users whose aggregate may have changed.
+     */
+    applyRemote(origin: string, message: BusMessages['presence'], now = Date.now()) {
+      const instance = remote.get(origin) ?? { users: new Map<string, PresenceSnapshot>(), receivedAt: now }
+      const affected = new Set(message.users.map((u) => u.userId))
+      if (message.full) {
+        for (const userId of instance.users.keys()) affected.add(userId)
+        instance.users.clear()
+      }
+      for (const user of message.users) {
+        remoteLastSeen.set(user.userId, Math.max(remoteLastSeen.get(user.userId) ?? 0, user.lastSeenAt))
+        if (user.sockets > 0) instance.users.set(user.userId, user)
+        else instance.users.delete(user.userId)
+      }
+      instance.receivedAt = now
+      remote.set(origin, instance)
+      return [...affected]
+    },
+
+    /**
+     * Forget instances that stopped publishing. Returns the users they had connected.
+     */
+    expireRemote(now = Date.now()) {
+      const affected: string[] = []
+      for (const [origin, instance] of remote.entries()) {
+        if (now - instance.receivedAt <= REMOTE_PRESENCE_TTL_MS) continue
+        affected.push(...instance.users.keys())
+        remote.delete(origin)
+      }
+      return affected
+    },
 
-    if (entry.sockets.size > 0 && entry.status === 'online') {
-      if (now - entry.lastSeenAt > AWAY_AFTER_MS) {
-        entry.status = 'away'
-        updates.push({
-          userId,
-          status: entry.status,
-          lastSeenAt: new Date(entry.lastSeenAt).toISOString()
-        })
+    aggregate(userId: string): { status: WsPresenceStatus; lastSeenAt: number } {
+      const local = presence.get(userId)
+      let status: WsPresenceStatus = local && local.sockets.size > 0 ? local.status : 'offline'
+      const lastSeenAt = Math.max(local?.lastSeenAt ?? 0, remoteLastSeen.get(userId) ?? 0)
+      for (const instance of remote.values()) {
+        const user = instance.users.get(userId)
+        if (!user) continue
+        if (STATUS_RANK[user.status] > STATUS_RANK[status]) status = user.status
       }
+      return { status, lastSeenAt }
     }
   }
-  return updates
 }
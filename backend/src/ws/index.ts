@@ -9,22 +9,25 @@ import type {
   ServerEventType,
   WsEvents,
   WsMessage,
+  WsPresenceStatus,
   WsSubscribeTopic
 } from '@app/shared'
 import { createRouter } from './router.js'
 import type { WsContext } from './types.js'
 import { initNotifier } from './notify.js'
-import { topicKey, userTopic } from './topics.js'
+import { presenceTopic, topicKey } from './topics.js'
 import { registerHandlers as registerMessengerHandlers } from './domains/messenger.js'
-import { registerHandlers as registerPresenceHandlers } from './domains/presence.js'
 import {
-  onConnect as presenceOnConnect,
-  onDisconnect as presenceOnDisconnect,
-  recordActivity,
-  tick as presenceTick
+  createPresenceTracker,
+  registerHandlers as registerPresenceHandlers,
+  toPublicPresence
 } from './domains/presence.js'
 import { registerAdminSocket, unregisterAdminSocket } from './domains/admin.js'
 import { prisma } from '../lib/prisma/client.js'
+import { onSessionsRevoked } from '../services/auth/sessionService.js'
+import { onPrivacyChanged } from '../services/privacy/privacySettings.js'
+import { createPrivacyCache, type PrivacyCache } from './privacy.js'
+import { createRealtimeBus, type RealtimeBus } from './bus/index.js'
 
 const CLIENT_EVENT_TYPES = new Set<ClientEventType>([
   'client.messenger.typing',
@@ -33,19 +36,65 @@ const CLIENT_EVENT_TYPES = new Set<ClientEventType>([
 
 const HEARTBEAT_INTERVAL_MS = 25000
 
-export function createWsServer(server: HttpServer) {
+export type WsServerOptions = {
+  // Shared with the other backend instances; defaults to createRealtimeBus()
+  bus?: RealtimeBus
+  // Privacy settings lookup for presence and typing; defaults to the database
+  privacy?: PrivacyCache
+}
+
+export function createWsServer(server: HttpServer, options: WsServerOptions = {}) {
   const wss = new WebSocketServer({ server, path: '/ws' })
   const router = createRouter()
   const contexts = new Map<string, WsContext>()
   const missedPongs = new WeakMap<WebSocket, number>()
+  const bus = options.bus ?? createRealtimeBus()
+  // Last aggregate status pushed to this instance's sockets; absent means offline
+  const emittedPresence = new Map<string, WsPresenceStatus>()
 
-  registerMessengerHandlers(router)
+  const presence = createPresenceTracker(userIds => {
+    bus.publish('presence', { full: false, users: presence.snapshot(userIds) })
+  })
+  const privacy = options.privacy ?? createPrivacyCache()
+
+  registerMessengerHandlers(router, presence, privacy)
   registerPresenceHandlers(router)
 
-  initNotifier(({ event, targets }) => {
-    emitToTargets(event, targets)
+  // Every instance delivers to its own sockets, so notify() reaches users wherever they connected
+  initNotifier(payload => {
+    bus.publish('notify', payload)
   })
 
+  const unsubscribeBus = [
+    bus.subscribe('notify', ({ event, targets }) => {
+      emitToTargets(event, targets)
+    }),
+    bus.subscribe('presence', (message, origin) => {
+      const affected =
+        origin === bus.instanceId
+          ? message.users.map(user => user.userId)
+          : presence.applyRemote(origin, message)
+      for (const userId of affected) refreshPresence(userId)
+    }),
+    bus.subscribe('sessions', ({ sessionIds }) => {
+      const revoked = new Set(sessionIds)
+      for (const ctx of contexts.values()) {
+        if (ctx.sessionId && revoked.has(ctx.sessionId)) {
+          ctx.socket.close(4401, 'session_revoked')
+        }
+      }
+    }),
+    bus.subscribe('privacy', ({ userId }) => {
+      privacy.invalidate(userId)
+      // Re-announce so watchers stop (or start) seeing what the new settings allow
+      const { status, lastSeenAt } = presence.aggregate(userId)
+      void emitPublicPresence(
+        { userId, status, lastSeenAt: new Date(lastSeenAt).toISOString() },
+        { appearOffline: true }
+      )
+    })
+  ]
+
   const heartbeatTimer = setInterval(() => {
     for (const socket of wss.clients) {
       const missed = missedPongs.get(socket) ?? 0
@@ -58,22 +107,51 @@ export function createWsServer(server: HttpServer) {
       socket.ping()
     }
 
-    const updates = presenceTick()
-    for (const update of updates) {
-      const event = makeServerEvent('server.presence.update', update)
-      emitToTargets(event, [{ kind: 'user', id: update.userId }])
-    }
+    presence.tick()
+    // Full snapshots double as this instance's liveness signal for the others
+    bus.publish('presence', { full: true, users: presence.snapshot() })
+    for (const userId of presence.expireRemote()) refreshPresence(userId)
   }, HEARTBEAT_INTERVAL_MS)
 
-  wss.on('close', () => clearInterval(heartbeatTimer))
+  // Access tokens outlive a revoked session by up to their TTL; drop the sockets right away,
+  // on whichever instance they are connected to
+  const unsubscribeRevocations = onSessionsRevoked(sessionIds => {
+    bus.publish('sessions', { sessionIds: sessionIds.map(String) })
+  })
+  const unsubscribePrivacy = onPrivacyChanged(userId => {
+    bus.publish('privacy', { userId: String(userId) })
+  })
+
+  wss.on('close', () => {
+    clearInterval(heartbeatTimer)
+    unsubscribeRevocations()
+    unsubscribePrivacy()
+    for (const unsubscribe of unsubscribeBus) unsubscribe()
+    if (!options.bus) void bus.close()
+  })
 
   wss.on('connection', async (socket: WebSocket, req: IncomingMessage) => {
-    const userId = getUserId(req)
-    if (!userId) {
+    const identity = getIdentity(req)
+    const userId = identity?.userId
+    if (!identity || !userId) {
       process.stdout.write(`[ws] Connection rejected: no valid token. Cookie header: ${req.headers?.cookie ? 'present' : 'missing'}\n`);
       socket.close(4401, 'unauthorized')
       return
     }
+    if (identity.sessionId) {
+      try {
+        const session = await prisma.authSession.findUnique({
+          where: { id: BigInt(identity.sessionId) },
+          select: { revokedAt: true }
+        })
+        if (!session || session.revokedAt) {
+          socket.close(4401, 'session_revoked')
+          return
+        }
+      } catch (err) {
+        console.error('[ws] Error checking session:', err)
+      }
+    }
     process.stdout.write(`[ws] Connection accepted for user ${userId}\n`);
 
     // Check if user is admin and register socket
@@ -93,37 +171,45 @@ export function createWsServer(server: HttpServer) {
     const socketId = randomUUID()
     const ctx: WsContext = {
       userId,
+      sessionId: identity.sessionId,
       socketId,
       socket,
       subscriptions: new Set<string>(),
+      subscriptionVersion: 0,
       connectedAt: Date.now()
     }
 
     contexts.set(socketId, ctx)
     missedPongs.set(socket, 0)
-    const presenceEntry = presenceOnConnect(userId, socket)
-    if (presenceEntry) {
-      emitPresenceUpdate({
-        userId,
-        status: presenceEntry.status,
-        lastSeenAt: new Date(presenceEntry.lastSeenAt).toISOString()
-      })
+    const announced = emittedPresence.get(userId)
+    presence.onConnect(userId, socket)
+    // Another tab or instance may already have announced the user; the new socket still learns its status
+    if (emittedPresence.get(userId) === announced) {
+      const current = presence.aggregate(userId)
+      send(
+        ctx,
+        makeServerEvent('server.presence.update', {
+          userId,
+          status: current.status,
+          lastSeenAt: new Date(current.lastSeenAt).toISOString()
+        })
+      )
     }
 
     socket.on('pong', () => {
       missedPongs.set(socket, 0)
-      recordActivity(userId)
+      presence.recordActivity(userId)
     })
 
     socket.on('message', (data: RawData) => {
       const msg = parseClientMessage(data)
       if (!msg) return
 
-      recordActivity(userId)
+      presence.recordActivity(userId)
 
       if (msg.type === 'client.system.subscribe') {
         const payload = msg.data as WsEvents['client.system.subscribe']
-        applySubscriptions(ctx, payload.topics ?? [])
+        void applySubscriptions(ctx, Array.isArray(payload?.topics) ? payload.topics : [])
         return
       }
 
@@ -134,14 +220,7 @@ export function createWsServer(server: HttpServer) {
       missedPongs.delete(socket)
       contexts.delete(socketId)
       unregisterAdminSocket(socket)
-      const entry = presenceOnDisconnect(userId, socket)
-      if (entry && entry.status === 'offline') {
-        emitPresenceUpdate({
-          userId,
-          status: entry.status,
-          lastSeenAt: new Date(entry.lastSeenAt).toISOString()
-        })
-      }
+      presence.onDisconnect(userId, socket)
       recordInternalDisconnect(userId, socketId, String(reason ?? ''))
     })
   })
@@ -152,14 +231,15 @@ export function createWsServer(server: HttpServer) {
     event: WsMessage<T>,
     targets: WsSubscribeTopic[]
   ) {
-    const keys = new Set(targets.map(topicKey))
+    // `user` targets reach only that user's own sockets; nobody can subscribe to them
+    const userIds = new Set(targets.filter(target => target.kind === 'user').map(target => target.id))
+    const keys = new Set(targets.filter(target => target.kind !== 'user').map(topicKey))
     for (const ctx of contexts.values()) {
-      const isSelf = keys.has(userTopic(ctx.userId))
-      if (!isSelf && ctx.subscriptions.size === 0) continue
-      if (isSelf) {
+      if (userIds.has(ctx.userId)) {
         send(ctx, event)
         continue
       }
+      if (ctx.subscriptions.size === 0) continue
 
       for (const key of keys) {
         if (ctx.subscriptions.has(key)) {
@@ -170,17 +250,80 @@ export function createWsServer(server: HttpServer) {
     }
   }
 
-  function emitPresenceUpdate(payload: WsEvents['server.presence.update']) {
-    const event = makeServerEvent('server.presence.update', payload)
-    emitToTargets(event, [{ kind: 'user', id: payload.userId }])
+  function refreshPresence(userId: string) {
+    const { status, lastSeenAt } = presence.aggregate(userId)
+    if (status === (emittedPresence.get(userId) ?? 'offline')) return
+    if (status === 'offline') emittedPresence.delete(userId)
+    else emittedPresence.set(userId, status)
+    const update = { userId, status, lastSeenAt: new Date(lastSeenAt).toISOString() }
+
+    // The user's own sockets always learn their real status
+    for (const ctx of contexts.values()) {
+      if (ctx.userId === userId) send(ctx, makeServerEvent('server.presence.update', update))
+    }
+    void emitPublicPresence(update).finally(() => {
+      if (status === 'offline') privacy.invalidate(userId)
+    })
+  }
+
+  /**
+   * Presence as other users may see it. `appearOffline` sends an offline update when the
+   * status is hidden, so watchers drop an online status they saw before it was hidden.
+   */
+  async function emitPublicPresence(
+    update: WsEvents['server.presence.update'],
+    options: { appearOffline?: boolean } = {}
+  ) {
+    // Fail closed: without the settings nothing is shared
+    const settings = await privacy.get(update.userId).catch(() => null)
+    if (!settings) return
+    const visible =
+      toPublicPresence(update, settings) ??
+      (options.appearOffline ? { userId: update.userId, status: 'offline' as const } : null)
+    if (!visible) return
+
+    const key = presenceTopic(update.userId)
+    const event = makeServerEvent('server.presence.update', visible)
+    for (const ctx of contexts.values()) {
+      if (ctx.userId !== update.userId && ctx.subscriptions.has(key)) send(ctx, event)
+    }
   }
 }
 
-function applySubscriptions(ctx: WsContext, topics: WsSubscribeTopic[]) {
-  ctx.subscriptions.clear()
+/**
+ * Replace the socket's subscriptions. Anyone's presence may be watched; conversations only
+ * by their participants. `user` topics are never subscribed to: events targeting a user go
+ * to that user's own sockets.
+ */
+async function applySubscriptions(ctx: WsContext, topics: WsSubscribeTopic[]) {
+  const version = ++ctx.subscriptionVersion
+  const next = new Set<string>()
+  const conversationIds = new Set<string>()
   for (const topic of topics) {
-    ctx.subscriptions.add(topicKey(topic))
+    if (!topic || typeof topic.id !== 'string' || !/^\d+$/.test(topic.id)) continue
+    if (topic.kind === 'presence') next.add(topicKey(topic))
+    else if (topic.kind === 'conversation') conversationIds.add(topic.id)
+  }
+
+  if (conversationIds.size) {
+    const me = BigInt(ctx.userId)
+    try {
+      const conversations = await prisma.conversation.findMany({
+        where: {
+          id: { in: [...conversationIds].map(id => BigInt(id)) },
+          OR: [{ userAId: me }, { userBId: me }]
+        },
+        select: { id: true }
+      })
+      for (const { id } of conversations) next.add(topicKey({ kind: 'conversation', id: String(id) }))
+    } catch (err) {
+      // Fail closed: conversations that could not be checked are left out
+      console.error('[ws] Error checking conversation subscriptions:', err)
+    }
   }
+
+  if (version !== ctx.subscriptionVersion) return
+  ctx.subscriptions = next
 }
 
 function send<T extends ServerEventType>(ctx: WsContext, msg: WsMessage<T>) {
@@ -208,12 +351,12 @@ function parseClientMessage(data: RawData): WsMessage<ClientEventType> | null {
   return parsed
 }
 
-function getUserId(req: IncomingMessage): string | null {
+function getIdentity(req: IncomingMessage): { userId: string; sessionId: string | null } | null {
   const token = getAccessToken(req)
   if (!token) return null
   try {
     const payload = verifyAccessToken(token)
-    return payload.sub
+    return { userId: payload.sub, sessionId: payload.sid ?? null }
   } catch {
     return null
   }
@@ -0,0 +1,32 @@
+import { getPrivacySettings, type PrivacySettings } from '../services/privacy/privacySettings.js'
+
+/**
+ * Per-instance cache of users' privacy settings for the socket hot paths (presence
+ * changes and typing). Entries are dropped when the bus reports a change, and when the
+ * user goes offline so the cache only holds connected users.
+ *
+ * The cached value is the pending lookup itself, so updates for the same user that
+ * wait on it are released in the order they were queued.
+ */
+export function createPrivacyCache(load: (userId: bigint) => Promise<PrivacySettings> = getPrivacySettings) {
+  const entries = new Map<string, Promise<PrivacySettings>>()
+
+  return {
+    get(userId: string) {
+      let entry = entries.get(userId)
+      if (!entry) {
+        entry = load(BigInt(userId)).catch(err => {
+          entries.delete(userId)
+          throw err
+        })
+        entries.set(userId, entry)
+      }
+      return entry
+    },
+    invalidate(userId: string) {
+      entries.delete(userId)
+    }
+  }
+}
+
+export type PrivacyCache = ReturnType<typeof createPrivacyCache>
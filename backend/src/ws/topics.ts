@@ -7,3 +7,7 @@ export function topicKey(topic: WsSubscribeTopic) {
 export function userTopic(userId: string) {
   return `user:${userId}`
 }
+
+export function presenceTopic(userId: string) {
+  return `presence:${userId}`
+}
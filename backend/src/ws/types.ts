@@ -2,8 +2,11 @@ import type WebSocket from 'ws'
 
 export type WsContext = {
   userId: string
+  sessionId: string | null
   socketId: string
   socket: WebSocket
   subscriptions: Set<string>
+  // Bumped per subscribe request so a slower earlier request cannot overwrite a later one
+  subscriptionVersion: number
   connectedAt: number
 }
@@ -26,6 +26,8 @@ const InterestsPortalPage = lazy(() => import('./ui/pages/InterestsPortalPage').
 const PersonalityPortalPage = lazy(() => import('./ui/pages/PersonalityPortalPage').then(m => ({ default: m.PersonalityPortalPage })))
 const ProfileSearchPage = lazy(() => import('./ui/pages/ProfileSearchPage').then(m => ({ default: m.ProfileSearchPage })))
 const AuthPage = lazy(() => import('./ui/pages/AuthPage').then(m => ({ default: m.AuthPage })))
+const PasswordResetPage = lazy(() => import('./ui/pages/PasswordResetPage').then(m => ({ default: m.PasswordResetPage })))
+const VerifyEmailPage = lazy(() => import('./ui/pages/VerifyEmailPage').then(m => ({ default: m.VerifyEmailPage })))
 const ConnectionsPage = lazy(() => import('./ui/pages/ConnectionsPage').then(m => ({ default: m.ConnectionsPage })))
 
 // Admin pages
@@ -33,6 +35,7 @@ const AdminLayout = lazy(() => import('./admin/components/AdminLayout').then(m =
 const JobManagerPage = lazy(() => import('./admin/pages/JobManagerPage').then(m => ({ default: m.JobManagerPage })))
 const SchedulesPage = lazy(() => import('./admin/pages/SchedulesPage').then(m => ({ default: m.SchedulesPage })))
 const UserManagementPage = lazy(() => import('./admin/pages/UserManagementPage').then(m => ({ default: m.UserManagementPage })))
+const ReportsPage = lazy(() => import('./admin/pages/ReportsPage').then(m => ({ default: m.ReportsPage })))
 const JobDetailsPage = lazy(() => import('./admin/pages/JobDetailsPage').then(m => ({ default: m.JobDetailsPage })))
 const SciencePage = lazy(() => import('./ui/pages/SciencePage').then(m => ({ default: m.SciencePage })))
 
@@ -78,6 +81,24 @@ export default function App() {
               </PublicRoute>
             }
           />
+          <Route
+            path="/reset-password"
+            element={
+              <PublicRoute>
+                <Suspense fallback={<RouteLoader />}>
+                  <PasswordResetPage />
+                </Suspense>
+              </PublicRoute>
+            }
+          />
+          <Route
+            path="/verify-email"
+            element={
+              <Suspense fallback={<RouteLoader />}>
+                <VerifyEmailPage />
+              </Suspense>
+            }
+          />
           <Route
             path="/debug"
             element={<PageLoadDebug />}
@@ -256,6 +277,18 @@ export default function App() {
               </AdminRoute>
             }
           />
+          <Route
+            path="/admin/reports"
+            element={
+              <AdminRoute>
+                <AdminLayout>
+                  <Suspense fallback={<RouteLoader />}>
+                    <ReportsPage />
+                  </Suspense>
+                </AdminLayout>
+              </AdminRoute>
+            }
+          />
           <Route
             path="/admin/jobs/:jobRunId"
             element={
@@ -151,5 +151,48 @@ export const adminApi = {
 
     const query = searchParams.toString();
     return http(`/api/admin/schedules/${scheduleId}/history${query ? `?${query}` : ''}`, 'GET');
+  },
+
+  // Report Moderation
+  async getReportQueue(params?: {
+    status?: import('../types').ReportStatus;
+    limit?: number;
+    offset?: number;
+  }): Promise<import('../types').ReportQueueResponse> {
+    const searchParams = new URLSearchParams();
+    if (params?.status) searchParams.set('status', params.status);
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.offset) searchParams.set('offset', params.offset.toString());
+
+    const query = searchParams.toString();
+    return http(`/api/admin/reports${query ? `?${query}` : ''}`, 'GET');
+  },
+
+  async getTargetReports(userId: string): Promise<import('../types').TargetReportsResponse> {
+    return http(`/api/admin/reports/${userId}`, 'GET');
+  },
+
+  async takeModerationAction(
+    userId: string,
+    action: import('../types').ModerationActionType,
+    note?: string
+  ): Promise<import('../types').ModerationActionResponse> {
+    return http(`/api/admin/reports/${userId}/actions`, 'POST', { body: { action, note } });
+  },
+
+  async getModerationActions(params?: {
+    targetId?: string;
+    actorId?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<import('../types').ModerationActionsResponse> {
+    const searchParams = new URLSearchParams();
+    if (params?.targetId) searchParams.set('targetId', params.targetId);
+    if (params?.actorId) searchParams.set('actorId', params.actorId);
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.offset) searchParams.set('offset', params.offset.toString());
+
+    const query = searchParams.toString();
+    return http(`/api/admin/moderation/actions${query ? `?${query}` : ''}`, 'GET');
   }
 };
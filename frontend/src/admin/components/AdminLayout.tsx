@@ -49,6 +49,12 @@ export function AdminLayout({ children }: AdminLayoutProps) {
             >
               User Management
             </Link>
+            <Link 
+              to="/admin/reports" 
+              className={`admin-nav-link ${isActive('/admin/reports') ? 'active' : ''}`}
+            >
+              Reports
+            </Link>
           </div>
         </div>
       </nav>
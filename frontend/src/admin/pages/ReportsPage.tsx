@@ -0,0 +1,343 @@
+import { useState, useEffect, useCallback } from 'react';
+import { adminApi } from '../api/admin';
+import type {
+  ModerationActionEntry,
+  ModerationActionType,
+  ReportQueueResponse,
+  ReportReason,
+  ReportStatus,
+  ReportTarget,
+  TargetReportsResponse
+} from '../types';
+
+const PAGE_SIZE = 50;
+
+const STATUSES: { value: ReportStatus; label: string }[] = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'ACTIONED', label: 'Actioned' },
+  { value: 'DISMISSED', label: 'Dismissed' }
+];
+
+const REASONS: ReportReason[] = ['SPAM', 'HARASSMENT', 'IMPERSONATION', 'NUDITY', 'HATE', 'OTHER'];
+
+const ACTIONS: { value: ModerationActionType; label: string; confirm?: string; color: string }[] = [
+  { value: 'WARN', label: 'Warn', color: '#b8860b' },
+  { value: 'HIDE_PROFILE', label: 'Hide profile', color: '#8a5a00' },
+  { value: 'SUSPEND', label: 'Suspend', confirm: 'Suspend this account? The user will be unable to sign in.', color: '#a33' },
+  { value: 'UNSUSPEND', label: 'Lift suspension', confirm: 'Lift the suspension? The user will be able to sign in again.', color: '#2a6' },
+  { value: 'DELETE_ACCOUNT', label: 'Delete account', confirm: 'Soft-delete this account? This hides the profile and blocks sign in.', color: '#700' },
+  { value: 'DISMISS', label: 'Dismiss reports', color: '#444' }
+];
+
+const buttonStyle = {
+  padding: '5px 10px',
+  background: '#333',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer'
+};
+
+const cellStyle = { padding: '8px', borderBottom: '1px solid #222', textAlign: 'left' as const };
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function isActionAvailable(action: ModerationActionType, target: ReportTarget) {
+  if (target.deletedAt) return action === 'DISMISS';
+  if (action === 'SUSPEND') return !target.suspendedAt;
+  if (action === 'UNSUSPEND') return Boolean(target.suspendedAt);
+  return true;
+}
+
+function actionLabel(action: ModerationActionType) {
+  return ACTIONS.find(a => a.value === action)?.label ?? action;
+}
+
+export function ReportsPage() {
+  const [status, setStatus] = useState<ReportStatus>('OPEN');
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [queue, setQueue] = useState<ReportQueueResponse>({ items: [], total: 0, limit: PAGE_SIZE, offset: 0, status: 'OPEN' });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<TargetReportsResponse | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [note, setNote] = useState('');
+  const [acting, setActing] = useState(false);
+  const [recentActions, setRecentActions] = useState<ModerationActionEntry[]>([]);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await adminApi.getReportQueue({ status, limit: PAGE_SIZE, offset: page * PAGE_SIZE });
+      setQueue(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  const fetchRecentActions = useCallback(async () => {
+    try {
+      const response = await adminApi.getModerationActions({ limit: 20 });
+      setRecentActions(response.actions);
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  const fetchDetail = useCallback(async (userId: string) => {
+    setDetailLoading(true);
+    try {
+      setDetail(await adminApi.getTargetReports(userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load user reports');
+      setDetail(null);
+    } finally {
+      setDetailLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  useEffect(() => {
+    fetchRecentActions();
+  }, [fetchRecentActions]);
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchDetail(selectedId);
+    } else {
+      setDetail(null);
+    }
+  }, [selectedId, fetchDetail]);
+
+  const handleAction = async (action: (typeof ACTIONS)[number]) => {
+    if (!selectedId) return;
+    if (action.confirm && !window.confirm(action.confirm)) return;
+    setActing(true);
+    setError(null);
+    try {
+      await adminApi.takeModerationAction(selectedId, action.value, note || undefined);
+      setNote('');
+      await Promise.all([fetchQueue(), fetchDetail(selectedId), fetchRecentActions()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply action');
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const totalPages = Math.ceil(queue.total / PAGE_SIZE);
+
+  return (
+    <div className="reports-page">
+      <div className="page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+        <h1>Reports</h1>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {STATUSES.map(s => (
+            <button
+              key={s.value}
+              onClick={() => {
+                setStatus(s.value);
+                setPage(0);
+                setSelectedId(null);
+              }}
+              style={{ ...buttonStyle, background: status === s.value ? '#555' : '#222' }}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ padding: '8px 12px', marginBottom: '1rem', background: '#3a1111', border: '1px solid #a33', borderRadius: '4px' }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-start' }}>
+        <div style={{ flex: 3, minWidth: 0 }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: '#888' }}>
+                <th style={cellStyle}>User</th>
+                <th style={cellStyle}>Reports</th>
+                {REASONS.map(reason => (
+                  <th key={reason} style={{ ...cellStyle, fontSize: '0.75rem' }}>{reason}</th>
+                ))}
+                <th style={cellStyle}>Latest</th>
+                <th style={cellStyle}>State</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading && queue.items.length === 0 && (
+                <tr><td colSpan={REASONS.length + 4} style={{ ...cellStyle, color: '#888' }}>Loading...</td></tr>
+              )}
+              {!loading && queue.items.length === 0 && (
+                <tr><td colSpan={REASONS.length + 4} style={{ ...cellStyle, color: '#888' }}>No reports</td></tr>
+              )}
+              {queue.items.map(item => (
+                <tr
+                  key={item.target.id}
+                  onClick={() => setSelectedId(item.target.id)}
+                  style={{ cursor: 'pointer', background: selectedId === item.target.id ? '#1d1d1d' : undefined }}
+                >
+                  <td style={cellStyle}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                      {item.target.avatarUrl && (
+                        <img src={item.target.avatarUrl} alt="" style={{ width: 28, height: 28, borderRadius: '50%', objectFit: 'cover' }} />
+                      )}
+                      <div>
+                        <div>{item.target.displayName || '(no profile)'}</div>
+                        <div style={{ color: '#888', fontSize: '0.8rem' }}>{item.target.email}</div>
+                      </div>
+                    </div>
+                  </td>
+                  <td style={{ ...cellStyle, fontWeight: 600 }}>{item.reportCount}</td>
+                  {REASONS.map(reason => (
+                    <td key={reason} style={{ ...cellStyle, color: item.reasonCounts[reason] ? 'white' : '#555' }}>
+                      {item.reasonCounts[reason]}
+                    </td>
+                  ))}
+                  <td style={{ ...cellStyle, color: '#888', fontSize: '0.8rem' }}>{formatDate(item.latestReportAt)}</td>
+                  <td style={{ ...cellStyle, fontSize: '0.8rem' }}>
+                    {item.target.deletedAt ? 'Deleted' : item.target.suspendedAt ? 'Suspended' : item.target.isVisible ? 'Active' : 'Hidden'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ marginTop: '1rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center', color: '#888' }}>
+            <div>{queue.total} reported user{queue.total === 1 ? '' : 's'}</div>
+            <div style={{ display: 'flex', gap: '10px' }}>
+              <button
+                disabled={page === 0}
+                onClick={() => setPage(p => p - 1)}
+                style={{ ...buttonStyle, cursor: page === 0 ? 'not-allowed' : 'pointer', opacity: page === 0 ? 0.5 : 1 }}
+              >
+                Prev
+              </button>
+              <span style={{ display: 'flex', alignItems: 'center' }}>Page {page + 1} of {totalPages || 1}</span>
+              <button
+                disabled={page >= totalPages - 1}
+                onClick={() => setPage(p => p + 1)}
+                style={{ ...buttonStyle, cursor: page >= totalPages - 1 ? 'not-allowed' : 'pointer', opacity: page >= totalPages - 1 ? 0.5 : 1 }}
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {selectedId && (
+          <div style={{ flex: 2, minWidth: 0, border: '1px solid #333', borderRadius: '4px', padding: '1rem', background: '#111' }}>
+            {detailLoading && !detail && <div style={{ color: '#888' }}>Loading...</div>}
+            {detail && (
+              <>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                  <div>
+                    <h2 style={{ margin: 0 }}>{detail.target.displayName || detail.target.email}</h2>
+                    <div style={{ color: '#888', fontSize: '0.85rem' }}>
+                      #{detail.target.id} · {detail.target.email} · joined {formatDate(detail.target.createdAt)}
+                    </div>
+                  </div>
+                  <button onClick={() => setSelectedId(null)} style={buttonStyle}>Close</button>
+                </div>
+
+                <div style={{ marginTop: '1rem' }}>
+                  <textarea
+                    placeholder="Note for the audit log (optional)"
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    rows={2}
+                    style={{ width: '100%', padding: '8px', borderRadius: '4px', border: '1px solid #333', background: '#000', color: 'white', boxSizing: 'border-box' }}
+                  />
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '8px' }}>
+                    {ACTIONS.map(action => (
+                      <button
+                        key={action.value}
+                        disabled={acting || !isActionAvailable(action.value, detail.target)}
+                        onClick={() => handleAction(action)}
+                        style={{ ...buttonStyle, background: action.color, opacity: acting ? 0.5 : 1 }}
+                      >
+                        {action.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <h3 style={{ marginTop: '1.5rem' }}>Reports ({detail.reports.length})</h3>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                  {detail.reports.map(report => (
+                    <div key={report.id} style={{ padding: '8px', border: '1px solid #222', borderRadius: '4px' }}>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.85rem' }}>
+                        <strong>{report.reason}</strong>
+                        <span style={{ color: report.status === 'OPEN' ? '#e0a800' : '#888' }}>{report.status}</span>
+                      </div>
+                      {report.details && <div style={{ marginTop: '4px' }}>{report.details}</div>}
+                      <div style={{ color: '#888', fontSize: '0.75rem', marginTop: '4px' }}>
+                        by {report.reporter.displayName || report.reporter.email} · {formatDate(report.createdAt)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <h3 style={{ marginTop: '1.5rem' }}>Moderation history</h3>
+                {detail.actions.length === 0 && <div style={{ color: '#888' }}>No actions yet</div>}
+                {detail.actions.map(action => (
+                  <div key={action.id} style={{ fontSize: '0.85rem', padding: '4px 0', borderBottom: '1px solid #222' }}>
+                    <strong>{actionLabel(action.action)}</strong> by {action.actor.email} · {formatDate(action.createdAt)}
+                    {action.reportCount > 0 && <span style={{ color: '#888' }}> · resolved {action.reportCount} report{action.reportCount === 1 ? '' : 's'}</span>}
+                    {action.note && <div style={{ color: '#aaa' }}>{action.note}</div>}
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <h2 style={{ marginTop: '2rem' }}>Recent moderation actions</h2>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ color: '#888' }}>
+            <th style={cellStyle}>When</th>
+            <th style={cellStyle}>Admin</th>
+            <th style={cellStyle}>Action</th>
+            <th style={cellStyle}>User</th>
+            <th style={cellStyle}>Note</th>
+          </tr>
+        </thead>
+        <tbody>
+          {recentActions.length === 0 && (
+            <tr><td colSpan={5} style={{ ...cellStyle, color: '#888' }}>No actions recorded</td></tr>
+          )}
+          {recentActions.map(action => (
+            <tr key={action.id}>
+              <td style={{ ...cellStyle, color: '#888', fontSize: '0.8rem' }}>{formatDate(action.createdAt)}</td>
+              <td style={cellStyle}>{action.actor.email}</td>
+              <td style={cellStyle}>{actionLabel(action.action)}</td>
+              <td style={cellStyle}>
+                {action.target && (
+                  <button onClick={() => setSelectedId(action.target!.id)} style={{ ...buttonStyle, background: 'transparent', padding: 0, textDecoration: 'underline' }}>
+                    {action.target.email}
+                  </button>
+                )}
+              </td>
+              <td style={{ ...cellStyle, color: '#aaa' }}>{action.note || '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
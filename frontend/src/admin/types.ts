@@ -245,3 +245,79 @@ export interface UserListResponse {
   limit: number;
   offset: number;
 }
+
+export type ReportReason = 'SPAM' | 'HARASSMENT' | 'IMPERSONATION' | 'NUDITY' | 'HATE' | 'OTHER';
+export type ReportStatus = 'OPEN' | 'ACTIONED' | 'DISMISSED';
+export type ModerationActionType = 'WARN' | 'HIDE_PROFILE' | 'SUSPEND' | 'UNSUSPEND' | 'DELETE_ACCOUNT' | 'DISMISS';
+
+export interface ReportTarget {
+  id: string;
+  email: string;
+  role: string;
+  createdAt: string;
+  deletedAt: string | null;
+  suspendedAt: string | null;
+  displayName: string | null;
+  isVisible: boolean;
+  avatarUrl: string | null;
+}
+
+export interface ReportQueueItem {
+  target: ReportTarget;
+  reportCount: number;
+  reasonCounts: Record<ReportReason, number>;
+  latestReportAt: string | null;
+}
+
+export interface ReportQueueResponse {
+  items: ReportQueueItem[];
+  total: number;
+  limit: number;
+  offset: number;
+  status: ReportStatus;
+}
+
+export interface UserReportEntry {
+  id: string;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  createdAt: string;
+  resolvedAt: string | null;
+  moderationActionId: string | null;
+  reporter: {
+    id: string;
+    email: string;
+    displayName: string | null;
+  };
+}
+
+export interface ModerationActionEntry {
+  id: string;
+  action: ModerationActionType;
+  note: string | null;
+  createdAt: string;
+  actor: { id: string; email: string };
+  target?: { id: string; email: string };
+  reportCount: number;
+}
+
+export interface TargetReportsResponse {
+  target: ReportTarget;
+  reports: UserReportEntry[];
+  actions: ModerationActionEntry[];
+}
+
+export interface ModerationActionResponse {
+  id: string;
+  action: ModerationActionType;
+  createdAt: string;
+  resolvedReports: number;
+}
+
+export interface ModerationActionsResponse {
+  actions: ModerationActionEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
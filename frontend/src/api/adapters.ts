@@ -8,6 +8,7 @@ import type {
   FeedMedia,
   Gender,
   MediaType,
+  MediaSource,
   ProfileMedia,
   ProfileResponse,
   ProfilePost,
@@ -28,6 +29,9 @@ type ApiFeedMedia = {
   type?: string | null
   url?: string | null
   thumbUrl?: string | null
+  sources?: MediaSource[]
+  previewUrl?: string | null
+  hlsUrl?: string | null
   width?: number | null
   height?: number | null
   durationSec?: number | null
@@ -689,6 +693,9 @@ function toFeedMedia(items?: ApiFeedMedia[] | null): FeedMedia[] | undefined {
         type: mediaType,
         url: item.url ?? '',
         thumbUrl: item.thumbUrl ?? null,
+        sources: item.sources,
+        previewUrl: item.previewUrl ?? null,
+        hlsUrl: item.hlsUrl ?? null,
         width: item.width ?? null,
         height: item.height ?? null,
         durationSec: item.durationSec ?? null,
@@ -733,6 +740,7 @@ function flattenMedia(posts: { media: { media: ApiMedia }[] }[]): ProfileMedia[]
         id,
         url: media.url,
         thumbUrl: media.thumbUrl ?? undefined,
+        sources: media.sources,
         type: media.type,
       })
     }
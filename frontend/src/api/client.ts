@@ -10,13 +10,23 @@ import type {
   ApiFollowingResponse,
   ApiInboxResponse,
   ApiLikesResponse,
+  ApiReceivedLikesResponse,
   ApiMatchListResponse,
+  ApiUnmatchResponse,
   ApiMessageListResponse,
   ApiMessageSendBody,
   ApiMessageSendResponse,
+  ApiMessageEditResponse,
+  ApiMessageEditHistoryResponse,
+  ApiMessageUnsendResponse,
+  ApiMessageReactionsResponse,
+  ApiMessageSearchResponse,
+  ApiReadUpToResponse,
   ApiMediaResponse,
   ApiMediaUploadResponse,
   ApiFeedResponse,
+  ApiFeedEventsBody,
+  ApiFeedEventsResponse,
   ApiMetaResponse,
   ApiOkResponse,
   ApiPostCreateBody,
@@ -41,7 +51,25 @@ import type {
 } from './contracts'
 import { HttpError, http } from './http'
 import { refreshToken } from './authRefresh'
-import type { FeedResponse, ProfileResponse, LikeBody, RateBody } from './types'
+import type {
+  AccountDeletionResponse,
+  AccountExportFormat,
+  AccountExportStatus,
+  AuthSessionListResponse,
+  BlockListResponse,
+  MuteListResponse,
+  DatingPreferences,
+  DatingPreferencesResponse,
+  PrivacySettings,
+  FeedResponse,
+  Id,
+  NotificationListResponse,
+  NotificationSettings,
+  NotificationType,
+  ProfileResponse,
+  LikeBody,
+  RateBody,
+} from './types'
 
 export type { ApiQuizResponse } from './contracts'
 
@@ -65,8 +93,16 @@ const API_PATHS = {
   refresh: '/api/auth/refresh',
   logout: '/api/auth/logout',
   me: '/api/auth/me',
+  passwordForgot: '/api/auth/password/forgot',
+  passwordReset: '/api/auth/password/reset',
+  emailVerify: '/api/auth/email/verify',
+  emailResend: '/api/auth/email/resend',
+  sessions: '/api/auth/sessions',
+  session: '/api/auth/sessions/{sessionId}',
   meta: '/api/meta',
   feed: '/api/feed',
+  feedEvents: '/api/feed/events',
+  postHide: '/api/posts/{postId}/hide',
   profile: '/api/profiles/{userId}',
   profileUpdate: '/api/profiles/{userId}',
   profileAccessRequest: '/api/profiles/{userId}/access-requests',
@@ -80,16 +116,23 @@ const API_PATHS = {
   rate: '/api/profiles/{userId}/rate',
   like: '/api/likes',
   likesList: '/api/likes',
+  likesReceived: '/api/likes/received',
   postCreate: '/api/posts',
   postUpdate: '/api/posts/{postId}',
   postDelete: '/api/posts/{postId}',
   postMediaDelete: '/api/posts/{postId}/media/{mediaId}',
   inbox: '/api/inbox',
   matches: '/api/matches',
+  matchUnmatch: '/api/matches/{matchId}/unmatch',
   conversation: '/api/conversations/{conversationId}',
   conversationMessages: '/api/conversations/{conversationId}/messages',
   conversationDelete: '/api/conversations/{conversationId}/delete',
-  messageRead: '/api/messages/{messageId}/read',
+  conversationReadUpTo: '/api/conversations/{conversationId}/read-up-to',
+  message: '/api/messages/{messageId}',
+  messageEdits: '/api/messages/{messageId}/edits',
+  messageReactions: '/api/messages/{messageId}/reactions',
+  messageReaction: '/api/messages/{messageId}/reactions/{emoji}',
+  messageSearch: '/api/messages/search',
   quizActive: '/api/quizzes/active',
   quizSubmit: '/api/quizzes/{quizId}/submit',
   quizById: '/api/quizzes/{quizId}',
@@ -111,6 +154,20 @@ const API_PATHS = {
   profileRecommendations: '/api/profiles/recommendations',
   profileSearchTraits: '/api/profiles/search/traits',
   profileReverseGeocode: '/api/profiles/location/reverse',
+  preferences: '/api/preferences',
+  privacySettings: '/api/preferences/privacy',
+  blocks: '/api/blocks',
+  userBlock: '/api/users/{userId}/block',
+  mutes: '/api/mutes',
+  userMute: '/api/users/{userId}/mute',
+  account: '/api/account',
+  accountExport: '/api/account/export',
+  accountExportDownload: '/api/account/export/{jobRunId}/download',
+  accountRestore: '/api/account/restore',
+  notifications: '/api/notifications',
+  notificationRead: '/api/notifications/{notificationId}/read',
+  notificationsReadAll: '/api/notifications/read-all',
+  notificationSettings: '/api/notifications/settings',
 } as const
 
 function fillPath(template: string, params: Record<string, string | number>) {
@@ -146,6 +203,24 @@ export const api = {
       http<ApiOkResponse>(`${API_BASE_URL}${API_PATHS.logout}`, 'POST', { signal }),
     me: (signal?: AbortSignal) =>
       http<ApiAuthMeResponse>(`${API_BASE_URL}${API_PATHS.me}`, 'GET', { signal }),
+    forgotPassword: (email: string, signal?: AbortSignal) =>
+      http<ApiOkResponse>(`${API_BASE_URL}${API_PATHS.passwordForgot}`, 'POST', { body: { email }, signal }),
+    resetPassword: (body: { token: string; password: string }, signal?: AbortSignal) =>
+      http<ApiOkResponse>(`${API_BASE_URL}${API_PATHS.passwordReset}`, 'POST', { body, signal }),
+    verifyEmail: (token: string, signal?: AbortSignal) =>
+      http<ApiOkResponse>(`${API_BASE_URL}${API_PATHS.emailVerify}`, 'POST', { body: { token }, signal }),
+    resendVerification: (signal?: AbortSignal) =>
+      http<{ ok: boolean; alreadyVerified?: boolean }>(`${API_BASE_URL}${API_PATHS.emailResend}`, 'POST', { signal }),
+    sessions: (signal?: AbortSignal) =>
+      http<AuthSessionListResponse>(`${API_BASE_URL}${API_PATHS.sessions}`, 'GET', { signal }),
+    revokeSession: (sessionId: string | number, signal?: AbortSignal) =>
+      http<{ ok: boolean; current: boolean }>(
+        `${API_BASE_URL}${fillPath(API_PATHS.session, { sessionId })}`,
+        'DELETE',
+        { signal }
+      ),
+    logoutEverywhere: (signal?: AbortSignal) =>
+      http<{ ok: boolean; revoked: number }>(`${API_BASE_URL}${API_PATHS.sessions}`, 'DELETE', { signal }),
   },
   meta: (signal?: AbortSignal) =>
     http<ApiMetaResponse>(`${API_BASE_URL}${API_PATHS.meta}`, 'GET', { signal }),
@@ -309,10 +384,124 @@ export const api = {
     const path = fillPath(API_PATHS.revokeFollowRequest, { requestId })
     return http<ApiProfileAccessResponse>(`${API_BASE_URL}${path}`, 'POST', { signal })
   },
+  preferences: {
+    get: (signal?: AbortSignal) =>
+      http<DatingPreferencesResponse>(`${API_BASE_URL}${API_PATHS.preferences}`, 'GET', { signal }),
+    update: (body: DatingPreferences, signal?: AbortSignal) =>
+      http<DatingPreferencesResponse>(`${API_BASE_URL}${API_PATHS.preferences}`, 'PUT', {
+        body,
+        signal,
+      }),
+    privacy: (signal?: AbortSignal) =>
+      http<PrivacySettings>(`${API_BASE_URL}${API_PATHS.privacySettings}`, 'GET', { signal }),
+    updatePrivacy: (body: Partial<PrivacySettings>, signal?: AbortSignal) =>
+      http<PrivacySettings>(`${API_BASE_URL}${API_PATHS.privacySettings}`, 'PATCH', {
+        body,
+        signal,
+      }),
+  },
+  account: {
+    exportStatus: (signal?: AbortSignal) =>
+      http<{ export: AccountExportStatus | null }>(`${API_BASE_URL}${API_PATHS.accountExport}`, 'GET', { signal }),
+    requestExport: (format: AccountExportFormat, signal?: AbortSignal) =>
+      http<AccountExportStatus>(`${API_BASE_URL}${API_PATHS.accountExport}`, 'POST', { body: { format }, signal }),
+    exportDownloadUrl: (jobRunId: string | number) =>
+      `${API_BASE_URL}${fillPath(API_PATHS.accountExportDownload, { jobRunId })}`,
+    delete: (password: string, signal?: AbortSignal) =>
+      http<AccountDeletionResponse>(`${API_BASE_URL}${API_PATHS.account}`, 'DELETE', { body: { password }, signal }),
+    restore: (body: ApiAuthLoginBody, signal?: AbortSignal) =>
+      http<ApiAuthLoginResponse>(`${API_BASE_URL}${API_PATHS.accountRestore}`, 'POST', { body, signal }),
+  },
+  notifications: {
+    list: (params?: { cursorId?: Id; take?: number; unreadOnly?: boolean }, signal?: AbortSignal) => {
+      const query = new URLSearchParams()
+      if (params?.cursorId != null) query.set('cursorId', String(params.cursorId))
+      if (params?.take) query.set('take', String(params.take))
+      if (params?.unreadOnly) query.set('unreadOnly', 'true')
+      const qs = query.toString()
+      return http<NotificationListResponse>(
+        `${API_BASE_URL}${API_PATHS.notifications}${qs ? `?${qs}` : ''}`,
+        'GET',
+        { signal }
+      )
+    },
+    markRead: (notificationId: Id, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.notificationRead, { notificationId })
+      return http<ApiOkResponse & { unreadCount: number }>(`${API_BASE_URL}${path}`, 'POST', { signal })
+    },
+    markAllRead: (signal?: AbortSignal) =>
+      http<ApiOkResponse & { updated: number; unreadCount: number }>(
+        `${API_BASE_URL}${API_PATHS.notificationsReadAll}`,
+        'POST',
+        { signal }
+      ),
+    settings: (signal?: AbortSignal) =>
+      http<NotificationSettings>(`${API_BASE_URL}${API_PATHS.notificationSettings}`, 'GET', { signal }),
+    updateSettings: (mutedTypes: NotificationType[], signal?: AbortSignal) =>
+      http<NotificationSettings>(`${API_BASE_URL}${API_PATHS.notificationSettings}`, 'PUT', {
+        body: { mutedTypes },
+        signal,
+      }),
+  },
+  blocks: {
+    list: (params?: { cursorId?: string; take?: number }, signal?: AbortSignal) => {
+      const query = new URLSearchParams()
+      if (params?.cursorId) query.set('cursorId', params.cursorId)
+      if (params?.take) query.set('take', String(params.take))
+      const qs = query.toString()
+      return http<BlockListResponse>(
+        `${API_BASE_URL}${API_PATHS.blocks}${qs ? `?${qs}` : ''}`,
+        'GET',
+        { signal }
+      )
+    },
+    block: (userId: string | number, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.userBlock, { userId })
+      return http<ApiOkResponse>(`${API_BASE_URL}${path}`, 'POST', { signal })
+    },
+    unblock: (userId: string | number, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.userBlock, { userId })
+      return http<ApiOkResponse & { removed: boolean }>(`${API_BASE_URL}${path}`, 'DELETE', {
+        signal,
+      })
+    },
+  },
+  mutes: {
+    list: (params?: { cursorId?: string; take?: number }, signal?: AbortSignal) => {
+      const query = new URLSearchParams()
+      if (params?.cursorId) query.set('cursorId', params.cursorId)
+      if (params?.take) query.set('take', String(params.take))
+      const qs = query.toString()
+      return http<MuteListResponse>(
+        `${API_BASE_URL}${API_PATHS.mutes}${qs ? `?${qs}` : ''}`,
+        'GET',
+        { signal }
+      )
+    },
+    mute: (userId: string | number, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.userMute, { userId })
+      return http<ApiOkResponse>(`${API_BASE_URL}${path}`, 'POST', { signal })
+    },
+    unmute: (userId: string | number, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.userMute, { userId })
+      return http<ApiOkResponse & { removed: boolean }>(`${API_BASE_URL}${path}`, 'DELETE', {
+        signal,
+      })
+    },
+  },
   like: (body: LikeBody, signal?: AbortSignal) =>
     http<ApiSwipeResponse>(`${API_BASE_URL}${API_PATHS.like}`, 'POST', { body, signal }),
   likes: (signal?: AbortSignal) =>
     http<ApiLikesResponse>(`${API_BASE_URL}${API_PATHS.likesList}`, 'GET', { signal }),
+  likesReceived: (cursorId?: string | number | null, take?: number, signal?: AbortSignal) => {
+    const params = new URLSearchParams()
+    if (cursorId) params.set('cursorId', String(cursorId))
+    if (take) params.set('take', String(take))
+    const q = params.toString() ? `?${params.toString()}` : ''
+    return http<ApiReceivedLikesResponse>(`${API_BASE_URL}${API_PATHS.likesReceived}${q}`, 'GET', {
+      signal,
+    })
+  },
   rate: (userId: string | number, body: RateBody, signal?: AbortSignal) => {
     const path = fillPath(API_PATHS.rate, { userId })
     return http<ApiRateResponse>(`${API_BASE_URL}${path}`, 'POST', { body, signal })
@@ -356,6 +545,10 @@ export const api = {
     },
     matches: (signal?: AbortSignal) =>
       http<ApiMatchListResponse>(`${API_BASE_URL}${API_PATHS.matches}`, 'GET', { signal }),
+    unmatch: (matchId: string | number, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.matchUnmatch, { matchId })
+      return http<ApiUnmatchResponse>(`${API_BASE_URL}${path}`, 'POST', { signal })
+    },
     getOrCreateConversation: async (userId: string | number, signal?: AbortSignal) => {
       const url = `${API_BASE_URL}/api/conversations/with/${encodeURIComponent(String(userId))}`
       try {
@@ -389,9 +582,49 @@ export const api = {
       const path = fillPath(API_PATHS.conversationDelete, { conversationId })
       return http<ApiOkResponse>(`${API_BASE_URL}${path}`, 'POST', { signal })
     },
-    markRead: (messageId: string | number, signal?: AbortSignal) => {
-      const path = fillPath(API_PATHS.messageRead, { messageId })
-      return http<ApiOkResponse>(`${API_BASE_URL}${path}`, 'POST', { signal })
+    readUpTo: (conversationId: string | number, messageId: string | number, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.conversationReadUpTo, { conversationId })
+      return http<ApiReadUpToResponse>(`${API_BASE_URL}${path}`, 'POST', {
+        body: { messageId },
+        signal,
+      })
+    },
+    editMessage: (messageId: string | number, body: ApiMessageSendBody, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.message, { messageId })
+      return http<ApiMessageEditResponse>(`${API_BASE_URL}${path}`, 'PATCH', { body, signal })
+    },
+    messageEdits: (messageId: string | number, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.messageEdits, { messageId })
+      return http<ApiMessageEditHistoryResponse>(`${API_BASE_URL}${path}`, 'GET', { signal })
+    },
+    unsendMessage: (messageId: string | number, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.message, { messageId })
+      return http<ApiMessageUnsendResponse>(`${API_BASE_URL}${path}`, 'DELETE', { signal })
+    },
+    addReaction: (messageId: string | number, emoji: string, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.messageReactions, { messageId })
+      return http<ApiMessageReactionsResponse>(`${API_BASE_URL}${path}`, 'POST', {
+        body: { emoji },
+        signal,
+      })
+    },
+    removeReaction: (messageId: string | number, emoji: string, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.messageReaction, { messageId, emoji })
+      return http<ApiMessageReactionsResponse>(`${API_BASE_URL}${path}`, 'DELETE', { signal })
+    },
+    searchMessages: (
+      q: string,
+      options: { cursorId?: string | number | null; conversationId?: string | number } = {},
+      signal?: AbortSignal
+    ) => {
+      const params = new URLSearchParams({ q })
+      if (options.cursorId) params.set('cursorId', String(options.cursorId))
+      if (options.conversationId) params.set('conversationId', String(options.conversationId))
+      return http<ApiMessageSearchResponse>(
+        `${API_BASE_URL}${API_PATHS.messageSearch}?${params.toString()}`,
+        'GET',
+        { signal }
+      )
     },
   },
   media: {
@@ -493,7 +726,7 @@ export const api = {
     },
   },
   feedSync: {
-    // Feed sync endpoints (stubs - replace with actual endpoints when backend is ready)
+    // Feed sync endpoints (seen, report and suggestionFeedback are stubs until the backend has them)
     seen: async (
       items: Array<{ itemType: string; itemId: string; position: number; timestamp: number }>,
       _signal?: AbortSignal
@@ -504,20 +737,13 @@ export const api = {
       }
       return Promise.resolve({ ok: true } as ApiOkResponse)
     },
-    hide: async (itemId: string, _signal?: AbortSignal) => {
-      // TODO: Replace with actual endpoint: POST /api/feed/{itemId}/hide
-      if (import.meta.env?.DEV) {
-        console.debug('[api.feed.hide] Stub - would hide:', itemId)
-      }
-      return Promise.resolve({ ok: true } as ApiOkResponse)
-    },
-    block: async (actorId: string | number, _signal?: AbortSignal) => {
-      // TODO: Replace with actual endpoint: POST /api/users/{actorId}/block
-      if (import.meta.env?.DEV) {
-        console.debug('[api.feed.block] Stub - would block:', actorId)
-      }
-      return Promise.resolve({ ok: true } as ApiOkResponse)
+    hide: (postId: string | number, signal?: AbortSignal) => {
+      const path = fillPath(API_PATHS.postHide, { postId })
+      return http<ApiOkResponse>(`${API_BASE_URL}${path}`, 'POST', { signal })
     },
+    block: (actorId: string | number, signal?: AbortSignal) => api.blocks.block(actorId, signal),
+    events: (body: ApiFeedEventsBody, signal?: AbortSignal) =>
+      http<ApiFeedEventsResponse>(`${API_BASE_URL}${API_PATHS.feedEvents}`, 'POST', { body, signal }),
     report: async (itemId: string, reason?: string, _signal?: AbortSignal) => {
       // TODO: Replace with actual endpoint: POST /api/feed/{itemId}/report
       if (import.meta.env?.DEV) {
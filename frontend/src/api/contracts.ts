@@ -45,6 +45,8 @@ export type ApiOkResponse = Schemas['OkResponse']
 export type ApiMedia = Schemas['Media']
 export type ApiMediaUploadResponse = Schemas['MediaUploadResponse']
 export type ApiMediaResponse = Schemas['MediaResponse']
+export type ApiMediaUploadSessionBody = Schemas['MediaUploadSessionBody']
+export type ApiMediaUploadSessionResponse = Schemas['MediaUploadSessionResponse']
 
 // Posts
 export type ApiPostCreateBody = Schemas['PostCreateBody']
@@ -54,6 +56,9 @@ export type ApiPostPatchResponse = Schemas['PostPatchResponse']
 export type ApiFeedPost = Schemas['FeedPost']
 export type ApiFeedSuggestion = Schemas['FeedSuggestion']
 export type ApiFeedResponse = Schemas['FeedResponse']
+export type ApiFeedEngagementEvent = Schemas['FeedEngagementEvent']
+export type ApiFeedEventsBody = Schemas['FeedEventsBody']
+export type ApiFeedEventsResponse = Schemas['FeedEventsResponse']
 
 // Profiles
 export type ApiProfileResponse = Schemas['ProfileResponse']
@@ -70,6 +75,7 @@ export type ApiSwipeResponse = Schemas['SwipeResponse']
 export type ApiRateResponse = Schemas['OkResponse']
 export type ApiLikeItem = Schemas['LikeItem']
 export type ApiLikesResponse = Schemas['LikesResponse']
+export type ApiReceivedLikesResponse = Schemas['ReceivedLikesResponse']
 
 // Messaging
 export type ApiInboxResponse = Schemas['InboxResponse']
@@ -80,6 +86,15 @@ export type ApiMessageItem = Schemas['MessageItem']
 export type ApiMessageListResponse = Schemas['MessageListResponse']
 export type ApiMessageSendBody = Schemas['MessageSendBody']
 export type ApiMessageSendResponse = Schemas['MessageSendResponse']
+export type ApiMessageReaction = Schemas['MessageReaction']
+export type ApiMessageAttachment = Schemas['MessageAttachment']
+export type ApiMessageSearchHit = Schemas['MessageSearchHit']
+export type ApiMessageSearchResponse = Schemas['MessageSearchResponse']
+export type ApiReadUpToResponse = Schemas['ReadUpToResponse']
+export type ApiMessageEditResponse = Schemas['MessageEditResponse']
+export type ApiMessageEditHistoryResponse = Schemas['MessageEditHistoryResponse']
+export type ApiMessageUnsendResponse = Schemas['MessageUnsendResponse']
+export type ApiMessageReactionsResponse = Schemas['MessageReactionsResponse']
 
 // Quiz
 export type ApiQuizResponse = Schemas['QuizResponse']
@@ -93,3 +108,4 @@ export type ApiQuizOptionPatchResponse = Schemas['QuizOptionPatchResponse']
 
 // Matches
 export type ApiMatchListResponse = Schemas['MatchListResponse']
+export type ApiUnmatchResponse = Schemas['UnmatchResponse']
@@ -268,6 +268,24 @@ export interface paths {
       };
     };
   };
+  "/api/feed/events": {
+    /** Record feed engagement events (dwell, watch, opens, hide, not interested) */
+    post: {
+      requestBody: {
+        content: {
+          "application/json": components["schemas"]["FeedEventsBody"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        202: {
+          content: {
+            "application/json": components["schemas"]["FeedEventsResponse"];
+          };
+        };
+      };
+    };
+  };
   "/api/posts": {
     /** Create post */
     post: {
@@ -346,6 +364,24 @@ export interface paths {
       };
     };
   };
+  "/api/posts/{postId}/hide": {
+    /** Hide post from own feed */
+    post: {
+      parameters: {
+        path: {
+          postId: components["schemas"]["Id"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["OkResponse"];
+          };
+        };
+      };
+    };
+  };
   "/api/comments": {
     /** List comments for a post */
     get: {
@@ -657,6 +693,25 @@ export interface paths {
       };
     };
   };
+  "/api/likes/received": {
+    /** List profiles that liked you (not yet matched or answered) */
+    get: {
+      parameters: {
+        query?: {
+          cursorId?: components["schemas"]["Id"];
+          take?: number;
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["ReceivedLikesResponse"];
+          };
+        };
+      };
+    };
+  };
   "/api/matches": {
     /** List matches */
     get: {
@@ -670,6 +725,24 @@ export interface paths {
       };
     };
   };
+  "/api/matches/{matchId}/unmatch": {
+    /** Close a match; the conversation becomes read-only */
+    post: {
+      parameters: {
+        path: {
+          matchId: components["schemas"]["Id"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["UnmatchResponse"];
+          };
+        };
+      };
+    };
+  };
   "/api/suggestions": {
     /** List match suggestions */
     get: {
@@ -782,6 +855,29 @@ export interface paths {
       };
     };
   };
+  "/api/conversations/{conversationId}/read-up-to": {
+    /** Mark conversation read up to a message */
+    post: {
+      parameters: {
+        path: {
+          conversationId: components["schemas"]["Id"];
+        };
+      };
+      requestBody: {
+        content: {
+          "application/json": components["schemas"]["ReadUpToBody"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["ReadUpToResponse"];
+          };
+        };
+      };
+    };
+  };
   "/api/messages/{messageId}/read": {
     /** Mark read */
     post: {
@@ -800,6 +896,126 @@ export interface paths {
       };
     };
   };
+  "/api/messages/{messageId}": {
+    /** Unsend own message for both participants */
+    delete: {
+      parameters: {
+        path: {
+          messageId: components["schemas"]["Id"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["MessageUnsendResponse"];
+          };
+        };
+      };
+    };
+    /** Edit own message */
+    patch: {
+      parameters: {
+        path: {
+          messageId: components["schemas"]["Id"];
+        };
+      };
+      requestBody: {
+        content: {
+          "application/json": components["schemas"]["MessageEditBody"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["MessageEditResponse"];
+          };
+        };
+      };
+    };
+  };
+  "/api/messages/search": {
+    /** Search messages across conversations */
+    get: {
+      parameters: {
+        query: {
+          q: string;
+          conversationId?: components["schemas"]["Id"];
+          cursorId?: components["schemas"]["Id"];
+          take?: number;
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["MessageSearchResponse"];
+          };
+        };
+      };
+    };
+  };
+  "/api/messages/{messageId}/edits": {
+    /** Edit history of a message */
+    get: {
+      parameters: {
+        path: {
+          messageId: components["schemas"]["Id"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["MessageEditHistoryResponse"];
+          };
+        };
+      };
+    };
+  };
+  "/api/messages/{messageId}/reactions": {
+    /** React to a message with an emoji */
+    post: {
+      parameters: {
+        path: {
+          messageId: components["schemas"]["Id"];
+        };
+      };
+      requestBody: {
+        content: {
+          "application/json": components["schemas"]["MessageReactionBody"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["MessageReactionsResponse"];
+          };
+        };
+      };
+    };
+  };
+  "/api/messages/{messageId}/reactions/{emoji}": {
+    /** Remove own emoji reaction */
+    delete: {
+      parameters: {
+        path: {
+          messageId: components["schemas"]["Id"];
+          emoji: components["schemas"]["Id"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["MessageReactionsResponse"];
+          };
+        };
+      };
+    };
+  };
   "/api/quizzes/active": {
     /** Get active quiz */
     get: {
@@ -954,6 +1170,24 @@ export interface paths {
       };
     };
   };
+  "/api/users/{userId}/mute": {
+    /** Mute user in the feed */
+    post: {
+      parameters: {
+        path: {
+          userId: components["schemas"]["Id"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["OkResponse"];
+          };
+        };
+      };
+    };
+  };
   "/api/users/{userId}/report": {
     /** Report user */
     post: {
@@ -995,6 +1229,100 @@ export interface paths {
       };
     };
   };
+  "/api/media/uploads": {
+    /** Start a resumable upload */
+    post: {
+      requestBody: {
+        content: {
+          "application/json": components["schemas"]["MediaUploadSessionBody"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        201: {
+          content: {
+            "application/json": components["schemas"]["MediaUploadSessionResponse"];
+          };
+        };
+      };
+    };
+  };
+  "/api/media/uploads/{uploadId}": {
+    /** Get resumable upload offset */
+    get: {
+      parameters: {
+        path: {
+          uploadId: string;
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["MediaUploadSessionResponse"];
+          };
+        };
+      };
+    };
+    /** Upload a chunk (raw body at Upload-Offset) */
+    put: {
+      parameters: {
+        header: {
+          "Upload-Offset": number;
+        };
+        path: {
+          uploadId: string;
+        };
+      };
+      requestBody: {
+        content: {
+          "application/octet-stream": string;
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["MediaUploadSessionResponse"];
+          };
+        };
+      };
+    };
+    /** Cancel a resumable upload */
+    delete: {
+      parameters: {
+        path: {
+          uploadId: string;
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["OkResponse"];
+          };
+        };
+      };
+    };
+  };
+  "/api/media/uploads/{uploadId}/complete": {
+    /** Verify and finalize a resumable upload */
+    post: {
+      parameters: {
+        path: {
+          uploadId: string;
+        };
+      };
+      responses: {
+        /** @description OK */
+        201: {
+          content: {
+            "application/json": components["schemas"]["MediaUploadResponse"];
+          };
+        };
+      };
+    };
+  };
   "/api/media/{mediaId}": {
     /** Get media */
     get: {
@@ -1021,6 +1349,24 @@ export interface paths {
       };
     };
   };
+  "/api/media/{mediaId}/signed-url": {
+    /** Get time-limited media URLs */
+    get: {
+      parameters: {
+        path: {
+          mediaId: components["schemas"]["Id"];
+        };
+      };
+      responses: {
+        /** @description OK */
+        200: {
+          content: {
+            "application/json": components["schemas"]["SignedMediaResponse"];
+          };
+        };
+      };
+    };
+  };
   "/api/interests/subjects": {
     /** List all interest subjects */
     get: {
@@ -1112,6 +1458,7 @@ export interface components {
       userId: components["schemas"]["Id"];
       /** @enum {string} */
       role: "USER" | "ADMIN" | "SUPER_ADMIN";
+      emailVerified: boolean;
     };
     /** @enum {string} */
     Visibility: "PUBLIC" | "PRIVATE";
@@ -1120,7 +1467,7 @@ export interface components {
     /** @enum {string} */
     MediaType: "IMAGE" | "VIDEO" | "AUDIO" | "EMBED";
     /** @enum {string} */
-    MediaStatus: "PENDING" | "READY" | "FAILED";
+    MediaStatus: "PENDING" | "READY" | "REJECTED" | "FAILED";
     /** @enum {string} */
     Gender: "UNSPECIFIED" | "MALE" | "FEMALE" | "NONBINARY" | "OTHER";
     /** @enum {string} */
@@ -1133,11 +1480,18 @@ export interface components {
     SwipeAction: "LIKE" | "DISLIKE" | "UNLIKE";
     /** @enum {string} */
     ReportReason: "SPAM" | "HARASSMENT" | "IMPERSONATION" | "NUDITY" | "HATE" | "OTHER";
+    MediaSource: {
+      type: string;
+      srcset: string;
+    };
     Media: {
       id: components["schemas"]["Id"];
       type: components["schemas"]["MediaType"];
       url: string;
       thumbUrl?: string | null;
+      sources?: components["schemas"]["MediaSource"][];
+      previewUrl?: string | null;
+      hlsUrl?: string | null;
       width?: number | null;
       height?: number | null;
       durationSec?: number | null;
@@ -1145,6 +1499,9 @@ export interface components {
     MediaUrls: {
       original: string;
       thumb?: string | null;
+      sources?: components["schemas"]["MediaSource"][];
+      preview?: string | null;
+      hls?: string | null;
     };
     MediaUploadResponse: {
       mediaId: components["schemas"]["Id"];
@@ -1155,6 +1512,7 @@ export interface components {
     MediaResponse: {
       mediaId: components["schemas"]["Id"];
       status: components["schemas"]["MediaStatus"];
+      rejectionReason?: string | null;
       mimeType?: string | null;
       sizeBytes?: number | null;
       width?: number | null;
@@ -1162,6 +1520,33 @@ export interface components {
       durationSec?: number | null;
       urls: components["schemas"]["MediaUrls"];
     };
+    SignedMediaResponse: {
+      mediaId: components["schemas"]["Id"];
+      url: string;
+      thumbUrl?: string | null;
+      previewUrl?: string | null;
+      hlsUrl?: string | null;
+      /** Format: date-time */
+      expiresAt: string;
+    };
+    MediaUploadSessionBody: {
+      fileName: string;
+      mimeType: string;
+      totalBytes: number;
+      sha256: string;
+      visibility?: components["schemas"]["Visibility"];
+    };
+    MediaUploadSessionResponse: {
+      uploadId: string;
+      /** @enum {string} */
+      status: "OPEN" | "COMPLETED" | "FAILED";
+      receivedBytes: number;
+      totalBytes: number;
+      chunkBytes: number;
+      /** Format: date-time */
+      expiresAt: string;
+      mediaId: components["schemas"]["Id"] | null;
+    };
     MediaUploadBody: {
       /** Format: binary */
       file: string;
@@ -1263,6 +1648,36 @@ export interface components {
         demotedPosts: number;
         demotedSuggestions: number;
       };
+      scoring?: {
+        weights: {
+          [key: string]: number;
+        };
+        explorationFactor: number | null;
+        coverage: {
+          features: number;
+          trending: number;
+          engagement: number;
+          creatorAffinity: number;
+          topicAffinity: number;
+        };
+        components: {
+          [key: string]: {
+            meanContribution: number;
+            share: number;
+          };
+        };
+        posts: {
+            postId: components["schemas"]["Id"];
+            score: number;
+            seenPenalty: number;
+            components: {
+              [key: string]: {
+                value: number;
+                contribution: number;
+              };
+            };
+          }[];
+      } | null;
       ranking?: {
         sourceSequence?: string[];
         actorCounts?: {
@@ -1276,6 +1691,24 @@ export interface components {
       hasMorePosts: boolean;
       debug?: components["schemas"]["FeedDebug"] | null;
     };
+    FeedEngagementEvent: {
+      /** @enum {string} */
+      type: "dwell" | "watch" | "profile_open" | "comment_open" | "hide" | "not_interested";
+      /** @enum {string} */
+      itemType: "post" | "suggestion";
+      itemId: components["schemas"]["Id"];
+      dwellMs?: number;
+      watchPct?: number;
+      /** Format: date-time */
+      occurredAt?: string;
+    };
+    FeedEventsBody: {
+      events: components["schemas"]["FeedEngagementEvent"][];
+    };
+    FeedEventsResponse: {
+      accepted: number;
+      rejected: number;
+    };
     PostCreateBody: {
       text?: string | null;
       visibility?: components["schemas"]["Visibility"];
@@ -1444,6 +1877,10 @@ export interface components {
     LikesResponse: {
       likes: components["schemas"]["LikeItem"][];
     };
+    ReceivedLikesResponse: {
+      likes: components["schemas"]["LikeItem"][];
+      nextCursorId: components["schemas"]["Id"] | null;
+    };
     MatchUserProfile: {
       displayName?: string | null;
       locationText?: string | null;
@@ -1491,6 +1928,7 @@ export interface components {
       senderId: components["schemas"]["Id"];
       isSystem: boolean;
       followRequest?: components["schemas"]["FollowRequestRef"] | null;
+      attachmentCount?: number;
     };
     InboxConversation: {
       id: components["schemas"]["Id"];
@@ -1499,32 +1937,121 @@ export interface components {
       otherUser: components["schemas"]["InboxUser"];
       lastMessage: components["schemas"]["InboxMessage"] | null;
       unreadCount: number;
+      readOnly: boolean;
     };
     InboxResponse: {
       conversations: components["schemas"]["InboxConversation"][];
       nextCursorId: components["schemas"]["Id"] | null;
     };
+    MessageReaction: {
+      emoji: string;
+      userIds: string[];
+    };
+    MessageAttachment: {
+      id: components["schemas"]["Id"];
+      type: components["schemas"]["MediaType"];
+      mimeType: string | null;
+      width: number | null;
+      height: number | null;
+      durationSec: number | null;
+      url: string;
+    };
     MessageItem: {
       id: components["schemas"]["Id"];
       body: string;
       senderId: components["schemas"]["Id"];
       /** Format: date-time */
       createdAt: string;
+      editedAt?: string | null;
       isSystem: boolean;
       followRequest?: components["schemas"]["FollowRequestRef"] | null;
+      reactions?: components["schemas"]["MessageReaction"][];
+      attachments?: components["schemas"]["MessageAttachment"][];
     };
     MessageListResponse: {
       conversationId: components["schemas"]["Id"];
       messages: components["schemas"]["MessageItem"][];
       nextCursorId: components["schemas"]["Id"] | null;
+      readOnly?: boolean;
+      lastReadMessageId: components["schemas"]["Id"] | null;
+      otherLastReadMessageId: components["schemas"]["Id"] | null;
+    };
+    ReadUpToBody: {
+      messageId: components["schemas"]["Id"];
+    };
+    ReadUpToResponse: {
+      conversationId: components["schemas"]["Id"];
+      lastReadMessageId: components["schemas"]["Id"] | null;
+      /** Format: date-time */
+      lastReadAt: string | null;
+      unreadCount: number;
+    };
+    MessageSearchHit: {
+      messageId: components["schemas"]["Id"];
+      conversationId: components["schemas"]["Id"];
+      senderId: components["schemas"]["Id"];
+      /** Format: date-time */
+      createdAt: string;
+      otherUser: ({
+        id: components["schemas"]["Id"];
+        displayName: string | null;
+        avatarUrl: string | null;
+      }) | null;
+      snippet: string;
+      highlights: {
+          start: number;
+          end: number;
+        }[];
+    };
+    MessageSearchResponse: {
+      q: string;
+      hits: components["schemas"]["MessageSearchHit"][];
+      nextCursorId: components["schemas"]["Id"] | null;
+    };
+    UnmatchResponse: {
+      ok: boolean;
+      matchId: components["schemas"]["Id"];
+      conversationId: components["schemas"]["Id"] | null;
+      /** Format: date-time */
+      closedAt: string;
     };
     MessageSendBody: {
-      body: string;
+      body?: string;
+      mediaIds?: components["schemas"]["Id"][];
     };
     MessageSendResponse: {
       id: components["schemas"]["Id"];
       /** Format: date-time */
       createdAt: string;
+      attachments: components["schemas"]["MessageAttachment"][];
+    };
+    MessageEditBody: {
+      body: string;
+    };
+    MessageEditResponse: {
+      id: components["schemas"]["Id"];
+      body: string;
+      editedAt: string | null;
+    };
+    MessageEditHistoryResponse: {
+      messageId: components["schemas"]["Id"];
+      edits: {
+          body: string;
+          /** Format: date-time */
+          editedAt: string;
+        }[];
+    };
+    MessageUnsendResponse: {
+      ok: boolean;
+      /** Format: date-time */
+      deletedAt: string;
+    };
+    MessageReactionBody: {
+      emoji: string;
+    };
+    MessageReactionsResponse: {
+      messageId: components["schemas"]["Id"];
+      reactions: components["schemas"]["MessageReaction"][];
     };
     QuizOption: {
       id: components["schemas"]["Id"];
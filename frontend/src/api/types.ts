@@ -1,3 +1,4 @@
+import type { WsNotification, WsNotificationType } from '@app/shared/ws/contracts'
 import type { components } from './openapi'
 
 /**
@@ -31,11 +32,16 @@ export type RatingSummary = {
 
 export type CompatibilitySummary = components['schemas']['CompatibilitySummary']
 
+export type MediaSource = components['schemas']['MediaSource']
+
 export type FeedMedia = {
   id: Id
   type: MediaType
   url: string
   thumbUrl?: string | null
+  sources?: MediaSource[]
+  previewUrl?: string | null
+  hlsUrl?: string | null
   width?: number | null
   height?: number | null
   durationSec?: number | null
@@ -150,7 +156,16 @@ export type FeedResponse = {
 // Re-export schema enums/types for convenience
 export type Visibility = components['schemas']['Visibility']
 export type MediaType = components['schemas']['MediaType']
-export type ProfileMedia = { id: Id; url: string; type?: MediaType; thumbUrl?: string | null }
+export type FeedEngagementEvent = components['schemas']['FeedEngagementEvent']
+export type ProfileMedia = {
+  id: Id
+  url: string
+  type?: MediaType
+  thumbUrl?: string | null
+  sources?: MediaSource[]
+}
+export type MessageAttachment = components['schemas']['MessageAttachment']
+export type MessageSearchHit = components['schemas']['MessageSearchHit']
 
 export type SwipeAction = components['schemas']['SwipeAction']
 export type LikeAction = SwipeAction
@@ -158,6 +173,76 @@ export type Gender = components['schemas']['Gender']
 export type DatingIntent = components['schemas']['DatingIntent']
 export type AccessStatus = components['schemas']['AccessStatus']
 export type LikeBody = { toUserId: Id; action: LikeAction }
+
+export type DatingPreferences = {
+  preferredAgeMin: number | null
+  preferredAgeMax: number | null
+  preferredDistanceKm: number | null
+  preferredGenders: Gender[]
+}
+
+export type DatingPreferencesResponse = DatingPreferences & { updatedAt: string | null }
+
+export type PrivacySettings = {
+  hideOnlineStatus: boolean
+  hideLastSeen: boolean
+  disableTypingIndicators: boolean
+  disableReadReceipts: boolean
+}
+
+export type BlockedUser = {
+  id: Id
+  userId: Id
+  blockedAt: string
+  profile: { displayName: string | null; avatarUrl: string | null } | null
+}
+
+export type BlockListResponse = { blocks: BlockedUser[]; nextCursorId: Id | null }
+
+export type MutedUser = {
+  id: Id
+  userId: Id
+  mutedAt: string
+  profile: { displayName: string | null; avatarUrl: string | null } | null
+}
+
+export type MuteListResponse = { mutes: MutedUser[]; nextCursorId: Id | null }
+
+export type AuthSession = {
+  id: Id
+  deviceLabel: string | null
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastUsedAt: string
+  current: boolean
+}
+
+export type AuthSessionListResponse = { sessions: AuthSession[] }
+
+export type AccountExportFormat = 'json' | 'zip'
+
+export type AccountExportStatus = {
+  jobRunId: Id
+  status: 'QUEUED' | 'RUNNING' | 'SUCCESS' | 'FAILED' | 'CANCELLED'
+  format: AccountExportFormat
+  requestedAt: string
+  finishedAt: string | null
+  sizeBytes: number | null
+  expiresAt: string | null
+  downloadable: boolean
+}
+
+export type AccountDeletionResponse = { ok: boolean; deletionScheduledFor: string }
+
+export type NotificationType = WsNotificationType
+export type AppNotification = WsNotification
+export type NotificationListResponse = {
+  notifications: AppNotification[]
+  nextCursorId: Id | null
+  unreadCount: number
+}
+export type NotificationSettings = { types: NotificationType[]; mutedTypes: NotificationType[] }
 export type RateBody = components['schemas']['RateBody']
 
 export type ProfileAccessInfo = {
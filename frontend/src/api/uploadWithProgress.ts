@@ -1,9 +1,17 @@
 /**
- * Upload with progress tracking using XMLHttpRequest
- * Fetch API doesn't support upload progress, so we use XHR for file uploads
+ * Resumable upload with progress tracking
+ * The file is sent in chunks to an upload session (create, PUT chunks, complete).
+ * A dropped connection only costs the chunk in flight: after reconnecting we ask the
+ * server how many bytes it has and continue from there.
+ * Chunks use XMLHttpRequest because fetch doesn't support upload progress.
  */
 
-import { HttpError } from './http'
+import { HttpError, http } from './http'
+import type {
+  ApiMediaUploadResponse,
+  ApiMediaUploadSessionBody,
+  ApiMediaUploadSessionResponse,
+} from './contracts'
 
 export type UploadProgress = {
   loaded: number
@@ -14,77 +22,205 @@ export type UploadProgress = {
 export type UploadWithProgressOptions = {
   onProgress?: (progress: UploadProgress) => void
   signal?: AbortSignal
+  visibility?: ApiMediaUploadSessionBody['visibility']
+  // Resolves once the device is back online (see useNetworkStatus); resuming waits on it
+  waitForOnline?: () => Promise<void>
+}
+
+// Consecutive failures without any new bytes reaching the server before giving up
+const MAX_RESUME_ATTEMPTS = 6
+const RETRY_BASE_DELAY_MS = 1000
+const RETRY_MAX_DELAY_MS = 15_000
+
+class NetworkError extends Error {
+  constructor() {
+    super('Network error')
+  }
+}
+
+const abortError = () => new DOMException('Upload aborted', 'AbortError')
+
+const isRetryable = (err: unknown) =>
+  err instanceof NetworkError ||
+  err instanceof TypeError || // fetch network failure
+  (err instanceof HttpError && (err.status === 408 || err.status === 409 || err.status >= 500))
+
+const receivedBytesOf = (err: unknown): number | null => {
+  if (!(err instanceof HttpError)) return null
+  const body = err.body as { receivedBytes?: unknown } | null
+  return typeof body?.receivedBytes === 'number' ? body.receivedBytes : null
+}
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        reject(abortError())
+      },
+      { once: true }
+    )
+  })
+
+async function sha256Hex(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
 }
 
 /**
- * Upload file with progress tracking
- * Returns the same response as api.media.upload but with progress callbacks
+ * PUT one chunk at `offset`; resolves with the session state after the write
  */
-export async function uploadWithProgress<T>(
+function putChunk(
   url: string,
-  file: File,
-  options: UploadWithProgressOptions = {}
-): Promise<T> {
-  const { onProgress, signal } = options
-
+  chunk: Blob,
+  offset: number,
+  onLoaded: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<ApiMediaUploadSessionResponse> {
   return new Promise((resolve, reject) => {
     const xhr = new XMLHttpRequest()
+    const onAbort = () => xhr.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const settle = () => signal?.removeEventListener('abort', onAbort)
 
-    // Handle abort
-    if (signal) {
-      signal.addEventListener('abort', () => {
-        xhr.abort()
-        reject(new DOMException('Upload aborted', 'AbortError'))
-      })
-    }
-
-    // Track progress
-    xhr.upload.addEventListener('progress', (event) => {
-      if (event.lengthComputable && onProgress) {
-        onProgress({
-          loaded: event.loaded,
-          total: event.total,
-          percent: Math.round((event.loaded / event.total) * 100),
-        })
-      }
+    xhr.upload.addEventListener('progress', event => {
+      onLoaded(event.loaded)
     })
 
-    // Handle completion
     xhr.addEventListener('load', () => {
-      if (xhr.status >= 200 && xhr.status < 300) {
-        try {
-          const response = JSON.parse(xhr.responseText)
-          resolve(response as T)
-        } catch (err) {
-          reject(new Error(`Invalid JSON response: ${err}`))
-        }
-      } else {
-        try {
-          const error = JSON.parse(xhr.responseText)
-          const message = error?.error || xhr.statusText || 'Upload failed'
-          reject(new HttpError(message, xhr.status, error))
-        } catch {
-          reject(new HttpError(xhr.statusText || 'Upload failed', xhr.status, null))
-        }
+      settle()
+      let body: unknown = null
+      try {
+        body = JSON.parse(xhr.responseText)
+      } catch {
+        // Non-JSON error pages are reported by status below
+      }
+      if (xhr.status >= 200 && xhr.status < 300 && body) {
+        resolve(body as ApiMediaUploadSessionResponse)
+        return
       }
+      const message =
+        (body as { error?: string } | null)?.error || xhr.statusText || 'Upload failed'
+      reject(new HttpError(message, xhr.status, body))
     })
 
-    // Handle errors
     xhr.addEventListener('error', () => {
-      reject(new Error('Network error'))
+      settle()
+      reject(new NetworkError())
+    })
+
+    xhr.addEventListener('timeout', () => {
+      settle()
+      reject(new NetworkError())
     })
 
     xhr.addEventListener('abort', () => {
-      reject(new DOMException('Upload aborted', 'AbortError'))
+      settle()
+      reject(abortError())
     })
 
-    // Start upload
-    xhr.open('POST', url)
+    xhr.open('PUT', url)
     xhr.withCredentials = true // Include cookies
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream')
+    xhr.setRequestHeader('Upload-Offset', String(offset))
+    xhr.send(chunk)
+  })
+}
+
+/**
+ * Upload a file to the resumable upload endpoint at `url` (the sessions collection)
+ * Returns the same response as api.media.upload
+ */
+export async function uploadWithProgress(
+  url: string,
+  file: File,
+  options: UploadWithProgressOptions = {}
+): Promise<ApiMediaUploadResponse> {
+  const { onProgress, signal, visibility, waitForOnline } = options
+  const total = file.size
 
-    const formData = new FormData()
-    formData.append('file', file)
+  const report = (loaded: number) => {
+    onProgress?.({
+      loaded,
+      total,
+      percent: total > 0 ? Math.round((loaded / total) * 100) : 100,
+    })
+  }
 
-    xhr.send(formData)
-  })
+  // Wait out a failure before resuming; throws once it is not worth retrying
+  let attempts = 0
+  const backoff = async (err: unknown) => {
+    if (signal?.aborted || (err instanceof DOMException && err.name === 'AbortError')) throw err
+    if (!isRetryable(err) || ++attempts > MAX_RESUME_ATTEMPTS) throw err
+    await delay(Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS), signal)
+    await waitForOnline?.()
+  }
+  const withResume = async <T>(fn: () => Promise<T>): Promise<T> => {
+    for (;;) {
+      if (signal?.aborted) throw abortError()
+      try {
+        return await fn()
+      } catch (err) {
+        await backoff(err)
+      }
+    }
+  }
+
+  const sha256 = await sha256Hex(file)
+  if (signal?.aborted) throw abortError()
+
+  const body: ApiMediaUploadSessionBody = {
+    fileName: file.name,
+    mimeType: file.type,
+    totalBytes: total,
+    sha256,
+    visibility,
+  }
+  const session = await withResume(() =>
+    http<ApiMediaUploadSessionResponse>(url, 'POST', { body, signal })
+  )
+  const sessionUrl = `${url}/${encodeURIComponent(session.uploadId)}`
+
+  try {
+    let offset = session.receivedBytes
+    report(offset)
+
+    while (offset < total) {
+      const start = offset
+      try {
+        const state = await putChunk(
+          sessionUrl,
+          file.slice(start, Math.min(start + session.chunkBytes, total)),
+          start,
+          loaded => report(start + loaded),
+          signal
+        )
+        if (state.receivedBytes > start) attempts = 0
+        offset = state.receivedBytes
+      } catch (err) {
+        await backoff(err)
+        // Ask the server where to continue; part of the chunk may have landed before the drop
+        offset =
+          receivedBytesOf(err) ??
+          (
+            await withResume(() =>
+              http<ApiMediaUploadSessionResponse>(sessionUrl, 'GET', { signal })
+            )
+          ).receivedBytes
+      }
+      report(offset)
+    }
+
+    // Completing is idempotent on the server, so a lost response is safe to retry
+    return await withResume(() =>
+      http<ApiMediaUploadResponse>(`${sessionUrl}/complete`, 'POST', { signal, timeout: 120_000 })
+    )
+  } catch (err) {
+    if (signal?.aborted) {
+      http(sessionUrl, 'DELETE').catch(() => null)
+    }
+    throw err
+  }
 }
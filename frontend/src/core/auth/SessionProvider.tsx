@@ -20,6 +20,7 @@ const isAbortError = (error: unknown): boolean => {
 type SessionData = { 
   userId: string;
   role: 'USER' | 'ADMIN' | 'SUPER_ADMIN';
+  emailVerified: boolean;
 } | null
 
 type SessionContextValue = {
@@ -0,0 +1,161 @@
+import { useEffect, useRef } from 'react'
+import { api } from '../../api/client'
+import type { FeedCard, FeedEngagementEvent } from '../../api/types'
+import { API_BASE_URL } from '../../config/env'
+import { HttpError } from '../../api/http'
+
+export type FeedEngagementType = FeedEngagementEvent['type']
+type FeedEngagementTarget = Pick<FeedEngagementEvent, 'itemType' | 'itemId'>
+
+const FLUSH_DELAY_MS = 5000
+// The endpoint accepts up to 100 events per request
+const MAX_BATCH_SIZE = 50
+// Bound the retry queue while offline
+const MAX_QUEUED_EVENTS = 200
+// Cards scrolled straight past are not a dwell
+const MIN_DWELL_MS = 500
+
+// Set on RiverCardFrame's <article>, so media code can find its card without props
+const FEED_CARD_ID_ATTR = 'data-feed-card-id'
+const FEED_CARD_KIND_ATTR = 'data-feed-card-kind'
+
+let queue: FeedEngagementEvent[] = []
+let flushTimeout: ReturnType<typeof setTimeout> | null = null
+let flushInFlight = false
+
+/**
+ * Backend item for a card: posts by post id, profile/match cards by user id.
+ * Grid, question and optimistic cards have no item and are not tracked.
+ */
+export function feedEngagementTarget(kind: string, cardId: string): FeedEngagementTarget | null {
+  if (kind === 'post') {
+    const match = /^(?:post-)?(\d+)$/.exec(cardId)
+    return match ? { itemType: 'post', itemId: match[1] } : null
+  }
+  if (kind === 'profile' || kind === 'match' || kind === 'suggestion') {
+    const match = /^(?:profile-|match-)?(\d+)$/.exec(cardId)
+    return match ? { itemType: 'suggestion', itemId: match[1] } : null
+  }
+  return null
+}
+
+function scheduleFlush() {
+  if (flushTimeout) return
+  flushTimeout = setTimeout(() => {
+    flushTimeout = null
+    void flushFeedEngagement()
+  }, FLUSH_DELAY_MS)
+}
+
+export function trackFeedEngagement(
+  kind: string,
+  cardId: string,
+  type: FeedEngagementType,
+  metrics: { dwellMs?: number; watchPct?: number } = {}
+) {
+  const target = feedEngagementTarget(kind, cardId)
+  if (!target) return
+
+  queue.push({ ...target, type, ...metrics, occurredAt: new Date().toISOString() })
+  if (queue.length > MAX_QUEUED_EVENTS) {
+    queue = queue.slice(-MAX_QUEUED_EVENTS)
+  }
+
+  if (queue.length >= MAX_BATCH_SIZE) {
+    void flushFeedEngagement()
+  } else {
+    scheduleFlush()
+  }
+}
+
+export async function flushFeedEngagement() {
+  if (flushTimeout) {
+    clearTimeout(flushTimeout)
+    flushTimeout = null
+  }
+  if (flushInFlight || queue.length === 0) return
+
+  flushInFlight = true
+  const batch = queue.slice(0, MAX_BATCH_SIZE)
+  queue = queue.slice(batch.length)
+
+  try {
+    await api.feedSync.events({ events: batch })
+  } catch (e) {
+    // Signed out or rejected: retrying would fail the same way
+    const retryable = !(e instanceof HttpError) || e.status >= 500
+    if (retryable) {
+      queue = [...batch, ...queue].slice(-MAX_QUEUED_EVENTS)
+    }
+    if (import.meta.env?.DEV) {
+      console.warn('[feed:engagement] flush failed', { retryable, error: e })
+    }
+  } finally {
+    flushInFlight = false
+    if (queue.length > 0) scheduleFlush()
+  }
+}
+
+// Flush pending events using sendBeacon (for pagehide/beforeunload)
+export function flushFeedEngagementWithBeacon() {
+  if (queue.length === 0 || !navigator.sendBeacon) return
+
+  while (queue.length > 0) {
+    const batch = queue.slice(0, MAX_BATCH_SIZE)
+    const blob = new Blob([JSON.stringify({ events: batch })], { type: 'application/json' })
+    if (!navigator.sendBeacon(`${API_BASE_URL}/api/feed/events`, blob)) return
+    queue = queue.slice(batch.length)
+  }
+}
+
+/**
+ * Report how far a feed video was watched (0-100); the card comes from the
+ * closest RiverCardFrame. Works on elements already detached on unmount.
+ */
+export function reportFeedVideoWatch(video: HTMLVideoElement, watchPct: number) {
+  const cardElement = video.closest<HTMLElement>(`[${FEED_CARD_ID_ATTR}]`)
+  const cardId = cardElement?.getAttribute(FEED_CARD_ID_ATTR)
+  const kind = cardElement?.getAttribute(FEED_CARD_KIND_ATTR)
+  if (!cardId || !kind) return
+  trackFeedEngagement(kind, cardId, 'watch', { watchPct: Math.min(100, Math.max(0, watchPct)) })
+}
+
+/**
+ * Dwell time: one event each time the card leaves the viewport (or the tab is
+ * hidden, or the card unmounts) after being visible
+ */
+export function useFeedDwell(card: Pick<FeedCard, 'id' | 'kind' | 'flags'>, isVisible: boolean) {
+  const visibleSinceRef = useRef<number | null>(null)
+  const cardId = card.id
+  const cardKind = card.kind
+  const isOptimistic = card.flags?.optimistic ?? false
+
+  useEffect(() => {
+    if (isOptimistic || !isVisible) return
+
+    const start = () => {
+      visibleSinceRef.current = document.visibilityState === 'visible' ? Date.now() : null
+    }
+    const end = () => {
+      const since = visibleSinceRef.current
+      visibleSinceRef.current = null
+      if (since === null) return
+      const dwellMs = Date.now() - since
+      if (dwellMs >= MIN_DWELL_MS) trackFeedEngagement(cardKind, cardId, 'dwell', { dwellMs })
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        end()
+      } else {
+        start()
+      }
+    }
+
+    start()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      end()
+    }
+  }, [isVisible, isOptimistic, cardId, cardKind])
+}
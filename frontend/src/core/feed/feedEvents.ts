@@ -34,3 +34,14 @@ export const dispatchFeedRemoveOptimistic = (detail: FeedRemoveOptimisticDetail)
   if (!canDispatch()) return
   window.dispatchEvent(new CustomEvent<FeedRemoveOptimisticDetail>('feed:remove-optimistic', { detail }))
 }
+
+// Drop cards from the loaded River: one card (hide) or every card by an actor (mute)
+export type FeedRemoveCardsDetail = {
+  cardId?: string
+  actorId?: string
+}
+
+export const dispatchFeedRemoveCards = (detail: FeedRemoveCardsDetail) => {
+  if (!canDispatch()) return
+  window.dispatchEvent(new CustomEvent<FeedRemoveCardsDetail>('feed:remove-cards', { detail }))
+}
@@ -1,6 +1,12 @@
 import { useEffect, useRef } from 'react'
 import { api } from '../../api/client'
 import { seenBatchManager } from './useFeedSeen'
+import {
+  feedEngagementTarget,
+  flushFeedEngagement,
+  flushFeedEngagementWithBeacon,
+  trackFeedEngagement,
+} from './feedEngagement'
 
 type SeenEventPayload = {
   itemType: string
@@ -146,7 +152,9 @@ export function useFeedSync() {
     }
 
     // Handle negative actions
-    const handleHide = (event: CustomEvent<{ itemType: string; itemId: string }>) => {
+    const handleHide = (
+      event: CustomEvent<{ itemType: string; itemId: string; reason?: 'hide' | 'not_interested' }>
+    ) => {
       const payload: NegativeActionPayload = {
         itemType: event.detail.itemType,
         itemId: event.detail.itemId,
@@ -154,9 +162,13 @@ export function useFeedSync() {
         timestamp: Date.now(),
       }
       saveNegativeAction(payload)
+      const reason = event.detail.reason ?? 'hide'
+      trackFeedEngagement(event.detail.itemType, event.detail.itemId, reason)
 
-      // Sync to API (stub - replace with actual endpoint)
-      api.feedSync.hide(event.detail.itemId).catch(e => {
+      // Only an explicit post hide is stored server-side; "not interested" is a ranking signal
+      const target = feedEngagementTarget(event.detail.itemType, event.detail.itemId)
+      if (reason !== 'hide' || target?.itemType !== 'post') return
+      api.feedSync.hide(target.itemId).catch(e => {
         if (import.meta.env?.DEV) {
           console.warn('[feed:sync] hide failed', e)
         }
@@ -250,6 +262,7 @@ export function useFeedSync() {
         // Tab is hidden - flush immediately
         forceSyncSeenBatch()
         seenBatchManager.forceFlush()
+        void flushFeedEngagement()
       }
     }
 
@@ -257,12 +270,14 @@ export function useFeedSync() {
     const handleBeforeUnload = () => {
       // Use sendBeacon for reliable delivery
       flushWithBeacon()
+      flushFeedEngagementWithBeacon()
       seenBatchManager.forceFlush()
     }
 
     // Flush on pagehide (more reliable than beforeunload on mobile)
     const handlePageHide = () => {
       flushWithBeacon()
+      flushFeedEngagementWithBeacon()
       seenBatchManager.forceFlush()
     }
 
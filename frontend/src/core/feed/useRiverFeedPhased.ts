@@ -3,6 +3,7 @@ import { api } from '../../api/client'
 import type { FeedCard } from '../../api/types'
 import { usePhase1FromHTML } from './usePhase1FromHTML'
 import { subscribeAuthChange } from '../auth/authEvents'
+import type { FeedRemoveCardsDetail } from './feedEvents'
 
 type RiverState = {
   items: FeedCard[]
@@ -176,6 +177,24 @@ const clearFeedCache = (reason: string) => {
   debugLog('[feed] cache cleared', { reason })
 }
 
+// Hidden posts and muted actors leave the loaded feed and the cached snapshots at once;
+// the server excludes them from every later page
+const removeFeedCards = ({ cardId, actorId }: FeedRemoveCardsDetail) => {
+  const keep = (card: FeedCard) =>
+    card.id !== cardId && (actorId === undefined || String(card.actor?.id) !== actorId)
+  if (phase1Snapshot) {
+    phase1Snapshot = { ...phase1Snapshot, items: phase1Snapshot.items.filter(keep) }
+  }
+  if (phase2Snapshot) {
+    phase2Snapshot = { ...phase2Snapshot, items: phase2Snapshot.items.filter(keep) }
+  }
+  const items = feedStoreState.items.filter(keep)
+  if (items.length !== feedStoreState.items.length) {
+    setFeedStoreState({ ...feedStoreState, items })
+    debugLog('[feed] cards removed', { cardId, actorId })
+  }
+}
+
 let authUnsubscribe: (() => void) | null = null
 const ensureAuthSubscription = () => {
   if (authUnsubscribe || typeof window === 'undefined') return
@@ -275,6 +294,17 @@ export function useRiverFeedPhased() {
     }
   }, [])
 
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    const handler = (event: Event) => {
+      if (event instanceof CustomEvent && event.detail) removeFeedCards(event.detail)
+    }
+    window.addEventListener('feed:remove-cards', handler)
+    return () => {
+      window.removeEventListener('feed:remove-cards', handler)
+    }
+  }, [])
+
   const getPhase1Snapshot = useCallback(async (): Promise<CachedSnapshot> => {
     const cached = getFreshPhase1Snapshot()
     if (cached) return cached
@@ -1,11 +1,18 @@
 import { useEffect, useRef, useState } from 'react'
-import { videoPlaybackManager } from './videoPlaybackManager'
+import {
+  videoPlaybackManager,
+  type VideoSourceMode,
+  type VideoSources,
+} from './videoPlaybackManager'
+import { reportFeedVideoWatch } from './feedEngagement'
 
 type VideoPlaybackOptions = {
   autoplay?: boolean
   muted?: boolean
   loop?: boolean
   pauseOnLeave?: boolean
+  // When set, the hook picks the source: preview loop for autoplay, full video on user play
+  sources?: VideoSources
 }
 
 export function useVideoPlayback(
@@ -13,11 +20,31 @@ export function useVideoPlayback(
   isIntersecting: boolean,
   options: VideoPlaybackOptions = {}
 ) {
-  const { autoplay = true, loop = false, pauseOnLeave = true } = options
+  const { autoplay = true, loop = false, pauseOnLeave = true, sources } = options
 
   const [isPlaying, setIsPlaying] = useState(false)
+  const [sourceMode, setSourceMode] = useState<VideoSourceMode>('preview')
   const hasPlayedRef = useRef(false)
   const playPromiseRef = useRef<Promise<void> | null>(null)
+  const playOnSourceChangeRef = useRef(false)
+  // Furthest point reached in the full video (0-100) and how much of it was already reported
+  const watchedPctRef = useRef(0)
+  const reportedPctRef = useRef(0)
+
+  const src = sources ? videoPlaybackManager.selectSource(sources, sourceMode) : undefined
+  // The preview is a short clip, so it always loops
+  const shouldLoop = loop || (sourceMode === 'preview' && Boolean(sources?.previewUrl))
+  // Watch-through only means something for the real video, not the preview loop
+  const tracksWatchRef = useRef(false)
+  tracksWatchRef.current = !sources?.previewUrl || sourceMode === 'full'
+
+  // Report watch progress that has not been reported yet
+  const reportWatch = (video: HTMLVideoElement) => {
+    const watchedPct = Math.round(watchedPctRef.current)
+    if (watchedPct <= reportedPctRef.current) return
+    reportedPctRef.current = watchedPct
+    reportFeedVideoWatch(video, watchedPct)
+  }
 
   // Handle viewport intersection
   useEffect(() => {
@@ -48,10 +75,13 @@ export function useVideoPlayback(
             })
         }
       }
-    } else if (pauseOnLeave && isPlaying) {
-      // Card left viewport - pause
-      video.pause()
-      setIsPlaying(false)
+    } else {
+      reportWatch(video)
+      if (pauseOnLeave && isPlaying) {
+        // Card left viewport - pause
+        video.pause()
+        setIsPlaying(false)
+      }
     }
   }, [isIntersecting, autoplay, pauseOnLeave, videoRef, isPlaying])
 
@@ -68,9 +98,19 @@ export function useVideoPlayback(
       setIsPlaying(false)
     }
 
+    const handleTimeUpdate = () => {
+      if (!tracksWatchRef.current || !Number.isFinite(video.duration) || video.duration <= 0) return
+      watchedPctRef.current = Math.max(
+        watchedPctRef.current,
+        (video.currentTime / video.duration) * 100
+      )
+    }
+
     const handleEnded = () => {
+      if (tracksWatchRef.current) watchedPctRef.current = 100
+      reportWatch(video)
       setIsPlaying(false)
-      if (loop) {
+      if (shouldLoop) {
         video.play().catch(() => {
           // Ignore loop play errors
         })
@@ -80,14 +120,30 @@ export function useVideoPlayback(
     video.addEventListener('play', handlePlay)
     video.addEventListener('pause', handlePause)
     video.addEventListener('ended', handleEnded)
+    video.addEventListener('timeupdate', handleTimeUpdate)
 
     return () => {
+      reportWatch(video)
       videoPlaybackManager.release(video)
       video.removeEventListener('play', handlePlay)
       video.removeEventListener('pause', handlePause)
       video.removeEventListener('ended', handleEnded)
+      video.removeEventListener('timeupdate', handleTimeUpdate)
     }
-  }, [videoRef, loop])
+  }, [videoRef, shouldLoop])
+
+  // Start the full video once the element has switched to it
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || !playOnSourceChangeRef.current) return
+    playOnSourceChangeRef.current = false
+
+    if (videoPlaybackManager.requestPlay(video)) {
+      video.play().catch(() => {
+        setIsPlaying(false)
+      })
+    }
+  }, [src, videoRef])
 
   const togglePlayPause = async () => {
     const video = videoRef.current
@@ -96,6 +152,13 @@ export function useVideoPlayback(
     if (isPlaying) {
       video.pause()
     } else {
+      const fullSrc = sources ? videoPlaybackManager.selectSource(sources, 'full') : undefined
+      if (fullSrc && fullSrc !== src) {
+        // The preview is a separate clip; playback resumes from the effect above
+        playOnSourceChangeRef.current = true
+        setSourceMode('full')
+        return
+      }
       if (videoPlaybackManager.requestPlay(video)) {
         try {
           await video.play()
@@ -111,5 +174,7 @@ export function useVideoPlayback(
   return {
     isPlaying,
     togglePlayPause,
+    src,
+    loop: shouldLoop,
   }
 }
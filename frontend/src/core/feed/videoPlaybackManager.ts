@@ -1,7 +1,19 @@
+export type VideoSources = {
+  url: string
+  previewUrl?: string | null
+  hlsUrl?: string | null
+}
+
+// 'preview' is the muted autoplay loop, 'full' the whole video once the user asks for it
+export type VideoSourceMode = 'preview' | 'full'
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl'
+
 // Global video playback manager to limit simultaneous playback
 class VideoPlaybackManager {
   private activeVideo: HTMLVideoElement | null = null
   private autoplayEnabled = true
+  private nativeHls: boolean | null = null
 
   setAutoplayEnabled(enabled: boolean) {
     this.autoplayEnabled = enabled
@@ -25,6 +37,25 @@ class VideoPlaybackManager {
     }
   }
 
+  /**
+   * Cheapest source for the mode: the small preview loop for autoplay, then HLS
+   * where the browser plays it natively (Safari, iOS, Android Chrome), then the original
+   */
+  selectSource(sources: VideoSources, mode: VideoSourceMode): string {
+    if (mode === 'preview' && sources.previewUrl) return sources.previewUrl
+    if (sources.hlsUrl && this.supportsNativeHls()) return sources.hlsUrl
+    return sources.url
+  }
+
+  private supportsNativeHls() {
+    if (this.nativeHls === null) {
+      this.nativeHls =
+        typeof document !== 'undefined' &&
+        document.createElement('video').canPlayType(HLS_MIME_TYPE) !== ''
+    }
+    return this.nativeHls
+  }
+
   pauseAll() {
     if (this.activeVideo && !this.activeVideo.paused) {
       this.activeVideo.pause()
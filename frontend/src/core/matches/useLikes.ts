@@ -1,5 +1,6 @@
-import { useCallback, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { api } from '../../api/client'
+import { realtime } from '../../api/realtime'
 import { useAsync } from '../hooks/useAsync'
 
 export function useLikes() {
@@ -7,5 +8,8 @@ export function useLikes() {
   const { data, loading, error } = useAsync(signal => api.likes(signal), [tick])
   const refresh = useCallback(() => setTick(v => v + 1), [])
 
+  // A new match moves the liked profile out of this list
+  useEffect(() => realtime.on('server.match.created', refresh), [refresh])
+
   return { data, loading, error, refresh }
 }
@@ -1,5 +1,6 @@
-import { useCallback, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { api } from '../../api/client'
+import { realtime } from '../../api/realtime'
 import { useAsync } from '../hooks/useAsync'
 
 export function useMatches() {
@@ -7,5 +8,15 @@ export function useMatches() {
   const { data, loading, error } = useAsync(signal => api.messaging.matches(signal), [tick])
   const refresh = useCallback(() => setTick(v => v + 1), [])
 
+  // Match lifecycle events are delivered on the user's own topic, so no subscription is needed
+  useEffect(() => {
+    const unsubscribeCreated = realtime.on('server.match.created', refresh)
+    const unsubscribeClosed = realtime.on('server.match.closed', refresh)
+    return () => {
+      unsubscribeCreated()
+      unsubscribeClosed()
+    }
+  }, [refresh])
+
   return { data, loading, error, refresh }
 }
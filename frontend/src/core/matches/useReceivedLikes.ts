@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '../../api/client'
+// eslint-disable-next-line no-restricted-imports
+import type { ApiLikeItem } from '../../api/contracts'
+import type { Id } from '../../api/types'
+import { realtime } from '../../api/realtime'
+import { getErrorMessage } from '../utils/errors'
+import { idsEqual } from '../utils/ids'
+
+export function useReceivedLikes() {
+  const [state, setState] = useState<{
+    likes: ApiLikeItem[]
+    nextCursorId: Id | null
+    loading: boolean
+    loadingMore: boolean
+    error: string | null
+  }>({
+    likes: [],
+    nextCursorId: null,
+    loading: true,
+    loadingMore: false,
+    error: null,
+  })
+  const [tick, setTick] = useState(0)
+
+  const refresh = useCallback(() => setTick(v => v + 1), [])
+
+  useEffect(() => {
+    let cancelled = false
+    const ctrl = new AbortController()
+    setState(s => ({ ...s, loading: true, error: null }))
+    api
+      .likesReceived(undefined, undefined, ctrl.signal)
+      .then(res => {
+        if (cancelled) return
+        setState({
+          likes: res.likes ?? [],
+          nextCursorId: res.nextCursorId ?? null,
+          loading: false,
+          loadingMore: false,
+          error: null,
+        })
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return
+        setState(s => ({
+          ...s,
+          loading: false,
+          loadingMore: false,
+          error: getErrorMessage(e, 'Failed to load likes'),
+        }))
+      })
+    return () => {
+      cancelled = true
+      ctrl.abort()
+    }
+  }, [tick])
+
+  // A match from elsewhere (e.g. liking back from the profile page) answers the like
+  useEffect(() => realtime.on('server.match.created', refresh), [refresh])
+
+  const loadMore = useCallback(async () => {
+    if (state.loadingMore || state.nextCursorId == null) return
+    setState(s => ({ ...s, loadingMore: true, error: null }))
+    try {
+      const res = await api.likesReceived(state.nextCursorId)
+      setState(s => ({
+        ...s,
+        likes: [...s.likes, ...(res.likes ?? [])],
+        nextCursorId: res.nextCursorId ?? null,
+        loadingMore: false,
+        error: null,
+      }))
+    } catch (e: unknown) {
+      setState(s => ({
+        ...s,
+        loadingMore: false,
+        error: getErrorMessage(e, 'Failed to load more'),
+      }))
+    }
+  }, [state.loadingMore, state.nextCursorId])
+
+  // Drop an answered like locally so the list doesn't wait for a refetch
+  const remove = useCallback((userId: Id) => {
+    setState(s => ({ ...s, likes: s.likes.filter(like => !idsEqual(like.userId, userId)) }))
+  }, [])
+
+  return {
+    data: { likes: state.likes, nextCursorId: state.nextCursorId },
+    loading: state.loading,
+    loadingMore: state.loadingMore,
+    error: state.error,
+    refresh,
+    loadMore,
+    remove,
+  }
+}
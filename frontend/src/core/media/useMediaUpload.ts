@@ -3,11 +3,13 @@
  * Used across profile posts, river posts, and hero tiles
  */
 
-import { useCallback, useRef } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 import { validateMediaFile } from './mediaValidation'
 import { api } from '../../api/client'
+import { realtime } from '../../api/realtime'
 import { uploadWithProgress, type UploadProgress } from '../../api/uploadWithProgress'
 import { API_BASE_URL } from '../../config/env'
+import { useNetworkStatus } from '../network/useNetworkStatus'
 
 export type MediaUploadOptions = {
   onProgress?: (progress: UploadProgress) => void
@@ -28,29 +30,52 @@ export type MediaUploadError = {
 const POLL_INTERVAL_MS = 750
 const MAX_WAIT_MS = 180_000
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
-
 const needsProcessing = (file: File) => {
   if (file.type.startsWith('video/') || file.type.startsWith('audio/')) return true
   const ext = file.name.split('.').pop()?.toLowerCase()
   return ext === 'mp4' || ext === 'webm' || ext === 'ogg' || ext === 'mp3' || ext === 'wav'
 }
 
+const processingError = (status: string, reason?: string | null) =>
+  new Error(status === 'REJECTED' ? reason || 'Media was rejected' : 'Media processing failed')
+
 const waitForMediaReady = async (mediaId: string, signal?: AbortSignal) => {
   const deadline = Date.now() + MAX_WAIT_MS
 
-  while (Date.now() < deadline) {
-    if (signal?.aborted) {
-      throw new DOMException('Aborted', 'AbortError')
-    }
+  // The server pushes the outcome to the uploader; polling covers a missed event
+  let pushed: { status: string; reason: string | null } | null = null
+  let wake: (() => void) | null = null
+  const unsubscribe = realtime.on('server.media.status', data => {
+    if (data.mediaId !== mediaId) return
+    pushed = data
+    wake?.()
+  })
+
+  try {
+    while (Date.now() < deadline) {
+      if (signal?.aborted) {
+        throw new DOMException('Aborted', 'AbortError')
+      }
 
-    const media = await api.media.get(mediaId, signal)
-    if (media.status === 'READY') return
-    if (media.status === 'FAILED') {
-      throw new Error('Media processing failed')
-    }
+      if (!pushed) {
+        const media = await api.media.get(mediaId, signal)
+        if (media.status !== 'PENDING') {
+          pushed = { status: media.status, reason: media.rejectionReason ?? null }
+        }
+      }
+      if (pushed) {
+        if (pushed.status === 'READY') return
+        throw processingError(pushed.status, pushed.reason)
+      }
 
-    await sleep(POLL_INTERVAL_MS)
+      await new Promise<void>(resolve => {
+        wake = resolve
+        setTimeout(resolve, POLL_INTERVAL_MS)
+      })
+      wake = null
+    }
+  } finally {
+    unsubscribe()
   }
 
   throw new Error('Media processing timed out')
@@ -63,6 +88,26 @@ const waitForMediaReady = async (mediaId: string, signal?: AbortSignal) => {
 export function useMediaUpload() {
   const controllersRef = useRef<Map<string, AbortController>>(new Map())
 
+  // Interrupted uploads park here until the connection comes back, then resume
+  const { isOnline } = useNetworkStatus()
+  const isOnlineRef = useRef(isOnline)
+  const reconnectWaitersRef = useRef<Set<() => void>>(new Set())
+
+  useEffect(() => {
+    isOnlineRef.current = isOnline
+    if (!isOnline) return
+    reconnectWaitersRef.current.forEach(resume => resume())
+    reconnectWaitersRef.current.clear()
+  }, [isOnline])
+
+  const waitForOnline = useCallback(
+    () =>
+      isOnlineRef.current
+        ? Promise.resolve()
+        : new Promise<void>(resolve => reconnectWaitersRef.current.add(resolve)),
+    []
+  )
+
   const uploadFile = useCallback(
     async (
       file: File,
@@ -85,21 +130,13 @@ export function useMediaUpload() {
       }
 
       try {
-        // Use XHR for progress tracking (fetch doesn't support upload progress)
-        const uploadUrl = `${API_BASE_URL}/api/media/upload`
-        const result = await uploadWithProgress<{
-          mediaId: bigint
-          status: string
-          mimeType: string
-          urls: { original: string; thumb: string | null }
-        }>(
-          uploadUrl,
-          file,
-          {
-            onProgress: options.onProgress,
-            signal: controller?.signal || options.signal,
-          }
-        )
+        // Chunked and resumable; XHR chunks give progress (fetch doesn't support upload progress)
+        const uploadUrl = `${API_BASE_URL}/api/media/uploads`
+        const result = await uploadWithProgress(uploadUrl, file, {
+          onProgress: options.onProgress,
+          signal: controller?.signal || options.signal,
+          waitForOnline,
+        })
 
         if (needsProcessing(file)) {
           await waitForMediaReady(String(result.mediaId), controller?.signal || options.signal)
@@ -108,7 +145,7 @@ export function useMediaUpload() {
         return {
           mediaId: String(result.mediaId),
           mimeType: result.mimeType,
-          urls: result.urls,
+          urls: { original: result.urls.original, thumb: result.urls.thumb ?? null },
         }
       } finally {
         if (controller) {
@@ -121,7 +158,7 @@ export function useMediaUpload() {
         }
       }
     },
-    []
+    [waitForOnline]
   )
 
   const uploadFiles = useCallback(
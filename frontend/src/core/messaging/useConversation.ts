@@ -1,11 +1,17 @@
-import { useCallback, useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { api } from '../../api/client'
 // eslint-disable-next-line no-restricted-imports
-import type { ApiMessageItem } from '../../api/contracts'
+import type { ApiMessageAttachment, ApiMessageItem, ApiMessageReaction } from '../../api/contracts'
 import type { Id } from '../../api/types'
 import { getErrorMessage } from '../utils/errors'
-import { idsEqual } from '../utils/ids'
+import { compareIds, idsEqual } from '../utils/ids'
 import { realtime } from '../../api/realtime'
+import { useAuth } from '../auth/useAuth'
+
+// Typing is re-sent at most this often while the user keeps typing
+const TYPING_THROTTLE_MS = 3000
+// An indicator without a refresh is assumed stale after this long
+const TYPING_TIMEOUT_MS = 6000
 
 type ConversationState = {
   messages: ApiMessageItem[]
@@ -13,6 +19,9 @@ type ConversationState = {
   loading: boolean
   loadingMore: boolean
   error: string | null
+  readOnly: boolean
+  // How far the other participant has read; drives the "Seen" marker
+  otherLastReadMessageId: Id | null
 }
 
 const isAbortError = (error: unknown): boolean => {
@@ -26,19 +35,32 @@ const isAbortError = (error: unknown): boolean => {
 }
 
 export function useConversation(conversationId: Id | undefined) {
+  const { userId } = useAuth()
   const [state, setState] = useState<ConversationState>({
     messages: [],
     cursor: undefined,
     loading: false,
     loadingMore: false,
     error: null,
+    readOnly: false,
+    otherLastReadMessageId: null,
   })
+  const [otherTyping, setOtherTyping] = useState(false)
+  const lastTypingSentRef = useRef(0)
 
   useEffect(() => {
     if (!conversationId) return
     const ctrl = new AbortController()
     let cancelled = false
-    setState({ messages: [], cursor: undefined, loading: true, loadingMore: false, error: null })
+    setState({
+      messages: [],
+      cursor: undefined,
+      loading: true,
+      loadingMore: false,
+      error: null,
+      readOnly: false,
+      otherLastReadMessageId: null,
+    })
     api.messaging
       .conversation(conversationId, undefined, ctrl.signal)
       .then(res => {
@@ -54,6 +76,8 @@ export function useConversation(conversationId: Id | undefined) {
           loading: false,
           loadingMore: false,
           error: null,
+          readOnly: res.readOnly ?? false,
+          otherLastReadMessageId: res.otherLastReadMessageId ?? null,
         })
       })
       .catch((e: unknown) => {
@@ -64,6 +88,8 @@ export function useConversation(conversationId: Id | undefined) {
           loading: false,
           loadingMore: false,
           error: getErrorMessage(e, 'Failed to load messages'),
+          readOnly: false,
+          otherLastReadMessageId: null,
         })
       })
     return () => {
@@ -76,9 +102,12 @@ export function useConversation(conversationId: Id | undefined) {
     if (!conversationId) return
 
     realtime.subscribe([{ kind: 'conversation', id: String(conversationId) }])
+    setOtherTyping(false)
+    let typingTimer: ReturnType<typeof setTimeout> | undefined
 
     const unsubscribe = realtime.on('server.messenger.message_new', data => {
       if (!idsEqual(data.conversationId, conversationId)) return
+      if (!idsEqual(data.senderId, userId)) setOtherTyping(false)
 
       const message: ApiMessageItem = {
         id: data.messageId,
@@ -86,6 +115,7 @@ export function useConversation(conversationId: Id | undefined) {
         senderId: data.senderId,
         createdAt: data.createdAt,
         isSystem: data.isSystem,
+        attachments: [],
       }
 
       setState(s => {
@@ -94,10 +124,115 @@ export function useConversation(conversationId: Id | undefined) {
 
         return { ...s, messages: [...s.messages, message] }
       })
+
+      // The event only carries ids; attachment details come from the access-checked list
+      if (data.mediaIds.length) {
+        api.messaging
+          .conversation(conversationId)
+          .then(res => {
+            const loaded = res.messages.find(m => idsEqual(m.id, data.messageId))
+            if (loaded?.attachments) {
+              setState(s => patchMessage(s, data.messageId, { attachments: loaded.attachments }))
+            }
+          })
+          .catch(() => undefined)
+      }
     })
 
-    return unsubscribe
-  }, [conversationId])
+    const unsubscribeClosed = realtime.on('server.match.closed', data => {
+      if (!idsEqual(data.conversationId, conversationId)) return
+      setState(s => (s.readOnly ? s : { ...s, readOnly: true }))
+    })
+
+    const unsubscribeEdited = realtime.on('server.messenger.message_edited', data => {
+      if (!idsEqual(data.conversationId, conversationId)) return
+      setState(s => patchMessage(s, data.messageId, { body: data.body, editedAt: data.editedAt }))
+    })
+
+    const unsubscribeDeleted = realtime.on('server.messenger.message_deleted', data => {
+      if (!idsEqual(data.conversationId, conversationId)) return
+      setState(s => removeMessage(s, data.messageId))
+    })
+
+    const unsubscribeReactions = realtime.on('server.messenger.reactions_updated', data => {
+      if (!idsEqual(data.conversationId, conversationId)) return
+      setState(s => patchMessage(s, data.messageId, { reactions: data.reactions }))
+    })
+
+    const unsubscribeWatermark = realtime.on('server.messenger.read_watermark', data => {
+      if (!idsEqual(data.conversationId, conversationId) || idsEqual(data.readerId, userId)) return
+      setState(s =>
+        s.otherLastReadMessageId != null &&
+        compareIds(s.otherLastReadMessageId, data.lastReadMessageId) >= 0
+          ? s
+          : { ...s, otherLastReadMessageId: data.lastReadMessageId }
+      )
+    })
+
+    const unsubscribeTyping = realtime.on('server.messenger.typing', data => {
+      if (!idsEqual(data.conversationId, conversationId) || idsEqual(data.userId, userId)) return
+      clearTimeout(typingTimer)
+      setOtherTyping(data.isTyping)
+      if (data.isTyping) typingTimer = setTimeout(() => setOtherTyping(false), TYPING_TIMEOUT_MS)
+    })
+
+    return () => {
+      clearTimeout(typingTimer)
+      unsubscribe()
+      unsubscribeTyping()
+      unsubscribeClosed()
+      unsubscribeEdited()
+      unsubscribeDeleted()
+      unsubscribeReactions()
+      unsubscribeWatermark()
+    }
+  }, [conversationId, userId])
+
+  // The server drops these for users who turned typing indicators off
+  const sendTyping = useCallback(
+    (isTyping: boolean) => {
+      if (!conversationId || userId == null) return
+      const now = Date.now()
+      if (isTyping && now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return
+      if (!isTyping && lastTypingSentRef.current === 0) return
+      lastTypingSentRef.current = isTyping ? now : 0
+      realtime.send('client.messenger.typing', {
+        conversationId: String(conversationId),
+        userId: String(userId),
+        isTyping,
+      })
+    },
+    [conversationId, userId]
+  )
+
+  const markReadOnly = useCallback(() => {
+    setState(s => (s.readOnly ? s : { ...s, readOnly: true }))
+  }, [])
+
+  // The socket echoes each change back; applying the response as well keeps the UI snappy without it
+  const editMessage = useCallback(async (messageId: Id, body: string) => {
+    const res = await api.messaging.editMessage(messageId, { body })
+    setState(s => patchMessage(s, messageId, { body: res.body, editedAt: res.editedAt }))
+  }, [])
+
+  const unsendMessage = useCallback(async (messageId: Id) => {
+    await api.messaging.unsendMessage(messageId)
+    setState(s => removeMessage(s, messageId))
+  }, [])
+
+  const toggleReaction = useCallback(
+    async (messageId: Id, emoji: string, userId: Id) => {
+      const message = state.messages.find(m => idsEqual(m.id, messageId))
+      const mine = message?.reactions?.some(
+        r => r.emoji === emoji && r.userIds.some(id => idsEqual(id, userId))
+      )
+      const res = mine
+        ? await api.messaging.removeReaction(messageId, emoji)
+        : await api.messaging.addReaction(messageId, emoji)
+      setState(s => patchMessage(s, messageId, { reactions: res.reactions }))
+    },
+    [state.messages]
+  )
 
   const loadOlder = useCallback(async () => {
     if (!conversationId || state.loadingMore || state.cursor === null) return
@@ -110,11 +245,13 @@ export function useConversation(conversationId: Id | undefined) {
         items.push(res.messages[i])
       }
       setState(s => ({
+        ...s,
         messages: [...items, ...s.messages], // Prepend using spread
         cursor: res.nextCursorId ?? null,
         loading: false,
         loadingMore: false,
         error: null,
+        readOnly: s.readOnly || (res.readOnly ?? false),
       }))
     } catch (e: unknown) {
       if (isAbortError(e)) return
@@ -126,5 +263,36 @@ export function useConversation(conversationId: Id | undefined) {
     }
   }, [conversationId, state.cursor, state.loadingMore])
 
-  return { ...state, loadOlder }
+  return {
+    ...state,
+    otherTyping,
+    loadOlder,
+    markReadOnly,
+    sendTyping,
+    editMessage,
+    unsendMessage,
+    toggleReaction,
+  }
+}
+
+function patchMessage(
+  state: ConversationState,
+  messageId: Id,
+  patch: {
+    body?: string
+    editedAt?: string | null
+    reactions?: ApiMessageReaction[]
+    attachments?: ApiMessageAttachment[]
+  }
+): ConversationState {
+  const index = state.messages.findIndex(m => idsEqual(m.id, messageId))
+  if (index === -1) return state
+  const messages = state.messages.slice()
+  messages[index] = { ...messages[index], ...patch }
+  return { ...state, messages }
+}
+
+function removeMessage(state: ConversationState, messageId: Id): ConversationState {
+  if (!state.messages.some(m => idsEqual(m.id, messageId))) return state
+  return { ...state, messages: state.messages.filter(m => !idsEqual(m.id, messageId)) }
 }
@@ -1,11 +1,15 @@
 import { useCallback, useEffect, useState } from 'react'
 import { api } from '../../api/client'
+import { realtime } from '../../api/realtime'
 // eslint-disable-next-line no-restricted-imports
 import type { ApiInboxConversation } from '../../api/contracts'
 import type { Id } from '../../api/types'
 import { getErrorMessage } from '../utils/errors'
+import { compareIds, idsEqual } from '../utils/ids'
+import { useAuth } from '../auth/useAuth'
 
 export function useInbox() {
+  const { userId } = useAuth()
   const [state, setState] = useState<{
     conversations: ApiInboxConversation[]
     nextCursorId: Id | null
@@ -54,6 +58,25 @@ export function useInbox() {
     }
   }, [tick])
 
+  // Reading on this or another device clears the badge without refetching the inbox
+  useEffect(() => {
+    return realtime.on('server.messenger.read_watermark', data => {
+      if (!idsEqual(data.readerId, userId)) return
+      setState(s => ({
+        ...s,
+        conversations: s.conversations.map(c => {
+          if (!idsEqual(c.id, data.conversationId) || !c.unreadCount) return c
+          const last = c.lastMessage
+          const caughtUp =
+            !last ||
+            idsEqual(last.senderId, userId) ||
+            compareIds(last.id, data.lastReadMessageId) <= 0
+          return caughtUp ? { ...c, unreadCount: 0 } : c
+        }),
+      }))
+    })
+  }, [userId])
+
   const loadMore = useCallback(async () => {
     if (state.loadingMore || state.nextCursorId == null) return
     setState(s => ({ ...s, loadingMore: true, error: null }))
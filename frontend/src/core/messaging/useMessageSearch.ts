@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '../../api/client'
+import type { Id, MessageSearchHit } from '../../api/types'
+import { useDebounce } from '../hooks/useDebounce'
+import { getErrorMessage } from '../utils/errors'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+export function useMessageSearch(query: string) {
+  const debounced = useDebounce(query.trim(), SEARCH_DEBOUNCE_MS)
+  const [state, setState] = useState<{
+    hits: MessageSearchHit[]
+    nextCursorId: Id | null
+    loading: boolean
+    loadingMore: boolean
+    error: string | null
+  }>({ hits: [], nextCursorId: null, loading: false, loadingMore: false, error: null })
+
+  useEffect(() => {
+    if (!debounced) {
+      setState({ hits: [], nextCursorId: null, loading: false, loadingMore: false, error: null })
+      return
+    }
+    const ctrl = new AbortController()
+    setState(s => ({ ...s, loading: true, error: null }))
+    api.messaging
+      .searchMessages(debounced, {}, ctrl.signal)
+      .then(res => {
+        setState({
+          hits: res.hits,
+          nextCursorId: res.nextCursorId ?? null,
+          loading: false,
+          loadingMore: false,
+          error: null,
+        })
+      })
+      .catch((e: unknown) => {
+        if (ctrl.signal.aborted) return
+        setState(s => ({
+          ...s,
+          hits: [],
+          loading: false,
+          error: getErrorMessage(e, 'Search failed'),
+        }))
+      })
+    return () => ctrl.abort()
+  }, [debounced])
+
+  const loadMore = useCallback(async () => {
+    if (!debounced || state.loadingMore || state.nextCursorId == null) return
+    setState(s => ({ ...s, loadingMore: true, error: null }))
+    try {
+      const res = await api.messaging.searchMessages(debounced, { cursorId: state.nextCursorId })
+      setState(s => ({
+        ...s,
+        hits: [...s.hits, ...res.hits],
+        nextCursorId: res.nextCursorId ?? null,
+        loadingMore: false,
+      }))
+    } catch (e: unknown) {
+      setState(s => ({ ...s, loadingMore: false, error: getErrorMessage(e, 'Search failed') }))
+    }
+  }, [debounced, state.loadingMore, state.nextCursorId])
+
+  return {
+    ...state,
+    active: Boolean(debounced),
+    hasMore: state.nextCursorId != null,
+    loadMore,
+  }
+}
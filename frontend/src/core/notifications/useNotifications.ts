@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '../../api/client'
+import type { AppNotification, Id } from '../../api/types'
+import { realtime } from '../../api/realtime'
+import { getErrorMessage } from '../utils/errors'
+import { idsEqual } from '../utils/ids'
+
+export function useNotifications() {
+  const [state, setState] = useState<{
+    notifications: AppNotification[]
+    nextCursorId: Id | null
+    unreadCount: number
+    loading: boolean
+    loadingMore: boolean
+    error: string | null
+  }>({
+    notifications: [],
+    nextCursorId: null,
+    unreadCount: 0,
+    loading: true,
+    loadingMore: false,
+    error: null,
+  })
+
+  useEffect(() => {
+    let cancelled = false
+    const ctrl = new AbortController()
+    setState(s => ({ ...s, loading: true, error: null }))
+    api.notifications
+      .list(undefined, ctrl.signal)
+      .then(res => {
+        if (cancelled) return
+        setState({
+          notifications: res.notifications ?? [],
+          nextCursorId: res.nextCursorId ?? null,
+          unreadCount: res.unreadCount ?? 0,
+          loading: false,
+          loadingMore: false,
+          error: null,
+        })
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return
+        setState(s => ({
+          ...s,
+          loading: false,
+          error: getErrorMessage(e, 'Failed to load notifications'),
+        }))
+      })
+    return () => {
+      cancelled = true
+      ctrl.abort()
+    }
+  }, [])
+
+  useEffect(
+    () =>
+      realtime.on('server.notification.new', data => {
+        setState(s => ({
+          ...s,
+          notifications: [
+            data.notification,
+            ...s.notifications.filter(n => !idsEqual(n.id, data.notification.id)),
+          ],
+          unreadCount: data.unreadCount,
+        }))
+      }),
+    []
+  )
+
+  const loadMore = useCallback(async () => {
+    if (state.loadingMore || state.nextCursorId == null) return
+    setState(s => ({ ...s, loadingMore: true, error: null }))
+    try {
+      const res = await api.notifications.list({ cursorId: state.nextCursorId })
+      setState(s => ({
+        ...s,
+        notifications: [...s.notifications, ...(res.notifications ?? [])],
+        nextCursorId: res.nextCursorId ?? null,
+        unreadCount: res.unreadCount ?? s.unreadCount,
+        loadingMore: false,
+      }))
+    } catch (e: unknown) {
+      setState(s => ({
+        ...s,
+        loadingMore: false,
+        error: getErrorMessage(e, 'Failed to load more'),
+      }))
+    }
+  }, [state.loadingMore, state.nextCursorId])
+
+  const markRead = useCallback(async (notificationId: Id) => {
+    const readAt = new Date().toISOString()
+    setState(s => ({
+      ...s,
+      notifications: s.notifications.map(n =>
+        idsEqual(n.id, notificationId) && !n.readAt ? { ...n, readAt } : n
+      ),
+    }))
+    try {
+      const res = await api.notifications.markRead(notificationId)
+      setState(s => ({ ...s, unreadCount: res.unreadCount }))
+    } catch (e: unknown) {
+      setState(s => ({ ...s, error: getErrorMessage(e, 'Failed to update notification') }))
+    }
+  }, [])
+
+  const markAllRead = useCallback(async () => {
+    const readAt = new Date().toISOString()
+    setState(s => ({
+      ...s,
+      notifications: s.notifications.map(n => (n.readAt ? n : { ...n, readAt })),
+      unreadCount: 0,
+    }))
+    try {
+      await api.notifications.markAllRead()
+    } catch (e: unknown) {
+      setState(s => ({ ...s, error: getErrorMessage(e, 'Failed to update notifications') }))
+    }
+  }, [])
+
+  return {
+    notifications: state.notifications,
+    unreadCount: state.unreadCount,
+    hasMore: state.nextCursorId != null,
+    loading: state.loading,
+    loadingMore: state.loadingMore,
+    error: state.error,
+    loadMore,
+    markRead,
+    markAllRead,
+  }
+}
@@ -1,5 +1,5 @@
 import { useMemo } from 'react'
-import type { MediaType, ProfileResponse } from '../../api/types'
+import type { MediaSource, MediaType, ProfileResponse } from '../../api/types'
 import { toMediaType } from '../media/mediaUtils'
 
 export type HeroMediaItem = {
@@ -7,6 +7,7 @@ export type HeroMediaItem = {
   type: MediaType
   src: string
   preview?: string | null
+  sources?: MediaSource[]
   alt: string
   text?: string
   audioUrl?: string
@@ -60,6 +61,7 @@ function buildHeroItems(profile?: ProfileResponse): HeroMediaItem[] {
       type,
       src,
       preview: media.thumbUrl ?? src,
+      sources: media.sources,
       alt: `${name} ${label}`,
       mediaId: media.id,
     })
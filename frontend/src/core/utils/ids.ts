@@ -10,3 +10,10 @@ export function idsEqual(
   if (a == null || b == null) return false
   return String(a) === String(b)
 }
+
+// Numeric ordering for snowflake-style ids that may exceed Number.MAX_SAFE_INTEGER
+export function compareIds(a: string | number | bigint, b: string | number | bigint): number {
+  const left = BigInt(a)
+  const right = BigInt(b)
+  return left < right ? -1 : left > right ? 1 : 0
+}
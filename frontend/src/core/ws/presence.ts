@@ -66,7 +66,7 @@ export function trackPresence(userIds: Array<string | number>) {
   const topics: WsSubscribeTopic[] = []
   for (const id of userIds) {
     if (id != null) {
-      topics.push({ kind: 'user', id: String(id) })
+      topics.push({ kind: 'presence', id: String(id) })
     }
   }
 
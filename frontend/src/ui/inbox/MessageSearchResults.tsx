@@ -0,0 +1,105 @@
+import type { ReactNode } from 'react'
+import type { MessageSearchHit } from '../../api/types'
+import { Avatar } from '../ui/Avatar'
+import { formatConnectionTimestamp } from '../pages/sections/formatConnectionTimestamp'
+
+type Props = {
+  hits: MessageSearchHit[]
+  loading: boolean
+  loadingMore: boolean
+  hasMore: boolean
+  error: string | null
+  onOpen: (hit: MessageSearchHit) => void
+  onLoadMore: () => void
+}
+
+export function MessageSearchResults({
+  hits,
+  loading,
+  loadingMore,
+  hasMore,
+  error,
+  onOpen,
+  onLoadMore,
+}: Props) {
+  if (error) {
+    return (
+      <div className="inboxState inboxState--error u-mt-4" role="alert">
+        <div>Search failed</div>
+        <div className="u-muted">{error}</div>
+      </div>
+    )
+  }
+
+  if (loading && hits.length === 0) {
+    return (
+      <div className="u-muted u-mt-4" role="status" aria-live="polite">
+        Searching...
+      </div>
+    )
+  }
+
+  if (hits.length === 0) {
+    return (
+      <div className="inboxState u-mt-4" role="status" aria-live="polite">
+        <div>No messages found</div>
+        <div className="u-muted">Try a different word.</div>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="inbox__list u-mt-4" role="list" aria-label="Message search results">
+        {hits.map(hit => {
+          const name = hit.otherUser?.displayName ?? 'Conversation'
+          return (
+            <div key={String(hit.messageId)} className="inboxItem" role="listitem">
+              <div className="inboxItem__content">
+                <Avatar
+                  name={name}
+                  size="md"
+                  src={hit.otherUser?.avatarUrl ?? null}
+                  profileId={hit.otherUser ? String(hit.otherUser.id) : null}
+                />
+                <button className="inboxItem__open" type="button" onClick={() => onOpen(hit)}>
+                  <div className="inboxItem__main">
+                    <div className="inboxItem__title">
+                      <span>{name}</span>
+                      <span className="inboxItem__time">
+                        {formatConnectionTimestamp(hit.createdAt)}
+                      </span>
+                    </div>
+                    <div className="inboxItem__subtitle inboxSearch__snippet">
+                      {renderHighlighted(hit.snippet, hit.highlights)}
+                    </div>
+                  </div>
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+      {hasMore && (
+        <div className="inbox__loadMore">
+          <button className="actionBtn" type="button" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading more...' : 'More results'}
+          </button>
+        </div>
+      )}
+    </>
+  )
+}
+
+function renderHighlighted(snippet: string, highlights: MessageSearchHit['highlights']) {
+  const parts: ReactNode[] = []
+  let last = 0
+  for (const { start, end } of highlights) {
+    if (start < last) continue
+    if (start > last) parts.push(snippet.slice(last, start))
+    parts.push(<mark key={start}>{snippet.slice(start, end)}</mark>)
+    last = end
+  }
+  if (last < snippet.length) parts.push(snippet.slice(last))
+  return parts
+}
@@ -23,7 +23,7 @@ export function useInboxViewModel() {
         profileId: other ? String(other.id) : null,
         name: profile?.displayName ?? 'Unknown user',
         avatarUrl: profile?.avatarUrl ?? null,
-        lastBody: lastMessage?.body ?? '',
+        lastBody: lastMessage?.body || (lastMessage?.attachmentCount ? 'Sent an attachment' : ''),
         timestamp: lastMessage?.createdAt ?? c.updatedAt,
         lastSenderId: lastMessage?.senderId ? String(lastMessage.senderId) : null,
         lastIsSystem: Boolean(lastMessage?.isSystem),
@@ -34,6 +34,7 @@ export function useInboxViewModel() {
             } satisfies FollowRequestRef)
           : null,
         unreadCount: c.unreadCount ?? 0,
+        readOnly: c.readOnly ?? false,
       }
     })
   }, [data])
@@ -28,6 +28,14 @@ const validatePassword = (password: string, isSignup: boolean): string | null =>
   return null
 }
 
+// Login is refused during the deletion grace period; the body carries the purge date
+function pendingDeletionDate(err: unknown): string | null {
+  if (!(err instanceof HttpError) || err.status !== 403) return null
+  const body = err.body as { code?: unknown; deletionScheduledFor?: unknown } | null
+  if (body?.code !== 'ACCOUNT_PENDING_DELETION') return null
+  return typeof body.deletionScheduledFor === 'string' ? body.deletionScheduledFor : ''
+}
+
 const DEBUG = Boolean(import.meta.env?.DEV)
 
 export function AuthPage() {
@@ -44,6 +52,7 @@ export function AuthPage() {
   const [message, setMessage] = useState<string | null>(null)
   const [emailError, setEmailError] = useState<string | null>(null)
   const [passwordError, setPasswordError] = useState<string | null>(null)
+  const [pendingDeletion, setPendingDeletion] = useState<string | null>(null)
 
   useEffect(() => {
     if (modeParam === 'login' || modeParam === 'signup') {
@@ -71,7 +80,7 @@ export function AuthPage() {
     }
   }
 
-  async function handleSubmit(event: React.FormEvent) {
+  async function handleSubmit(event: React.SyntheticEvent, restore = false) {
     event.preventDefault()
 
     const emailErr = validateEmail(email)
@@ -87,9 +96,14 @@ export function AuthPage() {
 
     setLoading(true)
     setMessage(null)
+    setPendingDeletion(null)
     if (DEBUG) console.debug('[auth] submit', { mode, email, rememberMe })
     try {
-      if (mode === 'login') {
+      if (restore) {
+        const res = await api.account.restore({ email: email.trim(), password })
+        if (DEBUG) console.debug('[auth] restore:success', { userId: res.userId })
+        setMessage('Account restored')
+      } else if (mode === 'login') {
         const res = await api.auth.login({ email: email.trim(), password, rememberMe })
         if (DEBUG) console.debug('[auth] login:success', { userId: res.userId })
         setMessage('Logged in')
@@ -143,6 +157,12 @@ export function AuthPage() {
           err
         )
       }
+      const deletionDate = pendingDeletionDate(err)
+      if (deletionDate !== null) {
+        setPendingDeletion(deletionDate)
+        setMessage(null)
+        return
+      }
       setMessage(getErrorMessage(err, 'Auth failed'))
     } finally {
       setLoading(false)
@@ -288,6 +308,24 @@ export function AuthPage() {
             </label>
           )}
 
+          {mode === 'login' && (
+            <button
+              type="button"
+              className="u-muted"
+              onClick={() => nav('/reset-password')}
+              style={{
+                background: 'none',
+                border: 'none',
+                padding: 0,
+                cursor: 'pointer',
+                fontSize: 'var(--fs-2)',
+                textAlign: 'left',
+              }}
+            >
+              Forgot password?
+            </button>
+          )}
+
           <button
             className="actionBtn actionBtn--submit"
             type="submit"
@@ -303,6 +341,24 @@ export function AuthPage() {
           </div>
         )}
 
+        {pendingDeletion !== null && (
+          <div className="u-stack u-mt-4" style={{ gap: 'var(--s-2)' }}>
+            <div className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+              This account is scheduled for deletion
+              {pendingDeletion ? ` on ${new Date(pendingDeletion).toLocaleDateString()}` : ''}. Restore it to keep
+              your profile, matches and messages.
+            </div>
+            <button
+              className="actionBtn actionBtn--submit"
+              type="button"
+              disabled={loading}
+              onClick={event => handleSubmit(event, true)}
+            >
+              {loading ? 'Working...' : 'Restore account'}
+            </button>
+          </div>
+        )}
+
         <div className="u-row-between u-mt-6">
           <button
             className="actionBtn actionBtn--nope"
@@ -21,7 +21,7 @@ import type {
 } from './sections/connectionTypes'
 import { FollowSection } from './sections/FollowSection'
 import { InboxSection } from './sections/InboxSection'
-import { MatchesSection, LikesSection } from './sections/MatchesLikesSection'
+import { MatchesSection, LikesSection, ReceivedLikesSection } from './sections/MatchesLikesSection'
 import { PlaceholderSection } from './sections/PlaceholderSection'
 
 const FOCUSABLE_SELECTOR =
@@ -254,6 +254,10 @@ export function ConnectionsPage() {
         )
       case 'likes':
         return <LikesSection registerHeader={registerHeader} registerCount={registerCount} />
+      case 'likedYou':
+        return (
+          <ReceivedLikesSection registerHeader={registerHeader} registerCount={registerCount} />
+        )
       case 'drafts':
         return (
           <PlaceholderSection
@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from 'react'
-import { useLocation, useNavigate, useParams } from 'react-router-dom'
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { api } from '../../api/client'
+import { HttpError } from '../../api/http'
 import { useAuth } from '../../core/auth/useAuth'
 import { useCurrentUser } from '../../core/auth/useCurrentUser'
 import { prettyIntent } from '../../core/format/prettyIntent'
@@ -9,12 +10,22 @@ import { useConversation } from '../../core/messaging/useConversation'
 import { IconButton } from '../ui/IconButton'
 import { Avatar } from '../ui/Avatar'
 import { SmartTextarea } from '../form/SmartTextarea'
-import { toIdString, idsEqual } from '../../core/utils/ids'
+import { useMediaUpload } from '../../core/media/useMediaUpload'
+import { ACCEPTED_MEDIA_TYPES } from '../../core/media/mediaConstants'
+import { compareIds, toIdString, idsEqual } from '../../core/utils/ids'
+import type { Id, MessageAttachment } from '../../api/types'
+
+// Mirrors the backend edit window; the server has the final say
+const EDIT_WINDOW_MS = 15 * 60 * 1000
+const QUICK_REACTIONS = ['❤️', '😂', '👍', '😮', '😢']
+const MAX_ATTACHMENTS = 4
 
 export function ConversationPage() {
   const nav = useNavigate()
   const location = useLocation()
   const { conversationId } = useParams()
+  const [searchParams] = useSearchParams()
+  const focusMessageId = searchParams.get('message')
   const id = conversationId ? decodeURIComponent(conversationId) : undefined
   const { userId } = useAuth()
   const { profile: currentUserProfile } = useCurrentUser()
@@ -25,14 +36,31 @@ export function ConversationPage() {
     loading,
     loadingMore,
     error,
+    readOnly,
+    otherLastReadMessageId,
+    otherTyping,
     loadOlder,
+    markReadOnly,
+    sendTyping,
+    editMessage,
+    unsendMessage,
+    toggleReaction,
   } = useConversation(id)
   const [draft, setDraft] = useState('')
   const [sending, setSending] = useState(false)
+  const [files, setFiles] = useState<File[]>([])
+  const fileRef = useRef<HTMLInputElement | null>(null)
+  const { uploadFiles } = useMediaUpload()
   const [sendError, setSendError] = useState<string | null>(null)
-  const markedRef = useRef(new Set<string>())
+  const [needsVerification, setNeedsVerification] = useState(false)
+  const [resendState, setResendState] = useState<'idle' | 'sending' | 'sent'>('idle')
+  const [reactingTo, setReactingTo] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ id: string; draft: string } | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const readUpToRef = useRef<{ conversationId: string; messageId: string } | null>(null)
   const listEndRef = useRef<HTMLDivElement | null>(null)
   const suppressScrollRef = useRef(false)
+  const focusedRef = useRef<string | null>(null)
 
   const match = id ? (matchData?.matches.find(m => idsEqual(m.conversation?.id, id)) ?? null) : null
   const otherUser =
@@ -49,22 +77,24 @@ export function ConversationPage() {
         .join(' | ')
     : null
 
+  // One watermark request covers everything up to the newest message from the other side
   useEffect(() => {
-    if (userId == null) return
-    const unmarked = messages.filter(msg => {
-      const key = toIdString(msg.id)
-      if (idsEqual(msg.senderId, userId) || markedRef.current.has(key)) return false
-      markedRef.current.add(key)
-      return true
-    })
-    for (const msg of unmarked) {
-      api.messaging.markRead(msg.id).catch(() => null)
-    }
-    if (markedRef.current.size > messages.length * 2) {
-      markedRef.current.clear()
-      messages.forEach(msg => markedRef.current.add(toIdString(msg.id)))
-    }
-  }, [messages, userId])
+    if (userId == null || !id) return
+    const latest = findLast(messages, msg => !idsEqual(msg.senderId, userId))
+    if (!latest) return
+    const previous = readUpToRef.current
+    if (previous?.conversationId === id && compareIds(previous.messageId, latest.id) >= 0) return
+    readUpToRef.current = { conversationId: id, messageId: toIdString(latest.id) }
+    api.messaging.readUpTo(id, latest.id).catch(() => null)
+  }, [id, messages, userId])
+
+  const seenMessageId =
+    otherLastReadMessageId != null && userId != null
+      ? (findLast(
+          messages,
+          msg => idsEqual(msg.senderId, userId) && compareIds(msg.id, otherLastReadMessageId) <= 0
+        )?.id ?? null)
+      : null
 
   useEffect(() => {
     if (loadingMore || suppressScrollRef.current) {
@@ -76,21 +106,107 @@ export function ConversationPage() {
     })
   }, [loadingMore, messages.length])
 
+  // Opened from message search: page back until the message is loaded, then bring it into view
+  useEffect(() => {
+    if (!focusMessageId || focusedRef.current === focusMessageId || loading || loadingMore) return
+    if (messages.some(msg => idsEqual(msg.id, focusMessageId))) {
+      focusedRef.current = focusMessageId
+      requestAnimationFrame(() => {
+        document
+          .getElementById(`message-${focusMessageId}`)
+          ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      })
+      return
+    }
+    if (cursor != null) {
+      suppressScrollRef.current = true
+      loadOlder()
+    }
+  }, [focusMessageId, messages, cursor, loading, loadingMore, loadOlder])
+
   async function sendMessage(body: string) {
-    if (!body.trim() || !id || userId == null) return
+    if ((!body.trim() && files.length === 0) || !id || userId == null) return
     setSending(true)
     setSendError(null)
     setDraft('')
+    sendTyping(false)
     try {
-      await api.messaging.sendMessage(id, { body: body.trim() })
-    } catch {
+      let mediaIds: string[] | undefined
+      if (files.length) {
+        const { results, errors } = await uploadFiles(files)
+        if (errors.length) {
+          setDraft(body.trim())
+          setSendError(`Upload failed: ${errors.map(e => e.error).join(', ')}`)
+          return
+        }
+        mediaIds = results.map(r => r.mediaId)
+      }
+      await api.messaging.sendMessage(id, { body: body.trim(), mediaIds })
+      setFiles([])
+    } catch (err) {
       setDraft(body.trim())
-      setSendError('Message failed to send. Try again.')
+      if (isEmailNotVerified(err)) {
+        setNeedsVerification(true)
+        setSendError('Verify your email address to send messages.')
+      } else if (isConversationReadOnly(err)) {
+        markReadOnly()
+      } else {
+        setSendError('Message failed to send. Try again.')
+      }
     } finally {
       setSending(false)
     }
   }
 
+  async function saveEdit() {
+    if (!editing || !editing.draft.trim()) return
+    setActionError(null)
+    try {
+      await editMessage(editing.id, editing.draft.trim())
+      setEditing(null)
+    } catch (err) {
+      setActionError(
+        isEditWindowClosed(err)
+          ? 'This message can no longer be edited.'
+          : 'Could not save the edit.'
+      )
+    }
+  }
+
+  async function unsend(messageId: Id) {
+    if (!window.confirm('Unsend this message for both of you?')) return
+    setActionError(null)
+    try {
+      await unsendMessage(messageId)
+    } catch {
+      setActionError('Could not unsend the message.')
+    }
+  }
+
+  async function react(messageId: Id, emoji: string) {
+    if (userId == null) return
+    setReactingTo(null)
+    setActionError(null)
+    try {
+      await toggleReaction(messageId, emoji, userId)
+    } catch (err) {
+      if (isConversationReadOnly(err)) markReadOnly()
+      else setActionError('Could not update the reaction.')
+    }
+  }
+
+  async function resendVerification() {
+    setResendState('sending')
+    try {
+      await api.auth.resendVerification()
+      setResendState('sent')
+      setSendError('Verification email sent. Check your inbox.')
+    } catch (err) {
+      setResendState('idle')
+      setSendError(err instanceof Error ? err.message : 'Could not send verification email.')
+    }
+  }
+
   const returnToProfileUserId =
     location.state &&
     typeof (location.state as { returnToProfileUserId?: unknown }).returnToProfileUserId === 'string'
@@ -173,7 +289,10 @@ export function ConversationPage() {
             return (
               <div
                 key={toIdString(msg.id)}
-                className={`message ${isMine ? 'message--mine' : ''}${msg.isSystem ? ' message--system' : ''}`}
+                id={`message-${toIdString(msg.id)}`}
+                className={`message ${isMine ? 'message--mine' : ''}${msg.isSystem ? ' message--system' : ''}${
+                  focusMessageId && idsEqual(msg.id, focusMessageId) ? ' message--focused' : ''
+                }`}
               >
                 {!isMine && (
                   <Avatar
@@ -184,8 +303,118 @@ export function ConversationPage() {
                   />
                 )}
                 <div className="message__content">
-                  <div className="message__bubble">{msg.body}</div>
-                  <div className="message__time">{formatTime(msg.createdAt)}</div>
+                  {editing && idsEqual(editing.id, msg.id) ? (
+                    <div className="message__edit">
+                      <SmartTextarea
+                        value={editing.draft}
+                        onChange={draft => setEditing({ id: editing.id, draft })}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault()
+                            saveEdit()
+                          } else if (e.key === 'Escape') {
+                            setEditing(null)
+                          }
+                        }}
+                        className="smartTextarea--conversation"
+                      />
+                      <div className="message__actions">
+                        <button
+                          className="message__action"
+                          type="button"
+                          onClick={() => setEditing(null)}
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          className="message__action"
+                          type="button"
+                          onClick={saveEdit}
+                          disabled={!editing.draft.trim()}
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    msg.body && <div className="message__bubble">{msg.body}</div>
+                  )}
+                  {msg.attachments && msg.attachments.length > 0 && (
+                    <MessageAttachments attachments={msg.attachments} />
+                  )}
+                  {msg.reactions && msg.reactions.length > 0 && (
+                    <div className="message__reactions">
+                      {msg.reactions.map(reaction => {
+                        const mine =
+                          userId != null && reaction.userIds.some(uid => idsEqual(uid, userId))
+                        return (
+                          <button
+                            key={reaction.emoji}
+                            type="button"
+                            className={`message__reaction${mine ? ' message__reaction--mine' : ''}`}
+                            aria-pressed={mine}
+                            disabled={readOnly}
+                            onClick={() => react(msg.id, reaction.emoji)}
+                          >
+                            {reaction.emoji} {reaction.userIds.length}
+                          </button>
+                        )
+                      })}
+                    </div>
+                  )}
+                  <div className="message__time">
+                    {formatTime(msg.createdAt)}
+                    {msg.editedAt ? ' · edited' : ''}
+                    {idsEqual(msg.id, seenMessageId) ? ' · Seen' : ''}
+                  </div>
+                  {!msg.isSystem && !readOnly && (
+                    <div className="message__actions">
+                      <button
+                        className="message__action"
+                        type="button"
+                        aria-expanded={reactingTo === toIdString(msg.id)}
+                        onClick={() =>
+                          setReactingTo(current =>
+                            current === toIdString(msg.id) ? null : toIdString(msg.id)
+                          )
+                        }
+                      >
+                        React
+                      </button>
+                      {isMine && isEditable(msg.createdAt) && (
+                        <button
+                          className="message__action"
+                          type="button"
+                          onClick={() => setEditing({ id: toIdString(msg.id), draft: msg.body })}
+                        >
+                          Edit
+                        </button>
+                      )}
+                      {isMine && (
+                        <button
+                          className="message__action"
+                          type="button"
+                          onClick={() => unsend(msg.id)}
+                        >
+                          Unsend
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {reactingTo === toIdString(msg.id) && (
+                    <div className="message__reactionPicker" role="group" aria-label="Add reaction">
+                      {QUICK_REACTIONS.map(emoji => (
+                        <button
+                          key={emoji}
+                          type="button"
+                          className="message__reaction"
+                          onClick={() => react(msg.id, emoji)}
+                        >
+                          {emoji}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 {isMine && (
                   <Avatar
@@ -198,40 +427,178 @@ export function ConversationPage() {
               </div>
             )
           })}
+          {otherTyping && !readOnly && (
+            <div className="conversation__typing u-muted" role="status" aria-live="polite">
+              {headerName} is typing...
+            </div>
+          )}
           <div ref={listEndRef} />
         </div>
       </div>
 
-      <div className="conversation__composer">
-        <div className="conversation__input">
-          <SmartTextarea
-            value={draft}
-            onChange={setDraft}
-            placeholder="Write a message"
+      {readOnly ? (
+        <div className="conversation__readOnly" role="status">
+          This match has ended. You can read past messages but can't send new ones.
+        </div>
+      ) : (
+        <div className="conversation__composer">
+          <div className="conversation__input">
+            <SmartTextarea
+              value={draft}
+              onChange={value => {
+                setDraft(value)
+                sendTyping(value.trim().length > 0)
+              }}
+              placeholder="Write a message"
+              disabled={sending}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault()
+                  sendMessage(draft)
+                }
+              }}
+              className="smartTextarea--conversation"
+            />
+            {files.length > 0 && (
+              <div className="conversation__attachments">
+                <span>
+                  {files.length} attachment{files.length > 1 ? 's' : ''}
+                </span>
+                <button
+                  className="message__action"
+                  type="button"
+                  onClick={() => setFiles([])}
+                  disabled={sending}
+                >
+                  Remove
+                </button>
+              </div>
+            )}
+          </div>
+          <button
+            className="actionBtn"
+            type="button"
+            onClick={() => fileRef.current?.click()}
             disabled={sending}
-            onKeyDown={e => {
-              if (e.key === 'Enter' && !e.shiftKey) {
-                e.preventDefault()
-                sendMessage(draft)
+            aria-label="Attach media"
+          >
+            Attach
+          </button>
+          <input
+            ref={fileRef}
+            className="srOnly"
+            type="file"
+            accept={ACCEPTED_MEDIA_TYPES}
+            multiple
+            onChange={event => {
+              const list = Array.from(event.currentTarget.files ?? [])
+              event.currentTarget.value = ''
+              if (list.length > MAX_ATTACHMENTS) {
+                setSendError(`You can attach up to ${MAX_ATTACHMENTS} files.`)
+                return
               }
+              if (list.length) setFiles(list)
             }}
-            className="smartTextarea--conversation"
           />
+          <button
+            className="actionBtn actionBtn--like"
+            type="button"
+            onClick={() => sendMessage(draft)}
+            disabled={sending || (!draft.trim() && files.length === 0)}
+          >
+            {sending ? 'Sending...' : 'Send'}
+          </button>
         </div>
-        <button
-          className="actionBtn actionBtn--like"
-          type="button"
-          onClick={() => sendMessage(draft)}
-          disabled={sending || !draft.trim()}
-        >
-          {sending ? 'Sending...' : 'Send'}
-        </button>
-      </div>
-      {sendError && <div className="conversation__error">{sendError}</div>}
+      )}
+      {actionError && <div className="conversation__error">{actionError}</div>}
+      {sendError && !readOnly && (
+        <div className="conversation__error">
+          {sendError}
+          {needsVerification && resendState !== 'sent' && (
+            <>
+              {' '}
+              <button
+                className="actionBtn"
+                type="button"
+                onClick={resendVerification}
+                disabled={resendState === 'sending'}
+              >
+                {resendState === 'sending' ? 'Sending...' : 'Resend email'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function isEmailNotVerified(err: unknown) {
+  if (!(err instanceof HttpError) || err.status !== 403) return false
+  const body = err.body as { code?: unknown } | null
+  return body?.code === 'EMAIL_NOT_VERIFIED'
+}
+
+function isConversationReadOnly(err: unknown) {
+  if (!(err instanceof HttpError) || err.status !== 403) return false
+  const body = err.body as { code?: unknown } | null
+  return body?.code === 'CONVERSATION_READ_ONLY'
+}
+
+function MessageAttachments({ attachments }: { attachments: MessageAttachment[] }) {
+  return (
+    <div className="message__attachments">
+      {attachments.map(attachment => {
+        const key = toIdString(attachment.id)
+        if (attachment.type === 'VIDEO') {
+          return (
+            <video
+              key={key}
+              className="message__attachment"
+              src={attachment.url}
+              controls
+              preload="metadata"
+            />
+          )
+        }
+        if (attachment.type === 'AUDIO') {
+          return <audio key={key} className="message__attachment" src={attachment.url} controls />
+        }
+        return (
+          <a key={key} href={attachment.url} target="_blank" rel="noreferrer">
+            <img
+              className="message__attachment"
+              src={attachment.url}
+              alt="Attachment"
+              loading="lazy"
+              width={attachment.width ?? undefined}
+              height={attachment.height ?? undefined}
+            />
+          </a>
+        )
+      })}
     </div>
   )
 }
 
+function isEditWindowClosed(err: unknown) {
+  if (!(err instanceof HttpError) || err.status !== 403) return false
+  const body = err.body as { code?: unknown } | null
+  return body?.code === 'EDIT_WINDOW_CLOSED'
+}
+
+function isEditable(createdAt: string) {
+  const sentAt = new Date(createdAt).getTime()
+  return !Number.isNaN(sentAt) && Date.now() - sentAt < EDIT_WINDOW_MS
+}
+
+function findLast<T>(items: T[], predicate: (item: T) => boolean): T | undefined {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return items[i]
+  }
+  return undefined
+}
+
 function formatTime(value: string) {
   const d = new Date(value)
   if (Number.isNaN(d.getTime())) return ''
@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { api } from '../../api/client'
+
+const MIN_PASSWORD_LENGTH = 8
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof Error && error.message) return error.message
+  return fallback
+}
+
+/**
+ * Without a token: asks for an email and sends a reset link.
+ * With `?token=` (the link from the email): sets a new password.
+ */
+export function PasswordResetPage() {
+  const nav = useNavigate()
+  const location = useLocation()
+  const token = new URLSearchParams(location.search).get('token')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [done, setDone] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  async function handleRequest(event: React.FormEvent) {
+    event.preventDefault()
+    if (!email.trim()) {
+      setMessage('Email is required')
+      return
+    }
+    setLoading(true)
+    setMessage(null)
+    try {
+      await api.auth.forgotPassword(email.trim())
+      setDone(true)
+      setMessage('If an account exists for that address, a reset link is on its way.')
+    } catch (err) {
+      setMessage(getErrorMessage(err, 'Could not send reset link'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleReset(event: React.FormEvent) {
+    event.preventDefault()
+    if (!token) return
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setMessage(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+    if (password !== confirm) {
+      setMessage('Passwords do not match')
+      return
+    }
+    setLoading(true)
+    setMessage(null)
+    try {
+      await api.auth.resetPassword({ token, password })
+      setDone(true)
+      setMessage('Password updated. You can log in with your new password.')
+    } catch (err) {
+      setMessage(getErrorMessage(err, 'Could not reset password'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="u-center" style={{ height: '100%', padding: '24px' }}>
+      <div
+        className="u-glass u-pad-6"
+        style={{ borderRadius: 'var(--r-4)', maxWidth: 420, width: '100%' }}
+      >
+        <div className="u-stack">
+          <div style={{ fontSize: 'var(--fs-5)', fontWeight: 700 }}>
+            {token ? 'Choose a new password' : 'Reset password'}
+          </div>
+          <div className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+            {token
+              ? 'Enter a new password for your account.'
+              : 'Enter your email and we will send you a reset link.'}
+          </div>
+        </div>
+
+        {!done && !token && (
+          <form onSubmit={handleRequest} className="u-stack u-mt-4">
+            <label className="u-stack" style={{ gap: 6 }}>
+              <span className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+                Email
+              </span>
+              <input
+                type="email"
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                autoComplete="email"
+                className="u-input"
+              />
+            </label>
+            <button className="actionBtn actionBtn--submit" type="submit" disabled={loading}>
+              {loading ? 'Sending...' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        {!done && token && (
+          <form onSubmit={handleReset} className="u-stack u-mt-4">
+            <label className="u-stack" style={{ gap: 6 }}>
+              <span className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+                New password
+              </span>
+              <input
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                autoComplete="new-password"
+                className="u-input"
+              />
+            </label>
+            <label className="u-stack" style={{ gap: 6 }}>
+              <span className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+                Confirm password
+              </span>
+              <input
+                type="password"
+                value={confirm}
+                onChange={e => setConfirm(e.target.value)}
+                autoComplete="new-password"
+                className="u-input"
+              />
+            </label>
+            <button className="actionBtn actionBtn--submit" type="submit" disabled={loading}>
+              {loading ? 'Working...' : 'Update password'}
+            </button>
+          </form>
+        )}
+
+        {message && (
+          <div className="u-muted u-mt-4" style={{ fontSize: 'var(--fs-2)' }}>
+            {message}
+          </div>
+        )}
+
+        <div className="u-row-between u-mt-6">
+          <button className="actionBtn" type="button" onClick={() => nav('/login')}>
+            Back to login
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import { useEffect, useRef, useState } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { api } from '../../api/client'
+import { emitAuthChange } from '../../core/auth/authEvents'
+
+type Status = 'verifying' | 'verified' | 'failed'
+
+export function VerifyEmailPage() {
+  const nav = useNavigate()
+  const location = useLocation()
+  const token = new URLSearchParams(location.search).get('token')
+  const [status, setStatus] = useState<Status>(token ? 'verifying' : 'failed')
+  const startedRef = useRef(false)
+
+  useEffect(() => {
+    // Tokens are single-use, so guard against the effect running twice in dev
+    if (!token || startedRef.current) return
+    startedRef.current = true
+    api.auth
+      .verifyEmail(token)
+      .then(() => {
+        setStatus('verified')
+        emitAuthChange()
+      })
+      .catch(() => setStatus('failed'))
+  }, [token])
+
+  return (
+    <div className="u-center" style={{ height: '100%', padding: '24px' }}>
+      <div
+        className="u-glass u-pad-6"
+        style={{ borderRadius: 'var(--r-4)', maxWidth: 420, width: '100%' }}
+      >
+        <div className="u-stack">
+          <div style={{ fontSize: 'var(--fs-5)', fontWeight: 700 }}>Email verification</div>
+          <div className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+            {status === 'verifying' && 'Confirming your email address...'}
+            {status === 'verified' && 'Your email address is confirmed.'}
+            {status === 'failed' &&
+              'This link is invalid or has expired. Request a new one from your account.'}
+          </div>
+        </div>
+
+        <div className="u-row-between u-mt-6">
+          <button className="actionBtn" type="button" onClick={() => nav('/feed')}>
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
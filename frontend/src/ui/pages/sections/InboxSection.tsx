@@ -4,6 +4,8 @@ import { api } from '../../../api/client'
 import { useCurrentUser } from '../../../core/auth/useCurrentUser'
 import { idsEqual } from '../../../core/utils/ids'
 import { useInboxViewModel } from '../../inbox/useInboxViewModel'
+import { MessageSearchResults } from '../../inbox/MessageSearchResults'
+import { useMessageSearch } from '../../../core/messaging/useMessageSearch'
 import { ConnectionRow, type ConnectionRowAction } from '../../connections/ConnectionRow'
 import { FullScreenModal } from '../../ui/FullScreenModal'
 import type { CountRegister, DrawerLockRegister, HeaderRegister } from './connectionTypes'
@@ -31,6 +33,8 @@ export function InboxSection({
     useInboxViewModel()
   const { processing, actionError, runAction, clearActionError } = useAsyncAction()
   const [deleteCandidate, setDeleteCandidate] = useState<DeleteCandidate | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
+  const search = useMessageSearch(searchQuery)
   const loadMoreRef = useRef<HTMLDivElement | null>(null)
   const observerRef = useRef<IntersectionObserver | null>(null)
   const loadingMoreRef = useRef(false)
@@ -122,13 +126,26 @@ export function InboxSection({
 
   return (
     <div>
-      {!showSkeleton && loading && (
+      <div className="inboxSearch">
+        <input
+          className="inlineField__input"
+          type="search"
+          placeholder="Search messages"
+          aria-label="Search messages"
+          value={searchQuery}
+          maxLength={100}
+          onChange={e => setSearchQuery(e.target.value)}
+          onKeyDown={e => e.key === 'Escape' && setSearchQuery('')}
+        />
+      </div>
+
+      {!search.active && !showSkeleton && loading && (
         <div className="u-muted u-mt-4" role="status" aria-live="polite">
           Loading conversations...
         </div>
       )}
 
-      {!loading && errorMessage && (
+      {!search.active && !loading && errorMessage && (
         <div className="inboxState inboxState--error" role="alert">
           <div>{errorTitle}</div>
           <div className="u-muted">{errorMessage}</div>
@@ -138,14 +155,28 @@ export function InboxSection({
         </div>
       )}
 
-      {!loading && !errorMessage && conversations.length === 0 && (
+      {!search.active && !loading && !errorMessage && conversations.length === 0 && (
         <div className="inboxState" role="status" aria-live="polite">
           <div>No conversations yet</div>
           <div className="u-muted">Start swiping to get matches and new chats.</div>
         </div>
       )}
 
-      {showSkeleton ? (
+      {search.active ? (
+        <MessageSearchResults
+          hits={search.hits}
+          loading={search.loading}
+          loadingMore={search.loadingMore}
+          hasMore={search.hasMore}
+          error={search.error}
+          onLoadMore={search.loadMore}
+          onOpen={hit =>
+            nav(
+              `/connections/conversation/${encodeURIComponent(String(hit.conversationId))}?message=${encodeURIComponent(String(hit.messageId))}`
+            )
+          }
+        />
+      ) : showSkeleton ? (
         <div className="inbox__list u-mt-4" role="status" aria-live="polite" aria-busy="true">
           {Array.from({ length: 6 }).map((_, index) => (
             <div key={index} className="inboxItem inboxItem--skeleton">
@@ -193,6 +224,7 @@ export function InboxSection({
                 id={row.id}
                 title={row.name}
                 subtitle={subtitle}
+                statusLabel={row.readOnly ? 'Match ended' : null}
                 timestamp={formatConnectionTimestamp(row.timestamp)}
                 badgeCount={row.unreadCount}
                 avatarUrl={row.avatarUrl}
@@ -207,7 +239,7 @@ export function InboxSection({
         </div>
       )}
 
-      {Boolean(nextCursorId) && (
+      {!search.active && Boolean(nextCursorId) && (
         <div className="inbox__loadMore" ref={loadMoreRef} role="status" aria-live="polite">
           {loadingMore ? 'Loading more...' : 'Scroll to load more'}
         </div>
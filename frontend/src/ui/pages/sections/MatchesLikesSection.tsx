@@ -1,11 +1,12 @@
 import { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { api } from '../../../api/client'
-import type { AccessStatus } from '../../../api/types'
+import type { AccessStatus, CompatibilitySummary } from '../../../api/types'
 import { useAuth } from '../../../core/auth/useAuth'
 import { prettyIntent } from '../../../core/format/prettyIntent'
 import { useMatches } from '../../../core/matches/useMatches'
 import { useLikes } from '../../../core/matches/useLikes'
+import { useReceivedLikes } from '../../../core/matches/useReceivedLikes'
 import { ConnectionRow, type ConnectionRowAction } from '../../connections/ConnectionRow'
 import type { CountRegister, HeaderRegister } from './connectionTypes'
 import { formatConnectionTimestamp } from './formatConnectionTimestamp'
@@ -23,11 +24,13 @@ export function MatchesSection({
   const { userId } = useAuth()
   const { data, loading, error, refresh } = useMatches()
   const matches = data?.matches ?? []
+  const { processing, actionError, runAction, clearActionError } = useAsyncAction()
 
   const refreshSafe = useCallback(() => {
+    clearActionError()
     if (loading) return
     refresh()
-  }, [loading, refresh])
+  }, [clearActionError, loading, refresh])
 
   useLayoutEffect(() => {
     registerHeader('matches', { onRefresh: refreshSafe, refreshDisabled: loading })
@@ -41,21 +44,36 @@ export function MatchesSection({
     registerCount('matches', readyCount(matches.length))
   }, [registerCount, matches.length, error, loading])
 
+  const handleUnmatch = async (matchId: string, name: string) => {
+    if (!window.confirm(`Unmatch ${name}? Neither of you will be able to send messages.`)) return
+    await runAction({
+      key: `unmatch:${matchId}`,
+      action: async () => {
+        await api.messaging.unmatch(matchId)
+      },
+      errorMessage: 'Failed to unmatch',
+      onSuccess: refreshSafe,
+    })
+  }
+
+  const errorMessage = actionError ?? (error ? String(error) : null)
+  const errorTitle = actionError ? 'Match action failed' : 'Match error'
+
   return (
     <div>
       {loading && <div className="u-muted u-mt-4">Loading matches...</div>}
 
-      {Boolean(error) && !loading && (
+      {Boolean(errorMessage) && !loading && (
         <div className="inboxState inboxState--error" role="alert">
-          <div>Match error</div>
-          <div className="u-muted">{String(error)}</div>
+          <div>{errorTitle}</div>
+          <div className="u-muted">{errorMessage}</div>
           <button className="actionBtn" type="button" onClick={refreshSafe}>
             Retry
           </button>
         </div>
       )}
 
-      {!loading && !error && matches.length === 0 && (
+      {!loading && !errorMessage && matches.length === 0 && (
         <div className="inboxState" role="status" aria-live="polite">
           <div>No matches yet</div>
           <div className="u-muted">Keep swiping to start new connections.</div>
@@ -72,6 +90,8 @@ export function MatchesSection({
           const subtitle = [location, intent].filter(Boolean).join(' - ')
           const avatarUrl = other.profile?.avatarUrl ?? null
           const canChat = Boolean(match.conversation?.id)
+          const matchId = String(match.id)
+          const isUnmatching = Boolean(processing[`unmatch:${matchId}`])
           const onOpen = () => {
             if (canChat && match.conversation?.id) {
               nav(`/connections/inbox/${encodeURIComponent(String(match.conversation.id))}`)
@@ -90,17 +110,26 @@ export function MatchesSection({
               timestamp={formatConnectionTimestamp(match.updatedAt)}
               avatarUrl={avatarUrl}
               profileId={String(other.id)}
-              actions={
-                canChat
+              actions={[
+                ...(canChat
                   ? [
                       {
                         label: 'Chat',
-                        variant: 'primary',
+                        variant: 'primary' as const,
                         onClick: onOpen,
                       },
                     ]
-                  : undefined
-              }
+                  : []),
+                {
+                  label: isUnmatching ? 'Unmatching...' : 'Unmatch',
+                  variant: 'danger',
+                  onClick: () => {
+                    if (isUnmatching) return
+                    handleUnmatch(matchId, name)
+                  },
+                  disabled: isUnmatching,
+                },
+              ]}
               onOpen={onOpen}
               onOpenProfile={() => nav(`/profiles/${encodeURIComponent(String(other.id))}`)}
             />
@@ -260,6 +289,137 @@ export function LikesSection({
   )
 }
 
+export function ReceivedLikesSection({
+  registerHeader,
+  registerCount,
+}: {
+  registerHeader: HeaderRegister
+  registerCount: CountRegister
+}) {
+  const nav = useNavigate()
+  const { data, loading, loadingMore, error, refresh, loadMore, remove } = useReceivedLikes()
+  const likes = data.likes
+  const { processing, actionError, runAction, clearActionError } = useAsyncAction()
+
+  const refreshWithReset = useCallback(() => {
+    clearActionError()
+    if (loading) return
+    refresh()
+  }, [clearActionError, loading, refresh])
+
+  useLayoutEffect(() => {
+    registerHeader('likedYou', { onRefresh: refreshWithReset, refreshDisabled: loading })
+  }, [registerHeader, refreshWithReset, loading])
+
+  useLayoutEffect(() => {
+    if (loading || error) {
+      registerCount('likedYou', LOADING_COUNT)
+      return
+    }
+    registerCount('likedYou', readyCount(likes.length))
+  }, [registerCount, likes.length, error, loading])
+
+  // Liking back goes through the regular reciprocal-like path, which creates the match
+  const handleRespond = async (userId: string, action: 'LIKE' | 'DISLIKE') => {
+    await runAction({
+      key: `respond:${userId}`,
+      action: async () => {
+        await api.like({ toUserId: userId, action })
+        remove(userId)
+      },
+      errorMessage: action === 'LIKE' ? 'Failed to like back' : 'Failed to pass',
+    })
+  }
+
+  const errorMessage = actionError ?? error
+  const errorTitle = actionError ? 'Like action failed' : 'Likes error'
+
+  return (
+    <div>
+      {loading && <div className="u-muted u-mt-4">Loading likes...</div>}
+
+      {Boolean(errorMessage) && !loading && (
+        <div className="inboxState inboxState--error" role="alert">
+          <div>{errorTitle}</div>
+          <div className="u-muted">{errorMessage}</div>
+          <button className="actionBtn" type="button" onClick={refreshWithReset}>
+            Retry
+          </button>
+        </div>
+      )}
+
+      {!loading && !errorMessage && likes.length === 0 && (
+        <div className="inboxState" role="status" aria-live="polite">
+          <div>No new likes</div>
+          <div className="u-muted">People who like your profile show up here.</div>
+        </div>
+      )}
+
+      <div className="inbox__list u-mt-4" role="list" aria-label="Liked you">
+        {likes.map(item => {
+          const userId = String(item.userId)
+          const name = item.profile?.displayName ?? `User ${userId}`
+          const location = item.profile?.locationText
+          const intent = item.profile?.intent ? prettyIntent(item.profile.intent) : null
+          const subtitle = [location, intent].filter(Boolean).join(' - ')
+          const isResponding = Boolean(processing[`respond:${userId}`])
+          const openProfile = () => nav(`/profiles/${encodeURIComponent(userId)}`)
+
+          const actions: ConnectionRowAction[] = [
+            {
+              label: 'Like back',
+              variant: 'primary',
+              onClick: () => {
+                if (isResponding) return
+                handleRespond(userId, 'LIKE')
+              },
+              disabled: isResponding,
+            },
+            {
+              label: 'Pass',
+              variant: 'secondary',
+              onClick: () => {
+                if (isResponding) return
+                handleRespond(userId, 'DISLIKE')
+              },
+              disabled: isResponding,
+            },
+          ]
+
+          return (
+            <ConnectionRow
+              key={String(item.id)}
+              id={String(item.id)}
+              title={name}
+              subtitle={subtitle}
+              statusLabel={getCompatibilityLabel(item.compatibility)}
+              timestamp={formatConnectionTimestamp(item.likedAt)}
+              avatarUrl={item.profile?.avatarUrl ?? null}
+              profileId={userId}
+              actions={actions}
+              onOpen={openProfile}
+              onOpenProfile={openProfile}
+            />
+          )
+        })}
+      </div>
+
+      {data.nextCursorId != null && !loading && (
+        <div className="inbox__loadMore">
+          <button className="actionBtn" type="button" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading more...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function getCompatibilityLabel(compatibility: CompatibilitySummary | null) {
+  if (!compatibility || compatibility.status !== 'READY' || compatibility.score == null) return null
+  return `${Math.round(compatibility.score * 100)}% compatible`
+}
+
 function getLikeStatusLabel(status?: AccessStatus) {
   switch (status) {
     case 'PENDING':
@@ -2,6 +2,7 @@ export const CORE_SECTIONS = [
   { id: 'inbox', label: 'Inbox' },
   { id: 'matches', label: 'Matches' },
   { id: 'likes', label: 'Likes' },
+  { id: 'likedYou', label: 'Liked you' },
   { id: 'followers', label: 'Followers' },
   { id: 'following', label: 'Following' },
 ] as const
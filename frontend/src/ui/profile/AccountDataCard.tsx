@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react'
+import { api } from '../../api/client'
+import type { AccountExportFormat, AccountExportStatus } from '../../api/types'
+import { useLogout } from '../shell/useLogout'
+
+const EXPORT_POLL_MS = 5000
+
+function formatBytes(bytes: number | null) {
+  if (bytes == null) return ''
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function describeExport(exp: AccountExportStatus) {
+  switch (exp.status) {
+    case 'QUEUED':
+    case 'RUNNING':
+      return 'Preparing your export...'
+    case 'SUCCESS':
+      return exp.downloadable
+        ? `Ready (${formatBytes(exp.sizeBytes)}), available until ${new Date(exp.expiresAt ?? '').toLocaleDateString()}`
+        : 'Your last export has expired'
+    default:
+      return 'The last export failed. Try again.'
+  }
+}
+
+export function AccountDataCard() {
+  const { leaveSignedOut } = useLogout()
+  const [exportStatus, setExportStatus] = useState<AccountExportStatus | null>(null)
+  const [format, setFormat] = useState<AccountExportFormat>('zip')
+  const [requesting, setRequesting] = useState(false)
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const [password, setPassword] = useState('')
+  const [deleting, setDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const inProgress = exportStatus?.status === 'QUEUED' || exportStatus?.status === 'RUNNING'
+
+  useEffect(() => {
+    const controller = new AbortController()
+    api.account
+      .exportStatus(controller.signal)
+      .then(res => setExportStatus(res.export))
+      .catch(() => undefined)
+    return () => controller.abort()
+  }, [])
+
+  useEffect(() => {
+    if (!inProgress) return
+    const controller = new AbortController()
+    const timer = window.setInterval(() => {
+      api.account
+        .exportStatus(controller.signal)
+        .then(res => setExportStatus(res.export))
+        .catch(() => undefined)
+    }, EXPORT_POLL_MS)
+    return () => {
+      window.clearInterval(timer)
+      controller.abort()
+    }
+  }, [inProgress])
+
+  const handleExport = async () => {
+    setError(null)
+    setRequesting(true)
+    try {
+      setExportStatus(await api.account.requestExport(format))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start export')
+    } finally {
+      setRequesting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!password) return
+    setError(null)
+    setDeleting(true)
+    try {
+      await api.account.delete(password)
+      await leaveSignedOut()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete account')
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <div className="u-glass profile__card">
+      <div className="u-stack">
+        <div className="profile__sectionTitle">Your data</div>
+
+        <div className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+          Download a copy of your profile, posts, media, messages, likes, quiz results, interests and ratings.
+        </div>
+
+        {exportStatus && (
+          <div className="u-muted" style={{ fontSize: 'var(--fs-1)' }}>
+            {describeExport(exportStatus)}
+          </div>
+        )}
+
+        <div className="inlineChips">
+          {(['zip', 'json'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              className={`inlineChip${format === option ? ' inlineChip--active' : ''}`}
+              aria-pressed={format === option}
+              onClick={() => setFormat(option)}
+            >
+              {option === 'zip' ? 'ZIP with media' : 'JSON only'}
+            </button>
+          ))}
+        </div>
+
+        <div className="u-row" style={{ gap: 'var(--s-2)' }}>
+          <button className="actionBtn" type="button" onClick={handleExport} disabled={requesting || inProgress}>
+            {inProgress ? 'Preparing...' : 'Request export'}
+          </button>
+          {exportStatus?.downloadable && (
+            <a className="actionBtn" href={api.account.exportDownloadUrl(exportStatus.jobRunId)} download>
+              Download
+            </a>
+          )}
+        </div>
+
+        <div className="profile__sectionTitle">Delete account</div>
+        {confirmingDelete ? (
+          <div className="u-stack" style={{ gap: 'var(--s-2)' }}>
+            <div className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+              Your profile is hidden right away. You can restore it by logging in during the grace period; after that
+              your data is permanently removed.
+            </div>
+            <input
+              className="inlineField__input"
+              type="password"
+              autoComplete="current-password"
+              placeholder="Confirm your password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+            />
+            <div className="u-row" style={{ gap: 'var(--s-2)' }}>
+              <button
+                className="actionBtn actionBtn--nope"
+                type="button"
+                onClick={handleDelete}
+                disabled={deleting || !password}
+              >
+                {deleting ? 'Deleting...' : 'Delete my account'}
+              </button>
+              <button
+                className="actionBtn"
+                type="button"
+                onClick={() => {
+                  setConfirmingDelete(false)
+                  setPassword('')
+                }}
+                disabled={deleting}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button className="actionBtn actionBtn--nope" type="button" onClick={() => setConfirmingDelete(true)}>
+            Delete account
+          </button>
+        )}
+
+        {error && <div className="profile__error">{error}</div>}
+      </div>
+    </div>
+  )
+}
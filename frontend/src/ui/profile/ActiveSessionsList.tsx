@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react'
+import { api } from '../../api/client'
+import type { AuthSession } from '../../api/types'
+import { useLogout } from '../shell/useLogout'
+
+function formatLastActive(value: string) {
+  const d = new Date(value)
+  if (Number.isNaN(d.getTime())) return ''
+  return d.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+export function ActiveSessionsList() {
+  const { logout, logoutEverywhere } = useLogout()
+  const [sessions, setSessions] = useState<AuthSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    api.auth
+      .sessions(controller.signal)
+      .then(res => setSessions(res.sessions))
+      .catch(err => {
+        if (controller.signal.aborted) return
+        setError(err instanceof Error ? err.message : 'Failed to load sessions')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+    return () => controller.abort()
+  }, [])
+
+  const handleRevoke = async (session: AuthSession) => {
+    if (session.current) {
+      await logout()
+      return
+    }
+    const sessionId = String(session.id)
+    setError(null)
+    setPendingId(sessionId)
+    try {
+      await api.auth.revokeSession(sessionId)
+      setSessions(current => current.filter(s => String(s.id) !== sessionId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out session')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <div className="u-glass profile__card">
+      <div className="u-stack">
+        <div className="profile__sectionTitle">Where you're signed in</div>
+
+        {loading ? (
+          <div className="u-muted">Loading sessions...</div>
+        ) : (
+          <div className="profile__blockList">
+            {sessions.map(session => {
+              const sessionId = String(session.id)
+              return (
+                <div key={sessionId} className="profile__blockItem">
+                  <div className="profile__blockName">
+                    {session.deviceLabel ?? 'Unknown device'}
+                    <div className="u-muted" style={{ fontSize: 'var(--fs-1)' }}>
+                      {session.current ? 'This device' : `Last active ${formatLastActive(session.lastUsedAt)}`}
+                    </div>
+                  </div>
+                  <button
+                    className="actionBtn"
+                    type="button"
+                    onClick={() => handleRevoke(session)}
+                    disabled={pendingId === sessionId}
+                  >
+                    {pendingId === sessionId ? 'Signing out...' : 'Sign out'}
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {sessions.length > 1 && (
+          <button className="actionBtn actionBtn--nope" type="button" onClick={logoutEverywhere}>
+            Log out everywhere
+          </button>
+        )}
+
+        {error && <div className="profile__error">{error}</div>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react'
+import { api } from '../../api/client'
+import type { BlockedUser } from '../../api/types'
+import { Avatar } from '../ui/Avatar'
+
+export function BlockedUsersList() {
+  const [blocks, setBlocks] = useState<BlockedUser[]>([])
+  const [nextCursorId, setNextCursorId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    api.blocks
+      .list(undefined, controller.signal)
+      .then(res => {
+        setBlocks(res.blocks)
+        setNextCursorId(res.nextCursorId != null ? String(res.nextCursorId) : null)
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        setError(err instanceof Error ? err.message : 'Failed to load blocked users')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+    return () => controller.abort()
+  }, [])
+
+  const loadMore = async () => {
+    if (!nextCursorId) return
+    setLoadingMore(true)
+    try {
+      const res = await api.blocks.list({ cursorId: nextCursorId })
+      setBlocks(current => [...current, ...res.blocks])
+      setNextCursorId(res.nextCursorId != null ? String(res.nextCursorId) : null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load blocked users')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const handleUnblock = async (userId: string) => {
+    setError(null)
+    setPendingUserId(userId)
+    try {
+      await api.blocks.unblock(userId)
+      setBlocks(current => current.filter(block => String(block.userId) !== userId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unblock user')
+    } finally {
+      setPendingUserId(null)
+    }
+  }
+
+  return (
+    <div className="u-glass profile__card">
+      <div className="u-stack">
+        <div className="profile__sectionTitle">Blocked users</div>
+
+        {loading ? (
+          <div className="u-muted">Loading blocked users...</div>
+        ) : blocks.length === 0 ? (
+          <div className="u-muted">You haven't blocked anyone.</div>
+        ) : (
+          <div className="profile__blockList">
+            {blocks.map(block => {
+              const userId = String(block.userId)
+              const name = block.profile?.displayName ?? 'Unknown user'
+              return (
+                <div key={String(block.id)} className="profile__blockItem">
+                  <Avatar name={name} size="sm" src={block.profile?.avatarUrl ?? null} />
+                  <div className="profile__blockName">{name}</div>
+                  <button
+                    className="actionBtn"
+                    type="button"
+                    onClick={() => handleUnblock(userId)}
+                    disabled={pendingUserId === userId}
+                  >
+                    {pendingUserId === userId ? 'Unblocking...' : 'Unblock'}
+                  </button>
+                </div>
+              )
+            })}
+            {nextCursorId && (
+              <button
+                className="topBar__btn"
+                type="button"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Loading...' : 'Show more'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && <div className="profile__error">{error}</div>}
+      </div>
+    </div>
+  )
+}
@@ -53,6 +53,8 @@ export function HeroTile({ slot, item, onClick }: HeroTileProps) {
     >
       <Media
         src={item.preview ?? item.src}
+        sources={isVideo ? undefined : item.sources}
+        sizes="(max-width: 720px) 100vw, 50vw"
         alt={item.alt}
         type={isVideo ? 'video' : 'image'}
         poster={isVideo ? (item.preview ?? undefined) : undefined}
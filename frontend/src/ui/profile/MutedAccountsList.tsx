@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react'
+import { api } from '../../api/client'
+import type { MutedUser } from '../../api/types'
+import { Avatar } from '../ui/Avatar'
+
+export function MutedAccountsList() {
+  const [mutes, setMutes] = useState<MutedUser[]>([])
+  const [nextCursorId, setNextCursorId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    api.mutes
+      .list(undefined, controller.signal)
+      .then(res => {
+        setMutes(res.mutes)
+        setNextCursorId(res.nextCursorId != null ? String(res.nextCursorId) : null)
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        setError(err instanceof Error ? err.message : 'Failed to load muted accounts')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+    return () => controller.abort()
+  }, [])
+
+  const loadMore = async () => {
+    if (!nextCursorId) return
+    setLoadingMore(true)
+    try {
+      const res = await api.mutes.list({ cursorId: nextCursorId })
+      setMutes(current => [...current, ...res.mutes])
+      setNextCursorId(res.nextCursorId != null ? String(res.nextCursorId) : null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load muted accounts')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const handleUnmute = async (userId: string) => {
+    setError(null)
+    setPendingUserId(userId)
+    try {
+      await api.mutes.unmute(userId)
+      setMutes(current => current.filter(mute => String(mute.userId) !== userId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unmute account')
+    } finally {
+      setPendingUserId(null)
+    }
+  }
+
+  return (
+    <div className="u-glass profile__card">
+      <div className="u-stack">
+        <div className="profile__sectionTitle">Muted accounts</div>
+
+        {loading ? (
+          <div className="u-muted">Loading muted accounts...</div>
+        ) : mutes.length === 0 ? (
+          <div className="u-muted">You haven't muted anyone.</div>
+        ) : (
+          <div className="profile__blockList">
+            {mutes.map(mute => {
+              const userId = String(mute.userId)
+              const name = mute.profile?.displayName ?? 'Unknown user'
+              return (
+                <div key={String(mute.id)} className="profile__blockItem">
+                  <Avatar name={name} size="sm" src={mute.profile?.avatarUrl ?? null} />
+                  <div className="profile__blockName">{name}</div>
+                  <button
+                    className="actionBtn"
+                    type="button"
+                    onClick={() => handleUnmute(userId)}
+                    disabled={pendingUserId === userId}
+                  >
+                    {pendingUserId === userId ? 'Unmuting...' : 'Unmute'}
+                  </button>
+                </div>
+              )
+            })}
+            {nextCursorId && (
+              <button
+                className="topBar__btn"
+                type="button"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Loading...' : 'Show more'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && <div className="profile__error">{error}</div>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react'
+import { api } from '../../api/client'
+import type { NotificationType } from '../../api/types'
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  MATCH_NEW: 'New matches',
+  ACCESS_REQUEST: 'Photo access requests',
+  COMMENT_REPLY: 'Comment replies',
+  COMMENT_MENTION: 'Mentions',
+  POST_LIKE: 'Post likes',
+  PROFILE_RATING: 'Profile ratings',
+  MODERATION_WARNING: 'Moderation warnings',
+}
+
+export function NotificationSettingsCard() {
+  const [types, setTypes] = useState<NotificationType[]>([])
+  const [muted, setMuted] = useState<NotificationType[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    api.notifications
+      .settings(controller.signal)
+      .then(res => {
+        setTypes(res.types)
+        setMuted(res.mutedTypes)
+      })
+      .catch(() => undefined)
+    return () => controller.abort()
+  }, [])
+
+  const toggle = async (type: NotificationType) => {
+    const next = muted.includes(type) ? muted.filter(t => t !== type) : [...muted, type]
+    const previous = muted
+    setMuted(next)
+    setError(null)
+    setSaving(true)
+    try {
+      const res = await api.notifications.updateSettings(next)
+      setMuted(res.mutedTypes)
+    } catch (err) {
+      setMuted(previous)
+      setError(err instanceof Error ? err.message : 'Failed to save notification settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (types.length === 0) return null
+
+  return (
+    <div className="u-glass profile__card">
+      <div className="u-stack">
+        <div className="profile__sectionTitle">Notifications</div>
+
+        <div className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+          Highlighted types are delivered. Tap one to mute it.
+        </div>
+
+        <div className="inlineChips">
+          {types.map(type => {
+            const enabled = !muted.includes(type)
+            return (
+              <button
+                key={type}
+                type="button"
+                className={`inlineChip${enabled ? ' inlineChip--active' : ''}`}
+                aria-pressed={enabled}
+                disabled={saving}
+                onClick={() => void toggle(type)}
+              >
+                {TYPE_LABELS[type]}
+              </button>
+            )
+          })}
+        </div>
+
+        {error && <div className="profile__error">{error}</div>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react'
+import { api } from '../../api/client'
+import { HttpError } from '../../api/http'
+import type { DatingPreferences, Gender } from '../../api/types'
+
+const AGE_MIN = 18
+const AGE_MAX = 99
+
+const genderOptions: { value: Gender; label: string }[] = [
+  { value: 'MALE', label: 'Men' },
+  { value: 'FEMALE', label: 'Women' },
+  { value: 'NONBINARY', label: 'Nonbinary' },
+  { value: 'OTHER', label: 'Other' },
+]
+
+type FormState = {
+  ageMin: string
+  ageMax: string
+  distanceKm: string
+  genders: Gender[]
+}
+
+const emptyForm: FormState = { ageMin: '', ageMax: '', distanceKm: '', genders: [] }
+
+function toFormState(prefs: DatingPreferences): FormState {
+  return {
+    ageMin: prefs.preferredAgeMin != null ? String(prefs.preferredAgeMin) : '',
+    ageMax: prefs.preferredAgeMax != null ? String(prefs.preferredAgeMax) : '',
+    distanceKm: prefs.preferredDistanceKm != null ? String(prefs.preferredDistanceKm) : '',
+    genders: prefs.preferredGenders,
+  }
+}
+
+function toNumberOrNull(value: string) {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  const num = Number(trimmed)
+  return Number.isFinite(num) ? Math.round(num) : null
+}
+
+function validate(form: FormState): string | null {
+  const ageMin = toNumberOrNull(form.ageMin)
+  const ageMax = toNumberOrNull(form.ageMax)
+  const distance = toNumberOrNull(form.distanceKm)
+  if (ageMin !== null && (ageMin < AGE_MIN || ageMin > AGE_MAX)) {
+    return `Minimum age must be between ${AGE_MIN} and ${AGE_MAX}`
+  }
+  if (ageMax !== null && (ageMax < AGE_MIN || ageMax > AGE_MAX)) {
+    return `Maximum age must be between ${AGE_MIN} and ${AGE_MAX}`
+  }
+  if (ageMin !== null && ageMax !== null && ageMin > ageMax) {
+    return 'Minimum age must not exceed maximum age'
+  }
+  if (distance !== null && distance < 1) {
+    return 'Distance must be at least 1 km'
+  }
+  return null
+}
+
+export function PreferencesEditor() {
+  const [form, setForm] = useState<FormState>(emptyForm)
+  const [saved, setSaved] = useState<FormState>(emptyForm)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    api.preferences
+      .get(controller.signal)
+      .then(prefs => {
+        const next = toFormState(prefs)
+        setForm(next)
+        setSaved(next)
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        setError(err instanceof Error ? err.message : 'Failed to load preferences')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+    return () => controller.abort()
+  }, [])
+
+  const hasChanges = JSON.stringify(form) !== JSON.stringify(saved)
+
+  const toggleGender = (value: Gender) => {
+    setNotice(null)
+    setForm(current => ({
+      ...current,
+      genders: current.genders.includes(value)
+        ? current.genders.filter(g => g !== value)
+        : [...current.genders, value],
+    }))
+  }
+
+  const handleSave = async () => {
+    const validationError = validate(form)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    setError(null)
+    setNotice(null)
+    setSaving(true)
+    try {
+      const updated = await api.preferences.update({
+        preferredAgeMin: toNumberOrNull(form.ageMin),
+        preferredAgeMax: toNumberOrNull(form.ageMax),
+        preferredDistanceKm: toNumberOrNull(form.distanceKm),
+        preferredGenders: form.genders,
+      })
+      const next = toFormState(updated)
+      setForm(next)
+      setSaved(next)
+      setNotice('Preferences saved. Your matches will refresh shortly.')
+    } catch (err) {
+      if (err instanceof HttpError && typeof err.body === 'object' && err.body && 'error' in err.body) {
+        setError(String(err.body.error))
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save preferences')
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="u-glass profile__card">
+      <div className="u-stack">
+        <div className="profile__sectionTitle">Dating preferences</div>
+
+        {loading ? (
+          <div className="u-muted">Loading preferences...</div>
+        ) : (
+          <>
+            <div className="inlineField__grid">
+              <div className="inlineField">
+                <div className="inlineField__labelRow">
+                  <div className="inlineField__label">Min age</div>
+                </div>
+                <input
+                  className="inlineField__input"
+                  type="number"
+                  inputMode="numeric"
+                  min={AGE_MIN}
+                  max={AGE_MAX}
+                  value={form.ageMin}
+                  onChange={e => setForm({ ...form, ageMin: e.target.value })}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="inlineField">
+                <div className="inlineField__labelRow">
+                  <div className="inlineField__label">Max age</div>
+                </div>
+                <input
+                  className="inlineField__input"
+                  type="number"
+                  inputMode="numeric"
+                  min={AGE_MIN}
+                  max={AGE_MAX}
+                  value={form.ageMax}
+                  onChange={e => setForm({ ...form, ageMax: e.target.value })}
+                  placeholder="Any"
+                />
+              </div>
+            </div>
+
+            <div className="inlineField">
+              <div className="inlineField__labelRow">
+                <div className="inlineField__label">Max distance (km)</div>
+              </div>
+              <input
+                className="inlineField__input"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                value={form.distanceKm}
+                onChange={e => setForm({ ...form, distanceKm: e.target.value })}
+                placeholder="Any distance"
+              />
+            </div>
+
+            <div className="inlineField">
+              <div className="inlineField__labelRow">
+                <div className="inlineField__label">Interested in</div>
+              </div>
+              <div className="inlineChips">
+                {genderOptions.map(option => {
+                  const active = form.genders.includes(option.value)
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      className={`inlineChip${active ? ' inlineChip--active' : ''}`}
+                      aria-pressed={active}
+                      onClick={() => toggleGender(option.value)}
+                    >
+                      {option.label}
+                    </button>
+                  )
+                })}
+              </div>
+              <div className="inlineField__hint">Leave empty to see everyone.</div>
+            </div>
+
+            {error && <div className="profile__error">{error}</div>}
+            {notice && !error && <div className="inlineField__hint">{notice}</div>}
+
+            <button
+              className="topBar__btn"
+              type="button"
+              onClick={handleSave}
+              disabled={saving || !hasChanges}
+            >
+              {saving ? 'Saving...' : 'Save Preferences'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react'
+import { api } from '../../api/client'
+import type { PrivacySettings } from '../../api/types'
+
+const SETTING_LABELS: Record<keyof PrivacySettings, string> = {
+  hideOnlineStatus: 'Online status',
+  hideLastSeen: 'Last seen',
+  disableTypingIndicators: 'Typing indicators',
+  disableReadReceipts: 'Read receipts',
+}
+
+const SETTING_KEYS = Object.keys(SETTING_LABELS) as (keyof PrivacySettings)[]
+
+export function PrivacySettingsCard() {
+  const [settings, setSettings] = useState<PrivacySettings | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    api.preferences
+      .privacy(controller.signal)
+      .then(setSettings)
+      .catch(() => undefined)
+    return () => controller.abort()
+  }, [])
+
+  const toggle = async (key: keyof PrivacySettings) => {
+    if (!settings) return
+    const previous = settings
+    setSettings({ ...settings, [key]: !settings[key] })
+    setError(null)
+    setSaving(true)
+    try {
+      setSettings(await api.preferences.updatePrivacy({ [key]: !previous[key] }))
+    } catch (err) {
+      setSettings(previous)
+      setError(err instanceof Error ? err.message : 'Failed to save privacy settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!settings) return null
+
+  return (
+    <div className="u-glass profile__card">
+      <div className="u-stack">
+        <div className="profile__sectionTitle">Privacy</div>
+
+        <div className="u-muted" style={{ fontSize: 'var(--fs-2)' }}>
+          Highlighted items are shared with people you chat with. Tap one to hide it.
+        </div>
+
+        <div className="inlineChips">
+          {SETTING_KEYS.map(key => {
+            const shared = !settings[key]
+            return (
+              <button
+                key={key}
+                type="button"
+                className={`inlineChip${shared ? ' inlineChip--active' : ''}`}
+                aria-pressed={shared}
+                disabled={saving}
+                onClick={() => void toggle(key)}
+              >
+                {SETTING_LABELS[key]}
+              </button>
+            )
+          })}
+        </div>
+
+        {error && <div className="profile__error">{error}</div>}
+      </div>
+    </div>
+  )
+}
@@ -161,6 +161,7 @@ function GridCardComponent({
               <RiverCardEngagement stats={mergedStats} />
               <RiverCardActions
                 actorId={actorId}
+                card={card}
                 onToast={onToast}
                 initialRating={mergedStats?.myRating ?? null}
                 onRated={handleRated}
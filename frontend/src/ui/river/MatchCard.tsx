@@ -35,6 +35,7 @@ function MatchCardComponent({
       <RiverCardEngagement stats={mergedStats} />
       <RiverCardActions
         actorId={actorId}
+        card={card}
         onToast={onToast}
         initialRating={mergedStats?.myRating ?? null}
         onRated={handleRated}
@@ -95,6 +95,7 @@ function MosaicCardComponent({
       <RiverCardEngagement stats={mergedStats} />
       <RiverCardActions
         actorId={actorId}
+        card={card}
         onToast={onToast}
         initialRating={mergedStats?.myRating ?? null}
         onRated={handleRated}
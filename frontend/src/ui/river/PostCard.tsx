@@ -7,6 +7,7 @@ import { CommentWidget } from './CommentWidget'
 import { RiverCardEngagement } from './RiverCardEngagement'
 import { RiverCardActions } from './RiverCardActions'
 import { useRiverCardCommentAdapter } from './useRiverCardState'
+import { trackFeedEngagement } from '../../core/feed/feedEngagement'
 
 type PostCardProps = {
   card: FeedCard
@@ -33,8 +34,9 @@ function PostCardComponent({
   const [commentOpen, setCommentOpen] = useState(false)
 
   const handleToggleComments = useCallback(() => {
+    if (!commentOpen) trackFeedEngagement(card.kind, card.id, 'comment_open')
     setCommentOpen(prev => !prev)
-  }, [])
+  }, [commentOpen, card.kind, card.id])
 
   // Adapter: Bridges authoritative count from widget (single writer) to card (read-only display)
   // Card state is READ-ONLY - only updates via setAuthoritativeCommentCount (enforced)
@@ -86,6 +88,7 @@ function PostCardComponent({
       <RiverCardEngagement stats={mergedStats} />
       <RiverCardActions
         actorId={actorId}
+        card={card}
         onToast={onToast}
         initialRating={mergedStats?.myRating ?? null}
         onRated={handleRated}
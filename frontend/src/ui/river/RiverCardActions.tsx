@@ -1,8 +1,15 @@
-import type { FeedCardStats, Id } from '../../api/types'
+import { useCallback, useState } from 'react'
+import type { FeedCard, FeedCardStats, Id } from '../../api/types'
+import { api } from '../../api/client'
+import { useAuth } from '../../core/auth/useAuth'
+import { dispatchFeedRemoveCards } from '../../core/feed/feedEvents'
+import { feedEngagementTarget } from '../../core/feed/feedEngagement'
+import { getErrorMessage } from '../../core/utils/errors'
 import { ActionBar } from '../actions/ActionBar'
 
 type RiverCardActionsProps = {
   actorId?: Id
+  card?: Pick<FeedCard, 'id' | 'kind' | 'flags'>
   onToast?: (message: string) => void
   initialRating?: FeedCardStats['myRating'] | null
   onRated?: (rating: NonNullable<FeedCardStats['myRating']>) => void
@@ -11,21 +18,73 @@ type RiverCardActionsProps = {
 
 export function RiverCardActions({
   actorId,
+  card,
   onToast,
   initialRating,
   onRated,
 }: RiverCardActionsProps) {
+  const { userId: viewerId } = useAuth()
+  const [muting, setMuting] = useState(false)
+
+  const canHide =
+    card != null &&
+    !card.flags?.optimistic &&
+    feedEngagementTarget(card.kind, card.id)?.itemType === 'post'
+  const canMute = actorId != null && viewerId != null && String(actorId) !== String(viewerId)
+
+  const handleHide = useCallback(() => {
+    if (!card) return
+    // useFeedSync stores the hide server-side
+    window.dispatchEvent(
+      new CustomEvent('feed:hide', {
+        detail: { itemType: card.kind, itemId: card.id, reason: 'hide' },
+      })
+    )
+    dispatchFeedRemoveCards({ cardId: card.id })
+    onToast?.('Post hidden')
+  }, [card, onToast])
+
+  const handleMute = useCallback(async () => {
+    if (actorId == null || muting) return
+    setMuting(true)
+    try {
+      await api.mutes.mute(actorId)
+      dispatchFeedRemoveCards({ actorId: String(actorId) })
+      onToast?.('Muted. Manage muted accounts in your settings.')
+    } catch (e: unknown) {
+      onToast?.(getErrorMessage(e, 'Mute failed'))
+    } finally {
+      setMuting(false)
+    }
+  }, [actorId, muting, onToast])
+
   if (!actorId) return null
 
   return (
-    <div className="riverCard__actions" onClick={stopPropagation} onKeyDown={stopPropagation}>
-      <ActionBar
-        userId={actorId}
-        onToast={onToast}
-        initialRating={initialRating ?? null}
-        onRated={onRated}
-      />
-    </div>
+    <>
+      <div className="riverCard__actions" onClick={stopPropagation} onKeyDown={stopPropagation}>
+        <ActionBar
+          userId={actorId}
+          onToast={onToast}
+          initialRating={initialRating ?? null}
+          onRated={onRated}
+        />
+      </div>
+      {(canHide || canMute) && (
+        <div className="riverCard__actions" onClick={stopPropagation} onKeyDown={stopPropagation}>
+          {canHide && (
+            <button type="button" className="actionBtn" onClick={handleHide}>
+              Hide post
+            </button>
+          )}
+          {canMute && (
+            <button type="button" className="actionBtn" onClick={handleMute} disabled={muting}>
+              {muting ? 'Muting...' : 'Mute'}
+            </button>
+          )}
+        </div>
+      )}
+    </>
   )
 }
 
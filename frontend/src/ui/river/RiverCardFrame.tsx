@@ -5,6 +5,7 @@ import type { WsPresenceStatus } from '@app/shared/ws/contracts'
 import { RiverCardMedia } from './RiverCardMedia'
 import { RiverCardHeader } from './RiverCardHeader'
 import { useFeedSeen } from '../../core/feed/useFeedSeen'
+import { trackFeedEngagement, useFeedDwell } from '../../core/feed/feedEngagement'
 
 type RiverCardFrameProps = {
   card: FeedCard
@@ -42,6 +43,7 @@ export function RiverCardFrame({
   const hero = card.heroUrl ?? null
   const actorId = card.actor?.id
   const { cardRef, isIntersecting: cardIsIntersecting } = useFeedSeen(card, position)
+  useFeedDwell(card, cardIsIntersecting)
   const presentation = card.presentation
   // Accent is determined by card kind or presentation - match cards get match accent
   const accent = presentation?.accent ?? (card.kind === 'match' ? 'match' : null)
@@ -56,11 +58,17 @@ export function RiverCardFrame({
 
   const handleOpen = useCallback(() => {
     if (!actorId || !onOpenProfile) return
+    trackFeedEngagement(card.kind, card.id, 'profile_open')
     onOpenProfile(actorId)
-  }, [actorId, onOpenProfile])
+  }, [actorId, onOpenProfile, card.kind, card.id])
 
   return (
-    <article ref={cardRef} className={cardClassName}>
+    <article
+      ref={cardRef}
+      className={cardClassName}
+      data-feed-card-id={card.id}
+      data-feed-card-kind={card.kind}
+    >
       {showMedia && (
         <RiverCardMedia
           hero={hero}
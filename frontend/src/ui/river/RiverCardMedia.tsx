@@ -7,6 +7,7 @@ import { useMediaPreferences } from '../../core/feed/useMediaPreferences'
 import { useIntersectionThreshold } from '../../core/feed/useIntersectionThreshold'
 import { parseEmbedUrl } from '../../core/media/embedMedia'
 import { EmbedMedia } from '../ui/EmbedMedia'
+import { Picture } from '../ui/Picture'
 import { optimizeMosaicLayout } from '../../core/feed/mosaicMediaSelector'
 
 const SWIPE_THRESHOLD = 48
@@ -16,6 +17,8 @@ const CONTROLS_FADE_DELAY = 3000
 const CONTROLS_HOVER_DELAY = 2000
 const SHORT_VIDEO_DURATION = 10
 const MEDIA_NAV_BUTTON_CLASS = 'riverCard__mediaBtn'
+const CARD_IMAGE_SIZES = '(max-width: 720px) 100vw, 720px'
+const MOSAIC_TILE_SIZES = '(max-width: 720px) 50vw, 360px'
 
 export function RiverCardMedia({
   hero,
@@ -323,9 +326,11 @@ function AriaLiveAnnouncement({ index, total }: { index: number; total: number }
 function MediaItem({
   item,
   isCardIntersecting,
+  sizes = CARD_IMAGE_SIZES,
 }: {
   item: FeedMedia
   isCardIntersecting?: boolean
+  sizes?: string
 }) {
   const preview = item.thumbUrl ?? item.url
   const isVideo = item.type === 'VIDEO' || isVideoUrl(item.url)
@@ -346,11 +351,17 @@ function MediaItem({
   const shouldLoop = isVideo && item.durationSec != null && item.durationSec <= SHORT_VIDEO_DURATION
   const shouldAutoplay = isVideo && Boolean(isCardIntersecting) && isThresholdMet && autoplayEnabled
 
-  const { isPlaying, togglePlayPause } = useVideoPlayback(videoRef, shouldAutoplay, {
+  const {
+    isPlaying,
+    togglePlayPause,
+    src: videoSrc,
+    loop: videoLoop,
+  } = useVideoPlayback(videoRef, shouldAutoplay, {
     autoplay: autoplayEnabled,
     muted: true,
     loop: shouldLoop,
     pauseOnLeave: true,
+    sources: isVideo ? item : undefined,
   })
 
   useEffect(() => {
@@ -482,11 +493,11 @@ function MediaItem({
         <video
           ref={videoRef}
           className="riverCard__mediaItem"
-          src={item.url}
+          src={videoSrc ?? item.url}
           poster={posterError ? undefined : (preview ?? undefined)}
           muted
           playsInline
-          loop={shouldLoop}
+          loop={videoLoop}
           preload={shouldAutoplay ? 'metadata' : 'none'}
           onError={handleMediaError}
         />
@@ -563,13 +574,15 @@ function MediaItem({
   }
 
   return (
-    <img
-      className="riverCard__mediaItem"
-      src={preview ?? item.url}
-      alt=""
-      loading="lazy"
-      onError={handleMediaError}
-    />
+    <Picture sources={item.sources} sizes={sizes}>
+      <img
+        className="riverCard__mediaItem"
+        src={preview ?? item.url}
+        alt=""
+        loading="lazy"
+        onError={handleMediaError}
+      />
+    </Picture>
   )
 }
 
@@ -602,10 +615,18 @@ function MosaicMedia({
     return (
       <div className="riverCard__mediaMosaic">
         <div className="riverCard__mediaTile riverCard__mediaTile--a">
-          <MediaItem item={items[0]} isCardIntersecting={isCardIntersecting} />
+          <MediaItem
+            item={items[0]}
+            isCardIntersecting={isCardIntersecting}
+            sizes={MOSAIC_TILE_SIZES}
+          />
         </div>
         <div className="riverCard__mediaTile riverCard__mediaTile--b">
-          <MediaItem item={items[1]} isCardIntersecting={isCardIntersecting} />
+          <MediaItem
+            item={items[1]}
+            isCardIntersecting={isCardIntersecting}
+            sizes={MOSAIC_TILE_SIZES}
+          />
         </div>
       </div>
     )
@@ -646,7 +667,7 @@ function MosaicTile({
   }
   return (
     <div className={className}>
-      <MediaItem item={item} isCardIntersecting={isCardIntersecting} />
+      <MediaItem item={item} isCardIntersecting={isCardIntersecting} sizes={MOSAIC_TILE_SIZES} />
     </div>
   )
 }
@@ -48,6 +48,7 @@ function SuggestionCardComponent({
         detail: {
           itemType: card.kind, // Use canonical kind, not legacy 'suggestion'
           itemId: card.id,
+          reason: 'not_interested',
         },
       })
     )
@@ -96,6 +97,7 @@ function SuggestionCardComponent({
       <RiverCardEngagement stats={mergedStats} />
       <RiverCardActions
         actorId={actorId}
+        card={card}
         onToast={onToast}
         initialRating={mergedStats?.myRating ?? null}
         onRated={handleRated}
@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { AppNotification } from '../../api/types'
+import { useNotifications } from '../../core/notifications/useNotifications'
+import { Avatar } from '../ui/Avatar'
+
+function describe(notification: AppNotification) {
+  const name = notification.actor?.displayName ?? 'Someone'
+  switch (notification.type) {
+    case 'MATCH_NEW':
+      return `You matched with ${name}`
+    case 'ACCESS_REQUEST':
+      return `${name} asked to see your private photos`
+    case 'COMMENT_REPLY':
+      return `${name} replied to your comment`
+    case 'COMMENT_MENTION':
+      return `${name} mentioned you in a comment`
+    case 'POST_LIKE':
+      return `${name} liked your post`
+    case 'PROFILE_RATING':
+      return `${name} rated your profile`
+    case 'MODERATION_WARNING': {
+      const reasons = notification.data?.reasons
+      return typeof reasons === 'string' && reasons
+        ? `A moderator warned your account (${reasons.toLowerCase().split(',').join(', ')})`
+        : 'A moderator warned your account'
+    }
+  }
+}
+
+function targetPath(notification: AppNotification) {
+  const conversationId = notification.data?.conversationId
+  if (notification.type === 'MATCH_NEW' && conversationId != null) {
+    return `/connections/conversation/${conversationId}`
+  }
+  return notification.actor ? `/profiles/${notification.actor.id}` : null
+}
+
+export function NotificationBell() {
+  const nav = useNavigate()
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const {
+    notifications,
+    unreadCount,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    markRead,
+    markAllRead,
+  } = useNotifications()
+
+  useEffect(() => {
+    if (!open) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [open])
+
+  const handleSelect = (notification: AppNotification) => {
+    if (!notification.readAt) void markRead(notification.id)
+    const path = targetPath(notification)
+    setOpen(false)
+    if (path) nav(path)
+  }
+
+  return (
+    <div className="notificationBell" ref={containerRef}>
+      <button
+        type="button"
+        className="notificationBell__toggle"
+        aria-label={unreadCount ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={open}
+        onClick={() => setOpen(v => !v)}
+      >
+        <span aria-hidden="true">🔔</span>
+        {unreadCount > 0 && (
+          <span className="notificationBell__badge">{unreadCount > 99 ? '99+' : unreadCount}</span>
+        )}
+      </button>
+      {open && (
+        <div className="notificationBell__panel u-glass" role="dialog" aria-label="Notifications">
+          <div className="notificationBell__header">
+            <span className="profile__sectionTitle">Notifications</span>
+            {unreadCount > 0 && (
+              <button type="button" className="topBar__link" onClick={() => void markAllRead()}>
+                Mark all read
+              </button>
+            )}
+          </div>
+          {error && <div className="profile__error">{error}</div>}
+          {loading ? (
+            <div className="u-muted">Loading...</div>
+          ) : notifications.length === 0 ? (
+            <div className="u-muted">Nothing new yet.</div>
+          ) : (
+            <ul className="notificationBell__list">
+              {notifications.map(notification => (
+                <li key={String(notification.id)}>
+                  <button
+                    type="button"
+                    className={`notificationBell__item${notification.readAt ? '' : ' notificationBell__item--unread'}`}
+                    onClick={() => handleSelect(notification)}
+                  >
+                    <Avatar
+                      name={notification.actor?.displayName ?? null}
+                      size="sm"
+                      src={notification.actor?.avatarUrl ?? null}
+                      onClick={() => handleSelect(notification)}
+                    />
+                    <span className="notificationBell__text">
+                      <span>{describe(notification)}</span>
+                      <span className="u-muted">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {hasMore && (
+            <button
+              type="button"
+              className="actionBtn"
+              disabled={loadingMore}
+              onClick={() => void loadMore()}
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { ReactNode } from 'react'
 import { Avatar } from '../ui/Avatar'
+import { NotificationBell } from './NotificationBell'
 
 type UserInfo = {
   displayName?: string | null
@@ -34,6 +35,7 @@ export function TopBar({
   } else if (user.isLoggedIn) {
     actions = (
       <>
+        <NotificationBell />
         <Avatar 
           name={user.displayName ?? 'Account'} 
           size="sm" 
@@ -4,6 +4,13 @@ import { api } from '../../api/client'
 import { HttpError } from '../../api/http'
 import { Avatar } from '../ui/Avatar'
 import { ProfileInlineEditor } from '../profile/ProfileInlineEditor'
+import { PreferencesEditor } from '../profile/PreferencesEditor'
+import { BlockedUsersList } from '../profile/BlockedUsersList'
+import { MutedAccountsList } from '../profile/MutedAccountsList'
+import { ActiveSessionsList } from '../profile/ActiveSessionsList'
+import { AccountDataCard } from '../profile/AccountDataCard'
+import { NotificationSettingsCard } from '../profile/NotificationSettingsCard'
+import { PrivacySettingsCard } from '../profile/PrivacySettingsCard'
 import type { Id, ProfileResponse } from '../../api/types'
 
 const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp'
@@ -368,6 +375,20 @@ export function UserControlPanel({ open, userId, profile, onClose, onUpdated }:
                     {profileSaveError}
                   </div>
                 )}
+
+                <PreferencesEditor />
+
+                <BlockedUsersList />
+
+                <MutedAccountsList />
+
+                <ActiveSessionsList />
+
+                <NotificationSettingsCard />
+
+                <PrivacySettingsCard />
+
+                <AccountDataCard />
           
               </div>
             </>
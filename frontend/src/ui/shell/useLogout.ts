@@ -9,10 +9,10 @@ const DEBUG = Boolean(import.meta.env?.DEV)
 export function useLogout() {
   const nav = useNavigate()
 
-  const logout = useCallback(async () => {
+  const signOut = useCallback(async (revoke: (() => Promise<unknown>) | null) => {
     try {
       abortRefresh()
-      await api.auth.logout()
+      if (revoke) await revoke()
     } catch (error) {
       if (DEBUG) {
         console.error('[logout] API call failed:', error)
@@ -39,5 +39,11 @@ export function useLogout() {
     nav('/login', { replace: true })
   }, [nav])
 
-  return { logout }
+  const logout = useCallback(() => signOut(() => api.auth.logout()), [signOut])
+  // Revokes every session of the account, not just this browser's
+  const logoutEverywhere = useCallback(() => signOut(() => api.auth.logoutEverywhere()), [signOut])
+  // The server already revoked everything (e.g. account deletion); only clear local state
+  const leaveSignedOut = useCallback(() => signOut(null), [signOut])
+
+  return { logout, logoutEverywhere, leaveSignedOut }
 }
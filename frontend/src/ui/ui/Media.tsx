@@ -4,9 +4,13 @@ import { useModalState } from '../shell/useModalState'
 import { useIntersectionThreshold } from '../../core/feed/useIntersectionThreshold'
 import { useMediaPreferences } from '../../core/feed/useMediaPreferences'
 import { useVideoPlayback } from '../../core/feed/useVideoPlayback'
+import type { MediaSource } from '../../api/types'
+import { Picture } from './Picture'
 
 type MediaProps = {
   src: string
+  sources?: MediaSource[]
+  sizes?: string
   alt?: string
   type?: 'image' | 'video' | 'audio'
   poster?: string
@@ -28,6 +32,8 @@ type MediaProps = {
 
 export function Media({
   src,
+  sources,
+  sizes = '100vw',
   alt = '',
   type = 'image',
   poster,
@@ -286,15 +292,17 @@ export function Media({
           </svg>
         </div>
       ) : (
-        <img
-          ref={imgRef}
-          src={src}
-          alt={alt}
-          loading={loading}
-          onLoad={handleLoad}
-          onError={handleError}
-          className="media__element"
-        />
+        <Picture sources={sources} sizes={sizes}>
+          <img
+            ref={imgRef}
+            src={src}
+            alt={alt}
+            loading={loading}
+            onLoad={handleLoad}
+            onError={handleError}
+            className="media__element"
+          />
+        </Picture>
       )}
     </div>
   )
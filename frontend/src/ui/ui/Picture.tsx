@@ -0,0 +1,26 @@
+import type { ReactElement } from 'react'
+import type { MediaSource } from '../../api/types'
+
+/**
+ * Wraps an <img> in <picture> when the server generated sized variants,
+ * so the browser picks the best format and width for the slot (`sizes`).
+ */
+export function Picture({
+  sources,
+  sizes,
+  children,
+}: {
+  sources?: MediaSource[]
+  sizes?: string
+  children: ReactElement
+}) {
+  if (!sources?.length) return children
+  return (
+    <picture className="picture">
+      {sources.map(source => (
+        <source key={source.type} type={source.type} srcSet={source.srcset} sizes={sizes} />
+      ))}
+      {children}
+    </picture>
+  )
+}
@@ -5,7 +5,11 @@ export type {
   WsEventType,
   WsEvents,
   WsInternalDisconnectReason,
+  WsMediaStatus,
   WsMessage,
+  WsMessageReaction,
+  WsNotification,
+  WsNotificationType,
   WsPresenceStatus,
   WsSubscribeTopic
 } from './ws/contracts.js'
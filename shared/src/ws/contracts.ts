@@ -4,6 +4,33 @@ export type WsInternalDisconnectReason = 'heartbeat_timeout' | 'client_close' |
 export type WsSubscribeTopic =
   | { kind: 'conversation'; id: string }
   | { kind: 'user'; id: string }
+  | { kind: 'presence'; id: string }
+
+export type WsNotificationType =
+  | 'MATCH_NEW'
+  | 'ACCESS_REQUEST'
+  | 'COMMENT_REPLY'
+  | 'COMMENT_MENTION'
+  | 'POST_LIKE'
+  | 'PROFILE_RATING'
+  | 'MODERATION_WARNING'
+
+export type WsNotification = {
+  id: string
+  type: WsNotificationType
+  actor: { id: string; displayName: string | null; avatarUrl: string | null } | null
+  entityId: string | null
+  data: Record<string, string | number | boolean | null> | null
+  readAt: string | null
+  createdAt: string
+}
+
+export type WsMediaStatus = 'READY' | 'REJECTED' | 'FAILED'
+
+export type WsMessageReaction = {
+  emoji: string
+  userIds: string[]
+}
 
 export type WsEnvelope<T extends string, P> = {
   type: T
@@ -28,13 +55,61 @@ export type WsEvents = {
     body: string
     createdAt: string
     isSystem: boolean
+    mediaIds: string[]
   }
-  'server.messenger.message_read': {
+  'server.messenger.typing': {
+    conversationId: string
+    userId: string
+    isTyping: boolean
+  }
+  'server.messenger.read_watermark': {
     conversationId: string
-    messageId: string
     readerId: string
+    lastReadMessageId: string
     readAt: string
   }
+  'server.messenger.message_edited': {
+    conversationId: string
+    messageId: string
+    body: string
+    editedAt: string
+  }
+  'server.messenger.message_deleted': {
+    conversationId: string
+    messageId: string
+    deletedAt: string
+  }
+  'server.messenger.reactions_updated': {
+    conversationId: string
+    messageId: string
+    reactions: WsMessageReaction[]
+  }
+  'server.match.created': {
+    matchId: string
+    conversationId: string | null
+    userAId: string
+    userBId: string
+    createdAt: string
+  }
+  'server.match.closed': {
+    matchId: string
+    conversationId: string | null
+    state: 'CLOSED' | 'BLOCKED'
+    closedBy: string
+    closedAt: string
+  }
+  'server.media.status': {
+    mediaId: string
+    status: WsMediaStatus
+    reason: string | null
+    durationSec: number | null
+    width: number | null
+    height: number | null
+  }
+  'server.notification.new': {
+    notification: WsNotification
+    unreadCount: number
+  }
   'server.presence.update': {
     userId: string
     status: WsPresenceStatus